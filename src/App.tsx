@@ -14,15 +14,17 @@ import * as calendarService from './services/calendarService';
 import { createAppTheme } from './theme';
 import TradeLoadingIndicator from './components/TradeLoadingIndicator';
 import { useRealtimeSubscription } from './hooks/useRealtimeSubscription';
-import { useCalendars } from './hooks/useCalendars';
+import { useCalendars, useMemberCalendars } from './hooks/useCalendars';
 import { logger } from './utils/logger';
 import { supabaseAuthService } from './services/supabaseAuthService';
+import { CalendarMemberRole, canEditCalendar } from './types/collaboration';
 
 
 import AppLoadingProgress from './components/AppLoadingProgress';
 
 
 import AppHeader from './components/common/AppHeader';
+import { ReminderAlerts } from './components/reminderNotes';
 
 // Lazy load page components from pages directory
 const Home = lazy(() => import('./pages/HomePage'));
@@ -34,6 +36,7 @@ const SharedCalendarPage = lazy(() => import('./pages/SharedCalendarPage'));
 const AuthCallback = lazy(() => import('./pages/AuthCallbackPage'));
 const PasswordResetPage = lazy(() => import('./pages/PasswordResetPage'));
 const CommunityPage = lazy(() => import('./pages/CommunityPage'));
+const CalendarInvitePage = lazy(() => import('./pages/CalendarInvitePage'));
 // const SupabaseAuthTest = lazy(() => import('./components/auth/SupabaseAuthTest')); // Commented out - for testing only
 
 
@@ -93,6 +96,12 @@ function AppContent() {
     revalidateOnFocus: true, // Auto-refetch when tab regains focus
   });
 
+  // Calendars other users invited this user to
+  const {
+    memberCalendars,
+    isLoading: isLoadingMemberCalendars,
+  } = useMemberCalendars(user?.uid);
+
   // Local state for calendars to allow updates (like adding trades)
   const [calendars, setCalendars] = useState<Calendar[]>([]);
 
@@ -240,6 +249,7 @@ function AppContent() {
             isLoading={isLoadingTrades}
             action={loadingAction}
           />
+          {user && <ReminderAlerts userId={user.uid} />}
           <Routes>
             <Route path="/about" element={<AboutPage />} />
             <Route
@@ -285,6 +295,8 @@ function AppContent() {
                 >
                   <CalendarRoute
                     calendars={calendars}
+                    memberCalendars={memberCalendars}
+                    isLoadingMemberCalendars={isLoadingMemberCalendars}
                     onToggleTheme={toggleColorMode}
                     mode={mode}
                     setLoading={setLoading}
@@ -292,6 +304,17 @@ function AppContent() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/calendar-invite/:code"
+              element={
+                <ProtectedRoute
+                  title="Join a Trading Calendar"
+                  subtitle="Sign in to accept the calendar invite"
+                >
+                  <CalendarInvitePage />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/shared/:shareId"
               element={<SharedTradePage />}
@@ -322,6 +345,20 @@ function AppContent() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/community/:profileId"
+              element={
+                <ProtectedRoute
+                  title="Join the Trading Community"
+                  subtitle="Sign in to connect with other traders and share insights"
+                >
+                  <CommunityPage
+                    onToggleTheme={toggleColorMode}
+                    mode={mode}
+                  />
+                </ProtectedRoute>
+              }
+            />
             {/* Commented out - for testing only */}
             {/* <Route
             path="/auth-test"
@@ -368,6 +405,8 @@ function App() {
 
 interface CalendarRouteProps {
   calendars: Calendar[];
+  memberCalendars: { calendar: Calendar; role: CalendarMemberRole }[];
+  isLoadingMemberCalendars: boolean;
   onToggleTheme: () => void;
   mode: 'light' | 'dark';
   setLoading: (loading: boolean, loadingAction?: "loading" | "importing" | "exporting") => void;
@@ -375,12 +414,17 @@ interface CalendarRouteProps {
 
 const CalendarRoute: React.FC<CalendarRouteProps> = ({
   calendars,
+  memberCalendars,
+  isLoadingMemberCalendars,
   onToggleTheme,
   mode,
   setLoading,
 }) => {
   const { calendarId } = useParams<{ calendarId: string }>();
-  const calendar = calendars.find((c: Calendar) => c.id === calendarId);
+  const ownCalendar = calendars.find((c: Calendar) => c.id === calendarId);
+  const membership = ownCalendar ? undefined : memberCalendars.find(m => m.calendar.id === calendarId);
+  const calendar = ownCalendar ?? membership?.calendar;
+  const calendarRole = ownCalendar ? 'owner' : membership?.role;
 
   // Scroll to top whenever navigating to a calendar page
   useEffect(() => {
@@ -388,6 +432,10 @@ const CalendarRoute: React.FC<CalendarRouteProps> = ({
   }, [calendarId]);
 
   if (!calendar) {
+    // Wait for memberships before treating the calendar as missing
+    if (isLoadingMemberCalendars) {
+      return <LoadingFallback />;
+    }
     return <Navigate to="/" replace />;
   }
 
@@ -397,6 +445,8 @@ const CalendarRoute: React.FC<CalendarRouteProps> = ({
       setLoading={setLoading}
       onToggleTheme={onToggleTheme}
       mode={mode}
+      calendarRole={calendarRole}
+      isReadOnly={!canEditCalendar(calendarRole)}
     />
   );
 };
@@ -1,4 +1,4 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   Box,
   Typography,
@@ -6,15 +6,27 @@ import {
   alpha,
   Switch,
   FormControlLabel,
-  Tooltip
+  Tooltip,
+  ToggleButton,
+  ToggleButtonGroup,
+  Button,
+  IconButton
 } from '@mui/material';
 import {
   Security as SecurityIcon,
   InfoOutlined as InfoIcon,
-  TrendingDown as DrawdownIcon
+  TrendingDown as DrawdownIcon,
+  EmojiEvents as ChallengeIcon,
+  Settings as SettingsIcon
 } from '@mui/icons-material';
+import { format } from 'date-fns';
 import { Trade } from '../types/dualWrite';
+import { ChallengeEvaluation, ChallengeRules } from '../types/challenge';
 import { DynamicRiskSettings } from '../utils/dynamicRiskUtils';
+import { calculateTotalCosts, PnLMode } from '../utils/statsUtils';
+import { formatCurrency } from '../utils/formatters';
+import ChallengeRulesSummary from './ChallengeRulesSummary';
+import ChallengeRulesDialog from './dialogs/ChallengeRulesDialog';
 
 
 
@@ -30,6 +42,10 @@ interface AccountBalanceProps {
   // Read-only mode for shared calendars
   isReadOnly?: boolean;
   max_daily_drawdown?: number;
+  // Prop-firm challenge tracking
+  challengeRules?: ChallengeRules | null;
+  challengeEvaluation?: ChallengeEvaluation | null;
+  onUpdateChallengeRules?: (rules: ChallengeRules) => Promise<void>;
 }
 
 
@@ -43,7 +59,10 @@ const AccountBalance: React.FC<AccountBalanceProps> = ({
   onToggleDynamicRisk,
   isDynamicRiskToggled = true, // Default to true (using actual amounts)
   isReadOnly = false,
-  max_daily_drawdown
+  max_daily_drawdown,
+  challengeRules,
+  challengeEvaluation,
+  onUpdateChallengeRules
 }) => {
 
   // Profit percentage calculation - should be based on original account balance for threshold comparison
@@ -66,6 +85,29 @@ const AccountBalance: React.FC<AccountBalanceProps> = ({
   // Calculate total account value
   const totalAccountValue = balance + totalProfit;
 
+  // Current P&L can be shown before costs; totalProfit and the account value stay net
+  const [pnlMode, setPnlMode] = useState<PnLMode>('net');
+  const costs = useMemo(() => calculateTotalCosts(trades), [trades]);
+  const displayedProfit = pnlMode === 'gross' ? totalProfit + costs.total : totalProfit;
+  const displayedPercentage = trades.length > 0 && balance > 0 ? (displayedProfit / balance * 100).toFixed(2) : '0';
+
+  const [isChallengeDialogOpen, setIsChallengeDialogOpen] = useState(false);
+  const canEditChallenge = !isReadOnly && !!onUpdateChallengeRules;
+  const nextPhase = challengeRules && challengeEvaluation?.status === 'passed'
+    ? challengeRules.phases[challengeEvaluation.phaseIndex + 1]
+    : undefined;
+
+  // Moving to the next phase restarts the rules from today
+  const handleStartNextPhase = async () => {
+    if (!challengeRules || !challengeEvaluation || !onUpdateChallengeRules) return;
+    await onUpdateChallengeRules({
+      ...challengeRules,
+      current_phase: challengeEvaluation.phaseIndex + 1,
+      start_date: format(new Date(), 'yyyy-MM-dd'),
+      starting_balance: undefined
+    });
+  };
+
 
   return (
     <Paper
@@ -116,39 +158,55 @@ const AccountBalance: React.FC<AccountBalanceProps> = ({
         mt: 0.5
       }}>
         <Box>
-          <Typography
-            variant="body2"
-            sx={{
-              color: 'text.secondary',
-              mb: 0.5,
-              fontWeight: 500
-            }}
-          >
-            Current P&L
-          </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+            <Typography
+              variant="body2"
+              sx={{
+                color: 'text.secondary',
+                fontWeight: 500
+              }}
+            >
+              Current P&L
+            </Typography>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={pnlMode}
+              onChange={(_, mode: PnLMode | null) => mode && setPnlMode(mode)}
+              sx={{ '& .MuiToggleButton-root': { py: 0, px: 0.75, fontSize: '0.7rem', textTransform: 'none' } }}
+            >
+              <ToggleButton value="net">Net</ToggleButton>
+              <ToggleButton value="gross">Gross</ToggleButton>
+            </ToggleButtonGroup>
+          </Box>
           <Typography
             variant="h6"
             sx={{
               fontSize: '1.2rem',
-              color: totalProfit > 0 ? 'success.main' : totalProfit < 0 ? 'error.main' : 'text.secondary',
+              color: displayedProfit > 0 ? 'success.main' : displayedProfit < 0 ? 'error.main' : 'text.secondary',
               fontWeight: 700,
               display: 'flex',
               alignItems: 'center',
               gap: 0.5
             }}
           >
-            ${trades.length > 0 ? Math.abs(totalProfit).toLocaleString() : '0'}
+            ${trades.length > 0 ? Math.abs(displayedProfit).toLocaleString() : '0'}
             <Typography
               component="span"
               sx={{
                 fontSize: '0.9rem',
-                color: totalProfit > 0 ? 'success.main' : totalProfit < 0 ? 'error.main' : 'text.secondary',
+                color: displayedProfit > 0 ? 'success.main' : displayedProfit < 0 ? 'error.main' : 'text.secondary',
                 fontWeight: 600
               }}
             >
-              ({profitPercentage}%)
+              ({displayedPercentage}%)
             </Typography>
           </Typography>
+          {costs.total !== 0 && (
+            <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+              Costs {formatCurrency(costs.total)} (commission {formatCurrency(costs.commission)}, swap {formatCurrency(costs.swap)}, fees {formatCurrency(costs.fees)})
+            </Typography>
+          )}
         </Box>
 
         <Box>
@@ -365,6 +423,64 @@ const AccountBalance: React.FC<AccountBalanceProps> = ({
           </Tooltip>
         </Box>
       </Box>
+
+      {/* Challenge Rules Section - only when tracking is on, or as a setup link for owners */}
+      {challengeEvaluation ? (
+        <Box sx={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 1,
+          backgroundColor: theme => alpha(theme.palette.background.default, 0.5),
+          p: 1.5,
+          borderRadius: 1.5
+        }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <ChallengeIcon sx={{ fontSize: '1rem', color: 'warning.main' }} />
+              <Typography variant="body2" sx={{ color: 'text.secondary', fontWeight: 500 }}>
+                Challenge Rules
+              </Typography>
+            </Box>
+            {canEditChallenge && (
+              <IconButton size="small" onClick={() => setIsChallengeDialogOpen(true)} aria-label="Edit challenge rules">
+                <SettingsIcon sx={{ fontSize: '1rem' }} />
+              </IconButton>
+            )}
+          </Box>
+          <ChallengeRulesSummary evaluation={challengeEvaluation} />
+          {canEditChallenge && nextPhase && (
+            <Button
+              size="small"
+              variant="outlined"
+              color="success"
+              onClick={handleStartNextPhase}
+              sx={{ alignSelf: 'flex-start', textTransform: 'none' }}
+            >
+              Start {nextPhase.name}
+            </Button>
+          )}
+        </Box>
+      ) : canEditChallenge && (
+        <Button
+          size="small"
+          startIcon={<ChallengeIcon />}
+          onClick={() => setIsChallengeDialogOpen(true)}
+          sx={{ alignSelf: 'flex-start', textTransform: 'none', color: 'text.secondary' }}
+        >
+          {challengeRules ? 'Challenge rules paused' : 'Track a prop-firm challenge'}
+        </Button>
+      )}
+
+      {canEditChallenge && (
+        <ChallengeRulesDialog
+          open={isChallengeDialogOpen}
+          rules={challengeRules}
+          accountBalance={balance}
+          maxDailyDrawdown={max_daily_drawdown}
+          onClose={() => setIsChallengeDialogOpen(false)}
+          onSave={onUpdateChallengeRules!}
+        />
+      )}
     </Paper >
   );
 };
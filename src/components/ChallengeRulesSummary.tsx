@@ -0,0 +1,135 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Chip,
+  LinearProgress,
+  Tooltip,
+  alpha
+} from '@mui/material';
+import {
+  CheckCircle as PassIcon,
+  Cancel as FailIcon,
+  WarningAmber as AtRiskIcon,
+  Timelapse as PendingIcon
+} from '@mui/icons-material';
+import {
+  ChallengeEvaluation,
+  ChallengeRuleResult,
+  ChallengeRuleStatus,
+  ChallengeStatus
+} from '../types/challenge';
+import { formatCurrency, formatPercentage } from '../utils/formatters';
+
+type StatusColor = 'success' | 'error' | 'warning' | 'primary';
+
+export const CHALLENGE_STATUS_DISPLAY: Record<ChallengeStatus, { label: string; color: StatusColor }> = {
+  passed: { label: 'Passed', color: 'success' },
+  failed: { label: 'Failed', color: 'error' },
+  at_risk: { label: 'At Risk', color: 'warning' },
+  in_progress: { label: 'In Progress', color: 'primary' }
+};
+
+export const RULE_STATUS_COLOR: Record<ChallengeRuleStatus, StatusColor> = {
+  pass: 'success',
+  fail: 'error',
+  at_risk: 'warning',
+  pending: 'primary'
+};
+
+export const RuleStatusIcon: React.FC<{ status: ChallengeRuleStatus; fontSize?: number }> = ({ status, fontSize = 16 }) => {
+  const sx = { fontSize, color: `${RULE_STATUS_COLOR[status]}.main` };
+  switch (status) {
+    case 'pass':
+      return <PassIcon sx={sx} />;
+    case 'fail':
+      return <FailIcon sx={sx} />;
+    case 'at_risk':
+      return <AtRiskIcon sx={sx} />;
+    default:
+      return <PendingIcon sx={sx} />;
+  }
+};
+
+export const formatRuleValue = (rule: ChallengeRuleResult, value: number): string => {
+  switch (rule.unit) {
+    case 'currency':
+      return formatCurrency(value);
+    case 'percentage':
+      return formatPercentage(value);
+    default:
+      return value.toString();
+  }
+};
+
+/**
+ * Share of a rule's limit that is used up (loss limits) or reached (targets), 0-100
+ */
+export const getRuleProgress = (rule: ChallengeRuleResult): number => {
+  if (rule.limit <= 0) return 0;
+  return Math.min(Math.max((rule.current / rule.limit) * 100, 0), 100);
+};
+
+interface ChallengeRulesSummaryProps {
+  evaluation: ChallengeEvaluation;
+  compact?: boolean;
+}
+
+/**
+ * Challenge status chip with one row per rule
+ */
+const ChallengeRulesSummary: React.FC<ChallengeRulesSummaryProps> = ({ evaluation, compact = false }) => {
+  const statusDisplay = CHALLENGE_STATUS_DISPLAY[evaluation.status];
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: compact ? 0.75 : 1 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+        <Typography variant="caption" sx={{ color: 'text.secondary', fontWeight: 600 }}>
+          {evaluation.phase ? evaluation.phase.name : 'Challenge'} · {evaluation.tradingDays} trading day{evaluation.tradingDays === 1 ? '' : 's'}
+        </Typography>
+        <Chip
+          size="small"
+          label={statusDisplay.label}
+          color={statusDisplay.color}
+          sx={{ height: 20, fontSize: '0.7rem', fontWeight: 700 }}
+        />
+      </Box>
+
+      {evaluation.rules.map(rule => (
+        <Tooltip key={rule.id} title={rule.message} placement="top" arrow>
+          <Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75, minWidth: 0 }}>
+                <RuleStatusIcon status={rule.status} fontSize={14} />
+                <Typography variant="caption" noWrap sx={{ color: 'text.secondary' }}>
+                  {rule.label}
+                </Typography>
+              </Box>
+              <Typography variant="caption" sx={{ fontWeight: 600, color: `${RULE_STATUS_COLOR[rule.status]}.main`, whiteSpace: 'nowrap' }}>
+                {formatRuleValue(rule, rule.current)} / {formatRuleValue(rule, rule.limit)}
+              </Typography>
+            </Box>
+            {!compact && (
+              <LinearProgress
+                variant="determinate"
+                value={getRuleProgress(rule)}
+                sx={{
+                  mt: 0.5,
+                  height: 4,
+                  borderRadius: 1,
+                  backgroundColor: theme => alpha(theme.palette.text.primary, 0.08),
+                  '& .MuiLinearProgress-bar': {
+                    backgroundColor: theme => theme.palette[RULE_STATUS_COLOR[rule.status]].main,
+                    borderRadius: 1
+                  }
+                }}
+              />
+            )}
+          </Box>
+        </Tooltip>
+      ))}
+    </Box>
+  );
+};
+
+export default ChallengeRulesSummary;
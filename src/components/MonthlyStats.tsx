@@ -38,6 +38,7 @@ import {
   Close as CloseIcon
 } from '@mui/icons-material';
 import { Trade } from '../types/dualWrite';
+import { ImportTradeBatch } from '../types/import';
 import { exportTrades } from '../utils/tradeExportImport';
 import { formatCurrency } from '../utils/formatters';
 import { calculatePercentageOfValueAtDate } from '../utils/dynamicRiskUtils';
@@ -47,13 +48,14 @@ import { ImportMappingDialog } from './import/ImportMappingDialog';
 import PerformanceCharts, { TimePeriod, TIME_PERIOD_TABS } from './PerformanceCharts';
 import RoundedTabs from './common/RoundedTabs';
 import { scrollbarStyles } from '../styles/scrollbarStyles';
+import { TRASH_RETENTION_DAYS } from '../services/trashService';
 
 
 
 interface MonthlyStatsProps {
   trades: Trade[];
   accountBalance: number;
-  onImportTrades?: (trades: Partial<Trade>[]) => Promise<void>;
+  onImportTrades?: (batch: ImportTradeBatch) => Promise<void>;
   onDeleteTrade?: (id: string) => void;
   currentDate?: Date;
   monthlyTarget?: number;
@@ -71,6 +73,7 @@ interface MonthlyStatsProps {
   onEditTrade?: (trade: Trade) => void;
   economicFilter?: (calendarId: string) => import('./economicCalendar/EconomicCalendarDrawer').EconomicCalendarFilterSettings;
   maxDailyDrawdown?: number;
+  tradingSessions?: import('../utils/sessionTimeUtils').SessionDefinition[];
 }
 
 
@@ -91,7 +94,8 @@ const MonthlyStats: React.FC<MonthlyStatsProps> = ({
   onUpdateCalendarProperty,
   onEditTrade,
   economicFilter,
-  maxDailyDrawdown
+  maxDailyDrawdown,
+  tradingSessions
 }) => {
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [menuAnchorEl, setMenuAnchorEl] = useState<null | HTMLElement>(null);
@@ -197,15 +201,22 @@ const MonthlyStats: React.FC<MonthlyStatsProps> = ({
     event.target.value = '';
   };
 
-  const handleImportComplete = async (importedTrades: Partial<Trade>[]) => {
+  const handleImportComplete = async (batch: ImportTradeBatch) => {
     if (!onImportTrades) return;
 
     try {
       // Wait for import to complete before closing dialog
-      await onImportTrades(importedTrades);
-
-      // Show success message
-      setSnackbarMessage(`Successfully imported ${importedTrades.length} trades`);
+      await onImportTrades(batch);
+
+      // Show success message, including how duplicates were handled
+      const duplicateNotes = [
+        batch.overwrittenTrades.length > 0 && `${batch.overwrittenTrades.length} overwritten`,
+        batch.skippedCount > 0 && `${batch.skippedCount} duplicates skipped`
+      ].filter(Boolean);
+      setSnackbarMessage(
+        `Successfully imported ${batch.newTrades.length} trades` +
+        (duplicateNotes.length > 0 ? ` (${duplicateNotes.join(', ')})` : '')
+      );
       setSnackbarSeverity('success');
       setSnackbarOpen(true);
 
@@ -282,7 +293,7 @@ const MonthlyStats: React.FC<MonthlyStatsProps> = ({
           }}>
             <input
               type="file"
-              accept=".xlsx,.csv"
+              accept=".xlsx,.csv,.htm,.html"
               style={{ display: 'none' }}
               id="import-file"
               onChange={handleFileSelect}
@@ -638,7 +649,7 @@ const MonthlyStats: React.FC<MonthlyStatsProps> = ({
         <DialogTitle>Clear Trades</DialogTitle>
         <DialogContent>
           <Typography>
-            Are you sure you want to clear all trades? This action cannot be undone.
+            Move all trades of this month to the trash? They can be restored from the trash for {TRASH_RETENTION_DAYS} days.
           </Typography>
         </DialogContent>
         <DialogActions>
@@ -672,6 +683,8 @@ const MonthlyStats: React.FC<MonthlyStatsProps> = ({
         }}
         onImport={handleImportComplete}
         file={selectedFile}
+        calendarId={calendarId}
+        tradingSessions={tradingSessions}
       />
 
       {/* Performance Details Dialog */}
@@ -727,6 +740,7 @@ const MonthlyStats: React.FC<MonthlyStatsProps> = ({
               calendarId={calendarId}
               scoreSettings={scoreSettings}
               dynamicRiskSettings={dynamicRiskSettings}
+              tradingSessions={tradingSessions}
               timePeriod={performanceTimePeriod}
               onTimePeriodChange={setPerformanceTimePeriod}
               hideTimePeriodTabs={true}
@@ -3,11 +3,19 @@ import { format } from 'date-fns';
 import { Box, Typography, useTheme, useMediaQuery, Paper, Alert, Button } from '@mui/material';
 import { Trade, Calendar } from '../types/dualWrite';
 import ImageZoomDialog, { ImageZoomProp } from './ImageZoomDialog';
-import { DynamicRiskSettings } from '../utils/dynamicRiskUtils';
+import { DynamicRiskSettings, calculateCumulativePnLToDateSync, calculateTradeRMultiples } from '../utils/dynamicRiskUtils';
 import ScoreSection from './scoring/ScoreSection';
 import RoundedTabs from './common/RoundedTabs';
 import { logger } from '../utils/logger';
-import { getFilteredTrades, getNormalizedDate } from '../utils/chartDataUtils';
+import {
+  calculateDirectionStats,
+  calculateInstrumentStats,
+  calculateRChartData,
+  calculateRMultipleStats,
+  getFilteredTrades,
+  getNormalizedDate,
+  ValueDisplayMode
+} from '../utils/chartDataUtils';
 import {
   PerformanceCalculationResult
 } from '../services/performanceCalculationService';
@@ -22,11 +30,16 @@ import TagPerformanceAnalysis from './charts/TagPerformanceAnalysis';
 import TagDayOfWeekAnalysis from './charts/TagDayOfWeekAnalysis';
 import DailySummaryTable from './charts/DailySummaryTable';
 import SessionPerformanceAnalysis from './charts/SessionPerformanceAnalysis';
+import InstrumentPerformanceAnalysis from './charts/InstrumentPerformanceAnalysis';
+import DirectionPerformanceAnalysis from './charts/DirectionPerformanceAnalysis';
+import MonteCarloSimulation from './charts/MonteCarloSimulation';
 import TradesListDialog from './charts/TradesListDialog';
 import RiskRewardChart from './charts/RiskRewardChart';
 import EconomicEventCorrelationAnalysis from './charts/EconomicEventCorrelationAnalysis';
 import { useTradeSyncContextOptional } from '../contexts/TradeSyncContext';
 import { normalizeTradeDates } from '../utils/tradeUtils';
+import { getTradeAmount, PnLMode } from '../utils/statsUtils';
+import { SessionDefinition } from '../utils/sessionTimeUtils';
 
 // Type definition needed for module-level constants
 export type TimePeriod = 'month' | 'year' | 'all';
@@ -43,6 +56,16 @@ const TAG_ANALYSIS_TABS = [
   { label: 'Day of Week' }
 ];
 
+const PNL_MODE_TABS = [
+  { label: 'Net', value: 'net' as PnLMode },
+  { label: 'Gross', value: 'gross' as PnLMode }
+];
+
+const VALUE_MODE_TABS = [
+  { label: '$', value: 'currency' as ValueDisplayMode },
+  { label: 'R', value: 'r' as ValueDisplayMode }
+];
+
 const PERFORMANCE_TABS = [
   { label: 'Basic', value: 'basic' as const },
   { label: 'Advanced', value: 'advanced' as const }
@@ -67,6 +90,7 @@ interface PerformanceChartsProps {
   onUpdateCalendarProperty?: (calendarId: string, updateCallback: (calendar: Calendar) => Calendar) => Promise<Calendar | undefined>;
   economicFilter?: (calendarId: string) => EconomicCalendarFilterSettings;
   dynamicRiskSettings?: DynamicRiskSettings;
+  tradingSessions?: SessionDefinition[];
   onOpenGalleryMode?: (trades: Trade[], initialTradeId?: string, title?: string) => void;
   calendar?: Calendar;
   isReadOnly?: boolean;
@@ -90,6 +114,7 @@ const PerformanceCharts: React.FC<PerformanceChartsProps> = ({
   onUpdateTradeProperty,
   onUpdateCalendarProperty,
   dynamicRiskSettings: dynamicRiskSettingsProp,
+  tradingSessions: tradingSessionsProp,
   onOpenGalleryMode,
   economicFilter,
   calendar,
@@ -117,6 +142,10 @@ const PerformanceCharts: React.FC<PerformanceChartsProps> = ({
     onTimePeriodChange?.(period);
   }, [timePeriodProp, onTimePeriodChange]);
   const [performanceTab, setPerformanceTab] = useState<'basic' | 'advanced'>('basic');
+  // Net = after commission, swap and fees; gross = before
+  const [pnlMode, setPnlMode] = useState<PnLMode>('net');
+  // Currency, or R-multiples so calendars with different balances and risk compare directly
+  const [valueMode, setValueMode] = useState<ValueDisplayMode>('currency');
   const [advancedTabVisited, setAdvancedTabVisited] = useState(false);
   const [tagAnalysisTab, setTagAnalysisTab] = useState<number>(0);
   const [primaryTags, setPrimaryTags] = useState<string[]>([]);
@@ -137,13 +166,18 @@ const PerformanceCharts: React.FC<PerformanceChartsProps> = ({
   const maxDailyDrawdown = maxDailyDrawdownProp ?? calendar?.max_daily_drawdown ?? 0;
   const monthlyTarget = monthlyTargetProp ?? calendar?.monthly_target;
   const scoreSettings = scoreSettingsProp ?? calendar?.score_settings;
-  const dynamicRiskSettings = dynamicRiskSettingsProp ?? (calendar ? {
+  const dynamicRiskSettings = useMemo(() => dynamicRiskSettingsProp ?? (calendar ? {
     account_balance: calendar.account_balance,
     risk_per_trade: calendar.risk_per_trade,
     dynamic_risk_enabled: calendar.dynamic_risk_enabled,
     increased_risk_percentage: calendar.increased_risk_percentage,
     profit_threshold_percentage: calendar.profit_threshold_percentage
-  } : undefined);
+  } : undefined), [dynamicRiskSettingsProp, calendar]);
+  const tradingSessions = tradingSessionsProp ?? calendar?.trading_sessions ?? undefined;
+
+  // R-multiples need a risk per trade to measure against
+  const canShowRMultiples = !!dynamicRiskSettings?.risk_per_trade && accountBalance > 0;
+  const displayMode: ValueDisplayMode = canShowRMultiples ? valueMode : 'currency';
 
   // Economic filter function
   const economicFilterFn = economicFilter || (() => calendar?.economic_calendar_filters || DEFAULT_ECONOMIC_EVENT_FILTER_SETTINGS);
@@ -237,7 +271,8 @@ const PerformanceCharts: React.FC<PerformanceChartsProps> = ({
         const { data: rpcResult, error: chartError } = await supabase.rpc('calculate_chart_data', {
           p_calendar_id: calendarId,
           p_time_period: timePeriod,
-          p_selected_date: dateAtNoonUTC.toISOString()
+          p_selected_date: dateAtNoonUTC.toISOString(),
+          p_pnl_mode: pnlMode
         });
 
         if (chartError) {
@@ -319,7 +354,7 @@ const PerformanceCharts: React.FC<PerformanceChartsProps> = ({
     };
 
     loadAllData();
-  }, [calendarId, selectedDate, timePeriod, accountBalance]);
+  }, [calendarId, selectedDate, timePeriod, accountBalance, pnlMode]);
 
   // Handle trade sync events from other components (e.g., useCalendarTrades)
   useEffect(() => {
@@ -426,6 +461,42 @@ const PerformanceCharts: React.FC<PerformanceChartsProps> = ({
     return filtered;
   }, [trades, selectedDate, timePeriod, calendarId]);
 
+  // Instrument and direction breakdowns are derived client-side from the period's trades
+  const instrumentStats = useMemo(
+    () => calculateInstrumentStats(filteredTrades, accountBalance, pnlMode),
+    [filteredTrades, accountBalance, pnlMode]
+  );
+  const directionStats = useMemo(
+    () => calculateDirectionStats(filteredTrades, accountBalance, pnlMode),
+    [filteredTrades, accountBalance, pnlMode]
+  );
+
+  // R-multiple of every loaded trade, sized from the account value before the period
+  const rMultiples = useMemo(() => {
+    if (!canShowRMultiples || trades.length === 0) return new Map<string, number>();
+    const firstTradeDate = trades.reduce(
+      (earliest, trade) => new Date(trade.trade_date) < earliest ? new Date(trade.trade_date) : earliest,
+      new Date(trades[0].trade_date)
+    );
+    const startingPnL = calendar ? calculateCumulativePnLToDateSync(firstTradeDate, calendar, []) : 0;
+    return calculateTradeRMultiples(
+      trades,
+      { ...dynamicRiskSettings!, account_balance: accountBalance },
+      startingPnL,
+      trade => getTradeAmount(trade, pnlMode)
+    );
+  }, [trades, canShowRMultiples, calendar, dynamicRiskSettings, accountBalance, pnlMode]);
+
+  const rMultipleStats = useMemo(
+    () => canShowRMultiples ? calculateRMultipleStats(filteredTrades, rMultiples) : null,
+    [canShowRMultiples, filteredTrades, rMultiples]
+  );
+
+  const displayChartData = useMemo(
+    () => displayMode === 'r' ? calculateRChartData(chartData, rMultiples) : chartData,
+    [displayMode, chartData, rMultiples]
+  );
+
   // Get performance data from async calculations
   const riskRewardStats = performanceData?.riskRewardStats || { average: 0, max: 0, data: [] };
 
@@ -466,6 +537,14 @@ const PerformanceCharts: React.FC<PerformanceChartsProps> = ({
     return -(maxDailyDrawdown / 100) * accountBalance;
   }, [maxDailyDrawdown, accountBalance]);
 
+  // Target and drawdown lines in R: both are a percentage of the account, like the risk per trade
+  const displayTargetValue = displayMode === 'r' && targetValue !== null
+    ? monthlyTarget! / dynamicRiskSettings!.risk_per_trade!
+    : targetValue;
+  const displayDrawdownViolationValue = displayMode === 'r'
+    ? -maxDailyDrawdown / dynamicRiskSettings!.risk_per_trade!
+    : drawdownViolationValue;
+
   // These handlers are now used directly in the chart overlays - wrapped in useCallback
 
   const handleTradeExpand = useCallback((tradeId: string) => {
@@ -593,6 +672,27 @@ const PerformanceCharts: React.FC<PerformanceChartsProps> = ({
             }}
           />
         )}
+        <Box sx={{
+          display: 'flex',
+          gap: 1,
+          alignSelf: { xs: 'center', sm: 'auto' },
+          ml: { sm: 'auto' }
+        }}>
+          <RoundedTabs
+            tabs={PNL_MODE_TABS}
+            activeTab={pnlMode === 'net' ? 0 : 1}
+            onTabChange={(_, newIndex) => setPnlMode(PNL_MODE_TABS[newIndex].value)}
+            size={tabSize || 'small'}
+          />
+          {canShowRMultiples && (
+            <RoundedTabs
+              tabs={VALUE_MODE_TABS}
+              activeTab={displayMode === 'currency' ? 0 : 1}
+              onTabChange={(_, newIndex) => setValueMode(VALUE_MODE_TABS[newIndex].value)}
+              size={tabSize || 'small'}
+            />
+          )}
+        </Box>
       </Box>
 
       {/* Basic/Advanced Tab Selection */}
@@ -642,23 +742,31 @@ const PerformanceCharts: React.FC<PerformanceChartsProps> = ({
           {performanceTab === 'basic' && (
             <>
               {/* Risk to Reward Statistics Card */}
-              <RiskRewardChart riskRewardStats={riskRewardStats} />
+              <RiskRewardChart
+                riskRewardStats={riskRewardStats}
+                displayMode={displayMode}
+                rMultipleStats={rMultipleStats}
+              />
 
               {/* Winners and Losers Statistics */}
               <WinLossStats
                 winLossStats={winLossStats}
                 trades={filteredTrades}
                 onTradeClick={handleTradeExpand}
+                displayMode={displayMode}
+                rMultipleStats={rMultipleStats}
               />
 
               {/* P&L Charts with Tabs */}
               <PnLChartsWrapper
-                chartData={chartData}
-                targetValue={targetValue}
+                chartData={displayChartData}
+                targetValue={displayTargetValue}
                 monthly_target={monthlyTarget}
-                drawdownViolationValue={drawdownViolationValue}
+                drawdownViolationValue={displayDrawdownViolationValue}
                 setMultipleTradesDialog={setTradesDialog}
                 timePeriod={timePeriod}
+                displayMode={displayMode}
+                rMultipleStats={rMultipleStats}
               />
 
               {/* Win/Loss Distribution and Daily Summary - Stack on mobile */}
@@ -708,6 +816,7 @@ const PerformanceCharts: React.FC<PerformanceChartsProps> = ({
               onUpdateCalendarProperty={onUpdateCalendarProperty}
               accountBalance={accountBalance}
               dynamicRiskSettings={dynamicRiskSettings}
+              tradingSessions={tradingSessions}
               timePeriod={timePeriod}
             />
 
@@ -785,6 +894,37 @@ const PerformanceCharts: React.FC<PerformanceChartsProps> = ({
             setMultipleTradesDialog={setTradesDialog}
           />
 
+          {/* Long vs Short and Instrument Performance - Stack on mobile */}
+          <Box sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', md: 'row' },
+            gap: { xs: 2, md: 3 },
+            alignItems: 'stretch'
+          }}>
+            <Box sx={{ flex: 1, minWidth: 0 }}>
+              <DirectionPerformanceAnalysis
+                directionStats={directionStats}
+                setMultipleTradesDialog={setTradesDialog}
+              />
+            </Box>
+            <Box sx={{ flex: 1, minWidth: 0 }}>
+              <InstrumentPerformanceAnalysis
+                instrumentStats={instrumentStats}
+                setMultipleTradesDialog={setTradesDialog}
+              />
+            </Box>
+          </Box>
+
+            {/* Monte Carlo Simulation */}
+            <MonteCarloSimulation
+              trades={filteredTrades}
+              rMultiples={rMultiples}
+              dynamicRiskSettings={dynamicRiskSettings}
+              accountBalance={accountBalance}
+              maxDailyDrawdown={maxDailyDrawdown}
+              monthlyTarget={monthlyTarget}
+            />
+
             {/* Economic Event Correlation Analysis */}
             <EconomicEventCorrelationAnalysis
               calendarId={calendarId}
@@ -117,7 +117,8 @@ const AIChatDrawer: React.FC<AIChatDrawerProps> = ({
     deleteConversation,
     startNewChat,
     setMessages,
-    getWelcomeMessage
+    getWelcomeMessage,
+    resolveTradeAction
   } = useAIChat({
     userId: user?.uid,
     calendar,
@@ -449,6 +450,7 @@ const AIChatDrawer: React.FC<AIChatDrawerProps> = ({
                   startNewChat={startNewChat}
                   setMessages={setMessages}
                   getWelcomeMessage={getWelcomeMessage}
+                  resolveTradeAction={resolveTradeAction}
                   userId={user?.uid}
                   calendar={calendar}
                   trades={trades}
@@ -101,6 +101,7 @@ export interface AIChatInterfaceProps {
   startNewChat: () => Promise<void>;
   setMessages: React.Dispatch<React.SetStateAction<ChatMessageType[]>>;
   getWelcomeMessage: () => ChatMessageType;
+  resolveTradeAction?: (messageId: string, actionId: string, approve: boolean) => Promise<void>;
 
   // Context
   userId?: string;
@@ -137,6 +138,7 @@ const AIChatInterface = forwardRef<AIChatInterfaceRef, AIChatInterfaceProps>(({
   startNewChat,
   setMessages,
   getWelcomeMessage,
+  resolveTradeAction,
   userId,
   calendar,
   trades,
@@ -441,6 +443,7 @@ const AIChatInterface = forwardRef<AIChatInterfaceRef, AIChatInterfaceProps>(({
               onNoteClick?.(noteId, note || undefined);
             }}
             onEdit={handleEditMessage}
+            onTradeAction={resolveTradeAction && !isReadOnly ? resolveTradeAction : undefined}
             trades={trades}
           />
         ))}
@@ -1,9 +1,10 @@
 /**
  * API Key Settings Dialog
- * Allows users to configure their own Gemini API key for AI chat
+ * Allows users to choose the AI provider and model for AI chat and configure
+ * their own API key (or a self-hosted endpoint)
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -17,7 +18,12 @@ import {
   CircularProgress,
   Link,
   IconButton,
-  InputAdornment
+  InputAdornment,
+  Autocomplete,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem
 } from '@mui/material';
 import {
   Visibility as VisibilityIcon,
@@ -25,14 +31,18 @@ import {
   OpenInNew as OpenInNewIcon
 } from '@mui/icons-material';
 import {
+  AI_PROVIDERS,
   getApiKey,
   saveApiKey,
   removeApiKey,
-  hasApiKey,
+  getProviderSettings,
+  saveProviderSettings,
   isValidApiKeyFormat,
+  isValidBaseUrl,
   maskApiKey,
   testApiKey
 } from '../../services/apiKeyStorage';
+import { AIProviderId } from '../../types/aiChat';
 
 import { Z_INDEX } from '../../styles/zIndex';
 
@@ -41,56 +51,97 @@ interface ApiKeySettingsDialogProps {
   onClose: () => void;
 }
 
+const PROVIDER_OPTIONS = Object.values(AI_PROVIDERS);
+
 const ApiKeySettingsDialog: React.FC<ApiKeySettingsDialogProps> = ({ open, onClose }) => {
+  const [provider, setProvider] = useState<AIProviderId>('gemini');
+  const [model, setModel] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
   const [apiKey, setApiKey] = useState('');
   const [showApiKey, setShowApiKey] = useState(false);
   const [isTesting, setIsTesting] = useState(false);
   const [testResult, setTestResult] = useState<{ valid: boolean; error?: string } | null>(null);
   const [hasExistingKey, setHasExistingKey] = useState(false);
 
-  // Load existing key on mount
+  const providerInfo = AI_PROVIDERS[provider];
+  const needsBaseUrl = provider === 'local';
+
+  const loadApiKey = useCallback((selectedProvider: AIProviderId) => {
+    const existingKey = getApiKey(selectedProvider);
+    setApiKey(existingKey || '');
+    setHasExistingKey(!!existingKey);
+    setTestResult(null);
+    setShowApiKey(false);
+  }, []);
+
+  // Load existing settings on mount
   useEffect(() => {
     if (open) {
-      const existingKey = getApiKey();
-      if (existingKey) {
-        setApiKey(existingKey);
-        setHasExistingKey(true);
-      } else {
-        setApiKey('');
-        setHasExistingKey(false);
-      }
-      setTestResult(null);
-      setShowApiKey(false);
+      const settings = getProviderSettings();
+      setProvider(settings.provider);
+      setModel(settings.model || '');
+      setBaseUrl(settings.baseUrl || '');
+      loadApiKey(settings.provider);
     }
-  }, [open]);
+  }, [open, loadApiKey]);
+
+  const handleProviderChange = (selectedProvider: AIProviderId) => {
+    const settings = getProviderSettings();
+    const isSavedProvider = settings.provider === selectedProvider;
+    setProvider(selectedProvider);
+    setModel(isSavedProvider ? settings.model || '' : '');
+    setBaseUrl(isSavedProvider ? settings.baseUrl || '' : '');
+    loadApiKey(selectedProvider);
+  };
+
+  /**
+   * Returns an error message when the entered settings can't be used
+   */
+  const validateSettings = (): string | null => {
+    if (needsBaseUrl && !isValidBaseUrl(baseUrl)) {
+      return 'Enter the base URL of your endpoint, e.g. https://my-ollama.example.com/v1';
+    }
+    if (!needsBaseUrl && baseUrl.trim() && !isValidBaseUrl(baseUrl)) {
+      return 'Invalid base URL';
+    }
+    if (providerInfo.requiresApiKey && !apiKey.trim()) {
+      return 'Please enter an API key';
+    }
+    if (apiKey.trim() && !isValidApiKeyFormat(apiKey.trim(), provider)) {
+      return `Invalid API key format. Expected format: ${providerInfo.keyPlaceholder}`;
+    }
+    return null;
+  };
 
   const handleTest = async () => {
-    if (!apiKey.trim()) {
-      setTestResult({ valid: false, error: 'Please enter an API key' });
+    const error = validateSettings();
+    if (error) {
+      setTestResult({ valid: false, error });
       return;
     }
 
     setIsTesting(true);
     setTestResult(null);
 
-    const result = await testApiKey(apiKey.trim());
+    const result = await testApiKey(apiKey.trim(), provider, baseUrl.trim() || undefined);
     setTestResult(result);
     setIsTesting(false);
   };
 
   const handleSave = () => {
-    if (!apiKey.trim()) {
-      setTestResult({ valid: false, error: 'Please enter an API key' });
-      return;
-    }
-
-    if (!isValidApiKeyFormat(apiKey.trim())) {
-      setTestResult({ valid: false, error: 'Invalid API key format. Expected format: AIza...' });
+    const error = validateSettings();
+    if (error) {
+      setTestResult({ valid: false, error });
       return;
     }
 
     try {
-      saveApiKey(apiKey.trim());
+      if (apiKey.trim()) {
+        saveApiKey(apiKey.trim(), provider);
+      } else {
+        removeApiKey(provider);
+      }
+      saveProviderSettings({ provider, model, baseUrl });
       onClose();
     } catch (error) {
       setTestResult({ valid: false, error: error instanceof Error ? error.message : 'Failed to save API key' });
@@ -98,7 +149,7 @@ const ApiKeySettingsDialog: React.FC<ApiKeySettingsDialogProps> = ({ open, onClo
   };
 
   const handleRemove = () => {
-    removeApiKey();
+    removeApiKey(provider);
     setApiKey('');
     setHasExistingKey(false);
     setTestResult(null);
@@ -109,6 +160,8 @@ const ApiKeySettingsDialog: React.FC<ApiKeySettingsDialogProps> = ({ open, onClo
     onClose();
   };
 
+  const canSubmit = providerInfo.requiresApiKey ? !!apiKey.trim() : !!baseUrl.trim();
+
   return (
     <Dialog
       open={open}
@@ -120,35 +173,75 @@ const ApiKeySettingsDialog: React.FC<ApiKeySettingsDialogProps> = ({ open, onClo
       }}
     >
       <DialogTitle>
-        Gemini API Key Settings
+        AI Provider Settings
       </DialogTitle>
       <DialogContent>
         <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
           <Typography variant="body2" color="text.secondary">
-            Use your own Google Gemini API key for unlimited AI chat usage. Your key is stored locally and never stored in our servers.
+            Use your own API key for unlimited AI chat usage, with the provider and model of your choice. Your key is stored locally and never stored in our servers.
           </Typography>
 
-          <Alert severity="info" sx={{ fontSize: '0.875rem' }}>
-            Don't have an API key?{' '}
-            <Link
-              href="https://aistudio.google.com/app/apikey"
-              target="_blank"
-              rel="noopener noreferrer"
-              sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.5 }}
+          <FormControl fullWidth>
+            <InputLabel id="ai-provider-label">Provider</InputLabel>
+            <Select
+              labelId="ai-provider-label"
+              value={provider}
+              label="Provider"
+              onChange={(e) => handleProviderChange(e.target.value as AIProviderId)}
+              MenuProps={{
+                sx: { zIndex: Z_INDEX.DIALOG_POPUP }
+              }}
             >
-              Get one free from Google AI Studio
-              <OpenInNewIcon sx={{ fontSize: '0.875rem' }} />
-            </Link>
-          </Alert>
+              {PROVIDER_OPTIONS.map(option => (
+                <MenuItem key={option.id} value={option.id}>{option.label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          {providerInfo.keyUrl ? (
+            <Alert severity="info" sx={{ fontSize: '0.875rem' }}>
+              Don't have an API key?{' '}
+              <Link
+                href={providerInfo.keyUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.5 }}
+              >
+                {providerInfo.keyUrlLabel}
+                <OpenInNewIcon sx={{ fontSize: '0.875rem' }} />
+              </Link>
+            </Alert>
+          ) : (
+            <Alert severity="info" sx={{ fontSize: '0.875rem' }}>
+              Works with Ollama, LM Studio, vLLM and other OpenAI-compatible servers. Requests are sent from
+              our servers, so the endpoint must be reachable from the internet (e.g. through a tunnel), not
+              only from this device. Private addresses such as localhost only work when the server
+              administrator allows them. The model needs to support tool calling.
+            </Alert>
+          )}
+
+          {(needsBaseUrl || provider === 'openai') && (
+            <TextField
+              label="Base URL"
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              fullWidth
+              required={needsBaseUrl}
+              placeholder={needsBaseUrl ? 'https://my-ollama.example.com/v1' : 'https://api.openai.com/v1'}
+              helperText={needsBaseUrl
+                ? 'OpenAI-compatible API root, the one that serves /chat/completions'
+                : 'Optional - for OpenAI-compatible services such as OpenRouter'}
+            />
+          )}
 
           <TextField
-            label="Gemini API Key"
+            label={`${providerInfo.label} API Key`}
             value={apiKey}
             onChange={(e) => setApiKey(e.target.value)}
             type={showApiKey ? 'text' : 'password'}
             fullWidth
-            placeholder="AIza..."
-            helperText={hasExistingKey && !showApiKey ? `Current: ${maskApiKey(apiKey)}` : 'Starts with "AIza" and is 39 characters long'}
+            placeholder={providerInfo.keyPlaceholder}
+            helperText={hasExistingKey && !showApiKey ? `Current: ${maskApiKey(apiKey)}` : providerInfo.keyHelp}
             InputProps={{
               endAdornment: (
                 <InputAdornment position="end">
@@ -164,9 +257,27 @@ const ApiKeySettingsDialog: React.FC<ApiKeySettingsDialogProps> = ({ open, onClo
             }}
           />
 
+          <Autocomplete
+            freeSolo
+            options={providerInfo.suggestedModels}
+            inputValue={model}
+            onInputChange={(_, value) => setModel(value)}
+            slotProps={{
+              popper: { sx: { zIndex: Z_INDEX.DIALOG_POPUP } }
+            }}
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                label="Model"
+                placeholder={providerInfo.defaultModel}
+                helperText={`Leave empty to use ${providerInfo.defaultModel}`}
+              />
+            )}
+          />
+
           {testResult && (
             <Alert severity={testResult.valid ? (testResult.error ? 'warning' : 'success') : 'error'}>
-              {testResult.valid && !testResult.error && 'API key is valid!'}
+              {testResult.valid && !testResult.error && (needsBaseUrl ? 'Endpoint is reachable!' : 'API key is valid!')}
               {testResult.valid && testResult.error && testResult.error}
               {!testResult.valid && testResult.error}
             </Alert>
@@ -184,12 +295,12 @@ const ApiKeySettingsDialog: React.FC<ApiKeySettingsDialogProps> = ({ open, onClo
         </Button>
         <Button
           onClick={handleTest}
-          disabled={!apiKey.trim() || isTesting}
+          disabled={!canSubmit || isTesting}
           startIcon={isTesting ? <CircularProgress size={16} /> : null}
         >
-          {isTesting ? 'Testing...' : 'Test Key'}
+          {isTesting ? 'Testing...' : needsBaseUrl ? 'Test Connection' : 'Test Key'}
         </Button>
-        <Button onClick={handleSave} variant="contained" disabled={!apiKey.trim()}>
+        <Button onClick={handleSave} variant="contained" disabled={!canSubmit}>
           Save
         </Button>
       </DialogActions>
@@ -198,4 +309,3 @@ const ApiKeySettingsDialog: React.FC<ApiKeySettingsDialogProps> = ({ open, onClo
 };
 
 export default ApiKeySettingsDialog;
-
@@ -19,6 +19,7 @@ import {
 import AnimatedText from './AnimatedText';
 import HtmlMessageRenderer from './HtmlMessageRenderer';
 import CitationsSection from './CitationsSection';
+import TradeActionCard from './TradeActionCard';
 import MarkdownRenderer from './MarkdownRenderer';
 import {
   Person as PersonIcon,
@@ -44,6 +45,7 @@ interface ChatMessageProps {
   onEventClick?: (event: EconomicEvent) => void;
   onNoteClick?: (noteId: string) => void;
   onEdit?: (messageId: string) => void;
+  onTradeAction?: (messageId: string, actionId: string, approve: boolean) => void;
   trades?: Trade[]; // All trades for calculating event trade counts
 }
 
@@ -56,6 +58,7 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
   onEventClick,
   onNoteClick,
   onEdit,
+  onTradeAction,
   trades = []
 }) => {
   const theme = useTheme();
@@ -360,6 +363,19 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
             </Box>
           )}
 
+          {/* Trade changes proposed by the agent, applied after the user approves them */}
+          {isAssistant && message.tradeActions && message.tradeActions.length > 0 && (
+            <Box sx={{ mt: 2, display: 'flex', flexDirection: 'column', gap: 1 }}>
+              {message.tradeActions.map(action => (
+                <TradeActionCard
+                  key={action.id}
+                  action={action}
+                  onResolve={onTradeAction ? (approve) => onTradeAction(message.id, action.id, approve) : undefined}
+                />
+              ))}
+            </Box>
+          )}
+
           {/* Error Message */}
           {message.error && (
             <Alert severity="error" sx={{ mt: 1, fontSize: '0.875rem' }}>
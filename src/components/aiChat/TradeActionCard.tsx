@@ -0,0 +1,167 @@
+/**
+ * Trade Action Card Component
+ * Shows a trade change proposed by the AI agent with Apply/Dismiss buttons.
+ * Nothing is saved until the user applies the card
+ */
+
+import React from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Chip,
+  Button,
+  CircularProgress,
+  Alert,
+  useTheme,
+  alpha
+} from '@mui/material';
+import {
+  EditNote as EditNoteIcon,
+  AddCircleOutline as AddIcon,
+  CheckCircle as CheckIcon,
+  Block as DismissedIcon
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import { TradeActionProposal } from '../../types/aiChat';
+import { describeTradeChanges, FILLABLE_FIELD_LABELS } from '../../utils/tradeActionUtils';
+import { formatCurrency } from '../../utils/formatters';
+
+interface TradeActionCardProps {
+  action: TradeActionProposal;
+  onResolve?: (approve: boolean) => void; // Buttons are hidden without it (read-only views)
+}
+
+const TradeActionCard: React.FC<TradeActionCardProps> = ({ action, onResolve }) => {
+  const theme = useTheme();
+  const status = action.status || 'pending';
+  const isUpdate = action.type === 'update_trades';
+
+  const changeLabels = action.type === 'update_trades'
+    ? describeTradeChanges(action.changes)
+    : [
+      action.trade.session,
+      ...action.trade.tags,
+      ...(['instrument', 'direction', 'entry_price', 'exit_price', 'stop_loss', 'take_profit', 'risk_to_reward'] as const)
+        .filter(field => action.trade[field] !== undefined)
+        .map(field => `${FILLABLE_FIELD_LABELS[field]}: ${action.trade[field]}`)
+    ].filter((label): label is string => !!label);
+
+  const renderTradeLine = (name: string | null | undefined, date: string, amount: number) => (
+    <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 1 }}>
+      <Typography variant="caption" noWrap>
+        {format(new Date(date), 'MMM dd, yyyy')}{name ? ` · ${name}` : ''}
+      </Typography>
+      <Typography
+        variant="caption"
+        sx={{ fontWeight: 600, color: amount > 0 ? 'success.main' : amount < 0 ? 'error.main' : 'text.secondary' }}
+      >
+        {formatCurrency(amount)}
+      </Typography>
+    </Box>
+  );
+
+  return (
+    <Paper
+      variant="outlined"
+      sx={{
+        p: 1.5,
+        borderRadius: 2,
+        borderColor: alpha(theme.palette.primary.main, status === 'pending' ? 0.5 : 0.2),
+        backgroundColor: alpha(theme.palette.primary.main, 0.04)
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        {isUpdate
+          ? <EditNoteIcon fontSize="small" color="primary" />
+          : <AddIcon fontSize="small" color="primary" />}
+        <Typography variant="subtitle2" sx={{ flex: 1 }}>
+          {action.summary}
+        </Typography>
+        {action.type === 'update_trades' && (
+          <Chip
+            size="small"
+            label={`${action.trade_ids.length} trade${action.trade_ids.length === 1 ? '' : 's'}`}
+          />
+        )}
+      </Box>
+
+      {changeLabels.length > 0 && (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 1 }}>
+          {changeLabels.map((label, index) => (
+            <Chip key={`${index}-${label}`} label={label} size="small" variant="outlined" />
+          ))}
+        </Box>
+      )}
+
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.25, mb: 1 }}>
+        {action.type === 'update_trades' ? (
+          <>
+            {action.preview.map(trade => (
+              <React.Fragment key={trade.id}>
+                {renderTradeLine(trade.name, trade.trade_date, trade.amount)}
+              </React.Fragment>
+            ))}
+            {action.trade_ids.length > action.preview.length && (
+              <Typography variant="caption" color="text.secondary">
+                and {action.trade_ids.length - action.preview.length} more
+              </Typography>
+            )}
+          </>
+        ) : (
+          <>
+            {renderTradeLine(
+              typeof action.trade.name === 'string' ? action.trade.name : null,
+              action.trade.trade_date,
+              action.trade.amount
+            )}
+            {(action.attach_user_images || action.image_url) && (
+              <Typography variant="caption" color="text.secondary">
+                The screenshot is saved with the trade
+              </Typography>
+            )}
+          </>
+        )}
+      </Box>
+
+      {status === 'failed' && action.error && (
+        <Alert severity="error" sx={{ mb: 1, py: 0, fontSize: '0.8rem' }}>
+          {action.error}
+        </Alert>
+      )}
+
+      {status === 'applied' && (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, color: 'success.main' }}>
+          <CheckIcon sx={{ fontSize: 16 }} />
+          <Typography variant="caption">{isUpdate ? 'Changes applied' : 'Trade added'}</Typography>
+        </Box>
+      )}
+
+      {status === 'dismissed' && (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, color: 'text.secondary' }}>
+          <DismissedIcon sx={{ fontSize: 16 }} />
+          <Typography variant="caption">Dismissed</Typography>
+        </Box>
+      )}
+
+      {onResolve && (status === 'pending' || status === 'applying' || status === 'failed') && (
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+          <Button size="small" onClick={() => onResolve(false)} disabled={status === 'applying'}>
+            Dismiss
+          </Button>
+          <Button
+            size="small"
+            variant="contained"
+            onClick={() => onResolve(true)}
+            disabled={status === 'applying'}
+            startIcon={status === 'applying' ? <CircularProgress size={14} /> : null}
+          >
+            {status === 'failed' ? 'Retry' : isUpdate ? 'Apply' : 'Add Trade'}
+          </Button>
+        </Box>
+      )}
+    </Paper>
+  );
+};
+
+export default TradeActionCard;
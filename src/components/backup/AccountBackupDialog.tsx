@@ -0,0 +1,213 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Checkbox,
+  FormControlLabel,
+  CircularProgress,
+  Divider
+} from '@mui/material';
+import {
+  Download as DownloadIcon,
+  Upload as UploadIcon
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import { BaseDialog } from '../common';
+import ConfirmationDialog from '../common/ConfirmationDialog';
+import { useAuthState } from '../../contexts/AuthStateContext';
+import { useCalendars } from '../../hooks/useCalendars';
+import {
+  createAccountBackup,
+  downloadAccountBackup,
+  parseAccountBackup,
+  restoreAccountBackup,
+  summarizeAccountBackup
+} from '../../services/backupService';
+import { AccountBackup, AccountBackupSummary, AccountRestoreResult } from '../../types/backup';
+import { logger } from '../../utils/logger';
+import { Z_INDEX } from '../../styles/zIndex';
+
+interface AccountBackupDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const describeSummary = (summary: AccountBackupSummary): string => [
+  `${summary.calendars} calendars`,
+  `${summary.trades} trades`,
+  `${summary.notes} notes`,
+  `${summary.conversations} AI conversations`,
+  `${summary.tagDefinitions} tag definitions`,
+  `${summary.importTemplates} import templates`,
+  `${summary.files} images`
+].join(', ');
+
+/**
+ * Download a full backup of the account or restore one into it
+ */
+const AccountBackupDialog: React.FC<AccountBackupDialogProps> = ({ open, onClose }) => {
+  const { user } = useAuthState();
+  const { refresh: refreshCalendars } = useCalendars(user?.uid);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [includeImages, setIncludeImages] = useState(true);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [backupToRestore, setBackupToRestore] = useState<AccountBackup | null>(null);
+  const [restoreResult, setRestoreResult] = useState<AccountRestoreResult | null>(null);
+
+  const isBusy = progress !== null;
+
+  useEffect(() => {
+    if (open) {
+      setError(null);
+      setRestoreResult(null);
+    }
+  }, [open]);
+
+  const handleBackup = async () => {
+    if (!user) return;
+    setError(null);
+    setRestoreResult(null);
+    setProgress('Preparing backup');
+    try {
+      const backup = await createAccountBackup(user.uid, { includeImages }, setProgress);
+      downloadAccountBackup(backup);
+    } catch (err) {
+      setError('Failed to create the backup');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setRestoreResult(null);
+    try {
+      setBackupToRestore(parseAccountBackup(await file.text()));
+    } catch (err) {
+      logger.error('Error reading backup file:', err);
+      setError(err instanceof Error ? err.message : 'The file is not a valid backup');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!user || !backupToRestore) return;
+    const backup = backupToRestore;
+    setBackupToRestore(null);
+    setProgress('Preparing restore');
+    try {
+      setRestoreResult(await restoreAccountBackup(user.uid, backup, setProgress));
+      await refreshCalendars();
+    } catch (err) {
+      setError('The restore did not complete. Records restored so far were kept.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <>
+      <BaseDialog
+        open={open}
+        onClose={isBusy ? () => undefined : onClose}
+        maxWidth="sm"
+        fullWidth
+        title="Backup & restore"
+        hideCloseButton={isBusy}
+        hideFooterCancelButton={isBusy}
+        cancelButtonAction={onClose}
+      >
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          {error && <Alert severity="error">{error}</Alert>}
+
+          {progress && (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+              <CircularProgress size={18} />
+              <Typography variant="body2" color="text.secondary">{progress}</Typography>
+            </Box>
+          )}
+
+          {restoreResult && (
+            <Alert severity={restoreResult.warnings.length > 0 ? 'warning' : 'success'}>
+              <Typography variant="body2">Restored {describeSummary(restoreResult)}.</Typography>
+              {restoreResult.warnings.map(warning => (
+                <Typography key={warning} variant="caption" sx={{ display: 'block' }}>
+                  {warning}
+                </Typography>
+              ))}
+            </Alert>
+          )}
+
+          <Box>
+            <Typography variant="subtitle2">Back up your account</Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              Saves your calendars and their settings, trades, notes, AI conversations, tag definitions
+              and import templates into a single file. Trades in the trash are not included.
+            </Typography>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  size="small"
+                  checked={includeImages}
+                  onChange={(e) => setIncludeImages(e.target.checked)}
+                  disabled={isBusy}
+                />
+              }
+              label={<Typography variant="body2">Include trade and note images (larger file)</Typography>}
+            />
+            <Box>
+              <Button variant="contained" startIcon={<DownloadIcon />} onClick={handleBackup} disabled={isBusy}>
+                Download backup
+              </Button>
+            </Box>
+          </Box>
+
+          <Divider />
+
+          <Box>
+            <Typography variant="subtitle2">Restore a backup</Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              Adds everything in the backup to this account as new calendars and notes. Nothing
+              already in the account is changed.
+            </Typography>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              hidden
+              onChange={handleFileSelected}
+            />
+            <Button
+              variant="outlined"
+              startIcon={<UploadIcon />}
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isBusy}
+            >
+              Choose backup file
+            </Button>
+          </Box>
+        </Box>
+      </BaseDialog>
+
+      <ConfirmationDialog
+        open={!!backupToRestore}
+        title="Restore backup"
+        message={backupToRestore
+          ? `Backup from ${format(new Date(backupToRestore.created_at), 'MMM d, yyyy HH:mm')} with ${describeSummary(summarizeAccountBackup(backupToRestore))}. Restore it into this account?`
+          : ''}
+        confirmText="Restore"
+        onConfirm={handleRestore}
+        onCancel={() => setBackupToRestore(null)}
+        sx={{ zIndex: Z_INDEX.LOADING_PROGRESS }}
+      />
+    </>
+  );
+};
+
+export default AccountBackupDialog;
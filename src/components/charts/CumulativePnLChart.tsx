@@ -13,8 +13,9 @@ import { Box, Paper, Typography, useTheme } from '@mui/material';
 import { alpha } from '@mui/material/styles';
 import { format } from 'date-fns';
 import { Trade } from '../../types/dualWrite';
-import { formatValue } from '../../utils/formatters';
+import { formatRMultiple, formatValue } from '../../utils/formatters';
 import { log } from '../../utils/logger';
+import { ValueDisplayMode } from '../../utils/chartDataUtils';
 
 interface CumulativePnLChartProps {
   chartData: any[];
@@ -22,13 +23,14 @@ interface CumulativePnLChartProps {
   monthly_target?: number;
   setMultipleTradesDialog: (dialogState: any) => void;
   timePeriod: 'month' | 'year' | 'all';
+  displayMode?: ValueDisplayMode; // 'r' plots the cumulative R curve; targetValue is then in R
 }
 
 // Custom Y-axis tick component
 const CustomYAxisTick = (props: any) => {
-  const { x, y, payload } = props;
+  const { x, y, payload, formatter = formatValue } = props;
   const value = payload.value;
-  const formattedValue = formatValue(value);
+  const formattedValue = formatter(value);
   
   return (
     <g transform={`translate(${x},${y})`}>
@@ -40,7 +42,7 @@ const CustomYAxisTick = (props: any) => {
 };
 
 // Custom tooltip component
-const CustomTooltip = ({ active, payload, label, type }: any) => {
+const CustomTooltip = ({ active, payload, label, type, formatter = formatValue }: any) => {
   const theme = useTheme();
   
   if (active && payload && payload.length) {
@@ -58,10 +60,10 @@ const CustomTooltip = ({ active, payload, label, type }: any) => {
             fontWeight: 'bold'
           }}
         >
-          {formatValue(data.dailyChange)}
+          {formatter(data.dailyChange)}
         </Typography>
         <Typography variant="body2" color="text.secondary">
-          Cumulative P&L: {formatValue(data.cumulativePnL)}
+          {type === 'cumulativeR' ? 'Cumulative R' : 'Cumulative P&L'}: {formatter(data.cumulativePnL)}
         </Typography>
         {data.trades && data.trades.length > 0 && (
           <Typography variant="body2" sx={{ color: theme.palette.primary.main, fontSize: '0.75rem', mt: 0.5 }}>
@@ -79,9 +81,12 @@ const CumulativePnLChart: React.FC<CumulativePnLChartProps> = ({
   targetValue,
   monthly_target,
   setMultipleTradesDialog,
-  timePeriod
+  timePeriod,
+  displayMode = 'currency'
 }) => {
   const theme = useTheme();
+  const isRMode = displayMode === 'r';
+  const formatter = isRMode ? formatRMultiple : formatValue;
   
   // Define colors
   const COLORS = {
@@ -94,7 +99,7 @@ const CumulativePnLChart: React.FC<CumulativePnLChartProps> = ({
   return (
     <Box>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
-        <Typography variant="h6">Cumulative P&L</Typography>
+        <Typography variant="h6">{isRMode ? 'Cumulative R' : 'Cumulative P&L'}</Typography>
         {monthly_target && targetValue !== null && (
           <Box
             sx={{
@@ -107,7 +112,7 @@ const CumulativePnLChart: React.FC<CumulativePnLChartProps> = ({
               fontSize: '0.875rem'
             }}
           >
-            Target: {monthly_target}% (${targetValue?.toFixed(2)})
+            Target: {monthly_target}% ({isRMode ? formatRMultiple(targetValue) : `$${targetValue.toFixed(2)}`})
           </Box>
         )}
       </Box>
@@ -136,9 +141,9 @@ const CumulativePnLChart: React.FC<CumulativePnLChartProps> = ({
           <YAxis
             axisLine={false}
             tickLine={false}
-            tick={<CustomYAxisTick />}
+            tick={<CustomYAxisTick formatter={formatter} />}
           />
-          <Tooltip content={(props) => <CustomTooltip {...props} type="cumulative" />} />
+          <Tooltip content={(props) => <CustomTooltip {...props} type={isRMode ? 'cumulativeR' : 'cumulative'} formatter={formatter} />} />
           {targetValue !== null && (
             <>
               <ReferenceLine
@@ -165,7 +170,7 @@ const CumulativePnLChart: React.FC<CumulativePnLChartProps> = ({
             stroke={COLORS.win}
             fill="url(#colorPnLWin)"
             strokeWidth={2}
-            name="Cumulative P&L"
+            name={isRMode ? 'Cumulative R' : 'Cumulative P&L'}
             style={{ cursor: 'pointer' }}
             activeDot={(props) => {
               const { cx, cy, index } = props;
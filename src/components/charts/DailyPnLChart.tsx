@@ -12,21 +12,23 @@ import {
 } from 'recharts';
 import { Box, Paper, Typography, useTheme } from '@mui/material';
 import { format } from 'date-fns'; 
- import { formatValue } from '../../utils/formatters';
+ import { formatRMultiple, formatValue } from '../../utils/formatters';
 import { log } from '../../utils/logger';
+import { ValueDisplayMode } from '../../utils/chartDataUtils';
 
 interface DailyPnLChartProps {
   chartData: any[];
   drawdownViolationValue: number;
   setMultipleTradesDialog: (dialogState: any) => void;
   timePeriod: 'month' | 'year' | 'all';
+  displayMode?: ValueDisplayMode; // 'r' plots each day's R; drawdownViolationValue is then in R
 }
 
 // Custom Y-axis tick component for daily P&L
 const CustomDailyPnLYAxisTick = (props: any) => {
-  const { x, y, payload } = props;
+  const { x, y, payload, formatter = formatValue } = props;
   const value = payload.value;
-  const formattedValue = formatValue(value);
+  const formattedValue = formatter(value);
   
   return (
     <g transform={`translate(${x},${y})`}>
@@ -38,7 +40,7 @@ const CustomDailyPnLYAxisTick = (props: any) => {
 };
 
 // Custom tooltip component
-const CustomTooltip = ({ active, payload, label, type }: any) => {
+const CustomTooltip = ({ active, payload, label, type, formatter = formatValue }: any) => {
   const theme = useTheme();
   
   if (active && payload && payload.length) {
@@ -56,7 +58,7 @@ const CustomTooltip = ({ active, payload, label, type }: any) => {
             fontWeight: 'bold'
           }}
         >
-          {formatValue(data.pnl)}
+          {formatter(data.pnl)}
         </Typography>
         <Typography variant="body2" color="text.secondary">
           {data.isWin ? 'Win' : data.isLoss ? 'Loss' : 'Break Even'}
@@ -76,9 +78,12 @@ const DailyPnLChart: React.FC<DailyPnLChartProps> = ({
   chartData,
   drawdownViolationValue,
   setMultipleTradesDialog,
-  timePeriod
+  timePeriod,
+  displayMode = 'currency'
 }) => {
   const theme = useTheme();
+  const isRMode = displayMode === 'r';
+  const formatter = isRMode ? formatRMultiple : formatValue;
   
   // Define colors
   const COLORS = {
@@ -91,7 +96,7 @@ const DailyPnLChart: React.FC<DailyPnLChartProps> = ({
   return (
     <Box>
       <Typography variant="h6" sx={{ mb: 2 }}>
-        Daily P&L
+        {isRMode ? 'Daily R' : 'Daily P&L'}
       </Typography>
       <ResponsiveContainer width="100%" height={300}>
         <BarChart data={chartData}>
@@ -108,9 +113,9 @@ const DailyPnLChart: React.FC<DailyPnLChartProps> = ({
           <YAxis
             axisLine={false}
             tickLine={false}
-            tick={<CustomDailyPnLYAxisTick />}
+            tick={<CustomDailyPnLYAxisTick formatter={formatter} />}
           />
-          <Tooltip content={(props) => <CustomTooltip {...props} type="daily" />} />
+          <Tooltip content={(props) => <CustomTooltip {...props} type="daily" formatter={formatter} />} />
           <ReferenceLine y={0} stroke={COLORS.zero} strokeDasharray="3 3" />
           <ReferenceLine
             y={drawdownViolationValue}
@@ -119,7 +124,7 @@ const DailyPnLChart: React.FC<DailyPnLChartProps> = ({
             strokeWidth={2}
             label={{
               position: 'right',
-              value: `Max Drawdown: ${formatValue(drawdownViolationValue)}`,
+              value: `Max Drawdown: ${formatter(drawdownViolationValue)}`,
               fill: theme.palette.error.main,
               fontSize: 12,
               fontWeight: 'bold'
@@ -127,7 +132,7 @@ const DailyPnLChart: React.FC<DailyPnLChartProps> = ({
           />
           <Bar
             dataKey="pnl"
-            name="Daily P&L"
+            name={isRMode ? 'Daily R' : 'Daily P&L'}
             radius={[4, 4, 0, 0]}
             onClick={(data: any) => {
               log('Bar clicked:', data);
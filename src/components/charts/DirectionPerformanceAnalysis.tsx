@@ -0,0 +1,138 @@
+import React from 'react';
+import { Box, Paper, Typography, useTheme, Stack, alpha } from '@mui/material';
+import { GroupPerformanceStats } from '../../utils/chartDataUtils';
+import { formatValue } from '../../utils/formatters';
+
+interface DirectionPerformanceAnalysisProps {
+  directionStats: GroupPerformanceStats[];
+  setMultipleTradesDialog: (dialogState: any) => void;
+}
+
+const DIRECTION_LABELS: Record<string, string> = {
+  long: 'Long',
+  short: 'Short'
+};
+
+const DirectionPerformanceAnalysis: React.FC<DirectionPerformanceAnalysisProps> = ({
+  directionStats,
+  setMultipleTradesDialog
+}) => {
+  const theme = useTheme();
+
+  const DIRECTION_COLORS: Record<string, string> = {
+    long: theme.palette.success.main,
+    short: theme.palette.error.main
+  };
+
+  const pnlColor = (value: number) => value > 0 ? theme.palette.success.main : theme.palette.error.main;
+
+  const [long, short] = directionStats;
+  const untaggedHint = directionStats.every(stats => stats.total_trades === 0);
+
+  return (
+    <Paper
+      elevation={theme.palette.mode === 'dark' ? 2 : 1}
+      sx={{
+        p: 3,
+        borderRadius: 2,
+        display: 'flex',
+        flexDirection: 'column',
+        bgcolor: theme.palette.background.paper,
+      }}>
+      <Typography variant="h6" sx={{ mb: 2 }}>
+        Long vs Short
+      </Typography>
+      <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: 2 }}>
+        {directionStats.map(stats => (
+          <Paper
+            key={stats.key}
+            sx={{
+              p: 2,
+              border: `1px solid ${alpha(DIRECTION_COLORS[stats.key], 0.3)}`,
+              borderRadius: 2,
+              bgcolor: theme.palette.mode === 'dark' ? 'rgba(0, 0, 0, 0.2)' : 'rgba(0, 0, 0, 0.02)',
+              opacity: stats.total_trades === 0 ? 0.5 : 1,
+              cursor: stats.total_trades > 0 ? 'pointer' : 'default',
+              transition: 'all 0.2s',
+              '&:hover': {
+                boxShadow: stats.total_trades > 0 ? theme.shadows[2] : 'none'
+              }
+            }}
+            onClick={() => {
+              if (stats.total_trades > 0) {
+                setMultipleTradesDialog({
+                  open: true,
+                  trades: stats.trades,
+                  tradeIds: stats.trades.map(t => t.id),
+                  title: `${DIRECTION_LABELS[stats.key]} Trades`,
+                  expandedTradeId: stats.trades.length === 1 ? stats.trades[0].id : null
+                });
+              }
+            }}
+          >
+            <Typography variant="subtitle2" gutterBottom sx={{ color: DIRECTION_COLORS[stats.key] }}>
+              {DIRECTION_LABELS[stats.key]}
+            </Typography>
+
+            <Stack spacing={1}>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <Typography variant="body2" color="text.secondary">Total Trades</Typography>
+                <Typography variant="body2">{stats.total_trades}</Typography>
+              </Box>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <Typography variant="body2" color="text.secondary">Win Rate</Typography>
+                <Typography
+                  variant="body2"
+                  sx={{ color: stats.win_rate >= 50 ? theme.palette.success.main : theme.palette.error.main }}
+                >
+                  {stats.win_rate.toFixed(1)}%
+                </Typography>
+              </Box>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <Typography variant="body2" color="text.secondary">P&L</Typography>
+                <Typography variant="body2" sx={{ color: pnlColor(stats.total_pnl), fontWeight: 500 }}>
+                  {formatValue(stats.total_pnl)}
+                </Typography>
+              </Box>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <Typography variant="caption" color="text.secondary">Avg P&L per Trade</Typography>
+                <Typography variant="body2" sx={{ color: pnlColor(stats.averagePnL) }}>
+                  {formatValue(stats.averagePnL)}
+                </Typography>
+              </Box>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <Typography variant="caption" color="text.secondary">Avg Realised R</Typography>
+                <Typography
+                  variant="body2"
+                  sx={{ color: stats.avgRealizedR !== null ? pnlColor(stats.avgRealizedR) : 'text.secondary' }}
+                >
+                  {stats.avgRealizedR !== null ? `${stats.avgRealizedR.toFixed(2)}R` : '-'}
+                </Typography>
+              </Box>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <Typography variant="body2" color="text.secondary">Account %</Typography>
+                <Typography variant="body2" sx={{ color: pnlColor(stats.pnlPercentage) }}>
+                  {stats.pnlPercentage.toFixed(2)}%
+                </Typography>
+              </Box>
+            </Stack>
+          </Paper>
+        ))}
+      </Box>
+
+      {untaggedHint ? (
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+          No trades with a direction in this period. Direction is filled in automatically from the entry and stop loss prices.
+        </Typography>
+      ) : long && short && long.total_trades > 0 && short.total_trades > 0 && (
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+          {long.total_pnl >= short.total_pnl
+            ? `Longs outperform shorts by ${formatValue(long.total_pnl - short.total_pnl)} this period.`
+            : `Shorts outperform longs by ${formatValue(short.total_pnl - long.total_pnl)} this period.`}
+        </Typography>
+      )}
+    </Paper>
+  );
+};
+
+export default DirectionPerformanceAnalysis;
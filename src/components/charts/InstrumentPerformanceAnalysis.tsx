@@ -0,0 +1,122 @@
+import React from 'react';
+import {
+  Paper,
+  Typography,
+  useTheme,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Box,
+  Tooltip
+} from '@mui/material';
+import { InfoOutlined } from '@mui/icons-material';
+import { GroupPerformanceStats } from '../../utils/chartDataUtils';
+import { formatValue } from '../../utils/formatters';
+import { scrollbarStyles } from '../../styles/scrollbarStyles';
+
+interface InstrumentPerformanceAnalysisProps {
+  instrumentStats: GroupPerformanceStats[];
+  setMultipleTradesDialog: (dialogState: any) => void;
+}
+
+const COLUMNS = [
+  { label: 'INSTRUMENT', align: 'left' as const },
+  { label: 'TRADES', align: 'right' as const },
+  { label: 'WIN RATE', align: 'right' as const },
+  { label: 'AVG R', align: 'right' as const },
+  { label: 'AVG P/L', align: 'right' as const },
+  { label: 'P/L', align: 'right' as const }
+];
+
+const InstrumentPerformanceAnalysis: React.FC<InstrumentPerformanceAnalysisProps> = ({
+  instrumentStats,
+  setMultipleTradesDialog
+}) => {
+  const theme = useTheme();
+
+  const pnlColor = (value: number) =>
+    value > 0 ? theme.palette.success.main : value < 0 ? theme.palette.error.main : 'text.secondary';
+
+  return (
+    <Paper sx={{ p: 3, borderRadius: 2, display: 'flex', flexDirection: 'column' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+        <Typography variant="h6">Instrument Performance</Typography>
+        <Tooltip
+          title="Results per traded instrument. Avg R only counts trades with entry, exit and stop loss prices."
+          arrow
+          placement="top"
+        >
+          <InfoOutlined sx={{ fontSize: 16, color: 'text.secondary', opacity: 0.7, cursor: 'help' }} />
+        </Tooltip>
+      </Box>
+
+      {instrumentStats.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No trades with an instrument in this period. Set the instrument on your trades to see this breakdown.
+        </Typography>
+      ) : (
+        <TableContainer sx={{ maxHeight: 400, overflow: 'auto', ...scrollbarStyles(theme) }}>
+          <Table stickyHeader size="small">
+            <TableHead>
+              <TableRow>
+                {COLUMNS.map(column => (
+                  <TableCell
+                    key={column.label}
+                    align={column.align}
+                    sx={{
+                      fontWeight: 600,
+                      backgroundColor: theme.palette.background.paper,
+                      borderBottom: `2px solid ${theme.palette.divider}`,
+                      color: 'text.secondary'
+                    }}
+                  >
+                    {column.label}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {instrumentStats.map(stats => (
+                <TableRow
+                  key={stats.key}
+                  hover
+                  sx={{ cursor: 'pointer' }}
+                  onClick={() => setMultipleTradesDialog({
+                    open: true,
+                    trades: stats.trades,
+                    tradeIds: stats.trades.map(t => t.id),
+                    title: `${stats.key} Trades`,
+                    expandedTradeId: stats.trades.length === 1 ? stats.trades[0].id : null
+                  })}
+                >
+                  <TableCell sx={{ fontWeight: 600 }}>{stats.key}</TableCell>
+                  <TableCell align="right">{stats.total_trades}</TableCell>
+                  <TableCell
+                    align="right"
+                    sx={{ color: stats.win_rate >= 50 ? theme.palette.success.main : theme.palette.error.main }}
+                  >
+                    {stats.win_rate.toFixed(1)}%
+                  </TableCell>
+                  <TableCell align="right" sx={{ color: stats.avgRealizedR !== null ? pnlColor(stats.avgRealizedR) : 'text.secondary' }}>
+                    {stats.avgRealizedR !== null ? `${stats.avgRealizedR.toFixed(2)}R` : '-'}
+                  </TableCell>
+                  <TableCell align="right" sx={{ color: pnlColor(stats.averagePnL) }}>
+                    {formatValue(stats.averagePnL)}
+                  </TableCell>
+                  <TableCell align="right" sx={{ color: pnlColor(stats.total_pnl), fontWeight: 600 }}>
+                    {formatValue(stats.total_pnl)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Paper>
+  );
+};
+
+export default InstrumentPerformanceAnalysis;
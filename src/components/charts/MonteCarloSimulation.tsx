@@ -0,0 +1,366 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as RechartsTooltip,
+  ResponsiveContainer,
+  ReferenceLine
+} from 'recharts';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  FormControl,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+  useTheme
+} from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import { InfoOutlined } from '@mui/icons-material';
+import { Trade } from '../../types/dualWrite';
+import { DynamicRiskSettings } from '../../utils/dynamicRiskUtils';
+import { formatValue } from '../../utils/formatters';
+import { logger } from '../../utils/logger';
+import { useMonteCarloWorker } from '../../hooks/useMonteCarloWorker';
+import { RunMonteCarloResponse } from '../../workers/monteCarloWorker';
+
+interface MonteCarloSimulationProps {
+  trades: Trade[];
+  rMultiples: Map<string, number>;
+  dynamicRiskSettings?: DynamicRiskSettings;
+  accountBalance: number;
+  maxDailyDrawdown: number;
+  monthlyTarget?: number;
+}
+
+type OutcomeSource = 'amount' | 'r';
+
+const HORIZON_OPTIONS = [20, 60, 120, 250];
+const SIMULATION_OPTIONS = [1000, 5000, 10000];
+const MIN_TRADES = 10;
+
+// Custom tooltip component
+const CustomTooltip = ({ active, payload }: any) => {
+  const theme = useTheme();
+
+  if (active && payload && payload.length) {
+    const data = payload[0].payload;
+
+    return (
+      <Paper sx={{ p: 1.5, boxShadow: theme.shadows[3] }}>
+        <Typography variant="body2" sx={{ fontWeight: 'bold', mb: 0.5 }}>
+          Day {data.day}
+        </Typography>
+        <Typography variant="body2">Median: {formatValue(data.p50)}</Typography>
+        <Typography variant="body2" color="text.secondary">
+          50% of paths: {formatValue(data.p25)} – {formatValue(data.p75)}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          90% of paths: {formatValue(data.p5)} – {formatValue(data.p95)}
+        </Typography>
+      </Paper>
+    );
+  }
+  return null;
+};
+
+const MonteCarloSimulation: React.FC<MonteCarloSimulationProps> = ({
+  trades,
+  rMultiples,
+  dynamicRiskSettings,
+  accountBalance,
+  maxDailyDrawdown,
+  monthlyTarget
+}) => {
+  const theme = useTheme();
+  const { runSimulation } = useMonteCarloWorker();
+
+  const canUseRMultiples = rMultiples.size >= MIN_TRADES && !!dynamicRiskSettings?.risk_per_trade;
+  const [outcomeSource, setOutcomeSource] = useState<OutcomeSource>(canUseRMultiples ? 'r' : 'amount');
+  const [horizonDays, setHorizonDays] = useState<number>(60);
+  const [simulations, setSimulations] = useState<number>(5000);
+  const [maxTotalDrawdown, setMaxTotalDrawdown] = useState<number>(10);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<RunMonteCarloResponse | null>(null);
+
+  const source: OutcomeSource = outcomeSource === 'r' && !canUseRMultiples ? 'amount' : outcomeSource;
+
+  // Trade counts per trading day, and how many trading days a month usually has
+  const { tradesPerDay, tradingDaysPerMonth } = useMemo(() => {
+    const byDay = new Map<string, number>();
+    const months = new Set<string>();
+    trades.forEach(trade => {
+      const date = new Date(trade.trade_date);
+      byDay.set(date.toDateString(), (byDay.get(date.toDateString()) || 0) + 1);
+      months.add(`${date.getFullYear()}-${date.getMonth()}`);
+    });
+    return {
+      tradesPerDay: Array.from(byDay.values()),
+      tradingDaysPerMonth: months.size > 0 ? Math.max(1, byDay.size / months.size) : 20
+    };
+  }, [trades]);
+
+  const outcomes = useMemo(() => source === 'r'
+    ? trades.filter(trade => rMultiples.has(trade.id)).map(trade => rMultiples.get(trade.id)!)
+    : trades.map(trade => Number(trade.amount)),
+  [source, trades, rMultiples]);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      const simulation = await runSimulation({
+        outcomes,
+        outcomeType: source,
+        tradesPerDay,
+        riskSettings: { ...(dynamicRiskSettings || {}), account_balance: accountBalance },
+        maxDailyDrawdown,
+        maxTotalDrawdown,
+        monthlyTarget,
+        horizonDays,
+        simulations
+      });
+      setResult(simulation);
+    } catch (err) {
+      logger.error('Monte Carlo simulation failed:', err);
+      setError(err instanceof Error ? err.message : 'Simulation failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const formatProbability = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const probabilityColor = (value: number) =>
+    value >= 0.25 ? theme.palette.error.main : value >= 0.1 ? theme.palette.warning.main : theme.palette.success.main;
+
+  const targetEquity = monthlyTarget ? accountBalance * (1 + monthlyTarget / 100) : null;
+
+  const statBox = (label: string, value: string, hint: string, color?: string) => (
+    <Box
+      sx={{
+        p: 1.5,
+        borderRadius: 2,
+        bgcolor: theme.palette.mode === 'dark' ? 'rgba(0, 0, 0, 0.2)' : 'rgba(0, 0, 0, 0.02)',
+        border: `1px solid ${theme.palette.divider}`
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mb: 0.5 }}>
+        <Typography variant="body2" color="text.secondary">{label}</Typography>
+        <Tooltip title={hint} arrow placement="top">
+          <InfoOutlined sx={{ fontSize: 14, color: 'text.secondary', opacity: 0.7, cursor: 'help' }} />
+        </Tooltip>
+      </Box>
+      <Typography variant="h6" sx={{ fontWeight: 500, color: color || 'text.primary' }}>
+        {value}
+      </Typography>
+    </Box>
+  );
+
+  return (
+    <Paper sx={{ p: 3, borderRadius: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+        <Typography variant="h6">Monte Carlo Simulation</Typography>
+        <Tooltip
+          title="Replays your trade outcomes in random order thousands of times to show the range of equity curves your current risk settings can produce."
+          arrow
+          placement="top"
+        >
+          <InfoOutlined sx={{ fontSize: 16, color: 'text.secondary', opacity: 0.7, cursor: 'help' }} />
+        </Tooltip>
+      </Box>
+
+      {trades.length < MIN_TRADES ? (
+        <Typography variant="body2" color="text.secondary">
+          At least {MIN_TRADES} trades are needed to simulate. Select a longer period to include more history.
+        </Typography>
+      ) : (
+        <>
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} sx={{ mb: 2 }} alignItems={{ sm: 'center' }}>
+            <FormControl size="small" sx={{ minWidth: 150 }}>
+              <InputLabel>Resample</InputLabel>
+              <Select
+                value={source}
+                label="Resample"
+                onChange={(e) => setOutcomeSource(e.target.value as OutcomeSource)}
+              >
+                <MenuItem value="amount">Trade P&L</MenuItem>
+                <MenuItem value="r" disabled={!canUseRMultiples}>R-multiples</MenuItem>
+              </Select>
+            </FormControl>
+            <FormControl size="small" sx={{ minWidth: 130 }}>
+              <InputLabel>Horizon</InputLabel>
+              <Select
+                value={horizonDays}
+                label="Horizon"
+                onChange={(e) => setHorizonDays(Number(e.target.value))}
+              >
+                {HORIZON_OPTIONS.map(days => (
+                  <MenuItem key={days} value={days}>{days} trading days</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl size="small" sx={{ minWidth: 130 }}>
+              <InputLabel>Simulations</InputLabel>
+              <Select
+                value={simulations}
+                label="Simulations"
+                onChange={(e) => setSimulations(Number(e.target.value))}
+              >
+                {SIMULATION_OPTIONS.map(count => (
+                  <MenuItem key={count} value={count}>{count.toLocaleString()}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <TextField
+              size="small"
+              type="number"
+              label="Max total drawdown"
+              value={maxTotalDrawdown}
+              onChange={(e) => setMaxTotalDrawdown(Math.max(0, Number(e.target.value)))}
+              slotProps={{
+                input: { endAdornment: <InputAdornment position="end">%</InputAdornment> },
+                htmlInput: { min: 0, max: 100, step: 1 }
+              }}
+              sx={{ width: 170 }}
+            />
+            <Button
+              variant="contained"
+              onClick={handleRun}
+              disabled={isRunning || outcomes.length === 0}
+              startIcon={isRunning ? <CircularProgress size={14} color="inherit" /> : undefined}
+              sx={{ whiteSpace: 'nowrap' }}
+            >
+              {isRunning ? 'Simulating...' : 'Run simulation'}
+            </Button>
+          </Stack>
+
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 2 }}>
+            Resampling {outcomes.length} trades from the selected period, {(trades.length / Math.max(tradesPerDay.length, 1)).toFixed(1)} trades per trading day on average.
+            {source === 'r'
+              ? ' R-multiples are sized with the calendar\'s risk per trade and dynamic risk settings.'
+              : ' Trade P&L is replayed at its recorded size.'}
+          </Typography>
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>
+          )}
+
+          {result && (
+            <>
+              <Box sx={{
+                display: 'grid',
+                gridTemplateColumns: { xs: 'repeat(2, 1fr)', md: 'repeat(4, 1fr)' },
+                gap: 2,
+                mb: 3
+              }}>
+                {statBox(
+                  'Daily limit breach',
+                  maxDailyDrawdown > 0 ? formatProbability(result.dailyDrawdownBreachProbability) : '-',
+                  `Share of simulations with at least one day losing ${maxDailyDrawdown}% or more of the day's starting equity.`,
+                  maxDailyDrawdown > 0 ? probabilityColor(result.dailyDrawdownBreachProbability) : undefined
+                )}
+                {statBox(
+                  'Risk of ruin',
+                  maxTotalDrawdown > 0 ? formatProbability(result.totalDrawdownBreachProbability) : '-',
+                  `Share of simulations that fell ${maxTotalDrawdown}% below their equity peak. Those paths stop trading.`,
+                  maxTotalDrawdown > 0 ? probabilityColor(result.totalDrawdownBreachProbability) : undefined
+                )}
+                {statBox(
+                  'Time to monthly target',
+                  result.medianDaysToTarget !== null
+                    ? `${result.medianDaysToTarget} days (≈${(result.medianDaysToTarget / tradingDaysPerMonth).toFixed(1)} mo)`
+                    : '-',
+                  monthlyTarget
+                    ? `Median trading days to grow the account by ${monthlyTarget}%, reached in ${formatProbability(result.targetHitProbability || 0)} of simulations within the horizon.`
+                    : 'Set a monthly target on the calendar to see how long it takes to reach.'
+                )}
+                {statBox(
+                  'Median max drawdown',
+                  `${result.medianMaxDrawdown.toFixed(1)}%`,
+                  'Half of the simulations had a deeper peak-to-trough drawdown than this.'
+                )}
+              </Box>
+
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                <Typography variant="subtitle2">Equity after {horizonDays} trading days</Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {formatValue(result.finalEquity.p5)} / <strong>{formatValue(result.finalEquity.p50)}</strong> / {formatValue(result.finalEquity.p95)}
+                </Typography>
+              </Box>
+              <ResponsiveContainer width="100%" height={300}>
+                <ComposedChart data={result.equityBands}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis
+                    dataKey="day"
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fill: theme.palette.text.secondary, fontSize: 12 }}
+                  />
+                  <YAxis
+                    axisLine={false}
+                    tickLine={false}
+                    tickFormatter={(value: number) => formatValue(value)}
+                    tick={{ fill: theme.palette.text.secondary, fontSize: 12 }}
+                    domain={['auto', 'auto']}
+                  />
+                  <RechartsTooltip content={(props) => <CustomTooltip {...props} />} />
+                  <Area
+                    type="monotone"
+                    dataKey={(band: any) => [band.p5, band.p95]}
+                    stroke="none"
+                    fill={alpha(theme.palette.primary.main, 0.12)}
+                    name="5th–95th percentile"
+                  />
+                  <Area
+                    type="monotone"
+                    dataKey={(band: any) => [band.p25, band.p75]}
+                    stroke="none"
+                    fill={alpha(theme.palette.primary.main, 0.25)}
+                    name="25th–75th percentile"
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="p50"
+                    stroke={theme.palette.primary.main}
+                    strokeWidth={2}
+                    dot={false}
+                    name="Median"
+                  />
+                  <ReferenceLine y={accountBalance} stroke="#9e9e9e" strokeDasharray="3 3" />
+                  {targetEquity !== null && (
+                    <ReferenceLine
+                      y={targetEquity}
+                      stroke={theme.palette.success.main}
+                      strokeDasharray="4 4"
+                      label={{
+                        position: 'insideTopRight',
+                        value: `Target ${monthlyTarget}%`,
+                        fill: theme.palette.success.main,
+                        fontSize: 12
+                      }}
+                    />
+                  )}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </>
+          )}
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default MonteCarloSimulation;
@@ -2,7 +2,9 @@ import React, { useState } from 'react';
 import { Box, Paper } from '@mui/material';
 import CumulativePnLChart from './CumulativePnLChart';
 import DailyPnLChart from './DailyPnLChart';
+import RMultipleDistributionChart from './RMultipleDistributionChart';
 import RoundedTabs, { TabPanel } from '../common/RoundedTabs';
+import { RMultipleStats, ValueDisplayMode } from '../../utils/chartDataUtils';
 
 interface PnLChartsWrapperProps {
   chartData: any[];
@@ -11,6 +13,8 @@ interface PnLChartsWrapperProps {
   drawdownViolationValue: number;
   setMultipleTradesDialog: (dialogState: any) => void;
   timePeriod: 'month' | 'year' | 'all';
+  displayMode?: ValueDisplayMode;
+  rMultipleStats?: RMultipleStats | null;
 }
 
 
@@ -21,19 +25,24 @@ const PnLChartsWrapper: React.FC<PnLChartsWrapperProps> = ({
   monthly_target,
   drawdownViolationValue,
   setMultipleTradesDialog,
-  timePeriod
+  timePeriod,
+  displayMode = 'currency',
+  rMultipleStats
 }) => {
   const [activeTab, setActiveTab] = useState(0);
+  const isRMode = displayMode === 'r' && !!rMultipleStats;
 
   const handleTabChange = (_: React.SyntheticEvent, newValue: number) => {
     setActiveTab(newValue);
   };
 
   // Define tabs for P&L charts
-  const pnlTabs = [
-    { label: 'Cumulative P&L' },
-    { label: 'Daily P&L' }
-  ];
+  const pnlTabs = isRMode
+    ? [{ label: 'Cumulative R' }, { label: 'Daily R' }, { label: 'R Distribution' }]
+    : [{ label: 'Cumulative P&L' }, { label: 'Daily P&L' }];
+
+  // The distribution tab only exists in R mode
+  const currentTab = activeTab < pnlTabs.length ? activeTab : 0;
 
   return (
     <Paper sx={{ p: 0, mb: 3, borderRadius: 2 }}>
@@ -41,7 +50,7 @@ const PnLChartsWrapper: React.FC<PnLChartsWrapperProps> = ({
         <Box sx={{ display: 'flex', justifyContent: 'start', mb: 2 }}>
           <RoundedTabs
             tabs={pnlTabs}
-            activeTab={activeTab}
+            activeTab={currentTab}
             onTabChange={handleTabChange}
           />
         </Box>
@@ -49,25 +58,37 @@ const PnLChartsWrapper: React.FC<PnLChartsWrapperProps> = ({
 
       <Box sx={{ px: 3, pb: 3 }}>
         {/* Cumulative P&L Tab */}
-        <TabPanel value={activeTab} index={0}>
+        <TabPanel value={currentTab} index={0}>
           <CumulativePnLChart
             chartData={chartData}
             targetValue={targetValue}
             monthly_target={monthly_target}
             setMultipleTradesDialog={setMultipleTradesDialog}
             timePeriod={timePeriod}
+            displayMode={displayMode}
           />
         </TabPanel>
 
         {/* Daily P&L Tab */}
-        <TabPanel value={activeTab} index={1}>
+        <TabPanel value={currentTab} index={1}>
           <DailyPnLChart
             chartData={chartData}
             drawdownViolationValue={drawdownViolationValue}
             setMultipleTradesDialog={setMultipleTradesDialog}
             timePeriod={timePeriod}
+            displayMode={displayMode}
           />
         </TabPanel>
+
+        {/* R Distribution Tab */}
+        {isRMode && (
+          <TabPanel value={currentTab} index={2}>
+            <RMultipleDistributionChart
+              rMultipleStats={rMultipleStats!}
+              setMultipleTradesDialog={setMultipleTradesDialog}
+            />
+          </TabPanel>
+        )}
       </Box>
     </Paper>
   );
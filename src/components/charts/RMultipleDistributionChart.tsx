@@ -0,0 +1,127 @@
+import React from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  Cell
+} from 'recharts';
+import { Box, Paper, Typography, useTheme } from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import { RMultipleStats } from '../../utils/chartDataUtils';
+import { formatRMultiple } from '../../utils/formatters';
+
+interface RMultipleDistributionChartProps {
+  rMultipleStats: RMultipleStats;
+  setMultipleTradesDialog: (dialogState: any) => void;
+}
+
+// Custom tooltip component
+const CustomTooltip = ({ active, payload }: any) => {
+  const theme = useTheme();
+
+  if (active && payload && payload.length) {
+    const data = payload[0].payload;
+
+    return (
+      <Paper sx={{ p: 1.5, boxShadow: theme.shadows[3] }}>
+        <Typography variant="body2" sx={{ fontWeight: 'bold', mb: 0.5 }}>
+          {data.range}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          {data.count} trade{data.count === 1 ? '' : 's'}
+        </Typography>
+        {data.count > 0 && (
+          <Typography variant="body2" sx={{ color: theme.palette.primary.main, fontSize: '0.75rem', mt: 0.5 }}>
+            Click to view trades
+          </Typography>
+        )}
+      </Paper>
+    );
+  }
+  return null;
+};
+
+const RMultipleDistributionChart: React.FC<RMultipleDistributionChartProps> = ({
+  rMultipleStats,
+  setMultipleTradesDialog
+}) => {
+  const theme = useTheme();
+
+  const COLORS = {
+    win: '#4caf50',
+    loss: '#f44336',
+    zero: '#9e9e9e'
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h6">R Distribution</Typography>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            bgcolor: alpha(theme.palette.primary.main, 0.1),
+            px: 1.5,
+            py: 0.5,
+            borderRadius: 1,
+            fontSize: '0.875rem'
+          }}
+        >
+          Expectancy: {formatRMultiple(rMultipleStats.expectancy)} per trade
+        </Box>
+      </Box>
+      <ResponsiveContainer width="100%" height={300}>
+        <BarChart data={rMultipleStats.distribution}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis
+            dataKey="label"
+            axisLine={false}
+            tickLine={false}
+            tick={{ fill: theme.palette.text.secondary, fontSize: 11 }}
+          />
+          <YAxis
+            axisLine={false}
+            tickLine={false}
+            allowDecimals={false}
+            tick={{ fill: theme.palette.text.secondary, fontSize: 12 }}
+          />
+          <Tooltip content={(props) => <CustomTooltip {...props} />} cursor={{ fill: alpha(theme.palette.primary.main, 0.05) }} />
+          <ReferenceLine x="0R" stroke={COLORS.zero} strokeDasharray="3 3" />
+          <Bar
+            dataKey="count"
+            name="Trades"
+            radius={[4, 4, 0, 0]}
+            onClick={(data: any) => {
+              const bucket = data?.payload;
+              if (bucket && bucket.trades.length > 0) {
+                setMultipleTradesDialog({
+                  open: true,
+                  trades: bucket.trades,
+                  title: `Trades ${bucket.range}`,
+                  expandedTradeId: bucket.trades.length === 1 ? bucket.trades[0].id : null
+                });
+              }
+            }}
+            style={{ cursor: 'pointer' }}
+          >
+            {rMultipleStats.distribution.map((bucket, index) => (
+              <Cell
+                key={`cell-${index}`}
+                fill={bucket.from >= 0 ? COLORS.win : COLORS.loss}
+                fillOpacity={0.8}
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </Box>
+  );
+};
+
+export default RMultipleDistributionChart;
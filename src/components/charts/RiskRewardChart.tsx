@@ -6,6 +6,8 @@ import {
 } from 'recharts';
 import { Box, Paper, Typography, useTheme, Tooltip } from '@mui/material';
 import { InfoOutlined } from '@mui/icons-material';
+import { RMultipleStats, ValueDisplayMode } from '../../utils/chartDataUtils';
+import { formatRMultiple } from '../../utils/formatters';
 
 interface RiskRewardChartProps {
   riskRewardStats: {
@@ -16,15 +18,25 @@ interface RiskRewardChartProps {
       rr: number;
     }>;
   };
+  displayMode?: ValueDisplayMode;
+  rMultipleStats?: RMultipleStats | null;
 }
 
-const RiskRewardChart: React.FC<RiskRewardChartProps> = ({ riskRewardStats }) => {
+const RiskRewardChart: React.FC<RiskRewardChartProps> = ({
+  riskRewardStats,
+  displayMode = 'currency',
+  rMultipleStats
+}) => {
   const theme = useTheme();
+  const showRStats = displayMode === 'r' && !!rMultipleStats && rMultipleStats.measuredTrades > 0;
 
-  if (riskRewardStats.data.length === 0) {
+  if (riskRewardStats.data.length === 0 && !showRStats) {
     return null;
   }
 
+  const rColor = (value: number) =>
+    value > 0 ? theme.palette.success.main : value < 0 ? theme.palette.error.main : 'text.primary';
+
   return (
     <Paper
       sx={{
@@ -68,29 +80,69 @@ const RiskRewardChart: React.FC<RiskRewardChartProps> = ({ riskRewardStats }) =>
             {riskRewardStats.max.toFixed(2)}
           </Typography>
         </Box>
+        {showRStats && (
+          <>
+            <Box>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mb: 0.5 }}>
+                <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+                  Expectancy
+                </Typography>
+                <Tooltip
+                  title="Average result per trade in R, where 1R is the amount risked on the trade. Positive expectancy means the strategy makes money over many trades, whatever the account size."
+                  arrow
+                  placement="top"
+                >
+                  <InfoOutlined sx={{ fontSize: 16, color: 'text.secondary', opacity: 0.7, cursor: 'help' }} />
+                </Tooltip>
+              </Box>
+              <Typography variant="h4" sx={{ fontWeight: 500, color: rColor(rMultipleStats!.expectancy) }}>
+                {formatRMultiple(rMultipleStats!.expectancy)}
+              </Typography>
+            </Box>
+            <Box>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mb: 0.5 }}>
+                <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+                  Total R
+                </Typography>
+                <Tooltip
+                  title={`Sum of the R-multiples of ${rMultipleStats!.measuredTrades} trade${rMultipleStats!.measuredTrades === 1 ? '' : 's'} in this period.`}
+                  arrow
+                  placement="top"
+                >
+                  <InfoOutlined sx={{ fontSize: 16, color: 'text.secondary', opacity: 0.7, cursor: 'help' }} />
+                </Tooltip>
+              </Box>
+              <Typography variant="h4" sx={{ fontWeight: 500, color: rColor(rMultipleStats!.totalR) }}>
+                {formatRMultiple(rMultipleStats!.totalR, 1)}
+              </Typography>
+            </Box>
+          </>
+        )}
       </Box>
 
       {/* RR Trend Line Graph */}
-      <Box sx={{ height: 60, mt: 2 }}>
-        <ResponsiveContainer width="100%" height="100%">
-          <AreaChart data={riskRewardStats.data} margin={{ top: 0, right: 0, left: 0, bottom: 0 }}>
-            <defs>
-              <linearGradient id="rrGradient" x1="0" y1="0" x2="0" y2="1">
-                <stop offset="5%" stopColor={theme.palette.primary.main} stopOpacity={0.3} />
-                <stop offset="95%" stopColor={theme.palette.primary.main} stopOpacity={0} />
-              </linearGradient>
-            </defs>
-            <Area
-              type="monotone"
-              dataKey="rr"
-              stroke={theme.palette.primary.main}
-              strokeWidth={2}
-              fill="url(#rrGradient)"
-              dot={false}
-            />
-          </AreaChart>
-        </ResponsiveContainer>
-      </Box>
+      {riskRewardStats.data.length > 0 && (
+        <Box sx={{ height: 60, mt: 2 }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={riskRewardStats.data} margin={{ top: 0, right: 0, left: 0, bottom: 0 }}>
+              <defs>
+                <linearGradient id="rrGradient" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor={theme.palette.primary.main} stopOpacity={0.3} />
+                  <stop offset="95%" stopColor={theme.palette.primary.main} stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <Area
+                type="monotone"
+                dataKey="rr"
+                stroke={theme.palette.primary.main}
+                strokeWidth={2}
+                fill="url(#rrGradient)"
+                dot={false}
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        </Box>
+      )}
     </Paper>
   );
 };
@@ -30,12 +30,17 @@ const SessionPerformanceAnalysis: React.FC<SessionPerformanceAnalysisProps> = ({
   };
 
   // Define session-specific colors
-  const SESSION_COLORS = {
+  const SESSION_COLORS: Record<string, string> = {
     'Asia': '#2962ff',
     'London': '#388e3c',
     'NY AM': '#f57c00',
     'NY PM': '#9c27b0'
   };
+  // Colors for the calendar's own sessions, by position
+  const CUSTOM_SESSION_COLORS = ['#00897b', '#d81b60', '#6d4c41', '#3949ab', '#c0ca33', '#546e7a'];
+
+  const getSessionColor = (session: string, index: number) =>
+    SESSION_COLORS[session] || CUSTOM_SESSION_COLORS[index % CUSTOM_SESSION_COLORS.length];
 
   return (
     <Paper
@@ -58,13 +63,13 @@ const SessionPerformanceAnalysis: React.FC<SessionPerformanceAnalysisProps> = ({
           gap: 2,
           gridAutoRows: 'minmax(min-content, max-content)'
         }}>
-          {sessionStats.map(session => (
+          {sessionStats.map((session, index) => (
             <Paper
               key={session.session}
               sx={{
                 p: 2,
                 border: `1px solid ${alpha(
-                  SESSION_COLORS[session.session as keyof typeof SESSION_COLORS],
+                  getSessionColor(session.session, index),
                   0.3
                 )}`,
                 borderRadius: 2,
@@ -98,7 +103,7 @@ const SessionPerformanceAnalysis: React.FC<SessionPerformanceAnalysisProps> = ({
               <Typography
                 variant="subtitle2"
                 gutterBottom
-                sx={{ color: SESSION_COLORS[session.session as keyof typeof SESSION_COLORS] }}
+                sx={{ color: getSessionColor(session.session, index) }}
               >
                 {session.session}
               </Typography>
@@ -192,7 +197,7 @@ const SessionPerformanceAnalysis: React.FC<SessionPerformanceAnalysisProps> = ({
                 <Box
                   sx={{
                     height: 3,
-                    bgcolor: alpha(SESSION_COLORS[session.session as keyof typeof SESSION_COLORS], 0.2),
+                    bgcolor: alpha(getSessionColor(session.session, index), 0.2),
                     borderRadius: 1,
                     mt: 1
                   }}
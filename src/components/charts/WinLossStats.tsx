@@ -1,8 +1,9 @@
 import React from 'react';
 import { Box, Paper, Typography, Tooltip, useTheme, Stack, alpha } from '@mui/material';
 import { InfoOutlined } from '@mui/icons-material';
-import { formatCurrency } from '../../utils/formatters';
+import { formatCurrency, formatRMultiple } from '../../utils/formatters';
 import { Trade } from '../../types/dualWrite';
+import { RMultipleStats, ValueDisplayMode } from '../../utils/chartDataUtils';
 
 interface WinLossStatsProps {
   winLossStats: {
@@ -31,10 +32,19 @@ interface WinLossStatsProps {
   };
   trades: Trade[];
   onTradeClick?: (tradeId: string) => void;
+  displayMode?: ValueDisplayMode;
+  rMultipleStats?: RMultipleStats | null;
 }
 
-const WinLossStats: React.FC<WinLossStatsProps> = ({ winLossStats, trades, onTradeClick }) => {
+const WinLossStats: React.FC<WinLossStatsProps> = ({
+  winLossStats,
+  trades,
+  onTradeClick,
+  displayMode = 'currency',
+  rMultipleStats
+}) => {
   const theme = useTheme();
+  const isRMode = displayMode === 'r' && !!rMultipleStats;
 
   // Find the best win (trade with highest amount)
   const bestWin = React.useMemo(() => {
@@ -89,7 +99,9 @@ const WinLossStats: React.FC<WinLossStatsProps> = ({ winLossStats, trades, onTra
                   </Tooltip>
                 </Box>
                 <Typography variant="body2">
-                  {bestWin ? formatCurrency(bestWin.amount) : '0'}
+                  {isRMode
+                    ? formatRMultiple(rMultipleStats!.bestWinR)
+                    : bestWin ? formatCurrency(bestWin.amount) : '0'}
                 </Typography>
               </Box>
               <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
@@ -101,7 +113,9 @@ const WinLossStats: React.FC<WinLossStatsProps> = ({ winLossStats, trades, onTra
                     <InfoOutlined sx={{ fontSize: 14, color: 'text.secondary', opacity: 0.7, cursor: 'help' }} />
                   </Tooltip>
                 </Box>
-                <Typography variant="body2">{formatCurrency(winLossStats.winners.avgAmount)}</Typography>
+                <Typography variant="body2">
+                  {isRMode ? formatRMultiple(rMultipleStats!.averageWinR) : formatCurrency(winLossStats.winners.avgAmount)}
+                </Typography>
               </Box>
               <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
                 <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
@@ -160,7 +174,9 @@ const WinLossStats: React.FC<WinLossStatsProps> = ({ winLossStats, trades, onTra
                   </Tooltip>
                 </Box>
                 <Typography variant="body2">
-                  {worstLoss ? formatCurrency(Math.abs(worstLoss.amount)) : '0'}
+                  {isRMode
+                    ? formatRMultiple(rMultipleStats!.worstLossR)
+                    : worstLoss ? formatCurrency(Math.abs(worstLoss.amount)) : '0'}
                 </Typography>
               </Box>
               <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
@@ -172,7 +188,9 @@ const WinLossStats: React.FC<WinLossStatsProps> = ({ winLossStats, trades, onTra
                     <InfoOutlined sx={{ fontSize: 14, color: 'text.secondary', opacity: 0.7, cursor: 'help' }} />
                   </Tooltip>
                 </Box>
-                <Typography variant="body2">{formatCurrency(Math.abs(winLossStats.losers.avgAmount))}</Typography>
+                <Typography variant="body2">
+                  {isRMode ? formatRMultiple(rMultipleStats!.averageLossR) : formatCurrency(Math.abs(winLossStats.losers.avgAmount))}
+                </Typography>
               </Box>
               <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
                 <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
@@ -7,6 +7,10 @@ export { default as TagPerformanceAnalysis } from './TagPerformanceAnalysis';
 export { default as TagDayOfWeekAnalysis } from './TagDayOfWeekAnalysis';
 export { default as DailySummaryTable } from './DailySummaryTable';
 export { default as SessionPerformanceAnalysis } from './SessionPerformanceAnalysis';
+export { default as InstrumentPerformanceAnalysis } from './InstrumentPerformanceAnalysis';
+export { default as DirectionPerformanceAnalysis } from './DirectionPerformanceAnalysis';
+export { default as MonteCarloSimulation } from './MonteCarloSimulation';
 export { default as TradesListDialog } from './TradesListDialog';
 export { default as RiskRewardChart } from './RiskRewardChart';
+export { default as RMultipleDistributionChart } from './RMultipleDistributionChart';
 export { default as EconomicEventCorrelationAnalysis } from './EconomicEventCorrelationAnalysis';
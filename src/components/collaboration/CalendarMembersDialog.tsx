@@ -0,0 +1,298 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemText,
+  Avatar,
+  IconButton,
+  Tooltip,
+  TextField,
+  Chip
+} from '@mui/material';
+import {
+  PersonRemove as RemoveIcon,
+  ContentCopy as CopyIcon,
+  Link as LinkIcon
+} from '@mui/icons-material';
+import { BaseDialog } from '../common';
+import ConfirmationDialog from '../common/ConfirmationDialog';
+import { collaborationService } from '../../services/collaborationService';
+import { useAuthState } from '../../contexts/AuthStateContext';
+import {
+  CalendarMember,
+  CalendarMemberRole,
+  CalendarRole,
+  CALENDAR_INVITE_EXPIRY_DAYS,
+  CALENDAR_ROLE_DESCRIPTIONS,
+  CALENDAR_ROLE_LABELS
+} from '../../types/collaboration';
+import { logger } from '../../utils/logger';
+import { Z_INDEX } from '../../styles/zIndex';
+
+interface CalendarMembersDialogProps {
+  open: boolean;
+  calendarId: string;
+  calendarName: string;
+  role: CalendarRole;
+  onClose: () => void;
+}
+
+const MEMBER_ROLES: CalendarMemberRole[] = ['editor', 'commenter', 'viewer'];
+
+/**
+ * Members of a calendar: owners invite, change roles and remove; members can leave
+ */
+const CalendarMembersDialog: React.FC<CalendarMembersDialogProps> = ({
+  open,
+  calendarId,
+  calendarName,
+  role,
+  onClose
+}) => {
+  const navigate = useNavigate();
+  const { user } = useAuthState();
+  const [members, setMembers] = useState<CalendarMember[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [inviteRole, setInviteRole] = useState<CalendarMemberRole>('commenter');
+  const [inviteLink, setInviteLink] = useState('');
+  const [isCreatingInvite, setIsCreatingInvite] = useState(false);
+  const [memberToRemove, setMemberToRemove] = useState<CalendarMember | null>(null);
+  const [isRemoving, setIsRemoving] = useState(false);
+
+  const isOwner = role === 'owner';
+
+  const loadMembers = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setMembers(await collaborationService.getMembers(calendarId));
+    } catch (err) {
+      setError('Failed to load members');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [calendarId]);
+
+  useEffect(() => {
+    if (open) {
+      setInviteLink('');
+      loadMembers();
+    }
+  }, [open, loadMembers]);
+
+  const handleCreateInvite = async () => {
+    if (!user) return;
+    setIsCreatingInvite(true);
+    setError(null);
+    try {
+      setInviteLink(await collaborationService.createInvite(calendarId, user.uid, inviteRole));
+    } catch (err) {
+      setError('Failed to create the invite link');
+    } finally {
+      setIsCreatingInvite(false);
+    }
+  };
+
+  const handleCopyInvite = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+    } catch (err) {
+      logger.error('Error copying to clipboard:', err);
+    }
+  };
+
+  const handleRoleChange = async (member: CalendarMember, newRole: CalendarMemberRole) => {
+    try {
+      await collaborationService.updateMemberRole(member.id, newRole);
+      setMembers(prev => prev.map(m => m.id === member.id ? { ...m, role: newRole } : m));
+    } catch (err) {
+      setError('Failed to change the role');
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!memberToRemove) return;
+    setIsRemoving(true);
+    try {
+      await collaborationService.removeMember(memberToRemove.id);
+      setMemberToRemove(null);
+
+      // Leaving: the calendar is no longer accessible
+      if (memberToRemove.user_id === user?.uid) {
+        onClose();
+        navigate('/dashboard');
+        return;
+      }
+      setMembers(prev => prev.filter(m => m.id !== memberToRemove.id));
+    } catch (err) {
+      setError('Failed to remove the member');
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  const ownMembership = members.find(member => member.user_id === user?.uid);
+
+  return (
+    <>
+      <BaseDialog
+        open={open}
+        onClose={onClose}
+        maxWidth="sm"
+        fullWidth
+        title={`Members of ${calendarName}`}
+        cancelButtonAction={onClose}
+      >
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          {error && <Alert severity="error">{error}</Alert>}
+
+          {isOwner && (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+              <Typography variant="subtitle2">Invite someone</Typography>
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <FormControl size="small" sx={{ flex: 1 }}>
+                  <InputLabel>Role</InputLabel>
+                  <Select
+                    label="Role"
+                    value={inviteRole}
+                    onChange={(e) => setInviteRole(e.target.value as CalendarMemberRole)}
+                    MenuProps={{ sx: { zIndex: Z_INDEX.DIALOG_POPUP } }}
+                  >
+                    {MEMBER_ROLES.map(memberRole => (
+                      <MenuItem key={memberRole} value={memberRole}>
+                        {CALENDAR_ROLE_LABELS[memberRole]}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <Button
+                  variant="outlined"
+                  onClick={handleCreateInvite}
+                  disabled={isCreatingInvite}
+                  startIcon={isCreatingInvite ? <CircularProgress size={14} /> : <LinkIcon />}
+                >
+                  Create link
+                </Button>
+              </Box>
+              <Typography variant="caption" color="text.secondary">
+                {CALENDAR_ROLE_DESCRIPTIONS[inviteRole]}. The link works once and expires in {CALENDAR_INVITE_EXPIRY_DAYS} days.
+              </Typography>
+              {inviteLink && (
+                <TextField
+                  size="small"
+                  value={inviteLink}
+                  fullWidth
+                  slotProps={{
+                    input: {
+                      readOnly: true,
+                      endAdornment: (
+                        <Tooltip title="Copy link">
+                          <IconButton size="small" onClick={handleCopyInvite}>
+                            <CopyIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      )
+                    }
+                  }}
+                />
+              )}
+            </Box>
+          )}
+
+          <Box>
+            <Typography variant="subtitle2" sx={{ mb: 0.5 }}>Members</Typography>
+            {isLoading ? (
+              <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+                <CircularProgress size={24} />
+              </Box>
+            ) : members.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                {isOwner ? 'Only you have access to this calendar.' : 'No other members.'}
+              </Typography>
+            ) : (
+              <List dense disablePadding>
+                {members.map(member => (
+                  <ListItem
+                    key={member.id}
+                    divider
+                    secondaryAction={isOwner ? (
+                      <Tooltip title="Remove member">
+                        <IconButton edge="end" size="small" onClick={() => setMemberToRemove(member)}>
+                          <RemoveIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    ) : undefined}
+                    sx={{ pr: isOwner ? 6 : 0 }}
+                  >
+                    <ListItemAvatar>
+                      <Avatar src={member.photo_url || undefined} sx={{ width: 32, height: 32 }}>
+                        {(member.display_name || member.email).charAt(0).toUpperCase()}
+                      </Avatar>
+                    </ListItemAvatar>
+                    <ListItemText
+                      primary={member.display_name || member.email}
+                      secondary={member.display_name ? member.email : undefined}
+                    />
+                    {isOwner ? (
+                      <Select
+                        size="small"
+                        value={member.role}
+                        onChange={(e) => handleRoleChange(member, e.target.value as CalendarMemberRole)}
+                        MenuProps={{ sx: { zIndex: Z_INDEX.DIALOG_POPUP } }}
+                        sx={{ minWidth: 130 }}
+                      >
+                        {MEMBER_ROLES.map(memberRole => (
+                          <MenuItem key={memberRole} value={memberRole}>
+                            {CALENDAR_ROLE_LABELS[memberRole]}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    ) : (
+                      <Chip size="small" label={CALENDAR_ROLE_LABELS[member.role]} />
+                    )}
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </Box>
+
+          {!isOwner && ownMembership && (
+            <Box>
+              <Button color="error" onClick={() => setMemberToRemove(ownMembership)}>
+                Leave calendar
+              </Button>
+            </Box>
+          )}
+        </Box>
+      </BaseDialog>
+
+      <ConfirmationDialog
+        open={!!memberToRemove}
+        title={memberToRemove?.user_id === user?.uid ? 'Leave calendar' : 'Remove member'}
+        message={memberToRemove?.user_id === user?.uid
+          ? `You will lose access to "${calendarName}".`
+          : `${memberToRemove?.display_name || memberToRemove?.email} will lose access to "${calendarName}". Their comments are kept.`}
+        confirmText={memberToRemove?.user_id === user?.uid ? 'Leave' : 'Remove'}
+        confirmColor="error"
+        onConfirm={handleRemove}
+        onCancel={() => setMemberToRemove(null)}
+        isSubmitting={isRemoving}
+        sx={{ zIndex: Z_INDEX.LOADING_PROGRESS }}
+      />
+    </>
+  );
+};
+
+export default CalendarMembersDialog;
@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  IconButton,
+  Tooltip,
+  CircularProgress,
+  alpha,
+  useTheme
+} from '@mui/material';
+import {
+  ChatBubbleOutline as CommentIcon,
+  Send as SendIcon,
+  DeleteOutline as DeleteIcon
+} from '@mui/icons-material';
+import { formatDistanceToNow } from 'date-fns';
+import { collaborationService } from '../../services/collaborationService';
+import { useAuthState } from '../../contexts/AuthStateContext';
+import { CalendarRole, TradeComment, TRADE_COMMENT_MAX_LENGTH, canCommentOnTrades } from '../../types/collaboration';
+import { logger } from '../../utils/logger';
+
+interface TradeCommentThreadProps {
+  tradeId: string;
+  calendarId: string;
+  calendarRole: CalendarRole;
+}
+
+/**
+ * Comment thread of a trade, for calendar owners and members
+ */
+const TradeCommentThread: React.FC<TradeCommentThreadProps> = ({ tradeId, calendarId, calendarRole }) => {
+  const theme = useTheme();
+  const { user } = useAuthState();
+  const [comments, setComments] = useState<TradeComment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canComment = canCommentOnTrades(calendarRole);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    collaborationService.getComments(tradeId)
+      .then(loaded => {
+        if (!cancelled) setComments(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load comments');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tradeId]);
+
+  const handlePost = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!user || !draft.trim()) return;
+
+    setIsPosting(true);
+    setError(null);
+    try {
+      const comment = await collaborationService.addComment(calendarId, tradeId, user.uid, draft);
+      setComments(prev => [...prev, comment]);
+      setDraft('');
+    } catch (err) {
+      logger.error('Error posting trade comment:', err);
+      setError('Failed to post comment');
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    try {
+      await collaborationService.deleteComment(commentId);
+      setComments(prev => prev.filter(comment => comment.id !== commentId));
+    } catch (err) {
+      logger.error('Error deleting trade comment:', err);
+      setError('Failed to delete comment');
+    }
+  };
+
+  // Nothing to show viewers on trades nobody commented on
+  if (!isLoading && comments.length === 0 && !canComment) {
+    return null;
+  }
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mb: 0.5 }}>
+        <CommentIcon sx={{ fontSize: 16, color: 'text.secondary' }} />
+        <Typography variant="caption" color="text.secondary" sx={{ fontWeight: 600, display: 'block' }}>
+          Comments{comments.length > 0 ? ` (${comments.length})` : ''}
+        </Typography>
+      </Box>
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 1 }}>
+          <CircularProgress size={18} />
+        </Box>
+      ) : (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+          {comments.map(comment => {
+            const canDelete = comment.user_id === user?.uid || calendarRole === 'owner';
+            return (
+              <Box
+                key={comment.id}
+                sx={{
+                  p: 1,
+                  borderRadius: 1,
+                  backgroundColor: alpha(theme.palette.background.paper, 0.7),
+                  display: 'flex',
+                  gap: 1
+                }}
+              >
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography variant="caption" color="text.secondary">
+                    <Box component="span" sx={{ fontWeight: 600, color: 'text.primary' }}>
+                      {comment.author_name || 'Member'}
+                    </Box>
+                    {' · '}
+                    {formatDistanceToNow(comment.created_at, { addSuffix: true })}
+                  </Typography>
+                  <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                    {comment.body}
+                  </Typography>
+                </Box>
+                {canDelete && (
+                  <Tooltip title="Delete comment">
+                    <IconButton size="small" onClick={() => handleDelete(comment.id)} sx={{ alignSelf: 'flex-start' }}>
+                      <DeleteIcon sx={{ fontSize: 16 }} />
+                    </IconButton>
+                  </Tooltip>
+                )}
+              </Box>
+            );
+          })}
+
+          {error && (
+            <Typography variant="caption" color="error">
+              {error}
+            </Typography>
+          )}
+
+          {canComment && (
+            <Box component="form" onSubmit={handlePost} sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+              <TextField
+                size="small"
+                placeholder={comments.length === 0 ? 'Start a thread on this trade' : 'Reply'}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) handlePost(e);
+                }}
+                fullWidth
+                multiline
+                maxRows={4}
+                slotProps={{ htmlInput: { maxLength: TRADE_COMMENT_MAX_LENGTH } }}
+              />
+              <IconButton type="submit" color="primary" disabled={!draft.trim() || isPosting}>
+                {isPosting ? <CircularProgress size={18} /> : <SendIcon fontSize="small" />}
+              </IconButton>
+            </Box>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default TradeCommentThread;
@@ -19,7 +19,9 @@ import {
   LightMode as LightModeIcon,
   DarkMode as DarkModeIcon,
   Logout as LogoutIcon,
-  BugReport as BugReportIcon
+  BugReport as BugReportIcon,
+  Share as ShareIcon,
+  Backup as BackupIcon
 } from '@mui/icons-material';
 import { useTheme, alpha } from '@mui/material/styles';
 import { useNavigate, useLocation } from 'react-router-dom';
@@ -27,6 +29,9 @@ import { useAuth } from '../../contexts/SupabaseAuthContext';
 import { error } from '../../utils/logger';
 import DebugPanel from './DebugPanel';
 import LoginDialog from '../auth/LoginDialog';
+import SharingManagementDialog from '../sharing/SharingManagementDialog';
+import AccountBackupDialog from '../backup/AccountBackupDialog';
+import SyncStatusIndicator from './SyncStatusIndicator';
 
 // Discord icon component
 const DiscordIcon = (props: any) => (
@@ -48,6 +53,7 @@ interface NavItem {
 
 const NAV_ITEMS: NavItem[] = [
   { label: 'Home', path: '/' },
+  { label: 'Community', path: '/community', authRequired: true },
   { label: 'About', path: '/about' }
 ];
 
@@ -58,6 +64,8 @@ const AppHeader: React.FC<AppHeaderProps> = ({ onToggleTheme, mode }) => {
   const { user, signOut } = useAuth();
 
   const [debugPanelOpen, setDebugPanelOpen] = useState(false);
+  const [sharingDialogOpen, setSharingDialogOpen] = useState(false);
+  const [backupDialogOpen, setBackupDialogOpen] = useState(false);
   const [loginDialogOpen, setLoginDialogOpen] = useState(false);
   const [userMenuAnchor, setUserMenuAnchor] = useState<null | HTMLElement>(null);
 
@@ -170,7 +178,7 @@ const AppHeader: React.FC<AppHeaderProps> = ({ onToggleTheme, mode }) => {
               spacing={0.5}
               sx={{ mr: { xs: 0, sm: 1 } }}
             >
-              {NAV_ITEMS.map((item) => {
+              {NAV_ITEMS.filter((item) => !item.authRequired || user).map((item) => {
                 const active = isActive(item.path);
                 return (
                   <Button
@@ -200,6 +208,9 @@ const AppHeader: React.FC<AppHeaderProps> = ({ onToggleTheme, mode }) => {
                 );
               })}
             </Stack>
+            {/* Offline sync status */}
+            {user && <SyncStatusIndicator />}
+
             {/* Debug Button - Admin only */}
             {isDebugAuthorized && (
               <IconButton
@@ -307,6 +318,30 @@ const AppHeader: React.FC<AppHeaderProps> = ({ onToggleTheme, mode }) => {
                     </Typography>
                   </Box>
                   <Divider />
+                  <MenuItem
+                    onClick={() => {
+                      handleUserMenuClose();
+                      setSharingDialogOpen(true);
+                    }}
+                    sx={{ py: 1.5 }}
+                  >
+                    <ListItemIcon>
+                      <ShareIcon fontSize="small" />
+                    </ListItemIcon>
+                    <ListItemText>Shared links</ListItemText>
+                  </MenuItem>
+                  <MenuItem
+                    onClick={() => {
+                      handleUserMenuClose();
+                      setBackupDialogOpen(true);
+                    }}
+                    sx={{ py: 1.5 }}
+                  >
+                    <ListItemIcon>
+                      <BackupIcon fontSize="small" />
+                    </ListItemIcon>
+                    <ListItemText>Backup &amp; restore</ListItemText>
+                  </MenuItem>
                   <MenuItem
                     onClick={handleSignOut}
                     sx={{
@@ -357,6 +392,22 @@ const AppHeader: React.FC<AppHeaderProps> = ({ onToggleTheme, mode }) => {
         />
       )}
 
+      {/* Sharing Management */}
+      {user && (
+        <SharingManagementDialog
+          open={sharingDialogOpen}
+          onClose={() => setSharingDialogOpen(false)}
+        />
+      )}
+
+      {/* Account Backup */}
+      {user && (
+        <AccountBackupDialog
+          open={backupDialogOpen}
+          onClose={() => setBackupDialogOpen(false)}
+        />
+      )}
+
       {/* Login Dialog */}
       <LoginDialog
         open={loginDialogOpen}
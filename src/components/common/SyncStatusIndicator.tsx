@@ -0,0 +1,109 @@
+import React from 'react';
+import { Box, ButtonBase, CircularProgress, Tooltip, Typography } from '@mui/material';
+import { alpha, useTheme } from '@mui/material/styles';
+import {
+  CloudOff as CloudOffIcon,
+  CloudUpload as CloudUploadIcon,
+  SyncProblem as SyncProblemIcon
+} from '@mui/icons-material';
+import { formatDistanceToNow } from 'date-fns';
+import { useOfflineSyncStatus } from '../../hooks/useOfflineSyncStatus';
+import { offlineSyncService } from '../../services/offlineSyncService';
+
+const pluralize = (count: number, word: string): string => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/**
+ * Header badge for offline journaling: shown while offline, while changes
+ * wait to be synced and after a replay that dropped changes
+ */
+const SyncStatusIndicator: React.FC = () => {
+  const theme = useTheme();
+  const { isOnline, isSyncing, pendingCount, lastSyncedAt, conflicts, failed, lastError } = useOfflineSyncStatus();
+
+  const hasProblems = conflicts > 0 || failed > 0;
+  if (isOnline && !isSyncing && pendingCount === 0 && !hasProblems) {
+    return null;
+  }
+
+  let label: string;
+  let color: string;
+  let icon: React.ReactNode;
+  const details: string[] = [];
+
+  if (!isOnline) {
+    label = pendingCount > 0 ? `Offline · ${pendingCount} pending` : 'Offline';
+    color = theme.palette.warning.main;
+    icon = <CloudOffIcon sx={{ fontSize: 16 }} />;
+    details.push('Trades and notes you save are kept on this device and synced when you are back online.');
+  } else if (isSyncing) {
+    label = 'Syncing';
+    color = theme.palette.info.main;
+    icon = <CircularProgress size={12} sx={{ color }} />;
+    details.push(`Syncing ${pluralize(pendingCount, 'offline change')}`);
+  } else if (pendingCount > 0) {
+    label = `${pendingCount} pending`;
+    color = theme.palette.warning.main;
+    icon = <CloudUploadIcon sx={{ fontSize: 16 }} />;
+    details.push(`${pluralize(pendingCount, 'change')} not synced yet. Click to sync now.`);
+  } else {
+    label = 'Sync issues';
+    color = theme.palette.error.main;
+    icon = <SyncProblemIcon sx={{ fontSize: 16 }} />;
+  }
+
+  if (conflicts > 0) {
+    details.push(`${pluralize(conflicts, 'offline edit')} replaced by newer changes made elsewhere.`);
+  }
+  if (failed > 0) {
+    details.push(`${pluralize(failed, 'offline change')} could not be saved${lastError ? `: ${lastError}` : '.'}`);
+  }
+  if (lastSyncedAt) {
+    details.push(`Last synced ${formatDistanceToNow(lastSyncedAt, { addSuffix: true })}`);
+  }
+
+  const canSync = isOnline && !isSyncing && pendingCount > 0;
+  const canDismiss = isOnline && !isSyncing && pendingCount === 0;
+  if (canDismiss) {
+    details.push('Click to dismiss.');
+  }
+
+  return (
+    <Tooltip
+      title={
+        <Box>
+          {details.map(detail => (
+            <Typography key={detail} variant="caption" sx={{ display: 'block' }}>
+              {detail}
+            </Typography>
+          ))}
+        </Box>
+      }
+    >
+      <ButtonBase
+        onClick={canSync
+          ? () => offlineSyncService.sync()
+          : canDismiss ? () => offlineSyncService.dismissProblems() : undefined}
+        disableRipple={!canSync && !canDismiss}
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 0.75,
+          px: 1,
+          py: 0.5,
+          borderRadius: 1.5,
+          color,
+          bgcolor: alpha(color, 0.1),
+          border: `1px solid ${alpha(color, 0.3)}`,
+          cursor: canSync || canDismiss ? 'pointer' : 'default'
+        }}
+      >
+        {icon}
+        <Typography variant="caption" sx={{ fontWeight: 600, lineHeight: 1 }}>
+          {label}
+        </Typography>
+      </ButtonBase>
+    </Tooltip>
+  );
+};
+
+export default SyncStatusIndicator;
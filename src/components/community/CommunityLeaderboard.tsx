@@ -0,0 +1,137 @@
+import React from 'react';
+import {
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TableSortLabel,
+  Typography,
+  Chip,
+  Paper
+} from '@mui/material';
+import { alpha, useTheme } from '@mui/material/styles';
+import { CommunityProfileSummary, CommunitySortField } from '../../types/community';
+
+interface CommunityLeaderboardProps {
+  profiles: CommunityProfileSummary[];
+  sortField: CommunitySortField;
+  onSortChange: (field: CommunitySortField) => void;
+  onSelect: (profile: CommunityProfileSummary) => void;
+}
+
+type StatField = Exclude<CommunitySortField, 'created_at'>;
+
+const STAT_COLUMNS: { field: StatField; label: string }[] = [
+  { field: 'growth_percentage', label: 'Growth' },
+  { field: 'win_rate', label: 'Win rate' },
+  { field: 'profit_factor', label: 'Profit factor' },
+  { field: 'max_drawdown', label: 'Max drawdown' },
+  { field: 'total_trades', label: 'Trades' }
+];
+
+/**
+ * Lower is better for drawdown, higher for everything else
+ */
+export const isAscendingSort = (field: CommunitySortField): boolean => field === 'max_drawdown';
+
+/**
+ * Display value of a normalised profile stat
+ * get_community_profiles reports 999 as the profit factor of calendars without losses
+ */
+export const formatCommunityStat = (field: StatField, value: number): string => {
+  switch (field) {
+    case 'growth_percentage':
+      return `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+    case 'win_rate':
+    case 'max_drawdown':
+      return `${value.toFixed(1)}%`;
+    case 'profit_factor':
+      return value >= 999 ? '∞' : value.toFixed(2);
+    case 'total_trades':
+      return value.toString();
+  }
+};
+
+const CommunityLeaderboard: React.FC<CommunityLeaderboardProps> = ({
+  profiles,
+  sortField,
+  onSortChange,
+  onSelect
+}) => {
+  const theme = useTheme();
+
+  return (
+    <TableContainer component={Paper} elevation={0} sx={{ border: `1px solid ${theme.palette.divider}`, borderRadius: 2 }}>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell sx={{ width: 48 }}>#</TableCell>
+            <TableCell>Trader</TableCell>
+            {STAT_COLUMNS.map(column => (
+              <TableCell key={column.field} align="right" sortDirection={sortField === column.field ? (isAscendingSort(column.field) ? 'asc' : 'desc') : false}>
+                <TableSortLabel
+                  active={sortField === column.field}
+                  direction={isAscendingSort(column.field) ? 'asc' : 'desc'}
+                  onClick={() => onSortChange(column.field)}
+                >
+                  {column.label}
+                </TableSortLabel>
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {profiles.map((profile, index) => (
+            <TableRow
+              key={profile.id}
+              hover
+              onClick={() => onSelect(profile)}
+              sx={{
+                cursor: 'pointer',
+                bgcolor: profile.is_own ? alpha(theme.palette.primary.main, 0.04) : undefined
+              }}
+            >
+              <TableCell>
+                <Typography variant="body2" sx={{ fontWeight: index < 3 ? 700 : 400 }}>
+                  {index + 1}
+                </Typography>
+              </TableCell>
+              <TableCell sx={{ maxWidth: 280 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Typography variant="body2" noWrap sx={{ fontWeight: 600 }}>
+                    {profile.display_name}
+                  </Typography>
+                  {profile.is_own && <Chip size="small" label="You" color="primary" variant="outlined" />}
+                </Box>
+                {profile.bio && (
+                  <Typography variant="caption" color="text.secondary" noWrap component="div">
+                    {profile.bio}
+                  </Typography>
+                )}
+              </TableCell>
+              {STAT_COLUMNS.map(column => (
+                <TableCell
+                  key={column.field}
+                  align="right"
+                  sx={{
+                    fontWeight: sortField === column.field ? 600 : 400,
+                    color: column.field === 'growth_percentage'
+                      ? (profile.growth_percentage >= 0 ? 'success.main' : 'error.main')
+                      : 'text.primary'
+                  }}
+                >
+                  {formatCommunityStat(column.field, profile[column.field])}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export default CommunityLeaderboard;
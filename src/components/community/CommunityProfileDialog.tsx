@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import { BaseDialog } from '../common';
+import { Calendar } from '../../types/dualWrite';
+import {
+  CommunityProfile,
+  COMMUNITY_BIO_MAX_LENGTH,
+  COMMUNITY_DISPLAY_NAME_MAX_LENGTH
+} from '../../types/community';
+import { communityService } from '../../services/communityService';
+import { useAuthState } from '../../contexts/AuthStateContext';
+import { logger } from '../../utils/logger';
+
+interface CommunityProfileDialogProps {
+  open: boolean;
+  calendar: Calendar;
+  onClose: () => void;
+}
+
+/**
+ * Opt a shared calendar into (or out of) the public Community listing
+ */
+const CommunityProfileDialog: React.FC<CommunityProfileDialogProps> = ({ open, calendar, onClose }) => {
+  const { user } = useAuthState();
+  const [profile, setProfile] = useState<CommunityProfile | null>(null);
+  const [displayName, setDisplayName] = useState('');
+  const [bio, setBio] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the saved profile whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    communityService.getProfileForCalendar(calendar.id)
+      .then(saved => {
+        if (cancelled) return;
+        setProfile(saved);
+        setDisplayName(saved?.display_name || '');
+        setBio(saved?.bio || '');
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load the community profile');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, calendar.id]);
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!user) return;
+
+    if (!displayName.trim()) {
+      setError('Please enter a display name');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await communityService.saveProfile(calendar.id, user.uid, { display_name: displayName, bio });
+      onClose();
+    } catch (err) {
+      logger.error('Error saving community profile:', err);
+      setError('Failed to save the community profile');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await communityService.deleteProfile(calendar.id);
+      onClose();
+    } catch (err) {
+      logger.error('Error removing community profile:', err);
+      setError('Failed to remove the community profile');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <BaseDialog
+      open={open}
+      onClose={() => !isSubmitting && onClose()}
+      onClick={(e) => e.stopPropagation()}
+      maxWidth="sm"
+      fullWidth
+      title="Community Profile"
+      primaryButtonText={isSubmitting ? 'Saving...' : profile ? 'Save' : 'Publish profile'}
+      primaryButtonAction={handleSubmit}
+      isSubmitting={isSubmitting || isLoading}
+      cancelButtonAction={onClose}
+      hideCloseButton={isSubmitting}
+    >
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <Box component="form" onSubmit={handleSubmit} sx={{ display: 'flex', flexDirection: 'column', gap: 2.5, mt: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            List this calendar on the Community page. Other traders see your display name, bio and the
+            calendar's win rate, profit factor, max drawdown and growth %. Opening your profile shows the
+            shared calendar with its privacy settings applied.
+          </Typography>
+
+          <Alert severity="info">
+            The profile is hidden while the share link is stopped, expired or password protected.
+          </Alert>
+
+          {error && <Alert severity="error">{error}</Alert>}
+
+          <TextField
+            label="Display name"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            required
+            fullWidth
+            slotProps={{ htmlInput: { maxLength: COMMUNITY_DISPLAY_NAME_MAX_LENGTH } }}
+          />
+
+          <TextField
+            label="Bio"
+            value={bio}
+            onChange={(e) => setBio(e.target.value)}
+            fullWidth
+            multiline
+            minRows={3}
+            helperText={`${bio.length}/${COMMUNITY_BIO_MAX_LENGTH} - Your strategy, markets or style`}
+            slotProps={{ htmlInput: { maxLength: COMMUNITY_BIO_MAX_LENGTH } }}
+          />
+
+          {profile && (
+            <Box>
+              <Button color="error" onClick={handleRemove} disabled={isSubmitting}>
+                Remove from community
+              </Button>
+            </Box>
+          )}
+        </Box>
+      )}
+    </BaseDialog>
+  );
+};
+
+export default CommunityProfileDialog;
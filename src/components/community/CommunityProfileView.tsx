@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Container,
+  Paper,
+  Typography,
+  Button,
+  Chip,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import { ArrowBack as BackIcon } from '@mui/icons-material';
+import { format } from 'date-fns';
+import SharedCalendarContent, { SharedCalendarData } from '../sharing/SharedCalendarContent';
+import { getSharedTradesWithCalendar } from '../../services/sharingService';
+import { CommunityProfileSummary } from '../../types/community';
+import { setAmountUnit } from '../../utils/formatters';
+import { logger } from '../../utils/logger';
+import { formatCommunityStat } from './CommunityLeaderboard';
+
+interface CommunityProfileViewProps {
+  profile: CommunityProfileSummary;
+  mode: 'light' | 'dark';
+  onToggleTheme: () => void;
+  onBack: () => void;
+}
+
+/**
+ * Public profile of a trader: profile header over their shared calendar
+ */
+const CommunityProfileView: React.FC<CommunityProfileViewProps> = ({
+  profile,
+  mode,
+  onToggleTheme,
+  onBack
+}) => {
+  const [calendarData, setCalendarData] = useState<SharedCalendarData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Amounts go back to dollars when leaving the profile
+  useEffect(() => {
+    return () => setAmountUnit('currency');
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadCalendar = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await getSharedTradesWithCalendar(profile.share_id);
+        if (cancelled) return;
+
+        // Set before the calendar renders so no amount shows with a dollar sign
+        setAmountUnit(data.shareInfo.amountUnit);
+        setCalendarData({
+          ...data,
+          shareInfo: {
+            ...data.shareInfo,
+            createdAt: new Date(data.shareInfo.createdAt)
+          }
+        });
+      } catch (err) {
+        logger.error('Error loading community profile calendar:', err);
+        if (!cancelled) setError('This profile is no longer available.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadCalendar();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profile.share_id]);
+
+  const stats = [
+    { label: 'Growth', value: formatCommunityStat('growth_percentage', profile.growth_percentage) },
+    { label: 'Win rate', value: formatCommunityStat('win_rate', profile.win_rate) },
+    { label: 'Profit factor', value: formatCommunityStat('profit_factor', profile.profit_factor) },
+    { label: 'Max drawdown', value: formatCommunityStat('max_drawdown', profile.max_drawdown) },
+    { label: 'Trades', value: formatCommunityStat('total_trades', profile.total_trades) }
+  ];
+
+  return (
+    <Box>
+      <Container maxWidth="lg" sx={{ pt: 3 }}>
+        <Button startIcon={<BackIcon />} onClick={onBack} sx={{ mb: 2 }}>
+          Back to community
+        </Button>
+
+        <Paper elevation={0} sx={{ p: { xs: 2, sm: 3 }, borderRadius: 2, border: theme => `1px solid ${theme.palette.divider}` }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+            <Typography variant="h5" sx={{ fontWeight: 600 }}>
+              {profile.display_name}
+            </Typography>
+            {profile.is_own && <Chip size="small" label="You" color="primary" variant="outlined" />}
+          </Box>
+          <Typography variant="caption" color="text.secondary">
+            Member since {format(profile.created_at, 'MMMM yyyy')}
+          </Typography>
+          {profile.bio && (
+            <Typography variant="body2" sx={{ mt: 1.5, whiteSpace: 'pre-wrap' }}>
+              {profile.bio}
+            </Typography>
+          )}
+
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3, mt: 2 }}>
+            {stats.map(stat => (
+              <Box key={stat.label}>
+                <Typography variant="caption" color="text.secondary">
+                  {stat.label}
+                </Typography>
+                <Typography variant="h6" sx={{ fontWeight: 600 }}>
+                  {stat.value}
+                </Typography>
+              </Box>
+            ))}
+          </Box>
+        </Paper>
+      </Container>
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+          <CircularProgress />
+        </Box>
+      ) : error || !calendarData ? (
+        <Container maxWidth="lg" sx={{ pt: 2 }}>
+          <Alert severity="warning">{error || 'This profile is no longer available.'}</Alert>
+        </Container>
+      ) : (
+        <SharedCalendarContent
+          calendarData={calendarData}
+          mode={mode}
+          onToggleTheme={onToggleTheme}
+          setLoading={() => {}}
+        />
+      )}
+    </Box>
+  );
+};
+
+export default CommunityProfileView;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -15,11 +15,29 @@ import {
   MenuItem,
   Alert,
   Chip,
+  Checkbox,
+  FormControlLabel,
+  FormGroup,
+  FormHelperText,
+  Divider,
   useTheme,
   alpha
 } from '@mui/material';
-import { Link as LinkIcon, LinkOff as UnlinkIcon } from '@mui/icons-material';
-import { Calendar } from '../../types/dualWrite';
+import {
+  Link as LinkIcon,
+  LinkOff as UnlinkIcon,
+  Settings as SettingsIcon
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import {
+  Calendar,
+  CalendarLink,
+  CalendarLinkStatus,
+  CalendarSyncSettings,
+  DEFAULT_CALENDAR_SYNC_SETTINGS,
+  SyncConflictPolicy
+} from '../../types/dualWrite';
+import * as calendarService from '../../services/calendarService';
 import { dialogProps } from '../../styles/dialogStyles';
 
 interface CalendarLinkDialogProps {
@@ -28,10 +46,171 @@ interface CalendarLinkDialogProps {
   calendars: Calendar[];
   isLoading: boolean;
   onClose: () => void;
-  onLink: (targetCalendarId: string) => Promise<void>;
-  onUnlink: () => Promise<void>;
+  onLink: (targetCalendarId: string, syncSettings: CalendarSyncSettings) => Promise<void>;
+  onUnlink: (linkId: string) => Promise<void>;
+  onUpdateSyncSettings: (linkId: string, syncSettings: CalendarSyncSettings) => Promise<void>;
 }
 
+// Select values for the sync window ('forever' maps to null)
+const SYNC_WINDOW_OPTIONS: { value: string; label: string }[] = [
+  { value: '1', label: '1 hour' },
+  { value: '24', label: '24 hours' },
+  { value: '72', label: '3 days' },
+  { value: '168', label: '7 days' },
+  { value: '720', label: '30 days' },
+  { value: 'forever', label: 'Forever' }
+];
+
+const CONFLICT_POLICY_OPTIONS: { value: SyncConflictPolicy; label: string; description: string }[] = [
+  {
+    value: 'overwrite',
+    label: 'Overwrite local edits',
+    description: 'Changes in the source calendar replace edits made to the copy.'
+  },
+  {
+    value: 'keep_local',
+    label: 'Keep local edits',
+    description: 'Edited copies ignore further updates and deletes from the source.'
+  },
+  {
+    value: 'detach',
+    label: 'Detach edited copies',
+    description: 'Edited copies stop syncing and become independent trades.'
+  }
+];
+
+const SYNC_FIELD_LABELS: Record<keyof CalendarSyncSettings['sync_fields'], string> = {
+  tags: 'Tags',
+  notes: 'Notes',
+  images: 'Images',
+  amount: 'Amount'
+};
+
+const SYNC_STATUS_CHIPS: Record<NonNullable<CalendarLink['last_sync_status']>, { label: string; color: 'success' | 'warning' | 'error' }> = {
+  success: { label: 'Synced', color: 'success' },
+  skipped: { label: 'Skipped', color: 'warning' },
+  error: { label: 'Sync failed', color: 'error' }
+};
+
+const resolveSyncSettings = (settings?: CalendarSyncSettings | null): CalendarSyncSettings => ({
+  ...DEFAULT_CALENDAR_SYNC_SETTINGS,
+  ...(settings || {}),
+  sync_fields: {
+    ...DEFAULT_CALENDAR_SYNC_SETTINGS.sync_fields,
+    ...(settings?.sync_fields || {})
+  }
+});
+
+const getWindowLabel = (settings: CalendarSyncSettings): string => {
+  if (settings.sync_window_hours === null) return 'Updates sync forever';
+  const option = SYNC_WINDOW_OPTIONS.find((o) => o.value === String(settings.sync_window_hours));
+  return `Updates sync for ${option?.label ?? `${settings.sync_window_hours} hours`}`;
+};
+
+/**
+ * Calendars that can already reach the source through existing links
+ * Linking the source to any of them would form a cycle
+ */
+const getCalendarsReachingSource = (sourceCalendarId: string, links: CalendarLink[]): Set<string> => {
+  const reaching = new Set<string>([sourceCalendarId]);
+  const queue = [sourceCalendarId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    links
+      .filter((link) => link.target_calendar_id === current && !reaching.has(link.source_calendar_id))
+      .forEach((link) => {
+        reaching.add(link.source_calendar_id);
+        queue.push(link.source_calendar_id);
+      });
+  }
+  return reaching;
+};
+
+interface SyncSettingsFormProps {
+  id: string;
+  settings: CalendarSyncSettings;
+  disabled: boolean;
+  onChange: (settings: CalendarSyncSettings) => void;
+}
+
+const SyncSettingsForm: React.FC<SyncSettingsFormProps> = ({ id, settings, disabled, onChange }) => {
+  const selectedPolicy = CONFLICT_POLICY_OPTIONS.find((option) => option.value === settings.conflict_policy);
+
+  return (
+    <Stack spacing={2.5}>
+      <FormControl fullWidth size="small">
+        <InputLabel id={`${id}-window-label`}>Sync updates and deletes</InputLabel>
+        <Select
+          labelId={`${id}-window-label`}
+          value={settings.sync_window_hours === null ? 'forever' : String(settings.sync_window_hours)}
+          label="Sync updates and deletes"
+          onChange={(e) => onChange({
+            ...settings,
+            sync_window_hours: e.target.value === 'forever' ? null : Number(e.target.value)
+          })}
+          disabled={disabled}
+        >
+          {SYNC_WINDOW_OPTIONS.map((option) => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </Select>
+        <FormHelperText>After this window the copy becomes independent.</FormHelperText>
+      </FormControl>
+
+      <Box>
+        <Typography variant="body2" sx={{ mb: 0.5 }}>
+          Fields to sync
+        </Typography>
+        <FormGroup row>
+          {(Object.keys(SYNC_FIELD_LABELS) as (keyof CalendarSyncSettings['sync_fields'])[]).map((field) => (
+            <FormControlLabel
+              key={field}
+              control={
+                <Checkbox
+                  size="small"
+                  checked={settings.sync_fields[field]}
+                  onChange={(e) => onChange({
+                    ...settings,
+                    sync_fields: { ...settings.sync_fields, [field]: e.target.checked }
+                  })}
+                  disabled={disabled}
+                />
+              }
+              label={SYNC_FIELD_LABELS[field]}
+            />
+          ))}
+        </FormGroup>
+        <FormHelperText>
+          Date, type, prices, session and R:R always sync. New copies always get an amount.
+        </FormHelperText>
+      </Box>
+
+      <FormControl fullWidth size="small">
+        <InputLabel id={`${id}-policy-label`}>When a copy was edited</InputLabel>
+        <Select
+          labelId={`${id}-policy-label`}
+          value={settings.conflict_policy}
+          label="When a copy was edited"
+          onChange={(e) => onChange({
+            ...settings,
+            conflict_policy: e.target.value as SyncConflictPolicy
+          })}
+          disabled={disabled}
+        >
+          {CONFLICT_POLICY_OPTIONS.map((option) => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </Select>
+        {selectedPolicy && <FormHelperText>{selectedPolicy.description}</FormHelperText>}
+      </FormControl>
+    </Stack>
+  );
+};
+
 export const CalendarLinkDialog: React.FC<CalendarLinkDialogProps> = ({
   open,
   calendar,
@@ -39,32 +218,66 @@ export const CalendarLinkDialog: React.FC<CalendarLinkDialogProps> = ({
   isLoading,
   onClose,
   onLink,
-  onUnlink
+  onUnlink,
+  onUpdateSyncSettings
 }) => {
   const theme = useTheme();
+  const [links, setLinks] = useState<CalendarLinkStatus[]>([]);
+  const [userLinks, setUserLinks] = useState<CalendarLink[]>([]);
+  const [isLoadingLinks, setIsLoadingLinks] = useState(false);
   const [selectedCalendarId, setSelectedCalendarId] = useState<string>('');
+  const [newLinkSettings, setNewLinkSettings] = useState<CalendarSyncSettings>(DEFAULT_CALENDAR_SYNC_SETTINGS);
+  const [editingLinkId, setEditingLinkId] = useState<string | null>(null);
+  const [editSettings, setEditSettings] = useState<CalendarSyncSettings>(DEFAULT_CALENDAR_SYNC_SETTINGS);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Filter out:
-  // 1. Current calendar (self-link)
-  // 2. Calendars that link to this calendar (would create immediate cycle)
-  const availableCalendars = calendars.filter(
-    (c) => c.id !== calendar?.id && c.linked_to_calendar_id !== calendar?.id
-  );
+  const loadLinks = useCallback(async () => {
+    if (!calendar) return;
 
-  // Find the currently linked calendar
-  const linkedCalendar = calendar?.linked_to_calendar_id
-    ? calendars.find((c) => c.id === calendar.linked_to_calendar_id)
-    : null;
+    setIsLoadingLinks(true);
+    try {
+      const [statuses, allLinks] = await Promise.all([
+        calendarService.getCalendarLinkStatuses(calendar.id),
+        calendarService.getUserCalendarLinks(calendar.user_id)
+      ]);
+      setLinks(statuses);
+      setUserLinks(allLinks);
+    } finally {
+      setIsLoadingLinks(false);
+    }
+  }, [calendar]);
 
-  // Reset state when dialog opens
+  // Reset state and load links when dialog opens
   useEffect(() => {
     if (open) {
       setSelectedCalendarId('');
+      setNewLinkSettings(DEFAULT_CALENDAR_SYNC_SETTINGS);
+      setEditingLinkId(null);
       setError(null);
+      loadLinks();
+    } else {
+      setLinks([]);
+      setUserLinks([]);
     }
-  }, [open]);
+  }, [open, loadLinks]);
+
+  // Filter out:
+  // 1. Current calendar (self-link)
+  // 2. Calendars already linked as targets
+  // 3. Calendars that reach this calendar through existing links (would create a cycle)
+  const calendarsReachingSource = calendar ? getCalendarsReachingSource(calendar.id, userLinks) : new Set<string>();
+  const availableCalendars = calendars.filter(
+    (c) => !calendarsReachingSource.has(c.id) && !links.some((link) => link.target_calendar_id === c.id)
+  );
+
+  const getErrorMessage = (err: unknown, fallback: string): string => {
+    const message = err instanceof Error ? err.message : fallback;
+    // Handle circular link error from database
+    return message.toLowerCase().includes('circular')
+      ? 'Cannot link: this would create a circular link chain.'
+      : message;
+  };
 
   const handleLink = async () => {
     if (!selectedCalendarId) return;
@@ -72,29 +285,52 @@ export const CalendarLinkDialog: React.FC<CalendarLinkDialogProps> = ({
     setIsSubmitting(true);
     setError(null);
     try {
-      await onLink(selectedCalendarId);
-      onClose();
+      await onLink(selectedCalendarId, newLinkSettings);
+      setSelectedCalendarId('');
+      setNewLinkSettings(DEFAULT_CALENDAR_SYNC_SETTINGS);
+      await loadLinks();
     } catch (err) {
       console.error('Error linking calendar:', err);
-      const message = err instanceof Error ? err.message : 'Failed to link calendar';
-      // Handle circular link error from database
-      if (message.toLowerCase().includes('circular')) {
-        setError('Cannot link: this would create a circular link chain.');
-      } else {
-        setError(message);
-      }
+      setError(getErrorMessage(err, 'Failed to link calendar'));
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const handleUnlink = async () => {
+  const handleUnlink = async (linkId: string) => {
     setIsSubmitting(true);
+    setError(null);
     try {
-      await onUnlink();
-      onClose();
-    } catch (error) {
-      console.error('Error unlinking calendar:', error);
+      await onUnlink(linkId);
+      if (editingLinkId === linkId) setEditingLinkId(null);
+      await loadLinks();
+    } catch (err) {
+      console.error('Error unlinking calendar:', err);
+      setError(getErrorMessage(err, 'Failed to unlink calendar'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEditSettings = (link: CalendarLinkStatus) => {
+    if (editingLinkId === link.id) {
+      setEditingLinkId(null);
+      return;
+    }
+    setEditingLinkId(link.id);
+    setEditSettings(resolveSyncSettings(link.sync_settings));
+  };
+
+  const handleSaveSettings = async (linkId: string) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onUpdateSyncSettings(linkId, editSettings);
+      setEditingLinkId(null);
+      await loadLinks();
+    } catch (err) {
+      console.error('Error updating sync settings:', err);
+      setError(getErrorMessage(err, 'Failed to update sync settings'));
     } finally {
       setIsSubmitting(false);
     }
@@ -102,6 +338,104 @@ export const CalendarLinkDialog: React.FC<CalendarLinkDialogProps> = ({
 
   const isProcessing = isLoading || isSubmitting;
 
+  const renderLink = (link: CalendarLinkStatus) => {
+    const target = calendars.find((c) => c.id === link.target_calendar_id);
+    const settings = resolveSyncSettings(link.sync_settings);
+    const statusChip = link.last_sync_status ? SYNC_STATUS_CHIPS[link.last_sync_status] : null;
+    const isEditing = editingLinkId === link.id;
+    const hasSettingsChanges = isEditing && JSON.stringify(editSettings) !== JSON.stringify(settings);
+
+    return (
+      <Box
+        key={link.id}
+        sx={{
+          p: 2,
+          borderRadius: 2,
+          bgcolor: alpha(theme.palette.primary.main, 0.08),
+          border: `1px solid ${alpha(theme.palette.primary.main, 0.2)}`
+        }}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+          <Box sx={{ minWidth: 0 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+              <Chip label={target?.name ?? 'Unknown calendar'} color="primary" variant="outlined" size="small" />
+              {statusChip ? (
+                <Chip label={statusChip.label} color={statusChip.color} size="small" />
+              ) : (
+                <Chip label="Not synced yet" size="small" />
+              )}
+            </Box>
+            <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 0.75 }}>
+              {target?.risk_per_trade
+                ? `Amounts recalculated at ${target.risk_per_trade}% risk`
+                : 'Amounts copied as-is (no risk per trade set)'}
+              {' · '}{getWindowLabel(settings)}
+            </Typography>
+            <Typography variant="caption" color="text.secondary" component="div">
+              {link.synced_trade_count} synced {link.synced_trade_count === 1 ? 'trade' : 'trades'}
+              {link.locally_modified_count > 0 && ` · ${link.locally_modified_count} edited locally`}
+              {link.last_sync_at && ` · Last sync ${format(link.last_sync_at, 'MMM d, HH:mm')}`}
+            </Typography>
+            {link.last_sync_status !== 'success' && link.last_sync_error && (
+              <Typography
+                variant="caption"
+                color={link.last_sync_status === 'error' ? 'error' : 'text.secondary'}
+                component="div"
+              >
+                {link.last_sync_error}
+              </Typography>
+            )}
+          </Box>
+          <Stack direction="row" spacing={1} sx={{ flexShrink: 0 }}>
+            <Button
+              variant="text"
+              size="small"
+              startIcon={<SettingsIcon />}
+              onClick={() => handleEditSettings(link)}
+              disabled={isProcessing}
+            >
+              Settings
+            </Button>
+            <Button
+              variant="outlined"
+              color="error"
+              size="small"
+              startIcon={<UnlinkIcon />}
+              onClick={() => handleUnlink(link.id)}
+              disabled={isProcessing}
+            >
+              Unlink
+            </Button>
+          </Stack>
+        </Box>
+
+        {isEditing && (
+          <Box sx={{ mt: 2 }}>
+            <SyncSettingsForm
+              id={`link-${link.id}`}
+              settings={editSettings}
+              disabled={isProcessing}
+              onChange={setEditSettings}
+            />
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 2 }}>
+              <Button size="small" onClick={() => setEditingLinkId(null)} disabled={isProcessing}>
+                Cancel
+              </Button>
+              <Button
+                size="small"
+                variant="contained"
+                onClick={() => handleSaveSettings(link.id)}
+                disabled={isProcessing || !hasSettingsChanges}
+              >
+                Save Settings
+              </Button>
+            </Box>
+          </Box>
+        )}
+      </Box>
+    );
+  };
+
   return (
     <Dialog
       open={open}
@@ -122,7 +456,7 @@ export const CalendarLinkDialog: React.FC<CalendarLinkDialogProps> = ({
         Link Calendar
       </DialogTitle>
       <DialogContent>
-        {isProcessing ? (
+        {isProcessing || (isLoadingLinks && links.length === 0) ? (
           <Box
             sx={{
               display: 'flex',
@@ -141,8 +475,9 @@ export const CalendarLinkDialog: React.FC<CalendarLinkDialogProps> = ({
             <Alert severity="info" sx={{ borderRadius: 2 }}>
               <Typography variant="body2">
                 When you link calendars, trades created in "{calendar?.name}" will
-                automatically be copied to the target calendar. Updates and deletes
-                sync for 24 hours after trade creation.
+                automatically be copied to every target calendar, with amounts
+                recalculated for each target's risk settings. Updates and deletes
+                sync within each link's sync window.
               </Typography>
             </Alert>
 
@@ -152,70 +487,50 @@ export const CalendarLinkDialog: React.FC<CalendarLinkDialogProps> = ({
               </Alert>
             )}
 
-            {linkedCalendar ? (
+            {links.length > 0 && (
               <Box>
                 <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
                   Currently linked to:
                 </Typography>
-                <Box
-                  sx={{
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'space-between',
-                    p: 2,
-                    borderRadius: 2,
-                    bgcolor: alpha(theme.palette.primary.main, 0.08),
-                    border: `1px solid ${alpha(theme.palette.primary.main, 0.2)}`
-                  }}
-                >
-                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                    <Chip
-                      label={linkedCalendar.name}
-                      color="primary"
-                      variant="outlined"
-                    />
-                    <Typography variant="body2" color="text.secondary">
-                      Trades sync to this calendar
-                    </Typography>
-                  </Box>
-                  <Button
-                    variant="outlined"
-                    color="error"
-                    size="small"
-                    startIcon={<UnlinkIcon />}
-                    onClick={handleUnlink}
+                <Stack spacing={1.5}>
+                  {links.map(renderLink)}
+                </Stack>
+              </Box>
+            )}
+
+            {links.length > 0 && availableCalendars.length > 0 && <Divider />}
+
+            {availableCalendars.length > 0 ? (
+              <Stack spacing={2.5}>
+                <Typography variant="subtitle2" color="text.secondary">
+                  {links.length > 0 ? 'Add another target' : 'Target calendar'}
+                </Typography>
+                <FormControl fullWidth>
+                  <InputLabel id="target-calendar-label">Target Calendar</InputLabel>
+                  <Select
+                    labelId="target-calendar-label"
+                    value={selectedCalendarId}
+                    label="Target Calendar"
+                    onChange={(e) => setSelectedCalendarId(e.target.value)}
                     disabled={isProcessing}
                   >
-                    Unlink
-                  </Button>
-                </Box>
-              </Box>
-            ) : (
-              <FormControl fullWidth>
-                <InputLabel id="target-calendar-label">Target Calendar</InputLabel>
-                <Select
-                  labelId="target-calendar-label"
-                  value={selectedCalendarId}
-                  label="Target Calendar"
-                  onChange={(e) => setSelectedCalendarId(e.target.value)}
-                  disabled={isProcessing}
-                >
-                  {availableCalendars.length === 0 ? (
-                    <MenuItem value="" disabled>
-                      No available calendars
-                    </MenuItem>
-                  ) : (
-                    availableCalendars.map((c) => (
+                    {availableCalendars.map((c) => (
                       <MenuItem key={c.id} value={c.id}>
                         {c.name}
                       </MenuItem>
-                    ))
-                  )}
-                </Select>
-              </FormControl>
-            )}
-
-            {!linkedCalendar && availableCalendars.length === 0 && (
+                    ))}
+                  </Select>
+                </FormControl>
+                {selectedCalendarId && (
+                  <SyncSettingsForm
+                    id="new-link"
+                    settings={newLinkSettings}
+                    disabled={isProcessing}
+                    onChange={setNewLinkSettings}
+                  />
+                )}
+              </Stack>
+            ) : links.length === 0 && (
               <Alert severity="warning" sx={{ borderRadius: 2 }}>
                 <Typography variant="body2">
                   No calendars available to link. Create another calendar first.
@@ -227,9 +542,9 @@ export const CalendarLinkDialog: React.FC<CalendarLinkDialogProps> = ({
       </DialogContent>
       <DialogActions>
         <Button onClick={onClose} disabled={isProcessing} sx={{ color: 'text.secondary' }}>
-          Cancel
+          {links.length > 0 ? 'Close' : 'Cancel'}
         </Button>
-        {!linkedCalendar && (
+        {availableCalendars.length > 0 && (
           <Button
             variant="contained"
             onClick={handleLink}
@@ -0,0 +1,305 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Switch,
+  FormControlLabel,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  IconButton,
+  Button,
+  Alert,
+  InputAdornment
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  DeleteOutline as DeleteIcon
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import { BaseDialog } from '../common';
+import { ChallengePhase, ChallengeRules, DEFAULT_CHALLENGE_PHASES } from '../../types/challenge';
+import { logger } from '../../utils/logger';
+import { Z_INDEX } from '../../styles/zIndex';
+
+interface ChallengeRulesDialogProps {
+  open: boolean;
+  rules?: ChallengeRules | null;
+  accountBalance: number;
+  maxDailyDrawdown?: number;
+  onClose: () => void;
+  onSave: (rules: ChallengeRules) => Promise<void>;
+}
+
+interface PhaseFormState {
+  name: string;
+  profit_target: string;
+}
+
+// Empty optional fields are saved as "no limit"
+const toOptionalNumber = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+};
+
+const toFieldValue = (value?: number): string => (value !== undefined && value !== null ? value.toString() : '');
+
+const ChallengeRulesDialog: React.FC<ChallengeRulesDialogProps> = ({
+  open,
+  rules,
+  accountBalance,
+  maxDailyDrawdown,
+  onClose,
+  onSave
+}) => {
+  const [enabled, setEnabled] = useState(true);
+  const [startDate, setStartDate] = useState('');
+  const [startingBalance, setStartingBalance] = useState('');
+  const [maxDailyLoss, setMaxDailyLoss] = useState('');
+  const [maxTotalLoss, setMaxTotalLoss] = useState('');
+  const [trailingDrawdown, setTrailingDrawdown] = useState('');
+  const [minTradingDays, setMinTradingDays] = useState('');
+  const [consistency, setConsistency] = useState('');
+  const [phases, setPhases] = useState<PhaseFormState[]>([]);
+  const [currentPhase, setCurrentPhase] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the saved rules (or sensible defaults) whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setEnabled(rules?.enabled ?? true);
+    setStartDate(rules?.start_date || format(new Date(), 'yyyy-MM-dd'));
+    setStartingBalance(toFieldValue(rules?.starting_balance));
+    setMaxDailyLoss(toFieldValue(rules?.max_daily_loss));
+    setMaxTotalLoss(toFieldValue(rules ? rules.max_total_loss : 10));
+    setTrailingDrawdown(toFieldValue(rules?.trailing_drawdown));
+    setMinTradingDays(toFieldValue(rules ? rules.min_trading_days : 4));
+    setConsistency(toFieldValue(rules?.consistency_percentage));
+    setPhases((rules?.phases?.length ? rules.phases : DEFAULT_CHALLENGE_PHASES).map(phase => ({
+      name: phase.name,
+      profit_target: phase.profit_target.toString()
+    })));
+    setCurrentPhase(rules?.current_phase ?? 0);
+    setError(null);
+  }, [open, rules]);
+
+  const updatePhase = (index: number, changes: Partial<PhaseFormState>) => {
+    setPhases(prev => prev.map((phase, i) => (i === index ? { ...phase, ...changes } : phase)));
+  };
+
+  const removePhase = (index: number) => {
+    setPhases(prev => prev.filter((_, i) => i !== index));
+    setCurrentPhase(prev => (prev >= index && prev > 0 ? prev - 1 : prev));
+  };
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+
+    if (!startDate) {
+      setError('Start date is required');
+      return;
+    }
+    if (phases.length === 0 || phases.some(phase => !phase.name.trim())) {
+      setError('Every phase needs a name');
+      return;
+    }
+
+    const savedPhases: ChallengePhase[] = phases.map(phase => ({
+      name: phase.name.trim(),
+      profit_target: Math.max(0, parseFloat(phase.profit_target) || 0)
+    }));
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await onSave({
+        enabled,
+        start_date: startDate,
+        starting_balance: toOptionalNumber(startingBalance),
+        max_daily_loss: toOptionalNumber(maxDailyLoss),
+        max_total_loss: toOptionalNumber(maxTotalLoss),
+        trailing_drawdown: toOptionalNumber(trailingDrawdown),
+        min_trading_days: toOptionalNumber(minTradingDays),
+        consistency_percentage: toOptionalNumber(consistency),
+        phases: savedPhases,
+        current_phase: Math.min(currentPhase, savedPhases.length - 1)
+      });
+      onClose();
+    } catch (err) {
+      logger.error('Error saving challenge rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save challenge rules');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const percentAdornment = { input: { endAdornment: <InputAdornment position="end">%</InputAdornment> } };
+
+  return (
+    <BaseDialog
+      open={open}
+      onClose={() => !isSubmitting && onClose()}
+      maxWidth="sm"
+      fullWidth
+      title="Challenge Rules"
+      primaryButtonText={isSubmitting ? 'Saving...' : 'Save Rules'}
+      primaryButtonAction={handleSubmit}
+      isSubmitting={isSubmitting}
+      cancelButtonAction={onClose}
+      hideCloseButton={isSubmitting}
+    >
+      <Box component="form" onSubmit={handleSubmit} sx={{ display: 'flex', flexDirection: 'column', gap: 2.5, mt: 1 }}>
+        <Typography variant="body2" color="text.secondary">
+          Track a funded-account challenge on this calendar. Loss limits are a percentage of the starting balance;
+          leave a field empty to skip that rule.
+        </Typography>
+
+        {error && <Alert severity="error">{error}</Alert>}
+
+        <FormControlLabel
+          control={<Switch checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />}
+          label="Track challenge rules"
+        />
+
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <TextField
+            label="Start date"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            fullWidth
+            required
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+          <TextField
+            label="Starting balance"
+            type="number"
+            value={startingBalance}
+            onChange={(e) => setStartingBalance(e.target.value)}
+            fullWidth
+            placeholder={accountBalance.toString()}
+            helperText="Defaults to the account balance"
+            slotProps={{ input: { startAdornment: <InputAdornment position="start">$</InputAdornment> } }}
+          />
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <TextField
+            label="Max daily loss"
+            type="number"
+            value={maxDailyLoss}
+            onChange={(e) => setMaxDailyLoss(e.target.value)}
+            fullWidth
+            placeholder={maxDailyDrawdown ? maxDailyDrawdown.toString() : ''}
+            helperText="Defaults to the daily drawdown"
+            slotProps={percentAdornment}
+          />
+          <TextField
+            label="Max loss"
+            type="number"
+            value={maxTotalLoss}
+            onChange={(e) => setMaxTotalLoss(e.target.value)}
+            fullWidth
+            helperText="From the starting balance"
+            slotProps={percentAdornment}
+          />
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <TextField
+            label="Trailing drawdown"
+            type="number"
+            value={trailingDrawdown}
+            onChange={(e) => setTrailingDrawdown(e.target.value)}
+            fullWidth
+            helperText="From the highest end-of-day balance"
+            slotProps={percentAdornment}
+          />
+          <TextField
+            label="Min trading days"
+            type="number"
+            value={minTradingDays}
+            onChange={(e) => setMinTradingDays(e.target.value)}
+            fullWidth
+          />
+          <TextField
+            label="Consistency"
+            type="number"
+            value={consistency}
+            onChange={(e) => setConsistency(e.target.value)}
+            fullWidth
+            helperText="Max share of profit from one day"
+            slotProps={percentAdornment}
+          />
+        </Box>
+
+        <Box>
+          <Typography variant="subtitle2" sx={{ mb: 1 }}>
+            Phases
+          </Typography>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+            {phases.map((phase, index) => (
+              <Box key={index} sx={{ display: 'flex', gap: 1.5, alignItems: 'center' }}>
+                <TextField
+                  label="Name"
+                  size="small"
+                  value={phase.name}
+                  onChange={(e) => updatePhase(index, { name: e.target.value })}
+                  fullWidth
+                />
+                <TextField
+                  label="Profit target"
+                  size="small"
+                  type="number"
+                  value={phase.profit_target}
+                  onChange={(e) => updatePhase(index, { profit_target: e.target.value })}
+                  sx={{ width: 180, flexShrink: 0 }}
+                  slotProps={percentAdornment}
+                />
+                <IconButton
+                  size="small"
+                  onClick={() => removePhase(index)}
+                  disabled={phases.length <= 1}
+                  aria-label={`Remove ${phase.name || 'phase'}`}
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Box>
+            ))}
+          </Box>
+          <Button
+            size="small"
+            startIcon={<AddIcon />}
+            onClick={() => setPhases(prev => [...prev, { name: `Phase ${prev.length + 1}`, profit_target: '0' }])}
+            sx={{ mt: 1, textTransform: 'none' }}
+          >
+            Add phase
+          </Button>
+        </Box>
+
+        <FormControl fullWidth>
+          <InputLabel id="challenge-current-phase-label">Current phase</InputLabel>
+          <Select
+            labelId="challenge-current-phase-label"
+            value={Math.min(currentPhase, Math.max(phases.length - 1, 0))}
+            label="Current phase"
+            onChange={(e) => setCurrentPhase(Number(e.target.value))}
+            MenuProps={{ sx: { zIndex: Z_INDEX.DIALOG_POPUP } }}
+          >
+            {phases.map((phase, index) => (
+              <MenuItem key={index} value={index}>
+                {phase.name || `Phase ${index + 1}`}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+    </BaseDialog>
+  );
+};
+
+export default ChallengeRulesDialog;
@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Switch,
+  FormControlLabel,
+  Checkbox,
+  IconButton,
+  Button,
+  Alert,
+  Tooltip
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  DeleteOutline as DeleteIcon,
+  ArrowUpward as MoveUpIcon
+} from '@mui/icons-material';
+import { v4 as uuidv4 } from 'uuid';
+import { BaseDialog } from '../common';
+import { ChecklistItem, ChecklistTemplate } from '../../types/checklist';
+import { logger } from '../../utils/logger';
+
+interface TradeChecklistDialogProps {
+  open: boolean;
+  template?: ChecklistTemplate | null;
+  onClose: () => void;
+  onSave: (template: ChecklistTemplate) => Promise<void>;
+}
+
+const DEFAULT_CHECKLIST_ITEMS = ['HTF bias confirmed', 'News checked', 'Risk ≤ 1%'];
+
+const createItem = (label = ''): ChecklistItem => ({ id: uuidv4(), label, mandatory: true });
+
+const TradeChecklistDialog: React.FC<TradeChecklistDialogProps> = ({
+  open,
+  template,
+  onClose,
+  onSave
+}) => {
+  const [enabled, setEnabled] = useState(true);
+  const [blockIncomplete, setBlockIncomplete] = useState(false);
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the saved template (or example items) whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setEnabled(template?.enabled ?? true);
+    setBlockIncomplete(template?.block_incomplete ?? false);
+    setItems(template?.items?.length
+      ? template.items
+      : DEFAULT_CHECKLIST_ITEMS.map(label => createItem(label)));
+    setError(null);
+  }, [open, template]);
+
+  const updateItem = (index: number, changes: Partial<ChecklistItem>) => {
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const moveItemUp = (index: number) => {
+    setItems(prev => {
+      const next = [...prev];
+      [next[index - 1], next[index]] = [next[index], next[index - 1]];
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+
+    const savedItems = items
+      .map(item => ({ ...item, label: item.label.trim() }))
+      .filter(item => item.label);
+    if (enabled && savedItems.length === 0) {
+      setError('Add at least one checklist item');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await onSave({
+        enabled,
+        block_incomplete: blockIncomplete,
+        items: savedItems
+      });
+      onClose();
+    } catch (err) {
+      logger.error('Error saving trade checklist:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save trade checklist');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <BaseDialog
+      open={open}
+      onClose={() => !isSubmitting && onClose()}
+      maxWidth="sm"
+      fullWidth
+      title="Pre-trade Checklist"
+      primaryButtonText={isSubmitting ? 'Saving...' : 'Save Checklist'}
+      primaryButtonAction={handleSubmit}
+      isSubmitting={isSubmitting}
+      cancelButtonAction={onClose}
+      hideCloseButton={isSubmitting}
+    >
+      <Box component="form" onSubmit={handleSubmit} sx={{ display: 'flex', flexDirection: 'column', gap: 2.5, mt: 1 }}>
+        <Typography variant="body2" color="text.secondary">
+          Items to confirm before every trade in this calendar. Answers are saved with each trade and
+          make up the plan adherence and rule following parts of the discipline score.
+        </Typography>
+
+        {error && <Alert severity="error">{error}</Alert>}
+
+        <Box sx={{ display: 'flex', flexDirection: 'column' }}>
+          <FormControlLabel
+            control={<Switch checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />}
+            label="Show checklist in the trade form"
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                checked={blockIncomplete}
+                onChange={(e) => setBlockIncomplete(e.target.checked)}
+                disabled={!enabled}
+              />
+            }
+            label="Block saving until required items are ticked"
+          />
+        </Box>
+
+        <Box>
+          <Typography variant="subtitle2" sx={{ mb: 1 }}>
+            Items
+          </Typography>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+            {items.map((item, index) => (
+              <Box key={item.id} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                <TextField
+                  label={`Item ${index + 1}`}
+                  size="small"
+                  value={item.label}
+                  onChange={(e) => updateItem(index, { label: e.target.value })}
+                  fullWidth
+                />
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      size="small"
+                      checked={item.mandatory}
+                      onChange={(e) => updateItem(index, { mandatory: e.target.checked })}
+                    />
+                  }
+                  label="Required"
+                  sx={{ mr: 0, flexShrink: 0 }}
+                />
+                <Tooltip title="Move up">
+                  <span>
+                    <IconButton size="small" onClick={() => moveItemUp(index)} disabled={index === 0}>
+                      <MoveUpIcon fontSize="small" />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+                <IconButton
+                  size="small"
+                  onClick={() => setItems(prev => prev.filter((_, i) => i !== index))}
+                  aria-label={`Remove ${item.label || 'item'}`}
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Box>
+            ))}
+          </Box>
+          <Button
+            size="small"
+            startIcon={<AddIcon />}
+            onClick={() => setItems(prev => [...prev, createItem()])}
+            sx={{ mt: 1, textTransform: 'none' }}
+          >
+            Add item
+          </Button>
+        </Box>
+      </Box>
+    </BaseDialog>
+  );
+};
+
+export default TradeChecklistDialog;
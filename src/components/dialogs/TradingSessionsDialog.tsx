@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Autocomplete,
+  IconButton,
+  Button,
+  Alert,
+  Tooltip
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  DeleteOutline as DeleteIcon,
+  ArrowUpward as MoveUpIcon,
+  RestartAlt as ResetIcon
+} from '@mui/icons-material';
+import { BaseDialog } from '../common';
+import {
+  COMMON_TIME_ZONES,
+  DEFAULT_TRADING_SESSIONS,
+  SessionDefinition,
+  validateSessionDefinitions
+} from '../../utils/sessionTimeUtils';
+import { Z_INDEX } from '../../styles/zIndex';
+import { logger } from '../../utils/logger';
+
+interface TradingSessionsDialogProps {
+  open: boolean;
+  sessions?: SessionDefinition[] | null;
+  onClose: () => void;
+  // null restores the default sessions
+  onSave: (sessions: SessionDefinition[] | null) => Promise<void>;
+}
+
+// Local id so rows keep their inputs while they are renamed or reordered
+type SessionRow = SessionDefinition & { key: number };
+
+let nextRowKey = 0;
+const toRows = (sessions: SessionDefinition[]): SessionRow[] =>
+  sessions.map(session => ({ ...session, key: nextRowKey++ }));
+
+const isDefaultSessions = (sessions: SessionDefinition[]) =>
+  sessions.length === DEFAULT_TRADING_SESSIONS.length &&
+  sessions.every((session, index) => {
+    const defaultSession = DEFAULT_TRADING_SESSIONS[index];
+    return session.name === defaultSession.name &&
+      session.start === defaultSession.start &&
+      session.end === defaultSession.end &&
+      session.time_zone === defaultSession.time_zone;
+  });
+
+const TradingSessionsDialog: React.FC<TradingSessionsDialogProps> = ({
+  open,
+  sessions,
+  onClose,
+  onSave
+}) => {
+  const [rows, setRows] = useState<SessionRow[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the saved sessions (or the defaults) whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setRows(toRows(sessions?.length ? sessions : DEFAULT_TRADING_SESSIONS));
+    setError(null);
+  }, [open, sessions]);
+
+  const updateRow = (index: number, changes: Partial<SessionDefinition>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const moveRowUp = (index: number) => {
+    setRows(prev => {
+      const next = [...prev];
+      [next[index - 1], next[index]] = [next[index], next[index - 1]];
+      return next;
+    });
+  };
+
+  const addRow = () => {
+    const last = rows[rows.length - 1];
+    setRows(prev => [
+      ...prev,
+      ...toRows([{ name: '', start: '09:00', end: '12:00', time_zone: last?.time_zone || 'UTC' }])
+    ]);
+  };
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+
+    const savedSessions: SessionDefinition[] = rows.map(row => ({
+      name: row.name.trim(),
+      start: row.start,
+      end: row.end,
+      time_zone: row.time_zone.trim()
+    }));
+    if (savedSessions.length === 0) {
+      setError('Add at least one session');
+      return;
+    }
+    const validationError = validateSessionDefinitions(savedSessions);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await onSave(isDefaultSessions(savedSessions) ? null : savedSessions);
+      onClose();
+    } catch (err) {
+      logger.error('Error saving trading sessions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save trading sessions');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <BaseDialog
+      open={open}
+      onClose={() => !isSubmitting && onClose()}
+      maxWidth="md"
+      fullWidth
+      title="Trading Sessions"
+      primaryButtonText={isSubmitting ? 'Saving...' : 'Save Sessions'}
+      primaryButtonAction={handleSubmit}
+      isSubmitting={isSubmitting}
+      cancelButtonAction={onClose}
+      hideCloseButton={isSubmitting}
+    >
+      <Box component="form" onSubmit={handleSubmit} sx={{ display: 'flex', flexDirection: 'column', gap: 2.5, mt: 1 }}>
+        <Typography variant="body2" color="text.secondary">
+          Sessions offered in the trade form of this calendar. Hours are local to the session's time zone,
+          so daylight saving time follows that zone. A session that ends before it starts runs past midnight.
+          Trades keep their session name when sessions are renamed or removed.
+        </Typography>
+
+        {error && <Alert severity="error">{error}</Alert>}
+
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+          {rows.map((row, index) => (
+            <Box key={row.key} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+              <TextField
+                label={`Session ${index + 1}`}
+                size="small"
+                value={row.name}
+                onChange={(e) => updateRow(index, { name: e.target.value })}
+                sx={{ flex: 1, minWidth: 120 }}
+              />
+              <TextField
+                label="Start"
+                type="time"
+                size="small"
+                value={row.start}
+                onChange={(e) => updateRow(index, { start: e.target.value })}
+                slotProps={{ inputLabel: { shrink: true } }}
+                sx={{ width: 130, flexShrink: 0 }}
+              />
+              <TextField
+                label="End"
+                type="time"
+                size="small"
+                value={row.end}
+                onChange={(e) => updateRow(index, { end: e.target.value })}
+                slotProps={{ inputLabel: { shrink: true } }}
+                sx={{ width: 130, flexShrink: 0 }}
+              />
+              <Autocomplete
+                freeSolo
+                size="small"
+                options={COMMON_TIME_ZONES}
+                value={row.time_zone}
+                onInputChange={(_, value) => updateRow(index, { time_zone: value })}
+                renderInput={(params) => <TextField {...params} label="Time zone" />}
+                slotProps={{ popper: { sx: { zIndex: Z_INDEX.DIALOG_POPUP } } }}
+                sx={{ flex: 1, minWidth: 170 }}
+              />
+              <Tooltip title="Move up">
+                <span>
+                  <IconButton size="small" onClick={() => moveRowUp(index)} disabled={index === 0}>
+                    <MoveUpIcon fontSize="small" />
+                  </IconButton>
+                </span>
+              </Tooltip>
+              <IconButton
+                size="small"
+                onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                aria-label={`Remove ${row.name || 'session'}`}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+        </Box>
+
+        <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+          <Button
+            size="small"
+            startIcon={<AddIcon />}
+            onClick={addRow}
+            sx={{ textTransform: 'none' }}
+          >
+            Add session
+          </Button>
+          <Button
+            size="small"
+            startIcon={<ResetIcon />}
+            onClick={() => setRows(toRows(DEFAULT_TRADING_SESSIONS))}
+            sx={{ textTransform: 'none' }}
+          >
+            Reset to default sessions
+          </Button>
+        </Box>
+      </Box>
+    </BaseDialog>
+  );
+};
+
+export default TradingSessionsDialog;
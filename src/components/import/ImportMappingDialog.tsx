@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -14,6 +14,8 @@ import {
   Alert,
   IconButton,
   Snackbar,
+  TextField,
+  MenuItem,
   alpha
 } from '@mui/material';
 import {
@@ -24,13 +26,17 @@ import {
 import { Trade } from '../../types/dualWrite';
 import {
   ImportFileData,
-  ImportStep,
   ColumnMapping,
   ImportConfig,
   MappingTarget,
   ImportPreviewRow,
   ValidationSummary as ValidationSummaryType,
-  ImportMappingTemplate
+  ImportMappingTemplate,
+  ParsedBrokerStatement,
+  BrokerStatementFormat,
+  TradeField,
+  DuplicateResolution,
+  ImportTradeBatch
 } from '../../types/import';
 import { ColumnMapper } from './ColumnMapper';
 import { ImportPreview } from './ImportPreview';
@@ -38,9 +44,22 @@ import { ValidationSummary } from './ValidationSummary';
 import { TypeConverterPanel } from './TypeConverterPanel';
 import { MappingTemplateManager } from './MappingTemplateManager';
 import { detectColumnMapping, validateRequiredFieldsMapped, validateAndCorrectMappings, isColumnCompatibleWithField } from '../../utils/columnDetection';
-import { validateImportData } from '../../utils/importValidation';
+import { validateImportData, validateStatementTrades } from '../../utils/importValidation';
+import {
+  markDuplicateRows,
+  applyDuplicateSummary,
+  buildImportBatch
+} from '../../utils/importDuplicates';
+import * as calendarService from '../../services/calendarService';
+import { logger } from '../../utils/logger';
+import {
+  BROKER_STATEMENT_LABELS,
+  detectBrokerStatementFormat,
+  parseMetaTraderStatement,
+  parseTabularStatement
+} from '../../utils/brokerStatementParsers';
+import { SessionDefinition } from '../../utils/sessionTimeUtils';
 import {
-  findMatchingTemplate,
   saveMappingTemplate,
   updateTemplateLastUsed
 } from '../../utils/importMappingStorage';
@@ -49,23 +68,95 @@ import * as XLSX from 'xlsx';
 interface ImportMappingDialogProps {
   open: boolean;
   onClose: () => void;
-  onImport: (trades: Partial<Trade>[]) => void;
+  onImport: (batch: ImportTradeBatch) => void;
   file: File | null;
+  calendarId?: string; // Used to check imported rows against existing trades
+  tradingSessions?: SessionDefinition[]; // Used to infer the session of broker statement trades
 }
 
 const STEPS = ['Upload & Parse', 'Map Columns', 'Preview & Validate'];
 
+// Raw statement content, kept to parse again when the statement time zone changes
+type StatementSource =
+  | { kind: 'html'; html: string }
+  | { kind: 'table'; format: BrokerStatementFormat; columns: string[]; rows: Array<Record<string, any>> };
+
+interface StatementTimeZoneOption {
+  value: string;
+  label: string;
+}
+
+const formatUtcOffset = (offset: number): string =>
+  `UTC${offset > 0 ? '+' : '-'}${Math.abs(offset)}`;
+
+// IANA zones with daylight saving time common for broker and platform clocks
+const STATEMENT_DST_TIME_ZONES: StatementTimeZoneOption[] = [
+  { value: 'Europe/Athens', label: 'EET/EEST (UTC+2, UTC+3 in summer)' },
+  { value: 'Europe/Berlin', label: 'CET/CEST (UTC+1, UTC+2 in summer)' },
+  { value: 'Europe/London', label: 'UK (UTC, UTC+1 in summer)' },
+  { value: 'America/New_York', label: 'US Eastern (UTC-5, UTC-4 in summer)' },
+  { value: 'America/Chicago', label: 'US Central (UTC-6, UTC-5 in summer)' },
+  { value: 'Australia/Sydney', label: 'Sydney (UTC+10, UTC+11 in summer)' }
+];
+
+// UTC-12 ... UTC+14 without DST; the Etc/GMT zones use the inverted POSIX sign
+const STATEMENT_FIXED_TIME_ZONES: StatementTimeZoneOption[] = Array.from({ length: 27 }, (_, i) => i - 12)
+  .filter(offset => offset !== 0)
+  .map(offset => ({
+    value: `Etc/GMT${offset > 0 ? '-' : '+'}${Math.abs(offset)}`,
+    label: `${formatUtcOffset(offset)} (no DST)`
+  }));
+
+/**
+ * Time zone choices for statements, with the browser's own zone after UTC when it is not listed
+ */
+const getStatementTimeZones = (): StatementTimeZoneOption[] => {
+  const options = [{ value: 'UTC', label: 'UTC' }, ...STATEMENT_DST_TIME_ZONES, ...STATEMENT_FIXED_TIME_ZONES];
+  const localZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  if (localZone && !options.some(option => option.value === localZone)) {
+    options.splice(1, 0, { value: localZone, label: `${localZone} (this device)` });
+  }
+  return options;
+};
+
+// Fields filled in by the broker statement parsers, shown in the preview table
+const STATEMENT_PREVIEW_FIELDS: TradeField[] = [
+  'trade_date',
+  'name',
+  'direction',
+  'position_size',
+  'trade_type',
+  'amount',
+  'entry_price',
+  'exit_price',
+  'stop_loss',
+  'take_profit',
+  'session',
+  'tags'
+];
+
 export const ImportMappingDialog: React.FC<ImportMappingDialogProps> = ({
   open,
   onClose,
   onImport,
-  file
+  file,
+  calendarId,
+  tradingSessions
 }) => {
   const [currentStep, setCurrentStep] = useState<number>(0);
   const [fileData, setFileData] = useState<ImportFileData | null>(null);
   const [columnMappings, setColumnMappings] = useState<ColumnMapping[]>([]);
   const [previewRows, setPreviewRows] = useState<ImportPreviewRow[]>([]);
   const [validationSummary, setValidationSummary] = useState<ValidationSummaryType | null>(null);
+  const [statement, setStatement] = useState<ParsedBrokerStatement | null>(null);
+  const [statementSource, setStatementSource] = useState<StatementSource | null>(null);
+  // Kept between imports, statements of one broker share a clock
+  const [statementTimeZone, setStatementTimeZone] = useState('UTC');
+  const statementTimeZones = useMemo(getStatementTimeZones, []);
+  const [existingTrades, setExistingTrades] = useState<Trade[]>([]);
+  // Existing trades the current preview was checked against
+  const duplicatesCheckedRef = useRef<Trade[] | null>(null);
+  const [isLoadingExisting, setIsLoadingExisting] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showTemplateManager, setShowTemplateManager] = useState(false);
@@ -92,10 +183,43 @@ export const ImportMappingDialog: React.FC<ImportMappingDialogProps> = ({
       setColumnMappings([]);
       setPreviewRows([]);
       setValidationSummary(null);
+      setStatement(null);
+      setStatementSource(null);
+      setExistingTrades([]);
       setError(null);
     }
   }, [open, file]);
 
+  // Load the calendar's existing trades for duplicate detection
+  useEffect(() => {
+    if (!open || !calendarId) return;
+
+    let cancelled = false;
+    setIsLoadingExisting(true);
+    calendarService.getAllTrades(calendarId)
+      .then(trades => {
+        if (!cancelled) setExistingTrades(trades);
+      })
+      .catch(err => logger.error('Failed to load existing trades for duplicate detection:', err))
+      .finally(() => {
+        if (!cancelled) setIsLoadingExisting(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, calendarId]);
+
+  // Re-check duplicates once existing trades arrive after the preview was built
+  useEffect(() => {
+    if (previewRows.length === 0 || !validationSummary || duplicatesCheckedRef.current === existingTrades) return;
+
+    duplicatesCheckedRef.current = existingTrades;
+    const markedRows = markDuplicateRows(previewRows, existingTrades);
+    setPreviewRows(markedRows);
+    setValidationSummary(applyDuplicateSummary(validationSummary, markedRows, config.skipErrorRows));
+  }, [existingTrades, previewRows, validationSummary, config.skipErrorRows]);
+
   // Auto-validate when mappings change
   useEffect(() => {
     if (fileData && columnMappings.length > 0 && currentStep >= 1) {
@@ -108,15 +232,37 @@ export const ImportMappingDialog: React.FC<ImportMappingDialogProps> = ({
     setError(null);
 
     try {
-      const fileType = file.name.split('.').pop()?.toLowerCase() as 'xlsx' | 'csv';
+      const fileType = file.name.split('.').pop()?.toLowerCase();
       let parsedData: ImportFileData;
 
+      if (fileType === 'html' || fileType === 'htm') {
+        // MetaTrader statements are HTML reports - parse trades directly
+        const source: StatementSource = { kind: 'html', html: await readFileAsText(file) };
+        applyStatement(parseStatementSource(source, statementTimeZone), file.name);
+        setStatementSource(source);
+        return;
+      }
+
       if (fileType === 'csv') {
         parsedData = await parseCSV(file);
       } else {
         parsedData = await parseExcel(file);
       }
 
+      // Known broker exports skip column mapping entirely
+      const statementFormat = detectBrokerStatementFormat(parsedData.columns);
+      if (statementFormat) {
+        const source: StatementSource = {
+          kind: 'table',
+          format: statementFormat,
+          columns: parsedData.columns,
+          rows: parsedData.rows
+        };
+        applyStatement(parseStatementSource(source, statementTimeZone), file.name);
+        setStatementSource(source);
+        return;
+      }
+
       setFileData(parsedData);
 
       // Auto-detect column mappings (no auto-load of templates)
@@ -148,6 +294,87 @@ export const ImportMappingDialog: React.FC<ImportMappingDialogProps> = ({
     }
   };
 
+  const parseStatementSource = (source: StatementSource, timeZone: string): ParsedBrokerStatement => {
+    const options = { timeZone, sessions: tradingSessions };
+    return source.kind === 'html'
+      ? parseMetaTraderStatement(source.html, options)
+      : parseTabularStatement(source.format, source.columns, source.rows, options);
+  };
+
+  /**
+   * Parse the statement again with the times read in another time zone
+   */
+  const handleStatementTimeZoneChange = (timeZone: string) => {
+    setStatementTimeZone(timeZone);
+    if (!statementSource || !fileData) return;
+
+    try {
+      applyStatement(parseStatementSource(statementSource, timeZone), fileData.fileName);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to parse file');
+    }
+  };
+
+  /**
+   * Load a parsed broker statement and jump straight to the preview step
+   */
+  const applyStatement = (parsed: ParsedBrokerStatement, fileName: string) => {
+    if (parsed.trades.length === 0) {
+      throw new Error(`No closed trades found in this ${BROKER_STATEMENT_LABELS[parsed.format]}`);
+    }
+
+    setStatement(parsed);
+    setColumnMappings([]);
+    setFileData({
+      columns: parsed.columns,
+      rows: parsed.rows,
+      fileType: parsed.format === 'mt4_html' || parsed.format === 'mt5_html' ? 'html' : 'csv',
+      fileName,
+      rowCount: parsed.rows.length,
+      statementFormat: parsed.format
+    });
+
+    const { previewRows: rows, validationSummary: summary } = validateStatementTrades(parsed, config);
+    applyPreview(rows, summary);
+    setCurrentStep(2);
+  };
+
+  /**
+   * Flag likely duplicates of existing trades and store the preview
+   */
+  const applyPreview = (rows: ImportPreviewRow[], summary: ValidationSummaryType) => {
+    duplicatesCheckedRef.current = existingTrades;
+    const markedRows = markDuplicateRows(rows, existingTrades);
+    setPreviewRows(markedRows);
+    setValidationSummary(applyDuplicateSummary(summary, markedRows, config.skipErrorRows));
+  };
+
+  const handleResolutionChange = (rowIndexes: number[], resolution: DuplicateResolution) => {
+    if (!validationSummary) return;
+    const targets = new Set(rowIndexes);
+    const updatedRows = previewRows.map(row =>
+      row.duplicateOf && targets.has(row.rowIndex) ? { ...row, resolution } : row
+    );
+    setPreviewRows(updatedRows);
+    setValidationSummary(applyDuplicateSummary(validationSummary, updatedRows, config.skipErrorRows));
+  };
+
+  const handleResolveAllDuplicates = (resolution: DuplicateResolution) => {
+    handleResolutionChange(
+      previewRows.filter(row => row.duplicateOf).map(row => row.rowIndex),
+      resolution
+    );
+  };
+
+  const readFileAsText = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = (e) => resolve(e.target?.result as string);
+      reader.onerror = () => reject(new Error('Failed to read file'));
+      reader.readAsText(file);
+    });
+  };
+
   const parseExcel = async (file: File): Promise<ImportFileData> => {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
@@ -271,8 +498,7 @@ export const ImportMappingDialog: React.FC<ImportMappingDialogProps> = ({
       config
     );
 
-    setPreviewRows(rows);
-    setValidationSummary(summary);
+    applyPreview(rows, summary);
   };
 
   const handleMappingChange = (fileColumn: string, target: MappingTarget) => {
@@ -304,6 +530,13 @@ export const ImportMappingDialog: React.FC<ImportMappingDialogProps> = ({
   };
 
   const handleNext = () => {
+    if (statement) {
+      // Statements have no column mapping step
+      setError(null);
+      setCurrentStep(2);
+      return;
+    }
+
     if (currentStep === 1) {
       // Validate required fields are mapped
       const validation = validateRequiredFieldsMapped(columnMappings);
@@ -344,18 +577,14 @@ export const ImportMappingDialog: React.FC<ImportMappingDialogProps> = ({
 
   const handleBack = () => {
     setError(null);
-    setCurrentStep(prev => prev - 1);
+    setCurrentStep(prev => (statement ? 0 : prev - 1));
   };
 
   const handleImport = () => {
     if (!validationSummary) return;
 
-    // Get valid trades
-    const validTrades = previewRows
-      .filter(row => row.isValid || !config.skipErrorRows)
-      .map(row => row.mappedData);
-
-    onImport(validTrades);
+    // Split valid rows into new trades and overwritten duplicates
+    onImport(buildImportBatch(previewRows, config.skipErrorRows));
     onClose();
   };
 
@@ -408,6 +637,9 @@ export const ImportMappingDialog: React.FC<ImportMappingDialogProps> = ({
   };
 
   const getMappedFields = () => {
+    if (statement) {
+      return STATEMENT_PREVIEW_FIELDS;
+    }
     return columnMappings
       .filter(m => m.target !== 'ignore' && m.target !== 'create_tag')
       .map(m => m.target);
@@ -553,16 +785,75 @@ export const ImportMappingDialog: React.FC<ImportMappingDialogProps> = ({
 
               {currentStep === 2 && validationSummary && (
                 <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
-                  {/* Warning about deleting existing trades */}
-                  <Alert severity="warning" sx={{ mb: 1 }}>
-                    <Typography variant="body2" fontWeight={600} gutterBottom>
-                      ⚠️ Important: Importing will replace all existing trades
-                    </Typography>
-                    <Typography variant="body2">
-                      All current trades in this calendar will be permanently deleted before importing the new trades.
-                      This action cannot be undone. Make sure you have a backup if needed.
-                    </Typography>
-                  </Alert>
+                  {/* Duplicate detection against the calendar's existing trades */}
+                  {isLoadingExisting ? (
+                    <Alert severity="info" icon={<CircularProgress size={18} />} sx={{ mb: 1 }}>
+                      Checking for trades that already exist in this calendar...
+                    </Alert>
+                  ) : validationSummary.duplicates && validationSummary.duplicates.total > 0 ? (
+                    <Alert
+                      severity="warning"
+                      sx={{ mb: 1 }}
+                      action={
+                        <Box sx={{ display: 'flex', gap: 0.5 }}>
+                          <Button color="inherit" size="small" onClick={() => handleResolveAllDuplicates('skip')}>
+                            Skip all
+                          </Button>
+                          <Button color="inherit" size="small" onClick={() => handleResolveAllDuplicates('overwrite')}>
+                            Overwrite all
+                          </Button>
+                          <Button color="inherit" size="small" onClick={() => handleResolveAllDuplicates('keep_both')}>
+                            Keep all
+                          </Button>
+                        </Box>
+                      }
+                    >
+                      <Typography variant="body2" fontWeight={600} gutterBottom>
+                        {validationSummary.duplicates.total} row(s) look like trades already in this calendar
+                      </Typography>
+                      <Typography variant="body2">
+                        Matched on date, name, amount and entry/exit price. Choose whether to skip, overwrite
+                        or keep both for each row below.
+                      </Typography>
+                    </Alert>
+                  ) : (
+                    <Alert severity="info" sx={{ mb: 1 }}>
+                      Imported trades will be added alongside the existing trades in this calendar.
+                    </Alert>
+                  )}
+
+                  {statement && (
+                    <Alert severity="info" sx={{ mb: 1 }}>
+                      <Typography variant="body2" fontWeight={600} gutterBottom>
+                        {BROKER_STATEMENT_LABELS[statement.format]} detected
+                      </Typography>
+                      <Typography variant="caption">
+                        Columns were mapped automatically. Commission and swap are included in each trade amount,
+                        and sessions are inferred from the open time.
+                        {statement.skippedRows > 0 && ` ${statement.skippedRows} non-trade row(s) (balance operations, pending orders, totals) were skipped.`}
+                      </Typography>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, mt: 1.5 }}>
+                        <TextField
+                          select
+                          size="small"
+                          label="Statement time zone"
+                          value={statementTimeZone}
+                          onChange={(e) => handleStatementTimeZoneChange(e.target.value)}
+                          sx={{ minWidth: 240 }}
+                        >
+                          {statementTimeZones.map(option => (
+                            <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                          ))}
+                        </TextField>
+                        <Typography variant="caption">
+                          {statement.format === 'mt4_html' || statement.format === 'mt5_html'
+                            ? 'MetaTrader statements use the broker server time, usually EET/EEST (UTC+2, UTC+3 in summer).'
+                            : 'The time zone set in the platform when the file was exported.'}
+                          {' '}Trade dates and sessions are converted to UTC from it, daylight saving time included.
+                        </Typography>
+                      </Box>
+                    </Alert>
+                  )}
 
                   <ValidationSummary summary={validationSummary} />
 
@@ -620,6 +911,7 @@ export const ImportMappingDialog: React.FC<ImportMappingDialogProps> = ({
                     previewRows={previewRows}
                     mappedFields={getMappedFields() as any}
                     maxRows={10}
+                    onResolutionChange={(rowIndex, resolution) => handleResolutionChange([rowIndex], resolution)}
                   />
                 </Box>
               )}
@@ -649,7 +941,7 @@ export const ImportMappingDialog: React.FC<ImportMappingDialogProps> = ({
             <Button
               onClick={handleImport}
               variant="contained"
-              disabled={!validationSummary || validationSummary.validRows === 0}
+              disabled={!validationSummary || validationSummary.willImport === 0 || isLoadingExisting}
             >
               Import {validationSummary?.willImport || 0} Trades
             </Button>
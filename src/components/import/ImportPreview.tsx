@@ -13,35 +13,48 @@ import {
   Tooltip,
   alpha,
   Button,
-  Collapse
+  Collapse,
+  Select,
+  MenuItem
 } from '@mui/material';
 import {
   CheckCircle,
   Warning,
   Error as ErrorIcon,
   ExpandMore,
-  ExpandLess
+  ExpandLess,
+  ContentCopy
 } from '@mui/icons-material';
-import { ImportPreviewRow, TradeField } from '../../types/import';
+import { DuplicateResolution, ImportPreviewRow, TradeField } from '../../types/import';
 import { TRADE_FIELD_METADATA } from '../../utils/importValidation';
+import { formatCurrency } from '../../utils/formatters';
 import { format } from 'date-fns';
 
 interface ImportPreviewProps {
   previewRows: ImportPreviewRow[];
   mappedFields: TradeField[];
   maxRows?: number;
+  onResolutionChange?: (rowIndex: number, resolution: DuplicateResolution) => void;
 }
 
+const RESOLUTION_LABELS: Record<DuplicateResolution, string> = {
+  skip: 'Skip',
+  overwrite: 'Overwrite',
+  keep_both: 'Keep both'
+};
+
 export const ImportPreview: React.FC<ImportPreviewProps> = ({
   previewRows,
   mappedFields,
-  maxRows = 10
+  maxRows = 10,
+  onResolutionChange
 }) => {
   const [showAll, setShowAll] = useState(false);
   const [expandedRow, setExpandedRow] = useState<number | null>(null);
 
   const displayRows = showAll ? previewRows : previewRows.slice(0, maxRows);
   const hasMore = previewRows.length > maxRows;
+  const hasDuplicates = previewRows.some(row => row.duplicateOf);
 
   const handleToggleRow = (index: number) => {
     setExpandedRow(expandedRow === index ? null : index);
@@ -81,6 +94,9 @@ export const ImportPreview: React.FC<ImportPreviewProps> = ({
     if (row.errors.length > 0) {
       return <ErrorIcon sx={{ fontSize: 20, color: 'error.main' }} />;
     }
+    if (row.duplicateOf) {
+      return <ContentCopy sx={{ fontSize: 20, color: 'info.main' }} />;
+    }
     if (row.warnings.length > 0) {
       return <Warning sx={{ fontSize: 20, color: 'warning.main' }} />;
     }
@@ -91,6 +107,9 @@ export const ImportPreview: React.FC<ImportPreviewProps> = ({
     if (row.errors.length > 0) {
       return alpha('#f44336', 0.05);
     }
+    if (row.duplicateOf) {
+      return row.resolution === 'skip' ? alpha('#000', 0.04) : alpha('#2196f3', 0.05);
+    }
     if (row.warnings.length > 0) {
       return alpha('#ff9800', 0.05);
     }
@@ -150,6 +169,13 @@ export const ImportPreview: React.FC<ImportPreviewProps> = ({
                  
                 </TableCell>
               ))}
+              {hasDuplicates && (
+                <TableCell sx={{ bgcolor: 'background.paper', minWidth: 130 }}>
+                  <Typography variant="caption" fontWeight={600}>
+                    Duplicate
+                  </Typography>
+                </TableCell>
+              )}
               <TableCell sx={{ width: 40, bgcolor: 'background.paper' }} />
             </TableRow>
           </TableHead>
@@ -173,6 +199,9 @@ export const ImportPreview: React.FC<ImportPreviewProps> = ({
                         title={
                           row.errors.length > 0
                             ? `${row.errors.length} error(s)`
+                            : row.duplicateOf
+                            ? `Likely duplicate of the ${format(new Date(row.duplicateOf.trade_date), 'MM/dd/yyyy')} trade` +
+                              `${row.duplicateOf.name ? ` "${row.duplicateOf.name}"` : ''} (${formatCurrency(row.duplicateOf.amount)})`
                             : row.warnings.length > 0
                             ? `${row.warnings.length} warning(s)`
                             : 'Valid'
@@ -224,6 +253,26 @@ export const ImportPreview: React.FC<ImportPreviewProps> = ({
                         </TableCell>
                       );
                     })}
+                    {hasDuplicates && (
+                      <TableCell>
+                        {row.duplicateOf && (
+                          <Select
+                            size="small"
+                            variant="standard"
+                            value={row.resolution || 'skip'}
+                            onChange={(e) => onResolutionChange?.(row.rowIndex, e.target.value as DuplicateResolution)}
+                            disabled={!onResolutionChange}
+                            sx={{ fontSize: '0.75rem' }}
+                          >
+                            {(Object.keys(RESOLUTION_LABELS) as DuplicateResolution[]).map(option => (
+                              <MenuItem key={option} value={option} sx={{ fontSize: '0.75rem' }}>
+                                {RESOLUTION_LABELS[option]}
+                              </MenuItem>
+                            ))}
+                          </Select>
+                        )}
+                      </TableCell>
+                    )}
                     <TableCell>
                       {hasIssues && (
                         <IconButton
@@ -238,7 +287,7 @@ export const ImportPreview: React.FC<ImportPreviewProps> = ({
 
                   {hasIssues && (
                     <TableRow>
-                      <TableCell colSpan={mappedFields.length + 3} sx={{ p: 0, border: 'none' }}>
+                      <TableCell colSpan={mappedFields.length + (hasDuplicates ? 4 : 3)} sx={{ p: 0, border: 'none' }}>
                         <Collapse in={isExpanded} timeout="auto">
                           <Box
                             sx={{
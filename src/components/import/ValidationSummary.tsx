@@ -17,7 +17,8 @@ import {
   Warning,
   Error as ErrorIcon,
   Info,
-  SwapHoriz
+  SwapHoriz,
+  ContentCopy
 } from '@mui/icons-material';
 import { ValidationSummary as ValidationSummaryType } from '../../types/import';
 
@@ -32,7 +33,8 @@ export const ValidationSummary: React.FC<ValidationSummaryProps> = ({ summary })
     rowsWithWarnings,
     rowsWithErrors,
     willImport,
-    conversions
+    conversions,
+    duplicates
   } = summary;
 
   const validPercentage = totalRows > 0 ? (validRows / totalRows) * 100 : 0;
@@ -145,6 +147,35 @@ export const ValidationSummary: React.FC<ValidationSummaryProps> = ({ summary })
             </ListItem>
           )}
 
+          {duplicates && duplicates.total > 0 && (
+            <ListItem disablePadding sx={{ mb: 1 }}>
+              <ListItemIcon sx={{ minWidth: 36 }}>
+                <ContentCopy sx={{ color: 'info.main', fontSize: 20 }} />
+              </ListItemIcon>
+              <ListItemText
+                primary={
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                    <Typography variant="body2">Likely duplicates</Typography>
+                    <Chip
+                      label={duplicates.total}
+                      size="small"
+                      sx={{
+                        bgcolor: alpha('#2196f3', 0.1),
+                        color: 'info.main',
+                        fontWeight: 600
+                      }}
+                    />
+                  </Box>
+                }
+                secondary={
+                  <Typography variant="caption" color="text.secondary">
+                    {duplicates.skip} skipped · {duplicates.overwrite} overwritten · {duplicates.keepBoth} kept as new trades
+                  </Typography>
+                }
+              />
+            </ListItem>
+          )}
+
           {conversions.length > 0 && (
             <ListItem disablePadding sx={{ mb: 1 }}>
               <ListItemIcon sx={{ minWidth: 36 }}>
@@ -30,6 +30,9 @@ import {
   Switch,
   FormControlLabel,
   Tooltip,
+  Select,
+  FormControl,
+  InputLabel,
 } from '@mui/material';
 import {
   pink,
@@ -78,6 +81,9 @@ import ConfirmationDialog from '../common/ConfirmationDialog';
 import { useAuthState } from '../../contexts/AuthStateContext';
 import * as notesService from '../../services/notesService';
 import { Note, ReminderType, DayAbbreviation } from '../../types/note';
+import { DefaultTradingSession } from '../../utils/sessionTimeUtils';
+import { DEFAULT_REMINDER_LEAD_MINUTES, describeReminder } from '../../utils/reminderRules';
+import { reminderNotificationService } from '../../services/reminderNotificationService';
 import { scrollbarStyles } from '../../styles/scrollbarStyles';
 import { logger } from '../../utils/logger';
 
@@ -96,6 +102,18 @@ export const DEFAULT_NOTE_TAGS_MAP: Record<string, TagInfo> = {
   'RISK_MANAGEMENT': { label: 'Risk Management', subtitle: 'Position sizing and stop-loss rules' },
   'PSYCHOLOGY': { label: 'Psychology', subtitle: 'Mental state and emotional control' },
   'GUIDELINE': { label: 'Guideline', subtitle: 'Instructions for the AI Assistant (Max 1)' },
+  'WEEKLY_REVIEW': { label: 'Weekly Review', subtitle: 'Scheduled AI review of the past week' },
+};
+
+// When a reminder notifies: never (shown in the app only), at a time, or before a session opens
+type ReminderTiming = 'all_day' | 'time' | 'session';
+
+const REMINDER_SESSIONS: DefaultTradingSession[] = ['Asia', 'London', 'NY AM', 'NY PM'];
+
+const clampNumber = (value: string, min: number, max: number): number | null => {
+  if (value === '') return null;
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? null : Math.min(max, Math.max(min, parsed));
 };
 
 // Helper to get display label for a tag (returns original if not a default tag)
@@ -159,6 +177,12 @@ const NoteEditorDialog: React.FC<NoteEditorDialogProps> = ({
   const [reminderDays, setReminderDays] = useState<DayAbbreviation[]>([]);
   const [isReminderActive, setIsReminderActive] = useState(false);
   const [isReminderExpanded, setIsReminderExpanded] = useState(false);
+  const [reminderMonthDay, setReminderMonthDay] = useState<number | null>(null);
+  const [reminderIntervalDays, setReminderIntervalDays] = useState<number | null>(null);
+  const [reminderTiming, setReminderTiming] = useState<ReminderTiming>('all_day');
+  const [reminderTime, setReminderTime] = useState<string | null>(null);
+  const [reminderSession, setReminderSession] = useState<DefaultTradingSession | null>(null);
+  const [reminderLeadMinutes, setReminderLeadMinutes] = useState<number | null>(null);
   // Color state
   const [noteColor, setNoteColor] = useState(initialNote?.color);
   const [colorMenuAnchor, setColorMenuAnchor] = useState<null | HTMLElement>(null);
@@ -209,6 +233,12 @@ const NoteEditorDialog: React.FC<NoteEditorDialogProps> = ({
         setReminderDays(initialNote.reminder_days || []);
         setIsReminderActive(initialNote.is_reminder_active || false);
         setIsReminderExpanded(false);
+        setReminderMonthDay(initialNote.reminder_month_day ?? null);
+        setReminderIntervalDays(initialNote.reminder_interval_days ?? null);
+        setReminderTiming(initialNote.reminder_session ? 'session' : initialNote.reminder_time ? 'time' : 'all_day');
+        setReminderTime(initialNote.reminder_time ?? null);
+        setReminderSession(initialNote.reminder_session ?? null);
+        setReminderLeadMinutes(initialNote.reminder_lead_minutes ?? null);
         setNoteColor(initialNote.color);
 
         // Initialize tags states
@@ -230,6 +260,12 @@ const NoteEditorDialog: React.FC<NoteEditorDialogProps> = ({
         setReminderDays([]);
         setIsReminderActive(false);
         setIsReminderExpanded(false);
+        setReminderMonthDay(null);
+        setReminderIntervalDays(null);
+        setReminderTiming('all_day');
+        setReminderTime(null);
+        setReminderSession(null);
+        setReminderLeadMinutes(null);
         setNoteColor(undefined);
 
         // Reset tags states
@@ -243,6 +279,20 @@ const NoteEditorDialog: React.FC<NoteEditorDialogProps> = ({
     }
   }, [open, initialNote]);
 
+  // Reminder rule as saved; fields that do not apply to the type or timing are cleared
+  const reminderRule = {
+    reminder_type: reminderType,
+    reminder_date: reminderType === 'once' || reminderType === 'interval' ? reminderDate : null,
+    reminder_days: reminderType === 'weekly' ? reminderDays : [],
+    reminder_month_day: reminderType === 'monthly' ? reminderMonthDay : null,
+    reminder_interval_days: reminderType === 'interval' ? reminderIntervalDays : null,
+    reminder_time: reminderType !== 'none' && reminderTiming === 'time' ? reminderTime : null,
+    reminder_session: reminderType !== 'none' && reminderTiming === 'session' ? reminderSession : null,
+    reminder_lead_minutes: reminderType !== 'none' && reminderTiming === 'session'
+      ? reminderLeadMinutes ?? DEFAULT_REMINDER_LEAD_MINUTES
+      : null,
+  };
+
   const saveNote = async () => {
     if (!user?.uid) return;
 
@@ -255,9 +305,7 @@ const NoteEditorDialog: React.FC<NoteEditorDialogProps> = ({
           title,
           content,
           cover_image: coverImage,
-          reminder_type: reminderType,
-          reminder_date: reminderDate,
-          reminder_days: reminderDays,
+          ...reminderRule,
           is_reminder_active: isReminderActive,
           color: noteColor ?? null,
           calendar_id: isGlobal ? null : calendarId, // null = global note
@@ -284,9 +332,7 @@ const NoteEditorDialog: React.FC<NoteEditorDialogProps> = ({
           title,
           content,
           cover_image: coverImage,
-          reminder_type: reminderType,
-          reminder_date: reminderDate,
-          reminder_days: reminderDays,
+          ...reminderRule,
           is_reminder_active: isReminderActive,
           color: (noteColor ?? null) as any,
           tags,
@@ -294,6 +340,9 @@ const NoteEditorDialog: React.FC<NoteEditorDialogProps> = ({
         setNote(newNote);
         if (onSave) onSave(newNote, true);
       }
+
+      // Pick up new or changed reminder times for notifications
+      reminderNotificationService.refresh().catch(() => undefined);
     } catch (error) {
       logger.error('Error saving note:', error);
     } finally {
@@ -322,12 +371,17 @@ const NoteEditorDialog: React.FC<NoteEditorDialogProps> = ({
       const reminderDateChanged = reminderDate !== (note.reminder_date || null);
       const reminderDaysChanged = JSON.stringify(reminderDays) !== JSON.stringify(note.reminder_days || []);
       const reminderActiveChanged = isReminderActive !== (note.is_reminder_active || false);
+      const reminderRuleChanged = reminderRule.reminder_month_day !== (note.reminder_month_day ?? null) ||
+        reminderRule.reminder_interval_days !== (note.reminder_interval_days ?? null) ||
+        reminderRule.reminder_time !== (note.reminder_time ?? null) ||
+        reminderRule.reminder_session !== (note.reminder_session ?? null) ||
+        reminderRule.reminder_lead_minutes !== (note.reminder_lead_minutes ?? null);
       const tagsChanged = JSON.stringify(tags) !== JSON.stringify(note.tags || []);
       const colorChanged = noteColor !== note.color;
       const globalChanged = isGlobal !== (note.calendar_id === null);
 
       return titleChanged || contentChanged || coverImageChanged || reminderTypeChanged ||
-        reminderDateChanged || reminderDaysChanged || reminderActiveChanged || tagsChanged || colorChanged || globalChanged;
+        reminderDateChanged || reminderDaysChanged || reminderActiveChanged || reminderRuleChanged || tagsChanged || colorChanged || globalChanged;
     }
   };
 
@@ -437,8 +491,14 @@ const NoteEditorDialog: React.FC<NoteEditorDialogProps> = ({
         setReminderDays([]);
       } else if (newType === 'once') {
         setReminderDays([]);
-      } else if (newType === 'weekly') {
+      } else if (newType === 'weekly' || newType === 'monthly') {
         setReminderDate(null);
+        if (newType === 'monthly' && reminderMonthDay === null) {
+          setReminderMonthDay(new Date().getDate());
+        }
+      } else if (newType === 'interval') {
+        if (reminderIntervalDays === null) setReminderIntervalDays(1);
+        if (reminderDate === null) setReminderDate(new Date());
       }
     }
   };
@@ -624,10 +684,7 @@ const NoteEditorDialog: React.FC<NoteEditorDialogProps> = ({
               </Typography>
               {isReminderActive && reminderType !== 'none' && (
                 <Typography variant="caption" color="text.secondary">
-                  {reminderType === 'weekly'
-                    ? `${reminderDays.length} day${reminderDays.length !== 1 ? 's' : ''}`
-                    : 'One-time'
-                  }
+                  {describeReminder(reminderRule)}
                 </Typography>
               )}
               <IconButton size="small" sx={{ color: 'text.secondary', ml: -0.5 }}>
@@ -704,6 +761,12 @@ const NoteEditorDialog: React.FC<NoteEditorDialogProps> = ({
                   <ToggleButton value="weekly">
                     Weekly
                   </ToggleButton>
+                  <ToggleButton value="monthly">
+                    Monthly
+                  </ToggleButton>
+                  <ToggleButton value="interval">
+                    Every N days
+                  </ToggleButton>
                 </ToggleButtonGroup>
 
                 {/* Color Template Selector */}
@@ -850,10 +913,10 @@ const NoteEditorDialog: React.FC<NoteEditorDialogProps> = ({
               </Box>
 
               {/* One-time Reminder Date Picker */}
-              {reminderType === 'once' && (
+              {(reminderType === 'once' || reminderType === 'interval') && (
                 <LocalizationProvider dateAdapter={AdapterDateFns}>
                   <DatePicker
-                    label="Reminder Date"
+                    label={reminderType === 'interval' ? 'Starting From' : 'Reminder Date'}
                     value={reminderDate}
                     onChange={(newDate) => setReminderDate(newDate)}
                     slotProps={{
@@ -897,6 +960,101 @@ const NoteEditorDialog: React.FC<NoteEditorDialogProps> = ({
                   )}
                 </Box>
               )}
+
+              {/* Monthly Reminder Day of Month */}
+              {reminderType === 'monthly' && (
+                <TextField
+                  label="Day of Month"
+                  type="number"
+                  size="small"
+                  value={reminderMonthDay ?? ''}
+                  onChange={(e) => setReminderMonthDay(clampNumber(e.target.value, 1, 31))}
+                  inputProps={{ min: 1, max: 31 }}
+                  helperText="Falls on the last day in shorter months"
+                  fullWidth
+                />
+              )}
+
+              {/* Interval Reminder Days Between */}
+              {reminderType === 'interval' && (
+                <TextField
+                  label="Repeat Every (days)"
+                  type="number"
+                  size="small"
+                  value={reminderIntervalDays ?? ''}
+                  onChange={(e) => setReminderIntervalDays(clampNumber(e.target.value, 1, 365))}
+                  inputProps={{ min: 1, max: 365 }}
+                  fullWidth
+                  sx={{ mt: 2 }}
+                />
+              )}
+
+              {/* Reminder Timing - when to send a notification */}
+              {reminderType !== 'none' && (
+                <Box sx={{ mt: 2 }}>
+                  <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                    Notify me:
+                  </Typography>
+                  <ToggleButtonGroup
+                    value={reminderTiming}
+                    exclusive
+                    onChange={(_, value: ReminderTiming | null) => value && setReminderTiming(value)}
+                    size="small"
+                    sx={{ mb: reminderTiming === 'all_day' ? 0 : 2 }}
+                  >
+                    <ToggleButton value="all_day">
+                      Don't notify
+                    </ToggleButton>
+                    <ToggleButton value="time">
+                      At a time
+                    </ToggleButton>
+                    <ToggleButton value="session">
+                      Before session
+                    </ToggleButton>
+                  </ToggleButtonGroup>
+
+                  {reminderTiming === 'time' && (
+                    <TextField
+                      label="Time"
+                      type="time"
+                      size="small"
+                      value={reminderTime ?? ''}
+                      onChange={(e) => setReminderTime(e.target.value || null)}
+                      InputLabelProps={{ shrink: true }}
+                      fullWidth
+                    />
+                  )}
+
+                  {reminderTiming === 'session' && (
+                    <Box sx={{ display: 'flex', gap: 2 }}>
+                      <FormControl size="small" fullWidth>
+                        <InputLabel>Session</InputLabel>
+                        <Select
+                          label="Session"
+                          value={reminderSession ?? ''}
+                          onChange={(e) => setReminderSession((e.target.value as DefaultTradingSession) || null)}
+                          MenuProps={{ sx: { zIndex: Z_INDEX.DIALOG_POPUP } }}
+                        >
+                          {REMINDER_SESSIONS.map(session => (
+                            <MenuItem key={session} value={session}>
+                              {session}
+                            </MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
+                      <TextField
+                        label="Minutes Before Open"
+                        type="number"
+                        size="small"
+                        value={reminderLeadMinutes ?? DEFAULT_REMINDER_LEAD_MINUTES}
+                        onChange={(e) => setReminderLeadMinutes(clampNumber(e.target.value, 0, 240))}
+                        inputProps={{ min: 0, max: 240 }}
+                        fullWidth
+                      />
+                    </Box>
+                  )}
+                </Box>
+              )}
             </Box>
           </Collapse>
 
@@ -0,0 +1,102 @@
+/**
+ * Weekly Review Button
+ * Opt-in switch for the scheduled AI weekly review and a link to the latest
+ * review note (written by the ai-weekly-review edge function)
+ */
+
+import React, { useState } from 'react';
+import {
+  IconButton,
+  Tooltip,
+  Menu,
+  MenuItem,
+  ListItemIcon,
+  ListItemText,
+  Switch,
+  CircularProgress
+} from '@mui/material';
+import {
+  Insights as ReviewIcon,
+  Article as NoteIcon
+} from '@mui/icons-material';
+import { Calendar } from '../../types/calendar';
+import { Note } from '../../types/note';
+import { getNote } from '../../services/notesService';
+import { logger } from '../../utils/logger';
+import NoteViewerDialog from './NoteViewerDialog';
+
+interface WeeklyReviewButtonProps {
+  calendar: Calendar;
+  onToggle: (enabled: boolean) => Promise<void>;
+}
+
+const WeeklyReviewButton: React.FC<WeeklyReviewButtonProps> = ({ calendar, onToggle }) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [isToggling, setIsToggling] = useState(false);
+  const [isLoadingNote, setIsLoadingNote] = useState(false);
+  const [reviewNote, setReviewNote] = useState<Note | null>(null);
+
+  const enabled = !!calendar.weekly_review_enabled;
+  const noteId = calendar.weekly_review_note_id;
+
+  const handleToggle = async () => {
+    setIsToggling(true);
+    try {
+      await onToggle(!enabled);
+    } catch (error) {
+      logger.error('Error updating weekly review setting:', error);
+    } finally {
+      setIsToggling(false);
+    }
+  };
+
+  const handleOpenReview = async () => {
+    if (!noteId) return;
+    setIsLoadingNote(true);
+    const note = await getNote(noteId);
+    setIsLoadingNote(false);
+    setAnchorEl(null);
+    setReviewNote(note);
+  };
+
+  return (
+    <>
+      <Tooltip title="AI weekly review">
+        <IconButton size="small" onClick={(e) => setAnchorEl(e.currentTarget)}>
+          <ReviewIcon fontSize="small" color={enabled ? 'primary' : 'inherit'} />
+        </IconButton>
+      </Tooltip>
+
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+      >
+        <MenuItem onClick={handleToggle} disabled={isToggling}>
+          <ListItemText
+            primary="Weekly review"
+            secondary="Every Monday, a review of last week is added to your notes"
+            secondaryTypographyProps={{ sx: { maxWidth: 240, whiteSpace: 'normal' } }}
+          />
+          <Switch edge="end" size="small" checked={enabled} disabled={isToggling} />
+        </MenuItem>
+        <MenuItem onClick={handleOpenReview} disabled={!noteId || isLoadingNote}>
+          <ListItemIcon>
+            {isLoadingNote ? <CircularProgress size={18} /> : <NoteIcon fontSize="small" />}
+          </ListItemIcon>
+          <ListItemText>{noteId ? 'Open latest review' : 'No review yet'}</ListItemText>
+        </MenuItem>
+      </Menu>
+
+      <NoteViewerDialog
+        open={!!reviewNote}
+        note={reviewNote}
+        onClose={() => setReviewNote(null)}
+      />
+    </>
+  );
+};
+
+export default WeeklyReviewButton;
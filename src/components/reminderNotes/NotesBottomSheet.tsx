@@ -36,8 +36,11 @@ import {
   ChevronRight as ChevronRightIcon,
   Edit as EditIcon,
   EventNote as EventNoteIcon,
+  TaskAlt as DoneIcon,
 } from '@mui/icons-material';
 import { Note } from '../../types/note';
+import { describeReminder } from '../../utils/reminderRules';
+import { logger } from '../../utils/logger';
 import { Z_INDEX } from '../../styles/zIndex';
 import { scrollbarStyles } from '../../styles/scrollbarStyles';
 import RichTextEditor from '../common/RichTextEditor';
@@ -52,6 +55,8 @@ interface NotesBottomSheetProps {
   fullDayName: string;
   onNoteSaved?: (note: Note, isCreated?: boolean) => void;
   onNoteDeleted?: (noteId: string) => void;
+  // Dismisses today's occurrence of the reminder
+  onNoteDismissed?: (note: Note) => Promise<void>;
 }
 
 // Color mapping
@@ -86,6 +91,7 @@ const NotesBottomSheet: React.FC<NotesBottomSheetProps> = ({
   fullDayName,
   onNoteSaved,
   onNoteDeleted,
+  onNoteDismissed,
 }) => {
   const theme = useTheme();
   const isDark = theme.palette.mode === 'dark';
@@ -156,6 +162,17 @@ const NotesBottomSheet: React.FC<NotesBottomSheetProps> = ({
     }
   }, [onNoteDeleted, notes.length, onClose]);
 
+  const handleDismiss = useCallback(async (note: Note) => {
+    try {
+      await onNoteDismissed?.(note);
+      if (notes.length <= 1) {
+        onClose();
+      }
+    } catch (error) {
+      logger.error('Error dismissing reminder:', error);
+    }
+  }, [onNoteDismissed, notes.length, onClose]);
+
   // Safe access to current note
   const currentNote = notes[currentIndex];
   const hasMultipleNotes = notes.length > 1;
@@ -255,17 +272,16 @@ const NotesBottomSheet: React.FC<NotesBottomSheetProps> = ({
                 >
                   {fullDayName} Reminder
                 </Typography>
-                {hasMultipleNotes && (
-                  <Typography
-                    variant="caption"
-                    sx={{
-                      color: 'text.secondary',
-                      fontSize: '0.75rem',
-                    }}
-                  >
-                    {currentIndex + 1} of {notes.length}
-                  </Typography>
-                )}
+                <Typography
+                  variant="caption"
+                  sx={{
+                    color: 'text.secondary',
+                    fontSize: '0.75rem',
+                  }}
+                >
+                  {hasMultipleNotes && `${currentIndex + 1} of ${notes.length} · `}
+                  {describeReminder(currentNote)}
+                </Typography>
               </Box>
             </Box>
 
@@ -293,6 +309,18 @@ const NotesBottomSheet: React.FC<NotesBottomSheetProps> = ({
                 </>
               )}
 
+              {/* Done for today */}
+              {onNoteDismissed && (
+                <IconButton
+                  size="small"
+                  onClick={() => handleDismiss(currentNote)}
+                  sx={{ color: 'text.secondary' }}
+                  title="Done for today"
+                >
+                  <DoneIcon fontSize="small" />
+                </IconButton>
+              )}
+
               {/* Edit button */}
               <IconButton
                 size="small"
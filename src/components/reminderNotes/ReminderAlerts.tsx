@@ -0,0 +1,155 @@
+/**
+ * ReminderAlerts Component
+ * In-app alerts for timed note reminders that are due, with snooze and dismiss.
+ * Also starts the reminder notification watcher for the signed-in user.
+ */
+
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { Box, Button, Paper, Stack, Typography, alpha, useTheme } from '@mui/material';
+import {
+  NotificationsActive as ReminderIcon,
+  Snooze as SnoozeIcon,
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import {
+  ReminderAlert,
+  reminderNotificationService,
+} from '../../services/reminderNotificationService';
+import { describeReminder } from '../../utils/reminderRules';
+import { logger } from '../../utils/logger';
+import { Z_INDEX } from '../../styles/zIndex';
+
+interface ReminderAlertsProps {
+  userId: string;
+}
+
+const SNOOZE_OPTIONS = [
+  { label: '10 min', minutes: 10 },
+  { label: '1 hour', minutes: 60 },
+];
+
+const ReminderAlerts: React.FC<ReminderAlertsProps> = ({ userId }) => {
+  const theme = useTheme();
+  const alerts = useSyncExternalStore(
+    reminderNotificationService.subscribe,
+    reminderNotificationService.getAlerts,
+  );
+  const [permission, setPermission] = useState(() => reminderNotificationService.getPermission());
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    reminderNotificationService.start(userId);
+    return () => reminderNotificationService.stop();
+  }, [userId]);
+
+  const runAction = async (alert: ReminderAlert, action: () => Promise<void>) => {
+    setBusyKey(alert.key);
+    try {
+      await action();
+    } catch (error) {
+      logger.error('Error updating reminder:', error);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleEnableNotifications = async () => {
+    setPermission(await reminderNotificationService.requestPermission());
+  };
+
+  if (alerts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Stack
+      spacing={1}
+      sx={{
+        position: 'fixed',
+        right: { xs: 16, sm: 24 },
+        bottom: { xs: 16, sm: 24 },
+        zIndex: Z_INDEX.SNACKBAR,
+        width: { xs: 'calc(100% - 32px)', sm: 340 },
+      }}
+    >
+      {alerts.map((alert) => {
+        const isBusy = busyKey === alert.key;
+        return (
+          <Paper
+            key={alert.key}
+            elevation={6}
+            sx={{
+              p: 1.5,
+              borderRadius: 2,
+              borderLeft: `4px solid ${theme.palette.info.main}`,
+              bgcolor: theme.palette.background.paper,
+            }}
+          >
+            <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+              <ReminderIcon sx={{ color: 'info.main', fontSize: 20, mt: 0.25 }} />
+              <Box sx={{ flex: 1, minWidth: 0 }}>
+                <Typography
+                  variant="subtitle2"
+                  sx={{ fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                >
+                  {alert.note.title || 'Untitled'}
+                </Typography>
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                  {format(alert.dueAt, 'HH:mm')} · {describeReminder(alert.note)}
+                </Typography>
+              </Box>
+            </Box>
+
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: 0.5, mt: 1 }}>
+              {SNOOZE_OPTIONS.map((option) => (
+                <Button
+                  key={option.minutes}
+                  size="small"
+                  startIcon={<SnoozeIcon sx={{ fontSize: 16 }} />}
+                  disabled={isBusy}
+                  onClick={() => runAction(alert, () => reminderNotificationService.snooze(alert, option.minutes))}
+                  sx={{ textTransform: 'none', fontSize: '0.75rem', minWidth: 'auto', px: 1 }}
+                >
+                  {option.label}
+                </Button>
+              ))}
+              <Button
+                size="small"
+                variant="contained"
+                disabled={isBusy}
+                onClick={() => runAction(alert, () => reminderNotificationService.dismiss(alert))}
+                sx={{ textTransform: 'none', fontSize: '0.75rem', minWidth: 'auto', px: 1.5 }}
+              >
+                Dismiss
+              </Button>
+            </Box>
+          </Paper>
+        );
+      })}
+
+      {permission === 'default' && (
+        <Paper
+          elevation={6}
+          sx={{
+            p: 1,
+            borderRadius: 2,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: 1,
+            bgcolor: alpha(theme.palette.info.main, theme.palette.mode === 'dark' ? 0.2 : 0.08),
+          }}
+        >
+          <Typography variant="caption" color="text.secondary">
+            Get reminders even when this tab is in the background
+          </Typography>
+          <Button size="small" onClick={handleEnableNotifications} sx={{ textTransform: 'none', flexShrink: 0 }}>
+            Enable
+          </Button>
+        </Paper>
+      )}
+    </Stack>
+  );
+};
+
+export default ReminderAlerts;
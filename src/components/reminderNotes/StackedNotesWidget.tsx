@@ -20,7 +20,7 @@ interface StackedNotesWidgetProps {
 const MAX_VISIBLE_CARDS = 3;
 
 const StackedNotesWidget: React.FC<StackedNotesWidgetProps> = ({ calendarId }) => {
-  const { notes, isLoading, fullDayName, updateNote, removeNote } = useReminderNotes(calendarId);
+  const { notes, isLoading, fullDayName, updateNote, removeNote, dismissNote } = useReminderNotes(calendarId);
   const [isHovered, setIsHovered] = useState(false);
   const [bottomSheetOpen, setBottomSheetOpen] = useState(false);
   const [initialNoteIndex, setInitialNoteIndex] = useState(0);
@@ -121,6 +121,7 @@ const StackedNotesWidget: React.FC<StackedNotesWidgetProps> = ({ calendarId }) =
         fullDayName={fullDayName}
         onNoteSaved={handleNoteSaved}
         onNoteDeleted={handleNoteDeleted}
+        onNoteDismissed={dismissNote}
       />
     </>
   );
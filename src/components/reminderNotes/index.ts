@@ -7,4 +7,5 @@ export { default as StackedNotesWidget } from './StackedNotesWidget';
 export { default as NoteCard } from './NoteCard';
 export { default as PlaceholderNoteCard } from './PlaceholderNoteCard';
 export { default as NotesBottomSheet } from './NotesBottomSheet';
+export { default as ReminderAlerts } from './ReminderAlerts';
 export { useReminderNotes } from './useReminderNotes';
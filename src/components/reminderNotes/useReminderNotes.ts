@@ -5,11 +5,14 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { Note, DayAbbreviation } from '../../types/note';
-import { getReminderNotesForDay } from '../../services/notesService';
+import { getRemindersDueOn, dismissReminder } from '../../services/notesService';
+import { transformSupabaseNote } from '../../services/repository/repositories/NoteRepository';
 import { logger } from '../../utils/logger';
+import { getOccurrenceDate, isReminderDueOn } from '../../utils/reminderRules';
 import { useRealtimeSubscription } from '../../hooks/useRealtimeSubscription';
+import { useAuthState } from '../../contexts/AuthStateContext';
 
 interface UseReminderNotesResult {
   notes: Note[];
@@ -19,21 +22,27 @@ interface UseReminderNotesResult {
   reloadNotes: () => Promise<void>;
   updateNote: (updatedNote: Note) => void;
   removeNote: (noteId: string) => void;
+  dismissNote: (note: Note) => Promise<void>;
 }
 
 export function useReminderNotes(calendarId: string): UseReminderNotesResult {
+  const { user } = useAuthState();
+  const userId = user?.uid;
   const [notes, setNotes] = useState<Note[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   // Get current day abbreviation
   const currentDayAbbr = format(new Date(), 'EEE') as DayAbbreviation;
   const fullDayName = format(new Date(), 'EEEE');
+  // Changes at midnight, so the due reminders are re-evaluated for the new day
+  const todayKey = getOccurrenceDate(new Date());
 
   // Load reminder notes for current day
   const loadReminderNotes = useCallback(async () => {
+    if (!userId) return;
     setIsLoading(true);
     try {
-      const fetchedNotes = await getReminderNotesForDay(calendarId, currentDayAbbr);
+      const fetchedNotes = await getRemindersDueOn(calendarId, userId, parseISO(todayKey));
       setNotes(fetchedNotes);
     } catch (error) {
       logger.error('Error loading reminder notes:', error);
@@ -41,7 +50,7 @@ export function useReminderNotes(calendarId: string): UseReminderNotesResult {
     } finally {
       setIsLoading(false);
     }
-  }, [calendarId, currentDayAbbr]);
+  }, [calendarId, userId, todayKey]);
 
   // Initial load
   useEffect(() => {
@@ -51,11 +60,8 @@ export function useReminderNotes(calendarId: string): UseReminderNotesResult {
   // Helper to check if a note is a reminder for the current day
   const isReminderForToday = useCallback((note: Note | null): boolean => {
     if (!note || !note.is_reminder_active || note.is_archived) return false;
-    if (note.reminder_type === 'weekly' && note.reminder_days?.includes(currentDayAbbr)) {
-      return true;
-    }
-    return false;
-  }, [currentDayAbbr]);
+    return isReminderDueOn(note, parseISO(todayKey));
+  }, [todayKey]);
 
   // Set up real-time subscription for reminder notes changes
   useRealtimeSubscription({
@@ -70,7 +76,7 @@ export function useReminderNotes(calendarId: string): UseReminderNotesResult {
         { event: 'INSERT' },
         (payload: any) => {
           if (payload.payload?.record) {
-            const newNote = payload.payload.record as Note;
+            const newNote = transformSupabaseNote(payload.payload.record);
             logger.log(`➕ Note added via broadcast: ${newNote.id}`);
 
             if (isReminderForToday(newNote)) {
@@ -90,8 +96,8 @@ export function useReminderNotes(calendarId: string): UseReminderNotesResult {
         { event: 'UPDATE' },
         (payload: any) => {
           if (payload.payload?.record) {
-            const newNote = payload.payload.record as Note;
-            const oldNote = payload.payload.old_record as Note | null;
+            const newNote = transformSupabaseNote(payload.payload.record);
+            const oldNote = payload.payload.old_record ? transformSupabaseNote(payload.payload.old_record) : null;
             logger.log(`✏️ Note updated via broadcast: ${newNote.id}`);
 
             const isCurrentlyRelevant = isReminderForToday(newNote);
@@ -154,6 +160,12 @@ export function useReminderNotes(calendarId: string): UseReminderNotesResult {
     setNotes((prev) => prev.filter((n) => n.id !== noteId));
   }, []);
 
+  // Hide a reminder until its next occurrence
+  const dismissNote = useCallback(async (note: Note) => {
+    await dismissReminder(note, todayKey);
+    setNotes((prev) => prev.filter((n) => n.id !== note.id));
+  }, [todayKey]);
+
   return {
     notes,
     isLoading,
@@ -162,5 +174,6 @@ export function useReminderNotes(calendarId: string): UseReminderNotesResult {
     reloadNotes: loadReminderNotes,
     updateNote,
     removeNote,
+    dismissNote,
   };
 }
@@ -147,10 +147,10 @@ Higher scores indicate more predictable and stable trading performance.`;
       case 'discipline':
         return `Discipline Score evaluates your emotional control and trading discipline:
 
-• Trading Plan Adherence (25%): Average of session and tag adherence
+• Trading Plan Adherence (25%): % of trades with every mandatory checklist item ticked, or average of session and tag adherence without a checklist
 • Emotional Control (25%): Position size variance (coefficient of variation)
 • Overtrading (25%): Current vs historical trading frequency
-• Rule Following (25%): % of trades with complete data entry
+• Rule Following (25%): % of checklist items ticked, or % of trades with complete data entry without a checklist
 
 Calculation: Average of all four factors. Uses normalized amounts for emotional control.
 Higher scores indicate better emotional control and systematic trading.`;
@@ -171,10 +171,10 @@ Higher scores indicate better emotional control and systematic trading.`;
         case 'tradingplanadherence':
         case 'planadhrence':
         case 'plan_adherence':
-          return 'Measures how well you follow your predetermined trading rules and strategies.\n\nCalculation: Average of session adherence (% of trades in your preferred sessions) and tag adherence (% of trades using your common strategies).\n\nHigher scores = better plan execution (better). Lower scores = poor discipline (worse).';
+          return 'Measures how well you follow your predetermined trading rules and strategies.\n\nCalculation: With a pre-trade checklist, % of checklisted trades where every mandatory item was ticked. Otherwise the average of session adherence (% of trades in your preferred sessions) and tag adherence (% of trades using your common strategies).\n\nHigher scores = better plan execution (better). Lower scores = poor discipline (worse).';
         case 'rulefollowing':
         case 'rule_following':
-          return 'Evaluates how consistently you fill out required trade information.\n\nCalculation: Percentage of trades that have session, tags, and risk/reward data filled out (breakeven trades exempt from risk/reward requirement).\n\nHigher scores = complete data entry (better). Lower scores = incomplete records (worse).';
+          return 'Evaluates how consistently you follow your rules and fill out required trade information.\n\nCalculation: With a pre-trade checklist, % of checklist items ticked across checklisted trades. Otherwise the percentage of trades that have session, tags, and risk/reward data filled out (breakeven trades exempt from risk/reward requirement).\n\nHigher scores = complete data entry (better). Lower scores = incomplete records (worse).';
         case 'exitdiscipline':
         case 'exit_discipline':
           return 'Evaluates your ability to take profits and cut losses according to your plan.\n\nCalculation: Analyzes exit timing patterns and adherence to predetermined exit rules.\n\nHigher scores = good exit discipline (better). Lower scores = poor exit timing (worse).';
@@ -6,7 +6,10 @@ import {
   Typography,
   useTheme,
   Stack,
-  LinearProgress
+  LinearProgress,
+  Alert,
+  Button,
+  CircularProgress
 } from '@mui/material';
 import { useMediaQuery } from '@mui/material';
 
@@ -33,6 +36,9 @@ interface ScoreHistoryProps {
   onPeriodChange: (period: 'daily' | 'weekly' | 'monthly' | 'yearly') => void;
   availablePeriods?: ('daily' | 'weekly' | 'monthly' | 'yearly')[]; // Available periods based on parent time filter
   isLoading?: boolean; // Loading state for showing progress indicator
+  settingsVersion?: number; // Calendar's current score settings version
+  onRecompute?: () => void; // Rebuild persisted history with the current settings
+  isRecomputing?: boolean;
 }
 
 const ScoreHistoryComponent: React.FC<ScoreHistoryProps> = ({
@@ -40,7 +46,10 @@ const ScoreHistoryComponent: React.FC<ScoreHistoryProps> = ({
   period,
   onPeriodChange,
   availablePeriods = ['daily', 'weekly', 'monthly', 'yearly'], // Default to all periods
-  isLoading = false
+  isLoading = false,
+  settingsVersion,
+  onRecompute,
+  isRecomputing = false
 }) => {
   const theme = useTheme();
   const isXs = useMediaQuery(theme.breakpoints.down('sm'));
@@ -85,10 +94,30 @@ const ScoreHistoryComponent: React.FC<ScoreHistoryProps> = ({
       riskManagement: entry.metrics.riskManagement,
       performance: entry.metrics.performance,
       discipline: entry.metrics.discipline,
-      tradeCount: entry.tradeCount
+      tradeCount: entry.tradeCount,
+      settingsVersion: entry.settingsVersion
     }));
   }, [history, period]);
 
+  // Periods scored with settings older than the calendar's current ones
+  const outdatedCount = useMemo(() => {
+    if (settingsVersion === undefined) return 0;
+    return history.filter(entry => entry.settingsVersion !== undefined && entry.settingsVersion < settingsVersion).length;
+  }, [history, settingsVersion]);
+
+  const recomputeButton = (label: string) => (
+    <Button
+      size="small"
+      color="inherit"
+      onClick={onRecompute}
+      disabled={isRecomputing}
+      startIcon={isRecomputing ? <CircularProgress size={14} color="inherit" /> : undefined}
+      sx={{ whiteSpace: 'nowrap' }}
+    >
+      {isRecomputing ? 'Recomputing...' : label}
+    </Button>
+  );
+
   const getScoreColor = (value: number) => {
     if (value >= 50) return theme.palette.success.main;
     if (value >= 30) return theme.palette.warning.main;
@@ -133,6 +162,11 @@ const ScoreHistoryComponent: React.FC<ScoreHistoryProps> = ({
             <Typography variant="body2" color="text.secondary">
               Discipline: {data.discipline.toFixed(0)}%
             </Typography>
+            {data.settingsVersion !== undefined && (
+              <Typography variant="caption" color="text.secondary">
+                Scored with settings v{data.settingsVersion}
+              </Typography>
+            )}
           </Stack>
         </Box>
       );
@@ -205,6 +239,13 @@ const ScoreHistoryComponent: React.FC<ScoreHistoryProps> = ({
           </Box>
         )}
 
+        {onRecompute && outdatedCount > 0 && (
+          <Alert severity="warning" sx={{ mb: 2 }} action={recomputeButton('Recompute with new settings')}>
+            {outdatedCount} of these {period} scores were recorded with older score settings.
+            Past scores are kept as recorded until you recompute the history.
+          </Alert>
+        )}
+
         {chartData.length === 0 ? (
           <Box sx={{ textAlign: 'center', py: 4 }}>
             <Typography variant="body2" color="text.secondary">
@@ -212,6 +253,11 @@ const ScoreHistoryComponent: React.FC<ScoreHistoryProps> = ({
               <br />
               Complete more trades to see your score trends.
             </Typography>
+            {onRecompute && !isLoading && (
+              <Box sx={{ mt: 2 }}>
+                {recomputeButton('Compute score history')}
+              </Box>
+            )}
           </Box>
         ) : (
           <>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   Box,
   Paper,
@@ -18,9 +18,12 @@ import { useMediaQuery } from '@mui/material';
 import { alpha } from '@mui/material/styles';
 import { Close } from '@mui/icons-material';
 import { Trade, Calendar } from '../../types/dualWrite';
-import { ScoreSettings, ScoreAnalysis } from '../../types/score';
+import { ScoreSettings, ScoreAnalysis, ScoreHistory as ScoreHistoryEntry } from '../../types/score';
 import { DynamicRiskSettings } from '../../utils/dynamicRiskUtils';
+import { SessionDefinition } from '../../utils/sessionTimeUtils';
 import { scoreService } from '../../services/scoreService';
+import { scoreSnapshotService } from '../../services/scoreSnapshotService';
+import { startOfMonth, endOfMonth, startOfYear, endOfYear, startOfWeek } from 'date-fns';
 
 import { scrollbarStyles } from '../../styles/scrollbarStyles';
 import ScoreCard from './ScoreCard';
@@ -40,6 +43,7 @@ interface ScoreSectionProps {
   accountBalance?: number;
   dynamicRiskSettings?: DynamicRiskSettings;
   allTags?: string[]; // Add allTags prop to receive calendar.tags
+  tradingSessions?: SessionDefinition[]; // Calendar sessions for session consistency
   timePeriod?: 'month' | 'year' | 'all'; // Parent chart time period to restrict available score periods
 }
 
@@ -54,6 +58,7 @@ const ScoreSection: React.FC<ScoreSectionProps> = ({
   accountBalance,
   dynamicRiskSettings,
   allTags,
+  tradingSessions,
   timePeriod = 'all' // Default to 'all' if not provided
 }) => {
   const theme = useTheme();
@@ -69,11 +74,13 @@ const ScoreSection: React.FC<ScoreSectionProps> = ({
   const [isLoadingMultiPeriod, setIsLoadingMultiPeriod] = useState(false);
 
   const [scoreAnalysis, setScoreAnalysis] = useState<ScoreAnalysis | null>(null);
-  const [scoreHistory, setScoreHistory] = useState<any[]>([]);
+  const [scoreHistory, setScoreHistory] = useState<ScoreHistoryEntry[]>([]);
   const [multiPeriodScores, setMultiPeriodScores] = useState<any>(null);
 
-  // Cache for score history to avoid recalculating when switching tabs
-  const scoreHistoryCache = useRef<Map<string, any[]>>(new Map());
+  // Persisted score history: current settings version and recompute state
+  const [settingsVersion, setSettingsVersion] = useState(1);
+  const [isRecomputingHistory, setIsRecomputingHistory] = useState(false);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
 
   // State for breakdown modal
   const [breakdownModalOpen, setBreakdownModalOpen] = useState(false);
@@ -138,6 +145,11 @@ const ScoreSection: React.FC<ScoreSectionProps> = ({
     }
   }, [accountBalance, dynamicRiskSettings]);
 
+  // Update trading sessions in score service
+  useEffect(() => {
+    scoreService.updateTradingSessions(tradingSessions);
+  }, [tradingSessions]);
+
   // Calculate current score analysis
   useEffect(() => {
     if (trades.length === 0) {
@@ -164,7 +176,7 @@ const ScoreSection: React.FC<ScoreSectionProps> = ({
     calculateScoreAnalysis();
   }, [trades, scorePeriod, selectedDate, selectedTags, settings]);
 
-  // Calculate score history
+  // Load persisted score history snapshots
   useEffect(() => {
     if (trades.length === 0) {
       setScoreHistory([]);
@@ -172,115 +184,42 @@ const ScoreSection: React.FC<ScoreSectionProps> = ({
       return;
     }
 
-    const calculateScoreHistory = async () => {
-      // Generate cache key based on calculation parameters
-      const cacheKey = JSON.stringify({
-        tradesCount: trades.length,
-        historyPeriod,
-        selectedTags: selectedTags.sort(),
-        settingsKey: `${settings.thresholds.minTradesForScore}-${settings.weights.consistency}`,
-        selectedDate: selectedDate.toISOString().split('T')[0],
-        timePeriod
-      });
-
-      // Check cache first
-      const cachedHistory = scoreHistoryCache.current.get(cacheKey);
-      if (cachedHistory) {
-        // Use cached data immediately without loading
-        setScoreHistory(cachedHistory);
-        setIsLoadingHistory(false);
-        return;
-      }
+    let cancelled = false;
 
+    const loadScoreHistory = async () => {
       setIsLoadingHistory(true);
       try {
-        // Ensure score service has the latest settings before calculation
-        const updatedSettings = { ...settings, selectedTags };
-        scoreService.updateSettings(updatedSettings);
-
-        // Determine number of periods based on parent time period and history period
-        let periodsBack = 12;
-        if (timePeriod === 'month') {
-          // For monthly view, limit to current month
-          if (historyPeriod === 'daily') {
-            // Show days in the selected month (max ~31)
-            periodsBack = 31;
-          } else if (historyPeriod === 'weekly') {
-            // Show weeks in the selected month (max 5)
-            periodsBack = 5;
-          } else if (historyPeriod === 'monthly') {
-            // Show just the current month
-            periodsBack = 1;
-          }
-        } else if (timePeriod === 'year') {
-          // For yearly view, limit to current year
-          if (historyPeriod === 'daily') {
-            // Show days in the selected year (max ~365)
-            periodsBack = 365;
-          } else if (historyPeriod === 'weekly') {
-            // Show weeks in the selected year (max 53)
-            periodsBack = 53;
-          } else if (historyPeriod === 'monthly') {
-            // Show months in the selected year (12)
-            periodsBack = 12;
-          } else if (historyPeriod === 'yearly') {
-            // Show just the current year
-            periodsBack = 1;
-          }
-        } else {
-          // For 'all' view, show last 12 periods
-          periodsBack = 12;
-        }
-
-        let history = await scoreService.getScoreHistory(
-          trades,
-          historyPeriod,
-          periodsBack,
-          updatedSettings,
-          selectedDate // Pass selected date as reference
-        );
-
-        // Filter history to only include periods within the parent time period bounds
-        if (timePeriod === 'month') {
-          // Only show scores from the selected month
-          const monthStart = new Date(selectedDate.getFullYear(), selectedDate.getMonth(), 1);
-          const monthEnd = new Date(selectedDate.getFullYear(), selectedDate.getMonth() + 1, 0);
-          history = history.filter(entry => {
-            const entryDate = new Date(entry.date);
-            return entryDate >= monthStart && entryDate <= monthEnd;
-          });
-        } else if (timePeriod === 'year') {
-          // Only show scores from the selected year
-          const yearStart = new Date(selectedDate.getFullYear(), 0, 1);
-          const yearEnd = new Date(selectedDate.getFullYear(), 11, 31);
-          history = history.filter(entry => {
-            const entryDate = new Date(entry.date);
-            return entryDate >= yearStart && entryDate <= yearEnd;
-          });
-        }
-
-        // Store in cache for future use
-        scoreHistoryCache.current.set(cacheKey, history);
-
-        // Clear old cache entries if cache gets too large (keep last 10)
-        if (scoreHistoryCache.current.size > 10) {
-          const firstKey = scoreHistoryCache.current.keys().next().value;
-          if (firstKey) {
-            scoreHistoryCache.current.delete(firstKey);
-          }
-        }
-
-        setScoreHistory(history);
+        // Restrict snapshots to the parent time period; weeks may start before the month/year does
+        const rangeStart = (start: Date) => historyPeriod === 'weekly' ? startOfWeek(start, { weekStartsOn: 0 }) : start;
+        const range = timePeriod === 'month'
+          ? { start: rangeStart(startOfMonth(selectedDate)), end: endOfMonth(selectedDate) }
+          : timePeriod === 'year'
+            ? { start: rangeStart(startOfYear(selectedDate)), end: endOfYear(selectedDate) }
+            : { before: selectedDate, limit: 12 }; // For 'all' view, show last 12 periods
+
+        const [snapshots, version] = await Promise.all([
+          scoreSnapshotService.getSnapshots(calendarId, historyPeriod, range),
+          scoreSnapshotService.getSettingsVersion(calendarId)
+        ]);
+
+        if (cancelled) return;
+        setScoreHistory(scoreSnapshotService.toHistory(snapshots));
+        setSettingsVersion(version);
       } catch (error) {
-        logger.error('Error calculating score history:', error);
-        setScoreHistory([]);
+        logger.error('Error loading score history:', error);
+        if (!cancelled) setScoreHistory([]);
       } finally {
-        setIsLoadingHistory(false);
+        if (!cancelled) setIsLoadingHistory(false);
       }
     };
 
-    calculateScoreHistory();
-  }, [trades, historyPeriod, selectedTags, settings, selectedDate, timePeriod]);
+    loadScoreHistory();
+
+    return () => {
+      cancelled = true;
+    };
+    // trades and settings trigger a reload after the server refreshes snapshots or bumps the settings version
+  }, [calendarId, trades, historyPeriod, settings, selectedDate, timePeriod, historyRefreshKey]);
 
   // Calculate multi-period scores for overview
   useEffect(() => {
@@ -349,6 +288,19 @@ const ScoreSection: React.FC<ScoreSectionProps> = ({
     setHistoryPeriod(newPeriod);
   };
 
+  // Rebuild the persisted score history with the saved score settings
+  const handleRecomputeHistory = async () => {
+    setIsRecomputingHistory(true);
+    try {
+      await scoreSnapshotService.recompute(calendarId);
+      setHistoryRefreshKey(key => key + 1);
+    } catch (error) {
+      logger.error('Error recomputing score history:', error);
+    } finally {
+      setIsRecomputingHistory(false);
+    }
+  };
+
   // Handler for opening breakdown modal
   const handleScoreCardClick = (period: 'daily' | 'weekly' | 'monthly' | 'yearly') => {
     if (!multiPeriodScores) return;
@@ -636,6 +588,9 @@ const ScoreSection: React.FC<ScoreSectionProps> = ({
             onPeriodChange={handleHistoryPeriodChange}
             availablePeriods={availablePeriods}
             isLoading={isLoadingHistory}
+            settingsVersion={settingsVersion}
+            onRecompute={onUpdateCalendarProperty ? handleRecomputeHistory : undefined}
+            isRecomputing={isRecomputingHistory}
           />
         </TabPanel>
 
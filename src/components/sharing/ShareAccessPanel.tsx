@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Chip,
+  Alert,
+  CircularProgress,
+  List,
+  ListItem,
+  ListItemText,
+  alpha
+} from '@mui/material';
+import {
+  Lock as LockIcon,
+  Visibility as ViewIcon,
+  Schedule as ExpiryIcon
+} from '@mui/icons-material';
+import { format, formatDistanceToNow, endOfDay, parseISO } from 'date-fns';
+import { ShareView } from '../../types/sharing';
+import { getShareViews, hasSharePassword, updateShareAccess } from '../../services/sharingService';
+import { logger } from '../../utils/logger';
+
+interface ShareAccessPanelProps {
+  type: 'calendar' | 'trade';
+  shareId: string;
+  viewCount?: number;
+  expiresAt?: Date | null;
+  // Called with the saved expiry so callers can update their copy of the item
+  onAccessUpdated?: (changes: { expires_at: Date | null }) => void;
+}
+
+const describeReferrer = (referrer?: string | null): string => {
+  if (!referrer) return 'Direct';
+  try {
+    return new URL(referrer).hostname;
+  } catch {
+    return referrer;
+  }
+};
+
+/**
+ * View stats, access log, expiry and password of one share link
+ */
+const ShareAccessPanel: React.FC<ShareAccessPanelProps> = ({
+  type,
+  shareId,
+  viewCount,
+  expiresAt,
+  onAccessUpdated
+}) => {
+  const [views, setViews] = useState<ShareView[]>([]);
+  const [isProtected, setIsProtected] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expiryDate, setExpiryDate] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAccess = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [recentViews, passwordProtected] = await Promise.all([
+        getShareViews(shareId),
+        hasSharePassword(shareId)
+      ]);
+      setViews(recentViews);
+      setIsProtected(passwordProtected);
+    } catch (err) {
+      logger.error('Error loading share access:', err);
+      setError('Failed to load the access log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [shareId]);
+
+  useEffect(() => {
+    loadAccess();
+  }, [loadAccess]);
+
+  useEffect(() => {
+    setExpiryDate(expiresAt ? format(expiresAt, 'yyyy-MM-dd') : '');
+  }, [expiresAt]);
+
+  // Visitor hashes rotate daily, so this counts unique visitors per day
+  const uniqueVisitors = useMemo(
+    () => new Set(views.map(view => `${format(view.viewed_at, 'yyyy-MM-dd')}|${view.client_hash}`)).size,
+    [views]
+  );
+
+  const saveAccess = async (removePassword = false) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const expires_at = expiryDate ? endOfDay(parseISO(expiryDate)) : null;
+      await updateShareAccess(type, shareId, {
+        expires_at,
+        password: removePassword ? null : password || undefined
+      });
+      setPassword('');
+      setIsProtected(removePassword ? false : isProtected || !!password);
+      onAccessUpdated?.({ expires_at });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update share access');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isExpired = !!expiresAt && expiresAt.getTime() <= Date.now();
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      {error && <Alert severity="error">{error}</Alert>}
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+        <Chip
+          size="small"
+          icon={<ViewIcon />}
+          label={`${viewCount ?? views.length} view${(viewCount ?? views.length) === 1 ? '' : 's'}`}
+        />
+        {views.length > 0 && (
+          <Chip size="small" variant="outlined" label={`${uniqueVisitors} unique visitor${uniqueVisitors === 1 ? '' : 's'}`} />
+        )}
+        {expiresAt && (
+          <Chip
+            size="small"
+            icon={<ExpiryIcon />}
+            color={isExpired ? 'error' : 'default'}
+            label={isExpired ? 'Expired' : `Expires ${format(expiresAt, 'MMM d, yyyy')}`}
+          />
+        )}
+        {isProtected && <Chip size="small" icon={<LockIcon />} color="primary" label="Password protected" />}
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 2 }}>
+        <TextField
+          label="Expires on"
+          type="date"
+          size="small"
+          value={expiryDate}
+          onChange={(e) => setExpiryDate(e.target.value)}
+          fullWidth
+          helperText="Leave empty to never expire"
+          slotProps={{ inputLabel: { shrink: true } }}
+        />
+        <TextField
+          label={isProtected ? 'New password' : 'Password'}
+          type="password"
+          size="small"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          fullWidth
+          helperText={isProtected ? 'Leave empty to keep the current one' : 'Optional'}
+          autoComplete="new-password"
+        />
+      </Box>
+
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+        {isProtected && (
+          <Button size="small" color="error" onClick={() => saveAccess(true)} disabled={isSaving}>
+            Remove password
+          </Button>
+        )}
+        <Button
+          size="small"
+          variant="outlined"
+          onClick={() => saveAccess()}
+          disabled={isSaving}
+          startIcon={isSaving ? <CircularProgress size={14} /> : undefined}
+        >
+          Save access
+        </Button>
+      </Box>
+
+      <Box>
+        <Typography variant="subtitle2" sx={{ mb: 0.5 }}>
+          Access log
+        </Typography>
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+            <CircularProgress size={20} />
+          </Box>
+        ) : views.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No views yet.
+          </Typography>
+        ) : (
+          <List
+            dense
+            disablePadding
+            sx={{
+              maxHeight: 220,
+              overflowY: 'auto',
+              borderRadius: 1,
+              bgcolor: theme => alpha(theme.palette.text.primary, 0.03)
+            }}
+          >
+            {views.map(view => (
+              <ListItem key={view.id} divider>
+                <ListItemText
+                  primary={`${format(view.viewed_at, 'MMM d, yyyy HH:mm')} · ${describeReferrer(view.referrer)}`}
+                  secondary={`${formatDistanceToNow(view.viewed_at, { addSuffix: true })}${view.client_hash ? ` · visitor ${view.client_hash.slice(0, 6)}` : ''}`}
+                  slotProps={{ primary: { variant: 'body2' }, secondary: { variant: 'caption' } }}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default ShareAccessPanel;
@@ -21,7 +21,9 @@ import {
   Link as LinkIcon,
   ContentCopy as CopyIcon,
   LinkOff as UnshareIcon,
-  Close as CloseIcon
+  Close as CloseIcon,
+  Shield as PrivacyIcon,
+  Groups as CommunityIcon
 } from '@mui/icons-material';
 import { Trade, Calendar } from '../../types/dualWrite';
 import { useAuthState } from '../../contexts/AuthStateContext';
@@ -33,6 +35,10 @@ import {
   generateCalendarShareLink
 } from '../../services/sharingService';
 import { Z_INDEX } from '../../styles/zIndex';
+import { SharePrivacySettings } from '../../types/sharing';
+import SharePrivacyDialog from './SharePrivacyDialog';
+import ShareAccessPanel from './ShareAccessPanel';
+import CommunityProfileDialog from '../community/CommunityProfileDialog';
 
 // Generic interface for shareable items
 interface ShareableItem {
@@ -84,6 +90,9 @@ const ShareButton: React.FC<ShareButtonProps> = (props) => {
   const [isSharing, setIsSharing] = useState(false);
   const [shareDialogOpen, setShareDialogOpen] = useState(false);
   const [shareLink, setShareLink] = useState<string>('');
+  const [activeShareId, setActiveShareId] = useState<string | null>(null);
+  const [privacyDialogOpen, setPrivacyDialogOpen] = useState(false);
+  const [communityDialogOpen, setCommunityDialogOpen] = useState(false);
 
   const handleClick = (event: React.MouseEvent<HTMLElement>) => {
     event.stopPropagation(); // Prevent event from bubbling up to parent components
@@ -102,6 +111,7 @@ const ShareButton: React.FC<ShareButtonProps> = (props) => {
       // Check if item already has a share link
       if (item.share_link && item.is_shared) {
         setShareLink(item.share_link);
+        setActiveShareId(item.share_id || null);
         setShareDialogOpen(true);
         setIsSharing(false);
         return;
@@ -142,6 +152,7 @@ const ShareButton: React.FC<ShareButtonProps> = (props) => {
       }
 
       setShareLink(shareLink);
+      setActiveShareId(data.shareId);
       setShareDialogOpen(true);
     } catch (error) {
       logger.error(`Error sharing ${type}:`, error);
@@ -199,6 +210,28 @@ const ShareButton: React.FC<ShareButtonProps> = (props) => {
     }
   };
 
+  // Keep the item's copy of the expiry in sync so later saves of the item do not revert it
+  const handleAccessUpdated = async ({ expires_at }: { expires_at: Date | null }) => {
+    if (!onUpdateItemProperty) return;
+    try {
+      await onUpdateItemProperty(item.id, (currentItem: any) => ({
+        ...currentItem,
+        share_expires_at: expires_at
+      }));
+    } catch (error) {
+      logger.error(`Error updating ${type} share expiry:`, error);
+    }
+  };
+
+  const handleSavePrivacySettings = async (settings: SharePrivacySettings | null) => {
+    const updateCalendar = (props as ShareCalendarProps).onUpdateItemProperty;
+    if (type !== 'calendar' || !updateCalendar) return;
+    await updateCalendar(item.id, (currentItem) => ({
+      ...currentItem,
+      share_settings: settings
+    }));
+  };
+
   const isCurrentlyShared = item.is_shared && item.share_link;
   const itemDisplayName = type === 'trade' ? 'trade' : 'calendar';
   const tooltipText = isCurrentlyShared ? "Manage sharing" : `Share ${itemDisplayName}`;
@@ -249,6 +282,7 @@ const ShareButton: React.FC<ShareButtonProps> = (props) => {
             [
               <MenuItem key="copy" onClick={() => {
                 setShareLink(item.share_link!);
+                setActiveShareId(item.share_id || null);
                 setShareDialogOpen(true);
                 handleClose();
               }}>
@@ -265,8 +299,49 @@ const ShareButton: React.FC<ShareButtonProps> = (props) => {
               </MenuItem>
             ]
           )}
+          {type === 'calendar' && onUpdateItemProperty && (
+            <MenuItem onClick={() => {
+              setPrivacyDialogOpen(true);
+              handleClose();
+            }}>
+              <ListItemIcon>
+                <PrivacyIcon fontSize="small" color={(item as Calendar).share_settings ? 'primary' : 'inherit'} />
+              </ListItemIcon>
+              <ListItemText>Privacy settings</ListItemText>
+            </MenuItem>
+          )}
+          {type === 'calendar' && isCurrentlyShared && (
+            <MenuItem onClick={() => {
+              setCommunityDialogOpen(true);
+              handleClose();
+            }}>
+              <ListItemIcon>
+                <CommunityIcon fontSize="small" />
+              </ListItemIcon>
+              <ListItemText>Community profile</ListItemText>
+            </MenuItem>
+          )}
         </Menu>
 
+        {type === 'calendar' && (
+          <SharePrivacyDialog
+            open={privacyDialogOpen}
+            settings={(item as Calendar).share_settings}
+            allTags={(item as Calendar).tags || []}
+            hasRiskPerTrade={!!(item as Calendar).risk_per_trade}
+            onClose={() => setPrivacyDialogOpen(false)}
+            onSave={handleSavePrivacySettings}
+          />
+        )}
+
+        {type === 'calendar' && isCurrentlyShared && (
+          <CommunityProfileDialog
+            open={communityDialogOpen}
+            calendar={item as Calendar}
+            onClose={() => setCommunityDialogOpen(false)}
+          />
+        )}
+
         {/* Share Link Dialog for Trade */}
         <Dialog
           open={shareDialogOpen}
@@ -276,7 +351,7 @@ const ShareButton: React.FC<ShareButtonProps> = (props) => {
           fullWidth
           sx={{ zIndex: Z_INDEX.TOOLTIP }}
         >
-          <DialogTitle>Share Trade</DialogTitle>
+          <DialogTitle>Share {type === 'trade' ? 'Trade' : 'Calendar'}</DialogTitle>
           <DialogContent>
             <Box sx={{ mb: 2 }}>
               <Typography variant="body2" color="text.secondary" gutterBottom>
@@ -295,6 +370,15 @@ const ShareButton: React.FC<ShareButtonProps> = (props) => {
                 sx={{ mt: 1 }}
               />
             </Box>
+            {activeShareId && (
+              <ShareAccessPanel
+                type={type}
+                shareId={activeShareId}
+                viewCount={item.share_view_count}
+                expiresAt={item.share_expires_at}
+                onAccessUpdated={handleAccessUpdated}
+              />
+            )}
           </DialogContent>
           <DialogActions>
             <Button onClick={() => setShareDialogOpen(false)}>
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import { Lock as LockIcon } from '@mui/icons-material';
+
+interface SharePasswordPromptProps {
+  itemType: 'calendar' | 'trade';
+  error?: string | null;
+  isSubmitting?: boolean;
+  onSubmit: (password: string) => void;
+}
+
+/**
+ * Password form shown in place of a password-protected shared calendar or trade
+ */
+const SharePasswordPrompt: React.FC<SharePasswordPromptProps> = ({
+  itemType,
+  error,
+  isSubmitting = false,
+  onSubmit
+}) => {
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) onSubmit(password);
+  };
+
+  return (
+    <Paper
+      component="form"
+      onSubmit={handleSubmit}
+      sx={{ p: 4, maxWidth: 420, mx: 'auto', textAlign: 'center', borderRadius: 2 }}
+    >
+      <LockIcon color="primary" sx={{ fontSize: 40, mb: 1 }} />
+      <Typography variant="h6" gutterBottom>
+        Password required
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        The owner protected this shared {itemType} with a password.
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2, textAlign: 'left' }}>{error}</Alert>}
+
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        <TextField
+          type="password"
+          label="Password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoFocus
+          fullWidth
+        />
+        <Button
+          type="submit"
+          variant="contained"
+          disabled={!password || isSubmitting}
+          startIcon={isSubmitting ? <CircularProgress size={16} color="inherit" /> : undefined}
+        >
+          View {itemType}
+        </Button>
+      </Box>
+    </Paper>
+  );
+};
+
+export default SharePasswordPrompt;
@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Switch,
+  FormControlLabel,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Alert,
+  Autocomplete,
+  Chip,
+  useTheme
+} from '@mui/material';
+import { BaseDialog } from '../common';
+import { DEFAULT_SHARE_PRIVACY_SETTINGS, SharePrivacySettings } from '../../types/sharing';
+import { formatTagForDisplay, getTagChipStyles } from '../../utils/tagColors';
+import { logger } from '../../utils/logger';
+import { Z_INDEX } from '../../styles/zIndex';
+
+interface SharePrivacyDialogProps {
+  open: boolean;
+  settings?: SharePrivacySettings | null;
+  allTags: string[];
+  hasRiskPerTrade: boolean;
+  onClose: () => void;
+  onSave: (settings: SharePrivacySettings | null) => Promise<void>;
+}
+
+/**
+ * Whether the settings restrict anything; unrestricted shares are saved as null
+ */
+const isRestricted = (settings: SharePrivacySettings): boolean =>
+  settings.hide_amounts ||
+  settings.strip_notes ||
+  settings.strip_images ||
+  !!settings.start_date ||
+  !!settings.end_date ||
+  (settings.tags?.length ?? 0) > 0;
+
+const SharePrivacyDialog: React.FC<SharePrivacyDialogProps> = ({
+  open,
+  settings,
+  allTags,
+  hasRiskPerTrade,
+  onClose,
+  onSave
+}) => {
+  const theme = useTheme();
+  const [form, setForm] = useState<SharePrivacySettings>(DEFAULT_SHARE_PRIVACY_SETTINGS);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the saved settings whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setForm({ ...DEFAULT_SHARE_PRIVACY_SETTINGS, ...(settings || {}) });
+    setError(null);
+  }, [open, settings]);
+
+  const updateForm = (changes: Partial<SharePrivacySettings>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+
+    if (form.start_date && form.end_date && form.start_date > form.end_date) {
+      setError('Start date must be before the end date');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const saved: SharePrivacySettings = {
+        ...form,
+        start_date: form.start_date || null,
+        end_date: form.end_date || null,
+        tags: form.tags || []
+      };
+      await onSave(isRestricted(saved) ? saved : null);
+      onClose();
+    } catch (err) {
+      logger.error('Error saving share privacy settings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save privacy settings');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <BaseDialog
+      open={open}
+      onClose={() => !isSubmitting && onClose()}
+      onClick={(e) => e.stopPropagation()}
+      maxWidth="sm"
+      fullWidth
+      title="Share Privacy"
+      primaryButtonText={isSubmitting ? 'Saving...' : 'Save'}
+      primaryButtonAction={handleSubmit}
+      isSubmitting={isSubmitting}
+      cancelButtonAction={onClose}
+      hideCloseButton={isSubmitting}
+    >
+      <Box component="form" onSubmit={handleSubmit} sx={{ display: 'flex', flexDirection: 'column', gap: 2.5, mt: 1 }}>
+        <Typography variant="body2" color="text.secondary">
+          Choose what people with the share link can see. Hidden data is removed on the server before the
+          calendar is sent, so it never reaches the viewer.
+        </Typography>
+
+        {error && <Alert severity="error">{error}</Alert>}
+
+        <Box>
+          <FormControlLabel
+            control={<Switch checked={form.hide_amounts} onChange={(e) => updateForm({ hide_amounts: e.target.checked })} />}
+            label="Hide dollar amounts and account balance"
+          />
+          {form.hide_amounts && (
+            <FormControl fullWidth size="small" sx={{ mt: 1.5 }}>
+              <InputLabel id="share-amount-display-label">Show amounts as</InputLabel>
+              <Select
+                labelId="share-amount-display-label"
+                value={form.amount_display}
+                label="Show amounts as"
+                onChange={(e) => updateForm({ amount_display: e.target.value as SharePrivacySettings['amount_display'] })}
+                MenuProps={{ sx: { zIndex: Z_INDEX.DIALOG_POPUP } }}
+              >
+                <MenuItem value="percentage">% of account balance</MenuItem>
+                <MenuItem value="r" disabled={!hasRiskPerTrade}>
+                  R multiples{hasRiskPerTrade ? '' : ' (set a risk per trade first)'}
+                </MenuItem>
+              </Select>
+            </FormControl>
+          )}
+        </Box>
+
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', columnGap: 3 }}>
+          <FormControlLabel
+            control={<Switch checked={form.strip_notes} onChange={(e) => updateForm({ strip_notes: e.target.checked })} />}
+            label="Hide notes"
+          />
+          <FormControlLabel
+            control={<Switch checked={form.strip_images} onChange={(e) => updateForm({ strip_images: e.target.checked })} />}
+            label="Hide images"
+          />
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <TextField
+            label="From"
+            type="date"
+            value={form.start_date || ''}
+            onChange={(e) => updateForm({ start_date: e.target.value })}
+            fullWidth
+            helperText="Leave empty to share from the first trade"
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+          <TextField
+            label="To"
+            type="date"
+            value={form.end_date || ''}
+            onChange={(e) => updateForm({ end_date: e.target.value })}
+            fullWidth
+            helperText="Leave empty for no end date"
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+        </Box>
+
+        <Autocomplete
+          multiple
+          options={allTags}
+          value={form.tags || []}
+          onChange={(_, newValue) => updateForm({ tags: newValue })}
+          slotProps={{ popper: { sx: { zIndex: Z_INDEX.DIALOG_POPUP } } }}
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              label="Only trades tagged"
+              placeholder={(form.tags?.length ?? 0) > 0 ? '' : 'All tags'}
+              helperText="Trades with at least one of these tags are shared"
+            />
+          )}
+          renderTags={(value, getTagProps) =>
+            value.map((option, index) => (
+              <Chip
+                label={formatTagForDisplay(option, true)}
+                {...getTagProps({ index })}
+                sx={getTagChipStyles(option, theme)}
+              />
+            ))
+          }
+          getOptionLabel={(option) => formatTagForDisplay(option)}
+        />
+      </Box>
+    </BaseDialog>
+  );
+};
+
+export default SharePrivacyDialog;
@@ -0,0 +1,86 @@
+import React from 'react';
+import {
+  Box,
+  Container,
+  Alert,
+  Typography
+} from '@mui/material';
+import { format } from 'date-fns';
+import { TradeCalendar } from '../../pages/TradeCalendarPage';
+import { Trade, Calendar } from '../../types/dualWrite';
+import { ShareAmountUnit } from '../../types/sharing';
+
+export interface SharedCalendarData {
+  calendar: Calendar;
+  trades: Trade[];
+  shareInfo: {
+    id: string;
+    createdAt: Date;
+    viewCount: number;
+    userId: string;
+    restricted: boolean;
+    amountUnit: ShareAmountUnit;
+    expiresAt: Date | null;
+  };
+}
+
+interface SharedCalendarContentProps {
+  calendarData: SharedCalendarData;
+  mode: 'light' | 'dark';
+  onToggleTheme: () => void;
+  setLoading: (loading: boolean, action?: 'loading' | 'importing' | 'exporting') => void;
+}
+
+const AMOUNT_UNIT_DESCRIPTION: Record<ShareAmountUnit, string> = {
+  currency: '',
+  percentage: 'Amounts are shown as a percentage of the account balance.',
+  r: 'Amounts are shown in R (multiples of the risk per trade).'
+};
+
+/**
+ * Read-only calendar of a share link, used by SharedCalendarPage and community profiles
+ * The caller loads the data and sets the amount unit before rendering
+ */
+const SharedCalendarContent: React.FC<SharedCalendarContentProps> = ({
+  calendarData,
+  mode,
+  onToggleTheme,
+  setLoading
+}) => {
+  const { shareInfo } = calendarData;
+
+  return (
+    <>
+      {shareInfo.restricted && (
+        <Container maxWidth="lg" sx={{ pt: 2 }}>
+          <Alert severity="info">
+            The owner shared a limited view of this calendar. {AMOUNT_UNIT_DESCRIPTION[shareInfo.amountUnit]}
+          </Alert>
+        </Container>
+      )}
+
+      {/* Calendar Content - Using TradeCalendar in read-only mode */}
+      {/* Trades come from get-shared-calendar, with the share's privacy settings applied */}
+      <TradeCalendar
+        calendar={calendarData.calendar}
+        setLoading={setLoading}
+        onToggleTheme={onToggleTheme}
+        mode={mode}
+        isReadOnly={true}
+        preloadedTrades={calendarData.trades}
+      />
+
+      {/* Share Statistics */}
+      <Container maxWidth="lg" sx={{ py: 2 }}>
+        <Box sx={{ textAlign: 'center' }}>
+          <Typography variant="caption" color="text.secondary">
+            This calendar has been viewed {shareInfo.viewCount} time{shareInfo.viewCount !== 1 ? 's' : ''}
+            {shareInfo.expiresAt && ` · Link expires ${format(shareInfo.expiresAt, 'MMMM d, yyyy')}`}
+          </Typography>
+        </Box>
+      </Container>
+    </>
+  );
+};
+
+export default SharedCalendarContent;
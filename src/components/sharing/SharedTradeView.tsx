@@ -18,6 +18,8 @@ import ImageZoomDialog, { ImageZoomProp } from '../ImageZoomDialog';
 import { logger } from '../../utils/logger';
 import { getSharedTrade, SharedTradeData } from '../../services/sharingService';
 import { TradeOperationsProps } from '../../types/tradeOperations';
+import { SHARE_ACCESS_ERROR_CODES } from '../../types/sharing';
+import SharePasswordPrompt from './SharePasswordPrompt';
 
 interface SharedTradeViewProps {
   shareId: string;
@@ -27,6 +29,7 @@ interface ProcessedSharedTradeData {
   trade: Trade;
   viewCount: number;
   sharedAt: Date;
+  expiresAt: Date | null;
 }
 
 const SharedTradeView: React.FC<SharedTradeViewProps> = ({ shareId }) => {
@@ -35,12 +38,18 @@ const SharedTradeView: React.FC<SharedTradeViewProps> = ({ shareId }) => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [zoomedImages, setZoomedImages] = useState<ImageZoomProp | null>(null);
+  const [password, setPassword] = useState<string | undefined>(undefined);
+  const [passwordRequired, setPasswordRequired] = useState(false);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  // Bumped on every submit so retrying the same password refetches
+  const [passwordAttempt, setPasswordAttempt] = useState(0);
 
   useEffect(() => {
     const loadSharedTrade = async () => {
       try {
         setLoading(true);
-        const data = await getSharedTrade(shareId);
+        setError(null);
+        const data = await getSharedTrade(shareId, password);
 
         if (!data || !data.trade) {
           setError('Shared trade not found or no longer available');
@@ -89,11 +98,25 @@ const SharedTradeView: React.FC<SharedTradeViewProps> = ({ shareId }) => {
           trade: {
             ...data.trade},
           viewCount: data.viewCount || 0,
-          sharedAt: convertToDate(data.sharedAt)
+          sharedAt: convertToDate(data.sharedAt),
+          expiresAt: data.expiresAt
         });
-      } catch (err) {
+        setPasswordRequired(false);
+      } catch (err: any) {
         logger.error('Error loading shared trade:', err);
-        setError('Failed to load shared trade');
+        if (err?.code === SHARE_ACCESS_ERROR_CODES.PASSWORD_REQUIRED) {
+          setPasswordRequired(true);
+        } else if (err?.code === SHARE_ACCESS_ERROR_CODES.INCORRECT_PASSWORD) {
+          setPasswordRequired(true);
+          setPasswordError('Incorrect password. Please try again.');
+        } else if (err?.code === SHARE_ACCESS_ERROR_CODES.TOO_MANY_ATTEMPTS) {
+          setPasswordRequired(true);
+          setPasswordError('Too many attempts. Please wait a few minutes and try again.');
+        } else if (err?.code === SHARE_ACCESS_ERROR_CODES.EXPIRED) {
+          setError('This share link has expired. Ask the owner for a new link.');
+        } else {
+          setError('Failed to load shared trade');
+        }
       } finally {
         setLoading(false);
       }
@@ -102,7 +125,26 @@ const SharedTradeView: React.FC<SharedTradeViewProps> = ({ shareId }) => {
     if (shareId) {
       loadSharedTrade();
     }
-  }, [shareId]);
+  }, [shareId, password, passwordAttempt]);
+
+  const handlePasswordSubmit = (value: string) => {
+    setPasswordError(null);
+    setPassword(value);
+    setPasswordAttempt(attempt => attempt + 1);
+  };
+
+  if (passwordRequired) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <SharePasswordPrompt
+          itemType="trade"
+          error={passwordError}
+          isSubmitting={loading}
+          onSubmit={handlePasswordSubmit}
+        />
+      </Box>
+    );
+  }
 
   if (loading) {
     return (
@@ -122,7 +164,7 @@ const SharedTradeView: React.FC<SharedTradeViewProps> = ({ shareId }) => {
     );
   }
 
-  const { trade, viewCount, sharedAt } = sharedTrade;
+  const { trade, viewCount, sharedAt, expiresAt } = sharedTrade;
 
   return (
     <Box sx={{
@@ -175,6 +217,7 @@ const SharedTradeView: React.FC<SharedTradeViewProps> = ({ shareId }) => {
         
         <Typography variant="body2" color="text.secondary">
           Shared on {sharedAt && !isNaN(sharedAt.getTime()) ? format(sharedAt, 'MMMM d, yyyy') : 'Unknown date'}
+          {expiresAt && ` · Link expires ${format(expiresAt, 'MMMM d, yyyy')}`}
         </Typography>
       </Paper>
 
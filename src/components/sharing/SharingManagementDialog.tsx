@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  IconButton,
+  Tooltip,
+  Chip,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import {
+  ExpandMore as ExpandMoreIcon,
+  ContentCopy as CopyIcon,
+  LinkOff as UnshareIcon,
+  CalendarMonth as CalendarIcon,
+  ShowChart as TradeIcon,
+  Lock as LockIcon,
+  Visibility as ViewIcon
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import { BaseDialog } from '../common';
+import ConfirmationDialog from '../common/ConfirmationDialog';
+import { SharedItemSummary } from '../../types/sharing';
+import {
+  getSharedItems,
+  deactivateCalendarShareLink,
+  deactivateTradeShareLink
+} from '../../services/sharingService';
+import { logger } from '../../utils/logger';
+import { Z_INDEX } from '../../styles/zIndex';
+import ShareAccessPanel from './ShareAccessPanel';
+
+interface SharingManagementDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Every calendar and trade the user shares, with views, expiry, password and access log
+ */
+const SharingManagementDialog: React.FC<SharingManagementDialogProps> = ({ open, onClose }) => {
+  const [items, setItems] = useState<SharedItemSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedShareId, setExpandedShareId] = useState<string | null>(null);
+  const [itemToUnshare, setItemToUnshare] = useState<SharedItemSummary | null>(null);
+  const [isUnsharing, setIsUnsharing] = useState(false);
+
+  const loadItems = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setItems(await getSharedItems());
+    } catch (err) {
+      logger.error('Error loading shared items:', err);
+      setError('Failed to load your shared links');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) loadItems();
+  }, [open, loadItems]);
+
+  const handleCopy = async (item: SharedItemSummary) => {
+    try {
+      await navigator.clipboard.writeText(item.share_link);
+    } catch (err) {
+      logger.error('Error copying to clipboard:', err);
+    }
+  };
+
+  const handleUnshare = async () => {
+    if (!itemToUnshare) return;
+    setIsUnsharing(true);
+    try {
+      if (itemToUnshare.type === 'calendar') {
+        await deactivateCalendarShareLink(itemToUnshare.share_id);
+      } else {
+        await deactivateTradeShareLink(itemToUnshare.share_id);
+      }
+      setItems(prev => prev.filter(item => item.share_id !== itemToUnshare.share_id));
+      setItemToUnshare(null);
+    } catch (err) {
+      logger.error('Error stopping share:', err);
+      setError('Failed to stop sharing');
+    } finally {
+      setIsUnsharing(false);
+    }
+  };
+
+  const totalViews = items.reduce((sum, item) => sum + item.view_count, 0);
+
+  return (
+    <>
+      <BaseDialog
+        open={open}
+        onClose={onClose}
+        maxWidth="md"
+        fullWidth
+        title="Shared Links"
+        cancelButtonAction={onClose}
+      >
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          {error && <Alert severity="error">{error}</Alert>}
+
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : items.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+              You are not sharing any calendars or trades.
+            </Typography>
+          ) : (
+            <>
+              <Typography variant="body2" color="text.secondary">
+                {items.length} shared link{items.length === 1 ? '' : 's'} · {totalViews} view{totalViews === 1 ? '' : 's'} in total
+              </Typography>
+
+              <Box>
+                {items.map(item => {
+                  const isExpired = !!item.expires_at && item.expires_at.getTime() <= Date.now();
+                  return (
+                    <Accordion
+                      key={item.share_id}
+                      expanded={expandedShareId === item.share_id}
+                      onChange={(_, expanded) => setExpandedShareId(expanded ? item.share_id : null)}
+                      disableGutters
+                      slotProps={{ transition: { unmountOnExit: true } }}
+                    >
+                      <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, width: '100%', minWidth: 0 }}>
+                          {item.type === 'calendar'
+                            ? <CalendarIcon fontSize="small" color="primary" />
+                            : <TradeIcon fontSize="small" color="secondary" />}
+                          <Box sx={{ flex: 1, minWidth: 0 }}>
+                            <Typography variant="body2" noWrap sx={{ fontWeight: 600 }}>
+                              {item.name}
+                            </Typography>
+                            <Typography variant="caption" color="text.secondary">
+                              {item.shared_at ? `Shared ${format(item.shared_at, 'MMM d, yyyy')}` : 'Shared'}
+                              {item.expires_at && ` · ${isExpired ? 'Expired' : 'Expires'} ${format(item.expires_at, 'MMM d, yyyy')}`}
+                            </Typography>
+                          </Box>
+                          {item.password_protected && (
+                            <Tooltip title="Password protected">
+                              <LockIcon fontSize="small" color="action" />
+                            </Tooltip>
+                          )}
+                          <Chip size="small" icon={<ViewIcon />} label={item.view_count} />
+                          <Tooltip title="Copy link">
+                            <IconButton size="small" onClick={(e) => { e.stopPropagation(); handleCopy(item); }}>
+                              <CopyIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title="Stop sharing">
+                            <IconButton size="small" onClick={(e) => { e.stopPropagation(); setItemToUnshare(item); }}>
+                              <UnshareIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        </Box>
+                      </AccordionSummary>
+                      <AccordionDetails>
+                        <ShareAccessPanel
+                          type={item.type}
+                          shareId={item.share_id}
+                          viewCount={item.view_count}
+                          expiresAt={item.expires_at}
+                          onAccessUpdated={loadItems}
+                        />
+                      </AccordionDetails>
+                    </Accordion>
+                  );
+                })}
+              </Box>
+            </>
+          )}
+        </Box>
+      </BaseDialog>
+
+      <ConfirmationDialog
+        open={!!itemToUnshare}
+        title="Stop sharing"
+        message={`Anyone with the link to "${itemToUnshare?.name}" will lose access. The access log is kept.`}
+        confirmText="Stop sharing"
+        confirmColor="error"
+        onConfirm={handleUnshare}
+        onCancel={() => setItemToUnshare(null)}
+        isSubmitting={isUnsharing}
+        sx={{ zIndex: Z_INDEX.LOADING_PROGRESS }}
+      />
+    </>
+  );
+};
+
+export default SharingManagementDialog;
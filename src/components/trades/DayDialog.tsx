@@ -12,6 +12,7 @@ import { DayHeader, TradeList, ProgressSection } from './';
 import { startOfNextDay } from './TradeFormDialog';
 import { calculateCumulativePnLToDateAsync } from '../../utils/dynamicRiskUtils';
 import { TradeOperationsProps } from '../../types/tradeOperations';
+import { ChallengeEvaluation } from '../../types/challenge';
 import { TradeRepository } from '../../services/repository/repositories/TradeRepository';
 import { logger } from '../../utils/logger';
 
@@ -30,6 +31,8 @@ interface DayDialogProps {
   onOpenAIChatMode?: (trades: Trade[], tradeId: string, title?: string) => void;
   // Optional pre-fetched trades for the week (avoids redundant DB query in ProgressSection)
   weekTrades?: Trade[];
+  // Prop-firm challenge status shown in the progress section
+  challengeEvaluation?: ChallengeEvaluation | null;
 }
 
 
@@ -46,7 +49,8 @@ const DayDialog: React.FC<DayDialogProps> = ({
   onDateChange,
   tradeOperations,
   onOpenAIChatMode,
-  weekTrades
+  weekTrades,
+  challengeEvaluation
 }) => {
   // Destructure from tradeOperations
   const {
@@ -209,6 +213,7 @@ const DayDialog: React.FC<DayDialogProps> = ({
               currentDate={date}
               calendar={calendar}
               weekTrades={weekTrades}
+              challengeEvaluation={challengeEvaluation}
             />
           )}
 
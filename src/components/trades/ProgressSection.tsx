@@ -14,6 +14,8 @@ import {
 import { alpha } from '@mui/material/styles';
 import { format, startOfDay, startOfWeek, endOfWeek } from 'date-fns';
 import { Trade, Calendar } from '../../types/dualWrite';
+import { ChallengeEvaluation } from '../../types/challenge';
+import ChallengeRulesSummary from '../ChallengeRulesSummary';
 import { TradeRepository } from '../../services/repository/repositories/TradeRepository';
 import { calculateCumulativePnLToDateAsync } from '../../utils/dynamicRiskUtils';
 import { logger } from '../../utils/logger';
@@ -24,6 +26,7 @@ interface ProgressSectionProps {
   currentDate: Date; // The date to determine which week to show progress for
   calendar: Calendar; // Calendar data to get targets from
   weekTrades?: Trade[]; // Optional pre-fetched trades for the week (avoids redundant DB query)
+  challengeEvaluation?: ChallengeEvaluation | null; // Prop-firm challenge status, when tracking is on
 }
 
 interface MotivationalTip {
@@ -119,7 +122,8 @@ const ProgressSection: React.FC<ProgressSectionProps> = ({
   currentBalance,
   currentDate,
   calendar,
-  weekTrades: weekTradesProp
+  weekTrades: weekTradesProp,
+  challengeEvaluation
 }) => {
   // State - only used when weekTradesProp is not provided
   const [weekTradesState, setWeekTrades] = useState<Trade[]>([]);
@@ -216,8 +220,10 @@ const ProgressSection: React.FC<ProgressSectionProps> = ({
     );
   }, [profitTarget, totalPnL, riskAmountDollars]);
 
+  const hasWeeklyTarget = !!weeklyTargetPercentage && !!accountBalance;
+
   // Don't render if no targets are set
-  if (!weeklyTargetPercentage || !accountBalance) {
+  if (!hasWeeklyTarget && !challengeEvaluation) {
     return null;
   }
 
@@ -235,177 +241,188 @@ const ProgressSection: React.FC<ProgressSectionProps> = ({
         Progress
       </Typography>
 
-      {/* Traded Days Progress */}
-      <Box sx={{ mb: 3 }}>
-        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
-          {tradedDaysReached ? (
-            <CheckIcon sx={{ color: 'success.main', fontSize: 20 }} />
-          ) : (
-            <CalendarMonthOutlined  />
-          )}
-          <Typography variant="body2" sx={{ color: 'text.secondary' }}>
-            Traded days
-          </Typography>
-        </Box>
-        <LinearProgress
-          variant="determinate"
-          value={tradedDaysProgress}
-          sx={{
-            height: 8,
-            borderRadius: 1,
-            backgroundColor: 'rgba(255, 255, 255, 0.1)',
-            '& .MuiLinearProgress-bar': {
-              backgroundColor: tradedDaysReached ? 'success.main' : 'primary.main',
-              borderRadius: 1
-            }
-          }}
-        />
-        <Typography variant="body1" sx={{ mt: 0.5, fontWeight: 600 }}>
-          {displayedTradedDays} / {tradedDaysTarget}
-        </Typography>
-      </Box>
-
-      {/* Profit Target Progress */}
-      <Box>
-        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
-          {profitTargetReached ? (
-            <CheckIcon sx={{ color: 'success.main', fontSize: 20 }} />
-          ) : (
-             <Timelapse  />
-          )}
-          <Typography variant="body2" sx={{ color: 'text.secondary' }}>
-            Reach your profit target of ${profitTarget.toLocaleString()}
-          </Typography>
+      {/* Challenge Rules */}
+      {challengeEvaluation && (
+        <Box sx={{ mb: hasWeeklyTarget ? 3 : 0 }}>
+          <ChallengeRulesSummary evaluation={challengeEvaluation} />
         </Box>
-        <LinearProgress
-          variant="determinate"
-          value={profitProgress}
-          sx={{
-            height: 8,
-            borderRadius: 1,
-            backgroundColor: 'rgba(255, 255, 255, 0.1)',
-            '& .MuiLinearProgress-bar': {
-              backgroundColor: profitTargetReached ? 'success.main' : 'primary.main',
-              borderRadius: 1
-            }
-          }}
-        />
-        <Typography
-          variant="body1"
-          sx={{
-            mt: 0.5,
-            fontWeight: 600,
-            color: totalPnL >= 0 ? 'success.main' : 'error.main'
-          }}
-        >
-          ${displayedPnL.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} / ${profitTarget.toLocaleString()}
-        </Typography>
-      </Box>
-
-      {/* Motivational Tip Section */}
-      {motivationalTip && (
-        <Box
-          sx={{
-            mt: 3,
-            p: 2,
-            borderRadius: 1,
-            backgroundColor: (theme) => alpha(theme.palette.warning.main, 0.15),
-            border: '1px solid',
-            borderColor: (theme) => alpha(theme.palette.warning.main, 0.3)
-          }}
-        >
-          <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1.5 }}>
-            <TipsAndUpdates
+      )}
+
+      {hasWeeklyTarget && (
+        <>
+          {/* Traded Days Progress */}
+          <Box sx={{ mb: 3 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              {tradedDaysReached ? (
+                <CheckIcon sx={{ color: 'success.main', fontSize: 20 }} />
+              ) : (
+                <CalendarMonthOutlined  />
+              )}
+              <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+                Traded days
+              </Typography>
+            </Box>
+            <LinearProgress
+              variant="determinate"
+              value={tradedDaysProgress}
               sx={{
-                color: 'warning.main',
-                fontSize: 22,
-                mt: 0.25
+                height: 8,
+                borderRadius: 1,
+                backgroundColor: 'rgba(255, 255, 255, 0.1)',
+                '& .MuiLinearProgress-bar': {
+                  backgroundColor: tradedDaysReached ? 'success.main' : 'primary.main',
+                  borderRadius: 1
+                }
               }}
             />
-            <Box sx={{ flex: 1 }}>
-              {/* Trade indicators when available */}
-              {motivationalTip.trades ? (
-                <>
-                  {/* Main message: "You need at least X trades" */}
-                  <Typography
-                    variant="body2"
-                    sx={{
-                      fontWeight: 600,
-                      color: 'text.primary',
-                      mb: 1
-                    }}
-                  >
-                    {motivationalTip.message}
-                  </Typography>
-                  {/* Trade breakdown with badges */}
-                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5, flexWrap: 'wrap' }}>
-                    {/* 2R trade indicators */}
-                    {Array.from({ length: motivationalTip.trades.r2 }).map((_, i) => (
-                      <Box
-                        key={`r2-${i}`}
-                        sx={{
-                          px: 0.75,
-                          py: 0.25,
-                          borderRadius: 1,
-                          backgroundColor: 'success.main',
-                          color: 'success.contrastText',
-                          fontSize: '0.6rem',
-                          fontWeight: 600
-                        }}
-                      >
-                        2R
-                      </Box>
-                    ))}
-                    {/* 1R trade indicators */}
-                    {Array.from({ length: motivationalTip.trades.r1 }).map((_, i) => (
-                      <Box
-                        key={`r1-${i}`}
+            <Typography variant="body1" sx={{ mt: 0.5, fontWeight: 600 }}>
+              {displayedTradedDays} / {tradedDaysTarget}
+            </Typography>
+          </Box>
+
+          {/* Profit Target Progress */}
+          <Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              {profitTargetReached ? (
+                <CheckIcon sx={{ color: 'success.main', fontSize: 20 }} />
+              ) : (
+                 <Timelapse  />
+              )}
+              <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+                Reach your profit target of ${profitTarget.toLocaleString()}
+              </Typography>
+            </Box>
+            <LinearProgress
+              variant="determinate"
+              value={profitProgress}
+              sx={{
+                height: 8,
+                borderRadius: 1,
+                backgroundColor: 'rgba(255, 255, 255, 0.1)',
+                '& .MuiLinearProgress-bar': {
+                  backgroundColor: profitTargetReached ? 'success.main' : 'primary.main',
+                  borderRadius: 1
+                }
+              }}
+            />
+            <Typography
+              variant="body1"
+              sx={{
+                mt: 0.5,
+                fontWeight: 600,
+                color: totalPnL >= 0 ? 'success.main' : 'error.main'
+              }}
+            >
+              ${displayedPnL.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} / ${profitTarget.toLocaleString()}
+            </Typography>
+          </Box>
+
+          {/* Motivational Tip Section */}
+          {motivationalTip && (
+            <Box
+              sx={{
+                mt: 3,
+                p: 2,
+                borderRadius: 1,
+                backgroundColor: (theme) => alpha(theme.palette.warning.main, 0.15),
+                border: '1px solid',
+                borderColor: (theme) => alpha(theme.palette.warning.main, 0.3)
+              }}
+            >
+              <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1.5 }}>
+                <TipsAndUpdates
+                  sx={{
+                    color: 'warning.main',
+                    fontSize: 22,
+                    mt: 0.25
+                  }}
+                />
+                <Box sx={{ flex: 1 }}>
+                  {/* Trade indicators when available */}
+                  {motivationalTip.trades ? (
+                    <>
+                      {/* Main message: "You need at least X trades" */}
+                      <Typography
+                        variant="body2"
                         sx={{
-                          px: 0.75,
-                          py: 0.25,
-                          borderRadius: 1,
-                          backgroundColor: 'primary.main',
-                          color: 'primary.contrastText',
-                          fontSize: '0.6rem',
-                          fontWeight: 600
+                          fontWeight: 600,
+                          color: 'text.primary',
+                          mb: 1
                         }}
                       >
-                        1R
+                        {motivationalTip.message}
+                      </Typography>
+                      {/* Trade breakdown with badges */}
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5, flexWrap: 'wrap' }}>
+                        {/* 2R trade indicators */}
+                        {Array.from({ length: motivationalTip.trades.r2 }).map((_, i) => (
+                          <Box
+                            key={`r2-${i}`}
+                            sx={{
+                              px: 0.75,
+                              py: 0.25,
+                              borderRadius: 1,
+                              backgroundColor: 'success.main',
+                              color: 'success.contrastText',
+                              fontSize: '0.6rem',
+                              fontWeight: 600
+                            }}
+                          >
+                            2R
+                          </Box>
+                        ))}
+                        {/* 1R trade indicators */}
+                        {Array.from({ length: motivationalTip.trades.r1 }).map((_, i) => (
+                          <Box
+                            key={`r1-${i}`}
+                            sx={{
+                              px: 0.75,
+                              py: 0.25,
+                              borderRadius: 1,
+                              backgroundColor: 'primary.main',
+                              color: 'primary.contrastText',
+                              fontSize: '0.6rem',
+                              fontWeight: 600
+                            }}
+                          >
+                            1R
+                          </Box>
+                        ))}
+                        <Typography
+                          variant="caption"
+                          sx={{ color: 'text.secondary', fontWeight: 400, fontSize: '0.7rem' }}
+                        >
+                          to reach your target
+                        </Typography>
                       </Box>
-                    ))}
+                    </>
+                  ) : (
                     <Typography
-                      variant="caption"
-                      sx={{ color: 'text.secondary', fontWeight: 400, fontSize: '0.7rem' }}
+                      variant="body2"
+                      sx={{
+                        fontWeight: 600,
+                        color: 'text.primary',
+                        mb: 0.5
+                      }}
                     >
-                      to reach your target
+                      {motivationalTip.message}
                     </Typography>
-                  </Box>
-                </>
-              ) : (
-                <Typography
-                  variant="body2"
-                  sx={{
-                    fontWeight: 600,
-                    color: 'text.primary',
-                    mb: 0.5
-                  }}
-                >
-                  {motivationalTip.message}
-                </Typography>
-              )}
-              <Typography
-                variant="caption"
-                sx={{
-                  color: 'warning.light',
-                  display: 'block',
-                  mt: 0.5
-                }}
-              >
-                {motivationalTip.subMessage}
-              </Typography>
+                  )}
+                  <Typography
+                    variant="caption"
+                    sx={{
+                      color: 'warning.light',
+                      display: 'block',
+                      mt: 0.5
+                    }}
+                  >
+                    {motivationalTip.subMessage}
+                  </Typography>
+                </Box>
+              </Box>
             </Box>
-          </Box>
-        </Box>
+          )}
+        </>
       )}
     </Paper>
   );
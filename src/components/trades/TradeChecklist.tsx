@@ -0,0 +1,93 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Checkbox,
+  FormControlLabel,
+  LinearProgress,
+  alpha,
+  useTheme
+} from '@mui/material';
+import { FactCheck as ChecklistIcon } from '@mui/icons-material';
+import { TradeChecklistItem } from '../../types/checklist';
+
+interface TradeChecklistProps {
+  items: TradeChecklistItem[];
+  onToggle: (itemId: string, checked: boolean) => void;
+  // Unticked mandatory items block saving the trade
+  blocking?: boolean;
+  disabled?: boolean;
+}
+
+const TradeChecklist: React.FC<TradeChecklistProps> = ({ items, onToggle, blocking = false, disabled = false }) => {
+  const theme = useTheme();
+
+  if (items.length === 0) return null;
+
+  const checkedCount = items.filter(item => item.checked).length;
+  const missingMandatory = items.filter(item => item.mandatory && !item.checked).length;
+
+  return (
+    <Box
+      sx={{
+        mb: 3,
+        p: 2,
+        borderRadius: 2,
+        border: `1px solid ${alpha(missingMandatory > 0 && blocking ? theme.palette.warning.main : theme.palette.divider, 0.4)}`,
+        bgcolor: alpha(theme.palette.primary.main, 0.03)
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <ChecklistIcon sx={{ fontSize: 20, color: 'primary.main' }} />
+        <Typography variant="subtitle2" sx={{ fontWeight: 600, flex: 1 }}>
+          Pre-trade Checklist
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          {checkedCount}/{items.length}
+        </Typography>
+      </Box>
+      <LinearProgress
+        variant="determinate"
+        value={(checkedCount / items.length) * 100}
+        color={missingMandatory > 0 ? 'warning' : 'success'}
+        sx={{ height: 4, borderRadius: 2, mb: 1 }}
+      />
+
+      <Box sx={{ display: 'flex', flexDirection: 'column' }}>
+        {items.map(item => (
+          <FormControlLabel
+            key={item.id}
+            control={
+              <Checkbox
+                size="small"
+                checked={item.checked}
+                onChange={(e) => onToggle(item.id, e.target.checked)}
+                disabled={disabled}
+              />
+            }
+            label={
+              <Typography variant="body2">
+                {item.label}
+                {item.mandatory && (
+                  <Typography component="span" variant="body2" color="error.main" sx={{ ml: 0.5 }}>
+                    *
+                  </Typography>
+                )}
+              </Typography>
+            }
+          />
+        ))}
+      </Box>
+
+      {missingMandatory > 0 && (
+        <Typography variant="caption" color={blocking ? 'warning.main' : 'text.secondary'}>
+          {blocking
+            ? `Tick the ${missingMandatory} required item${missingMandatory !== 1 ? 's' : ''} to save this trade`
+            : 'Items marked * are required by your plan'}
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default TradeChecklist;
@@ -19,10 +19,13 @@ import {
   Autocomplete,
   Button,
   CircularProgress,
-  InputAdornment
+  InputAdornment,
+  ListItemText
 } from '@mui/material';
 import { DatePicker } from '@mui/x-date-pickers';
-import { Trade, TradeEconomicEvent } from '../../types/dualWrite';
+import { Trade, TradeDirection, TradeEconomicEvent } from '../../types/dualWrite';
+import { TradeChecklistItem } from '../../types/checklist';
+import { DEFAULT_TRADING_SESSIONS, SessionDefinition, TradingSession, formatSessionHours } from '../../utils/sessionTimeUtils';
 import { FormField } from '../StyledComponents';
 import ImageUploader from './ImageUploader';
 import { GridImage, GridPendingImage } from './ImageGrid';
@@ -35,6 +38,7 @@ import { fetchAndGenerateTradeNameSuggestions } from '../../utils/tradeNameSugge
 import { Currency } from '../../types/economicCalendar';
 import { CURRENCY_PAIRS } from '../../services/tradeEconomicEventService';
 import { Z_INDEX } from '../../styles/zIndex';
+import { calculatePlannedRiskToReward, calculateRealizedR } from '../../utils/tradeUtils';
 
 export const DEFAULT_PAIRS_TAG_GROUP = "Pairs"
 export interface NewTradeForm {
@@ -47,15 +51,24 @@ export interface NewTradeForm {
   stop_loss: number;
   take_profit: number;
   risk_to_reward: number;
+  instrument: string;
+  direction: TradeDirection | '';
+  position_size: number;
+  // Trading costs, 0 = none. amount is entered before costs
+  commission: number;
+  swap: number;
+  fees: number;
   trade_date?: Date | null;
   tags: string[];
   partials_taken: boolean;
-  session: 'Asia' | 'London' | 'NY AM' | 'NY PM' | '';
+  session: TradingSession | '';
   notes: string;
   pending_images: Array<PendingImage>;
   uploaded_images: Array<TradeImage>;
   is_temporary?: boolean;
   economic_events?: TradeEconomicEvent[];
+  // Answers given in this form; unset until the checklist is touched when editing an older trade
+  checklist?: TradeChecklistItem[];
 }
 
 export interface PendingImage {
@@ -82,6 +95,15 @@ export interface TradeImage {
   column?: number;
   column_width?: number; // Width as percentage (0-100)
 }
+
+export type TradeCostField = 'commission' | 'swap' | 'fees';
+
+const TRADE_COST_FIELDS: Array<{ field: TradeCostField; label: string }> = [
+  { field: 'commission', label: 'Commission' },
+  { field: 'swap', label: 'Swap' },
+  { field: 'fees', label: 'Fees' }
+];
+
 interface TradeFormProps {
   newTrade: NewTradeForm;
   editingTrade: Trade | null;
@@ -93,6 +115,7 @@ interface TradeFormProps {
   calculateAmountFromRiskToReward: (rr: number, cumulativePnL: number) => number;
   calendarId: string;
   requiredTagGroups?: string[];
+  tradingSessions?: SessionDefinition[];
   onTagUpdated?: (oldTag: string, newTag: string) => Promise<{ success: boolean; tradesUpdated: number }>;
   onNameChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onAmountChange: (amount: number) => void;
@@ -102,6 +125,10 @@ interface TradeFormProps {
   onStopLossChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onTakeProfitChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onRiskToRewardChange: (risk_to_reward: number) => void;
+  onCostChange: (field: TradeCostField, value: number) => void;
+  onInstrumentChange: (instrument: string) => void;
+  onDirectionChange: (e: any) => void;
+  onPositionSizeChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onPartialsTakenChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onSessionChange: (e: any) => void;
   onNotesChange: (value: string) => void;
@@ -128,6 +155,7 @@ const TradeForm: React.FC<TradeFormProps> = ({
   calculateCumulativePnl,
   calendarId,
   requiredTagGroups = [],
+  tradingSessions = DEFAULT_TRADING_SESSIONS,
   onTagUpdated,
   onNameChange,
   onAmountChange,
@@ -137,6 +165,10 @@ const TradeForm: React.FC<TradeFormProps> = ({
   onStopLossChange,
   onTakeProfitChange,
   onRiskToRewardChange,
+  onCostChange,
+  onInstrumentChange,
+  onDirectionChange,
+  onPositionSizeChange,
   onPartialsTakenChange,
   onSessionChange,
   onNotesChange,
@@ -207,6 +239,17 @@ const TradeForm: React.FC<TradeFormProps> = ({
 
 
 
+  const totalCosts = (newTrade.commission || 0) + (newTrade.swap || 0) + (newTrade.fees || 0);
+
+  const plannedRiskToReward = calculatePlannedRiskToReward(newTrade.entry_price, newTrade.stop_loss, newTrade.take_profit);
+  const realizedR = calculateRealizedR({ ...newTrade, direction: newTrade.direction || undefined });
+
+  // Signed amount before costs, as it will be saved once costs are taken off
+  const grossAmountPreview = (!dynamicRiskSettings.risk_per_trade || newTrade.partials_taken)
+    ? Math.abs(newTrade.amount || 0)
+    : Math.abs(calculateAmountFromRiskToReward(Number(newTrade.risk_to_reward) || 0, Number(cumulativePnl)));
+  const netAmountPreview = (newTrade.trade_type === 'loss' ? -grossAmountPreview : grossAmountPreview) - totalCosts;
+
   // Calculate and update the amount based on risk
   const calculateAmountFromRisk = (): number => {
     if (!dynamicRiskSettings.risk_per_trade || !newTrade.risk_to_reward) return 0;
@@ -286,6 +329,53 @@ const TradeForm: React.FC<TradeFormProps> = ({
           }}
         />
       </FormField>
+      <Box sx={{ display: 'flex', gap: 2, width: '100%' }}>
+        <FormField sx={{ flex: 2 }}>
+          <Autocomplete
+            freeSolo
+            options={CURRENCY_PAIRS}
+            value={newTrade.instrument}
+            onInputChange={(_, value) => onInstrumentChange(value)}
+            slotProps={{
+              popper: { sx: { zIndex: Z_INDEX.DIALOG_POPUP } }
+            }}
+            renderInput={(params) => (
+              <TextField {...params} label="Instrument" placeholder="e.g. EURUSD" fullWidth />
+            )}
+          />
+        </FormField>
+        <FormField sx={{ flex: 1 }}>
+          <FormControl fullWidth>
+            <InputLabel id="direction-label">Direction</InputLabel>
+            <Select
+              labelId="direction-label"
+              value={newTrade.direction}
+              onChange={onDirectionChange}
+              label="Direction"
+              MenuProps={{
+                sx: { zIndex: Z_INDEX.DIALOG_POPUP }
+              }}
+            >
+              <MenuItem value=""><em>Not set</em></MenuItem>
+              <MenuItem value="long">Long</MenuItem>
+              <MenuItem value="short">Short</MenuItem>
+            </Select>
+          </FormControl>
+        </FormField>
+        <FormField sx={{ flex: 1 }}>
+          <TextField
+            label="Position Size"
+            type="number"
+            value={newTrade.position_size === 0 ? undefined : newTrade.position_size}
+            onChange={onPositionSizeChange}
+            fullWidth
+            placeholder="Lots"
+            slotProps={{
+              htmlInput: { min: 0, step: 0.01 }
+            }}
+          />
+        </FormField>
+      </Box>
       <Box sx={{ display: 'flex', gap: 2, width: '100%' }}>
         <FormField sx={{ flex: 1 }}>
           <TextField
@@ -344,6 +434,15 @@ const TradeForm: React.FC<TradeFormProps> = ({
         </FormField>
       </Box>
 
+      {(plannedRiskToReward !== undefined || realizedR !== undefined) && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: -1, mb: 2 }}>
+          {[
+            plannedRiskToReward !== undefined && `Planned R:R ${plannedRiskToReward}`,
+            realizedR !== undefined && `Realised ${realizedR > 0 ? '+' : ''}${realizedR}R`
+          ].filter(Boolean).join(' · ')}
+        </Typography>
+      )}
+
       {/* Date picker - only show when editing a trade */}
       {editingTrade && onDateChange && (
         <FormField>
@@ -397,7 +496,9 @@ const TradeForm: React.FC<TradeFormProps> = ({
             onChange={(e) => onAmountChange(parseFloat(e.target.value) || 0)}
             fullWidth
             required
-            helperText={dynamicRiskSettings.risk_per_trade && newTrade.partials_taken ? "Manual entry for partial profits" : undefined}
+            helperText={dynamicRiskSettings.risk_per_trade && newTrade.partials_taken
+              ? "Manual entry for partial profits"
+              : totalCosts !== 0 ? "Before commission, swap and fees" : undefined}
           />
         </FormField>
       ) : (
@@ -444,6 +545,28 @@ const TradeForm: React.FC<TradeFormProps> = ({
           />
         </FormField>
       )}
+      <Box sx={{ display: 'flex', gap: 2, width: '100%' }}>
+        {TRADE_COST_FIELDS.map(({ field, label }) => (
+          <FormField key={field} sx={{ flex: 1 }}>
+            <TextField
+              label={label}
+              type="number"
+              value={newTrade[field] === 0 ? undefined : newTrade[field]}
+              onChange={(e) => onCostChange(field, parseFloat(e.target.value) || 0)}
+              fullWidth
+              placeholder="Optional"
+              slotProps={{
+                htmlInput: { step: 0.01 }
+              }}
+            />
+          </FormField>
+        ))}
+      </Box>
+      {totalCosts !== 0 && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: -1, mb: 2 }}>
+          Net P&L after costs: {formatCurrency(netAmountPreview)} (enter costs as positive, credits as negative)
+        </Typography>
+      )}
       <FormField>
         <TextField
           label="Risk to Reward"
@@ -476,15 +599,21 @@ const TradeForm: React.FC<TradeFormProps> = ({
             onChange={onSessionChange}
             label="Session *"
             required
+            renderValue={(value) => value}
             MenuProps={{
               sx: { zIndex: Z_INDEX.DIALOG_POPUP }
             }}
           >
             <MenuItem value="">None</MenuItem>
-            <MenuItem value="Asia">Asia</MenuItem>
-            <MenuItem value="London">London</MenuItem>
-            <MenuItem value="NY AM">NY AM</MenuItem>
-            <MenuItem value="NY PM">NY PM</MenuItem>
+            {tradingSessions.map(session => (
+              <MenuItem key={session.name} value={session.name}>
+                <ListItemText primary={session.name} secondary={formatSessionHours(session)} sx={{ my: 0 }} />
+              </MenuItem>
+            ))}
+            {/* Keep the session of an older trade selectable after the calendar's sessions changed */}
+            {newTrade.session && !tradingSessions.some(session => session.name === newTrade.session) && (
+              <MenuItem value={newTrade.session}>{newTrade.session}</MenuItem>
+            )}
           </Select>
         </FormControl>
       </FormField>
@@ -9,12 +9,12 @@ import {
   Alert
 } from '@mui/material';
 import { endOfDay, format, isSameDay } from 'date-fns';
-import { Trade, Calendar } from '../../types/dualWrite';
-import { BaseDialog } from '../common';
+import { Trade, Calendar, TradeDirection } from '../../types/dualWrite';
+import { BaseDialog, ConfirmationDialog } from '../common';
 import * as calendarService from '../../services/calendarService';
-import { DayHeader, TradeForm, NewTradeForm } from './';
+import { DayHeader, TradeForm, TradeChecklist, NewTradeForm } from './';
 import { v4 as uuidv4 } from 'uuid';
-import { DEFAULT_PAIRS_TAG_GROUP, PendingImage, TradeImage } from './TradeForm';
+import { DEFAULT_PAIRS_TAG_GROUP, PendingImage, TradeCostField, TradeImage } from './TradeForm';
 import { GridImage, GridPendingImage } from './ImageGrid';
 import { createNewTradeData } from '../../pages/TradeCalendarPage';
 import {
@@ -26,8 +26,13 @@ import {
 import { error, log, logger } from '../../utils/logger';
 import { validateFiles, FILE_SIZE_LIMITS } from '../../utils/fileValidation';
 import { formatTagsWithCapitalizedGroups } from '../../utils/tagColors';
+import { getTradeAmount, getTradeCosts } from '../../utils/statsUtils';
+import { calculatePlannedRiskToReward, calculateRealizedR, inferDirection } from '../../utils/tradeUtils';
 import { Z_INDEX } from '../../styles/zIndex';
 import { TradeRepository } from '../../services/repository/repositories/TradeRepository';
+import { ChallengeRuleResult } from '../../types/challenge';
+import { createTradeChecklist, getCalendarChecklist, getMissingMandatoryItems } from '../../utils/checklistUtils';
+import { getCalendarSessions } from '../../utils/sessionTimeUtils';
 
 interface FormDialogProps {
   open: boolean;
@@ -55,6 +60,8 @@ interface FormDialogProps {
   // Optional props for calendar selection (used when opened from Home.tsx)
   calendars?: Calendar[];
   onCalendarChange?: (calendarId: string) => void;
+  // Optional challenge rule check, returns the rules saving the trade would newly break
+  checkChallengeRules?: (trade: Trade) => ChallengeRuleResult[];
 }
 
 interface FormProps {
@@ -87,11 +94,29 @@ export const startOfNextDay = (trade_date: Date | string): Date => {
   return nextDay;
 }
 
+/**
+ * Fill direction and risk to reward from the entered prices
+ * R:R comes from the take profit; without one, a winning exit's realised R is used
+ */
+const applyPriceMetrics = (trade: NewTradeForm): NewTradeForm => {
+  const direction = trade.direction || inferDirection(trade.entry_price, trade.stop_loss) || '';
+  const plannedRR = calculatePlannedRiskToReward(trade.entry_price, trade.stop_loss, trade.take_profit);
+  const realizedR = calculateRealizedR({ ...trade, direction: direction || undefined });
+  const riskToReward = plannedRR ?? (realizedR !== undefined && realizedR > 0 ? realizedR : undefined);
+
+  return {
+    ...trade,
+    direction,
+    ...(riskToReward !== undefined && { risk_to_reward: riskToReward })
+  };
+};
+
 export const createEditTradeData = (trade: Trade): NewTradeForm => {
   return {
     id: trade.id,
     name: trade.name ? trade.name.replace(/^📈 /, '') : '',
-    amount: Math.abs(trade.amount),
+    // The form edits the amount before costs
+    amount: Math.abs(getTradeAmount(trade, 'gross')),
     trade_type: trade.trade_type,
     entry_price: trade.entry_price || 0,
     trade_date: trade.trade_date,
@@ -100,12 +125,19 @@ export const createEditTradeData = (trade: Trade): NewTradeForm => {
     take_profit: trade.take_profit || 0,
     tags: trade.tags || [],
     risk_to_reward: trade.risk_to_reward || 0,
+    instrument: trade.instrument || '',
+    direction: trade.direction || '',
+    position_size: trade.position_size || 0,
+    commission: trade.commission || 0,
+    swap: trade.swap || 0,
+    fees: trade.fees || 0,
     partials_taken: trade.partials_taken || false,
-    session: trade.session as '' | 'Asia' | 'London' | 'NY AM' | 'NY PM' || '',
+    session: trade.session || '',
     notes: trade.notes || '',
     pending_images: [],
     is_temporary: trade.is_temporary,
     economic_events: trade.economic_events || [],
+    checklist: trade.checklist || undefined,
     uploaded_images: Array.isArray(trade.images) ? trade.images.filter(img => img).map((img, index) => ({
       ...img,
       // Ensure ID is present - generate one if missing to prevent delete issues
@@ -138,7 +170,8 @@ const TradeFormDialog: React.FC<FormDialogProps> = ({
   requiredTagGroups = [],
   onOpenGalleryMode,
   calendars,
-  onCalendarChange
+  onCalendarChange,
+  checkChallengeRules
 }) => {
 
   // State
@@ -149,6 +182,7 @@ const TradeFormDialog: React.FC<FormDialogProps> = ({
   const [newTrade, setNewTrade] = useState<NewTradeForm | null>(null);
   const [errorMessage, setErrorMessage] = useState<string>('');
   const [showError, setShowError] = useState(false);
+  const [challengeBreaches, setChallengeBreaches] = useState<ChallengeRuleResult[]>([]);
 
   // Pre-calculated cumulative P&L and effective risk (fetched async when dialog opens)
   const [precalculatedPnL, setPrecalculatedPnL] = useState<number>(0);
@@ -337,9 +371,11 @@ const TradeFormDialog: React.FC<FormDialogProps> = ({
         if (trade.risk_to_reward && trade.risk_to_reward > 0) {
           // For wins: riskAmount = amount / R:R
           // For losses: riskAmount = |amount|
+          // Risk-based amounts are before costs
+          const grossAmount = Math.abs(getTradeAmount(trade, 'gross'));
           const derivedRiskAmount = trade.trade_type === 'win'
-            ? Math.abs(trade.amount) / trade.risk_to_reward
-            : Math.abs(trade.amount);
+            ? grossAmount / trade.risk_to_reward
+            : grossAmount;
           setOriginalRiskAmount(derivedRiskAmount);
         } else {
           setOriginalRiskAmount(null);
@@ -363,6 +399,17 @@ const TradeFormDialog: React.FC<FormDialogProps> = ({
     return tags.filter((tag) => !tag.startsWith('Partials:'))
   }, [tags]);
 
+  // Pre-trade checklist of the calendar, merged with the answers given so far
+  const checklistTemplate = getCalendarChecklist(calendar);
+  const tradingSessions = getCalendarSessions(calendar);
+  const tradeChecklist = useMemo(
+    () => createTradeChecklist(checklistTemplate, newTrade?.checklist),
+    [checklistTemplate, newTrade?.checklist]
+  );
+  // Older trades saved without a checklist can still be edited freely
+  const isChecklistBlocking = !!checklistTemplate?.block_incomplete &&
+    (!editingTrade || !!editingTrade.checklist?.length);
+
 
 
 
@@ -383,6 +430,14 @@ const TradeFormDialog: React.FC<FormDialogProps> = ({
     setShowError(false);
   };
 
+  // Ask before saving a trade that would break a challenge rule
+  const confirmChallengeRules = (trade: Trade): boolean => {
+    const breaches = checkChallengeRules?.(trade) ?? [];
+    if (breaches.length === 0) return true;
+    setChallengeBreaches(breaches);
+    return false;
+  };
+
   const resetForm = () => {
     // Release object URLs to avoid memory leaks
     if (newTrade) {
@@ -423,19 +478,31 @@ const TradeFormDialog: React.FC<FormDialogProps> = ({
   };
 
   const handleEntryChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setNewTrade(prev => ({ ...prev!, entry_price: parseFloat(e.target.value) || 0 }));
+    setNewTrade(prev => applyPriceMetrics({ ...prev!, entry_price: parseFloat(e.target.value) || 0 }));
   };
 
   const handleExitChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setNewTrade(prev => ({ ...prev!, exit_price: parseFloat(e.target.value) || 0 }));
+    setNewTrade(prev => applyPriceMetrics({ ...prev!, exit_price: parseFloat(e.target.value) || 0 }));
   };
 
   const handleStopLossChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setNewTrade(prev => ({ ...prev!, stop_loss: parseFloat(e.target.value) || 0 }));
+    setNewTrade(prev => applyPriceMetrics({ ...prev!, stop_loss: parseFloat(e.target.value) || 0 }));
   };
 
   const handleTakeProfitChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setNewTrade(prev => ({ ...prev!, take_profit: parseFloat(e.target.value) || 0 }));
+    setNewTrade(prev => applyPriceMetrics({ ...prev!, take_profit: parseFloat(e.target.value) || 0 }));
+  };
+
+  const handleInstrumentChange = (instrument: string) => {
+    setNewTrade(prev => ({ ...prev!, instrument: instrument.toUpperCase() }));
+  };
+
+  const handleDirectionChange = (e: any) => {
+    setNewTrade(prev => ({ ...prev!, direction: e.target.value as TradeDirection | '' }));
+  };
+
+  const handlePositionSizeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setNewTrade(prev => ({ ...prev!, position_size: parseFloat(e.target.value) || 0 }));
   };
 
   const handleDateChange = (newDate: Date | null) => {
@@ -448,8 +515,17 @@ const TradeFormDialog: React.FC<FormDialogProps> = ({
     setNewTrade(prev => ({ ...prev!, risk_to_reward: risk_to_reward }));
   };
 
+  const handleCostChange = (field: TradeCostField, value: number) => {
+    setNewTrade(prev => ({ ...prev!, [field]: value }));
+  };
+
 
+  // Net amount saved on the trade: the signed amount before costs, minus commission, swap and fees
   const calculateFinalAmount = (trade: NewTradeForm): number => {
+    return calculateGrossAmount(trade) - getTradeCosts(trade);
+  };
+
+  const calculateGrossAmount = (trade: NewTradeForm): number => {
     // Only use risk-based calculation if risk per trade is enabled AND risk_to_reward is set AND not taking partials
     const isRiskPerTradeEnabled = dynamicRiskSettings.risk_per_trade && dynamicRiskSettings.risk_per_trade > 0;
 
@@ -505,9 +581,16 @@ const TradeFormDialog: React.FC<FormDialogProps> = ({
       ...(newTrade.take_profit && { take_profit: newTrade.take_profit }),
       ...(finalTags.length > 0 && { tags: finalTags }),
       ...(newTrade.risk_to_reward && { risk_to_reward: newTrade.risk_to_reward }),
+      ...(newTrade.instrument.trim() && { instrument: newTrade.instrument.trim() }),
+      ...(newTrade.direction && { direction: newTrade.direction }),
+      ...(newTrade.position_size && { position_size: newTrade.position_size }),
+      ...(newTrade.commission && { commission: newTrade.commission }),
+      ...(newTrade.swap && { swap: newTrade.swap }),
+      ...(newTrade.fees && { fees: newTrade.fees }),
       partials_taken: newTrade.partials_taken,
       session: newTrade.session || '', // Always include session
       ...(newTrade.notes && { notes: newTrade.notes }),
+      checklist: getChecklistForSubmission(newTrade),
       images: newTrade.uploaded_images || [],
       // Economic events will be fetched automatically by TradeRepository
       ...(newTrade.economic_events && newTrade.economic_events.length > 0 && { economic_events: newTrade.economic_events }),
@@ -563,6 +646,35 @@ const TradeFormDialog: React.FC<FormDialogProps> = ({
     setNewTrade(prev => ({ ...prev!, notes: value }));
   };
 
+  const handleChecklistToggle = (itemId: string, checked: boolean) => {
+    setNewTrade(prev => ({
+      ...prev!,
+      checklist: createTradeChecklist(checklistTemplate, prev!.checklist).map(item =>
+        item.id === itemId ? { ...item, checked } : item
+      )
+    }));
+  };
+
+  /**
+   * Checklist answers to save; edits of trades saved without a checklist only record one once it was touched
+   */
+  const getChecklistForSubmission = (trade: NewTradeForm): Trade['checklist'] => {
+    if (editingTrade && !trade.checklist) return editingTrade.checklist ?? null;
+    const checklist = createTradeChecklist(checklistTemplate, trade.checklist);
+    return checklist.length > 0 ? checklist : null;
+  };
+
+  // Unticked mandatory items, when the calendar blocks saving on them
+  const validateChecklist = (trade: NewTradeForm): boolean => {
+    if (!isChecklistBlocking) return true;
+    const missing = getMissingMandatoryItems(createTradeChecklist(checklistTemplate, trade.checklist));
+    if (missing.length === 0) return true;
+
+    logger.error(`Validation error: Checklist items not ticked: ${missing.map(item => item.label).join(', ')}`);
+    showErrorSnackbar(`Checklist not complete: ${missing.map(item => item.label).join(', ')}`);
+    return false;
+  };
+
   const handleTagsChange = (_event: React.SyntheticEvent, newValue: string[]) => {
     // Capitalize tag groups before saving
     const formattedTags = formatTagsWithCapitalizedGroups(newValue);
@@ -724,6 +836,12 @@ const TradeFormDialog: React.FC<FormDialogProps> = ({
             ...(newTrade!.take_profit && { take_profit: newTrade!.take_profit }),
             ...(finalTags.length > 0 && { tags: finalTags }),
             ...(newTrade!.risk_to_reward && { risk_to_reward: newTrade!.risk_to_reward }),
+            ...(newTrade!.instrument.trim() && { instrument: newTrade!.instrument.trim() }),
+            ...(newTrade!.direction && { direction: newTrade!.direction }),
+            ...(newTrade!.position_size && { position_size: newTrade!.position_size }),
+            ...(newTrade!.commission && { commission: newTrade!.commission }),
+            ...(newTrade!.swap && { swap: newTrade!.swap }),
+            ...(newTrade!.fees && { fees: newTrade!.fees }),
             partials_taken: newTrade!.partials_taken,
             session: newTrade!.session || '', // Always include session
             ...(newTrade!.notes && { notes: newTrade!.notes }),
@@ -1051,7 +1169,7 @@ const TradeFormDialog: React.FC<FormDialogProps> = ({
     };
   };
 
-  const handleSubmit = async (e?: React.FormEvent) => {
+  const handleSubmit = async (e?: React.FormEvent, skipChallengeCheck = false) => {
     if (e) e.preventDefault();
 
     if (!onAddTrade) return;
@@ -1092,6 +1210,10 @@ const TradeFormDialog: React.FC<FormDialogProps> = ({
       return;
     }
 
+    if (!validateChecklist(newTrade)) {
+      return;
+    }
+
     // Check if there are any pending image uploads
     if (hasPendingUploads()) {
       logger.warn('Image uploads pending, prevented submission');
@@ -1101,6 +1223,9 @@ const TradeFormDialog: React.FC<FormDialogProps> = ({
 
     // Capture all data needed BEFORE closing the dialog
     const tradeData = createFinalTradeData(newTrade!, trade_date);
+    if (!skipChallengeCheck && !confirmChallengeRules(tradeData)) {
+      return;
+    }
     const isTemporary = newTrade!.is_temporary;
     const tradeId = newTrade!.id;
 
@@ -1141,7 +1266,7 @@ const TradeFormDialog: React.FC<FormDialogProps> = ({
     }
   };
 
-  const handleEditSubmit = async (e?: React.FormEvent) => {
+  const handleEditSubmit = async (e?: React.FormEvent, skipChallengeCheck = false) => {
     if (e) e.preventDefault();
     if (!editingTrade) return;
     if (!newTrade) {
@@ -1169,6 +1294,10 @@ const TradeFormDialog: React.FC<FormDialogProps> = ({
       return;
     }
 
+    if (!validateChecklist(newTrade)) {
+      return;
+    }
+
     // Validate trade date is not in the future
     if (newTrade.trade_date && newTrade.trade_date > new Date()) {
       logger.error('Validation error: Trade date cannot be in the future');
@@ -1238,12 +1367,28 @@ const TradeFormDialog: React.FC<FormDialogProps> = ({
       is_temporary: newTrade?.is_temporary && !newTrade.name,
       tags: finalTags || [],
       risk_to_reward: newTrade!.risk_to_reward || 1,
+      // null clears a value that was removed in the form
+      instrument: newTrade!.instrument.trim() || null,
+      direction: newTrade!.direction || null,
+      position_size: newTrade!.position_size || null,
+      commission: newTrade!.commission || null,
+      swap: newTrade!.swap || null,
+      fees: newTrade!.fees || null,
       partials_taken: newTrade!.partials_taken,
-      session: newTrade!.session || "London",
+      session: newTrade!.session || tradingSessions[0].name,
       notes: newTrade!.notes || "",
+      checklist: getChecklistForSubmission(newTrade!),
       images: updatedImages
     };
 
+    if (!skipChallengeCheck && !confirmChallengeRules({
+      ...editingTrade,
+      amount: finalAmount,
+      trade_date: updateData.trade_date || editingTrade.trade_date
+    })) {
+      return;
+    }
+
     // Close dialog immediately (optimistic approach)
     resetForm();
     onCancel();
@@ -1353,12 +1498,20 @@ const TradeFormDialog: React.FC<FormDialogProps> = ({
             opacity: isCalendarSelected ? 1 : 0.5,
             pointerEvents: isCalendarSelected ? 'auto' : 'none'
           }}>
+            <TradeChecklist
+              items={tradeChecklist}
+              onToggle={handleChecklistToggle}
+              blocking={isChecklistBlocking}
+              disabled={isSubmitting}
+            />
+
             <TradeForm
               accountBalance={account_balance}
               calculateCumulativePnl={() => precalculatedPnL}
               dynamicRiskSettings={dynamicRiskSettings}
               calendarId={calendar?.id || ''}
               requiredTagGroups={requiredTagGroups}
+              tradingSessions={tradingSessions}
               onTagUpdated={handleTagUpdated}
               newTrade={newTrade!}
               editingTrade={editingTrade}
@@ -1373,6 +1526,10 @@ const TradeFormDialog: React.FC<FormDialogProps> = ({
               onStopLossChange={handleStopLossChange}
               onTakeProfitChange={handleTakeProfitChange}
               onRiskToRewardChange={handleRiskToRewardChange}
+              onCostChange={handleCostChange}
+              onInstrumentChange={handleInstrumentChange}
+              onDirectionChange={handleDirectionChange}
+              onPositionSizeChange={handlePositionSizeChange}
               onPartialsTakenChange={handlePartialsTakenChange}
               onSessionChange={handleSessionChange}
               onNotesChange={handleNotesChange}
@@ -1404,6 +1561,26 @@ const TradeFormDialog: React.FC<FormDialogProps> = ({
         </Alert>
       </Snackbar>
 
+      {/* Challenge rule breach warning */}
+      <ConfirmationDialog
+        open={challengeBreaches.length > 0}
+        title="Challenge Rule Breach"
+        message={`Saving this trade would break ${challengeBreaches.map(rule => `${rule.label}: ${rule.message}`).join('; ')}. Save it anyway?`}
+        confirmText="Save Anyway"
+        cancelText="Go Back"
+        confirmColor="error"
+        onConfirm={() => {
+          setChallengeBreaches([]);
+          if (editingTrade) {
+            handleEditSubmit(undefined, true);
+          } else {
+            handleSubmit(undefined, true);
+          }
+        }}
+        onCancel={() => setChallengeBreaches([])}
+        sx={{ zIndex: Z_INDEX.LOADING_PROGRESS }}
+      />
+
     </>
   );
 };
@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Chip,
+  CircularProgress,
+  Stack,
+  Tooltip,
+  alpha,
+  useTheme
+} from '@mui/material';
+import {
+  History as HistoryIcon,
+  Restore as RestoreIcon
+} from '@mui/icons-material';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Trade } from '../../types/dualWrite';
+import {
+  TradeRevision,
+  TradeRestoreValues,
+  TradeFieldChange,
+  JournaledTradeField,
+  JOURNALED_FIELD_LABELS
+} from '../../types/tradeRevision';
+import { tradeRevisionService } from '../../services/tradeRevisionService';
+import ConfirmationDialog from '../common/ConfirmationDialog';
+import { formatCurrency } from '../../utils/formatters';
+import { logger } from '../../utils/logger';
+import { Z_INDEX } from '../../styles/zIndex';
+
+interface TradeRevisionHistoryProps {
+  trade: Trade;
+  // Omitted when the trade cannot be edited
+  onRestore?: (values: TradeRestoreValues) => Promise<void>;
+}
+
+const CURRENCY_FIELDS: JournaledTradeField[] = ['amount', 'commission', 'swap', 'fees'];
+
+const isEmptyValue = (value: unknown): boolean =>
+  value === null || value === undefined || value === '';
+
+/**
+ * Display value of a journaled field as stored in JSONB
+ */
+const formatFieldValue = (field: JournaledTradeField, value: unknown): string => {
+  if (isEmptyValue(value)) return '—';
+
+  if (CURRENCY_FIELDS.includes(field)) {
+    return formatCurrency(Number(value));
+  }
+
+  switch (field) {
+    case 'trade_date':
+      return format(new Date(value as string), 'MMM d, yyyy HH:mm');
+    case 'partials_taken':
+      return value ? 'Yes' : 'No';
+    case 'trade_type':
+    case 'direction': {
+      const text = String(value);
+      return text.charAt(0).toUpperCase() + text.slice(1);
+    }
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * One changed field of a revision
+ */
+const FieldChange: React.FC<{ field: JournaledTradeField; change: TradeFieldChange }> = ({ field, change }) => {
+  const theme = useTheme();
+
+  // Tags diff as added/removed chips
+  if (field === 'tags') {
+    const oldTags = (change.old as string[] | null) || [];
+    const newTags = (change.new as string[] | null) || [];
+    const added = newTags.filter(tag => !oldTags.includes(tag));
+    const removed = oldTags.filter(tag => !newTags.includes(tag));
+
+    return (
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 0.5 }}>
+        <Typography variant="caption" color="text.secondary" sx={{ fontWeight: 600, mr: 0.5 }}>
+          {JOURNALED_FIELD_LABELS[field]}
+        </Typography>
+        {added.map(tag => (
+          <Chip key={`+${tag}`} size="small" label={`+ ${tag}`} color="success" variant="outlined" />
+        ))}
+        {removed.map(tag => (
+          <Chip key={`-${tag}`} size="small" label={`− ${tag}`} color="error" variant="outlined" />
+        ))}
+        {added.length === 0 && removed.length === 0 && (
+          <Typography variant="caption" color="text.secondary">reordered</Typography>
+        )}
+      </Box>
+    );
+  }
+
+  // Notes are rich text; the content is not diffed
+  if (field === 'notes') {
+    return (
+      <Typography variant="caption" color="text.secondary">
+        <Box component="span" sx={{ fontWeight: 600 }}>{JOURNALED_FIELD_LABELS[field]}</Box> edited
+      </Typography>
+    );
+  }
+
+  return (
+    <Typography variant="caption" color="text.secondary" sx={{ wordBreak: 'break-word' }}>
+      <Box component="span" sx={{ fontWeight: 600 }}>{JOURNALED_FIELD_LABELS[field]}</Box>{' '}
+      <Box component="span" sx={{ textDecoration: 'line-through', color: alpha(theme.palette.error.main, 0.8) }}>
+        {formatFieldValue(field, change.old)}
+      </Box>
+      {' → '}
+      <Box component="span" sx={{ fontWeight: 600, color: 'text.primary' }}>
+        {formatFieldValue(field, change.new)}
+      </Box>
+    </Typography>
+  );
+};
+
+/**
+ * Edit history of a trade with field-level diffs and restore
+ */
+const TradeRevisionHistory: React.FC<TradeRevisionHistoryProps> = ({ trade, onRestore }) => {
+  const theme = useTheme();
+  const [revisions, setRevisions] = useState<TradeRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revisionToRestore, setRevisionToRestore] = useState<TradeRevision | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Reload whenever the trade is saved, including by a restore
+  const updatedAt = trade.updated_at ? new Date(trade.updated_at).getTime() : 0;
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    tradeRevisionService.getRevisions(trade.id)
+      .then(loaded => {
+        if (!cancelled) setRevisions(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load the edit history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trade.id, updatedAt]);
+
+  const handleRestore = async () => {
+    if (!revisionToRestore || !onRestore) return;
+
+    setIsRestoring(true);
+    try {
+      await onRestore(tradeRevisionService.getRestoreValues(revisionToRestore));
+      setRevisionToRestore(null);
+    } catch (err) {
+      logger.error('Error restoring trade revision:', err);
+      setError('Failed to restore the trade');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {error && (
+        <Typography variant="caption" color="error" sx={{ display: 'block', mb: 1 }}>
+          {error}
+        </Typography>
+      )}
+
+      {revisions.length === 0 ? (
+        <Box sx={{ textAlign: 'center', py: 4 }}>
+          <HistoryIcon sx={{ fontSize: 36, color: 'text.secondary', mb: 1 }} />
+          <Typography variant="body2" color="text.secondary">
+            This trade has not been edited since it was added
+          </Typography>
+        </Box>
+      ) : (
+        <Stack spacing={1}>
+          {revisions.map(revision => (
+            <Box
+              key={revision.id}
+              sx={{
+                p: 1.5,
+                borderRadius: 2,
+                border: `1px solid ${alpha(theme.palette.divider, 0.5)}`,
+                backgroundColor: alpha(theme.palette.background.paper, 0.6)
+              }}
+            >
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, mb: 0.75 }}>
+                <Tooltip title={format(revision.created_at, 'MMM d, yyyy HH:mm:ss')}>
+                  <Typography variant="caption" color="text.secondary">
+                    <Box component="span" sx={{ fontWeight: 600, color: 'text.primary' }}>
+                      Edit {revision.revision_number}
+                    </Box>
+                    {' · '}
+                    {revision.changed_by_name || 'System'}
+                    {' · '}
+                    {formatDistanceToNow(revision.created_at, { addSuffix: true })}
+                  </Typography>
+                </Tooltip>
+                {onRestore && (
+                  <Tooltip title="Restore the trade as it was before this edit">
+                    <Button
+                      size="small"
+                      startIcon={<RestoreIcon sx={{ fontSize: 16 }} />}
+                      onClick={() => setRevisionToRestore(revision)}
+                      sx={{ minWidth: 0, py: 0 }}
+                    >
+                      Restore
+                    </Button>
+                  </Tooltip>
+                )}
+              </Box>
+              <Stack spacing={0.5}>
+                {(Object.keys(revision.changes) as JournaledTradeField[])
+                  .filter(field => field in JOURNALED_FIELD_LABELS)
+                  .map(field => (
+                    <FieldChange key={field} field={field} change={revision.changes[field]!} />
+                  ))}
+              </Stack>
+            </Box>
+          ))}
+        </Stack>
+      )}
+
+      <ConfirmationDialog
+        open={!!revisionToRestore}
+        title="Restore trade"
+        message={`Restore this trade as it was before edit ${revisionToRestore?.revision_number}? The restore is recorded as a new edit, so it can be undone from the history.`}
+        confirmText="Restore"
+        onConfirm={handleRestore}
+        onCancel={() => setRevisionToRestore(null)}
+        isSubmitting={isRestoring}
+        sx={{ zIndex: Z_INDEX.LOADING_PROGRESS }}
+      />
+    </Box>
+  );
+};
+
+export default TradeRevisionHistory;
@@ -3,4 +3,5 @@ export { default as ImageUploader } from './ImageUploader';
 export { default as TradeList } from './TradeList';
 export { default as DayHeader } from './DayHeader';
 export { default as ProgressSection } from './ProgressSection';
+export { default as TradeChecklist } from './TradeChecklist';
 export type { NewTradeForm } from './TradeForm';
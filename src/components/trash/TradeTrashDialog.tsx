@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Stack,
+  CircularProgress,
+  alpha,
+  useTheme
+} from '@mui/material';
+import {
+  Schedule as ScheduleIcon,
+  Restore as RestoreIcon,
+  Delete as DeleteIcon,
+  DeleteOutline as EmptyTrashIcon
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import { BaseDialog } from '../common';
+import ConfirmationDialog from '../common/ConfirmationDialog';
+import {
+  TrashTrade,
+  TRASH_RETENTION_DAYS,
+  getTrashTrades,
+  getDaysUntilDeletion,
+  permanentlyDeleteTrades
+} from '../../services/trashService';
+import { formatCurrency } from '../../utils/formatters';
+import { logger } from '../../utils/logger';
+import { Z_INDEX } from '../../styles/zIndex';
+
+interface TradeTrashDialogProps {
+  open: boolean;
+  calendarId: string;
+  onClose: () => void;
+  // Restores through the calendar's trade state so the trades reappear
+  onRestore: (tradeIds: string[]) => Promise<void>;
+}
+
+/**
+ * Trashed trades of a calendar with restore and permanent delete
+ */
+const TradeTrashDialog: React.FC<TradeTrashDialogProps> = ({
+  open,
+  calendarId,
+  onClose,
+  onRestore
+}) => {
+  const theme = useTheme();
+  const [trades, setTrades] = useState<TrashTrade[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busyTradeIds, setBusyTradeIds] = useState<string[]>([]);
+  const [tradesToDelete, setTradesToDelete] = useState<TrashTrade[]>([]);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const loadTrades = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setTrades(await getTrashTrades(calendarId));
+    } catch (err) {
+      setError('Failed to load the trash');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [calendarId]);
+
+  useEffect(() => {
+    if (open) {
+      loadTrades();
+    }
+  }, [open, loadTrades]);
+
+  const handleRestore = async (trade: TrashTrade) => {
+    setBusyTradeIds(prev => [...prev, trade.id]);
+    setError(null);
+    try {
+      await onRestore([trade.id]);
+      setTrades(prev => prev.filter(t => t.id !== trade.id));
+    } catch (err) {
+      logger.error('Error restoring trade from trash:', err);
+      setError('Failed to restore the trade');
+    } finally {
+      setBusyTradeIds(prev => prev.filter(id => id !== trade.id));
+    }
+  };
+
+  const handlePermanentDelete = async () => {
+    const tradeIds = tradesToDelete.map(trade => trade.id);
+    setIsDeleting(true);
+    setError(null);
+    try {
+      await permanentlyDeleteTrades(tradeIds);
+      setTrades(prev => prev.filter(trade => !tradeIds.includes(trade.id)));
+      setTradesToDelete([]);
+    } catch (err) {
+      setError('Failed to delete the trades');
+      setTradesToDelete([]);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <>
+      <BaseDialog
+        open={open}
+        onClose={onClose}
+        maxWidth="sm"
+        fullWidth
+        title="Trash"
+        cancelButtonAction={onClose}
+      >
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          {error && <Alert severity="error">{error}</Alert>}
+
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              Deleted trades are kept for {TRASH_RETENTION_DAYS} days before they are removed for good.
+            </Typography>
+            {trades.length > 0 && (
+              <Button
+                size="small"
+                color="error"
+                startIcon={<EmptyTrashIcon />}
+                onClick={() => setTradesToDelete(trades)}
+                sx={{ flexShrink: 0, textTransform: 'none' }}
+              >
+                Empty trash
+              </Button>
+            )}
+          </Box>
+
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+              <CircularProgress size={24} />
+            </Box>
+          ) : trades.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 3 }}>
+              The trash is empty.
+            </Typography>
+          ) : (
+            <Stack spacing={1}>
+              {trades.map(trade => {
+                const isBusy = busyTradeIds.includes(trade.id);
+                return (
+                  <Box
+                    key={trade.id}
+                    sx={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 1.5,
+                      p: 1.5,
+                      borderRadius: 2,
+                      bgcolor: theme.palette.mode === 'dark'
+                        ? alpha(theme.palette.background.paper, 0.4)
+                        : alpha(theme.palette.background.default, 0.6),
+                      border: `1px solid ${alpha(theme.palette.divider, 0.1)}`
+                    }}
+                  >
+                    <Box sx={{ flex: 1, minWidth: 0 }}>
+                      <Typography
+                        variant="subtitle2"
+                        sx={{ fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                      >
+                        {trade.name || 'Untitled trade'}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                        {format(trade.trade_date, 'MMM d, yyyy')}
+                        {' · '}
+                        <Box
+                          component="span"
+                          sx={{
+                            color: trade.trade_type === 'win'
+                              ? 'success.main'
+                              : trade.trade_type === 'loss' ? 'error.main' : 'text.secondary'
+                          }}
+                        >
+                          {formatCurrency(trade.amount)}
+                        </Box>
+                      </Typography>
+                      <Stack direction="row" spacing={0.5} alignItems="center">
+                        <ScheduleIcon sx={{ fontSize: 14, color: 'text.secondary' }} />
+                        <Typography variant="caption" color="text.secondary">
+                          {getDaysUntilDeletion(trade.auto_delete_at)} days until deletion
+                        </Typography>
+                      </Stack>
+                    </Box>
+
+                    <Stack direction="row" spacing={1} sx={{ flexShrink: 0 }}>
+                      <Button
+                        size="small"
+                        startIcon={isBusy ? <CircularProgress size={14} /> : <RestoreIcon />}
+                        onClick={() => handleRestore(trade)}
+                        disabled={isBusy}
+                        sx={{ textTransform: 'none', fontSize: '0.75rem', minWidth: 'auto', px: 1 }}
+                      >
+                        Restore
+                      </Button>
+                      <Button
+                        size="small"
+                        startIcon={<DeleteIcon />}
+                        onClick={() => setTradesToDelete([trade])}
+                        disabled={isBusy}
+                        sx={{ textTransform: 'none', color: 'error.main', fontSize: '0.75rem', minWidth: 'auto', px: 1 }}
+                      >
+                        Delete
+                      </Button>
+                    </Stack>
+                  </Box>
+                );
+              })}
+            </Stack>
+          )}
+        </Box>
+      </BaseDialog>
+
+      <ConfirmationDialog
+        open={tradesToDelete.length > 0}
+        title={tradesToDelete.length === 1 ? 'Delete trade permanently' : `Delete ${tradesToDelete.length} trades permanently`}
+        message={tradesToDelete.length === 1
+          ? `"${tradesToDelete[0].name || 'Untitled trade'}" and its images will be deleted. This action cannot be undone.`
+          : `All ${tradesToDelete.length} trades in the trash and their images will be deleted. This action cannot be undone.`}
+        confirmText="Delete"
+        confirmColor="error"
+        onConfirm={handlePermanentDelete}
+        onCancel={() => setTradesToDelete([])}
+        isSubmitting={isDeleting}
+        sx={{ zIndex: Z_INDEX.LOADING_PROGRESS }}
+      />
+    </>
+  );
+};
+
+export default TradeTrashDialog;
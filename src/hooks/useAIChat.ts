@@ -10,7 +10,8 @@ import {
   ChatMessage as ChatMessageType,
   ChatError,
   AIConversation,
-  AttachedImage
+  AttachedImage,
+  TradeActionProposal
 } from '../types/aiChat';
 import { Calendar } from '../types/calendar';
 import { Trade } from '../types/trade';
@@ -20,7 +21,8 @@ import {
   ConversationPaginationOptions
 } from '../services/repository/repositories/ConversationRepository';
 import { logger } from '../utils/logger';
-import { hasApiKey } from '../services/apiKeyStorage';
+import { AI_PROVIDERS, getProviderSettings, hasApiKey } from '../services/apiKeyStorage';
+import { applyTradeAction } from '../services/aiTradeActionService';
 
 const CONVERSATIONS_PAGE_SIZE = 15;
 
@@ -53,6 +55,8 @@ export interface UseAIChatReturn {
   editMessage: (messageId: string) => string | null;
   setInputForEdit: (messageId: string) => { content: string; images?: AttachedImage[] } | null;
   clearEditingState: () => void;
+  // Apply (approve) or dismiss a trade change proposed by the agent
+  resolveTradeAction: (messageId: string, actionId: string, approve: boolean) => Promise<void>;
 
   // Conversation management
   loadConversations: () => Promise<void>;
@@ -106,7 +110,7 @@ export function useAIChat({
   }, [messages.length, messageLimit]);
 
   /**
-   * Parse quota/API key errors from Gemini API and return user-friendly message
+   * Parse quota/API key errors from the AI provider and return user-friendly message
    */
   const parseQuotaError = useCallback((errorMessage: string): { isQuotaError: boolean; userMessage: string; retryDelay?: string } => {
     let errorCode = '';
@@ -145,6 +149,8 @@ export function useAIChat({
     const retryDelay = retryMatch ? retryMatch[1] : undefined;
 
     const userHasApiKey = hasApiKey();
+    const provider = AI_PROVIDERS[getProviderSettings().provider];
+    const providerKeyLink = provider.keyUrl ? `[${provider.label}](${provider.keyUrl})` : '';
 
     let userMessage = '';
 
@@ -152,9 +158,11 @@ export function useAIChat({
       userMessage = '⚠️ **API Key Error**\n\n';
 
       if (userHasApiKey) {
-        userMessage += 'Your Gemini API key has expired or is invalid.\n\n';
+        userMessage += `Your ${provider.label} API key has expired or is invalid.\n\n`;
         userMessage += '**What you can do:**\n';
-        userMessage += '• Go to [Google AI Studio](https://aistudio.google.com/app/apikey)\n';
+        if (providerKeyLink) {
+          userMessage += `• Go to ${providerKeyLink}\n`;
+        }
         userMessage += '• Generate a new API key\n';
         userMessage += '• Click the ⚙️ Settings button above to update your key\n';
       } else {
@@ -168,10 +176,12 @@ export function useAIChat({
       userMessage = '⚠️ **API Quota Exceeded**\n\n';
 
       if (userHasApiKey) {
-        userMessage += 'Your Gemini API key has reached its quota limit.\n\n';
+        userMessage += `Your ${provider.label} API key has reached its quota limit.\n\n`;
         userMessage += '**What you can do:**\n';
         userMessage += '• Wait for your quota to reset (usually 24 hours)\n';
-        userMessage += '• Check your usage at [Google AI Studio](https://aistudio.google.com/app/apikey)\n';
+        if (providerKeyLink) {
+          userMessage += `• Check your usage at ${providerKeyLink}\n`;
+        }
         userMessage += '• Upgrade to a paid plan for higher limits\n';
         if (retryDelay) {
           const seconds = Math.ceil(parseFloat(retryDelay));
@@ -473,6 +483,7 @@ export function useAIChat({
       let embeddedTrades: any | undefined;
       let embeddedEvents: any | undefined;
       let embeddedNotes: any | undefined;
+      const tradeActions: TradeActionProposal[] = [];
       let toolCallsInProgress: string[] = [];
 
       for await (const event of supabaseAIChatService.sendMessageStreaming(
@@ -542,6 +553,11 @@ export function useAIChat({
             embeddedNotes = event.data.embeddedNotes;
             break;
 
+          case 'trade_action':
+            logger.log(`Trade action proposed: ${event.data.action.type}`);
+            tradeActions.push({ ...event.data.action, status: 'pending' });
+            break;
+
           case 'done':
             messageHtml = event.data.messageHtml || '';
             logger.log('AI response streaming complete');
@@ -558,7 +574,7 @@ export function useAIChat({
         messageUpdateTimeoutRef.current = null;
       }
 
-      if (cancelRequestedRef.current || (!aiMessageAdded && !accumulatedText)) {
+      if (cancelRequestedRef.current || (!aiMessageAdded && !accumulatedText && tradeActions.length === 0)) {
         return;
       }
 
@@ -571,6 +587,7 @@ export function useAIChat({
         embeddedTrades,
         embeddedEvents,
         embeddedNotes,
+        tradeActions: tradeActions.length > 0 ? tradeActions : undefined,
         timestamp: new Date(),
         status: 'received'
       };
@@ -672,6 +689,50 @@ export function useAIChat({
     setEditingMessageId(null);
   }, []);
 
+  /**
+   * Apply or dismiss a trade action of an assistant message
+   * The result is stored on the action so the card shows it after reloading the conversation
+   */
+  const resolveTradeAction = useCallback(async (messageId: string, actionId: string, approve: boolean) => {
+    if (!userId) return;
+
+    const messageIndex = messages.findIndex(msg => msg.id === messageId);
+    const action = messageIndex === -1
+      ? undefined
+      : messages[messageIndex].tradeActions?.find(item => item.id === actionId);
+    if (!action || (action.status && action.status !== 'pending' && action.status !== 'failed')) return;
+
+    const withActionUpdate = (list: ChatMessageType[], updates: Partial<TradeActionProposal>) =>
+      list.map(msg => msg.id === messageId
+        ? {
+          ...msg,
+          tradeActions: msg.tradeActions?.map(item =>
+            item.id === actionId ? { ...item, ...updates } as TradeActionProposal : item
+          )
+        }
+        : msg
+      );
+
+    let updates: Partial<TradeActionProposal> = { status: 'dismissed', error: undefined };
+    if (approve) {
+      setMessages(prev => withActionUpdate(prev, { status: 'applying', error: undefined }));
+      try {
+        // Screenshots come from the user message the agent answered
+        const userMessage = messages.slice(0, messageIndex).reverse().find(msg => msg.role === 'user');
+        await applyTradeAction(action, userId, userMessage?.images);
+        updates = { status: 'applied', error: undefined };
+      } catch (error) {
+        updates = {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Failed to apply the changes'
+        };
+      }
+    }
+
+    setMessages(prev => withActionUpdate(prev, updates));
+    await saveCurrentConversation(withActionUpdate(messages, updates));
+  }, [userId, messages, saveCurrentConversation]);
+
   /**
    * Get welcome message
    */
@@ -742,6 +803,7 @@ What would you like to know about your trading?`,
     editMessage,
     setInputForEdit,
     clearEditingState,
+    resolveTradeAction,
 
     // Conversation management
     loadConversations,
@@ -14,7 +14,12 @@ import {
   useTransition,
 } from "react";
 import { Calendar, Trade } from "../types/dualWrite";
+import { ImportTradeBatch } from "../types/import";
 import * as calendarService from "../services/calendarService";
+import {
+  moveTradesToTrash,
+  restoreTradesFromTrash,
+} from "../services/trashService";
 import { useRealtimeSubscription } from "./useRealtimeSubscription";
 import { logger } from "../utils/logger";
 import {
@@ -22,6 +27,14 @@ import {
   calculateRiskAmount,
   DynamicRiskSettings,
 } from "../utils/dynamicRiskUtils";
+import { getTradeCosts } from "../utils/statsUtils";
+import {
+  evaluateChallengeRules,
+  findNewBreaches,
+  getChallengeStartDate,
+  isChallengeActive,
+} from "../utils/challengeRules";
+import { ChallengeEvaluation, ChallengeRuleResult } from "../types/challenge";
 import { supabase } from "../config/supabase";
 import { useTradeSyncContextOptional } from "../contexts/TradeSyncContext";
 export interface UseCalendarTradesOptions {
@@ -41,14 +54,24 @@ export interface UseCalendarTradesOptions {
    */
   enableRealtime?: boolean;
 
+  /**
+   * Trades already loaded for the calendar (e.g. by get-shared-calendar)
+   * When set, date ranges are served from these instead of the database
+   */
+  preloadedTrades?: Trade[];
 }
 
 /**
  * Custom hook to fetch and manage trades for a calendar with real-time updates
  */
 export function useCalendarTrades(options: UseCalendarTradesOptions) {
-  const { calendarId, selectedCalendar, enableRealtime = true, setLoading } =
-    options;
+  const {
+    calendarId,
+    selectedCalendar,
+    enableRealtime = true,
+    setLoading,
+    preloadedTrades,
+  } = options;
 
   // Get trade sync context for broadcasting updates to other components
   const tradeSync = useTradeSyncContextOptional();
@@ -457,10 +480,10 @@ export function useCalendarTrades(options: UseCalendarTradesOptions) {
   };
 
   /**
-   * Delete trades with optimistic update
+   * Remove trades with optimistic update, either permanently or to the trash
    */
-  const deleteTrades = useCallback(
-    async (tradeIds: string[]) => {
+  const removeTrades = useCallback(
+    async (tradeIds: string[], mode: "delete" | "trash") => {
       if (!calendarId) {
         throw new Error("Calendar ID is required");
       }
@@ -492,11 +515,16 @@ export function useCalendarTrades(options: UseCalendarTradesOptions) {
       });
 
       try {
-        // Delete trades one by one
-        await Promise.all(
-          tradeIds.map((tradeId) => calendarService.deleteTrade(tradeId)),
-        );
-        logger.log(`✅ Deleted ${tradeIds.length} trade(s)`);
+        if (mode === "trash") {
+          await moveTradesToTrash(tradeIds);
+          logger.log(`✅ Moved ${tradeIds.length} trade(s) to trash`);
+        } else {
+          // Delete trades one by one
+          await Promise.all(
+            tradeIds.map((tradeId) => calendarService.deleteTrade(tradeId)),
+          );
+          logger.log(`✅ Deleted ${tradeIds.length} trade(s)`);
+        }
 
         // Remove deleted trades from cache
         tradeIds.forEach((tradeId) => removeTradeFromCache(tradeId));
@@ -504,10 +532,13 @@ export function useCalendarTrades(options: UseCalendarTradesOptions) {
         // Broadcast delete to other components (e.g., PerformanceCharts)
         deletedTrades.forEach((trade) => tradeSync?.broadcastTradeDelete(trade));
 
-        setNotification({
-          message: `Deleted ${tradeIds.length} trade(s)`,
-          type: "success",
-        });
+        // Trashing is confirmed by the caller, which offers undo
+        if (mode === "delete") {
+          setNotification({
+            message: `Deleted ${tradeIds.length} trade(s)`,
+            type: "success",
+          });
+        }
         // Real-time subscription will handle the update
       } catch (err) {
         // Revert optimistic update on error
@@ -533,6 +564,54 @@ export function useCalendarTrades(options: UseCalendarTradesOptions) {
     [calendarId, updateTradesMap, removeTradeFromCache, tradeSync],
   );
 
+  /**
+   * Permanently delete trades (e.g. temporary trades of a cancelled form)
+   */
+  const deleteTrades = useCallback(
+    (tradeIds: string[]) => removeTrades(tradeIds, "delete"),
+    [removeTrades],
+  );
+
+  /**
+   * Move trades to the calendar's trash, from where they can be restored
+   */
+  const trashTrades = useCallback(
+    (tradeIds: string[]) => removeTrades(tradeIds, "trash"),
+    [removeTrades],
+  );
+
+  /**
+   * Restore trashed trades and add them back to the loaded trades
+   */
+  const restoreTrades = useCallback(
+    async (tradeIds: string[]) => {
+      if (!calendarId) {
+        throw new Error("Calendar ID is required");
+      }
+
+      await restoreTradesFromTrash(tradeIds);
+
+      const tradeRepository = calendarService.getTradeRepository();
+      const restoredTrades = (
+        await Promise.all(tradeIds.map((tradeId) => tradeRepository.findById(tradeId)))
+      ).filter((trade): trade is Trade => !!trade);
+
+      updateTradesMap((prev) => {
+        const next = new Map(prev);
+        restoredTrades.forEach((trade) => next.set(trade.id, trade));
+        return next;
+      });
+
+      restoredTrades.forEach((trade) => {
+        updateTradeInCache(trade);
+        tradeSync?.broadcastTradeInsert(trade);
+      });
+
+      logger.log(`♻️ Restored ${restoredTrades.length} trade(s) from trash`);
+    },
+    [calendarId, updateTradesMap, updateTradeInCache, tradeSync],
+  );
+
   // Function to handle dynamic risk toggle
   const handleToggleDynamicRisk = useCallback(async (
     useActualAmounts: boolean,
@@ -626,6 +705,9 @@ export function useCalendarTrades(options: UseCalendarTradesOptions) {
             newAmount = -Math.round(riskAmount);
           }
 
+          // Risk-based amounts are before costs; keep the trade's costs applied
+          newAmount -= getTradeCosts(trade);
+
           // Update cumulative P&L with the new amount
           cumulativePnL += newAmount;
 
@@ -672,23 +754,28 @@ export function useCalendarTrades(options: UseCalendarTradesOptions) {
   }, [calendar, trades, fetchAllTrades, startTransition, setTradesFromArray]);
 
   const handleImportTrades = useCallback(async (
-    importedTrades: Partial<Trade>[],
+    batch: ImportTradeBatch,
   ) => {
     if (!calendar) {
       throw new Error(`Calendar with ID ${calendarId} not found`);
     }
 
     try {
-      // All trades are already loaded with date-range loading
-
       // Show loading indicator
       setIsLoading(true);
-      const result = await calendarService.importTrades(
+      const { created, updated } = await calendarService.importTrades(
         calendar.id,
-        trades,
-        importedTrades,
+        batch,
       );
-      setTradesFromArray(result);
+
+      // Imports merge into the existing trades rather than replacing them
+      updateTradesMap((prev) => {
+        const newMap = new Map(prev);
+        for (const trade of [...updated, ...created]) {
+          newMap.set(trade.id, trade);
+        }
+        return newMap;
+      });
 
       // Clear cache since multiple trades were imported across different dates
       clearTradesCache();
@@ -698,7 +785,7 @@ export function useCalendarTrades(options: UseCalendarTradesOptions) {
     } finally {
       setIsLoading(false);
     }
-  }, [calendar, calendarId, trades, setTradesFromArray, clearTradesCache]);
+  }, [calendar, calendarId, updateTradesMap, clearTradesCache]);
 
   /**
    * Subscribe to calendar changes with real-time updates using Broadcast
@@ -801,6 +888,21 @@ export function useCalendarTrades(options: UseCalendarTradesOptions) {
         (payload: any) => {
           if (payload.payload?.record) {
             const updatedTrade = payload.payload.record as Trade;
+
+            // Moved to the trash: treat as a delete
+            if (updatedTrade.deleted_at) {
+              setTradesMap((prev) => {
+                if (!prev.has(updatedTrade.id)) return prev;
+                const next = new Map(prev);
+                next.delete(updatedTrade.id);
+                return next;
+              });
+              removeTradeFromCache(updatedTrade.id);
+
+              logger.log(`🗑️ Trade trashed via broadcast: ${updatedTrade.id}`);
+              return;
+            }
+
             // O(1) Map set instead of O(n) map
             setTradesMap((prev) => {
               const next = new Map(prev);
@@ -898,7 +1000,9 @@ export function useCalendarTrades(options: UseCalendarTradesOptions) {
           return next;
         });
 
-        await calendarService.getTradeRepository().bulkDelete(tradesToDelete);
+        if (tradesToDelete.length > 0) {
+          await moveTradesToTrash(tradesToDelete.map((trade) => trade.id));
+        }
 
         // Remove deleted trades from cache
         tradesToDelete.forEach((trade) => removeTradeFromCache(trade.id));
@@ -1006,6 +1110,14 @@ export function useCalendarTrades(options: UseCalendarTradesOptions) {
       return;
     }
 
+    if (preloadedTrades) {
+      setTradesFromArray(preloadedTrades.filter((trade) => {
+        const tradeDate = new Date(trade.trade_date);
+        return tradeDate.getFullYear() === year && tradeDate.getMonth() === month;
+      }));
+      return;
+    }
+
     // Check cache first
     const cacheKey = generateMonthCacheKey(year, month);
     const cachedTrades = getCachedTrades(cacheKey);
@@ -1051,7 +1163,7 @@ export function useCalendarTrades(options: UseCalendarTradesOptions) {
     } finally {
       setIsLoading(false);
     }
-  }, [calendarId, setTradesFromArray, generateMonthCacheKey, getCachedTrades, setCachedTrades]);
+  }, [calendarId, preloadedTrades, setTradesFromArray, generateMonthCacheKey, getCachedTrades, setCachedTrades]);
 
   /**
    * Load trades for the visible calendar date range
@@ -1065,6 +1177,14 @@ export function useCalendarTrades(options: UseCalendarTradesOptions) {
       return;
     }
 
+    if (preloadedTrades) {
+      setTradesFromArray(preloadedTrades.filter((trade) => {
+        const tradeTime = new Date(trade.trade_date).getTime();
+        return tradeTime >= startDate.getTime() && tradeTime <= endDate.getTime();
+      }));
+      return;
+    }
+
     // Check cache first
     const cacheKey = generateRangeCacheKey(startDate, endDate);
     const cachedTrades = getCachedTrades(cacheKey);
@@ -1110,7 +1230,7 @@ export function useCalendarTrades(options: UseCalendarTradesOptions) {
     } finally {
       setIsLoading(false);
     }
-  }, [calendarId, setTradesFromArray, generateRangeCacheKey, getCachedTrades, setCachedTrades]);
+  }, [calendarId, preloadedTrades, setTradesFromArray, generateRangeCacheKey, getCachedTrades, setCachedTrades]);
 
   function tagUpdateUIState(oldTag: string, newTag: string) {
     // Use calendar from hook state
@@ -1248,6 +1368,80 @@ export function useCalendarTrades(options: UseCalendarTradesOptions) {
       });
     });
   }
+  // ===== Challenge rules =====
+  // The visible range only covers part of a challenge, so the trades since its
+  // start are fetched separately and refreshed whenever the calendar changes
+  const challengeStartDate = isChallengeActive(calendar)
+    ? calendar!.challenge_rules!.start_date
+    : null;
+  const calendarVersion = calendar?.updated_at
+    ? new Date(calendar.updated_at).getTime()
+    : 0;
+  const [challengeTradesMap, setChallengeTradesMap] = useState<
+    Map<string, Trade>
+  >(new Map());
+
+  useEffect(() => {
+    if (!calendarId || !challengeStartDate) {
+      setChallengeTradesMap(new Map());
+      return;
+    }
+    if (preloadedTrades) {
+      setChallengeTradesMap(new Map(preloadedTrades.map((trade) => [trade.id, trade])));
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const start = getChallengeStartDate({ start_date: challengeStartDate });
+      // Look a year ahead so future-dated trades count too
+      const end = new Date();
+      end.setFullYear(end.getFullYear() + 1);
+
+      const fetched = await calendarService
+        .getTradeRepository()
+        .getTradesByDateRange(calendarId, start, end);
+      if (!cancelled) {
+        setChallengeTradesMap(new Map(fetched.map((trade) => [trade.id, trade])));
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [calendarId, challengeStartDate, calendarVersion, preloadedTrades]);
+
+  // Loaded trades win over the fetched copies so optimistic updates show immediately
+  const challengeTrades = useMemo(() => {
+    if (!challengeStartDate) return [];
+    const merged = new Map(challengeTradesMap);
+    tradesMap.forEach((trade, id) => merged.set(id, trade));
+    return Array.from(merged.values());
+  }, [challengeStartDate, challengeTradesMap, tradesMap]);
+
+  const challengeEvaluation = useMemo<ChallengeEvaluation | null>(() => {
+    if (!calendar?.challenge_rules || !challengeStartDate) return null;
+    return evaluateChallengeRules(calendar.challenge_rules, calendar, challengeTrades);
+  }, [calendar, challengeStartDate, challengeTrades]);
+
+  /**
+   * Rules that saving this trade (new or edited) would newly violate
+   */
+  const checkTradeAgainstChallengeRules = useCallback((
+    trade: Trade,
+  ): ChallengeRuleResult[] => {
+    if (!calendar?.challenge_rules || !challengeEvaluation) return [];
+
+    const withTrade = challengeTrades.filter((existing) => existing.id !== trade.id);
+    withTrade.push({ ...trade, is_temporary: false });
+
+    return findNewBreaches(
+      challengeEvaluation,
+      evaluateChallengeRules(calendar.challenge_rules, calendar, withTrade),
+    );
+  }, [calendar, challengeEvaluation, challengeTrades]);
+
   return {
     trades,
     calendar,
@@ -1255,6 +1449,8 @@ export function useCalendarTrades(options: UseCalendarTradesOptions) {
     error,
     addTrade,
     deleteTrades,
+    trashTrades,
+    restoreTrades,
     loadMonthTrades,
     loadVisibleRangeTrades,
     handleUpdateTradeProperty,
@@ -1267,5 +1463,7 @@ export function useCalendarTrades(options: UseCalendarTradesOptions) {
     notification,
     clearNotification,
     isTradeUpdating,
+    challengeEvaluation,
+    checkTradeAgainstChallengeRules,
   };
 }
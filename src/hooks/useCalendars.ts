@@ -8,6 +8,7 @@
 
 import useSWR from 'swr';
 import * as calendarService from '../services/calendarService';
+import { collaborationService } from '../services/collaborationService';
 import type { Calendar } from '../types/dualWrite';
 export type { Calendar };
 
@@ -111,3 +112,40 @@ export function useTrashCalendars(
     refresh: mutate,
   };
 }
+
+/**
+ * Calendars the user was invited to (not owned), with their role
+ */
+export function useMemberCalendars(
+  userId: string | undefined,
+  options: UseCalendarsOptions = {}
+) {
+  const {
+    refreshInterval = 0,
+    revalidateOnFocus = true,
+  } = options;
+
+  const { data, error, isLoading, mutate } = useSWR(
+    // Only fetch if userId is defined
+    userId ? ['member-calendars', userId] : null,
+    // Fetcher function
+    async () => {
+      if (!userId) return null;
+      return collaborationService.getMemberCalendars(userId);
+    },
+    {
+      revalidateOnFocus,
+      dedupingInterval: 2000,
+      refreshInterval,
+      shouldRetryOnError: false,
+      keepPreviousData: true,
+    }
+  );
+
+  return {
+    memberCalendars: data ?? [],
+    isLoading,
+    error,
+    refresh: mutate,
+  };
+}
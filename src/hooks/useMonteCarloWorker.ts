@@ -0,0 +1,196 @@
+/**
+ * useMonteCarloWorker Hook
+ *
+ * React hook for using the Monte Carlo Worker with automatic fallback.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import {
+  runMonteCarloInWorker,
+  terminateMonteCarloWorker,
+  RunMonteCarloRequest,
+  RunMonteCarloResponse,
+  MonteCarloEquityBand
+} from '../workers/monteCarloWorker';
+import { DynamicRiskSettings } from '../utils/dynamicRiskUtils';
+import { logger } from '../utils/logger';
+
+interface UseMonteCarloWorkerOptions {
+  useWorker?: boolean;
+  fallbackOnError?: boolean;
+}
+
+// mulberry32: small seeded PRNG so a run can be reproduced
+function createRandom(seed?: number): () => number {
+  if (seed === undefined) return Math.random;
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function percentile(sorted: ArrayLike<number>, p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round((p / 100) * (sorted.length - 1))));
+  return sorted[index];
+}
+
+function effectiveRiskPercentage(equity: number, settings: DynamicRiskSettings): number {
+  const base = settings.risk_per_trade || 0;
+  if (!settings.dynamic_risk_enabled ||
+      !settings.increased_risk_percentage ||
+      !settings.profit_threshold_percentage ||
+      settings.account_balance <= 0) {
+    return base;
+  }
+  const profitPercentage = ((equity - settings.account_balance) / settings.account_balance) * 100;
+  return profitPercentage >= settings.profit_threshold_percentage ? settings.increased_risk_percentage : base;
+}
+
+/**
+ * Fallback: Run the Monte Carlo simulation on main thread
+ */
+function runMonteCarloFallback(request: RunMonteCarloRequest): RunMonteCarloResponse {
+  const {
+    outcomes, outcomeType, tradesPerDay, riskSettings,
+    maxDailyDrawdown, maxTotalDrawdown, monthlyTarget, horizonDays, simulations, seed
+  } = request;
+  const random = createRandom(seed);
+  const startingBalance = riskSettings.account_balance;
+  const targetEquity = monthlyTarget ? startingBalance * (1 + monthlyTarget / 100) : null;
+  const dayCounts = tradesPerDay.length > 0 ? tradesPerDay : [1];
+
+  const equity = new Float64Array((horizonDays + 1) * simulations);
+  const maxDrawdowns = new Float64Array(simulations);
+  const daysToTarget: number[] = [];
+  let dailyBreaches = 0;
+  let totalBreaches = 0;
+
+  for (let sim = 0; sim < simulations; sim++) {
+    let current = startingBalance;
+    let peak = startingBalance;
+    let maxDrawdown = 0;
+    let dailyBreached = false;
+    let ruined = false;
+    let hitTarget = false;
+    equity[sim] = current;
+
+    for (let day = 1; day <= horizonDays; day++) {
+      if (!ruined) {
+        const dayStart = current;
+        const count = dayCounts[Math.floor(random() * dayCounts.length)];
+
+        for (let t = 0; t < count; t++) {
+          const outcome = outcomes[Math.floor(random() * outcomes.length)];
+          current += outcomeType === 'r'
+            ? outcome * (current * effectiveRiskPercentage(current, riskSettings)) / 100
+            : outcome;
+        }
+
+        if (maxDailyDrawdown > 0 && dayStart - current >= (dayStart * maxDailyDrawdown) / 100) {
+          dailyBreached = true;
+        }
+
+        peak = Math.max(peak, current);
+        const drawdown = peak > 0 ? ((peak - current) / peak) * 100 : 100;
+        maxDrawdown = Math.max(maxDrawdown, drawdown);
+
+        if (current <= 0 || (maxTotalDrawdown > 0 && drawdown >= maxTotalDrawdown)) {
+          ruined = true;
+          current = Math.max(current, 0);
+        }
+
+        if (!hitTarget && targetEquity !== null && current >= targetEquity) {
+          hitTarget = true;
+          daysToTarget.push(day);
+        }
+      }
+      equity[day * simulations + sim] = current;
+    }
+
+    maxDrawdowns[sim] = maxDrawdown;
+    if (dailyBreached) dailyBreaches++;
+    if (ruined) totalBreaches++;
+  }
+
+  const equityBands: MonteCarloEquityBand[] = [];
+  for (let day = 0; day <= horizonDays; day++) {
+    const column = equity.slice(day * simulations, (day + 1) * simulations).sort();
+    equityBands.push({
+      day,
+      p5: percentile(column, 5),
+      p25: percentile(column, 25),
+      p50: percentile(column, 50),
+      p75: percentile(column, 75),
+      p95: percentile(column, 95)
+    });
+  }
+
+  const finalColumn = equity.slice(horizonDays * simulations).sort();
+  daysToTarget.sort((a, b) => a - b);
+
+  return {
+    simulations,
+    equityBands,
+    dailyDrawdownBreachProbability: dailyBreaches / simulations,
+    totalDrawdownBreachProbability: totalBreaches / simulations,
+    targetHitProbability: targetEquity !== null ? daysToTarget.length / simulations : null,
+    medianDaysToTarget: daysToTarget.length > 0 ? percentile(daysToTarget, 50) : null,
+    medianMaxDrawdown: percentile(maxDrawdowns.sort(), 50),
+    finalEquity: {
+      p5: percentile(finalColumn, 5),
+      p50: percentile(finalColumn, 50),
+      p95: percentile(finalColumn, 95)
+    }
+  };
+}
+
+/**
+ * Hook for running Monte Carlo simulations using Web Worker with automatic fallback
+ */
+export function useMonteCarloWorker(options: UseMonteCarloWorkerOptions = {}) {
+  const { useWorker = true, fallbackOnError = true } = options;
+  const workerFailedRef = useRef(false);
+
+  useEffect(() => {
+    return () => {
+      terminateMonteCarloWorker();
+    };
+  }, []);
+
+  const runSimulation = useCallback(
+    async (request: RunMonteCarloRequest): Promise<RunMonteCarloResponse> => {
+      if (!useWorker || workerFailedRef.current || typeof Worker === 'undefined') {
+        return runMonteCarloFallback(request);
+      }
+
+      try {
+        const result = await runMonteCarloInWorker(request);
+        return result;
+      } catch (error) {
+        logger.error('Monte Carlo worker failed:', error);
+        workerFailedRef.current = true;
+
+        if (fallbackOnError) {
+          logger.info('Falling back to main thread for Monte Carlo simulation');
+          return runMonteCarloFallback(request);
+        }
+
+        throw error;
+      }
+    },
+    [useWorker, fallbackOnError]
+  );
+
+  return {
+    runSimulation,
+    isUsingWorker: useWorker && !workerFailedRef.current && typeof Worker !== 'undefined',
+    resetWorkerState: () => {
+      workerFailedRef.current = false;
+    }
+  };
+}
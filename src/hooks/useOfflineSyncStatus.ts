@@ -0,0 +1,12 @@
+/**
+ * useOfflineSyncStatus Hook
+ * Connection state and progress of the offline write queue
+ */
+
+import { useSyncExternalStore } from 'react';
+import { offlineSyncService } from '../services/offlineSyncService';
+import { OfflineSyncStatus } from '../types/offline';
+
+export function useOfflineSyncStatus(): OfflineSyncStatus {
+  return useSyncExternalStore(offlineSyncService.subscribe, offlineSyncService.getStatus);
+}
@@ -0,0 +1,93 @@
+/**
+ * Calendar Invite Page
+ * Consumes a calendar invite link and opens the calendar it grants access to
+ */
+
+import React, { useEffect, useState, useRef } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Box, CircularProgress, Typography, Alert, Button } from '@mui/material';
+import { inviteService } from '../services/inviteService';
+import { useAuthState } from '../contexts/AuthStateContext';
+import { useMemberCalendars } from '../hooks/useCalendars';
+import { logger } from '../utils/logger';
+
+const CalendarInvitePage: React.FC = () => {
+  const navigate = useNavigate();
+  const { code } = useParams<{ code: string }>();
+  const { user } = useAuthState();
+  const { refresh: refreshMemberCalendars } = useMemberCalendars(user?.uid);
+  const [error, setError] = useState<string | null>(null);
+  // Invites are single use; guard against effects running twice
+  const hasConsumed = useRef(false);
+
+  useEffect(() => {
+    if (!code || hasConsumed.current) return;
+    hasConsumed.current = true;
+
+    const consume = async () => {
+      const result = await inviteService.consumeInviteCode(code);
+
+      if (!result.success || !result.calendarId) {
+        logger.warn('Calendar invite could not be used:', result.error || result.message);
+        setError(result.error || result.message || 'This invite link is invalid or has expired.');
+        return;
+      }
+
+      await refreshMemberCalendars();
+      navigate(`/calendar/${result.calendarId}`, { replace: true });
+    };
+
+    consume();
+  }, [code, navigate, refreshMemberCalendars]);
+
+  if (error) {
+    return (
+      <Box
+        sx={{
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          minHeight: '100vh',
+          gap: 2,
+          px: 2,
+          maxWidth: 500,
+          mx: 'auto'
+        }}
+      >
+        <Alert severity="error" sx={{ width: '100%' }}>
+          <Typography variant="h6" gutterBottom>
+            Invite Not Accepted
+          </Typography>
+          <Typography variant="body2">
+            {error}
+          </Typography>
+        </Alert>
+        <Button variant="contained" onClick={() => navigate('/dashboard', { replace: true })}>
+          Go to dashboard
+        </Button>
+      </Box>
+    );
+  }
+
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        minHeight: '100vh',
+        gap: 2,
+        px: 2
+      }}
+    >
+      <CircularProgress size={48} />
+      <Typography variant="h6" color="text.secondary">
+        Joining calendar...
+      </Typography>
+    </Box>
+  );
+};
+
+export default CalendarInvitePage;
@@ -1,35 +1,206 @@
-import React from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
 import {
   Box,
   Typography,
   Container,
-  Toolbar
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  InputAdornment,
+  Alert,
+  CircularProgress,
+  Button
 } from '@mui/material';
+import { Search as SearchIcon } from '@mui/icons-material';
 import AnimatedBackground from '../components/common/AnimatedBackground';
+import CommunityLeaderboard, { isAscendingSort } from '../components/community/CommunityLeaderboard';
+import CommunityProfileView from '../components/community/CommunityProfileView';
+import { communityService } from '../services/communityService';
+import { CommunityProfileSummary, CommunitySortField } from '../types/community';
+import { logger } from '../utils/logger';
 
 interface CommunityPageProps {
   onToggleTheme: () => void;
   mode: 'light' | 'dark';
 }
 
+const SORT_OPTIONS: { value: CommunitySortField; label: string }[] = [
+  { value: 'growth_percentage', label: 'Growth %' },
+  { value: 'win_rate', label: 'Win rate' },
+  { value: 'profit_factor', label: 'Profit factor' },
+  { value: 'max_drawdown', label: 'Lowest drawdown' },
+  { value: 'total_trades', label: 'Most trades' },
+  { value: 'created_at', label: 'Newest' }
+];
+
+// Small samples make the leaderboard noisy, so traders can hide them
+const MIN_TRADE_OPTIONS = [0, 10, 50, 100];
+
 const CommunityPage: React.FC<CommunityPageProps> = ({ onToggleTheme, mode }) => {
+  const { profileId } = useParams<{ profileId: string }>();
+  const navigate = useNavigate();
+
+  const [profiles, setProfiles] = useState<CommunityProfileSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [minTrades, setMinTrades] = useState(0);
+  const [sortField, setSortField] = useState<CommunitySortField>('growth_percentage');
+
+  const loadProfiles = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setProfiles(await communityService.getProfiles());
+    } catch (err) {
+      logger.error('Error loading community profiles:', err);
+      setError('Failed to load the community. Please try again later.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  const visibleProfiles = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const direction = isAscendingSort(sortField) ? 1 : -1;
+
+    return profiles
+      .filter(profile => profile.total_trades >= minTrades)
+      .filter(profile => !query ||
+        profile.display_name.toLowerCase().includes(query) ||
+        (profile.bio || '').toLowerCase().includes(query))
+      .sort((a, b) => {
+        const diff = sortField === 'created_at'
+          ? a.created_at.getTime() - b.created_at.getTime()
+          : a[sortField] - b[sortField];
+        return diff * direction;
+      });
+  }, [profiles, search, minTrades, sortField]);
+
+  const selectedProfile = profileId ? profiles.find(profile => profile.id === profileId) : undefined;
+
+  if (profileId && selectedProfile) {
+    return (
+      <CommunityProfileView
+        profile={selectedProfile}
+        mode={mode}
+        onToggleTheme={onToggleTheme}
+        onBack={() => navigate('/community')}
+      />
+    );
+  }
+
   return (
-    <Box sx={{ height: '100vh', display: 'flex', flexDirection: 'column', bgcolor: 'background.default', position: 'relative', overflow: 'hidden' }}>
+    <Box sx={{ minHeight: '100vh', display: 'flex', flexDirection: 'column', bgcolor: 'background.default', position: 'relative', overflow: 'hidden' }}>
       <AnimatedBackground />
 
       <Container maxWidth="lg" sx={{ flex: 1, py: 4, position: 'relative', zIndex: 1 }}>
-        <Box sx={{ textAlign: 'center', mt: 8 }}>
+        <Box sx={{ mb: 3 }}>
           <Typography variant="h4" gutterBottom>
             Community
           </Typography>
           <Typography variant="body1" color="text.secondary">
-            Coming Soon
+            Traders who opted a shared calendar into a public profile. Stats are normalised - percentages
+            and ratios only, never account sizes.
           </Typography>
         </Box>
+
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 3 }}>
+          <TextField
+            size="small"
+            placeholder="Search traders"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            sx={{ flex: 1, minWidth: 220 }}
+            slotProps={{
+              input: {
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <SearchIcon fontSize="small" />
+                  </InputAdornment>
+                )
+              }
+            }}
+          />
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <InputLabel>Minimum trades</InputLabel>
+            <Select
+              label="Minimum trades"
+              value={minTrades}
+              onChange={(e) => setMinTrades(Number(e.target.value))}
+            >
+              {MIN_TRADE_OPTIONS.map(option => (
+                <MenuItem key={option} value={option}>
+                  {option === 0 ? 'Any' : `${option}+`}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <InputLabel>Sort by</InputLabel>
+            <Select
+              label="Sort by"
+              value={sortField}
+              onChange={(e) => setSortField(e.target.value as CommunitySortField)}
+            >
+              {SORT_OPTIONS.map(option => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+
+        {error && (
+          <Alert
+            severity="error"
+            sx={{ mb: 2 }}
+            action={<Button color="inherit" size="small" onClick={loadProfiles}>Retry</Button>}
+          >
+            {error}
+          </Alert>
+        )}
+
+        {profileId && !loading && !selectedProfile && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            This profile is no longer listed.
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+            <CircularProgress />
+          </Box>
+        ) : visibleProfiles.length === 0 ? (
+          <Box sx={{ textAlign: 'center', py: 8 }}>
+            <Typography variant="body1" color="text.secondary" gutterBottom>
+              {profiles.length === 0 ? 'No public profiles yet.' : 'No traders match these filters.'}
+            </Typography>
+            {profiles.length === 0 && (
+              <Typography variant="body2" color="text.secondary">
+                Share a calendar and choose "Community profile" in its share menu to be the first.
+              </Typography>
+            )}
+          </Box>
+        ) : (
+          <CommunityLeaderboard
+            profiles={visibleProfiles}
+            sortField={sortField}
+            onSortChange={setSortField}
+            onSelect={(profile) => navigate(`/community/${profile.id}`)}
+          />
+        )}
       </Container>
     </Box>
   );
 };
 
 export default CommunityPage;
-
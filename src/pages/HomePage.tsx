@@ -13,7 +13,8 @@ import {
   DialogContent,
   DialogActions,
   Button,
-  IconButton
+  IconButton,
+  Chip
 } from '@mui/material';
 import {
   Add as AddIcon,
@@ -25,15 +26,17 @@ import {
   Edit as EditIcon,
   SmartToy as AIIcon,
   DeleteOutline as TrashIcon,
-  Close as CloseIcon
+  Close as CloseIcon,
+  Group as SharedIcon
 } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 import { Calendar } from '../types/calendar';
-import { Trade } from '../types/dualWrite';
+import { CalendarSyncSettings, Trade } from '../types/dualWrite';
 import { formatCurrency } from '../utils/formatters';
 import { TradeWithCalendarName, useRecentTrades } from '../hooks/useRecentTrades';
 import { useUpcomingEconomicEvents } from '../hooks/useUpcomingEconomicEvents';
-import { useCalendars, useTrashCalendars } from '../hooks/useCalendars';
+import { useCalendars, useTrashCalendars, useMemberCalendars } from '../hooks/useCalendars';
+import { CALENDAR_ROLE_LABELS } from '../types/collaboration';
 import { useCalendarTrades } from '../hooks/useCalendarTrades';
 
 import Shimmer from '../components/Shimmer';
@@ -100,6 +103,12 @@ const Home: React.FC<HomeProps> = ({
     refresh: refreshTrashCalendars
   } = useTrashCalendars(hasLoadedTrash ? user?.uid : undefined);
 
+  const {
+    memberCalendars,
+    isLoading: loadingMemberCalendars,
+    refresh: refreshMemberCalendars
+  } = useMemberCalendars(user?.uid);
+
   const [economicCalendarOpen, setEconomicCalendarOpen] = useState(false);
   const [isCreateCalendarDialogOpen, setIsCreateCalendarDialogOpen] = useState(false);
   const [isCreatingCalendar, setIsCreatingCalendar] = useState(false);
@@ -116,7 +125,7 @@ const Home: React.FC<HomeProps> = ({
   // Notes drawer state
   const [isNotesDrawerOpen, setIsNotesDrawerOpen] = useState(false);
 
-  // Calendar tabs state (0 = Recent, 1 = Trash)
+  // Calendar tabs state (0 = Recent, 1 = Trash, 2 = Shared with me)
   const [calendarTabIndex, setCalendarTabIndex] = useState(0);
 
   // Calendar list dialog state
@@ -264,15 +273,13 @@ const Home: React.FC<HomeProps> = ({
     }
   };
 
-  const handleLinkSubmit = async (targetCalendarId: string) => {
-    if (!calendarToLink) return;
+  // Link handlers keep the dialog open so it can show every target and its sync status
+  const handleLinkSubmit = async (targetCalendarId: string, syncSettings: CalendarSyncSettings) => {
+    if (!calendarToLink || !user) return;
 
     setIsLinking(true);
     try {
-      await calendarService.linkCalendar(calendarToLink.id, targetCalendarId);
-      await refreshCalendars();
-      setIsLinkDialogOpen(false);
-      setCalendarToLink(null);
+      await calendarService.linkCalendar(calendarToLink.id, targetCalendarId, user.uid, syncSettings);
     } catch (error) {
       logger.error('Error linking calendar:', error);
       throw error;
@@ -281,15 +288,22 @@ const Home: React.FC<HomeProps> = ({
     }
   };
 
-  const handleUnlinkSubmit = async () => {
-    if (!calendarToLink) return;
+  const handleSyncSettingsSubmit = async (linkId: string, syncSettings: CalendarSyncSettings) => {
+    setIsLinking(true);
+    try {
+      await calendarService.updateCalendarLinkSettings(linkId, syncSettings);
+    } catch (error) {
+      logger.error('Error updating sync settings:', error);
+      throw error;
+    } finally {
+      setIsLinking(false);
+    }
+  };
 
+  const handleUnlinkSubmit = async (linkId: string) => {
     setIsLinking(true);
     try {
-      await calendarService.unlinkCalendar(calendarToLink.id);
-      await refreshCalendars();
-      setIsLinkDialogOpen(false);
-      setCalendarToLink(null);
+      await calendarService.unlinkCalendar(linkId);
     } catch (error) {
       logger.error('Error unlinking calendar:', error);
       throw error;
@@ -368,6 +382,9 @@ const Home: React.FC<HomeProps> = ({
       } else {
         refreshTrashCalendars();
       }
+    } else if (newValue === 2) {
+      // Switching to Shared with me - refresh memberships
+      refreshMemberCalendars();
     }
   };
 
@@ -1024,7 +1041,8 @@ const Home: React.FC<HomeProps> = ({
               <RoundedTabs
                 tabs={[
                   { label: 'Recent Calendars', icon: <CalendarToday sx={{ fontSize: 18 }} /> },
-                  { label: 'Trash', icon: <TrashIcon sx={{ fontSize: 18 }} /> }
+                  { label: 'Trash', icon: <TrashIcon sx={{ fontSize: 18 }} /> },
+                  { label: 'Shared with me', icon: <SharedIcon sx={{ fontSize: 18 }} /> }
                 ]}
                 activeTab={calendarTabIndex}
                 onTabChange={handleCalendarTabChange} 
@@ -1164,6 +1182,65 @@ const Home: React.FC<HomeProps> = ({
                 </Box>
               )}
             </TabPanel>
+
+            {/* Shared With Me Tab */}
+            <TabPanel value={calendarTabIndex} index={2}>
+              {loadingMemberCalendars ? (
+                <Box sx={{ px: 2, pb: 2, flex: 1, display: 'flex', flexDirection: 'column', gap: 2 }}>
+                  <Shimmer width="100%" height={60} sx={{ borderRadius: 2 }} />
+                  <Shimmer width="100%" height={60} sx={{ borderRadius: 2 }} />
+                </Box>
+              ) : memberCalendars.length === 0 ? (
+                <Box sx={{
+                  textAlign: 'center',
+                  py: 6,
+                  px: 2,
+                  flex: 1,
+                  display: 'flex',
+                  flexDirection: 'column',
+                  justifyContent: 'center',
+                  alignItems: 'center'
+                }}>
+                  <SharedIcon sx={{ fontSize: 48, color: 'text.secondary', mb: 2, mx: 'auto' }} />
+                  <Typography variant="subtitle2" color="text.primary" sx={{ mb: 1, fontWeight: 600 }}>
+                    No shared calendars
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary" sx={{ mb: 3, maxWidth: 300 }}>
+                    Calendars other traders invite you to as an editor, commenter or viewer will appear here
+                  </Typography>
+                </Box>
+              ) : (
+                <Stack spacing={1} sx={{ px: 2, pb: 2, flex: 1 }}>
+                  {memberCalendars.map(({ calendar, role }) => (
+                    <Box
+                      key={calendar.id}
+                      onClick={() => handleCalendarClick(calendar.id)}
+                      sx={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'space-between',
+                        gap: 1.5,
+                        p: 1.5,
+                        borderRadius: 2,
+                        cursor: 'pointer',
+                        border: `1px solid ${alpha(theme.palette.divider, 0.5)}`,
+                        '&:hover': { bgcolor: alpha(theme.palette.primary.main, 0.05) }
+                      }}
+                    >
+                      <Box sx={{ minWidth: 0 }}>
+                        <Typography variant="body2" fontWeight={600} noWrap>
+                          {calendar.name}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {formatCurrency(calendar.account_balance + (calendar.total_pnl || 0))}
+                        </Typography>
+                      </Box>
+                      <Chip size="small" label={CALENDAR_ROLE_LABELS[role]} variant="outlined" />
+                    </Box>
+                  ))}
+                </Stack>
+              )}
+            </TabPanel>
           </Card>
 
   {/* Economic Events Section */}
@@ -1528,6 +1605,7 @@ const Home: React.FC<HomeProps> = ({
         }}
         onLink={handleLinkSubmit}
         onUnlink={handleUnlinkSubmit}
+        onUpdateSyncSettings={handleSyncSettingsSubmit}
       />
 
       {/* Delete Calendar Dialog */}
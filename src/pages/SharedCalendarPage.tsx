@@ -12,22 +12,14 @@ import {
 } from '@mui/material';
 import { createTheme } from '@mui/material/styles';
 import { createAppTheme } from '../theme';
-import { TradeCalendar } from './TradeCalendarPage';
 import AppHeader from '../components/common/AppHeader';
+import SharePasswordPrompt from '../components/sharing/SharePasswordPrompt';
+import SharedCalendarContent, { SharedCalendarData } from '../components/sharing/SharedCalendarContent';
 import { getSharedTradesWithCalendar } from '../services/sharingService';
 import { Trade, Calendar } from '../types/dualWrite';
+import { SHARE_ACCESS_ERROR_CODES } from '../types/sharing';
 import { logger } from '../utils/logger';
-
-interface SharedCalendarData {
-  calendar: Calendar;
-  trades: Trade[];
-  shareInfo: {
-    id: string;
-    createdAt: Date;
-    viewCount: number;
-    userId: string;
-  };
-}
+import { setAmountUnit } from '../utils/formatters';
 
 const SharedCalendarPage: React.FC = () => {
   const { shareId } = useParams<{ shareId: string }>();
@@ -49,6 +41,16 @@ const SharedCalendarPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [isLoadingTrades, setIsLoadingTrades] = useState<boolean>(false);
   const [loadingAction, setLoadingAction] = useState<'loading' | 'importing' | 'exporting'>('loading');
+  const [password, setPassword] = useState<string | undefined>(undefined);
+  const [passwordRequired, setPasswordRequired] = useState(false);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  // Bumped on every submit so retrying the same password refetches
+  const [passwordAttempt, setPasswordAttempt] = useState(0);
+
+  // Amounts go back to dollars when leaving the page
+  useEffect(() => {
+    return () => setAmountUnit('currency');
+  }, []);
 
   // Update theme mode in localStorage when it changes
   useEffect(() => {
@@ -91,7 +93,7 @@ const SharedCalendarPage: React.FC = () => {
         setLoading(true);
         setError(null);
 
-        const data = await getSharedTradesWithCalendar(shareId);
+        const data = await getSharedTradesWithCalendar(shareId, password);
 
         // Data is already in the correct format from the service
         const calendar: Calendar = data.calendar;
@@ -102,11 +104,15 @@ const SharedCalendarPage: React.FC = () => {
           createdAt: new Date(data.shareInfo.createdAt)
         };
 
+        // Set before the calendar renders so no amount shows with a dollar sign
+        setAmountUnit(shareInfo.amountUnit);
+
         setCalendarData({
           calendar,
           trades,
           shareInfo
         });
+        setPasswordRequired(false);
 
         // Update document title
         document.title = `${calendar.name} - Shared Calendar | Trade Tracker`;
@@ -114,7 +120,17 @@ const SharedCalendarPage: React.FC = () => {
       } catch (error: any) {
         logger.error('Error fetching shared calendar:', error);
 
-        if (error.code === 'functions/not-found') {
+        if (error.code === SHARE_ACCESS_ERROR_CODES.PASSWORD_REQUIRED) {
+          setPasswordRequired(true);
+        } else if (error.code === SHARE_ACCESS_ERROR_CODES.INCORRECT_PASSWORD) {
+          setPasswordRequired(true);
+          setPasswordError('Incorrect password. Please try again.');
+        } else if (error.code === SHARE_ACCESS_ERROR_CODES.TOO_MANY_ATTEMPTS) {
+          setPasswordRequired(true);
+          setPasswordError('Too many attempts. Please wait a few minutes and try again.');
+        } else if (error.code === SHARE_ACCESS_ERROR_CODES.EXPIRED) {
+          setError('This share link has expired. Ask the owner for a new link.');
+        } else if (error.code === 'functions/not-found') {
           setError('This shared calendar could not be found. It may have been removed or the link is invalid.');
         } else if (error.code === 'functions/permission-denied') {
           setError('This shared calendar is no longer available.');
@@ -127,7 +143,13 @@ const SharedCalendarPage: React.FC = () => {
     };
 
     fetchSharedCalendar();
-  }, [shareId]);
+  }, [shareId, password, passwordAttempt]);
+
+  const handlePasswordSubmit = (value: string) => {
+    setPasswordError(null);
+    setPassword(value);
+    setPasswordAttempt(attempt => attempt + 1);
+  };
 
   if (!shareId) {
     return (
@@ -157,6 +179,37 @@ const SharedCalendarPage: React.FC = () => {
     );
   }
 
+  if (passwordRequired) {
+    return (
+      <ThemeProvider theme={theme}>
+        <CssBaseline />
+        <Box sx={{ minHeight: '100vh', backgroundColor: 'custom.pageBackground' }}>
+          <AppHeader
+            onToggleTheme={handleToggleTheme}
+            mode={mode}
+          />
+          <Toolbar sx={{ pl: 0, pr: 0 }} />
+
+          <Container
+            maxWidth="md"
+            sx={{
+              pt: { xs: 2, sm: 4 },
+              pb: { xs: 2, sm: 4 },
+              px: { xs: 1, sm: 3 }
+            }}
+          >
+            <SharePasswordPrompt
+              itemType="calendar"
+              error={passwordError}
+              isSubmitting={loading}
+              onSubmit={handlePasswordSubmit}
+            />
+          </Container>
+        </Box>
+      </ThemeProvider>
+    );
+  }
+
   if (loading) {
     return (
       <ThemeProvider theme={theme}>
@@ -274,24 +327,12 @@ const SharedCalendarPage: React.FC = () => {
 
 
 
-        {/* Calendar Content - Using TradeCalendar in read-only mode */}
-        {/* Trades are fetched directly by useCalendarTrades via RLS policies */}
-        <TradeCalendar
-          calendar={calendarData.calendar}
-          setLoading={handleSetLoading}
-          onToggleTheme={handleToggleTheme}
+        <SharedCalendarContent
+          calendarData={calendarData}
           mode={mode}
-          isReadOnly={true}
+          onToggleTheme={handleToggleTheme}
+          setLoading={handleSetLoading}
         />
-
-        {/* Share Statistics */}
-        <Container maxWidth="lg" sx={{ py: 2 }}>
-          <Box sx={{ textAlign: 'center' }}>
-            <Typography variant="caption" color="text.secondary">
-              This calendar has been viewed {calendarData.shareInfo.viewCount} time{calendarData.shareInfo.viewCount !== 1 ? 's' : ''}
-            </Typography>
-          </Box>
-        </Container>
       </Box>
     </ThemeProvider>
   );
@@ -39,7 +39,11 @@ import {
   CalendarToday as CalendarIcon,
   Notes as NotesIcon,
   Edit as EditIcon,
-  Flag as TargetIcon
+  Flag as TargetIcon,
+  Group as MembersIcon,
+  DeleteOutline as TrashIcon,
+  FactCheck as ChecklistIcon,
+  Schedule as SessionsIcon
 } from '@mui/icons-material';
 import {
   format,
@@ -84,6 +88,10 @@ import ImageZoomDialog, { ImageZoomProp } from '../components/ImageZoomDialog';
 import Breadcrumbs, { BreadcrumbItem, BreadcrumbButton, DropdownItem } from '../components/common/Breadcrumbs';
 import { NewTradeForm, TradeImage } from '../components/trades/TradeForm';
 import { Calendar } from '../types/calendar';
+import { ImportTradeBatch } from '../types/import';
+import { ChallengeRules } from '../types/challenge';
+import { ChecklistTemplate } from '../types/checklist';
+import { SessionDefinition, getCalendarSessions } from '../utils/sessionTimeUtils';
 import { CalendarRepository } from '../services/repository/repositories/CalendarRepository';
 import MonthlyStats from '../components/MonthlyStats';
 import AccountStats from '../components/AccountStats';
@@ -93,6 +101,13 @@ import ConfirmationDialog from '../components/common/ConfirmationDialog';
 import PinnedTradesDrawer from '../components/PinnedTradesDrawer';
 import TradeGalleryDialog from '../components/TradeGalleryDialog';
 import ShareButton from '../components/sharing/ShareButton';
+import CalendarMembersDialog from '../components/collaboration/CalendarMembersDialog';
+import TradeTrashDialog from '../components/trash/TradeTrashDialog';
+import TradeChecklistDialog from '../components/dialogs/TradeChecklistDialog';
+import TradingSessionsDialog from '../components/dialogs/TradingSessionsDialog';
+import WeeklyReviewButton from '../components/notes/WeeklyReviewButton';
+import { TRASH_RETENTION_DAYS } from '../services/trashService';
+import { CalendarRole } from '../types/collaboration';
 
 import AIChatDrawer from '../components/aiChat/AIChatDrawer';
 import NotesDrawer from '../components/notes/NotesDrawer';
@@ -127,6 +142,10 @@ interface TradeCalendarProps {
   mode: 'light' | 'dark';
   // Read-only mode for shared calendars
   isReadOnly?: boolean;
+  // Trades served by get-shared-calendar, used instead of querying the database
+  preloadedTrades?: Trade[];
+  // Role of the signed-in user; unset on public share links
+  calendarRole?: CalendarRole;
 }
 
 
@@ -311,6 +330,12 @@ export const createNewTradeData = (): NewTradeForm => ({
   take_profit: 0,
   tags: [],
   risk_to_reward: 0,
+  instrument: '',
+  direction: '',
+  position_size: 0,
+  commission: 0,
+  swap: 0,
+  fees: 0,
   partials_taken: false,
   session: '',
   notes: '',
@@ -510,7 +535,9 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
     setLoading,
     onToggleTheme,
     mode,
-    isReadOnly = false
+    isReadOnly = false,
+    preloadedTrades,
+    calendarRole
   } = props;
 
 
@@ -526,6 +553,8 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
     isLoading: isLoadingTrades,
     addTrade: handleAddTrade,
     deleteTrades: handleDeleteTrades,
+    trashTrades: handleTrashTrades,
+    restoreTrades: handleRestoreTrades,
     handleUpdateTradeProperty,
     onTagUpdated: handleTagUpdated,
     handleToggleDynamicRisk,
@@ -538,11 +567,14 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
     isTradeUpdating,
     loadMonthTrades,
     loadVisibleRangeTrades,
+    challengeEvaluation,
+    checkTradeAgainstChallengeRules,
   } = useCalendarTrades({
     calendarId,
     selectedCalendar,
     setLoading,
-    enableRealtime: !isReadOnly // Disable real-time for read-only mode
+    enableRealtime: !isReadOnly || !!calendarRole, // Disable real-time for public share links
+    preloadedTrades
   });
 
   // Show notifications from useCalendarTrades hook
@@ -588,9 +620,9 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
 
 
   // Wrapper for import trades handler to pass setLoading
-  const handleImportTrades = useCallback(async (importedTrades: Partial<Trade>[]) => {
+  const handleImportTrades = useCallback(async (batch: ImportTradeBatch) => {
     try {
-      await hookHandleImportTrades(importedTrades);
+      await hookHandleImportTrades(batch);
     } catch (error) {
       console.error('Error importing trades:', error);
       throw error;
@@ -606,6 +638,22 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
     return await handleUpdateCalendarProperty(updateCallback);
   }, [handleUpdateCalendarProperty]);
 
+  const handleUpdateChallengeRules = useCallback(async (rules: ChallengeRules) => {
+    await handleUpdateCalendarProperty((cal) => ({ ...cal, challenge_rules: rules }));
+  }, [handleUpdateCalendarProperty]);
+
+  const handleUpdateChecklistTemplate = useCallback(async (template: ChecklistTemplate) => {
+    await handleUpdateCalendarProperty((cal) => ({ ...cal, checklist_template: template }));
+  }, [handleUpdateCalendarProperty]);
+
+  const handleUpdateTradingSessions = useCallback(async (sessions: SessionDefinition[] | null) => {
+    await handleUpdateCalendarProperty((cal) => ({ ...cal, trading_sessions: sessions }));
+  }, [handleUpdateCalendarProperty]);
+
+  const handleToggleWeeklyReview = useCallback(async (enabled: boolean) => {
+    await handleUpdateCalendarProperty((cal) => ({ ...cal, weekly_review_enabled: enabled }));
+  }, [handleUpdateCalendarProperty]);
+
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [isMonthSelectorOpen, setIsMonthSelectorOpen] = useState(false);
@@ -617,6 +665,11 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [deletingTradeIds, setDeletingTradeIds] = useState<string[]>([]);
   const [deleteError, setDeleteError] = useState<string | null>(null);
+  // Trades of the last delete, offered for undo in the snackbar
+  const [lastTrashedTradeIds, setLastTrashedTradeIds] = useState<string[]>([]);
+  const [isTradeTrashOpen, setIsTradeTrashOpen] = useState(false);
+  const [isChecklistDialogOpen, setIsChecklistDialogOpen] = useState(false);
+  const [isSessionsDialogOpen, setIsSessionsDialogOpen] = useState(false);
 
   // Session statistics dialog state - stores trade IDs, trades computed via useMemo
   const [sessionTradesDialog, setSessionTradesDialog] = useState<{
@@ -664,6 +717,7 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
 
   // Calendar edit dialog state
   const [isCalendarEditOpen, setIsCalendarEditOpen] = useState(false);
+  const [isMembersDialogOpen, setIsMembersDialogOpen] = useState(false);
   const [isCalendarEditSubmitting, setIsCalendarEditSubmitting] = useState(false);
 
   // Economic calendar drawer state
@@ -710,8 +764,45 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
     }] : [])
   ], [isReadOnly]);
 
-  const breadcrumbRightContent = (!isReadOnly && calendar && onUpdateCalendarProperty) ? (
-    <ShareButton type="calendar" item={calendar} onUpdateItemProperty={onUpdateCalendarProperty} size="small" />
+  // Only the owner shares the calendar; every member can open the members list
+  const canShare = !isReadOnly && (!calendarRole || calendarRole === 'owner');
+  const breadcrumbRightContent = calendar && (calendarRole || !isReadOnly) ? (
+    <Box sx={{ display: 'flex', alignItems: 'center' }}>
+      {!isReadOnly && (
+        <WeeklyReviewButton calendar={calendar} onToggle={handleToggleWeeklyReview} />
+      )}
+      {!isReadOnly && (
+        <Tooltip title="Pre-trade checklist">
+          <IconButton size="small" onClick={() => setIsChecklistDialogOpen(true)}>
+            <ChecklistIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      )}
+      {!isReadOnly && (
+        <Tooltip title="Trading sessions">
+          <IconButton size="small" onClick={() => setIsSessionsDialogOpen(true)}>
+            <SessionsIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      )}
+      {!isReadOnly && (
+        <Tooltip title="Trash">
+          <IconButton size="small" onClick={() => setIsTradeTrashOpen(true)}>
+            <TrashIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      )}
+      {calendarRole && (
+        <Tooltip title={calendarRole === 'owner' ? 'Members' : `Members (you are ${calendarRole === 'editor' ? 'an' : 'a'} ${calendarRole})`}>
+          <IconButton size="small" onClick={() => setIsMembersDialogOpen(true)}>
+            <MembersIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      )}
+      {canShare && onUpdateCalendarProperty && (
+        <ShareButton type="calendar" item={calendar} onUpdateItemProperty={onUpdateCalendarProperty} size="small" />
+      )}
+    </Box>
   ) : null;
 
 
@@ -1064,8 +1155,8 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
 
   // Calculate session statistics for the monthly statistics section
   const sessionStats = useMemo(() => {
-    return calculateSessionStats(filteredTrades, currentDate, 'month', accountBalance);
-  }, [filteredTrades, currentDate, accountBalance]);
+    return calculateSessionStats(filteredTrades, currentDate, 'month', accountBalance, getCalendarSessions(calendar));
+  }, [filteredTrades, currentDate, accountBalance, calendar]);
 
   const handlePrevMonth = () => {
     setCurrentDate(prev => subMonths(prev, 1));
@@ -1104,15 +1195,15 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
     setDeletingTradeIds(prev => [...prev, ...tradesToDelete]);
 
     try {
-      // Delete trades using the hook handler
-      await handleDeleteTrades(tradesToDelete);
+      // Move trades to the trash using the hook handler
+      await handleTrashTrades(tradesToDelete);
 
-      // Show success message
       const successMessage = tradesToDelete.length === 1
-        ? 'Trade deleted successfully.'
-        : `Successfully deleted ${tradesToDelete.length} trades.`;
+        ? 'Trade moved to trash.'
+        : `${tradesToDelete.length} trades moved to trash.`;
 
       showSnackbar(successMessage, 'success');
+      setLastTrashedTradeIds(tradesToDelete);
     } catch (error) {
       logger.error('Error deleting trades:', error);
       const errorMessage = tradesToDelete.length === 1
@@ -1128,6 +1219,20 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
     }
   };
 
+  const handleUndoDelete = async () => {
+    const tradeIds = lastTrashedTradeIds;
+    setSnackbarOpen(false);
+    setLastTrashedTradeIds([]);
+
+    try {
+      await handleRestoreTrades(tradeIds);
+      showSnackbar(tradeIds.length === 1 ? 'Trade restored.' : `${tradeIds.length} trades restored.`, 'success');
+    } catch (error) {
+      logger.error('Error restoring trades:', error);
+      showSnackbar('Failed to restore. The trades are still in the trash.', 'error');
+    }
+  };
+
   const handleCancelDelete = () => {
     setIsDeleteDialogOpen(false);
     setTradesToDelete([]);
@@ -1209,6 +1314,8 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
 
   // Utility function to show snackbar messages
   const showSnackbar = (message: string, severity: 'success' | 'warning' | 'error' = 'warning') => {
+    // Undo only applies to the message of the delete itself
+    setLastTrashedTradeIds([]);
     setSnackbarMessage(message);
     setSnackbarSeverity(severity);
     setSnackbarOpen(true);
@@ -1283,9 +1390,11 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
     calendarId: calendarId || undefined,
     calendar,
     isReadOnly,
+    calendarRole,
     economicFilter: (_calendarId) => calendar?.economic_calendar_filters || DEFAULT_ECONOMIC_EVENT_FILTER_SETTINGS
   }), [
     isReadOnly,
+    calendarRole,
     handleUpdateTradeProperty,
     handleEditTrade,
     handleDeleteClick,
@@ -1429,6 +1538,9 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
                 isDynamicRiskToggled={isDynamicRiskToggled}
                 isReadOnly={isReadOnly}
                 max_daily_drawdown={maxDailyDrawdown}
+                challengeRules={calendar.challenge_rules}
+                challengeEvaluation={challengeEvaluation}
+                onUpdateChallengeRules={isReadOnly ? undefined : handleUpdateChallengeRules}
               />
             </Box>
 
@@ -1452,6 +1564,7 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
                 onEditTrade={handleEditTrade}
                 economicFilter={(_calendarId) => calendar?.economic_calendar_filters || DEFAULT_ECONOMIC_EVENT_FILTER_SETTINGS}
                 maxDailyDrawdown={maxDailyDrawdown}
+                tradingSessions={getCalendarSessions(calendar)}
               />
 
             </Box>
@@ -1853,6 +1966,7 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
             ? weeklyStatsMap.get(format(startOfWeek(selectedDate, { weekStartsOn: 0 }), 'yyyy-MM-dd'))?.weekTrades
             : undefined
           }
+          challengeEvaluation={challengeEvaluation}
         />
 
 
@@ -1893,6 +2007,7 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
             dynamicRiskSettings={dynamicRiskSettings}
             requiredTagGroups={requiredTagGroups}
             onOpenGalleryMode={openGalleryMode}
+            checkChallengeRules={checkTradeAgainstChallengeRules}
           />
         )}
 
@@ -1950,8 +2065,8 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
           title={tradesToDelete.length === 1 ? "Delete Trade" : `Delete ${tradesToDelete.length} Trades`}
           message={
             tradesToDelete.length === 1
-              ? "Are you sure you want to delete this trade? This action cannot be undone."
-              : `Are you sure you want to delete ${tradesToDelete.length} trades? This action cannot be undone.`
+              ? `Move this trade to the trash? It can be restored from the trash for ${TRASH_RETENTION_DAYS} days.`
+              : `Move ${tradesToDelete.length} trades to the trash? They can be restored from the trash for ${TRASH_RETENTION_DAYS} days.`
           }
           confirmText="Delete"
           cancelText="Cancel"
@@ -1963,7 +2078,7 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
 
         <Snackbar
           open={snackbarOpen}
-          autoHideDuration={snackbarSeverity === 'success' ? 3000 : deleteError ? 6000 : 4000}
+          autoHideDuration={lastTrashedTradeIds.length > 0 ? 8000 : snackbarSeverity === 'success' ? 3000 : deleteError ? 6000 : 4000}
           onClose={handleSnackbarClose}
           anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
           sx={{ zIndex: Z_INDEX.SNACKBAR }}
@@ -1974,7 +2089,16 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
             variant="filled"
             sx={{ width: '100%' }}
             action={
-              deleteError && tradesToDelete.length > 0 ? (
+              lastTrashedTradeIds.length > 0 ? (
+                <Button
+                  color="inherit"
+                  size="small"
+                  onClick={handleUndoDelete}
+                  sx={{ color: 'inherit' }}
+                >
+                  Undo
+                </Button>
+              ) : deleteError && tradesToDelete.length > 0 ? (
                 <Button
                   color="inherit"
                   size="small"
@@ -2087,6 +2211,43 @@ export const TradeCalendar: FC<TradeCalendarProps> = (props): React.ReactElement
 
 
 
+        {calendarRole && calendarId && (
+          <CalendarMembersDialog
+            open={isMembersDialogOpen}
+            calendarId={calendarId}
+            calendarName={calendarName || 'Calendar'}
+            role={calendarRole}
+            onClose={() => setIsMembersDialogOpen(false)}
+          />
+        )}
+
+        {!isReadOnly && calendar && (
+          <TradeChecklistDialog
+            open={isChecklistDialogOpen}
+            template={calendar.checklist_template}
+            onClose={() => setIsChecklistDialogOpen(false)}
+            onSave={handleUpdateChecklistTemplate}
+          />
+        )}
+
+        {!isReadOnly && calendar && (
+          <TradingSessionsDialog
+            open={isSessionsDialogOpen}
+            sessions={calendar.trading_sessions}
+            onClose={() => setIsSessionsDialogOpen(false)}
+            onSave={handleUpdateTradingSessions}
+          />
+        )}
+
+        {!isReadOnly && calendarId && (
+          <TradeTrashDialog
+            open={isTradeTrashOpen}
+            calendarId={calendarId}
+            onClose={() => setIsTradeTrashOpen(false)}
+            onRestore={handleRestoreTrades}
+          />
+        )}
+
         {/* Calendar Edit Dialog */}
         <CalendarFormDialog
           open={isCalendarEditOpen}
@@ -0,0 +1,150 @@
+/**
+ * AI Trade Action Service
+ * Applies trade changes proposed by the AI agent once the user approves them
+ * on the action card. The agent itself never writes trades
+ */
+
+import { Trade, TradeImageEntity } from '../types/trade';
+import { AttachedImage, TradeActionProposal } from '../types/aiChat';
+import { logger } from '../utils/logger';
+import { applyTradeChanges, buildProposedTrade } from '../utils/tradeActionUtils';
+import { CalendarRepository } from './repository/repositories/CalendarRepository';
+import { TradeRepository } from './repository/repositories/TradeRepository';
+import { uploadTradeImage } from './supabaseStorageService';
+import { addTrade, generateImageId } from './calendarService';
+
+const calendarRepository = new CalendarRepository();
+const tradeRepository = new TradeRepository();
+
+type UpdateTradesAction = Extract<TradeActionProposal, { type: 'update_trades' }>;
+type CreateTradeAction = Extract<TradeActionProposal, { type: 'create_trade' }>;
+
+/**
+ * Add tags that are new to the calendar's tag list
+ * bulkUpdate writes trade rows only, unlike the add/update trade RPCs
+ */
+const addCalendarTags = async (calendarId: string, tags: string[]): Promise<void> => {
+  if (tags.length === 0) return;
+
+  const calendar = await calendarRepository.findById(calendarId);
+  if (!calendar) return;
+
+  const calendarTags = calendar.tags || [];
+  const newTags = tags.filter(tag => !calendarTags.includes(tag));
+  if (newTags.length > 0) {
+    await calendarRepository.update(calendarId, { tags: [...calendarTags, ...newTags] });
+  }
+};
+
+/**
+ * Apply a bulk trade edit
+ * @returns The number of trades that were updated
+ */
+const applyTradeUpdates = async (action: UpdateTradesAction): Promise<number> => {
+  const trades = await tradeRepository.findByIds(action.trade_ids);
+  const updatedTrades = trades
+    .filter(trade => trade.calendar_id === action.calendar_id)
+    .map(trade => applyTradeChanges(trade, action.changes))
+    .filter((trade): trade is Trade => trade !== null);
+
+  if (updatedTrades.length === 0) {
+    logger.log('AI trade action: no trade needs changes anymore');
+    return 0;
+  }
+
+  const result = await tradeRepository.bulkUpdate(updatedTrades);
+  if (!result.success) {
+    throw new Error(result.error?.message || 'Failed to update trades');
+  }
+
+  const savedCount = result.data?.length ?? 0;
+  if (savedCount < updatedTrades.length) {
+    throw new Error(`Only ${savedCount} of ${updatedTrades.length} trades were updated`);
+  }
+
+  await addCalendarTags(action.calendar_id, action.changes.add_tags || []);
+  logger.log(`AI trade action: updated ${savedCount} trades`);
+  return savedCount;
+};
+
+/**
+ * Upload an image (data URL or remote URL) to the trade images bucket
+ * Remote images that can't be downloaded (e.g. blocked by CORS) are linked as they are
+ */
+const storeTradeImage = async (
+  calendarId: string,
+  url: string,
+  mimeType: string,
+  row: number
+): Promise<TradeImageEntity> => {
+  const layout = { row, column: 0, column_width: 100 };
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to download image: ${response.status}`);
+    }
+    const blob = await response.blob();
+    const type = blob.type || mimeType;
+    const file = new File([blob], `screenshot.${type.split('/').pop() || 'png'}`, { type });
+
+    const uploaded = await uploadTradeImage(calendarId, generateImageId(file), file);
+    return { ...uploaded, ...layout };
+  } catch (error) {
+    if (url.startsWith('data:')) throw error;
+    logger.warn('Could not copy trade image, linking the original URL:', error);
+    return { id: generateImageId(), url, calendar_id: calendarId, ...layout };
+  }
+};
+
+/**
+ * Create a trade proposed by the agent, with its screenshots
+ * @returns The created trade
+ */
+const createProposedTrade = async (
+  action: CreateTradeAction,
+  userId: string,
+  userImages: AttachedImage[] = []
+): Promise<Trade> => {
+  const sources = action.attach_user_images
+    ? userImages.map(image => ({ url: image.url, mimeType: image.mimeType }))
+    : [];
+  if (action.image_url && !sources.some(source => source.url === action.image_url)) {
+    sources.push({ url: action.image_url, mimeType: 'image/png' });
+  }
+
+  const images: TradeImageEntity[] = [];
+  for (let index = 0; index < sources.length; index++) {
+    images.push(await storeTradeImage(action.calendar_id, sources[index].url, sources[index].mimeType, index));
+  }
+
+  const trade = await addTrade(
+    action.calendar_id,
+    buildProposedTrade(action.calendar_id, userId, action.trade, images)
+  );
+  logger.log(`AI trade action: created trade ${trade.id}`);
+  return trade;
+};
+
+/**
+ * Apply an approved trade action
+ * @param action - The proposal from the AI agent
+ * @param userId - Current user
+ * @param userImages - Images of the user message the agent answered, for create_trade
+ */
+export const applyTradeAction = async (
+  action: TradeActionProposal,
+  userId: string,
+  userImages?: AttachedImage[]
+): Promise<void> => {
+  try {
+    if (action.type === 'update_trades') {
+      await applyTradeUpdates(action);
+    } else {
+      await createProposedTrade(action, userId, userImages);
+    }
+  } catch (error) {
+    logger.error('Error applying AI trade action:', error);
+    throw error;
+  }
+};
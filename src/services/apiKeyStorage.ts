@@ -1,11 +1,80 @@
 /**
  * API Key Storage Service
- * Handles secure storage and retrieval of user's Gemini API key in localStorage
+ * Handles secure storage and retrieval of the user's AI provider settings and
+ * API keys in localStorage. Each provider keeps its own key.
  */
 
+import { AIProviderId, AIProviderSettings } from '../types/aiChat';
+
 const STORAGE_KEY = 'gemini_api_key';
+const PROVIDER_SETTINGS_KEY = 'ai_provider_settings';
 const ENCRYPTION_KEY = 'tradejourno_encrypt_v1'; // Simple obfuscation key
 
+export interface AIProviderInfo {
+  id: AIProviderId;
+  label: string;
+  defaultModel: string;
+  suggestedModels: string[];
+  requiresApiKey: boolean;
+  keyPlaceholder: string;
+  keyHelp: string;
+  keyUrl?: string;
+  keyUrlLabel?: string;
+}
+
+export const AI_PROVIDERS: Record<AIProviderId, AIProviderInfo> = {
+  gemini: {
+    id: 'gemini',
+    label: 'Google Gemini',
+    defaultModel: 'gemini-2.5-flash',
+    suggestedModels: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'],
+    requiresApiKey: true,
+    keyPlaceholder: 'AIza...',
+    keyHelp: 'Starts with "AIza" and is 39 characters long',
+    keyUrl: 'https://aistudio.google.com/app/apikey',
+    keyUrlLabel: 'Get one free from Google AI Studio'
+  },
+  openai: {
+    id: 'openai',
+    label: 'OpenAI',
+    defaultModel: 'gpt-4.1-mini',
+    suggestedModels: ['gpt-4.1-mini', 'gpt-4.1', 'gpt-4o', 'gpt-4o-mini'],
+    requiresApiKey: true,
+    keyPlaceholder: 'sk-...',
+    keyHelp: 'Starts with "sk-"',
+    keyUrl: 'https://platform.openai.com/api-keys',
+    keyUrlLabel: 'Create one in the OpenAI dashboard'
+  },
+  anthropic: {
+    id: 'anthropic',
+    label: 'Anthropic Claude',
+    defaultModel: 'claude-sonnet-4-5',
+    suggestedModels: ['claude-sonnet-4-5', 'claude-haiku-4-5', 'claude-opus-4-1'],
+    requiresApiKey: true,
+    keyPlaceholder: 'sk-ant-...',
+    keyHelp: 'Starts with "sk-ant-"',
+    keyUrl: 'https://console.anthropic.com/settings/keys',
+    keyUrlLabel: 'Create one in the Anthropic Console'
+  },
+  local: {
+    id: 'local',
+    label: 'Local / self-hosted (OpenAI-compatible)',
+    defaultModel: 'llama3.1',
+    suggestedModels: ['llama3.1', 'qwen2.5', 'mistral'],
+    requiresApiKey: false,
+    keyPlaceholder: 'Optional',
+    keyHelp: 'Only needed if your endpoint requires one'
+  }
+};
+
+const DEFAULT_PROVIDER_SETTINGS: AIProviderSettings = { provider: 'gemini' };
+
+/**
+ * Gemini keeps the original storage key so existing keys keep working
+ */
+const getKeyStorageKey = (provider: AIProviderId): string =>
+  provider === 'gemini' ? STORAGE_KEY : `${provider}_api_key`;
+
 /**
  * Simple XOR-based obfuscation (not true encryption, but better than plain text)
  * For production, consider using Web Crypto API for proper encryption
@@ -46,24 +115,53 @@ function deobfuscate(obfuscated: string): string {
   }
 }
 
+/**
+ * Get the selected AI provider, model and endpoint
+ */
+export function getProviderSettings(): AIProviderSettings {
+  try {
+    const stored = localStorage.getItem(PROVIDER_SETTINGS_KEY);
+    if (!stored) return DEFAULT_PROVIDER_SETTINGS;
+
+    const settings = JSON.parse(stored) as AIProviderSettings;
+    return settings.provider in AI_PROVIDERS ? settings : DEFAULT_PROVIDER_SETTINGS;
+  } catch (error) {
+    console.error('Error reading AI provider settings:', error);
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+}
+
+/**
+ * Save the selected AI provider, model and endpoint
+ */
+export function saveProviderSettings(settings: AIProviderSettings): void {
+  const model = settings.model?.trim();
+  const baseUrl = settings.baseUrl?.trim();
+  localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify({
+    provider: settings.provider,
+    model: model || undefined,
+    baseUrl: baseUrl || undefined
+  }));
+}
+
 /**
  * Save API key to localStorage (obfuscated)
  */
-export function saveApiKey(apiKey: string): void {
+export function saveApiKey(apiKey: string, provider: AIProviderId = getProviderSettings().provider): void {
   if (!apiKey || !apiKey.trim()) {
     throw new Error('API key cannot be empty');
   }
   
   const trimmedKey = apiKey.trim();
   const obfuscated = obfuscate(trimmedKey);
-  localStorage.setItem(STORAGE_KEY, obfuscated);
+  localStorage.setItem(getKeyStorageKey(provider), obfuscated);
 }
 
 /**
  * Get API key from localStorage (deobfuscated)
  */
-export function getApiKey(): string | null {
-  const obfuscated = localStorage.getItem(STORAGE_KEY);
+export function getApiKey(provider: AIProviderId = getProviderSettings().provider): string | null {
+  const obfuscated = localStorage.getItem(getKeyStorageKey(provider));
   if (!obfuscated) return null;
   
   const deobfuscated = deobfuscate(obfuscated);
@@ -73,29 +171,74 @@ export function getApiKey(): string | null {
 /**
  * Remove API key from localStorage
  */
-export function removeApiKey(): void {
-  localStorage.removeItem(STORAGE_KEY);
+export function removeApiKey(provider: AIProviderId = getProviderSettings().provider): void {
+  localStorage.removeItem(getKeyStorageKey(provider));
 }
 
 /**
- * Check if API key exists in localStorage
+ * Check if the user has their own credentials for the selected provider
+ * (an API key, or an endpoint for local models)
  */
 export function hasApiKey(): boolean {
-  return !!getApiKey();
+  const settings = getProviderSettings();
+  return settings.provider === 'local' ? !!settings.baseUrl : !!getApiKey(settings.provider);
+}
+
+/**
+ * Provider fields for AI agent requests
+ * Falls back to the shared server key (Gemini) while the selected provider is not set up
+ */
+export function getAIRequestSettings(): {
+  userApiKey?: string;
+  provider?: AIProviderId;
+  model?: string;
+  baseUrl?: string;
+} {
+  if (!hasApiKey()) return {};
+
+  const settings = getProviderSettings();
+  return {
+    userApiKey: getApiKey(settings.provider) || undefined,
+    provider: settings.provider,
+    model: settings.model,
+    baseUrl: settings.baseUrl
+  };
 }
 
 /**
  * Validate API key format (basic check)
  * Gemini API keys typically start with "AIza" and are 39 characters long
  */
-export function isValidApiKeyFormat(apiKey: string): boolean {
+export function isValidApiKeyFormat(apiKey: string, provider: AIProviderId = 'gemini'): boolean {
   if (!apiKey || typeof apiKey !== 'string') return false;
   
   const trimmedKey = apiKey.trim();
-  
-  // Basic format validation for Google API keys
-  // They typically start with "AIza" and are 39 characters
-  return trimmedKey.startsWith('AIza') && trimmedKey.length === 39;
+
+  switch (provider) {
+    case 'openai':
+      return trimmedKey.startsWith('sk-') && trimmedKey.length >= 20;
+    case 'anthropic':
+      return trimmedKey.startsWith('sk-ant-') && trimmedKey.length >= 20;
+    case 'local':
+      // Any token the endpoint accepts
+      return true;
+    default:
+      // Basic format validation for Google API keys
+      // They typically start with "AIza" and are 39 characters
+      return trimmedKey.startsWith('AIza') && trimmedKey.length === 39;
+  }
+}
+
+/**
+ * Check that a base URL for an OpenAI-compatible endpoint is usable
+ */
+export function isValidBaseUrl(baseUrl: string): boolean {
+  try {
+    const url = new URL(baseUrl.trim());
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
 }
 
 /**
@@ -112,27 +255,24 @@ export function maskApiKey(apiKey: string): string {
 }
 
 /**
- * Test API key by making a simple request to Gemini API
+ * Test API key by making a simple request to the provider
+ * For local endpoints this checks the connection (and key, if one is set)
  */
-export async function testApiKey(apiKey: string): Promise<{ valid: boolean; error?: string }> {
-  if (!isValidApiKeyFormat(apiKey)) {
-    return { valid: false, error: 'Invalid API key format. Expected format: AIza...' };
+export async function testApiKey(
+  apiKey: string,
+  provider: AIProviderId = 'gemini',
+  baseUrl?: string
+): Promise<{ valid: boolean; error?: string }> {
+  if (provider === 'local') {
+    if (!baseUrl || !isValidBaseUrl(baseUrl)) {
+      return { valid: false, error: 'Enter the base URL of your endpoint, e.g. https://my-ollama.example.com/v1' };
+    }
+  } else if (!isValidApiKeyFormat(apiKey, provider)) {
+    return { valid: false, error: `Invalid API key format. Expected format: ${AI_PROVIDERS[provider].keyPlaceholder}` };
   }
-  
+
   try {
-    // Make a minimal request to Gemini API to test the key
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${apiKey}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{ text: 'test' }]
-          }]
-        })
-      }
-    );
+    const response = await sendTestRequest(apiKey, provider, baseUrl);
     
     if (response.ok) {
       return { valid: true };
@@ -145,7 +285,7 @@ export async function testApiKey(apiKey: string): Promise<{ valid: boolean; erro
     } else if (response.status === 400) {
       const data = await response.json();
       return { valid: false, error: data.error?.message || 'Invalid API key' };
-    } else if (response.status === 403) {
+    } else if (response.status === 401 || response.status === 403) {
       return { valid: false, error: 'API key is invalid or does not have permission' };
     } else {
       return { valid: false, error: `API returned status ${response.status}` };
@@ -155,3 +295,38 @@ export async function testApiKey(apiKey: string): Promise<{ valid: boolean; erro
   }
 }
 
+async function sendTestRequest(apiKey: string, provider: AIProviderId, baseUrl?: string): Promise<Response> {
+  switch (provider) {
+    case 'openai':
+      return fetch(`${(baseUrl?.trim() || 'https://api.openai.com/v1').replace(/\/+$/, '')}/models`, {
+        headers: { Authorization: `Bearer ${apiKey}` }
+      });
+    case 'anthropic':
+      return fetch('https://api.anthropic.com/v1/models', {
+        headers: {
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+          // Required for requests straight from the browser
+          'anthropic-dangerous-direct-browser-access': 'true'
+        }
+      });
+    case 'local':
+      return fetch(`${baseUrl!.trim().replace(/\/+$/, '')}/models`, {
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined
+      });
+    default:
+      // Make a minimal request to Gemini API to test the key
+      return fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${apiKey}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            contents: [{
+              parts: [{ text: 'test' }]
+            }]
+          })
+        }
+      );
+  }
+}
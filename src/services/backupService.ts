@@ -0,0 +1,477 @@
+/**
+ * Backup Service
+ * Exports everything a user owns into a single versioned JSON archive and
+ * restores it into any account, remapping IDs and storage URLs
+ *
+ * Restoring never overwrites: calendars, trades, notes and conversations are
+ * created as new records, so restoring into the same account adds copies.
+ * Tag definitions the account already has are kept.
+ * Trashed and temporary trades, calendar links and sharing are not backed up.
+ */
+
+import { format } from 'date-fns';
+import { supabase } from '../config/supabase';
+import { Calendar, Trade } from '../types/dualWrite';
+import { ChatMessage } from '../types/aiChat';
+import {
+  ACCOUNT_BACKUP_FORMAT,
+  ACCOUNT_BACKUP_VERSION,
+  AccountBackup,
+  AccountBackupOptions,
+  AccountBackupSummary,
+  AccountRestoreResult,
+  BACKUP_CALENDAR_FIELDS,
+  BACKUP_TRADE_FIELDS,
+  BackupCalendar,
+  BackupConversation,
+  BackupFile,
+  BackupNote,
+  BackupProgressCallback,
+  BackupTagDefinition,
+  BackupTrade
+} from '../types/backup';
+import { logger } from '../utils/logger';
+import { loadMappingTemplates, importTemplates } from '../utils/importMappingStorage';
+import * as calendarService from './calendarService';
+import * as notesService from './notesService';
+import { getPublicUrl, uploadFile } from './supabaseStorageService';
+import { tagService } from './tagService';
+import { ConversationRepository } from './repository/repositories/ConversationRepository';
+
+const conversationRepository = new ConversationRepository();
+
+// Trade images and note images share this public bucket, under users/<user id>/
+const STORAGE_BUCKET = 'trade-images';
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+
+const pickFields = <T extends object, K extends keyof T>(source: T, fields: readonly K[]): Pick<T, K> => {
+  const picked = {} as Pick<T, K>;
+  fields.forEach(field => {
+    if (source[field] !== undefined) {
+      picked[field] = source[field];
+    }
+  });
+  return picked;
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Public URL prefix of a user's storage folder
+ */
+const getUserStorageUrl = (userId: string): string => getPublicUrl(STORAGE_BUCKET, `users/${userId}/`);
+
+const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const base64ToBlob = (data: string, contentType: string): Blob => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: contentType });
+};
+
+// =====================================================
+// BACKUP
+// =====================================================
+
+/**
+ * Download every storage file referenced by the backed up records
+ */
+const collectFiles = async (
+  userId: string,
+  referencingRecords: unknown[],
+  onProgress?: BackupProgressCallback
+): Promise<BackupFile[]> => {
+  const storageUrl = getUserStorageUrl(userId);
+  const urlPattern = new RegExp(`${escapeRegExp(storageUrl)}([^"'\\s)<>?#]+)`, 'g');
+
+  const paths = Array.from(
+    new Set(Array.from(JSON.stringify(referencingRecords).matchAll(urlPattern), match => decodeURIComponent(match[1])))
+  );
+
+  const files: BackupFile[] = [];
+  for (let i = 0; i < paths.length; i++) {
+    const path = paths[i];
+    onProgress?.(`Downloading images (${i + 1}/${paths.length})`);
+
+    const { data, error } = await supabase.storage.from(STORAGE_BUCKET).download(`users/${userId}/${path}`);
+    if (error || !data) {
+      // Referenced image no longer exists; the URL is kept as is
+      logger.warn(`Skipping missing backup image ${path}:`, error);
+      continue;
+    }
+
+    files.push({
+      path,
+      content_type: data.type || 'application/octet-stream',
+      data: await blobToBase64(data)
+    });
+  }
+
+  return files;
+};
+
+/**
+ * Build a backup of all calendars, trades, notes, AI conversations, tag definitions
+ * and import templates of a user
+ */
+export const createAccountBackup = async (
+  userId: string,
+  options: AccountBackupOptions,
+  onProgress?: BackupProgressCallback
+): Promise<AccountBackup> => {
+  try {
+    onProgress?.('Collecting calendars');
+    const calendars = await calendarService.getUserCalendars(userId);
+
+    const backupCalendars: BackupCalendar[] = calendars.map(calendar => ({
+      ...pickFields(calendar, BACKUP_CALENDAR_FIELDS),
+      id: calendar.id,
+      created_at: calendar.created_at.toISOString()
+    }));
+
+    const backupTrades: BackupTrade[] = [];
+    for (let i = 0; i < calendars.length; i++) {
+      const calendar = calendars[i];
+      onProgress?.(`Collecting trades (${i + 1}/${calendars.length})`);
+      const trades = await calendarService.getAllTrades(calendar.id);
+
+      trades
+        .filter(trade => !trade.is_temporary)
+        .forEach(trade => backupTrades.push({
+          ...pickFields(trade, BACKUP_TRADE_FIELDS),
+          id: trade.id,
+          calendar_id: calendar.id,
+          trade_date: trade.trade_date.toISOString()
+        }));
+    }
+
+    onProgress?.('Collecting notes');
+    const notes = await notesService.getUserNotes(userId);
+    const backupNotes: BackupNote[] = notes.map(({ user_id, ...note }) => ({
+      ...note,
+      archived_at: note.archived_at ? note.archived_at.toISOString() : null,
+      reminder_date: note.reminder_date ? note.reminder_date.toISOString() : null,
+      created_at: note.created_at.toISOString()
+    }));
+
+    onProgress?.('Collecting AI conversations');
+    const conversations = await conversationRepository.findByUserId(userId);
+    const calendarIds = new Set(calendars.map(calendar => calendar.id));
+    const backupConversations: BackupConversation[] = conversations
+      .filter(conversation => calendarIds.has(conversation.calendar_id))
+      .map(conversation => ({
+        id: conversation.id,
+        calendar_id: conversation.calendar_id,
+        trade_id: conversation.trade_id ?? null,
+        title: conversation.title,
+        messages: conversation.messages.map(message => ({
+          ...message,
+          timestamp: message.timestamp.toISOString()
+        })),
+        message_count: conversation.message_count,
+        created_at: conversation.created_at.toISOString()
+      }));
+
+    onProgress?.('Collecting tag definitions');
+    const definitions = await tagService.fetchTagDefinitions(userId);
+    const backupTagDefinitions: BackupTagDefinition[] = Object.keys(definitions).map(tagName => ({
+      tag_name: tagName,
+      definition: definitions[tagName]
+    }));
+
+    const files = options.includeImages
+      ? await collectFiles(userId, [backupCalendars, backupTrades, backupNotes, backupTagDefinitions], onProgress)
+      : [];
+
+    return {
+      format: ACCOUNT_BACKUP_FORMAT,
+      version: ACCOUNT_BACKUP_VERSION,
+      created_at: new Date().toISOString(),
+      source_user_id: userId,
+      source_storage_url: getUserStorageUrl(userId),
+      calendars: backupCalendars,
+      trades: backupTrades,
+      notes: backupNotes,
+      conversations: backupConversations,
+      tag_definitions: backupTagDefinitions,
+      import_templates: loadMappingTemplates(),
+      files
+    };
+  } catch (error) {
+    logger.error('Error creating account backup:', error);
+    throw error;
+  }
+};
+
+/**
+ * Save a backup as a JSON file
+ */
+export const downloadAccountBackup = (backup: AccountBackup): void => {
+  const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `journotrades-backup-${format(new Date(backup.created_at), 'yyyy-MM-dd')}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Parse and validate a backup file
+ */
+export const parseAccountBackup = (json: string): AccountBackup => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not a valid backup');
+  }
+
+  if (parsed?.format !== ACCOUNT_BACKUP_FORMAT || typeof parsed.version !== 'number') {
+    throw new Error('The file is not a JournoTrades backup');
+  }
+
+  if (parsed.version > ACCOUNT_BACKUP_VERSION) {
+    throw new Error('This backup was created by a newer version of the app');
+  }
+
+  if (!Array.isArray(parsed.calendars) || !Array.isArray(parsed.trades)) {
+    throw new Error('The backup is incomplete');
+  }
+
+  return {
+    ...parsed,
+    notes: parsed.notes || [],
+    conversations: parsed.conversations || [],
+    tag_definitions: parsed.tag_definitions || [],
+    import_templates: parsed.import_templates || [],
+    files: parsed.files || []
+  } as AccountBackup;
+};
+
+export const summarizeAccountBackup = (backup: AccountBackup): AccountBackupSummary => ({
+  calendars: backup.calendars.length,
+  trades: backup.trades.length,
+  notes: backup.notes.length,
+  conversations: backup.conversations.length,
+  tagDefinitions: backup.tag_definitions.length,
+  importTemplates: backup.import_templates.length,
+  files: backup.files.length
+});
+
+// =====================================================
+// RESTORE
+// =====================================================
+
+/**
+ * Restore a backup into the account of userId
+ * Every record gets a new ID; references between records (trade images,
+ * conversation trades, embedded trade and note references) follow the new IDs
+ * and storage URLs point at the restored images
+ */
+export const restoreAccountBackup = async (
+  userId: string,
+  backup: AccountBackup,
+  onProgress?: BackupProgressCallback
+): Promise<AccountRestoreResult> => {
+  const result: AccountRestoreResult = {
+    calendars: 0,
+    trades: 0,
+    notes: 0,
+    conversations: 0,
+    tagDefinitions: 0,
+    importTemplates: 0,
+    files: 0,
+    warnings: []
+  };
+
+  try {
+    // Old ID -> new ID; trade and note IDs are assigned up front so references resolve in any order
+    const idMap = new Map<string, string>();
+    backup.trades.forEach(trade => idMap.set(trade.id.toLowerCase(), crypto.randomUUID()));
+    backup.notes.forEach(note => idMap.set(note.id.toLowerCase(), crypto.randomUUID()));
+    const restoredCalendarIds = new Set<string>();
+
+    const targetStorageUrl = getUserStorageUrl(userId);
+    const sourceUrlPattern = backup.source_storage_url
+      ? new RegExp(escapeRegExp(backup.source_storage_url), 'g')
+      : null;
+    const restoredPaths = new Set(backup.files.map(file => file.path));
+
+    /**
+     * Rewrite IDs and restored storage URLs inside any record
+     */
+    const remap = <T>(value: T): T => {
+      let json = JSON.stringify(value);
+      if (sourceUrlPattern && restoredPaths.size > 0) {
+        json = json.replace(sourceUrlPattern, targetStorageUrl);
+      }
+      json = json.replace(UUID_PATTERN, id => idMap.get(id.toLowerCase()) ?? id);
+      return JSON.parse(json);
+    };
+
+    // Images first so restored records never point at missing files
+    for (let i = 0; i < backup.files.length; i++) {
+      const file = backup.files[i];
+      onProgress?.(`Uploading images (${i + 1}/${backup.files.length})`);
+      const name = file.path.split('/').pop() || file.path;
+      const upload = new File([base64ToBlob(file.data, file.content_type)], name, { type: file.content_type });
+
+      const { error } = await uploadFile(STORAGE_BUCKET, `users/${userId}/${file.path}`, upload, {
+        contentType: file.content_type,
+        upsert: true
+      });
+
+      if (error) {
+        logger.error(`Error restoring backup image ${file.path}:`, error);
+        result.warnings.push(`Image ${name} could not be restored`);
+      } else {
+        result.files++;
+      }
+    }
+
+    for (let i = 0; i < backup.calendars.length; i++) {
+      const backupCalendar = backup.calendars[i];
+      onProgress?.(`Restoring calendars (${i + 1}/${backup.calendars.length})`);
+      const { id: oldCalendarId, created_at, ...settings } = backupCalendar;
+
+      let calendar: Calendar;
+      try {
+        calendar = await calendarService.createCalendar(userId, remap(settings));
+      } catch (error) {
+        result.warnings.push(`Calendar "${backupCalendar.name}" could not be restored`);
+        continue;
+      }
+      idMap.set(oldCalendarId.toLowerCase(), calendar.id);
+      restoredCalendarIds.add(calendar.id);
+      result.calendars++;
+
+      const trades: Partial<Trade>[] = backup.trades
+        .filter(trade => trade.calendar_id === oldCalendarId)
+        .map(trade => {
+          const { calendar_id, trade_date, ...fields } = remap(trade);
+          return { ...fields, trade_date: new Date(trade_date) };
+        });
+
+      if (trades.length > 0) {
+        onProgress?.(`Restoring ${trades.length} trades into "${calendar.name}"`);
+        const created = await calendarService.getTradeRepository().bulkCreate(calendar.id, trades);
+        const createdCount = created.data?.length ?? 0;
+        result.trades += createdCount;
+        if (createdCount < trades.length) {
+          result.warnings.push(`${trades.length - createdCount} trades of "${calendar.name}" could not be restored`);
+        }
+      }
+    }
+
+    for (let i = 0; i < backup.notes.length; i++) {
+      const backupNote = backup.notes[i];
+      onProgress?.(`Restoring notes (${i + 1}/${backup.notes.length})`);
+      const note = remap(backupNote);
+
+      // Notes of calendars that were not restored become global notes
+      const calendarId = note.calendar_id && restoredCalendarIds.has(note.calendar_id) ? note.calendar_id : null;
+
+      try {
+        const created = await notesService.createNote({
+          user_id: userId,
+          calendar_id: calendarId,
+          title: note.title,
+          content: note.content,
+          cover_image: note.cover_image,
+          by_assistant: note.by_assistant,
+          reminder_type: note.reminder_type,
+          reminder_date: note.reminder_date ? new Date(note.reminder_date) : null,
+          reminder_days: note.reminder_days,
+          reminder_month_day: note.reminder_month_day ?? null,
+          reminder_interval_days: note.reminder_interval_days ?? null,
+          reminder_time: note.reminder_time ?? null,
+          reminder_session: note.reminder_session ?? null,
+          reminder_lead_minutes: note.reminder_lead_minutes ?? null,
+          is_reminder_active: note.is_reminder_active,
+          color: note.color,
+          tags: note.tags
+        });
+
+        if (note.is_archived || note.is_pinned) {
+          await notesService.updateNote(created.id, {
+            is_archived: note.is_archived,
+            is_pinned: note.is_pinned
+          });
+        }
+        result.notes++;
+      } catch (error) {
+        result.warnings.push(`Note "${backupNote.title}" could not be restored`);
+      }
+    }
+
+    for (let i = 0; i < backup.conversations.length; i++) {
+      const backupConversation = backup.conversations[i];
+      onProgress?.(`Restoring AI conversations (${i + 1}/${backup.conversations.length})`);
+      const conversation = remap(backupConversation);
+
+      // Skipped along with their calendar
+      if (!restoredCalendarIds.has(conversation.calendar_id)) continue;
+
+      const created = await conversationRepository.create({
+        calendar_id: conversation.calendar_id,
+        user_id: userId,
+        // Trades missing from the backup (e.g. trashed) are not remapped
+        trade_id: backupConversation.trade_id && idMap.has(backupConversation.trade_id.toLowerCase())
+          ? conversation.trade_id
+          : null,
+        title: conversation.title,
+        messages: conversation.messages.map(message => ({
+          ...message,
+          timestamp: new Date(message.timestamp)
+        })) as ChatMessage[],
+        message_count: conversation.message_count
+      });
+
+      if (created.success) {
+        result.conversations++;
+      } else {
+        result.warnings.push(`Conversation "${backupConversation.title}" could not be restored`);
+      }
+    }
+
+    if (backup.tag_definitions.length > 0) {
+      onProgress?.('Restoring tag definitions');
+      const existingDefinitions = await tagService.fetchTagDefinitions(userId);
+
+      for (let i = 0; i < backup.tag_definitions.length; i++) {
+        const definition = remap(backup.tag_definitions[i]);
+        if (existingDefinitions[definition.tag_name]) continue;
+
+        try {
+          await tagService.saveTagDefinition(userId, definition.tag_name, definition.definition);
+          result.tagDefinitions++;
+        } catch (error) {
+          result.warnings.push(`Definition of tag "${definition.tag_name}" could not be restored`);
+        }
+      }
+    }
+
+    if (backup.import_templates.length > 0) {
+      onProgress?.('Restoring import templates');
+      result.importTemplates = importTemplates(JSON.stringify(backup.import_templates));
+    }
+
+    logger.log('Account backup restored:', result);
+    return result;
+  } catch (error) {
+    logger.error('Error restoring account backup:', error);
+    throw error;
+  }
+};
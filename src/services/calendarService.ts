@@ -5,7 +5,15 @@
  * All types use snake_case to match dualWrite.ts and Supabase schema
  */
 
-import { Calendar, Trade } from '../types/dualWrite';
+import {
+  Calendar,
+  CalendarLink,
+  CalendarLinkStatus,
+  CalendarSyncSettings,
+  DEFAULT_CALENDAR_SYNC_SETTINGS,
+  Trade
+} from '../types/dualWrite';
+import { ImportTradeBatch } from '../types/import';
 import { logger } from '../utils/logger';
 
 // Import repositories
@@ -266,6 +274,9 @@ export const duplicateCalendar = async (
       increased_risk_percentage: sourceCalendar.increased_risk_percentage,
       profit_threshold_percentage: sourceCalendar.profit_threshold_percentage,
       required_tag_groups: sourceCalendar.required_tag_groups,
+      checklist_template: sourceCalendar.checklist_template,
+      weekly_review_enabled: sourceCalendar.weekly_review_enabled,
+      trading_sessions: sourceCalendar.trading_sessions,
       tags: sourceCalendar.tags,
       score_settings: sourceCalendar.score_settings,
       economic_calendar_filters: sourceCalendar.economic_calendar_filters,
@@ -302,24 +313,56 @@ export const duplicateCalendar = async (
 // CALENDAR LINKING (ONE-WAY TRADE SYNC)
 // =====================================================
 
+/**
+ * Get all calendar links owned by a user
+ * Used to rule out link targets that would form a cycle
+ */
+export const getUserCalendarLinks = async (userId: string): Promise<CalendarLink[]> => {
+  try {
+    return await calendarRepository.findLinksByUserId(userId);
+  } catch (error) {
+    logger.error('Error getting calendar links:', error);
+    return [];
+  }
+};
+
+/**
+ * Get the targets a calendar is linked to, with per-target sync status
+ */
+export const getCalendarLinkStatuses = async (sourceCalendarId: string): Promise<CalendarLinkStatus[]> => {
+  try {
+    return await calendarRepository.findLinkStatusesBySourceId(sourceCalendarId);
+  } catch (error) {
+    logger.error('Error getting calendar link statuses:', error);
+    return [];
+  }
+};
+
 /**
  * Link a calendar to another calendar for one-way trade sync
- * Trades created in sourceCalendarId will be automatically copied to targetCalendarId
+ * Trades created in sourceCalendarId will be automatically copied to targetCalendarId.
+ * A calendar can be linked to several targets; each recalculates amounts with its own risk settings.
  */
 export const linkCalendar = async (
   sourceCalendarId: string,
-  targetCalendarId: string
-): Promise<void> => {
+  targetCalendarId: string,
+  userId: string,
+  syncSettings: CalendarSyncSettings = DEFAULT_CALENDAR_SYNC_SETTINGS
+): Promise<CalendarLink> => {
   try {
     if (sourceCalendarId === targetCalendarId) {
       throw new Error('Cannot link a calendar to itself');
     }
 
-    await calendarRepository.update(sourceCalendarId, {
-      linked_to_calendar_id: targetCalendarId
+    const link = await calendarRepository.createLink({
+      source_calendar_id: sourceCalendarId,
+      target_calendar_id: targetCalendarId,
+      user_id: userId,
+      sync_settings: syncSettings
     });
 
-    logger.log('Calendar linked successfully', { sourceCalendarId, targetCalendarId });
+    logger.log('Calendar linked successfully', { sourceCalendarId, targetCalendarId, syncSettings });
+    return link;
   } catch (error) {
     logger.error('Error linking calendar:', error);
     throw error;
@@ -327,35 +370,34 @@ export const linkCalendar = async (
 };
 
 /**
- * Unlink a calendar (remove one-way trade sync)
+ * Update the sync window, synced fields and conflict policy of an existing link
  */
-export const unlinkCalendar = async (calendarId: string): Promise<void> => {
+export const updateCalendarLinkSettings = async (
+  linkId: string,
+  syncSettings: CalendarSyncSettings
+): Promise<void> => {
   try {
-    await calendarRepository.update(calendarId, {
-      linked_to_calendar_id: null
-    });
+    await calendarRepository.updateLinkSettings(linkId, syncSettings);
 
-    logger.log('Calendar unlinked successfully', { calendarId });
+    logger.log('Calendar link settings updated', { linkId, syncSettings });
   } catch (error) {
-    logger.error('Error unlinking calendar:', error);
+    logger.error('Error updating calendar link settings:', error);
     throw error;
   }
 };
 
 /**
- * Get the linked calendar for a given calendar (if any)
+ * Unlink a target calendar (remove one-way trade sync)
+ * Trades already copied to the target stay there
  */
-export const getLinkedCalendar = async (calendarId: string): Promise<Calendar | null> => {
+export const unlinkCalendar = async (linkId: string): Promise<void> => {
   try {
-    const calendar = await getCalendar(calendarId);
-    if (!calendar?.linked_to_calendar_id) {
-      return null;
-    }
+    await calendarRepository.deleteLink(linkId);
 
-    return await getCalendar(calendar.linked_to_calendar_id);
+    logger.log('Calendar unlinked successfully', { linkId });
   } catch (error) {
-    logger.error('Error getting linked calendar:', error);
-    return null;
+    logger.error('Error unlinking calendar:', error);
+    throw error;
   }
 };
 
@@ -466,38 +508,50 @@ export const deleteTrade = async (
 
 /**
  * Import trades into a calendar
+ * New trades are created alongside the existing ones; duplicates the user chose
+ * to overwrite are updated in place and skipped duplicates are left untouched
  */
 export const importTrades = async (
   calendarId: string,
-  existingTrade: Trade[],
-  importedTrades: Partial<Trade>[]
-): Promise<Trade[]> => {
+  batch: ImportTradeBatch
+): Promise<{ created: Trade[]; updated: Trade[] }> => {
   try {
-    if (importedTrades.length === 0) {
+    const { newTrades, overwrittenTrades, skippedCount } = batch;
+
+    if (newTrades.length === 0 && overwrittenTrades.length === 0) {
       logger.log('No trades to import');
-      return [];
+      return { created: [], updated: [] };
     }
 
-    logger.log(`📥 Importing ${importedTrades.length} trades...`);
-
-    // Step 1: Delete all existing trades for this calendar using bulk delete
-    const deleteResult = await tradeRepository.bulkDelete(existingTrade);
+    logger.log(
+      `📥 Importing ${newTrades.length} new trades, overwriting ${overwrittenTrades.length}, skipping ${skippedCount} duplicates...`
+    );
 
-    if (!deleteResult.success) {
-      throw new Error(deleteResult.error?.message || 'Failed to delete existing trades');
+    // Step 1: Overwrite existing trades that were flagged as duplicates
+    let updated: Trade[] = [];
+    if (overwrittenTrades.length > 0) {
+      const updateResult = await tradeRepository.bulkUpdate(overwrittenTrades);
+      if (!updateResult.success) {
+        throw new Error(updateResult.error?.message || 'Failed to overwrite duplicate trades');
+      }
+      updated = updateResult.data || [];
     }
 
-    // Step 2: Import new trades using bulk create
-    logger.log(`📤 Creating ${importedTrades.length} new trades...`);
-    const result = await tradeRepository.bulkCreate(calendarId, importedTrades);
+    // Step 2: Create the remaining trades using bulk create
+    let created: Trade[] = [];
+    if (newTrades.length > 0) {
+      logger.log(`📤 Creating ${newTrades.length} new trades...`);
+      const result = await tradeRepository.bulkCreate(calendarId, newTrades);
 
-    if (!result.success) {
-      throw new Error(result.error?.message || 'Bulk import failed');
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Bulk import failed');
+      }
+      created = result.data || [];
     }
 
-    logger.log(`✅ Successfully imported ${result.data?.length || 0} trades`);
+    logger.log(`✅ Successfully imported ${created.length} trades and overwrote ${updated.length}`);
 
-    return result.data || [];
+    return { created, updated };
   } catch (error) {
     logger.error('Error importing trades:', error);
     throw error;
@@ -0,0 +1,205 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { Calendar } from '../types/dualWrite';
+import { transformSupabaseCalendar } from './repository/repositories/CalendarRepository';
+import {
+  CalendarMember,
+  CalendarMemberRole,
+  CalendarRole,
+  TradeComment,
+  CALENDAR_INVITE_EXPIRY_DAYS
+} from '../types/collaboration';
+
+const BASE_URL = process.env.REACT_APP_BASE_URL || 'https://journotrades.com';
+
+/**
+ * Transform a get_calendar_members row to CalendarMember
+ */
+const transformMember = (data: any): CalendarMember => ({
+  ...data,
+  created_at: new Date(data.created_at)
+});
+
+/**
+ * Transform a trade_comments row to TradeComment
+ */
+const transformComment = (data: any): TradeComment => ({
+  ...data,
+  created_at: new Date(data.created_at),
+  updated_at: new Date(data.updated_at)
+});
+
+/**
+ * Random invite code matching the invite_code_format constraint
+ */
+const generateInviteCode = (): string =>
+  `cal-${crypto.randomUUID().replace(/-/g, '').slice(0, 16)}`;
+
+/**
+ * Service for calendar membership, calendar invites and trade comments
+ * Access is enforced by RLS; the client only hides actions a role cannot take
+ */
+export const collaborationService = {
+  /**
+   * Role of the current user on a calendar, null without access
+   */
+  async getCalendarRole(calendarId: string): Promise<CalendarRole | null> {
+    const { data, error } = await supabase.rpc('get_calendar_role', { p_calendar_id: calendarId });
+
+    if (error) {
+      logger.error('Error fetching calendar role:', error);
+      return null;
+    }
+
+    return (data as CalendarRole | null) ?? null;
+  },
+
+  /**
+   * Calendars the user is a member (not the owner) of, with their role
+   */
+  async getMemberCalendars(userId: string): Promise<{ calendar: Calendar; role: CalendarMemberRole }[]> {
+    const { data, error } = await supabase
+      .from('calendar_members')
+      .select('role, calendar:calendars(*)')
+      .eq('user_id', userId);
+
+    if (error) {
+      logger.error('Error fetching member calendars:', error);
+      return [];
+    }
+
+    return (data || [])
+      .filter((row: any) => row.calendar && !row.calendar.deleted_at && !row.calendar.mark_for_deletion)
+      .map((row: any) => ({
+        calendar: transformSupabaseCalendar(row.calendar),
+        role: row.role as CalendarMemberRole
+      }));
+  },
+
+  async getMembers(calendarId: string): Promise<CalendarMember[]> {
+    const { data, error } = await supabase.rpc('get_calendar_members', { p_calendar_id: calendarId });
+
+    if (error) {
+      logger.error('Error fetching calendar members:', error);
+      throw error;
+    }
+
+    return (data || []).map(transformMember);
+  },
+
+  async updateMemberRole(memberId: string, role: CalendarMemberRole): Promise<void> {
+    const { error } = await supabase
+      .from('calendar_members')
+      .update({ role })
+      .eq('id', memberId);
+
+    if (error) {
+      logger.error('Error updating member role:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Remove a member; members can also remove themselves to leave a calendar
+   */
+  async removeMember(memberId: string): Promise<void> {
+    const { error } = await supabase
+      .from('calendar_members')
+      .delete()
+      .eq('id', memberId);
+
+    if (error) {
+      logger.error('Error removing calendar member:', error);
+      throw error;
+    }
+  },
+
+  async leaveCalendar(calendarId: string, userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('calendar_members')
+      .delete()
+      .eq('calendar_id', calendarId)
+      .eq('user_id', userId);
+
+    if (error) {
+      logger.error('Error leaving calendar:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Create a single-use invite link to a calendar
+   * Consumed through the consume-invite edge function
+   */
+  async createInvite(calendarId: string, userId: string, role: CalendarMemberRole): Promise<string> {
+    const code = generateInviteCode();
+    const expiresAt = new Date(Date.now() + CALENDAR_INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+
+    const { error } = await supabase
+      .from('invite_links')
+      .insert({
+        code,
+        created_by: userId,
+        calendar_id: calendarId,
+        calendar_role: role,
+        max_uses: 1,
+        uses_remaining: 1,
+        expires_at: expiresAt.toISOString()
+      });
+
+    if (error) {
+      logger.error('Error creating calendar invite:', error);
+      throw error;
+    }
+
+    logger.log(`✅ Calendar invite created for ${calendarId} (${role})`);
+    return `${BASE_URL}/calendar-invite/${code}`;
+  },
+
+  async getComments(tradeId: string): Promise<TradeComment[]> {
+    const { data, error } = await supabase
+      .from('trade_comments')
+      .select('*')
+      .eq('trade_id', tradeId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      logger.error('Error fetching trade comments:', error);
+      throw error;
+    }
+
+    return (data || []).map(transformComment);
+  },
+
+  async addComment(calendarId: string, tradeId: string, userId: string, body: string): Promise<TradeComment> {
+    const { data, error } = await supabase
+      .from('trade_comments')
+      .insert({
+        calendar_id: calendarId,
+        trade_id: tradeId,
+        user_id: userId,
+        body: body.trim()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Error adding trade comment:', error);
+      throw error;
+    }
+
+    return transformComment(data);
+  },
+
+  async deleteComment(commentId: string): Promise<void> {
+    const { error } = await supabase
+      .from('trade_comments')
+      .delete()
+      .eq('id', commentId);
+
+    if (error) {
+      logger.error('Error deleting trade comment:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,111 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { CommunityProfile, CommunityProfileSummary } from '../types/community';
+
+/**
+ * Transform a community_profiles row to CommunityProfile
+ */
+const transformProfile = (data: any): CommunityProfile => ({
+  ...data,
+  created_at: new Date(data.created_at),
+  updated_at: new Date(data.updated_at)
+});
+
+/**
+ * Transform a get_community_profiles row; numeric columns arrive as strings
+ */
+const transformSummary = (data: any): CommunityProfileSummary => ({
+  ...data,
+  created_at: new Date(data.created_at),
+  total_trades: Number(data.total_trades) || 0,
+  win_rate: Number(data.win_rate) || 0,
+  profit_factor: Number(data.profit_factor) || 0,
+  max_drawdown: Number(data.max_drawdown) || 0,
+  growth_percentage: Number(data.growth_percentage) || 0
+});
+
+/**
+ * Service for opt-in community profiles
+ * Profiles sit on top of calendar share links; the listing only exposes normalised stats
+ */
+export const communityService = {
+  /**
+   * Fetch every listed profile (open shares only)
+   */
+  async getProfiles(): Promise<CommunityProfileSummary[]> {
+    const { data, error } = await supabase.rpc('get_community_profiles');
+
+    if (error) {
+      logger.error('Error fetching community profiles:', error);
+      throw error;
+    }
+
+    return (data || []).map(transformSummary);
+  },
+
+  /**
+   * Fetch the profile of one of the user's calendars, null when it is not opted in
+   */
+  async getProfileForCalendar(calendarId: string): Promise<CommunityProfile | null> {
+    const { data, error } = await supabase
+      .from('community_profiles')
+      .select('*')
+      .eq('calendar_id', calendarId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error fetching community profile:', error);
+      throw error;
+    }
+
+    return data ? transformProfile(data) : null;
+  },
+
+  /**
+   * Create or update the profile of a calendar
+   */
+  async saveProfile(
+    calendarId: string,
+    userId: string,
+    profile: { display_name: string; bio?: string | null }
+  ): Promise<CommunityProfile> {
+    const { data, error } = await supabase
+      .from('community_profiles')
+      .upsert(
+        {
+          calendar_id: calendarId,
+          user_id: userId,
+          display_name: profile.display_name.trim(),
+          bio: profile.bio?.trim() || null
+        },
+        { onConflict: 'calendar_id' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Error saving community profile:', error);
+      throw error;
+    }
+
+    logger.log(`✅ Community profile saved for calendar ${calendarId}`);
+    return transformProfile(data);
+  },
+
+  /**
+   * Remove a calendar from the community listing
+   */
+  async deleteProfile(calendarId: string): Promise<void> {
+    const { error } = await supabase
+      .from('community_profiles')
+      .delete()
+      .eq('calendar_id', calendarId);
+
+    if (error) {
+      logger.error('Error deleting community profile:', error);
+      throw error;
+    }
+
+    logger.log(`✅ Community profile removed for calendar ${calendarId}`);
+  }
+};
@@ -3,8 +3,9 @@
  * Simple service for Notion-style notes
  */
 
-import { CreateNoteInput, Note, UpdateNoteInput } from "../types/note";
+import { CreateNoteInput, Note, ReminderOccurrence, UpdateNoteInput } from "../types/note";
 import { logger } from "../utils/logger";
+import { getOccurrenceDate, isReminderDueOn } from "../utils/reminderRules";
 import {
   NoteQueryOptions,
   NoteQueryResult,
@@ -265,6 +266,126 @@ export const getReminderNotesForDate = async (
   }
 };
 
+/**
+ * Get reminder notes due on a day under any rule (weekly, monthly, interval...)
+ * Occurrences dismissed for that day are left out
+ */
+export const getRemindersDueOn = async (
+  calendarId: string,
+  userId: string,
+  day: Date,
+): Promise<Note[]> => {
+  try {
+    const occurrenceDate = getOccurrenceDate(day);
+    const [reminders, occurrences] = await Promise.all([
+      noteRepository.findActiveReminders(calendarId),
+      noteRepository.findReminderOccurrences(userId, occurrenceDate),
+    ]);
+
+    const dismissedNoteIds = new Set(
+      occurrences
+        .filter((o) => o.occurrence_date === occurrenceDate && o.status === "dismissed")
+        .map((o) => o.note_id),
+    );
+
+    return reminders.filter((note) => isReminderDueOn(note, day) && !dismissedNoteIds.has(note.id));
+  } catch (error) {
+    logger.error("Error getting reminders due on day:", error);
+    return [];
+  }
+};
+
+/**
+ * Get all active reminders of a user, for notification scheduling
+ */
+export const getActiveReminders = async (userId: string): Promise<Note[]> => {
+  try {
+    return await noteRepository.findActiveRemindersByUserId(userId);
+  } catch (error) {
+    logger.error("Error getting active reminders:", error);
+    return [];
+  }
+};
+
+/**
+ * Get a user's reminder occurrences from a day onwards
+ */
+export const getReminderOccurrences = async (
+  userId: string,
+  fromDay: Date,
+): Promise<ReminderOccurrence[]> => {
+  try {
+    return await noteRepository.findReminderOccurrences(userId, getOccurrenceDate(fromDay));
+  } catch (error) {
+    logger.error("Error getting reminder occurrences:", error);
+    return [];
+  }
+};
+
+/**
+ * Record that a reminder occurrence was notified
+ */
+export const markReminderNotified = async (
+  note: Note,
+  occurrenceDate: string,
+  status: ReminderOccurrence["status"] = "pending",
+): Promise<ReminderOccurrence> => {
+  try {
+    return await noteRepository.upsertReminderOccurrence({
+      note_id: note.id,
+      user_id: note.user_id,
+      occurrence_date: occurrenceDate,
+      status,
+      notified_at: new Date(),
+    });
+  } catch (error) {
+    logger.error("Error marking reminder notified:", error);
+    throw error;
+  }
+};
+
+/**
+ * Snooze a reminder occurrence; it is notified again after the given minutes
+ */
+export const snoozeReminder = async (
+  note: Note,
+  occurrenceDate: string,
+  minutes: number,
+): Promise<ReminderOccurrence> => {
+  try {
+    return await noteRepository.upsertReminderOccurrence({
+      note_id: note.id,
+      user_id: note.user_id,
+      occurrence_date: occurrenceDate,
+      status: "snoozed",
+      snoozed_until: new Date(Date.now() + minutes * 60 * 1000),
+    });
+  } catch (error) {
+    logger.error("Error snoozing reminder:", error);
+    throw error;
+  }
+};
+
+/**
+ * Dismiss a reminder occurrence for its day
+ */
+export const dismissReminder = async (
+  note: Note,
+  occurrenceDate: string,
+): Promise<ReminderOccurrence> => {
+  try {
+    return await noteRepository.upsertReminderOccurrence({
+      note_id: note.id,
+      user_id: note.user_id,
+      occurrence_date: occurrenceDate,
+      status: "dismissed",
+    });
+  } catch (error) {
+    logger.error("Error dismissing reminder:", error);
+    throw error;
+  }
+};
+
 /**
  * Set a reminder on a note
  */
@@ -0,0 +1,80 @@
+/**
+ * Offline Store
+ * IndexedDB persistence for the offline mutation queue
+ */
+
+import { OfflineEntity, OfflineMutation } from '../types/offline';
+
+const DB_NAME = 'journotrades-offline';
+const DB_VERSION = 1;
+const MUTATIONS_STORE = 'mutations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+          db.createObjectStore(MUTATIONS_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      // Allow a later call to try again
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <R>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<R> => {
+  const db = await openDatabase();
+  return new Promise<R>((resolve, reject) => {
+    const transaction = db.transaction(MUTATIONS_STORE, mode);
+    const request = action(transaction.objectStore(MUTATIONS_STORE));
+    transaction.oncomplete = () => resolve(request.result as R);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const getMutationKey = (entity: OfflineEntity, recordId: string): string =>
+  `${entity}:${recordId}`;
+
+/**
+ * All queued mutations in replay order
+ */
+export const getMutations = async (): Promise<OfflineMutation[]> => {
+  const mutations = await runRequest<OfflineMutation[]>('readonly', store => store.getAll());
+  return mutations.sort((a, b) => a.sequence - b.sequence);
+};
+
+export const getMutation = async (key: string): Promise<OfflineMutation | null> => {
+  const mutation = await runRequest<OfflineMutation | undefined>('readonly', store => store.get(key));
+  return mutation || null;
+};
+
+export const putMutation = async (mutation: OfflineMutation): Promise<void> => {
+  await runRequest('readwrite', store => store.put(mutation));
+};
+
+export const deleteMutation = async (key: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(key));
+};
+
+export const countMutations = async (): Promise<number> =>
+  runRequest<number>('readonly', store => store.count());
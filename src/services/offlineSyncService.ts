@@ -0,0 +1,366 @@
+/**
+ * Offline Sync Service
+ * Queues trade and note writes made without a connection and replays them
+ * in order once the browser is back online.
+ *
+ * Conflicts are resolved per record against updated_at: a queued update is
+ * only applied when the server copy has not changed since the record was
+ * first edited offline, otherwise the server copy wins.
+ */
+
+import { OfflineEntity, OfflineMutation, OfflineOperation, OfflineSyncStatus } from '../types/offline';
+import {
+  countMutations,
+  deleteMutation,
+  getMutation,
+  getMutationKey,
+  getMutations,
+  putMutation
+} from './offlineStore';
+import { parseSupabaseError, SupabaseError, SupabaseErrorCategory } from '../utils/supabaseErrorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * Writes a queued mutation through to Supabase. Every method throws on failure.
+ */
+export interface OfflineReplayer {
+  create: (payload: Record<string, any>) => Promise<unknown>;
+  update: (id: string, payload: Record<string, any>) => Promise<unknown>;
+  delete: (id: string) => Promise<unknown>;
+  // null when the record no longer exists on the server
+  getUpdatedAt: (id: string) => Promise<Date | null>;
+}
+
+// Replays a rejected mutation this many times before giving up on it
+const MAX_REPLAY_ATTEMPTS = 5;
+
+const UNIQUE_VIOLATION_CODE = '23505';
+
+let sequenceCounter = 0;
+
+const nextSequence = (): number => Date.now() * 1000 + (sequenceCounter++ % 1000);
+
+/**
+ * Combine a new write with the one already queued for the same record.
+ * Returns null when the two cancel out.
+ */
+const coalesce = (
+  existing: OfflineMutation | null,
+  operation: OfflineOperation,
+  payload: Record<string, any> | null
+): Pick<OfflineMutation, 'operation' | 'payload'> | null => {
+  if (!existing) {
+    return { operation, payload };
+  }
+
+  if (existing.operation === 'create') {
+    if (operation === 'delete') return null; // Never reached the server
+    return { operation: 'create', payload: { ...existing.payload, ...payload } };
+  }
+
+  if (existing.operation === 'update' && operation === 'update') {
+    return { operation: 'update', payload: { ...existing.payload, ...payload } };
+  }
+
+  return { operation, payload };
+};
+
+class OfflineSyncService {
+  private replayers: Partial<Record<OfflineEntity, OfflineReplayer>> = {};
+  private listeners = new Set<() => void>();
+  private started = false;
+  private syncPromise: Promise<void> | null = null;
+  private status: OfflineSyncStatus = {
+    isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+    isSyncing: false,
+    pendingCount: 0,
+    lastSyncedAt: null,
+    conflicts: 0,
+    failed: 0,
+    lastError: null
+  };
+
+  /**
+   * Register how queued mutations of an entity are written to Supabase
+   */
+  registerReplayer(entity: OfflineEntity, replayer: OfflineReplayer): void {
+    this.replayers[entity] = replayer;
+    this.start();
+  }
+
+  isOnline(): boolean {
+    return typeof navigator === 'undefined' ? true : navigator.onLine;
+  }
+
+  /**
+   * Whether a failed write should be queued instead of reported
+   */
+  shouldQueue(error?: SupabaseError): boolean {
+    if (!this.isOnline()) return true;
+    if (!error) return false;
+    return error.category === SupabaseErrorCategory.NETWORK || this.isConnectionError(error);
+  }
+
+  /**
+   * Queue a write, merging it with any write already queued for the record
+   */
+  async enqueue(
+    entity: OfflineEntity,
+    recordId: string,
+    operation: OfflineOperation,
+    payload: Record<string, any> | null
+  ): Promise<void> {
+    const key = getMutationKey(entity, recordId);
+    const existing = await getMutation(key);
+    const merged = coalesce(existing, operation, payload);
+
+    if (!merged) {
+      await deleteMutation(key);
+    } else {
+      await putMutation({
+        key,
+        entity,
+        record_id: recordId,
+        operation: merged.operation,
+        payload: merged.payload,
+        sequence: existing ? existing.sequence : nextSequence(),
+        queued_at: existing ? existing.queued_at : new Date(),
+        attempts: 0,
+        last_error: null
+      });
+    }
+
+    await this.refreshPendingCount();
+  }
+
+  /**
+   * Queued mutations of an entity; empty when the local store is unavailable
+   */
+  async getPendingMutations(entity: OfflineEntity): Promise<OfflineMutation[]> {
+    try {
+      const mutations = await getMutations();
+      return mutations.filter(mutation => mutation.entity === entity);
+    } catch (error) {
+      logger.error('Error reading offline queue:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Overlay queued writes on records read from the server so local changes
+   * stay visible until they are replayed
+   *
+   * @param includeCreated - Whether a record created offline belongs in this result
+   */
+  async applyPendingMutations<T extends { id: string }>(
+    entity: OfflineEntity,
+    records: T[],
+    includeCreated: (record: T) => boolean = () => false
+  ): Promise<T[]> {
+    const pending = await this.getPendingMutations(entity);
+    if (pending.length === 0) return records;
+
+    const pendingById = new Map<string, OfflineMutation>();
+    pending.forEach(mutation => pendingById.set(mutation.record_id, mutation));
+    const result: T[] = [];
+
+    records.forEach(record => {
+      const mutation = pendingById.get(record.id);
+      if (!mutation) {
+        result.push(record);
+      } else if (mutation.operation !== 'delete') {
+        result.push({ ...record, ...mutation.payload });
+      }
+    });
+
+    const serverIds = new Set(records.map(record => record.id));
+    pending.forEach(mutation => {
+      if (mutation.operation !== 'create' || serverIds.has(mutation.record_id)) return;
+      const record = mutation.payload as T;
+      if (includeCreated(record)) {
+        result.push(record);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Overlay a queued write on a single record read from the server
+   */
+  async applyPendingMutation<T extends { id: string }>(
+    entity: OfflineEntity,
+    id: string,
+    record: T | null
+  ): Promise<T | null> {
+    const pending = await this.getPendingMutations(entity);
+    const mutation = pending.find(m => m.record_id === id);
+    if (!mutation) return record;
+
+    switch (mutation.operation) {
+      case 'delete':
+        return null;
+      case 'create':
+        return { ...record, ...mutation.payload } as T;
+      default:
+        return record ? { ...record, ...mutation.payload } : null;
+    }
+  }
+
+  /**
+   * Replay the queue. Concurrent calls share the running replay.
+   */
+  sync(): Promise<void> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.replayQueue().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  /**
+   * Clear the conflicts and failures reported by the last replay
+   */
+  dismissProblems(): void {
+    this.setStatus({ conflicts: 0, failed: 0, lastError: null });
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getStatus = (): OfflineSyncStatus => this.status;
+
+  private start(): void {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+
+    window.addEventListener('online', () => {
+      this.setStatus({ isOnline: true });
+      this.sync();
+    });
+    window.addEventListener('offline', () => {
+      this.setStatus({ isOnline: false });
+    });
+
+    // Replay what is left from a previous session once every repository has registered
+    setTimeout(() => {
+      this.refreshPendingCount().then(() => this.sync());
+    }, 0);
+  }
+
+  private async replayQueue(): Promise<void> {
+    if (!this.isOnline()) return;
+
+    let mutations: OfflineMutation[];
+    try {
+      mutations = await getMutations();
+    } catch (error) {
+      logger.error('Error reading offline queue:', error);
+      return;
+    }
+    if (mutations.length === 0) return;
+
+    this.setStatus({ isSyncing: true, conflicts: 0, failed: 0, lastError: null });
+    let conflicts = 0;
+    let failed = 0;
+    let lastError: string | null = null;
+    let interrupted = false;
+
+    for (let i = 0; i < mutations.length; i++) {
+      const mutation = mutations[i];
+      const replayer = this.replayers[mutation.entity];
+      if (!replayer) continue;
+
+      try {
+        const applied = await this.replayMutation(mutation, replayer);
+        if (!applied) {
+          conflicts++;
+          logger.warn(`Offline ${mutation.operation} of ${mutation.key} dropped, the server copy is newer`);
+        }
+        await deleteMutation(mutation.key);
+      } catch (error) {
+        const parsedError = parseSupabaseError(error, `Replaying offline ${mutation.operation} of ${mutation.key}`);
+
+        // Lost the connection again; keep the rest of the queue for the next replay
+        if (this.shouldQueue(parsedError)) {
+          interrupted = true;
+          break;
+        }
+
+        logger.error('Error replaying offline mutation:', error);
+        lastError = parsedError.userMessage;
+        const attempts = mutation.attempts + 1;
+        if (attempts >= MAX_REPLAY_ATTEMPTS) {
+          failed++;
+          await deleteMutation(mutation.key);
+        } else {
+          await putMutation({ ...mutation, attempts, last_error: parsedError.message });
+        }
+      }
+    }
+
+    this.setStatus({
+      isSyncing: false,
+      conflicts,
+      failed,
+      lastError,
+      lastSyncedAt: interrupted ? this.status.lastSyncedAt : new Date()
+    });
+    await this.refreshPendingCount();
+  }
+
+  /**
+   * Write one mutation through. Returns false when it lost a conflict.
+   */
+  private async replayMutation(mutation: OfflineMutation, replayer: OfflineReplayer): Promise<boolean> {
+    switch (mutation.operation) {
+      case 'create':
+        try {
+          await replayer.create(mutation.payload || {});
+        } catch (error) {
+          // Already written by an earlier replay that was cut off; IDs are assigned locally
+          if (parseSupabaseError(error).code !== UNIQUE_VIOLATION_CODE) {
+            throw error;
+          }
+        }
+        return true;
+
+      case 'update': {
+        const serverUpdatedAt = await replayer.getUpdatedAt(mutation.record_id);
+        if (!serverUpdatedAt || serverUpdatedAt.getTime() > new Date(mutation.queued_at).getTime()) {
+          return false;
+        }
+        await replayer.update(mutation.record_id, mutation.payload || {});
+        return true;
+      }
+
+      case 'delete':
+        await replayer.delete(mutation.record_id);
+        return true;
+    }
+  }
+
+  private isConnectionError(error: SupabaseError): boolean {
+    return /failed to fetch|networkerror|load failed|network request failed/i.test(error.message);
+  }
+
+  private async refreshPendingCount(): Promise<void> {
+    try {
+      this.setStatus({ pendingCount: await countMutations() });
+    } catch (error) {
+      logger.error('Error counting offline queue:', error);
+    }
+  }
+
+  private setStatus(updates: Partial<OfflineSyncStatus>): void {
+    this.status = { ...this.status, ...updates };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const offlineSyncService = new OfflineSyncService();
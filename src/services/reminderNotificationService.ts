@@ -0,0 +1,231 @@
+/**
+ * Reminder Notification Service
+ * Watches a user's timed note reminders and raises desktop notifications and
+ * in-app alerts when they come due. Snooze and dismiss are stored per
+ * occurrence so other tabs and devices do not notify again.
+ */
+
+import { addDays, startOfDay } from 'date-fns';
+import { Note, ReminderOccurrence } from '../types/note';
+import {
+  getActiveReminders,
+  getReminderOccurrences,
+  markReminderNotified,
+  snoozeReminder,
+  dismissReminder
+} from './notesService';
+import { describeReminder, getOccurrenceDate, getReminderTimeOn, isReminderDueOn } from '../utils/reminderRules';
+import { playNotificationSound } from '../utils/notificationSound';
+import { logger } from '../utils/logger';
+
+export interface ReminderAlert {
+  key: string; // `${note id}:${occurrence date}`
+  note: Note;
+  occurrenceDate: string;
+  dueAt: Date;
+}
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+// Reminders missed by more than this (e.g. the app was closed) are not raised
+const MISSED_REMINDER_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+const getAlertKey = (noteId: string, occurrenceDate: string): string => `${noteId}:${occurrenceDate}`;
+
+export const isDesktopNotificationSupported = (): boolean =>
+  typeof window !== 'undefined' && 'Notification' in window;
+
+class ReminderNotificationService {
+  private userId: string | null = null;
+  private reminders: Note[] = [];
+  private occurrences = new Map<string, ReminderOccurrence>();
+  private alerts: ReminderAlert[] = [];
+  private listeners = new Set<() => void>();
+  private checkTimer: ReturnType<typeof setInterval> | null = null;
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
+
+  private handleFocus = () => {
+    this.refresh();
+  };
+
+  /**
+   * Start watching the reminders of a user; restarts when the user changes
+   */
+  start(userId: string): void {
+    if (this.userId === userId) return;
+    this.stop();
+    this.userId = userId;
+
+    this.refresh();
+    this.checkTimer = setInterval(() => this.check(), CHECK_INTERVAL_MS);
+    this.refreshTimer = setInterval(() => this.refresh(), REFRESH_INTERVAL_MS);
+    window.addEventListener('focus', this.handleFocus);
+  }
+
+  stop(): void {
+    if (this.checkTimer) clearInterval(this.checkTimer);
+    if (this.refreshTimer) clearInterval(this.refreshTimer);
+    this.checkTimer = null;
+    this.refreshTimer = null;
+    window.removeEventListener('focus', this.handleFocus);
+
+    this.userId = null;
+    this.reminders = [];
+    this.occurrences.clear();
+    this.setAlerts([]);
+  }
+
+  /**
+   * Reload reminders and occurrence state, e.g. after a note was saved
+   */
+  async refresh(): Promise<void> {
+    const userId = this.userId;
+    if (!userId) return;
+
+    const [reminders, occurrences] = await Promise.all([
+      getActiveReminders(userId),
+      getReminderOccurrences(userId, addDays(startOfDay(new Date()), -1))
+    ]);
+
+    // Stopped or switched user while loading
+    if (this.userId !== userId) return;
+
+    this.reminders = reminders;
+    this.occurrences.clear();
+    occurrences.forEach(occurrence => {
+      this.occurrences.set(getAlertKey(occurrence.note_id, occurrence.occurrence_date), occurrence);
+    });
+    this.check();
+  }
+
+  async snooze(alert: ReminderAlert, minutes: number): Promise<void> {
+    const occurrence = await snoozeReminder(alert.note, alert.occurrenceDate, minutes);
+    this.occurrences.set(alert.key, occurrence);
+    this.check();
+  }
+
+  async dismiss(alert: ReminderAlert): Promise<void> {
+    const occurrence = await dismissReminder(alert.note, alert.occurrenceDate);
+    this.occurrences.set(alert.key, occurrence);
+    this.check();
+  }
+
+  getPermission(): NotificationPermission | 'unsupported' {
+    return isDesktopNotificationSupported() ? Notification.permission : 'unsupported';
+  }
+
+  async requestPermission(): Promise<NotificationPermission | 'unsupported'> {
+    if (!isDesktopNotificationSupported()) return 'unsupported';
+    return await Notification.requestPermission();
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getAlerts = (): ReminderAlert[] => this.alerts;
+
+  /**
+   * Raise reminders that came due and rebuild the list of active alerts
+   */
+  private check(): void {
+    const now = new Date();
+    const today = startOfDay(now);
+    const alerts: ReminderAlert[] = [];
+
+    // Yesterday and tomorrow too: session reminders can fall on the evening before their day
+    [-1, 0, 1].forEach(offset => {
+      const day = addDays(today, offset);
+      const occurrenceDate = getOccurrenceDate(day);
+
+      this.reminders.forEach(note => {
+        if (!isReminderDueOn(note, day)) return;
+        const reminderTime = getReminderTimeOn(note, day);
+        if (!reminderTime) return;
+
+        const key = getAlertKey(note.id, occurrenceDate);
+        const occurrence = this.occurrences.get(key);
+        if (occurrence?.status === 'dismissed') return;
+
+        const dueAt = occurrence?.status === 'snoozed' && occurrence.snoozed_until
+          ? occurrence.snoozed_until
+          : reminderTime;
+        const overdueMs = now.getTime() - dueAt.getTime();
+        if (overdueMs < 0 || overdueMs > MISSED_REMINDER_WINDOW_MS) return;
+
+        const alert: ReminderAlert = { key, note, occurrenceDate, dueAt };
+        alerts.push(alert);
+
+        if (!occurrence?.notified_at || occurrence.notified_at < dueAt) {
+          this.notify(alert, occurrence);
+        }
+      });
+    });
+
+    alerts.sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+    this.setAlerts(alerts);
+  }
+
+  private notify(alert: ReminderAlert, occurrence: ReminderOccurrence | undefined): void {
+    const status = occurrence?.status || 'pending';
+
+    // Recorded locally first so the next check does not notify again while saving
+    this.occurrences.set(alert.key, {
+      ...(occurrence || {
+        id: '',
+        note_id: alert.note.id,
+        user_id: alert.note.user_id,
+        occurrence_date: alert.occurrenceDate,
+        snoozed_until: null,
+        created_at: new Date(),
+        updated_at: new Date()
+      }),
+      status,
+      notified_at: new Date()
+    });
+
+    markReminderNotified(alert.note, alert.occurrenceDate, status)
+      .then(saved => this.occurrences.set(alert.key, saved))
+      .catch(() => undefined);
+
+    playNotificationSound();
+
+    if (this.getPermission() !== 'granted') return;
+    try {
+      const notification = new Notification(alert.note.title || 'Reminder', {
+        body: describeReminder(alert.note),
+        tag: alert.key,
+        icon: '/android-chrome-192x192.png'
+      });
+      notification.onclick = () => {
+        window.focus();
+        notification.close();
+      };
+    } catch (error) {
+      // Some mobile browsers only allow notifications from a service worker
+      logger.warn('Could not show reminder notification:', error);
+    }
+  }
+
+  private setAlerts(alerts: ReminderAlert[]): void {
+    const unchanged = alerts.length === this.alerts.length
+      && alerts.every((alert, index) =>
+        alert.key === this.alerts[index].key
+        && alert.dueAt.getTime() === this.alerts[index].dueAt.getTime()
+        && alert.note === this.alerts[index].note);
+    if (unchanged) return;
+
+    this.alerts = alerts;
+    this.emit();
+  }
+
+  private emit(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const reminderNotificationService = new ReminderNotificationService();
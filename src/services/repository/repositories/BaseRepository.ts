@@ -4,7 +4,10 @@
  */
 
 import { BaseEntity } from '../../../types/dualWrite';
-import { SupabaseError, SupabaseErrorCategory } from '../../../utils/supabaseErrorHandler';
+import { OfflineEntity, OfflineOperation } from '../../../types/offline';
+import { SupabaseError, SupabaseErrorCategory, handleSupabaseError } from '../../../utils/supabaseErrorHandler';
+import { offlineSyncService } from '../../offlineSyncService';
+import { supabase } from '../../../config/supabase';
 
 /**
  * Configuration for repository operations
@@ -24,6 +27,7 @@ export interface RepositoryResult<T = any> {
   error?: SupabaseError;
   operation?: string;
   timestamp: Date;
+  queued?: boolean; // Saved locally while offline, written to Supabase once back online
 }
 
 /**
@@ -69,6 +73,9 @@ export abstract class AbstractBaseRepository<T extends BaseEntity> implements Ba
     timeoutMs: 30000
   };
 
+  // Set when writes of this repository are queued while offline
+  private offlineEntity: OfflineEntity | null = null;
+
   constructor(config?: Partial<RepositoryConfig>) {
     if (config) {
       this.config = { ...this.config, ...config };
@@ -94,26 +101,129 @@ export abstract class AbstractBaseRepository<T extends BaseEntity> implements Ba
   protected abstract updateInSupabase(id: string, updates: Partial<T>): Promise<T>;
   protected abstract deleteInSupabase(id: string): Promise<boolean>;
 
-  // Supabase-only implementation with enhanced error handling
+  // Supabase implementation with enhanced error handling, queued locally while offline
   async create(entity: Omit<T, 'id' | 'created_at' | 'updated_at'>): Promise<RepositoryResult<T>> {
-    return await this.withRetryAndErrorHandling(async () => {
+    if (this.offlineEntity && !offlineSyncService.isOnline()) {
+      return await this.queueOfflineCreate(entity);
+    }
+
+    const result: RepositoryResult<T> = await this.withRetryAndErrorHandling(async () => {
       const data = await this.createInSupabase(entity);
       return { success: true, data, timestamp: new Date(), operation: 'create' };
     }, 'create', `Creating ${this.constructor.name.replace('Repository', '').toLowerCase()}`);
+
+    if (!result.success && this.offlineEntity && offlineSyncService.shouldQueue(result.error)) {
+      return await this.queueOfflineCreate(entity);
+    }
+    return result;
   }
 
   async update(id: string, updates: Partial<T>): Promise<RepositoryResult<T>> {
-    return await this.withRetryAndErrorHandling(async () => {
+    if (this.offlineEntity && !offlineSyncService.isOnline()) {
+      return await this.queueOfflineWrite('update', id, updates, { ...updates, id } as T);
+    }
+
+    const result: RepositoryResult<T> = await this.withRetryAndErrorHandling(async () => {
       const data = await this.updateInSupabase(id, updates);
       return { success: true, data, timestamp: new Date(), operation: 'update' };
     }, 'update', `Updating ${this.constructor.name.replace('Repository', '').toLowerCase()} ${id}`);
+
+    if (!result.success && this.offlineEntity && offlineSyncService.shouldQueue(result.error)) {
+      return await this.queueOfflineWrite('update', id, updates, { ...updates, id } as T);
+    }
+    return result;
   }
 
   async delete(id: string): Promise<RepositoryResult<boolean>> {
-    return await this.withRetryAndErrorHandling(async () => {
+    if (this.offlineEntity && !offlineSyncService.isOnline()) {
+      return await this.queueOfflineWrite('delete', id, null, true);
+    }
+
+    const result: RepositoryResult<boolean> = await this.withRetryAndErrorHandling(async () => {
       const data = await this.deleteInSupabase(id);
       return { success: true, data, timestamp: new Date(), operation: 'delete' };
     }, 'delete', `Deleting ${this.constructor.name.replace('Repository', '').toLowerCase()} ${id}`);
+
+    if (!result.success && this.offlineEntity && offlineSyncService.shouldQueue(result.error)) {
+      return await this.queueOfflineWrite('delete', id, null, true);
+    }
+    return result;
+  }
+
+  // Offline queue
+
+  /**
+   * Queue create/update/delete while offline and replay them once back online
+   * @param table - Table read for the server copy's updated_at when resolving conflicts
+   */
+  protected enableOfflineQueue(entity: OfflineEntity, table: string): void {
+    this.offlineEntity = entity;
+    offlineSyncService.registerReplayer(entity, {
+      create: payload => this.createInSupabase(payload as Omit<T, 'id' | 'created_at' | 'updated_at'>),
+      update: (id, payload) => this.updateInSupabase(id, payload as Partial<T>),
+      delete: id => this.deleteInSupabase(id),
+      getUpdatedAt: async id => {
+        const { data, error } = await supabase
+          .from(table)
+          .select('updated_at')
+          .eq('id', id)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data ? new Date(data.updated_at) : null;
+      }
+    });
+  }
+
+  /**
+   * Records read from Supabase with the writes still queued offline applied
+   * @param includeCreated - Whether a record created offline belongs in the result
+   */
+  protected async withPendingChanges(records: T[], includeCreated?: (record: T) => boolean): Promise<T[]> {
+    if (!this.offlineEntity) return records;
+    return await offlineSyncService.applyPendingMutations(this.offlineEntity, records, includeCreated);
+  }
+
+  /**
+   * Single record read from Supabase with its queued write applied
+   */
+  protected async withPendingChange(id: string, record: T | null): Promise<T | null> {
+    if (!this.offlineEntity) return record;
+    return await offlineSyncService.applyPendingMutation(this.offlineEntity, id, record);
+  }
+
+  private async queueOfflineCreate(entity: Omit<T, 'id' | 'created_at' | 'updated_at'>): Promise<RepositoryResult<T>> {
+    // The ID is assigned here so later offline edits and the replay refer to the same record
+    const now = new Date();
+    const record = {
+      ...entity,
+      id: (entity as any).id || crypto.randomUUID(),
+      created_at: now,
+      updated_at: now
+    } as unknown as T;
+
+    return await this.queueOfflineWrite('create', record.id, record, record);
+  }
+
+  private async queueOfflineWrite<R>(
+    operation: OfflineOperation,
+    id: string,
+    payload: Record<string, any> | null,
+    data: R
+  ): Promise<RepositoryResult<R>> {
+    try {
+      await offlineSyncService.enqueue(this.offlineEntity!, id, operation, payload);
+      return { success: true, data, queued: true, timestamp: new Date(), operation };
+    } catch (error) {
+      return {
+        success: false,
+        error: handleSupabaseError(error, `Queueing offline ${operation} of ${this.offlineEntity} ${id}`, operation),
+        timestamp: new Date(),
+        operation
+      };
+    }
   }
 
   // Default implementations for batch operations (can be overridden)
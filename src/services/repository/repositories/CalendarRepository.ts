@@ -7,7 +7,7 @@ import {
   AbstractBaseRepository,
   RepositoryConfig
 } from './BaseRepository';
-import { Calendar, Trade } from '../../../types/dualWrite';
+import { Calendar, CalendarLink, CalendarLinkStatus, CalendarSyncSettings, Trade } from '../../../types/dualWrite';
 import { logger } from '../../../utils/logger';
 
 // Supabase imports
@@ -36,7 +36,7 @@ const parseOptionalDate = (dateValue: any): Date | undefined => {
  * Transform Supabase calendar data to Calendar type
  * Converts string dates to Date objects with validation
  */
-const transformSupabaseCalendar = (data: any): Calendar => {
+export const transformSupabaseCalendar = (data: any): Calendar => {
   return {
     ...data,
     created_at: parseDate(data.created_at),
@@ -44,11 +44,27 @@ const transformSupabaseCalendar = (data: any): Calendar => {
     deleted_at: parseOptionalDate(data.deleted_at),
     auto_delete_at: parseOptionalDate(data.auto_delete_at),
     shared_at: parseOptionalDate(data.shared_at),
+    share_expires_at: parseOptionalDate(data.share_expires_at) ?? null,
     drawdown_start_date: parseOptionalDate(data.drawdown_start_date),
     drawdown_end_date: parseOptionalDate(data.drawdown_end_date),
   } as Calendar;
 };
 
+/**
+ * Transform Supabase calendar link (or link status) data
+ */
+const transformSupabaseCalendarLink = <T extends CalendarLink>(data: any): T => {
+  return {
+    ...data,
+    created_at: parseDate(data.created_at),
+    updated_at: parseDate(data.updated_at),
+    last_sync_at: parseOptionalDate(data.last_sync_at) ?? null,
+    ...(data.last_trade_synced_at !== undefined
+      ? { last_trade_synced_at: parseOptionalDate(data.last_trade_synced_at) ?? null }
+      : {}),
+  } as T;
+};
+
 export class CalendarRepository extends AbstractBaseRepository<Calendar> {
   constructor(config?: Partial<RepositoryConfig>) {
     super(config);
@@ -310,4 +326,110 @@ export class CalendarRepository extends AbstractBaseRepository<Calendar> {
     }
   }
 
+  // =====================================================
+  // CALENDAR LINK OPERATIONS
+  // =====================================================
+
+  /**
+   * Get all calendar links owned by a user
+   */
+  async findLinksByUserId(userId: string): Promise<CalendarLink[]> {
+    const { data, error } = await supabase
+      .from('calendar_links')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).map(item => transformSupabaseCalendarLink<CalendarLink>(item));
+  }
+
+  /**
+   * Get the links of a source calendar with their per-target sync status
+   */
+  async findLinkStatusesBySourceId(sourceCalendarId: string): Promise<CalendarLinkStatus[]> {
+    const [linksResult, statusResult] = await Promise.all([
+      supabase
+        .from('calendar_links')
+        .select('*')
+        .eq('source_calendar_id', sourceCalendarId)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('calendar_link_status')
+        .select('link_id, synced_trade_count, locally_modified_count, last_trade_synced_at')
+        .eq('source_calendar_id', sourceCalendarId)
+    ]);
+
+    if (linksResult.error) {
+      throw linksResult.error;
+    }
+    if (statusResult.error) {
+      throw statusResult.error;
+    }
+
+    const statusByLink = new Map<string, any>((statusResult.data || []).map(status => [status.link_id, status]));
+
+    return (linksResult.data || []).map(link => {
+      const status = statusByLink.get(link.id);
+      return transformSupabaseCalendarLink<CalendarLinkStatus>({
+        ...link,
+        synced_trade_count: Number(status?.synced_trade_count ?? 0),
+        locally_modified_count: Number(status?.locally_modified_count ?? 0),
+        last_trade_synced_at: status?.last_trade_synced_at ?? null
+      });
+    });
+  }
+
+  /**
+   * Link a source calendar to a target calendar
+   * Cycles and cross-user links are rejected by the database
+   */
+  async createLink(
+    link: Pick<CalendarLink, 'source_calendar_id' | 'target_calendar_id' | 'user_id'> & { sync_settings: CalendarSyncSettings }
+  ): Promise<CalendarLink> {
+    const { data, error } = await supabase
+      .from('calendar_links')
+      .insert(link)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return transformSupabaseCalendarLink<CalendarLink>(data);
+  }
+
+  /**
+   * Update the sync settings of a link
+   */
+  async updateLinkSettings(linkId: string, syncSettings: CalendarSyncSettings): Promise<void> {
+    const { error } = await supabase
+      .from('calendar_links')
+      .update({ sync_settings: syncSettings })
+      .eq('id', linkId);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a link (existing synced copies stay in the target calendar)
+   */
+  async deleteLink(linkId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('calendar_links')
+      .delete()
+      .eq('id', linkId);
+
+    if (error) {
+      throw error;
+    }
+
+    return true;
+  }
+
 }
@@ -3,8 +3,9 @@
  * Handles Supabase operations for simple notes
  */
 
+import { format, parseISO } from "date-fns";
 import { AbstractBaseRepository, RepositoryConfig } from "./BaseRepository";
-import { Note } from "../../../types/note";
+import { Note, ReminderOccurrence } from "../../../types/note";
 import { logger } from "../../../utils/logger";
 import { supabase } from "../../../config/supabase";
 
@@ -38,21 +39,68 @@ const parseDate = (dateValue: any, fallback: Date = new Date()): Date => {
   return isNaN(parsed.getTime()) ? fallback : parsed;
 };
 
+/**
+ * reminder_date is a DATE column; read it as local midnight of that day
+ */
+const parseReminderDate = (dateValue: any): Date | null => {
+  if (!dateValue) return null;
+  if (dateValue instanceof Date) return dateValue;
+  const parsed = parseISO(String(dateValue).slice(0, 10));
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
 /**
  * Transform Supabase note data to Note type
  */
-const transformSupabaseNote = (data: any): Note => {
+export const transformSupabaseNote = (data: any): Note => {
   return {
     ...data,
     created_at: parseDate(data.created_at),
     updated_at: parseDate(data.updated_at),
     archived_at: data.archived_at ? parseDate(data.archived_at) : null,
+    reminder_date: parseReminderDate(data.reminder_date),
   } as Note;
 };
 
+/**
+ * Write reminder_date as the local calendar day, not a UTC timestamp that
+ * Postgres would truncate to the previous day east of UTC
+ */
+const toSupabaseNote = <T extends Partial<Note>>(note: T): T => {
+  if (!(note.reminder_date instanceof Date)) return note;
+  return { ...note, reminder_date: format(note.reminder_date, "yyyy-MM-dd") } as T;
+};
+
+const transformReminderOccurrence = (data: any): ReminderOccurrence => ({
+  ...data,
+  notified_at: data.notified_at ? parseDate(data.notified_at) : null,
+  snoozed_until: data.snoozed_until ? parseDate(data.snoozed_until) : null,
+  created_at: parseDate(data.created_at),
+  updated_at: parseDate(data.updated_at),
+});
+
+/**
+ * Whether a note created offline matches the filters of a query
+ */
+const matchesQueryOptions = (note: Note, options: NoteQueryOptions): boolean => {
+  const { isPinned, isArchived, byAssistant, searchQuery } = options;
+
+  if (isPinned !== undefined && !!note.is_pinned !== isPinned) return false;
+  if (isArchived !== undefined && !!note.is_archived !== isArchived) return false;
+  if (byAssistant !== undefined && !!note.by_assistant !== byAssistant) return false;
+
+  if (searchQuery && searchQuery.trim() !== "") {
+    const query = searchQuery.toLowerCase();
+    return (note.title || "").toLowerCase().includes(query)
+      || (note.content || "").toLowerCase().includes(query);
+  }
+  return true;
+};
+
 export class NoteRepository extends AbstractBaseRepository<Note> {
   constructor(config?: Partial<RepositoryConfig>) {
     super(config);
+    this.enableOfflineQueue("note", "notes");
   }
 
   // READ OPERATIONS
@@ -67,13 +115,13 @@ export class NoteRepository extends AbstractBaseRepository<Note> {
 
       if (error) {
         logger.error("Error finding note by ID:", error);
-        return null;
+        return await this.withPendingChange(id, null);
       }
 
-      return data ? transformSupabaseNote(data) : null;
+      return await this.withPendingChange(id, data ? transformSupabaseNote(data) : null);
     } catch (error) {
       logger.error("Error finding note by ID:", error);
-      return null;
+      return await this.withPendingChange(id, null);
     }
   }
 
@@ -85,15 +133,15 @@ export class NoteRepository extends AbstractBaseRepository<Note> {
         .eq("user_id", userId)
         .order("updated_at", { ascending: false });
 
+      const notes = !error && data ? data.map((item) => transformSupabaseNote(item)) : [];
       if (error) {
         logger.error("Error finding notes by user ID:", error);
-        return [];
       }
 
-      return data ? data.map((item) => transformSupabaseNote(item)) : [];
+      return await this.withPendingChanges(notes, (note) => note.user_id === userId);
     } catch (error) {
       logger.error("Exception finding notes by user ID:", error);
-      return [];
+      return await this.withPendingChanges([], (note) => note.user_id === userId);
     }
   }
 
@@ -167,17 +215,20 @@ export class NoteRepository extends AbstractBaseRepository<Note> {
 
       if (error) {
         logger.error("Error querying notes by user ID:", error);
-        return { notes: [], total: 0, hasMore: false };
+        return await this.withPendingQueryChanges([], 0, options, (note) => note.user_id === userId);
       }
 
       const notes = data ? data.map((item) => transformSupabaseNote(item)) : [];
       const total = count || 0;
       const hasMore = offset + limit < total;
 
-      return { notes, total, hasMore };
+      return {
+        ...(await this.withPendingQueryChanges(notes, total, options, (note) => note.user_id === userId)),
+        hasMore,
+      };
     } catch (error) {
       logger.error("Exception querying notes by user ID:", error);
-      return { notes: [], total: 0, hasMore: false };
+      return await this.withPendingQueryChanges([], 0, options, (note) => note.user_id === userId);
     }
   }
 
@@ -190,15 +241,15 @@ export class NoteRepository extends AbstractBaseRepository<Note> {
         .or(`calendar_id.eq.${calendarId},calendar_id.is.null`)
         .order("updated_at", { ascending: false });
 
+      const notes = !error && data ? data.map((item) => transformSupabaseNote(item)) : [];
       if (error) {
         logger.error("Error finding notes by calendar ID:", error);
-        return [];
       }
 
-      return data ? data.map((item) => transformSupabaseNote(item)) : [];
+      return await this.withPendingChanges(notes, (note) => !note.calendar_id || note.calendar_id === calendarId);
     } catch (error) {
       logger.error("Exception finding notes by calendar ID:", error);
-      return [];
+      return await this.withPendingChanges([], (note) => !note.calendar_id || note.calendar_id === calendarId);
     }
   }
 
@@ -252,18 +303,49 @@ export class NoteRepository extends AbstractBaseRepository<Note> {
 
       if (error) {
         logger.error("Error querying notes by calendar ID:", error);
-        return { notes: [], total: 0, hasMore: false };
+        return await this.withPendingQueryChanges([], 0, options, (note) => (!note.calendar_id || note.calendar_id === calendarId));
       }
 
       const notes = data ? data.map((item) => transformSupabaseNote(item)) : [];
       const total = count || 0;
       const hasMore = offset + limit < total;
 
-      return { notes, total, hasMore };
+      return {
+        ...(await this.withPendingQueryChanges(notes, total, options, (note) => (!note.calendar_id || note.calendar_id === calendarId))),
+        hasMore,
+      };
     } catch (error) {
       logger.error("Exception querying notes by calendar ID:", error);
-      return { notes: [], total: 0, hasMore: false };
+      return await this.withPendingQueryChanges([], 0, options, (note) => (!note.calendar_id || note.calendar_id === calendarId));
+    }
+  }
+
+  /**
+   * Apply notes queued offline to a page of query results.
+   * Notes created offline are listed at the top of the first page.
+   */
+  private async withPendingQueryChanges(
+    notes: Note[],
+    total: number,
+    options: NoteQueryOptions,
+    belongsToQuery: (note: Note) => boolean,
+  ): Promise<NoteQueryResult> {
+    const isFirstPage = !options.offset;
+    const merged = await this.withPendingChanges(
+      notes,
+      (note) => isFirstPage && belongsToQuery(note) && matchesQueryOptions(note, options),
+    );
+    if (merged === notes) {
+      return { notes, total, hasMore: false };
     }
+
+    const created = merged.filter((note) => !notes.some((n) => n.id === note.id));
+    const kept = merged.filter((note) => !created.includes(note));
+    return {
+      notes: [...created, ...kept],
+      total: total + created.length - (notes.length - kept.length),
+      hasMore: false,
+    };
   }
 
   async findAll(): Promise<Note[]> {
@@ -484,6 +566,106 @@ export class NoteRepository extends AbstractBaseRepository<Note> {
     }
   }
 
+  /**
+   * Find active, unarchived reminders of a calendar (including global notes).
+   * Which day they are due on is decided client side from their rule.
+   */
+  async findActiveReminders(calendarId: string): Promise<Note[]> {
+    try {
+      const { data, error } = await supabase
+        .from("notes")
+        .select("*")
+        .or(`calendar_id.eq.${calendarId},calendar_id.is.null`)
+        .eq("is_reminder_active", true)
+        .eq("is_archived", false)
+        .neq("reminder_type", "none")
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        logger.error("Error finding active reminders:", error);
+        return [];
+      }
+
+      return data ? data.map((item) => transformSupabaseNote(item)) : [];
+    } catch (error) {
+      logger.error("Exception finding active reminders:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Find active, unarchived reminders of a user across all calendars
+   */
+  async findActiveRemindersByUserId(userId: string): Promise<Note[]> {
+    try {
+      const { data, error } = await supabase
+        .from("notes")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("is_reminder_active", true)
+        .eq("is_archived", false)
+        .neq("reminder_type", "none");
+
+      if (error) {
+        logger.error("Error finding active reminders by user ID:", error);
+        return [];
+      }
+
+      return data ? data.map((item) => transformSupabaseNote(item)) : [];
+    } catch (error) {
+      logger.error("Exception finding active reminders by user ID:", error);
+      return [];
+    }
+  }
+
+  // REMINDER OCCURRENCE OPERATIONS
+
+  /**
+   * Find a user's reminder occurrences on or after a day (yyyy-MM-dd)
+   */
+  async findReminderOccurrences(
+    userId: string,
+    fromDate: string,
+  ): Promise<ReminderOccurrence[]> {
+    try {
+      const { data, error } = await supabase
+        .from("note_reminder_occurrences")
+        .select("*")
+        .eq("user_id", userId)
+        .gte("occurrence_date", fromDate);
+
+      if (error) {
+        logger.error("Error finding reminder occurrences:", error);
+        return [];
+      }
+
+      return data ? data.map((item) => transformReminderOccurrence(item)) : [];
+    } catch (error) {
+      logger.error("Exception finding reminder occurrences:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Create or update the state of a reminder occurrence
+   */
+  async upsertReminderOccurrence(
+    occurrence: Pick<ReminderOccurrence, "note_id" | "user_id" | "occurrence_date" | "status">
+      & Partial<Pick<ReminderOccurrence, "notified_at" | "snoozed_until">>,
+  ): Promise<ReminderOccurrence> {
+    const { data, error } = await supabase
+      .from("note_reminder_occurrences")
+      .upsert(occurrence, { onConflict: "note_id,occurrence_date" })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return transformReminderOccurrence(data);
+  }
+
   // SUPABASE OPERATIONS
 
   protected async createInSupabase(
@@ -491,7 +673,7 @@ export class NoteRepository extends AbstractBaseRepository<Note> {
   ): Promise<Note> {
     const now = new Date();
     const noteWithTimestamps = {
-      ...entity,
+      ...toSupabaseNote(entity),
       title: entity.title || "Untitled",
       content: entity.content || "",
       is_archived: false,
@@ -519,7 +701,7 @@ export class NoteRepository extends AbstractBaseRepository<Note> {
     updates: Partial<Note>,
   ): Promise<Note> {
     const updatesWithTimestamp = {
-      ...updates,
+      ...toSupabaseNote(updates),
       updated_at: new Date(),
     };
 
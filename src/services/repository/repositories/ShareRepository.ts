@@ -7,6 +7,15 @@
 import { supabase, supabaseUrl } from '../../../config/supabase';
 import { RepositoryResult } from './BaseRepository';
 import { Trade, Calendar } from '../../../types/dualWrite';
+import {
+  ShareAccessOptions,
+  ShareAmountUnit,
+  SharedItemSummary,
+  ShareView,
+  SHARE_ACCESS_ERROR_CODES
+} from '../../../types/sharing';
+import { transformSupabaseTrade } from './TradeRepository';
+import { transformSupabaseCalendar } from './CalendarRepository';
 import { handleSupabaseError } from '../../../utils/supabaseErrorHandler';
 import { logger } from '../../../utils/logger';
 
@@ -26,6 +35,7 @@ export interface SharedTradeData {
   trade: Trade;
   viewCount: number;
   sharedAt: Date;
+  expiresAt: Date | null;
 }
 
 /**
@@ -37,6 +47,9 @@ export interface SharedCalendarData {
   shareInfo: {
     viewCount: number;
     sharedAt: Date;
+    expiresAt: Date | null;
+    restricted: boolean; // Share has privacy settings applied
+    amountUnit: ShareAmountUnit;
   };
 }
 
@@ -49,6 +62,37 @@ function generateShareId(type: 'trade' | 'calendar', id: string): string {
   return `${prefix}_${id}`;
 }
 
+/**
+ * Map the access errors of the get-shared-* edge functions to error codes
+ * 401: password required, 403: incorrect password, 410: link expired,
+ * 429: too many password attempts
+ */
+function getShareAccessError(response: Response, message: string): { code: string; message: string } | null {
+  switch (response.status) {
+    case 401:
+      return { code: SHARE_ACCESS_ERROR_CODES.PASSWORD_REQUIRED, message };
+    case 403:
+      return { code: SHARE_ACCESS_ERROR_CODES.INCORRECT_PASSWORD, message };
+    case 410:
+      return { code: SHARE_ACCESS_ERROR_CODES.EXPIRED, message };
+    case 429:
+      return { code: SHARE_ACCESS_ERROR_CODES.TOO_MANY_ATTEMPTS, message };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Request body of the get-shared-* edge functions
+ */
+function buildShareRequestBody(shareId: string, password?: string): string {
+  return JSON.stringify({
+    shareId,
+    password: password || undefined,
+    referrer: document.referrer || undefined
+  });
+}
+
 /**
  * Share Repository - handles all share link operations
  */
@@ -240,6 +284,9 @@ export class ShareRepository {
         throw new Error('You do not have permission to modify this shared trade');
       }
 
+      // Drop the password while the share still identifies the owner
+      await this.removeSharePassword(shareId);
+
       // Clear sharing information
       const { error: updateError } = await supabase
         .from('trades')
@@ -247,7 +294,8 @@ export class ShareRepository {
           share_id: null,
           share_link: null,
           is_shared: false,
-          shared_at: null
+          shared_at: null,
+          share_expires_at: null
         })
         .eq('share_id', shareId);
 
@@ -305,6 +353,9 @@ export class ShareRepository {
         throw new Error('You do not have permission to modify this shared calendar');
       }
 
+      // Drop the password while the share still identifies the owner
+      await this.removeSharePassword(shareId);
+
       // Clear sharing information
       const { error: updateError } = await supabase
         .from('calendars')
@@ -312,7 +363,8 @@ export class ShareRepository {
           share_id: null,
           share_link: null,
           is_shared: false,
-          shared_at: null
+          shared_at: null,
+          share_expires_at: null
         })
         .eq('share_id', shareId);
 
@@ -345,12 +397,232 @@ export class ShareRepository {
     }
   }
 
+  /**
+   * Set the expiry and/or password of a share link
+   * Passwords are hashed in the database by set_share_password
+   */
+  async updateShareAccess(
+    type: 'trade' | 'calendar',
+    shareId: string,
+    options: ShareAccessOptions
+  ): Promise<RepositoryResult<boolean>> {
+    try {
+      logger.log(`Updating access of ${type} share ${shareId}`);
+
+      if (options.expires_at !== undefined) {
+        const { error: updateError } = await supabase
+          .from(type === 'trade' ? 'trades' : 'calendars')
+          .update({ share_expires_at: options.expires_at ? options.expires_at.toISOString() : null })
+          .eq('share_id', shareId);
+
+        if (updateError) {
+          throw updateError;
+        }
+      }
+
+      if (options.password !== undefined) {
+        const { error: passwordError } = await supabase
+          .rpc('set_share_password', { p_share_id: shareId, p_password: options.password || null });
+
+        if (passwordError) {
+          throw passwordError;
+        }
+      }
+
+      return {
+        success: true,
+        data: true,
+        timestamp: new Date()
+      };
+    } catch (error: any) {
+      const supabaseError = handleSupabaseError(
+        error,
+        `Updating access of share ${shareId}`,
+        'updateShareAccess'
+      );
+
+      logger.error('Failed to update share access:', supabaseError);
+
+      return {
+        success: false,
+        error: supabaseError,
+        operation: 'updateShareAccess',
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * Remove the password of a share, ignoring failures (used when unsharing)
+   */
+  private async removeSharePassword(shareId: string): Promise<void> {
+    const { error } = await supabase
+      .rpc('set_share_password', { p_share_id: shareId, p_password: null });
+
+    if (error) {
+      logger.warn(`Failed to remove password of share ${shareId}:`, error);
+    }
+  }
+
+  /**
+   * Whether a share link is password protected
+   */
+  async hasSharePassword(shareId: string): Promise<RepositoryResult<boolean>> {
+    try {
+      const { data, error } = await supabase
+        .rpc('share_has_password', { p_share_id: shareId });
+
+      if (error) {
+        throw error;
+      }
+
+      return {
+        success: true,
+        data: !!data,
+        timestamp: new Date()
+      };
+    } catch (error: any) {
+      const supabaseError = handleSupabaseError(
+        error,
+        `Checking password of share ${shareId}`,
+        'hasSharePassword'
+      );
+
+      return {
+        success: false,
+        error: supabaseError,
+        operation: 'hasSharePassword',
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * Get the most recent views of a share link
+   */
+  async getShareViews(shareId: string, limit: number = 50): Promise<RepositoryResult<ShareView[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('share_views')
+        .select('*')
+        .eq('share_id', shareId)
+        .order('viewed_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        throw error;
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(view => ({ ...view, viewed_at: new Date(view.viewed_at) })),
+        timestamp: new Date()
+      };
+    } catch (error: any) {
+      const supabaseError = handleSupabaseError(
+        error,
+        `Fetching views of share ${shareId}`,
+        'getShareViews'
+      );
+
+      logger.error('Failed to get share views:', supabaseError);
+
+      return {
+        success: false,
+        error: supabaseError,
+        operation: 'getShareViews',
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * Get every calendar and trade the user currently shares, newest first
+   */
+  async getSharedItems(userId: string): Promise<RepositoryResult<SharedItemSummary[]>> {
+    try {
+      const [calendarsResult, tradesResult, passwordsResult] = await Promise.all([
+        supabase
+          .from('calendars')
+          .select('id, name, share_id, share_link, shared_at, share_expires_at, share_view_count')
+          .eq('user_id', userId)
+          .eq('is_shared', true),
+        supabase
+          .from('trades')
+          .select('id, calendar_id, name, trade_date, share_id, share_link, shared_at, share_expires_at, share_view_count')
+          .eq('user_id', userId)
+          .eq('is_shared', true),
+        supabase
+          .from('share_passwords')
+          .select('share_id')
+          .eq('user_id', userId)
+      ]);
+
+      if (calendarsResult.error) throw calendarsResult.error;
+      if (tradesResult.error) throw tradesResult.error;
+      if (passwordsResult.error) throw passwordsResult.error;
+
+      const protectedShareIds = new Set((passwordsResult.data || []).map(row => row.share_id));
+      const toDate = (value?: string | null) => (value ? new Date(value) : undefined);
+
+      const items: SharedItemSummary[] = [
+        ...(calendarsResult.data || []).map(calendar => ({
+          type: 'calendar' as const,
+          id: calendar.id,
+          calendar_id: calendar.id,
+          name: calendar.name,
+          share_id: calendar.share_id,
+          share_link: calendar.share_link,
+          shared_at: toDate(calendar.shared_at),
+          expires_at: toDate(calendar.share_expires_at) ?? null,
+          view_count: calendar.share_view_count || 0,
+          password_protected: protectedShareIds.has(calendar.share_id)
+        })),
+        ...(tradesResult.data || []).map(trade => ({
+          type: 'trade' as const,
+          id: trade.id,
+          calendar_id: trade.calendar_id,
+          name: trade.name || `Trade on ${new Date(trade.trade_date).toLocaleDateString()}`,
+          share_id: trade.share_id,
+          share_link: trade.share_link,
+          shared_at: toDate(trade.shared_at),
+          expires_at: toDate(trade.share_expires_at) ?? null,
+          view_count: trade.share_view_count || 0,
+          password_protected: protectedShareIds.has(trade.share_id)
+        }))
+      ];
+
+      items.sort((a, b) => (b.shared_at?.getTime() || 0) - (a.shared_at?.getTime() || 0));
+
+      return {
+        success: true,
+        data: items,
+        timestamp: new Date()
+      };
+    } catch (error: any) {
+      const supabaseError = handleSupabaseError(
+        error,
+        `Fetching shared items of user ${userId}`,
+        'getSharedItems'
+      );
+
+      logger.error('Failed to get shared items:', supabaseError);
+
+      return {
+        success: false,
+        error: supabaseError,
+        operation: 'getSharedItems',
+        timestamp: new Date()
+      };
+    }
+  }
+
   /**
    * Get a shared trade by share ID (for public viewing)
    * This will be used by the public shared trade page
    * Uses edge function to bypass RLS policies for unauthenticated access
    */
-  async getSharedTrade(shareId: string): Promise<RepositoryResult<SharedTradeData | null>> {
+  async getSharedTrade(shareId: string, password?: string): Promise<RepositoryResult<SharedTradeData | null>> {
     try {
       logger.log(`Fetching shared trade ${shareId}`);
 
@@ -360,7 +632,7 @@ export class ShareRepository {
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ shareId })
+        body: buildShareRequestBody(shareId, password)
       });
 
       if (!response.ok) {
@@ -371,7 +643,9 @@ export class ShareRepository {
             timestamp: new Date()
           };
         }
-        throw new Error(`Edge function error: ${response.status}`);
+        const errorBody = await response.json().catch(() => ({}));
+        throw getShareAccessError(response, errorBody.error || 'Share link unavailable') ||
+          new Error(`Edge function error: ${response.status}`);
       }
 
       const result = await response.json();
@@ -382,9 +656,10 @@ export class ShareRepository {
       return {
         success: true,
         data: {
-          trade: responseData.trade as Trade,
+          trade: transformSupabaseTrade(responseData.trade),
           viewCount: responseData.viewCount || 0,
-          sharedAt: new Date(responseData.sharedAt)
+          sharedAt: new Date(responseData.sharedAt),
+          expiresAt: responseData.expiresAt ? new Date(responseData.expiresAt) : null
         },
         timestamp: new Date()
       };
@@ -409,50 +684,51 @@ export class ShareRepository {
   /**
    * Get a shared calendar by share ID (for public viewing)
    * This will be used by the public shared calendar page
-   * Uses direct Supabase queries - RLS policies allow public read access to shared calendars
+   * Calls the get-shared-calendar edge function, which applies the calendar's
+   * share privacy settings and returns the (possibly redacted) trades
    */
-  async getSharedCalendar(shareId: string): Promise<RepositoryResult<SharedCalendarData | null>> {
+  async getSharedCalendar(shareId: string, password?: string): Promise<RepositoryResult<SharedCalendarData | null>> {
     try {
       logger.log(`Fetching shared calendar ${shareId}`);
 
-      // Query calendar directly - RLS allows public read of shared calendars
-      const { data: calendar, error: calendarError } = await supabase
-        .from('calendars')
-        .select('*')
-        .eq('share_id', shareId)
-        .eq('is_shared', true)
-        .single();
+      // Call edge function - restricted shares are not readable through RLS
+      const response = await fetch(`${supabaseUrl}/functions/v1/get-shared-calendar`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: buildShareRequestBody(shareId, password)
+      });
 
-      if (calendarError || !calendar) {
-        if (calendarError?.code === 'PGRST116') {
-          // No rows returned
+      if (!response.ok) {
+        if (response.status === 404) {
           return {
             success: true,
             data: null,
             timestamp: new Date()
           };
         }
-        throw calendarError || new Error('Calendar not found');
+        const errorBody = await response.json().catch(() => ({}));
+        throw getShareAccessError(response, errorBody.error || 'Share link unavailable') ||
+          new Error(`Edge function error: ${response.status}`);
       }
 
-      // Increment view count using database function (SECURITY DEFINER allows this)
-      const { data: viewCountResult } = await supabase
-        .rpc('increment_shared_calendar_view_count', { p_share_id: shareId });
-
-      const viewCount = viewCountResult?.viewCount || (calendar.share_view_count || 0) + 1;
+      const result = await response.json();
 
-      // Note: Trades are NOT fetched here - useCalendarTrades will fetch them directly
-      // via Supabase using the updated RLS policy that allows public read of trades
-      // belonging to shared calendars
+      // Edge function wraps response in { success: true, data: {...} }
+      const responseData = result.data || result;
 
       return {
         success: true,
         data: {
-          calendar: calendar as Calendar,
-          trades: [], // Trades will be fetched by useCalendarTrades
+          calendar: transformSupabaseCalendar(responseData.calendar),
+          trades: (responseData.trades || []).map(transformSupabaseTrade),
           shareInfo: {
-            viewCount,
-            sharedAt: new Date(calendar.shared_at)
+            viewCount: responseData.shareInfo?.viewCount || 0,
+            sharedAt: new Date(responseData.shareInfo?.sharedAt),
+            expiresAt: responseData.shareInfo?.expiresAt ? new Date(responseData.shareInfo.expiresAt) : null,
+            restricted: !!responseData.shareInfo?.restricted,
+            amountUnit: responseData.shareInfo?.amountUnit || 'currency'
           }
         },
         timestamp: new Date()
@@ -21,6 +21,7 @@ import { TradeImage } from '../../../components/trades/TradeForm';
 
 // Economic events imports
 import { tradeEconomicEventService, getRelevantCurrenciesFromTags } from '../../tradeEconomicEventService';
+import { getCalendarSessions } from '../../../utils/sessionTimeUtils';
 import { TradeEconomicEvent } from '../../../types/dualWrite';
 
  
@@ -69,13 +70,18 @@ const sortTags = (tags: string[] | undefined): string[] => {
  * Converts string dates to Date objects with validation
  * Sorts tags alphabetically for consistent display
  */
-const transformSupabaseTrade = (data: any): Trade => {
+export const transformSupabaseTrade = (data: any): Trade => {
   return {
     ...data,
     trade_date: parseDate(data.trade_date),
     created_at: parseDate(data.created_at),
     updated_at: parseDate(data.updated_at),
     shared_at: parseOptionalDate(data.shared_at),
+    share_expires_at: parseOptionalDate(data.share_expires_at) ?? null,
+    last_synced_at: parseOptionalDate(data.last_synced_at),
+    locally_modified_at: parseOptionalDate(data.locally_modified_at),
+    deleted_at: parseOptionalDate(data.deleted_at) ?? null,
+    auto_delete_at: parseOptionalDate(data.auto_delete_at) ?? null,
     tags: sortTags(data.tags),
   } as Trade;
 };
@@ -83,6 +89,7 @@ const transformSupabaseTrade = (data: any): Trade => {
 export class TradeRepository extends AbstractBaseRepository<Trade> {
   constructor(config?: Partial<RepositoryConfig>) {
     super(config);
+    this.enableOfflineQueue('trade', 'trades');
   }
 
   // =====================================================
@@ -99,13 +106,13 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
 
       if (error) {
         logger.error('Error finding trade by ID:', error);
-        return null;
+        return await this.withPendingChange(id, null);
       }
 
-      return data ? transformSupabaseTrade(data) : null;
+      return await this.withPendingChange(id, data ? transformSupabaseTrade(data) : null);
     } catch (error) {
       logger.error('Error finding trade by ID:', error);
-      return null;
+      return await this.withPendingChange(id, null);
     }
   }
 
@@ -124,6 +131,7 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
         .from('trades')
         .select('*')
         .eq('user_id', userId)
+        .is('deleted_at', null)
         .order(orderBy, { ascending });
 
       if (limit) {
@@ -149,16 +157,45 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
       const { data, error } = await supabase
         .from('trades')
         .select('*')
-        .eq('calendar_id', calendarId);
+        .eq('calendar_id', calendarId)
+        .is('deleted_at', null);
 
       if (error) {
         logger.error('Error finding trades by calendar ID:', error);
+        return await this.withPendingChanges([], trade => trade.calendar_id === calendarId);
+      }
+
+      const trades = data ? data.map(item => transformSupabaseTrade(item)) : [];
+      return await this.withPendingChanges(trades, trade => trade.calendar_id === calendarId);
+    } catch (error) {
+      logger.error('Error finding trades by calendar ID:', error);
+      return await this.withPendingChanges([], trade => trade.calendar_id === calendarId);
+    }
+  }
+
+  /**
+   * Fetch several trades by ID, leaving out trashed trades
+   * @param ids - Trade IDs to fetch
+   * @returns The trades that were found
+   */
+  async findByIds(ids: string[]): Promise<Trade[]> {
+    if (ids.length === 0) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('trades')
+        .select('*')
+        .in('id', ids)
+        .is('deleted_at', null);
+
+      if (error) {
+        logger.error('Error finding trades by IDs:', error);
         return [];
       }
 
       return data ? data.map(item => transformSupabaseTrade(item)) : [];
     } catch (error) {
-      logger.error('Error finding trades by calendar ID:', error);
+      logger.error('Error finding trades by IDs:', error);
       return [];
     }
   }
@@ -175,6 +212,7 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
         .from('trades')
         .select('*')
         .eq('calendar_id', calendarId)
+        .is('deleted_at', null)
         .eq('is_pinned', true)
         .order('trade_date', { ascending: false });
 
@@ -191,6 +229,32 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
     }
   }
 
+  /**
+   * Fetch the trashed trades of a calendar, most recently deleted first
+   * @param calendarId - Calendar ID to fetch trashed trades from
+   * @returns Array of trashed trades
+   */
+  async findTrashByCalendarId(calendarId: string): Promise<Trade[]> {
+    try {
+      const { data, error } = await supabase
+        .from('trades')
+        .select('*')
+        .eq('calendar_id', calendarId)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+
+      if (error) {
+        logger.error('Error fetching trashed trades:', error);
+        return [];
+      }
+
+      return data ? data.map(item => transformSupabaseTrade(item)) : [];
+    } catch (error) {
+      logger.error('Error fetching trashed trades:', error);
+      return [];
+    }
+  }
+
   /**
    * Fetch trades that have a specific economic event
    * Uses cleaned_name, currency, and impact for matching
@@ -217,6 +281,7 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
         .from('trades')
         .select('*')
         .eq('calendar_id', calendarId)
+        .is('deleted_at', null)
         .not('economic_events', 'is', null)
         .filter('economic_events', 'cs', JSON.stringify([{
           cleaned_name: normalizedName,
@@ -275,6 +340,7 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
           .from('trades')
           .select('*', { count: 'exact', head: true })
           .eq('calendar_id', calendarId)
+          .is('deleted_at', null)
           .not('economic_events', 'is', null)
           .filter('economic_events', 'cs', eventFilter);
 
@@ -307,7 +373,8 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
     try {
       const { data, error } = await supabase
         .from('trades')
-        .select('*');
+        .select('*')
+        .is('deleted_at', null);
 
       if (error) {
         logger.error('Error finding all trades:', error);
@@ -365,7 +432,8 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
       let query = supabase
         .from('trades')
         .select('*', { count: 'exact' })
-        .eq('calendar_id', calendarId);
+        .eq('calendar_id', calendarId)
+        .is('deleted_at', null);
 
       // Apply text search if provided
       if (searchQuery.trim()) {
@@ -509,6 +577,7 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
         .from('trades')
         .select(selectClause)
         .eq('calendar_id', calendarId)
+        .is('deleted_at', null)
         .gte('trade_date', startOfMonth.toISOString())
         .lte('trade_date', endOfMonth.toISOString())
         .order('trade_date', { ascending: false });
@@ -572,6 +641,7 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
         .from('trades')
         .select(selectClause)
         .eq('calendar_id', calendarId)
+        .is('deleted_at', null)
         .gte('trade_date', startOfDay.toISOString())
         .lte('trade_date', endOfDay.toISOString())
         .order('trade_date', { ascending: false });
@@ -619,19 +689,32 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
     startDate: Date,
     endDate: Date
   ): Promise<Trade[]> {
-    try {
-      const start = new Date(startDate);
-      start.setHours(0, 0, 0, 0);
-
-      const end = new Date(endDate);
-      end.setHours(23, 59, 59, 999);
+    const start = new Date(startDate);
+    start.setHours(0, 0, 0, 0);
+
+    const end = new Date(endDate);
+    end.setHours(23, 59, 59, 999);
+
+    // Trades queued offline are shown in the range they were saved to
+    const withPendingTrades = async (trades: Trade[]): Promise<Trade[]> => {
+      const merged = await this.withPendingChanges(trades, trade => trade.calendar_id === calendarId);
+      if (merged === trades) return trades;
+      return merged
+        .filter(trade => {
+          const time = new Date(trade.trade_date).getTime();
+          return time >= start.getTime() && time <= end.getTime();
+        })
+        .sort((a, b) => new Date(b.trade_date).getTime() - new Date(a.trade_date).getTime());
+    };
 
+    try {
       logger.log(`📅 Fetching trades for date range (${start.toISOString()} to ${end.toISOString()})`);
 
       const { data, error } = await supabase
         .from('trades')
         .select('*')
         .eq('calendar_id', calendarId)
+        .is('deleted_at', null)
         .gte('trade_date', start.toISOString())
         .lte('trade_date', end.toISOString())
         .order('trade_date', { ascending: false });
@@ -645,10 +728,10 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
 
       logger.log(`✅ Found ${trades.length} trades for date range`);
 
-      return trades;
+      return await withPendingTrades(trades);
     } catch (error) {
       logger.error('Error in getTradesByDateRange:', error);
-      return [];
+      return await withPendingTrades([]);
     }
   }
 
@@ -690,6 +773,7 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
         .from('trades')
         .select('*', { count: 'exact' })
         .eq('calendar_id', calendarId)
+        .is('deleted_at', null)
         .gte('trade_date', startOfYear.toISOString())
         .lte('trade_date', endOfYear.toISOString())
         .order('trade_date', { ascending: true }) // Jan to Dec
@@ -847,7 +931,14 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
         take_profit: trade.take_profit ?? null,
         risk_to_reward: trade.risk_to_reward ?? null,
         partials_taken: trade.partials_taken ?? null,
+        instrument: trade.instrument ?? null,
+        direction: trade.direction ?? null,
+        position_size: trade.position_size ?? null,
+        commission: trade.commission ?? null,
+        swap: trade.swap ?? null,
+        fees: trade.fees ?? null,
         tags: sortTags(trade.tags),
+        checklist: trade.checklist ?? null,
         notes: trade.notes || '',
         images: trade.images || [],
         economic_events: trade.economic_events || [],
@@ -965,7 +1056,14 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
         take_profit: trade.take_profit ?? null,
         risk_to_reward: trade.risk_to_reward ?? null,
         partials_taken: trade.partials_taken ?? null,
+        instrument: trade.instrument ?? null,
+        direction: trade.direction ?? null,
+        position_size: trade.position_size ?? null,
+        commission: trade.commission ?? null,
+        swap: trade.swap ?? null,
+        fees: trade.fees ?? null,
         tags: sortTags(trade.tags),
+        checklist: trade.checklist ?? null,
         notes: trade.notes || '',
         images: trade.images || [],
         economic_events: trade.economic_events || [],
@@ -1046,13 +1144,15 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
    * Fetch economic events for a trade based on its date, session, and tags
    * This is a helper method used during trade creation and updates
    *
+   * @param calendarId - The trade's calendar (its sessions define the session hours)
    * @param tradeDate - The date of the trade
-   * @param session - The trading session (Asia, London, NY AM, NY PM)
+   * @param session - The trading session name
    * @param tags - The trade tags (used to extract currency pairs)
    * @param existingEvents - Existing economic events (if any)
    * @returns Array of economic events for the trade
    */
   private async fetchEconomicEventsForTrade(
+    calendarId: string,
     tradeDate: Date,
     session?: string,
     tags?: string[],
@@ -1075,11 +1175,18 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
       // Extract currencies from trade tags
       const currencies = tags ? getRelevantCurrenciesFromTags(tags) : [];
 
+      const { data: calendar } = await supabase
+        .from('calendars')
+        .select('trading_sessions')
+        .eq('id', calendarId)
+        .maybeSingle();
+
       // Fetch economic events for this trade session
       const economicEvents = await tradeEconomicEventService.fetchEventsForTrade(
         tradeDate,
         session,
-        currencies.length > 0 ? currencies : undefined
+        currencies.length > 0 ? currencies : undefined,
+        getCalendarSessions(calendar)
       );
 
       logger.log(`📊 Fetched ${economicEvents.length} economic events for trade session ${session}`);
@@ -1104,6 +1211,7 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
 
     // Fetch economic events for this trade if not already provided
     const economicEvents = await this.fetchEconomicEventsForTrade(
+      entity.calendar_id,
       entity.trade_date,
       entity.session,
       getRelevantCurrenciesFromTags(entity.tags || []), // Pass trade tags for currency filtering
@@ -1151,6 +1259,7 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
       const tags = updates.tags || existingTrade.tags;
 
       economicEvents = await this.fetchEconomicEventsForTrade(
+        existingTrade.calendar_id,
         tradeDate,
         session,
         tags,
@@ -1265,8 +1374,15 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
         take_profit: trade.take_profit ?? null,
         risk_to_reward: trade.risk_to_reward ?? null,
         partials_taken: trade.partials_taken,
+        instrument: trade.instrument ?? null,
+        direction: trade.direction ?? null,
+        position_size: trade.position_size ?? null,
+        commission: trade.commission ?? null,
+        swap: trade.swap ?? null,
+        fees: trade.fees ?? null,
         notes: trade.notes,
         tags: sortTags(trade.tags),
+        checklist: trade.checklist ?? null,
         images: trade.images || [],
         economic_events: trade.economic_events || [],
         is_temporary: trade.is_temporary,
@@ -1374,4 +1490,59 @@ export class TradeRepository extends AbstractBaseRepository<Trade> {
       throw error;
     }
   }
+
+  /**
+   * Move trades to the trash using the trash_trades PostgreSQL function
+   * Trashed trades are hidden everywhere and purged by the cleanup scheduler
+   * after the retention period (stats updated by trigger)
+   */
+  async trashTrades(tradeIds: string[], retentionDays: number): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc("trash_trades", {
+        p_trade_ids: tradeIds,
+        p_retention_days: retentionDays,
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      if (!data?.success) {
+        throw new Error("Failed to move trades to trash");
+      }
+
+      logger.log(`Moved ${data.trashed_count} trades to trash`);
+
+      return data.trashed_count;
+    } catch (error) {
+      logger.error("Error moving trades to trash:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore trashed trades using the restore_trades PostgreSQL function
+   */
+  async restoreTrades(tradeIds: string[]): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc("restore_trades", {
+        p_trade_ids: tradeIds,
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      if (!data?.success) {
+        throw new Error("Failed to restore trades");
+      }
+
+      logger.log(`Restored ${data.restored_count} trades from trash`);
+
+      return data.restored_count;
+    } catch (error) {
+      logger.error("Error restoring trades:", error);
+      throw error;
+    }
+  }
 }
@@ -16,6 +16,7 @@ import {
   generateRecommendations
 } from '../utils/scoreUtils';
 import { DynamicRiskSettings } from '../utils/dynamicRiskUtils';
+import { SessionDefinition } from '../utils/sessionTimeUtils';
 import { tagPatternService } from './tagPatternService';
 import * as dateFns from 'date-fns';
 import { logger } from '../utils/logger';
@@ -26,6 +27,7 @@ import { logger } from '../utils/logger';
 export class ScoreService {
   private settings: ScoreSettings;
   private dynamicRiskSettings?: DynamicRiskSettings;
+  private tradingSessions?: SessionDefinition[];
 
   constructor(settings: ScoreSettings = DEFAULT_SCORE_SETTINGS) {
     this.settings = settings;
@@ -38,6 +40,13 @@ export class ScoreService {
     this.dynamicRiskSettings = dynamicRiskSettings;
   }
 
+  /**
+   * Update the calendar's trading sessions used for session consistency
+   */
+  updateTradingSessions(tradingSessions?: SessionDefinition[]): void {
+    this.tradingSessions = tradingSessions;
+  }
+
   /**
    * Calculate comprehensive score analysis for a given period
    */
@@ -55,16 +64,16 @@ export class ScoreService {
 
     // Calculate historical pattern from longer lookback period
     const historicalTrades = this.getHistoricalTrades(allTrades, targetDate);
-    const pattern = calculateTradingPattern(targetDate, historicalTrades, this.settings.thresholds.lookbackPeriod, this.settings.selectedTags, this.dynamicRiskSettings);
+    const pattern = calculateTradingPattern(targetDate, historicalTrades, this.settings.thresholds.lookbackPeriod, this.settings.selectedTags, this.dynamicRiskSettings, this.tradingSessions);
 
     // Yield control again
     await new Promise(resolve => setTimeout(resolve, 0));
 
     // Calculate individual score components
-    const consistency = calculateConsistencyScore(periodTrades, pattern, this.settings, allTrades, this.dynamicRiskSettings);
+    const consistency = calculateConsistencyScore(periodTrades, pattern, this.settings, allTrades, this.dynamicRiskSettings, this.tradingSessions);
     const riskManagement = calculateRiskManagementScore(periodTrades, pattern, this.settings, allTrades, this.dynamicRiskSettings);
     const performance = calculatePerformanceScore(periodTrades, pattern, this.settings, allTrades, this.dynamicRiskSettings);
-    const discipline = calculateDisciplineScore(periodTrades, pattern, this.settings, allTrades, this.dynamicRiskSettings);
+    const discipline = calculateDisciplineScore(periodTrades, pattern, this.settings, allTrades, this.dynamicRiskSettings, this.tradingSessions);
 
     // Calculate overall score using weights
     const overall = (
@@ -0,0 +1,124 @@
+import { format, parseISO } from 'date-fns';
+import { supabase } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { ScoreHistory, ScoreSnapshot } from '../types/score';
+
+type ScorePeriod = ScoreSnapshot['period'];
+
+/**
+ * Transform a score_snapshots row to ScoreSnapshot
+ * period_start is a plain date, parsed as local midnight so charts label the right day
+ */
+const transformSnapshot = (data: any): ScoreSnapshot => ({
+  ...data,
+  period_start: parseISO(data.period_start),
+  computed_at: new Date(data.computed_at)
+});
+
+/**
+ * Service for reading and rebuilding persisted score history
+ * Snapshots are computed server-side; the client only reads them
+ */
+export const scoreSnapshotService = {
+  /**
+   * Fetch snapshots for one period type
+   * With a date range, returns every snapshot inside it; otherwise the latest `limit` up to `before`
+   */
+  async getSnapshots(
+    calendarId: string,
+    period: ScorePeriod,
+    options: { start?: Date; end?: Date; before?: Date; limit?: number } = {}
+  ): Promise<ScoreSnapshot[]> {
+    if (!calendarId) return [];
+
+    try {
+      let query = supabase
+        .from('score_snapshots')
+        .select('*')
+        .eq('calendar_id', calendarId)
+        .eq('period', period);
+
+      if (options.start) query = query.gte('period_start', format(options.start, 'yyyy-MM-dd'));
+      if (options.end) query = query.lte('period_start', format(options.end, 'yyyy-MM-dd'));
+      if (options.before) query = query.lte('period_start', format(options.before, 'yyyy-MM-dd'));
+
+      const { data, error } = options.limit
+        ? await query.order('period_start', { ascending: false }).limit(options.limit)
+        : await query.order('period_start', { ascending: true });
+
+      if (error) {
+        logger.error('Error fetching score snapshots:', error);
+        return [];
+      }
+
+      const snapshots = (data || []).map(transformSnapshot);
+      return options.limit ? snapshots.reverse() : snapshots;
+    } catch (err) {
+      logger.error('Error fetching score snapshots:', err);
+      return [];
+    }
+  },
+
+  /**
+   * Fetch the calendar's current score settings version
+   */
+  async getSettingsVersion(calendarId: string): Promise<number> {
+    if (!calendarId) return 1;
+
+    try {
+      const { data, error } = await supabase
+        .from('calendars')
+        .select('score_settings_version')
+        .eq('id', calendarId)
+        .single();
+
+      if (error) {
+        logger.error('Error fetching score settings version:', error);
+        return 1;
+      }
+
+      return data?.score_settings_version ?? 1;
+    } catch (err) {
+      logger.error('Error fetching score settings version:', err);
+      return 1;
+    }
+  },
+
+  /**
+   * Rebuild all of a calendar's snapshots with its current score settings
+   */
+  async recompute(calendarId: string): Promise<{ snapshotsComputed: number; settingsVersion: number }> {
+    logger.log(`📊 Recomputing score history for calendar ${calendarId}`);
+
+    const { data, error } = await supabase.functions.invoke('recompute-score-snapshots', {
+      body: { calendarId }
+    });
+
+    if (error) {
+      logger.error('Error recomputing score snapshots:', error);
+      throw error;
+    }
+
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to recompute score history');
+    }
+
+    logger.log(`✅ Recomputed ${data.data.snapshotsComputed} score snapshots`);
+    return data.data;
+  },
+
+  /**
+   * Map persisted snapshots to the ScoreHistory entries the charts use
+   */
+  toHistory(snapshots: ScoreSnapshot[]): ScoreHistory[] {
+    return snapshots.map(snapshot => ({
+      date: snapshot.period_start,
+      period: snapshot.period,
+      metrics: snapshot.metrics,
+      breakdown: snapshot.breakdown,
+      tradeCount: snapshot.trade_count,
+      settingsVersion: snapshot.settings_version,
+      computedAt: snapshot.computed_at
+    }));
+  }
+};
@@ -5,6 +5,7 @@
  */
 
 import { Trade, Calendar } from '../types/dualWrite';
+import { ShareAccessOptions, ShareAmountUnit, SharedItemSummary, ShareView } from '../types/sharing';
 import { logger } from '../utils/logger';
 import { shareRepository, ShareLinkResult, SharedTradeData, SharedCalendarData } from './repository/repositories/ShareRepository';
 import { supabase } from '../config/supabase';
@@ -123,12 +124,15 @@ export const deactivateCalendarShareLink = async (shareId: string): Promise<void
  * Get a shared trade by its share ID (for public viewing)
  * This uses the edge function for public access
  */
-export const getSharedTrade = async (shareId: string): Promise<SharedTradeData | null> => {
+export const getSharedTrade = async (shareId: string, password?: string): Promise<SharedTradeData | null> => {
   try {
-    const result = await shareRepository.getSharedTrade(shareId);
+    const result = await shareRepository.getSharedTrade(shareId, password);
 
     if (!result.success) {
-      throw new Error(result.error?.message || 'Failed to load shared trade');
+      // Keep the code so viewers can tell a locked or expired link from a missing one
+      throw Object.assign(new Error(result.error?.message || 'Failed to load shared trade'), {
+        code: result.error?.code
+      });
     }
 
     return result.data || null;
@@ -142,12 +146,14 @@ export const getSharedTrade = async (shareId: string): Promise<SharedTradeData |
  * Get a shared calendar by its share ID (for public viewing)
  * This uses the edge function for public access
  */
-export const getSharedCalendar = async (shareId: string): Promise<SharedCalendarData | null> => {
+export const getSharedCalendar = async (shareId: string, password?: string): Promise<SharedCalendarData | null> => {
   try {
-    const result = await shareRepository.getSharedCalendar(shareId);
+    const result = await shareRepository.getSharedCalendar(shareId, password);
 
     if (!result.success) {
-      throw new Error(result.error?.message || 'Failed to load shared calendar');
+      throw Object.assign(new Error(result.error?.message || 'Failed to load shared calendar'), {
+        code: result.error?.code
+      });
     }
 
     return result.data || null;
@@ -163,7 +169,8 @@ export const getSharedCalendar = async (shareId: string): Promise<SharedCalendar
  * Used by SharedCalendarPage component
  */
 export const getSharedTradesWithCalendar = async (
-  shareId: string
+  shareId: string,
+  password?: string
 ): Promise<{
   calendar: Calendar;
   trades: Trade[];
@@ -172,10 +179,13 @@ export const getSharedTradesWithCalendar = async (
     createdAt: Date;
     viewCount: number;
     userId: string;
+    expiresAt: Date | null;
+    restricted: boolean;
+    amountUnit: ShareAmountUnit;
   };
 }> => {
   try {
-    const data = await getSharedCalendar(shareId);
+    const data = await getSharedCalendar(shareId, password);
 
     if (!data) {
       throw new Error('Shared calendar not found');
@@ -188,11 +198,95 @@ export const getSharedTradesWithCalendar = async (
         id: data.calendar.share_id || '',
         createdAt: data.shareInfo.sharedAt,
         viewCount: data.shareInfo.viewCount,
-        userId: data.calendar.user_id || ''
+        userId: data.calendar.user_id || '',
+        expiresAt: data.shareInfo.expiresAt,
+        restricted: data.shareInfo.restricted,
+        amountUnit: data.shareInfo.amountUnit
       }
     };
   } catch (error) {
     logger.error('Error getting shared trades with calendar:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Set the expiry and/or password of a share link
+ */
+export const updateShareAccess = async (
+  type: 'trade' | 'calendar',
+  shareId: string,
+  options: ShareAccessOptions
+): Promise<void> => {
+  try {
+    const result = await shareRepository.updateShareAccess(type, shareId, options);
+
+    if (!result.success) {
+      throw new Error(result.error?.message || 'Failed to update share access');
+    }
+  } catch (error) {
+    logger.error('Error updating share access:', error);
+    throw error;
+  }
+};
+
+/**
+ * Whether a share link is password protected
+ */
+export const hasSharePassword = async (shareId: string): Promise<boolean> => {
+  try {
+    const result = await shareRepository.hasSharePassword(shareId);
+
+    if (!result.success) {
+      throw new Error(result.error?.message || 'Failed to check share password');
+    }
+
+    return !!result.data;
+  } catch (error) {
+    logger.error('Error checking share password:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the most recent views of a share link (access log)
+ */
+export const getShareViews = async (shareId: string, limit?: number): Promise<ShareView[]> => {
+  try {
+    const result = await shareRepository.getShareViews(shareId, limit);
+
+    if (!result.success) {
+      throw new Error(result.error?.message || 'Failed to load share views');
+    }
+
+    return result.data || [];
+  } catch (error) {
+    logger.error('Error getting share views:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get every calendar and trade the current user shares
+ * Used by the sharing management panel
+ */
+export const getSharedItems = async (): Promise<SharedItemSummary[]> => {
+  try {
+    // Get current user ID
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const result = await shareRepository.getSharedItems(user.id);
+
+    if (!result.success) {
+      throw new Error(result.error?.message || 'Failed to load shared items');
+    }
+
+    return result.data || [];
+  } catch (error) {
+    logger.error('Error getting shared items:', error);
+    throw error;
+  }
+};
@@ -8,8 +8,8 @@ import { supabase, supabaseUrl } from '../config/supabase';
 import { logger } from '../utils/logger';
 import type { Trade } from '../types/trade';
 import type { Calendar } from '../types/calendar';
-import type { ChatMessage as ChatMessageType, AttachedImage } from '../types/aiChat';
-import { getApiKey } from './apiKeyStorage';
+import type { ChatMessage as ChatMessageType, AttachedImage, TradeActionProposal } from '../types/aiChat';
+import { getAIRequestSettings } from './apiKeyStorage';
 
 export interface AgentResponse {
   success: boolean;
@@ -26,6 +26,7 @@ export interface AgentResponse {
   embeddedTrades?: Record<string, any>;
   embeddedEvents?: Record<string, any>;
   embeddedNotes?: Record<string, any>;
+  tradeActions?: TradeActionProposal[];
   metadata?: {
     functionCalls: Array<{
       name: string;
@@ -43,6 +44,7 @@ export type SSEEventType =
   | 'tool_result'
   | 'citation'
   | 'embedded_data'
+  | 'trade_action'
   | 'done'
   | 'error';
 
@@ -147,8 +149,8 @@ class SupabaseAIChatService {
         content: msg.content
       }));
 
-      // Get user's API key from localStorage (if available)
-      const userApiKey = getApiKey();
+      // Get user's AI provider and API key from localStorage (if set up)
+      const providerSettings = getAIRequestSettings();
 
       // Call edge function with streaming
       const url = this.getFunctionUrl() + '?stream=true'; // Use query param for streaming
@@ -166,7 +168,7 @@ class SupabaseAIChatService {
           focusedTradeId: focusedTradeId || undefined,
           conversationHistory: formattedHistory,
           calendarContext: calendar ? this.buildCalendarContext(calendar) : undefined,
-          userApiKey: userApiKey || undefined, // Send user's API key if available
+          ...providerSettings, // Send user's provider and API key if available
           images: images && images.length > 0 ? images.map(img => ({
             url: img.url,
             mimeType: img.mimeType
@@ -281,6 +283,7 @@ class SupabaseAIChatService {
     if (data.name && data.result !== undefined) return 'tool_result';
     if (data.citations) return 'citation';
     if (data.embeddedTrades || data.embeddedEvents || data.embeddedNotes) return 'embedded_data';
+    if (data.action) return 'trade_action';
     if (data.success !== undefined || data.messageHtml !== undefined) return 'done';
     if (data.error) return 'error';
     return 'text_chunk';
@@ -358,8 +361,8 @@ class SupabaseAIChatService {
         content: msg.content
       }));
 
-      // Get user's API key from localStorage (if available)
-      const userApiKey = getApiKey();
+      // Get user's AI provider and API key from localStorage (if set up)
+      const providerSettings = getAIRequestSettings();
 
       // Get valid auth token with auto-refresh
       const session = await this.getValidSession();
@@ -380,7 +383,7 @@ class SupabaseAIChatService {
             focusedTradeId: focusedTradeId || undefined,
             conversationHistory: formattedHistory,
             calendarContext: calendar ? this.buildCalendarContext(calendar) : undefined,
-            userApiKey: userApiKey || undefined,
+            ...providerSettings,
           }),
         }
       );
@@ -440,6 +443,7 @@ class SupabaseAIChatService {
       embeddedTrades: response.embeddedTrades,
       embeddedEvents: response.embeddedEvents,
       embeddedNotes: response.embeddedNotes,
+      tradeActions: response.tradeActions,
       timestamp: new Date(),
       status: 'received'
     };
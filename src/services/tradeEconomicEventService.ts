@@ -4,7 +4,7 @@ import { TradeEconomicEvent } from '../types/dualWrite';
 import { EconomicEvent, ImpactLevel, Currency } from '../types/economicCalendar';
 import { logger } from '../utils/logger';
 import { DEFAULT_ECONOMIC_EVENT_FILTER_SETTINGS } from '../components/economicCalendar/EconomicCalendarDrawer';
-import { getSessionTimeRange, type TradingSession } from '../utils/sessionTimeUtils';
+import { getSessionTimeRange, type SessionDefinition } from '../utils/sessionTimeUtils';
 import { cleanEventNameForPinning } from '../utils/eventNameUtils';
  
 
@@ -114,15 +114,21 @@ export class TradeEconomicEventService {
   /**
    * Get session time ranges in UTC for a given trade date
    * Uses the shared session time utility for consistent DST handling
+   * @param sessions - The calendar's sessions (the default sessions when omitted)
    */
-  getSessionTimeRange(session: string, tradeDate: Date): { start: Date; end: Date } {
-    return getSessionTimeRange(session as TradingSession, tradeDate);
+  getSessionTimeRange(session: string, tradeDate: Date, sessions?: SessionDefinition[]): { start: Date; end: Date } {
+    return getSessionTimeRange(session, tradeDate, sessions);
   }
 
   /**
    * Check if an economic event falls within a trade's session range
    */
-  private isEventInTradeSession(event: EconomicEvent, tradeDate: Date, session?: string): boolean {
+  private isEventInTradeSession(
+    event: EconomicEvent,
+    tradeDate: Date,
+    session?: string,
+    sessions?: SessionDefinition[]
+  ): boolean {
     if (!session) {
       // If trade has no session, fall back to same day matching
       const eventDate = parseISO(event.event_date);
@@ -130,7 +136,7 @@ export class TradeEconomicEventService {
     }
 
     // Get the session time range for the trade
-    const sessionRange = this.getSessionTimeRange(session, tradeDate);
+    const sessionRange = this.getSessionTimeRange(session, tradeDate, sessions);
 
     // Parse the event time (assuming it's in UTC)
     const eventTime = parseISO(event.time_utc || event.event_time);
@@ -162,7 +168,8 @@ export class TradeEconomicEventService {
   async fetchEventsForTrade(
     tradeDate: Date,
     session?: string, 
-    currencies?: Currency[]
+    currencies?: Currency[],
+    sessions?: SessionDefinition[]
   ): Promise<TradeEconomicEvent[]> {
     try {
       // Determine which currencies to filter for
@@ -180,7 +187,7 @@ export class TradeEconomicEventService {
       let startDate: Date, endDate: Date;
 
       if (session) {
-        const sessionRange = this.getSessionTimeRange(session, tradeDate);
+        const sessionRange = this.getSessionTimeRange(session, tradeDate, sessions);
         startDate = sessionRange.start;
         endDate = sessionRange.end;
       } else {
@@ -203,7 +210,7 @@ export class TradeEconomicEventService {
 
       // Filter events that fall within the trade session
       const sessionEvents = events.filter(event => 
-        this.isEventInTradeSession(event, tradeDate, session)
+        this.isEventInTradeSession(event, tradeDate, session, sessions)
       );
 
       // Convert to simplified trade events
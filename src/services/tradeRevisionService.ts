@@ -0,0 +1,66 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../utils/logger';
+import {
+  TradeRevision,
+  TradeRestoreValues,
+  JOURNALED_TRADE_FIELDS
+} from '../types/tradeRevision';
+
+/**
+ * Transform a trade_revisions row to TradeRevision
+ */
+const transformRevision = (data: any): TradeRevision => ({
+  ...data,
+  changes: data.changes || {},
+  previous: data.previous || {},
+  created_at: new Date(data.created_at)
+});
+
+/**
+ * Service for the trade revision log
+ * Revisions are append-only and written by a database trigger; the client only reads them
+ */
+export const tradeRevisionService = {
+  /**
+   * Revisions of a trade, newest first
+   */
+  async getRevisions(tradeId: string): Promise<TradeRevision[]> {
+    const { data, error } = await supabase
+      .from('trade_revisions')
+      .select('*')
+      .eq('trade_id', tradeId)
+      .order('revision_number', { ascending: false });
+
+    if (error) {
+      logger.error('Error fetching trade revisions:', error);
+      throw error;
+    }
+
+    return (data || []).map(transformRevision);
+  },
+
+  /**
+   * Trade values that restore the trade as it was before a revision
+   * update_trade_with_tags keeps the current name and notes when given null, so those clear to ''
+   */
+  getRestoreValues(revision: TradeRevision): TradeRestoreValues {
+    const values: Record<string, unknown> = {};
+
+    JOURNALED_TRADE_FIELDS.forEach(field => {
+      if (!(field in revision.previous)) return;
+      const value = revision.previous[field];
+
+      if (field === 'trade_date') {
+        values[field] = new Date(value as string);
+      } else if (field === 'name' || field === 'notes') {
+        values[field] = value ?? '';
+      } else if (field === 'tags') {
+        values[field] = (value as string[] | null) ?? [];
+      } else {
+        values[field] = value ?? null;
+      }
+    });
+
+    return values as TradeRestoreValues;
+  }
+};
@@ -1,15 +1,17 @@
 /**
  * Trash Service - Supabase Repository Pattern
- * Handles soft delete and trash management for calendars
+ * Handles soft delete and trash management for calendars and trades
  * All types use snake_case to match Supabase schema
  */
 
-import { Calendar } from '../types/dualWrite';
+import { Calendar, Trade } from '../types/dualWrite';
 import { logger } from '../utils/logger';
 import { CalendarRepository } from './repository/repositories/CalendarRepository';
+import { TradeRepository } from './repository/repositories/TradeRepository';
 
 const calendarRepository = new CalendarRepository();
-const TRASH_RETENTION_DAYS = 30;
+const tradeRepository = new TradeRepository();
+export const TRASH_RETENTION_DAYS = 30;
 
 export interface TrashCalendar extends Calendar {
   deleted_at: Date;
@@ -17,6 +19,11 @@ export interface TrashCalendar extends Calendar {
   auto_delete_at: Date;
 }
 
+export interface TrashTrade extends Trade {
+  deleted_at: Date;
+  auto_delete_at: Date;
+}
+
 /**
  * Move a calendar to trash (soft delete)
  * Marks the calendar as deleted and sets deletion timestamps
@@ -118,6 +125,64 @@ export const getTrashCalendars = async (userId: string): Promise<TrashCalendar[]
   }
 };
  
+/**
+ * Move trades to their calendar's trash (soft delete)
+ * Stats are recalculated by trigger; the cleanup scheduler purges them after the retention period
+ */
+export const moveTradesToTrash = async (tradeIds: string[]): Promise<void> => {
+  try {
+    await tradeRepository.trashTrades(tradeIds, TRASH_RETENTION_DAYS);
+    logger.log(`${tradeIds.length} trade(s) moved to trash`);
+  } catch (error) {
+    logger.error('Error moving trades to trash:', error);
+    throw error;
+  }
+};
+
+/**
+ * Restore trades from trash
+ */
+export const restoreTradesFromTrash = async (tradeIds: string[]): Promise<void> => {
+  try {
+    await tradeRepository.restoreTrades(tradeIds);
+    logger.log(`${tradeIds.length} trade(s) restored from trash`);
+  } catch (error) {
+    logger.error('Error restoring trades from trash:', error);
+    throw error;
+  }
+};
+
+/**
+ * Permanently delete trades from trash
+ * Images are deleted via the handle-trade-changes edge function webhook
+ */
+export const permanentlyDeleteTrades = async (tradeIds: string[]): Promise<void> => {
+  try {
+    await Promise.all(tradeIds.map(tradeId => tradeRepository.deleteTradeTransactional(tradeId)));
+    logger.log(`${tradeIds.length} trade(s) permanently deleted`);
+  } catch (error) {
+    logger.error('Error permanently deleting trades:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get all trades in a calendar's trash
+ */
+export const getTrashTrades = async (calendarId: string): Promise<TrashTrade[]> => {
+  try {
+    const trades = await tradeRepository.findTrashByCalendarId(calendarId);
+
+    return trades.map(trade => ({
+      ...trade,
+      deleted_at: trade.deleted_at!,
+      auto_delete_at: trade.auto_delete_at || new Date()
+    } as TrashTrade));
+  } catch (error) {
+    logger.error('Error getting trash trades:', error);
+    throw error;
+  }
+};
 
 /**
  * Get days remaining until permanent deletion
@@ -16,6 +16,70 @@ export interface AttachedImage {
   size?: number; // bytes
 }
 
+// Trade session the agent can set, one of the calendar's sessions (same values as the trade form)
+export type AITradeSession = string;
+
+// Trade fields the agent may fill in when they are empty
+export type AIFillableTradeField =
+  | 'name'
+  | 'instrument'
+  | 'direction'
+  | 'entry_price'
+  | 'exit_price'
+  | 'stop_loss'
+  | 'take_profit'
+  | 'risk_to_reward'
+  | 'notes';
+
+export interface AITradeChanges {
+  add_tags?: string[];
+  remove_tags?: string[];
+  session?: AITradeSession;
+  is_pinned?: boolean;
+  fill_fields?: Partial<Record<AIFillableTradeField, string | number>>;
+}
+
+export interface AINewTrade extends Partial<Record<AIFillableTradeField, string | number>> {
+  trade_type: 'win' | 'loss' | 'breakeven';
+  amount: number;
+  trade_date: string; // ISO 8601 string
+  session?: AITradeSession;
+  tags: string[];
+}
+
+// pending: waiting for the user, applying: being saved, applied/dismissed/failed: resolved
+export type TradeActionStatus = 'pending' | 'applying' | 'applied' | 'dismissed' | 'failed';
+
+interface TradeActionBase {
+  id: string;
+  calendar_id: string;
+  summary: string;
+  status?: TradeActionStatus; // Set by the client, pending when missing
+  error?: string;
+}
+
+// Trade change proposed by the AI agent, applied only after the user approves it
+// (mirrors the edge function's tradeActions.ts)
+export type TradeActionProposal =
+  | (TradeActionBase & {
+    type: 'update_trades';
+    trade_ids: string[];
+    changes: AITradeChanges;
+    preview: Array<{
+      id: string;
+      name: string | null;
+      trade_date: string;
+      trade_type: 'win' | 'loss' | 'breakeven';
+      amount: number;
+    }>;
+  })
+  | (TradeActionBase & {
+    type: 'create_trade';
+    trade: AINewTrade;
+    image_url?: string; // Screenshot URL the agent analyzed
+    attach_user_images: boolean; // Store the images of the user's message with the trade
+  });
+
 export interface ChatMessage {
   id: string;
   role: MessageRole;
@@ -39,6 +103,8 @@ export interface ChatMessage {
   embeddedTrades?: Record<string, any>; // Trade objects keyed by ID
   embeddedEvents?: Record<string, any>; // Event objects keyed by ID
   embeddedNotes?: Record<string, any>; // Note objects keyed by ID
+  // Trade changes proposed by the agent (assistant messages)
+  tradeActions?: TradeActionProposal[];
 }
 
 // Serializable version for database storage (timestamp as ISO string)
@@ -103,3 +169,12 @@ export interface Citation {
   source?: string;
   toolName?: string;
 }
+
+// LLM provider the AI agent runs on (mirrors the edge function's LLMProviderId)
+export type AIProviderId = 'gemini' | 'openai' | 'anthropic' | 'local';
+
+export interface AIProviderSettings {
+  provider: AIProviderId;
+  model?: string; // Empty uses the provider's default model
+  baseUrl?: string; // OpenAI-compatible endpoint, required for 'local'
+}
@@ -0,0 +1,152 @@
+/**
+ * Account backup types
+ * A backup is a single versioned JSON archive of everything a user owns,
+ * restorable into any account (IDs and storage URLs are remapped on restore)
+ */
+
+import type { Calendar, Trade } from './dualWrite';
+import type { Note } from './note';
+import type { SerializableChatMessage } from './aiChat';
+import type { ImportMappingTemplate } from './import';
+
+export const ACCOUNT_BACKUP_FORMAT = 'journotrades-backup';
+
+/**
+ * Bump when the archive layout changes; older versions must stay restorable
+ */
+export const ACCOUNT_BACKUP_VERSION = 1;
+
+/**
+ * Calendar settings kept in a backup (stats are recalculated after restore)
+ */
+export const BACKUP_CALENDAR_FIELDS = [
+  'name',
+  'account_balance',
+  'max_daily_drawdown',
+  'weekly_target',
+  'monthly_target',
+  'yearly_target',
+  'risk_per_trade',
+  'dynamic_risk_enabled',
+  'increased_risk_percentage',
+  'profit_threshold_percentage',
+  'required_tag_groups',
+  'tags',
+  'hero_image_url',
+  'hero_image_attribution',
+  'score_settings',
+  'economic_calendar_filters',
+  'pinned_events',
+  'challenge_rules',
+  'checklist_template',
+  'weekly_review_enabled',
+  'trading_sessions'
+] as const;
+
+/**
+ * Trade fields kept in a backup (sharing and sync bookkeeping are not)
+ */
+export const BACKUP_TRADE_FIELDS = [
+  'name',
+  'trade_type',
+  'trade_date',
+  'session',
+  'amount',
+  'entry_price',
+  'exit_price',
+  'stop_loss',
+  'take_profit',
+  'risk_to_reward',
+  'partials_taken',
+  'instrument',
+  'direction',
+  'position_size',
+  'commission',
+  'swap',
+  'fees',
+  'tags',
+  'checklist',
+  'notes',
+  'images',
+  'economic_events',
+  'is_pinned'
+] as const;
+
+export type BackupCalendar = Pick<Calendar, typeof BACKUP_CALENDAR_FIELDS[number]> & {
+  id: string;
+  created_at: string;
+};
+
+export type BackupTrade = Omit<Pick<Trade, typeof BACKUP_TRADE_FIELDS[number]>, 'trade_date'> & {
+  id: string;
+  calendar_id: string;
+  trade_date: string;
+};
+
+export type BackupNote = Omit<Note, 'user_id' | 'archived_at' | 'reminder_date' | 'created_at' | 'updated_at'> & {
+  archived_at: string | null;
+  reminder_date?: string | null;
+  created_at: string;
+};
+
+/**
+ * Tag definition (tag_definitions), keyed by tag name within an account
+ */
+export interface BackupTagDefinition {
+  tag_name: string;
+  definition: string;
+}
+
+export interface BackupConversation {
+  id: string;
+  calendar_id: string;
+  trade_id?: string | null;
+  title: string;
+  messages: SerializableChatMessage[];
+  message_count: number;
+  created_at: string;
+}
+
+/**
+ * Uploaded image from the user's storage folder, embedded as base64
+ */
+export interface BackupFile {
+  path: string; // Relative to users/<user id>/
+  content_type: string;
+  data: string;
+}
+
+export interface AccountBackup {
+  format: typeof ACCOUNT_BACKUP_FORMAT;
+  version: number;
+  created_at: string;
+  source_user_id: string;
+  source_storage_url: string; // Public URL of the source user's storage folder
+  calendars: BackupCalendar[];
+  trades: BackupTrade[];
+  notes: BackupNote[];
+  conversations: BackupConversation[];
+  tag_definitions: BackupTagDefinition[];
+  import_templates: ImportMappingTemplate[];
+  files: BackupFile[];
+}
+
+export interface AccountBackupOptions {
+  includeImages: boolean;
+}
+
+export interface AccountBackupSummary {
+  calendars: number;
+  trades: number;
+  notes: number;
+  conversations: number;
+  tagDefinitions: number;
+  importTemplates: number;
+  files: number;
+}
+
+export interface AccountRestoreResult extends AccountBackupSummary {
+  warnings: string[];
+}
+
+export type BackupProgressCallback = (message: string) => void;
@@ -0,0 +1,66 @@
+/**
+ * Prop-firm challenge types
+ * Rules are stored in calendar.challenge_rules and evaluated client-side
+ */
+
+export interface ChallengePhase {
+  name: string; // e.g. "Phase 1", "Verification", "Funded"
+  profit_target: number; // % of the starting balance, 0 = no target (funded stage)
+}
+
+export interface ChallengeRules {
+  enabled: boolean;
+  start_date: string; // yyyy-MM-dd, trades before this day are ignored
+  starting_balance?: number; // Defaults to the calendar account balance
+  max_daily_loss?: number; // % of the starting balance, defaults to the calendar max daily drawdown
+  max_total_loss?: number; // % of the starting balance, measured from the starting balance
+  trailing_drawdown?: number; // % of the starting balance, measured from the highest end-of-day balance
+  min_trading_days?: number;
+  consistency_percentage?: number; // No single day may exceed this % of the total profit
+  phases: ChallengePhase[];
+  current_phase: number; // Index into phases
+}
+
+export const DEFAULT_CHALLENGE_PHASES: ChallengePhase[] = [
+  { name: 'Phase 1', profit_target: 8 },
+  { name: 'Phase 2', profit_target: 5 },
+  { name: 'Funded', profit_target: 0 }
+];
+
+export type ChallengeRuleId =
+  | 'daily_loss'
+  | 'total_loss'
+  | 'trailing_drawdown'
+  | 'min_trading_days'
+  | 'consistency'
+  | 'profit_target';
+
+/**
+ * pass: met (or not violated), pending: not met yet, at_risk: within 80% of a limit, fail: violated
+ */
+export type ChallengeRuleStatus = 'pass' | 'pending' | 'at_risk' | 'fail';
+
+export type ChallengeStatus = 'passed' | 'in_progress' | 'at_risk' | 'failed';
+
+export interface ChallengeRuleResult {
+  id: ChallengeRuleId;
+  label: string;
+  status: ChallengeRuleStatus;
+  current: number;
+  limit: number;
+  unit: 'currency' | 'days' | 'percentage';
+  // Hard rules end the challenge when violated; the others only block passing
+  hard: boolean;
+  message: string;
+}
+
+export interface ChallengeEvaluation {
+  status: ChallengeStatus;
+  phase: ChallengePhase | null;
+  phaseIndex: number;
+  startingBalance: number;
+  balance: number;
+  profit: number;
+  tradingDays: number;
+  rules: ChallengeRuleResult[];
+}
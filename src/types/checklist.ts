@@ -0,0 +1,31 @@
+/**
+ * Pre-trade checklist types
+ * The template is stored in calendar.checklist_template and answered in the
+ * trade form; each trade keeps a copy of the items it was saved with
+ */
+
+export interface ChecklistItem {
+  id: string;
+  label: string; // e.g. "HTF bias confirmed"
+  mandatory: boolean;
+}
+
+export interface ChecklistTemplate {
+  enabled: boolean;
+  items: ChecklistItem[];
+  // Mandatory items must be ticked before a trade can be saved
+  block_incomplete: boolean;
+}
+
+/**
+ * Answer to one checklist item, stored in trade.checklist
+ */
+export interface TradeChecklistItem extends ChecklistItem {
+  checked: boolean;
+}
+
+export interface ChecklistAdherence {
+  trades: number; // Trades with a recorded checklist
+  completion: number; // % of all items ticked
+  mandatoryCompliance: number; // % of trades with every mandatory item ticked
+}
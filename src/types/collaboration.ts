@@ -0,0 +1,62 @@
+/**
+ * Calendar collaboration types
+ * Membership is stored in calendar_members and enforced by RLS; the owner is calendars.user_id
+ */
+
+export type CalendarRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+
+/**
+ * Roles an invite can grant
+ */
+export type CalendarMemberRole = Exclude<CalendarRole, 'owner'>;
+
+export const CALENDAR_ROLE_LABELS: Record<CalendarRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  commenter: 'Commenter',
+  viewer: 'Viewer'
+};
+
+export const CALENDAR_ROLE_DESCRIPTIONS: Record<CalendarMemberRole, string> = {
+  editor: 'Can add, edit and delete trades and change calendar settings',
+  commenter: 'Can view the calendar and comment on trades',
+  viewer: 'Can view the calendar'
+};
+
+export const canEditCalendar = (role?: CalendarRole | null): boolean =>
+  role === 'owner' || role === 'editor';
+
+export const canCommentOnTrades = (role?: CalendarRole | null): boolean =>
+  role === 'owner' || role === 'editor' || role === 'commenter';
+
+/**
+ * Member of a calendar (get_calendar_members)
+ */
+export interface CalendarMember {
+  id: string;
+  user_id: string;
+  role: CalendarMemberRole;
+  email: string;
+  display_name?: string | null;
+  photo_url?: string | null;
+  created_at: Date;
+}
+
+/**
+ * Comment on a trade (trade_comments table)
+ */
+export interface TradeComment {
+  id: string;
+  trade_id: string;
+  calendar_id: string;
+  user_id: string;
+  author_name?: string | null;
+  body: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export const TRADE_COMMENT_MAX_LENGTH = 2000;
+
+// Calendar invites expire after a week and work once
+export const CALENDAR_INVITE_EXPIRY_DAYS = 7;
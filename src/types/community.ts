@@ -0,0 +1,46 @@
+/**
+ * Community profile types
+ * A profile opts one shared calendar into the public listing on the Community page
+ */
+
+/**
+ * community_profiles row, as seen by its owner
+ */
+export interface CommunityProfile {
+  id: string;
+  user_id: string;
+  calendar_id: string;
+  display_name: string;
+  bio?: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Listed profile with the normalised stats of its calendar (get_community_profiles)
+ * Only percentages and ratios - account sizes and amounts are never listed
+ */
+export interface CommunityProfileSummary {
+  id: string;
+  display_name: string;
+  bio?: string | null;
+  share_id: string; // Profile detail is the shared calendar
+  is_own: boolean;
+  created_at: Date;
+  total_trades: number;
+  win_rate: number; // %
+  profit_factor: number;
+  max_drawdown: number; // % from peak balance
+  growth_percentage: number; // Total P&L as % of the account balance
+}
+
+export type CommunitySortField =
+  | 'growth_percentage'
+  | 'win_rate'
+  | 'profit_factor'
+  | 'max_drawdown'
+  | 'total_trades'
+  | 'created_at';
+
+export const COMMUNITY_DISPLAY_NAME_MAX_LENGTH = 50;
+export const COMMUNITY_BIO_MAX_LENGTH = 500;
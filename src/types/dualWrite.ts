@@ -6,9 +6,13 @@
 
 import { TradeImage } from '../components/trades/TradeForm';
 import { ScoreSettings } from './score';
+import { ChallengeRules } from './challenge';
+import { ChecklistTemplate, TradeChecklistItem } from './checklist';
+import { SharePrivacySettings } from './sharing';
 import { ImageAttribution } from '../components/heroImage';
 import { EconomicCalendarFilterSettings } from '../components/economicCalendar/EconomicCalendarDrawer';
 import { ImpactLevel, Currency } from './economicCalendar';
+import { SessionDefinition } from '../utils/sessionTimeUtils';
 
 // =====================================================
 // CORE INTERFACES
@@ -52,6 +56,8 @@ export interface TradeEconomicEvent {
   time_utc: string;
 }
 
+export type TradeDirection = 'long' | 'short';
+
 /**
  * Trade entity - canonical database schema
  * Matches exact Supabase database schema with snake_case fields
@@ -78,9 +84,22 @@ export interface Trade {
   session?: string
   notes?: string
 
+  // Instrument and sizing
+  instrument?: string | null // Uppercase symbol, e.g. EURUSD
+  direction?: TradeDirection | null
+  position_size?: number | null // Lots/contracts/shares
+
+  // Trading costs - already included in amount (net), positive = cost, negative = credit
+  commission?: number | null
+  swap?: number | null
+  fees?: number | null
+
   // Categorization
   tags?: string[]
 
+  // Pre-trade checklist answers, copied from the calendar template when saved
+  checklist?: TradeChecklistItem[] | null
+
   // Status flags
   is_temporary?: boolean
   is_pinned?: boolean
@@ -88,6 +107,8 @@ export interface Trade {
   // Calendar linking (synced trade tracking)
   source_trade_id?: string
   is_synced_copy?: boolean
+  last_synced_at?: Date | null
+  locally_modified_at?: Date | null // Edited in its own calendar since the last sync
 
   // Images (stored as JSONB array)
   images?: TradeImageEntity[]
@@ -100,12 +121,75 @@ export interface Trade {
   is_shared?: boolean
   shared_at?: Date | null
   share_id?: string
+  share_expires_at?: Date | null
+  share_view_count?: number
+
+  // Trash (set while the trade is in the calendar's trash)
+  deleted_at?: Date | null
+  deleted_by?: string | null
+  auto_delete_at?: Date | null
 
   // Timestamps (inherited from BaseEntity)
   created_at: Date
   updated_at: Date
 }
 
+/**
+ * Conflict policy for synced copies that were edited in the target calendar
+ * - overwrite: source changes replace the local edits
+ * - keep_local: local edits win, source updates/deletes are skipped
+ * - detach: the copy stops syncing and becomes an independent trade
+ */
+export type SyncConflictPolicy = 'overwrite' | 'keep_local' | 'detach';
+
+/**
+ * Per-link sync settings, stored on the calendar link
+ * Core trade data (date, type, prices, session, R:R) always propagates
+ */
+export interface CalendarSyncSettings {
+  sync_window_hours: number | null; // Updates/deletes propagate this long after creation, null = forever
+  sync_fields: {
+    tags: boolean;
+    notes: boolean;
+    images: boolean;
+    amount: boolean;
+  };
+  conflict_policy: SyncConflictPolicy;
+}
+
+export const DEFAULT_CALENDAR_SYNC_SETTINGS: CalendarSyncSettings = {
+  sync_window_hours: 24,
+  sync_fields: { tags: true, notes: true, images: true, amount: true },
+  conflict_policy: 'overwrite'
+};
+
+/**
+ * One-way trade sync link from a source calendar to a target calendar
+ * A source calendar can link to several targets; each target recalculates
+ * synced amounts with its own risk settings
+ */
+export interface CalendarLink {
+  id: string;
+  source_calendar_id: string;
+  target_calendar_id: string;
+  user_id: string;
+  sync_settings?: CalendarSyncSettings | null;
+  last_sync_at?: Date | null;
+  last_sync_status?: 'success' | 'skipped' | 'error' | null;
+  last_sync_error?: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Per-target sync status (calendar_link_status view)
+ */
+export interface CalendarLinkStatus extends CalendarLink {
+  synced_trade_count: number; // Copies still following the source
+  locally_modified_count: number; // Copies edited in the target since their last sync
+  last_trade_synced_at?: Date | null;
+}
+
 /**
  * Pinned economic event
  */
@@ -176,9 +260,6 @@ export interface Calendar extends BaseEntity {
   duplicated_calendar?: boolean;
   source_calendar_id?: string;
 
-  // Calendar linking (one-way trade sync)
-  linked_to_calendar_id?: string | null;
-
   // Soft delete / trash (for trash feature)
   deleted_at?: Date;
   deleted_by?: string;
@@ -187,6 +268,7 @@ export interface Calendar extends BaseEntity {
   // Tag validation and management
   required_tag_groups?: string[];
   tags?: string[];
+  checklist_template?: ChecklistTemplate | null; // Pre-trade checklist, null = none
 
   // Media
   hero_image_url?: string;
@@ -194,8 +276,17 @@ export interface Calendar extends BaseEntity {
 
   // Settings
   score_settings?: ScoreSettings;
+  score_settings_version?: number; // Bumped on every score_settings change
   economic_calendar_filters?: EconomicCalendarFilterSettings;
   pinned_events?: PinnedEvent[];
+  challenge_rules?: ChallengeRules | null; // Prop-firm challenge tracking, null = off
+  trading_sessions?: SessionDefinition[] | null; // Custom sessions, null = default sessions
+
+  // Scheduled AI weekly review (ai-weekly-review edge function)
+  weekly_review_enabled?: boolean;
+  weekly_review_note_id?: string | null; // Latest review note
+  weekly_review_week_start?: string | null; // yyyy-MM-dd, Sunday of the last reviewed week
+  weekly_review_attempted_at?: string | null; // Last review attempt, failed reviews are retried after a delay
 
   // Pre-calculated year statistics
   // Structure: { "2024": YearStats, "2025": YearStats, ... }
@@ -235,6 +326,9 @@ export interface Calendar extends BaseEntity {
   is_shared?: boolean;
   shared_at?: Date;
   share_id?: string | null;
+  share_settings?: SharePrivacySettings | null; // null = unrestricted share
+  share_expires_at?: Date | null; // null = link never expires
+  share_view_count?: number;
 }
 
 /**
@@ -24,6 +24,12 @@ export type TradeField =
   | 'take_profit'
   | 'risk_to_reward'
   | 'partials_taken'
+  | 'instrument'
+  | 'direction'
+  | 'position_size'
+  | 'commission'
+  | 'swap'
+  | 'fees'
   | 'session'
   | 'notes'
   | 'tags'
@@ -91,6 +97,14 @@ export interface TypeConversion {
   warnings: number;
 }
 
+/**
+ * How to handle an imported row that matches an existing trade
+ * - skip: leave the existing trade untouched and drop the row
+ * - overwrite: update the existing trade with the imported values
+ * - keep_both: import the row as a new trade alongside the existing one
+ */
+export type DuplicateResolution = 'skip' | 'overwrite' | 'keep_both';
+
 /**
  * Preview row with validation status
  */
@@ -101,6 +115,27 @@ export interface ImportPreviewRow {
   errors: ValidationError[];
   warnings: ValidationError[];
   isValid: boolean;
+  duplicateOf?: Trade; // Existing calendar trade this row likely duplicates
+  resolution?: DuplicateResolution; // Only set when duplicateOf is set
+}
+
+/**
+ * Counts of likely duplicates and how they will be resolved
+ */
+export interface DuplicateSummary {
+  total: number;
+  skip: number;
+  overwrite: number;
+  keepBoth: number;
+}
+
+/**
+ * Trades produced by the import dialog, split by how they are persisted
+ */
+export interface ImportTradeBatch {
+  newTrades: Partial<Trade>[];
+  overwrittenTrades: Trade[]; // Existing trades merged with imported values
+  skippedCount: number;
 }
 
 /**
@@ -114,6 +149,7 @@ export interface ValidationSummary {
   willImport: number;
   conversions: TypeConversion[];
   errors: ValidationError[];
+  duplicates?: DuplicateSummary;
 }
 
 /**
@@ -129,15 +165,34 @@ export interface ImportMappingTemplate {
   fileColumns: string[]; // Original column names for matching
 }
 
+/**
+ * Broker statement formats that are parsed directly into trades
+ * (bypassing the column mapping step)
+ */
+export type BrokerStatementFormat = 'mt4_html' | 'mt5_html' | 'ctrader' | 'ninjatrader';
+
+/**
+ * Result of parsing a broker statement
+ * rows[i] holds the raw statement values that produced trades[i]
+ */
+export interface ParsedBrokerStatement {
+  format: BrokerStatementFormat;
+  columns: string[];
+  rows: Array<Record<string, any>>;
+  trades: Partial<Trade>[];
+  skippedRows: number;
+}
+
 /**
  * Raw data from imported file
  */
 export interface ImportFileData {
   columns: string[];
   rows: Array<Record<string, any>>;
-  fileType: 'xlsx' | 'csv';
+  fileType: 'xlsx' | 'csv' | 'html';
   fileName: string;
   rowCount: number;
+  statementFormat?: BrokerStatementFormat; // Set when the file was recognised as a broker statement
 }
 
 /**
@@ -39,6 +39,12 @@ export interface InviteLink {
 
   /** Array of user IDs who have used this invite */
   used_by_users: string[];
+
+  /** Calendar the invite grants access to (null = registration invite only) */
+  calendar_id?: string | null;
+
+  /** Role given on the calendar when the invite is consumed */
+  calendar_role?: 'editor' | 'commenter' | 'viewer' | null;
 }
 
 /**
@@ -64,6 +70,9 @@ export interface InviteConsumptionResult {
 
   /** Error message if consumption failed */
   error?: string;
+
+  /** Calendar the user joined (calendar invites only) */
+  calendarId?: string;
 }
 
 /**
@@ -4,7 +4,9 @@
  * Supports reminder functionality for displaying notes on specific days
  */
 
-export type ReminderType = "none" | "once" | "weekly";
+import type { DefaultTradingSession } from "../utils/sessionTimeUtils";
+
+export type ReminderType = "none" | "once" | "weekly" | "monthly" | "interval";
 
 export type DayAbbreviation =
   | "Sun"
@@ -31,8 +33,13 @@ export interface Note {
 
   // Reminder fields
   reminder_type?: ReminderType;
-  reminder_date?: Date | null; // For one-time reminders
+  reminder_date?: Date | null; // For one-time reminders, first day of interval reminders
   reminder_days?: DayAbbreviation[]; // For weekly reminders
+  reminder_month_day?: number | null; // For monthly reminders (1-31, clamped to the month's last day)
+  reminder_interval_days?: number | null; // For interval reminders
+  reminder_time?: string | null; // "HH:mm" local time to notify at
+  reminder_session?: DefaultTradingSession | null; // Notify before this session opens instead of at reminder_time
+  reminder_lead_minutes?: number | null; // Minutes before the session open
   is_reminder_active?: boolean;
 
   // Visuals
@@ -54,6 +61,11 @@ export interface CreateNoteInput {
   reminder_type?: ReminderType;
   reminder_date?: Date | null;
   reminder_days?: DayAbbreviation[];
+  reminder_month_day?: number | null;
+  reminder_interval_days?: number | null;
+  reminder_time?: string | null;
+  reminder_session?: DefaultTradingSession | null;
+  reminder_lead_minutes?: number | null;
   is_reminder_active?: boolean;
 
   // Visuals
@@ -75,6 +87,11 @@ export interface UpdateNoteInput {
   reminder_type?: ReminderType;
   reminder_date?: Date | null;
   reminder_days?: DayAbbreviation[];
+  reminder_month_day?: number | null;
+  reminder_interval_days?: number | null;
+  reminder_time?: string | null;
+  reminder_session?: DefaultTradingSession | null;
+  reminder_lead_minutes?: number | null;
   is_reminder_active?: boolean;
 
   // Visuals
@@ -89,3 +106,20 @@ export interface ReminderConfig {
   date?: Date | null;
   days?: DayAbbreviation[];
 }
+
+export type ReminderOccurrenceStatus = "pending" | "snoozed" | "dismissed";
+
+/**
+ * Notification state of a reminder on one day it is due
+ */
+export interface ReminderOccurrence {
+  id: string;
+  note_id: string;
+  user_id: string;
+  occurrence_date: string; // yyyy-MM-dd
+  status: ReminderOccurrenceStatus;
+  notified_at: Date | null;
+  snoozed_until: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
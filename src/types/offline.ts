@@ -0,0 +1,37 @@
+/**
+ * Offline journaling types
+ * Trade and note writes made without a connection are queued locally and
+ * replayed against Supabase once the browser is back online
+ */
+
+export type OfflineEntity = 'trade' | 'note';
+
+export type OfflineOperation = 'create' | 'update' | 'delete';
+
+/**
+ * Pending write of one record. Writes to the same record are coalesced, so
+ * the queue holds at most one mutation per record.
+ */
+export interface OfflineMutation {
+  key: string; // `${entity}:${record_id}`
+  entity: OfflineEntity;
+  record_id: string;
+  operation: OfflineOperation;
+  payload: Record<string, any> | null; // Full record for create, changed fields for update
+  sequence: number; // Replay order
+  queued_at: Date; // First time the record was changed offline, compared to the server's updated_at
+  attempts: number;
+  last_error: string | null;
+}
+
+export interface OfflineSyncStatus {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+  lastSyncedAt: Date | null;
+  // Local edits dropped on the last replay because the server copy changed after them
+  conflicts: number;
+  // Writes the server kept rejecting and that were given up on
+  failed: number;
+  lastError: string | null;
+}
@@ -42,6 +42,7 @@ export interface ScoreBreakdown {
       overtrading: number;
       ruleFollowing: number;
     };
+    checklistBased?: boolean; // Plan adherence and rule following come from recorded pre-trade checklists
   };
 }
 
@@ -52,6 +53,26 @@ export interface ScoreHistory {
   breakdown: ScoreBreakdown;
   tradeCount: number;
   notes?: string;
+  settingsVersion?: number; // Score settings version the entry was computed with (persisted snapshots)
+  computedAt?: Date;
+}
+
+/**
+ * Persisted score for one calendar period (score_snapshots table)
+ * Written server-side by handle-trade-changes and recompute-score-snapshots
+ */
+export interface ScoreSnapshot {
+  id: string;
+  calendar_id: string;
+  user_id: string;
+  period: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  period_start: Date;
+  metrics: ScoreMetrics;
+  breakdown: ScoreBreakdown;
+  trade_count: number;
+  settings_version: number;
+  settings?: ScoreSettings | null;
+  computed_at: Date;
 }
 
 export interface ScoreSettings {
@@ -0,0 +1,80 @@
+/**
+ * Calendar share privacy types
+ * Settings are stored in calendar.share_settings and enforced server-side
+ * by the get-shared-calendar edge function
+ */
+
+export interface SharePrivacySettings {
+  hide_amounts: boolean;
+  amount_display: 'percentage' | 'r'; // Unit that replaces dollar amounts when hidden
+  strip_notes: boolean;
+  strip_images: boolean;
+  start_date?: string | null; // yyyy-MM-dd, inclusive
+  end_date?: string | null; // yyyy-MM-dd, inclusive
+  tags?: string[]; // Only trades with at least one of these tags
+}
+
+/**
+ * Unit the amounts of a shared calendar are expressed in
+ * R falls back to percentage when the calendar has no risk per trade
+ */
+export type ShareAmountUnit = 'currency' | 'percentage' | 'r';
+
+export const DEFAULT_SHARE_PRIVACY_SETTINGS: SharePrivacySettings = {
+  hide_amounts: false,
+  amount_display: 'percentage',
+  strip_notes: false,
+  strip_images: false,
+  start_date: null,
+  end_date: null,
+  tags: []
+};
+
+/**
+ * Error codes of share links the viewer cannot open
+ */
+export const SHARE_ACCESS_ERROR_CODES = {
+  PASSWORD_REQUIRED: 'share/password-required',
+  INCORRECT_PASSWORD: 'share/incorrect-password',
+  TOO_MANY_ATTEMPTS: 'share/too-many-attempts',
+  EXPIRED: 'share/expired'
+} as const;
+
+/**
+ * Expiry and password of a share link
+ * password: undefined keeps the current password, null or '' removes it
+ */
+export interface ShareAccessOptions {
+  expires_at?: Date | null;
+  password?: string | null;
+}
+
+/**
+ * One view of a shared calendar or trade (share_views table)
+ */
+export interface ShareView {
+  id: string;
+  share_id: string;
+  item_type: 'calendar' | 'trade';
+  calendar_id: string;
+  trade_id?: string | null;
+  viewed_at: Date;
+  referrer?: string | null;
+  client_hash?: string | null; // Anonymised viewer, stable for one day
+}
+
+/**
+ * A calendar or trade the user currently shares
+ */
+export interface SharedItemSummary {
+  type: 'calendar' | 'trade';
+  id: string;
+  calendar_id: string;
+  name: string;
+  share_id: string;
+  share_link: string;
+  shared_at?: Date;
+  expires_at?: Date | null;
+  view_count: number;
+  password_protected: boolean;
+}
@@ -1,6 +1,7 @@
 import { Trade } from './trade';
 import { Calendar } from './calendar';
 import { EconomicCalendarFilterSettings } from '../hooks/useEconomicCalendarFilters';
+import { CalendarRole } from './collaboration';
 
 /**
  * Shared interface for trade-related operations and callbacks.
@@ -79,6 +80,9 @@ export interface TradeOperationsProps {
   /** Whether the view is read-only (shared calendars) */
   isReadOnly?: boolean;
 
+  /** Role of the user on the calendar; unset on public share links */
+  calendarRole?: CalendarRole;
+
   /** Economic calendar filter settings getter */
   economicFilter?: (calendarId: string) => EconomicCalendarFilterSettings;
 }
@@ -109,6 +113,7 @@ export function extractTradeOperations(props: TradeOperationsProps): TradeOperat
     calendarId: props.calendarId,
     calendar: props.calendar,
     isReadOnly: props.isReadOnly,
+    calendarRole: props.calendarRole,
     economicFilter: props.economicFilter,
   };
 }
@@ -0,0 +1,84 @@
+/**
+ * Trade revision types
+ * Revisions are written by the record_trade_revision trigger whenever a journaled field changes
+ */
+
+import type { Trade } from './dualWrite';
+
+/**
+ * Trade fields recorded in the revision log (must match record_trade_revision)
+ */
+export const JOURNALED_TRADE_FIELDS = [
+  'name',
+  'amount',
+  'trade_type',
+  'trade_date',
+  'session',
+  'entry_price',
+  'exit_price',
+  'stop_loss',
+  'take_profit',
+  'risk_to_reward',
+  'partials_taken',
+  'commission',
+  'swap',
+  'fees',
+  'instrument',
+  'direction',
+  'position_size',
+  'notes',
+  'tags'
+] as const;
+
+export type JournaledTradeField = typeof JOURNALED_TRADE_FIELDS[number];
+
+export const JOURNALED_FIELD_LABELS: Record<JournaledTradeField, string> = {
+  name: 'Name',
+  amount: 'Amount',
+  trade_type: 'Result',
+  trade_date: 'Date',
+  session: 'Session',
+  entry_price: 'Entry price',
+  exit_price: 'Exit price',
+  stop_loss: 'Stop loss',
+  take_profit: 'Take profit',
+  risk_to_reward: 'Risk to reward',
+  partials_taken: 'Partials taken',
+  commission: 'Commission',
+  swap: 'Swap',
+  fees: 'Fees',
+  instrument: 'Instrument',
+  direction: 'Direction',
+  position_size: 'Position size',
+  notes: 'Notes',
+  tags: 'Tags'
+};
+
+/**
+ * Old and new value of a field, as stored in JSONB
+ */
+export interface TradeFieldChange {
+  old: unknown;
+  new: unknown;
+}
+
+/**
+ * One edit of a trade (trade_revisions table)
+ */
+export interface TradeRevision {
+  id: string;
+  trade_id: string;
+  calendar_id: string;
+  revision_number: number;
+  changed_by?: string | null;
+  changed_by_name?: string | null;
+  changes: Partial<Record<JournaledTradeField, TradeFieldChange>>;
+  // Journaled fields before the edit
+  previous: Partial<Record<JournaledTradeField, unknown>>;
+  created_at: Date;
+}
+
+/**
+ * Trade values to apply to restore the trade as it was before a revision
+ */
+export type TradeRestoreValues = Partial<Pick<Trade, JournaledTradeField>>;
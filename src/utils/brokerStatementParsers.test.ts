@@ -0,0 +1,124 @@
+import {
+  detectBrokerStatementFormat,
+  parseCTraderExport,
+  parseMetaTraderStatement,
+  parseNinjaTraderExport,
+  parseStatementDate
+} from './brokerStatementParsers';
+
+describe('parseStatementDate', () => {
+  it('reads MetaTrader server time and shifts it to UTC', () => {
+    expect(parseStatementDate('2024.01.15 10:30:12', 'Etc/GMT-2')?.toISOString()).toBe('2024-01-15T08:30:12.000Z');
+    expect(parseStatementDate('2024.01.15')?.toISOString()).toBe('2024-01-15T00:00:00.000Z');
+  });
+
+  it('follows daylight saving time of the statement zone', () => {
+    expect(parseStatementDate('2024.01.15 10:30:00', 'Europe/Athens')?.toISOString()).toBe('2024-01-15T08:30:00.000Z');
+    expect(parseStatementDate('2024.07.15 10:30:00', 'Europe/Athens')?.toISOString()).toBe('2024-07-15T07:30:00.000Z');
+    // Last EET hour before the switch to EEST on 31 March 2024 and the first hour after it
+    expect(parseStatementDate('2024.03.31 02:30:00', 'Europe/Athens')?.toISOString()).toBe('2024-03-31T00:30:00.000Z');
+    expect(parseStatementDate('2024.03.31 04:30:00', 'Europe/Athens')?.toISOString()).toBe('2024-03-31T01:30:00.000Z');
+  });
+
+  it('converts Excel date cells like text cells', () => {
+    // 45488.4375 is 2024-07-15 10:30 in Excel
+    expect(parseStatementDate(45488.4375, 'Europe/Athens')?.toISOString()).toBe('2024-07-15T07:30:00.000Z');
+    expect(parseStatementDate(new Date(2024, 6, 15, 10, 30), 'Europe/Athens')?.toISOString()).toBe('2024-07-15T07:30:00.000Z');
+    expect(parseStatementDate(-1)).toBeUndefined();
+  });
+
+  it('reads day-first and US dates explicitly', () => {
+    expect(parseStatementDate('01/02/2024 10:30:12.123', 'UTC')?.toISOString()).toBe('2024-02-01T10:30:12.000Z');
+    expect(parseStatementDate('1/15/2024 1:05:00 PM', 'UTC', false)?.toISOString()).toBe('2024-01-15T13:05:00.000Z');
+    expect(parseStatementDate('1/15/2024 12:05:00 AM', 'America/New_York', false)?.toISOString()).toBe('2024-01-15T05:05:00.000Z');
+  });
+
+  it('keeps the zone of ISO timestamps and reads the others in statement time', () => {
+    expect(parseStatementDate('2024-01-15T10:30:00Z', 'Etc/GMT-3')?.toISOString()).toBe('2024-01-15T10:30:00.000Z');
+    expect(parseStatementDate('2024-01-15T10:30:00+02:00', 'UTC')?.toISOString()).toBe('2024-01-15T08:30:00.000Z');
+    expect(parseStatementDate('2024-01-15 10:30', 'Europe/Berlin')?.toISOString()).toBe('2024-01-15T09:30:00.000Z');
+  });
+
+  it('rejects unknown and invalid values', () => {
+    expect(parseStatementDate('')).toBeUndefined();
+    expect(parseStatementDate('next tuesday')).toBeUndefined();
+    expect(parseStatementDate('13/13/2024 10:00')).toBeUndefined();
+  });
+});
+
+describe('parseMetaTraderStatement', () => {
+  const html = `
+    <table>
+      <tr><td>Ticket</td><td>Open Time</td><td>Type</td><td>Size</td><td>Item</td><td>Price</td><td>S / L</td><td>T / P</td>
+        <td>Close Time</td><td>Price</td><td>Commission</td><td>Taxes</td><td>Swap</td><td>Profit</td></tr>
+      <tr><td>1001</td><td>2024.01.15 10:30:00</td><td>buy</td><td>1.00</td><td>eurusd</td><td>1.08750</td><td>1.08500</td><td>0.00000</td>
+        <td>2024.01.15 12:00:00</td><td>1.08950</td><td>-7.00</td><td>0.00</td><td>-1.50</td><td>200.00</td></tr>
+      <tr><td>1002</td><td>2024.01.15 13:00:00</td><td>balance</td><td colspan="10">Deposit</td><td>5 000.00</td></tr>
+    </table>`;
+
+  it('imports closed positions in server time', () => {
+    const parsed = parseMetaTraderStatement(html, { timeZone: 'Europe/Athens' });
+
+    expect(parsed.format).toBe('mt4_html');
+    expect(parsed.trades).toHaveLength(1);
+    expect(parsed.trades[0]).toMatchObject({
+      name: 'eurusd',
+      instrument: 'EURUSD',
+      direction: 'long',
+      amount: 191.5,
+      trade_type: 'win',
+      stop_loss: 1.085,
+      commission: 7,
+      swap: 1.5,
+      session: 'London'
+    });
+    expect(parsed.trades[0].take_profit).toBeUndefined();
+    expect(parsed.trades[0].trade_date?.toISOString()).toBe('2024-01-15T08:30:00.000Z');
+  });
+});
+
+describe('tabular exports', () => {
+  it('detects and parses cTrader exports', () => {
+    const columns = ['Symbol', 'Opening direction', 'Opening time', 'Closing time', 'Entry price', 'Closing price', 'Net USD'];
+    expect(detectBrokerStatementFormat(columns)).toBe('ctrader');
+
+    const parsed = parseCTraderExport(columns, [
+      {
+        'Symbol': 'GBPUSD',
+        'Opening direction': 'Sell',
+        'Opening time': '15/01/2024 14:30:00.000',
+        'Closing time': '15/01/2024 15:10:00.000',
+        'Entry price': '1.27100',
+        'Closing price': '1.27300',
+        'Net USD': '-40.50'
+      },
+      { 'Symbol': 'Total', 'Net USD': '' }
+    ]);
+
+    expect(parsed.skippedRows).toBe(1);
+    expect(parsed.trades[0]).toMatchObject({ instrument: 'GBPUSD', direction: 'short', amount: -40.5, trade_type: 'loss' });
+    expect(parsed.trades[0].trade_date?.toISOString()).toBe('2024-01-15T14:30:00.000Z');
+  });
+
+  it('parses NinjaTrader exports month-first in the export time zone', () => {
+    const columns = ['Instrument', 'Market pos.', 'Qty', 'Entry price', 'Exit price', 'Entry time', 'Exit time', 'Profit', 'Commission'];
+    expect(detectBrokerStatementFormat(columns)).toBe('ninjatrader');
+
+    const parsed = parseNinjaTraderExport(columns, [
+      {
+        'Instrument': 'ES 03-24',
+        'Market pos.': 'Long',
+        'Qty': '2',
+        'Entry price': '4800.25',
+        'Exit price': '4805.25',
+        'Entry time': '2/1/2024 9:45:00 AM',
+        'Exit time': '2/1/2024 10:15:00 AM',
+        'Profit': '$500.00',
+        'Commission': '$8.24'
+      }
+    ], { timeZone: 'America/New_York' });
+
+    expect(parsed.trades[0]).toMatchObject({ direction: 'long', position_size: 2, amount: 491.76, commission: 8.24 });
+    expect(parsed.trades[0].trade_date?.toISOString()).toBe('2024-02-01T14:45:00.000Z');
+  });
+});
@@ -0,0 +1,557 @@
+/**
+ * Broker Statement Parsers
+ * Converts MetaTrader HTML statements and cTrader / NinjaTrader history exports
+ * directly into Trade objects, so they can skip the generic column mapping step
+ */
+
+import { Trade, TradeDirection } from '../types/dualWrite';
+import { BrokerStatementFormat, ParsedBrokerStatement } from '../types/import';
+import { parseDirection, parseFlexibleNumber } from './typeConverters';
+import { getSessionForTime, SessionDefinition } from './sessionTimeUtils';
+import { formatTagWithCapitalizedGroup } from './tagColors';
+
+/**
+ * Display names for each supported statement format
+ */
+export const BROKER_STATEMENT_LABELS: Record<BrokerStatementFormat, string> = {
+  mt4_html: 'MetaTrader 4 Detailed Statement',
+  mt5_html: 'MetaTrader 5 Trade Report',
+  ctrader: 'cTrader History Export',
+  ninjatrader: 'NinjaTrader Trades Export'
+};
+
+/**
+ * Options for statement parsing
+ */
+export interface BrokerStatementOptions {
+  /**
+   * IANA time zone of the statement clock (default "UTC"), e.g. "Europe/Athens".
+   * MetaTrader statements are written in broker server time (commonly EET/EEST),
+   * cTrader and NinjaTrader exports in the time zone set in the platform.
+   * Fixed offsets use the "Etc/GMT-2" zones (note the inverted sign).
+   */
+  timeZone?: string;
+  /**
+   * Sessions used to infer each trade's session from its open time (default sessions when omitted)
+   */
+  sessions?: SessionDefinition[];
+}
+
+// =====================================================
+// VALUE HELPERS
+// =====================================================
+
+/**
+ * Normalize a header for matching: lowercase, strip currency/unit suffixes and punctuation
+ */
+const normalizeHeader = (header: string): string => {
+  return header
+    .toLowerCase()
+    .replace(/\(.*?\)/g, '')
+    .replace(/[$€£¥.]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Parse a statement number, tolerating thousand separators written as spaces
+ * and currency symbols inside accounting parentheses, e.g. "($50.00)"
+ */
+const parseStatementNumber = (value: any): number | undefined => {
+  if (value === null || value === undefined) return undefined;
+  const cleaned = String(value).replace(/[\s$€£¥]/g, '');
+  if (cleaned === '') return undefined;
+
+  // A lone comma with no dot is a decimal separator (e.g. "1,2345")
+  const format = cleaned.includes(',') && !cleaned.includes('.') && /,\d{1,2}$|,\d{4,}$/.test(cleaned)
+    ? 'eu'
+    : 'us';
+  const result = parseFlexibleNumber(cleaned, format);
+  return result.success ? result.value : undefined;
+};
+
+// Formatters are expensive to create, one per zone is reused for every row
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Offset of an IANA time zone from UTC at the given instant, in milliseconds
+ */
+const getZoneOffsetMs = (timeZone: string, utcMs: number): number => {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour12: false,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(new Date(utcMs)).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  // Some engines write midnight as hour 24 with hour12 off
+  const wallMs = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second);
+  return wallMs - Math.floor(utcMs / 1000) * 1000;
+};
+
+/**
+ * Convert a wall clock time (written as if it were UTC) in the given zone to a UTC instant.
+ * The offset is looked up twice so times next to a DST change use the offset in force at that time.
+ */
+const zonedWallClockToUtc = (wallMs: number, timeZone: string): number => {
+  const firstGuess = wallMs - getZoneOffsetMs(timeZone, wallMs);
+  return wallMs - getZoneOffsetMs(timeZone, firstGuess);
+};
+
+// Days between the Excel epoch (1899-12-30) and the Unix epoch
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+// Serial number of 9999-12-31, the last date Excel supports
+const EXCEL_MAX_SERIAL = 2958465;
+
+/**
+ * Parse a statement timestamp
+ * Supports "2024.01.15 10:30[:12]", "15/01/2024 10:30:12.123", ISO and US
+ * ("1/15/2024 10:30:12 AM") formats, as well as Excel date cells (serial numbers or Date objects).
+ * Timestamps are read as statement clock time in the given IANA zone, DST included, and
+ * converted to UTC; only ISO timestamps with a zone ("Z", "+02:00") keep their own.
+ * @param dayFirst Read "01/02/2024" as 1 February (cTrader) instead of 2 January (NinjaTrader)
+ */
+export const parseStatementDate = (
+  value: any,
+  timeZone: string = 'UTC',
+  dayFirst: boolean = true
+): Date | undefined => {
+  if (value === null || value === undefined) return undefined;
+
+  // Excel date cell read with cellDates: its local fields hold the clock time of the cell
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return undefined;
+    const wallMs = Date.UTC(
+      value.getFullYear(), value.getMonth(), value.getDate(),
+      value.getHours(), value.getMinutes(), value.getSeconds()
+    );
+    return new Date(zonedWallClockToUtc(wallMs, timeZone));
+  }
+
+  // Excel date cell as a serial number (days since 1899-12-30, time as the fraction)
+  if (typeof value === 'number') {
+    if (!isFinite(value) || value <= 0 || value >= EXCEL_MAX_SERIAL + 1) return undefined;
+    const wallMs = Math.round((value - EXCEL_EPOCH_OFFSET_DAYS) * 24 * 60 * 60) * 1000;
+    return new Date(zonedWallClockToUtc(wallMs, timeZone));
+  }
+
+  const str = String(value).trim();
+  if (str === '') return undefined;
+
+  const toUtc = (year: number, month: number, day: number, h = 0, m = 0, s = 0, zoneOffsetHours?: number): Date | undefined => {
+    if (month < 1 || month > 12 || day < 1 || day > 31 || h > 23 || m > 59 || s > 59) return undefined;
+    const wallMs = Date.UTC(year, month - 1, day, h, m, s);
+    return new Date(zoneOffsetHours === undefined
+      ? zonedWallClockToUtc(wallMs, timeZone)
+      : wallMs - zoneOffsetHours * 60 * 60 * 1000);
+  };
+
+  // MetaTrader: 2024.01.15 10:30:12
+  const dotted = str.match(/^(\d{4})\.(\d{2})\.(\d{2})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (dotted) {
+    const [, y, mo, d, h, mi, s] = dotted;
+    return toUtc(+y, +mo, +d, +(h || 0), +(mi || 0), +(s || 0));
+  }
+
+  // ISO: 2024-01-15T10:30:12.123Z, 2024-01-15 10:30, with or without a zone
+  const iso = str.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T\s](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?)?/i);
+  if (iso) {
+    const [, y, mo, d, h, mi, s, zone] = iso;
+    let zoneOffset: number | undefined;
+    if (zone) {
+      const zoneMatch = zone.toUpperCase() === 'Z' ? null : zone.match(/([+-])(\d{2}):?(\d{2})/);
+      zoneOffset = zoneMatch ? (zoneMatch[1] === '-' ? -1 : 1) * (+zoneMatch[2] + +zoneMatch[3] / 60) : 0;
+    }
+    return toUtc(+y, +mo, +d, +(h || 0), +(mi || 0), +(s || 0), zoneOffset);
+  }
+
+  // cTrader 15/01/2024 10:30:12.123, NinjaTrader 1/15/2024 10:30:12 AM
+  const slashed = str.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*(AM|PM)?)?/i);
+  if (slashed) {
+    const [, first, second, y, h, mi, s, meridiem] = slashed;
+    let hours = +(h || 0);
+    if (meridiem) {
+      if (hours < 1 || hours > 12) return undefined;
+      hours = (hours % 12) + (meridiem.toUpperCase() === 'PM' ? 12 : 0);
+    }
+    const [d, mo] = dayFirst ? [+first, +second] : [+second, +first];
+    return toUtc(+y, mo, d, hours, +(mi || 0), +(s || 0));
+  }
+
+  return undefined;
+};
+
+/**
+ * Build the common Trade fields shared by every statement format
+ * netAmount already includes costs; costs are kept alongside it (positive = cost, negative = credit)
+ */
+const buildStatementTrade = (params: {
+  symbol?: string;
+  openTime?: Date;
+  closeTime?: Date;
+  entryPrice?: number;
+  exitPrice?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  direction?: TradeDirection;
+  positionSize?: number;
+  netAmount: number;
+  commission?: number;
+  swap?: number;
+  fees?: number;
+  sessions?: SessionDefinition[];
+}): Partial<Trade> => {
+  const { symbol, openTime, closeTime, entryPrice, exitPrice, stopLoss, takeProfit, netAmount } = params;
+  const roundCents = (value: number) => Math.round(value * 100) / 100;
+  const amount = roundCents(netAmount);
+  const tradeDate = openTime || closeTime;
+  const session = openTime ? getSessionForTime(openTime, params.sessions) : undefined;
+
+  const trade: Partial<Trade> = {
+    amount,
+    trade_type: amount > 0 ? 'win' : amount < 0 ? 'loss' : 'breakeven',
+    trade_date: tradeDate
+  };
+
+  if (symbol) {
+    trade.name = symbol;
+    trade.instrument = symbol.toUpperCase();
+    trade.tags = [formatTagWithCapitalizedGroup(`Pair:${symbol.toUpperCase()}`)];
+  }
+  if (params.direction) trade.direction = params.direction;
+  if (params.positionSize) trade.position_size = Math.abs(params.positionSize);
+  if (entryPrice !== undefined) trade.entry_price = entryPrice;
+  if (exitPrice !== undefined) trade.exit_price = exitPrice;
+  // MetaTrader writes 0.00000 for "no stop" / "no target"
+  if (stopLoss) trade.stop_loss = stopLoss;
+  if (takeProfit) trade.take_profit = takeProfit;
+  if (session) trade.session = session;
+  if (params.commission) trade.commission = roundCents(params.commission);
+  if (params.swap) trade.swap = roundCents(params.swap);
+  if (params.fees) trade.fees = roundCents(params.fees);
+
+  return trade;
+};
+
+// =====================================================
+// METATRADER HTML STATEMENTS
+// =====================================================
+
+/**
+ * Expand a table row into cell texts, repeating blanks for colspan
+ * so that columns stay aligned with the header row
+ */
+const expandRowCells = (row: HTMLTableRowElement): string[] => {
+  const cells: string[] = [];
+  Array.from(row.cells).forEach(cell => {
+    cells.push((cell.textContent || '').replace(/\u00a0/g, ' ').trim());
+    for (let i = 1; i < cell.colSpan; i++) {
+      cells.push('');
+    }
+  });
+  return cells;
+};
+
+/**
+ * Map header names to column indices.
+ * Repeated headers (Time, Price) are suffixed: the second occurrence is the closing value.
+ */
+const indexHeaders = (headers: string[]): Record<string, number> => {
+  const index: Record<string, number> = {};
+  headers.forEach((header, i) => {
+    const key = normalizeHeader(header).replace(/\s/g, '');
+    if (!key) return;
+    if (index[key] === undefined) {
+      index[key] = i;
+    } else if (index[`${key}2`] === undefined) {
+      index[`${key}2`] = i;
+    }
+  });
+  return index;
+};
+
+/**
+ * Parse a MetaTrader 4 "Detailed Statement" or MetaTrader 5 "Trade History Report"
+ * Only closed buy/sell positions are imported; balance operations and pending orders are skipped.
+ */
+export function parseMetaTraderStatement(
+  html: string,
+  options: BrokerStatementOptions = {}
+): ParsedBrokerStatement {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const tableRows = Array.from(doc.querySelectorAll('tr'));
+  const timeZone = options.timeZone ?? 'UTC';
+
+  // MT4 header starts with Ticket + Open Time; MT5 positions header has Position + Symbol
+  let headerRowIndex = -1;
+  let format: BrokerStatementFormat = 'mt4_html';
+  for (let i = 0; i < tableRows.length; i++) {
+    const texts = expandRowCells(tableRows[i]).map(t => t.toLowerCase());
+    if (texts.includes('ticket') && texts.includes('open time')) {
+      headerRowIndex = i;
+      format = 'mt4_html';
+      break;
+    }
+    if (texts.includes('position') && texts.includes('symbol') && texts.includes('profit')) {
+      headerRowIndex = i;
+      format = 'mt5_html';
+      break;
+    }
+  }
+
+  if (headerRowIndex === -1) {
+    throw new Error('Could not find a closed trades table in this MetaTrader statement');
+  }
+
+  const headers = expandRowCells(tableRows[headerRowIndex]);
+  const col = indexHeaders(headers);
+  const symbolCol = format === 'mt4_html' ? col.item : col.symbol;
+  const openTimeCol = format === 'mt4_html' ? col.opentime : col.time;
+  const closeTimeCol = format === 'mt4_html' ? col.closetime : col.time2;
+
+  const rows: Array<Record<string, any>> = [];
+  const trades: Partial<Trade>[] = [];
+  let skippedRows = 0;
+
+  for (let i = headerRowIndex + 1; i < tableRows.length; i++) {
+    const cells = expandRowCells(tableRows[i]);
+    const nonEmpty = cells.filter(Boolean);
+
+    // A single-cell row is the next section title ("Open Trades:", "Orders", ...)
+    if (nonEmpty.length <= 1) {
+      if (trades.length > 0 || skippedRows > 0) break;
+      continue;
+    }
+
+    const type = (cells[col.type] || '').toLowerCase();
+    if (type !== 'buy' && type !== 'sell') {
+      skippedRows++;
+      continue;
+    }
+
+    const profit = parseStatementNumber(cells[col.profit]);
+    if (profit === undefined) {
+      skippedRows++;
+      continue;
+    }
+
+    const commission = parseStatementNumber(cells[col.commission]) || 0;
+    const swap = parseStatementNumber(cells[col.swap]) || 0;
+    const taxes = col.taxes !== undefined ? parseStatementNumber(cells[col.taxes]) || 0 : 0;
+
+    const raw: Record<string, any> = {};
+    headers.forEach((header, idx) => {
+      if (header && raw[header] === undefined) raw[header] = cells[idx];
+    });
+
+    rows.push(raw);
+    trades.push(buildStatementTrade({
+      symbol: cells[symbolCol],
+      openTime: parseStatementDate(cells[openTimeCol], timeZone),
+      closeTime: parseStatementDate(cells[closeTimeCol], timeZone),
+      entryPrice: parseStatementNumber(cells[col.price]),
+      exitPrice: parseStatementNumber(cells[col.price2]),
+      stopLoss: parseStatementNumber(cells[col['s/l']]),
+      takeProfit: parseStatementNumber(cells[col['t/p']]),
+      direction: type === 'buy' ? 'long' : 'short',
+      positionSize: parseStatementNumber(cells[format === 'mt4_html' ? col.size : col.volume]),
+      netAmount: profit + commission + swap + taxes,
+      // Statement columns are signed as account credits, costs are stored the other way round
+      commission: -commission,
+      swap: -swap,
+      fees: -taxes,
+      sessions: options.sessions
+    }));
+  }
+
+  if (trades.length === 0) {
+    throw new Error('No closed trades found in this MetaTrader statement');
+  }
+
+  return {
+    format,
+    columns: headers.filter(Boolean),
+    rows,
+    trades,
+    skippedRows
+  };
+}
+
+// =====================================================
+// CTRADER / NINJATRADER TABULAR EXPORTS
+// =====================================================
+
+/**
+ * Find the first column whose normalized header matches one of the candidates
+ */
+const findColumn = (columns: string[], candidates: string[]): string | undefined => {
+  const normalized = columns.map(c => ({ original: c, key: normalizeHeader(c) }));
+  for (const candidate of candidates) {
+    const match = normalized.find(c => c.key === candidate);
+    if (match) return match.original;
+  }
+  return undefined;
+};
+
+/**
+ * Detect whether tabular file columns belong to a known broker export
+ */
+export function detectBrokerStatementFormat(columns: string[]): BrokerStatementFormat | null {
+  const keys = new Set(columns.map(normalizeHeader));
+
+  if (keys.has('market pos') && keys.has('entry time') && keys.has('exit time')) {
+    return 'ninjatrader';
+  }
+
+  if (
+    (keys.has('opening direction') || keys.has('direction')) &&
+    (keys.has('opening time') || keys.has('open time')) &&
+    (keys.has('closing time') || keys.has('close time'))
+  ) {
+    return 'ctrader';
+  }
+
+  return null;
+}
+
+/**
+ * Parse a cTrader position history export (CSV or XLSX)
+ * Uses the "Net" column when present, otherwise gross + commissions + swap
+ */
+export function parseCTraderExport(
+  columns: string[],
+  fileRows: Array<Record<string, any>>,
+  options: BrokerStatementOptions = {}
+): ParsedBrokerStatement {
+  const timeZone = options.timeZone ?? 'UTC';
+  const symbolCol = findColumn(columns, ['symbol']);
+  const openTimeCol = findColumn(columns, ['opening time', 'open time']);
+  const closeTimeCol = findColumn(columns, ['closing time', 'close time']);
+  const entryCol = findColumn(columns, ['entry price', 'opening price']);
+  const exitCol = findColumn(columns, ['closing price', 'close price']);
+  const slCol = findColumn(columns, ['stop loss', 'sl']);
+  const tpCol = findColumn(columns, ['take profit', 'tp']);
+  const directionCol = findColumn(columns, ['opening direction', 'direction']);
+  const quantityCol = findColumn(columns, ['closing quantity', 'quantity', 'volume']);
+  const netCol = findColumn(columns, ['net', 'net usd', 'net eur', 'net gbp', 'net profit']);
+  const grossCol = findColumn(columns, ['gross', 'gross usd', 'gross eur', 'gross gbp', 'gross profit']);
+  const commissionCol = findColumn(columns, ['commissions', 'commission']);
+  const swapCol = findColumn(columns, ['swap']);
+
+  const rows: Array<Record<string, any>> = [];
+  const trades: Partial<Trade>[] = [];
+  let skippedRows = 0;
+
+  for (const row of fileRows) {
+    const net = netCol ? parseStatementNumber(row[netCol]) : undefined;
+    const gross = grossCol ? parseStatementNumber(row[grossCol]) : undefined;
+    const commission = commissionCol ? parseStatementNumber(row[commissionCol]) || 0 : 0;
+    const swap = swapCol ? parseStatementNumber(row[swapCol]) || 0 : 0;
+    const netAmount = net !== undefined ? net : gross !== undefined ? gross + commission + swap : undefined;
+
+    if (netAmount === undefined) {
+      skippedRows++;
+      continue;
+    }
+
+    rows.push(row);
+    trades.push(buildStatementTrade({
+      symbol: symbolCol ? String(row[symbolCol] || '').trim() : undefined,
+      openTime: openTimeCol ? parseStatementDate(row[openTimeCol], timeZone) : undefined,
+      closeTime: closeTimeCol ? parseStatementDate(row[closeTimeCol], timeZone) : undefined,
+      entryPrice: entryCol ? parseStatementNumber(row[entryCol]) : undefined,
+      exitPrice: exitCol ? parseStatementNumber(row[exitCol]) : undefined,
+      stopLoss: slCol ? parseStatementNumber(row[slCol]) : undefined,
+      takeProfit: tpCol ? parseStatementNumber(row[tpCol]) : undefined,
+      direction: directionCol ? parseDirection(row[directionCol]).value : undefined,
+      positionSize: quantityCol ? parseStatementNumber(row[quantityCol]) : undefined,
+      netAmount,
+      commission: -commission,
+      swap: -swap,
+      sessions: options.sessions
+    }));
+  }
+
+  return { format: 'ctrader', columns, rows, trades, skippedRows };
+}
+
+/**
+ * Parse a NinjaTrader 8 "Trades" grid export (CSV or XLSX)
+ * NinjaTrader reports gross profit with commission in a separate column
+ */
+export function parseNinjaTraderExport(
+  columns: string[],
+  fileRows: Array<Record<string, any>>,
+  options: BrokerStatementOptions = {}
+): ParsedBrokerStatement {
+  const timeZone = options.timeZone ?? 'UTC';
+  const instrumentCol = findColumn(columns, ['instrument']);
+  const entryTimeCol = findColumn(columns, ['entry time']);
+  const exitTimeCol = findColumn(columns, ['exit time']);
+  const entryCol = findColumn(columns, ['entry price']);
+  const exitCol = findColumn(columns, ['exit price']);
+  const profitCol = findColumn(columns, ['profit']);
+  const commissionCol = findColumn(columns, ['commission']);
+  const marketPosCol = findColumn(columns, ['market pos']);
+  const qtyCol = findColumn(columns, ['qty', 'quantity']);
+
+  const rows: Array<Record<string, any>> = [];
+  const trades: Partial<Trade>[] = [];
+  let skippedRows = 0;
+
+  for (const row of fileRows) {
+    const profit = profitCol ? parseStatementNumber(row[profitCol]) : undefined;
+    if (profit === undefined) {
+      skippedRows++;
+      continue;
+    }
+    const commission = commissionCol ? Math.abs(parseStatementNumber(row[commissionCol]) || 0) : 0;
+
+    rows.push(row);
+    trades.push(buildStatementTrade({
+      symbol: instrumentCol ? String(row[instrumentCol] || '').trim() : undefined,
+      openTime: entryTimeCol ? parseStatementDate(row[entryTimeCol], timeZone, false) : undefined,
+      closeTime: exitTimeCol ? parseStatementDate(row[exitTimeCol], timeZone, false) : undefined,
+      entryPrice: entryCol ? parseStatementNumber(row[entryCol]) : undefined,
+      exitPrice: exitCol ? parseStatementNumber(row[exitCol]) : undefined,
+      direction: marketPosCol ? parseDirection(row[marketPosCol]).value : undefined,
+      positionSize: qtyCol ? parseStatementNumber(row[qtyCol]) : undefined,
+      netAmount: profit - commission,
+      commission,
+      sessions: options.sessions
+    }));
+  }
+
+  return { format: 'ninjatrader', columns, rows, trades, skippedRows };
+}
+
+/**
+ * Parse tabular rows with the parser for a detected export format
+ */
+export function parseTabularStatement(
+  format: BrokerStatementFormat,
+  columns: string[],
+  fileRows: Array<Record<string, any>>,
+  options: BrokerStatementOptions = {}
+): ParsedBrokerStatement {
+  switch (format) {
+    case 'ctrader':
+      return parseCTraderExport(columns, fileRows, options);
+    case 'ninjatrader':
+      return parseNinjaTraderExport(columns, fileRows, options);
+    default:
+      throw new Error(`${BROKER_STATEMENT_LABELS[format]} is not a tabular export`);
+  }
+}
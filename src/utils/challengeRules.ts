@@ -0,0 +1,259 @@
+/**
+ * Challenge Rules Engine
+ * Evaluates a calendar's prop-firm challenge rules (daily loss, max loss,
+ * trailing drawdown, minimum trading days, consistency and phase targets)
+ * against the trades taken since the challenge started
+ */
+
+import { format, parseISO, startOfDay } from 'date-fns';
+import { Calendar, Trade } from '../types/dualWrite';
+import {
+  ChallengeEvaluation,
+  ChallengeRuleResult,
+  ChallengeRules,
+  ChallengeStatus
+} from '../types/challenge';
+import { formatCurrency, formatPercentage } from './formatters';
+
+// A rule is at risk once 80% of its limit is used up
+const AT_RISK_RATIO = 0.8;
+
+const dayKey = (date: Date | string): string => format(new Date(date), 'yyyy-MM-dd');
+
+/**
+ * Start of the first challenge day
+ */
+export function getChallengeStartDate(rules: Pick<ChallengeRules, 'start_date'>): Date {
+  const parsed = parseISO(rules.start_date);
+  return isNaN(parsed.getTime()) ? startOfDay(new Date()) : startOfDay(parsed);
+}
+
+/**
+ * Trades that count towards the challenge, oldest first
+ */
+export function getChallengeTrades(rules: ChallengeRules, trades: Trade[]): Trade[] {
+  const start = getChallengeStartDate(rules).getTime();
+  return trades
+    .filter(trade => !trade.is_temporary && new Date(trade.trade_date).getTime() >= start)
+    .sort((a, b) => new Date(a.trade_date).getTime() - new Date(b.trade_date).getTime());
+}
+
+/**
+ * Whether challenge tracking is configured and switched on for a calendar
+ */
+export function isChallengeActive(calendar?: Pick<Calendar, 'challenge_rules'> | null): boolean {
+  return !!calendar?.challenge_rules?.enabled && !!calendar.challenge_rules.start_date;
+}
+
+/**
+ * Status of a loss limit: violated at any point fails it, the current loss decides at risk
+ */
+function lossLimitStatus(worst: number, current: number, limit: number): ChallengeRuleResult['status'] {
+  if (worst >= limit) return 'fail';
+  if (current >= limit * AT_RISK_RATIO) return 'at_risk';
+  return 'pass';
+}
+
+function overallStatus(rules: ChallengeRuleResult[]): ChallengeStatus {
+  if (rules.some(rule => rule.hard && rule.status === 'fail')) return 'failed';
+
+  const target = rules.find(rule => rule.id === 'profit_target');
+  const passingRules = rules.filter(rule => !rule.hard);
+  if (target && passingRules.every(rule => rule.status === 'pass' || rule.status === 'at_risk') &&
+      target.status === 'pass') {
+    return 'passed';
+  }
+
+  if (rules.some(rule => rule.status === 'at_risk' || rule.status === 'fail')) return 'at_risk';
+  return 'in_progress';
+}
+
+/**
+ * Evaluate the challenge rules against a calendar's trades
+ * @param rules Challenge configuration from calendar.challenge_rules
+ * @param calendar Calendar providing the default balance and daily drawdown
+ * @param trades Trades of the calendar; trades before the start date are ignored
+ */
+export function evaluateChallengeRules(
+  rules: ChallengeRules,
+  calendar: Pick<Calendar, 'account_balance' | 'max_daily_drawdown'>,
+  trades: Trade[]
+): ChallengeEvaluation {
+  const startingBalance = rules.starting_balance || calendar.account_balance || 0;
+  const challengeTrades = getChallengeTrades(rules, trades);
+
+  // Walk the trades day by day, tracking intraday lows for the loss limits
+  const dailyPnL = new Map<string, number>();
+  let balance = startingBalance;
+  let lowestBalance = startingBalance;
+  let highWaterMark = startingBalance; // Highest end-of-day balance
+  let worstTrailingDrawdown = 0;
+  let worstDailyLoss = 0;
+  let latestDailyLoss = 0;
+  let currentDay = '';
+  let dayPnL = 0;
+
+  const closeDay = () => {
+    if (!currentDay) return;
+    dailyPnL.set(currentDay, dayPnL);
+    highWaterMark = Math.max(highWaterMark, balance);
+  };
+
+  for (const trade of challengeTrades) {
+    const key = dayKey(trade.trade_date);
+    if (key !== currentDay) {
+      closeDay();
+      currentDay = key;
+      dayPnL = 0;
+      latestDailyLoss = 0;
+    }
+
+    const amount = Number(trade.amount) || 0;
+    balance += amount;
+    dayPnL += amount;
+
+    lowestBalance = Math.min(lowestBalance, balance);
+    worstTrailingDrawdown = Math.max(worstTrailingDrawdown, highWaterMark - balance);
+    latestDailyLoss = Math.max(latestDailyLoss, -dayPnL);
+    worstDailyLoss = Math.max(worstDailyLoss, latestDailyLoss);
+  }
+  closeDay();
+
+  const profit = balance - startingBalance;
+  const tradingDays = dailyPnL.size;
+  const percentOfStart = (percentage: number) => (startingBalance * percentage) / 100;
+  const results: ChallengeRuleResult[] = [];
+
+  const maxDailyLoss = rules.max_daily_loss ?? calendar.max_daily_drawdown;
+  if (maxDailyLoss && maxDailyLoss > 0) {
+    const limit = percentOfStart(maxDailyLoss);
+    const status = lossLimitStatus(worstDailyLoss, latestDailyLoss, limit);
+    results.push({
+      id: 'daily_loss',
+      label: `Max daily loss (${maxDailyLoss}%)`,
+      status,
+      current: status === 'fail' ? worstDailyLoss : latestDailyLoss,
+      limit,
+      unit: 'currency',
+      hard: true,
+      message: status === 'fail'
+        ? `A day lost ${formatCurrency(worstDailyLoss)}, over the ${formatCurrency(limit)} limit`
+        : `Latest day: ${formatCurrency(latestDailyLoss)} lost of ${formatCurrency(limit)} allowed`
+    });
+  }
+
+  if (rules.max_total_loss && rules.max_total_loss > 0) {
+    const limit = percentOfStart(rules.max_total_loss);
+    const currentLoss = Math.max(0, startingBalance - balance);
+    const worstLoss = Math.max(0, startingBalance - lowestBalance);
+    const status = lossLimitStatus(worstLoss, currentLoss, limit);
+    results.push({
+      id: 'total_loss',
+      label: `Max loss (${rules.max_total_loss}%)`,
+      status,
+      current: status === 'fail' ? worstLoss : currentLoss,
+      limit,
+      unit: 'currency',
+      hard: true,
+      message: status === 'fail'
+        ? `Balance fell to ${formatCurrency(lowestBalance)}, below the ${formatCurrency(startingBalance - limit)} floor`
+        : `${formatCurrency(balance - (startingBalance - limit))} above the ${formatCurrency(startingBalance - limit)} floor`
+    });
+  }
+
+  if (rules.trailing_drawdown && rules.trailing_drawdown > 0) {
+    const limit = percentOfStart(rules.trailing_drawdown);
+    const currentDrawdown = Math.max(0, highWaterMark - balance);
+    const status = lossLimitStatus(worstTrailingDrawdown, currentDrawdown, limit);
+    results.push({
+      id: 'trailing_drawdown',
+      label: `Trailing drawdown (${rules.trailing_drawdown}%)`,
+      status,
+      current: status === 'fail' ? worstTrailingDrawdown : currentDrawdown,
+      limit,
+      unit: 'currency',
+      hard: true,
+      message: status === 'fail'
+        ? `Drew down ${formatCurrency(worstTrailingDrawdown)} from the high, over the ${formatCurrency(limit)} limit`
+        : `${formatCurrency(currentDrawdown)} below the ${formatCurrency(highWaterMark)} high, ${formatCurrency(limit)} allowed`
+    });
+  }
+
+  if (rules.min_trading_days && rules.min_trading_days > 0) {
+    const met = tradingDays >= rules.min_trading_days;
+    results.push({
+      id: 'min_trading_days',
+      label: `Minimum trading days (${rules.min_trading_days})`,
+      status: met ? 'pass' : 'pending',
+      current: tradingDays,
+      limit: rules.min_trading_days,
+      unit: 'days',
+      hard: false,
+      message: met
+        ? `${tradingDays} trading days`
+        : `${rules.min_trading_days - tradingDays} more trading day${rules.min_trading_days - tradingDays === 1 ? '' : 's'} needed`
+    });
+  }
+
+  if (rules.consistency_percentage && rules.consistency_percentage > 0) {
+    const bestDay = Math.max(0, ...Array.from(dailyPnL.values()));
+    const share = profit > 0 ? (bestDay / profit) * 100 : 0;
+    const status = profit <= 0
+      ? 'pending'
+      : share > rules.consistency_percentage
+        ? 'fail'
+        : share >= rules.consistency_percentage * AT_RISK_RATIO ? 'at_risk' : 'pass';
+    results.push({
+      id: 'consistency',
+      label: `Consistency (best day ≤ ${rules.consistency_percentage}% of profit)`,
+      status,
+      current: share,
+      limit: rules.consistency_percentage,
+      unit: 'percentage',
+      hard: false,
+      message: profit <= 0
+        ? 'Applies once the challenge is in profit'
+        : `Best day ${formatCurrency(bestDay)} is ${formatPercentage(share)} of the profit`
+    });
+  }
+
+  const phaseIndex = Math.min(Math.max(rules.current_phase || 0, 0), Math.max(rules.phases.length - 1, 0));
+  const phase = rules.phases[phaseIndex] ?? null;
+  if (phase && phase.profit_target > 0) {
+    const target = percentOfStart(phase.profit_target);
+    const met = profit >= target;
+    results.push({
+      id: 'profit_target',
+      label: `${phase.name} target (${phase.profit_target}%)`,
+      status: met ? 'pass' : 'pending',
+      current: profit,
+      limit: target,
+      unit: 'currency',
+      hard: false,
+      message: met
+        ? `Target of ${formatCurrency(target)} reached`
+        : `${formatCurrency(target - profit)} to go`
+    });
+  }
+
+  return {
+    status: overallStatus(results),
+    phase,
+    phaseIndex,
+    startingBalance,
+    balance,
+    profit,
+    tradingDays,
+    rules: results
+  };
+}
+
+/**
+ * Rules that a change would newly violate
+ */
+export function findNewBreaches(before: ChallengeEvaluation, after: ChallengeEvaluation): ChallengeRuleResult[] {
+  return after.rules.filter(rule =>
+    rule.status === 'fail' &&
+    before.rules.find(previous => previous.id === rule.id)?.status !== 'fail'
+  );
+}
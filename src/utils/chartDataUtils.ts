@@ -1,9 +1,15 @@
 import { format, eachDayOfInterval, startOfMonth, endOfMonth, isSameMonth, getDay, parseISO } from 'date-fns';
-import { Trade } from '../types/dualWrite';
+import { Trade, TradeDirection } from '../types/dualWrite';
+import { getTradeAmount, PnLMode } from './statsUtils';
+import { calculateRealizedR } from './tradeUtils';
+import { DEFAULT_TRADING_SESSIONS, SessionDefinition } from './sessionTimeUtils';
 import { Theme } from '@mui/material';
 
 export type TimePeriod = 'month' | 'year' | 'all';
 
+// How chart values are shown: account currency, or R-multiples of the amount risked
+export type ValueDisplayMode = 'currency' | 'r';
+
 export interface ChartDataPoint {
   date: string;
   pnl: number;
@@ -30,6 +36,23 @@ export interface SessionStats {
   pnlPercentage: number;
 }
 
+/**
+ * Performance of a group of trades (one instrument, one direction, ...)
+ */
+export interface GroupPerformanceStats {
+  key: string;
+  total_trades: number;
+  winners: number;
+  losers: number;
+  breakevens: number;
+  win_rate: number;
+  total_pnl: number;
+  averagePnL: number;
+  pnlPercentage: number;
+  avgRealizedR: number | null; // Only trades with entry, exit and stop loss count
+  trades: Trade[];
+}
+
 export const getNormalizedDate = (selectedDate: Date) => {
   // Convert selectedDate to noon UTC to avoid timezone issues
         // This ensures that date_trunc('month', ...) works correctly regardless of timezone
@@ -254,15 +277,28 @@ export const calculateChartData = async (
   return result;
 };
 
+// The calendar's sessions in order, followed by sessions of trades that are no longer defined
+// (e.g. after the calendar's sessions were renamed)
+const getSessionNames = (trades: Trade[], sessionDefinitions: SessionDefinition[]): string[] => {
+  const names = sessionDefinitions.map(session => session.name);
+  trades.forEach(trade => {
+    if (trade.session && !names.includes(trade.session)) {
+      names.push(trade.session);
+    }
+  });
+  return names;
+};
+
 // Calculate session performance statistics
 export const calculateSessionStats = (
   trades: Trade[],
   selectedDate: Date,
   timePeriod: TimePeriod,
-  accountBalance: number
+  accountBalance: number,
+  sessionDefinitions: SessionDefinition[] = DEFAULT_TRADING_SESSIONS
 ): SessionStats[] => {
   const filteredTrades = getFilteredTrades(trades, selectedDate, timePeriod).filter(trade => trade.session !== undefined);
-  const sessions = ['Asia', 'London', 'NY AM', 'NY PM'];
+  const sessions = getSessionNames(filteredTrades, sessionDefinitions);
 
   return sessions.map(sessionName => {
     const sessionTrades = filteredTrades.filter(trade => trade.session === sessionName);
@@ -579,13 +615,14 @@ export const calculateRiskRewardStatsAsync = async (
 // Calculate session statistics asynchronously
 export const calculateSessionStatsAsync = async (
   filteredTrades: Trade[],
-  accountBalance: number
+  accountBalance: number,
+  sessionDefinitions: SessionDefinition[] = DEFAULT_TRADING_SESSIONS
 ): Promise<SessionStats[]> => {
   // Yield control to prevent UI blocking
   await new Promise(resolve => setTimeout(resolve, 0));
 
   const filteredTrades_ = filteredTrades.filter(trade => trade.session !== undefined);
-  const sessions = ['Asia', 'London', 'NY AM', 'NY PM'];
+  const sessions = getSessionNames(filteredTrades_, sessionDefinitions);
 
   return sessions.map(sessionName => {
     const sessionTrades = filteredTrades_.filter(trade => trade.session === sessionName);
@@ -656,3 +693,171 @@ export const calculateAllTagsAsync = async (trades: Trade[]): Promise<string[]>
   });
   return Array.from(tags).sort();
 };
+
+// Summarise a group of trades; shared by the instrument and direction breakdowns
+const summarizeTradeGroup = (
+  key: string,
+  groupTrades: Trade[],
+  accountBalance: number,
+  pnlMode: PnLMode
+): GroupPerformanceStats => {
+  const winners = groupTrades.filter(trade => trade.trade_type === 'win').length;
+  const losers = groupTrades.filter(trade => trade.trade_type === 'loss').length;
+  const breakevens = groupTrades.filter(trade => trade.trade_type === 'breakeven').length;
+
+  // Calculate win rate excluding breakevens from the denominator
+  const totalTradesForWinRate = winners + losers;
+  const winRate = totalTradesForWinRate > 0 ? (winners / totalTradesForWinRate) * 100 : 0;
+
+  const totalPnL = groupTrades.reduce((sum, trade) => sum + getTradeAmount(trade, pnlMode), 0);
+  const realizedRs = groupTrades
+    .map(trade => calculateRealizedR(trade))
+    .filter((r): r is number => r !== undefined);
+
+  return {
+    key,
+    total_trades: groupTrades.length,
+    winners,
+    losers,
+    breakevens,
+    win_rate: winRate,
+    total_pnl: totalPnL,
+    averagePnL: groupTrades.length > 0 ? totalPnL / groupTrades.length : 0,
+    pnlPercentage: accountBalance > 0 ? (totalPnL / accountBalance) * 100 : 0,
+    avgRealizedR: realizedRs.length > 0 ? realizedRs.reduce((sum, r) => sum + r, 0) / realizedRs.length : null,
+    trades: groupTrades
+  };
+};
+
+// Calculate per-instrument statistics, most traded first
+export const calculateInstrumentStats = (
+  filteredTrades: Trade[],
+  accountBalance: number,
+  pnlMode: PnLMode = 'net'
+): GroupPerformanceStats[] => {
+  const byInstrument = new Map<string, Trade[]>();
+  filteredTrades.forEach(trade => {
+    if (!trade.instrument) return;
+    byInstrument.set(trade.instrument, [...(byInstrument.get(trade.instrument) || []), trade]);
+  });
+
+  return Array.from(byInstrument.entries())
+    .map(([instrument, instrumentTrades]) => summarizeTradeGroup(instrument, instrumentTrades, accountBalance, pnlMode))
+    .sort((a, b) => b.total_trades - a.total_trades || b.total_pnl - a.total_pnl);
+};
+
+// Calculate long vs short statistics; both directions are always returned
+export const calculateDirectionStats = (
+  filteredTrades: Trade[],
+  accountBalance: number,
+  pnlMode: PnLMode = 'net'
+): GroupPerformanceStats[] => {
+  const directions: TradeDirection[] = ['long', 'short'];
+  return directions.map(direction => summarizeTradeGroup(
+    direction,
+    filteredTrades.filter(trade => trade.direction === direction),
+    accountBalance,
+    pnlMode
+  ));
+};
+
+/**
+ * R-multiple summary of a set of trades (see calculateTradeRMultiples in dynamicRiskUtils)
+ */
+export interface RDistributionBucket {
+  from: number;
+  to: number;
+  label: string; // Axis label
+  range: string; // Readable range, open-ended for the edge buckets
+  count: number;
+  trades: Trade[];
+}
+
+export interface RMultipleStats {
+  measuredTrades: number;
+  totalR: number;
+  expectancy: number; // Average R per trade
+  averageWinR: number;
+  averageLossR: number;
+  bestWinR: number | null;
+  worstLossR: number | null;
+  distribution: RDistributionBucket[];
+}
+
+const R_BUCKET_SIZE = 0.5;
+const R_BUCKET_MIN = -3;
+const R_BUCKET_MAX = 5;
+
+// Calculate expectancy and the R distribution histogram for a period's trades
+export const calculateRMultipleStats = (
+  filteredTrades: Trade[],
+  rMultiples: Map<string, number>
+): RMultipleStats => {
+  const measured = filteredTrades.filter(trade => rMultiples.has(trade.id));
+  const rOf = (trade: Trade) => rMultiples.get(trade.id)!;
+
+  const winRs = measured.filter(trade => trade.trade_type === 'win').map(rOf);
+  const lossRs = measured.filter(trade => trade.trade_type === 'loss').map(rOf);
+  const totalR = measured.reduce((sum, trade) => sum + rOf(trade), 0);
+  const average = (values: number[]) => values.length > 0 ? values.reduce((sum, r) => sum + r, 0) / values.length : 0;
+
+  // Half-R buckets; everything outside the range lands in the first or last bucket
+  const distribution: RDistributionBucket[] = [];
+  for (let from = R_BUCKET_MIN; from < R_BUCKET_MAX; from += R_BUCKET_SIZE) {
+    const to = from + R_BUCKET_SIZE;
+    const isFirst = from === R_BUCKET_MIN;
+    const isLast = to === R_BUCKET_MAX;
+    distribution.push({
+      from,
+      to,
+      label: isFirst ? `< ${to}R` : isLast ? `≥ ${from}R` : `${from}R`,
+      range: isFirst ? `below ${to}R` : isLast ? `${from}R and above` : `${from}R to ${to}R`,
+      count: 0,
+      trades: []
+    });
+  }
+  measured.forEach(trade => {
+    const index = Math.min(
+      Math.max(Math.floor((rOf(trade) - R_BUCKET_MIN) / R_BUCKET_SIZE), 0),
+      distribution.length - 1
+    );
+    distribution[index].count++;
+    distribution[index].trades.push(trade);
+  });
+
+  return {
+    measuredTrades: measured.length,
+    totalR,
+    expectancy: average(measured.map(rOf)),
+    averageWinR: average(winRs),
+    averageLossR: average(lossRs),
+    bestWinR: winRs.length > 0 ? Math.max(...winRs) : null,
+    worstLossR: lossRs.length > 0 ? Math.min(...lossRs) : null,
+    distribution
+  };
+};
+
+// Re-express daily chart data in R: pnl becomes the day's R and cumulativePnL the cumulative R curve
+export const calculateRChartData = (
+  chartData: ChartDataPoint[],
+  rMultiples: Map<string, number>
+): ChartDataPoint[] => {
+  let cumulativeR = 0;
+  return chartData.map(point => {
+    const dailyR = point.trades.reduce((sum, trade) => sum + (rMultiples.get(trade.id) ?? 0), 0);
+    const previousR = cumulativeR;
+    cumulativeR += dailyR;
+
+    return {
+      ...point,
+      pnl: dailyR,
+      cumulativePnL: cumulativeR,
+      dailyChange: dailyR,
+      isIncreasing: cumulativeR > previousR,
+      isDecreasing: cumulativeR < previousR,
+      isWin: dailyR > 0,
+      isLoss: dailyR < 0,
+      isBreakEven: dailyR === 0
+    };
+  });
+};
@@ -0,0 +1,64 @@
+/**
+ * Pre-trade checklist utilities
+ */
+
+import { Calendar, Trade } from '../types/dualWrite';
+import { ChecklistAdherence, ChecklistTemplate, TradeChecklistItem } from '../types/checklist';
+
+export const isChecklistActive = (
+  template: ChecklistTemplate | null | undefined
+): template is ChecklistTemplate => !!template?.enabled && template.items.length > 0;
+
+export const getCalendarChecklist = (calendar?: Pick<Calendar, 'checklist_template'> | null): ChecklistTemplate | null =>
+  isChecklistActive(calendar?.checklist_template) ? calendar!.checklist_template! : null;
+
+/**
+ * Checklist to show in the trade form.
+ * Answers already recorded on the trade are kept, also for items since removed
+ * from the template; new template items start unticked.
+ */
+export const createTradeChecklist = (
+  template: ChecklistTemplate | null,
+  recorded: TradeChecklistItem[] = []
+): TradeChecklistItem[] => {
+  const recordedById = new Map<string, TradeChecklistItem>();
+  recorded.forEach(item => recordedById.set(item.id, item));
+
+  const fromTemplate: TradeChecklistItem[] = (template?.items || []).map(item => ({
+    ...item,
+    checked: recordedById.get(item.id)?.checked ?? false
+  }));
+  const templateIds = new Set(fromTemplate.map(item => item.id));
+
+  return [...fromTemplate, ...recorded.filter(item => !templateIds.has(item.id))];
+};
+
+export const getMissingMandatoryItems = (checklist: TradeChecklistItem[] = []): TradeChecklistItem[] =>
+  checklist.filter(item => item.mandatory && !item.checked);
+
+/**
+ * How closely trades followed their checklists, or null when none recorded one
+ */
+export const calculateChecklistAdherence = (trades: Trade[]): ChecklistAdherence | null => {
+  const checklistTrades = trades.filter(trade => trade.checklist && trade.checklist.length > 0);
+  if (checklistTrades.length === 0) return null;
+
+  let totalItems = 0;
+  let checkedItems = 0;
+  let compliantTrades = 0;
+
+  checklistTrades.forEach(trade => {
+    const checklist = trade.checklist!;
+    totalItems += checklist.length;
+    checkedItems += checklist.filter(item => item.checked).length;
+    if (getMissingMandatoryItems(checklist).length === 0) {
+      compliantTrades++;
+    }
+  });
+
+  return {
+    trades: checklistTrades.length,
+    completion: (checkedItems / totalItems) * 100,
+    mandatoryCompliance: (compliantTrades / checklistTrades.length) * 100
+  };
+};
@@ -52,12 +52,35 @@ const FIELD_PATTERNS: Record<TradeField, string[]> = {
     'trade_name',
     'tradename',
     'title',
+    'description'
+  ],
+  instrument: [
+    'instrument',
     'symbol',
     'ticker',
-    'instrument',
     'asset',
     'pair',
-    'description'
+    'market',
+    'contract'
+  ],
+  direction: [
+    'direction',
+    'side',
+    'long/short',
+    'buy/sell',
+    'market pos'
+  ],
+  position_size: [
+    'size',
+    'position size',
+    'position_size',
+    'lots',
+    'lot size',
+    'volume',
+    'quantity',
+    'qty',
+    'contracts',
+    'shares'
   ],
   entry_price: [
     'entry',
@@ -129,6 +152,29 @@ const FIELD_PATTERNS: Record<TradeField, string[]> = {
     'scale out',
     'partials_out'
   ],
+  commission: [
+    'commission',
+    'commissions',
+    'comm',
+    'commission fee',
+    'brokerage'
+  ],
+  swap: [
+    'swap',
+    'swaps',
+    'rollover',
+    'overnight fee',
+    'financing'
+  ],
+  fees: [
+    'fees',
+    'fee',
+    'exchange fee',
+    'exchange fees',
+    'taxes',
+    'tax',
+    'regulatory fees'
+  ],
   session: [
     'session',
     'trading session',
@@ -265,7 +311,7 @@ export function detectColumnMapping(fileColumns: string[]): ColumnMapping[] {
   const usedFields = new Set<TradeField>();
 
   for (const fileColumn of fileColumns) {
-    const { field, confidence, reason } = findBestFieldMatch(fileColumn);
+    const { field, confidence } = findBestFieldMatch(fileColumn);
 
     // If we found a match and it hasn't been used yet
     if (field && !usedFields.has(field)) {
@@ -388,6 +434,12 @@ export function analyzeColumnData(
       take_profit: ['number'],
       risk_to_reward: ['number'],
       partials_taken: ['boolean'],
+      instrument: ['string'],
+      direction: ['string'],
+      position_size: ['number'],
+      commission: ['number'],
+      swap: ['number'],
+      fees: ['number'],
       session: ['string'],
       notes: ['string'],
       tags: ['string'],
@@ -457,7 +509,7 @@ export function isColumnCompatibleWithField(
   }
 
   // Define expected types for number fields
-  const numberFields: TradeField[] = ['amount', 'entry_price', 'exit_price', 'stop_loss', 'take_profit', 'risk_to_reward'];
+  const numberFields: TradeField[] = ['amount', 'entry_price', 'exit_price', 'stop_loss', 'take_profit', 'risk_to_reward', 'position_size', 'commission', 'swap', 'fees'];
   const dateFields: TradeField[] = ['trade_date'];
   const booleanFields: TradeField[] = ['partials_taken'];
 
@@ -304,6 +304,58 @@ export const calculateTradeAmountAsync = async (
   }
 };
 
+/**
+ * Calculate the R-multiple of every trade: its P&L divided by the amount risked on it.
+ * Trades are walked in date order so the risk amount follows the account value and
+ * dynamic risk threshold at the time of each trade, like the amount calculation does.
+ *
+ * @param trades - Trades to measure (any order)
+ * @param dynamicRiskSettings - Dynamic risk settings
+ * @param startingPnL - Cumulative P&L before the first trade (e.g. from year_stats)
+ * @param getPnL - P&L to express in R (defaults to the net amount)
+ * @returns Map of trade id to R-multiple; trades without a risk amount are left out
+ */
+export const calculateTradeRMultiples = (
+  trades: Trade[],
+  dynamicRiskSettings: DynamicRiskSettings,
+  startingPnL: number = 0,
+  getPnL: (trade: Trade) => number = trade => Number(trade.amount)
+): Map<string, number> => {
+  const rMultiples = new Map<string, number>();
+  if (!dynamicRiskSettings.risk_per_trade || dynamicRiskSettings.account_balance <= 0) {
+    return rMultiples;
+  }
+
+  const dynamicRiskConfigured = !!(dynamicRiskSettings.dynamic_risk_enabled &&
+    dynamicRiskSettings.increased_risk_percentage &&
+    dynamicRiskSettings.profit_threshold_percentage);
+
+  const sortedTrades = [...trades].sort(
+    (a, b) => new Date(a.trade_date).getTime() - new Date(b.trade_date).getTime()
+  );
+
+  let cumulativePnL = startingPnL;
+  sortedTrades.forEach(trade => {
+    let effectiveRisk = dynamicRiskSettings.risk_per_trade!;
+    if (dynamicRiskConfigured) {
+      const profitPercentage = (cumulativePnL / dynamicRiskSettings.account_balance) * 100;
+      if (profitPercentage >= dynamicRiskSettings.profit_threshold_percentage!) {
+        effectiveRisk = dynamicRiskSettings.increased_risk_percentage!;
+      }
+    }
+
+    const riskAmount = calculateRiskAmount(effectiveRisk, dynamicRiskSettings.account_balance, cumulativePnL);
+    if (riskAmount > 0) {
+      rMultiples.set(trade.id, getPnL(trade) / riskAmount);
+    }
+
+    // The account value always moves by the net amount
+    cumulativePnL += Number(trade.amount);
+  });
+
+  return rMultiples;
+};
+
 /**
  * Normalize trade amount to a common risk basis for fair comparison
  */
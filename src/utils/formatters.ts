@@ -1,3 +1,19 @@
+import { ShareAmountUnit } from '../types/sharing';
+
+// Shared calendars with hidden dollar amounts carry amounts in % or R instead
+let amountUnit: ShareAmountUnit = 'currency';
+
+/**
+ * Set the unit formatValue and formatCurrency render amounts in
+ * @param unit 'currency' (default), or the unit of a redacted shared calendar
+ */
+export const setAmountUnit = (unit: ShareAmountUnit): void => {
+  amountUnit = unit;
+};
+
+const formatAmountInUnit = (amount: number): string =>
+  `${amount.toFixed(2)}${amountUnit === 'r' ? 'R' : '%'}`;
+
 /**
  * Format a numeric value as currency
  * @param amount The amount to format
@@ -6,7 +22,10 @@
 export const formatValue = (amount: number | undefined | null): string => {
   // Handle undefined, null, or NaN values
   if (amount === undefined || amount === null || isNaN(amount)) {
-    return '$0.00';
+    return amountUnit === 'currency' ? '$0.00' : formatAmountInUnit(0);
+  }
+  if (amountUnit !== 'currency') {
+    return formatAmountInUnit(amount);
   }
 
   const absAmount = Math.abs(amount);
@@ -24,12 +43,30 @@ export const formatValue = (amount: number | undefined | null): string => {
 export const formatCurrency = (amount: number | undefined | null): string => {
   // Handle undefined, null, or NaN values
   if (amount === undefined || amount === null || isNaN(amount)) {
-    return '$0.00';
+    return amountUnit === 'currency' ? '$0.00' : formatAmountInUnit(0);
+  }
+  if (amountUnit !== 'currency') {
+    return formatAmountInUnit(amount);
   }
 
   return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 };
 
+/**
+ * Format a value as an R-multiple (multiples of the amount risked)
+ * @param value The R value to format
+ * @param decimals Number of decimal places
+ * @returns Formatted R string, e.g. "+1.50R"
+ */
+export const formatRMultiple = (value: number | undefined | null, decimals: number = 2): string => {
+  // Handle undefined, null, or NaN values
+  if (value === undefined || value === null || isNaN(value)) {
+    return '0.00R';
+  }
+
+  return `${value > 0 ? '+' : ''}${value.toFixed(decimals)}R`;
+};
+
 /**
  * Format a percentage value
  * @param value The percentage value to format
@@ -0,0 +1,175 @@
+/**
+ * Import Duplicate Detection
+ * Fingerprints imported rows against a calendar's existing trades so that
+ * re-importing an overlapping broker export does not create the same trades twice
+ */
+
+import { format } from 'date-fns';
+import { Trade } from '../types/dualWrite';
+import {
+  DuplicateResolution,
+  DuplicateSummary,
+  ImportPreviewRow,
+  ImportTradeBatch,
+  ValidationSummary
+} from '../types/import';
+
+/**
+ * Normalize a price so that 1.1 and 1.10000 compare equal
+ */
+const priceKey = (price?: number | null): string => {
+  return price === undefined || price === null || isNaN(price) ? '' : price.toFixed(5);
+};
+
+const dayKey = (date: Date | string | undefined): string => {
+  if (!date) return '';
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? '' : format(parsed, 'yyyy-MM-dd');
+};
+
+const amountKey = (amount?: number): string => {
+  return amount === undefined || isNaN(amount) ? '' : amount.toFixed(2);
+};
+
+/**
+ * Build a fingerprint for a trade from its day, name, amount and entry/exit prices
+ */
+export function getTradeFingerprint(trade: Partial<Trade>): string {
+  return [
+    dayKey(trade.trade_date),
+    (trade.name || '').trim().toLowerCase(),
+    amountKey(trade.amount),
+    priceKey(trade.entry_price),
+    priceKey(trade.exit_price)
+  ].join('|');
+}
+
+/**
+ * Two trades on the same day with the same amount are likely duplicates
+ * unless a name or price that both sides recorded disagrees
+ */
+function isLikelyDuplicate(imported: Partial<Trade>, existing: Trade): boolean {
+  const importedName = (imported.name || '').trim().toLowerCase();
+  const existingName = (existing.name || '').trim().toLowerCase();
+  if (importedName && existingName && importedName !== existingName) return false;
+
+  const pricePairs: Array<[number | undefined, number | undefined]> = [
+    [imported.entry_price, existing.entry_price],
+    [imported.exit_price, existing.exit_price]
+  ];
+  return pricePairs.every(([a, b]) => !priceKey(a) || !priceKey(b) || priceKey(a) === priceKey(b));
+}
+
+/**
+ * Flag preview rows that match an existing trade
+ * Exact fingerprint matches are preferred; each existing trade is matched at most once.
+ * Newly flagged rows default to the given resolution.
+ */
+export function markDuplicateRows(
+  previewRows: ImportPreviewRow[],
+  existingTrades: Trade[],
+  defaultResolution: DuplicateResolution = 'skip'
+): ImportPreviewRow[] {
+  if (existingTrades.length === 0) {
+    return previewRows.map(({ duplicateOf, resolution, ...row }) => row);
+  }
+
+  const byFingerprint = new Map<string, Trade[]>();
+  const byDayAndAmount = new Map<string, Trade[]>();
+  for (const trade of existingTrades) {
+    const fingerprint = getTradeFingerprint(trade);
+    byFingerprint.set(fingerprint, [...(byFingerprint.get(fingerprint) || []), trade]);
+
+    const looseKey = `${dayKey(trade.trade_date)}|${amountKey(trade.amount)}`;
+    byDayAndAmount.set(looseKey, [...(byDayAndAmount.get(looseKey) || []), trade]);
+  }
+
+  const matchedIds = new Set<string>();
+
+  return previewRows.map(row => {
+    const { duplicateOf: previous, resolution: previousResolution, ...baseRow } = row;
+    if (!row.isValid) return baseRow;
+
+    const exact = (byFingerprint.get(getTradeFingerprint(row.mappedData)) || [])
+      .find(trade => !matchedIds.has(trade.id));
+    const looseKey = `${dayKey(row.mappedData.trade_date)}|${amountKey(row.mappedData.amount)}`;
+    const match = exact || (byDayAndAmount.get(looseKey) || [])
+      .find(trade => !matchedIds.has(trade.id) && isLikelyDuplicate(row.mappedData, trade));
+
+    if (!match) return baseRow;
+
+    matchedIds.add(match.id);
+    return {
+      ...baseRow,
+      duplicateOf: match,
+      // Keep a choice the user already made for the same match
+      resolution: previous?.id === match.id && previousResolution ? previousResolution : defaultResolution
+    };
+  });
+}
+
+/**
+ * Count duplicates per resolution
+ */
+export function summarizeDuplicates(previewRows: ImportPreviewRow[]): DuplicateSummary {
+  const summary: DuplicateSummary = { total: 0, skip: 0, overwrite: 0, keepBoth: 0 };
+  for (const row of previewRows) {
+    if (!row.duplicateOf) continue;
+    summary.total++;
+    if (row.resolution === 'overwrite') summary.overwrite++;
+    else if (row.resolution === 'keep_both') summary.keepBoth++;
+    else summary.skip++;
+  }
+  return summary;
+}
+
+/**
+ * Recalculate the validation summary after duplicate resolutions change
+ * Skipped duplicates no longer count towards the rows that will be imported
+ */
+export function applyDuplicateSummary(
+  summary: ValidationSummary,
+  previewRows: ImportPreviewRow[],
+  skipErrorRows: boolean
+): ValidationSummary {
+  const duplicates = summarizeDuplicates(previewRows);
+  const importableRows = skipErrorRows ? summary.validRows : summary.totalRows;
+  return {
+    ...summary,
+    duplicates,
+    willImport: importableRows - duplicates.skip
+  };
+}
+
+/**
+ * Split preview rows into trades to create and existing trades to overwrite
+ */
+export function buildImportBatch(
+  previewRows: ImportPreviewRow[],
+  skipErrorRows: boolean
+): ImportTradeBatch {
+  const batch: ImportTradeBatch = { newTrades: [], overwrittenTrades: [], skippedCount: 0 };
+
+  for (const row of previewRows) {
+    if (!row.isValid && skipErrorRows) continue;
+
+    if (row.duplicateOf && row.resolution !== 'keep_both') {
+      if (row.resolution === 'overwrite') {
+        batch.overwrittenTrades.push({
+          ...row.duplicateOf,
+          ...row.mappedData,
+          id: row.duplicateOf.id,
+          calendar_id: row.duplicateOf.calendar_id,
+          user_id: row.duplicateOf.user_id
+        } as Trade);
+      } else {
+        batch.skippedCount++;
+      }
+      continue;
+    }
+
+    batch.newTrades.push(row.mappedData);
+  }
+
+  return batch;
+}
@@ -12,12 +12,14 @@ import {
   FieldMetadata,
   TradeField,
   TypeConversion,
-  ImportConfig
+  ImportConfig,
+  ParsedBrokerStatement
 } from '../types/import';
 import {
   convertToFieldType,
   validateFieldType,
   parseTradeType,
+  parseDirection,
   ConversionResult
 } from './typeConverters';
 import { formatTagWithCapitalizedGroup } from './tagColors';
@@ -106,6 +108,54 @@ export const TRADE_FIELD_METADATA: Record<TradeField, FieldMetadata> = {
     description: 'Whether partial profits were taken',
     examples: ['true', 'false', 'yes', 'no']
   },
+  instrument: {
+    name: 'instrument',
+    displayName: 'Instrument',
+    type: 'string',
+    required: false,
+    description: 'Traded symbol',
+    examples: ['EURUSD', 'NQ', 'AAPL']
+  },
+  direction: {
+    name: 'direction',
+    displayName: 'Direction',
+    type: 'string',
+    required: false,
+    description: 'Long or short',
+    examples: ['Long', 'Short', 'Buy', 'Sell']
+  },
+  position_size: {
+    name: 'position_size',
+    displayName: 'Position Size',
+    type: 'number',
+    required: false,
+    description: 'Lots, contracts or shares',
+    examples: ['1.00', '0.25', '3']
+  },
+  commission: {
+    name: 'commission',
+    displayName: 'Commission',
+    type: 'number',
+    required: false,
+    description: 'Broker commission, already included in the amount',
+    examples: ['7.00', '-3.50']
+  },
+  swap: {
+    name: 'swap',
+    displayName: 'Swap',
+    type: 'number',
+    required: false,
+    description: 'Overnight swap, already included in the amount (positive = cost, negative = credit)',
+    examples: ['1.20', '-0.85']
+  },
+  fees: {
+    name: 'fees',
+    displayName: 'Fees',
+    type: 'number',
+    required: false,
+    description: 'Other fees (exchange, regulatory, taxes), already included in the amount',
+    examples: ['0.50', '2.10']
+  },
   session: {
     name: 'session',
     displayName: 'Session',
@@ -266,6 +316,14 @@ export function mapRowToTrade(
             url: url.trim(),
             calendar_id: '' // Will be set when trade is saved
           }));
+        } else if (field === 'instrument') {
+          trade.instrument = String(validation.convertedValue).trim().toUpperCase() || undefined;
+        } else if (field === 'position_size') {
+          // Sell-side exports often carry a negative size
+          trade.position_size = Math.abs(validation.convertedValue);
+        } else if (field === 'commission' || field === 'fees') {
+          // Always a cost; brokers usually export these as negative numbers
+          trade[field] = Math.abs(validation.convertedValue);
         } else {
           (trade as any)[field] = validation.convertedValue;
         }
@@ -304,6 +362,30 @@ export function mapRowToTrade(
     }
   }
 
+  // Name trades after their instrument when the file has no name column
+  if (!trade.name && trade.instrument) {
+    trade.name = trade.instrument;
+  }
+
+  // Validate direction if provided
+  if (trade.direction && typeof trade.direction === 'string') {
+    const directionResult = parseDirection(trade.direction);
+    if (directionResult.success) {
+      trade.direction = directionResult.value;
+    } else {
+      warnings.push({
+        row: rowIndex,
+        column: 'direction',
+        field: 'direction',
+        severity: 'warning',
+        message: 'Unrecognised direction, left empty',
+        value: trade.direction,
+        suggestedFix: 'Use "long"/"short" or "buy"/"sell"'
+      });
+      delete trade.direction;
+    }
+  }
+
   // Apply default values
   if (config.defaultValues) {
     for (const [key, value] of Object.entries(config.defaultValues)) {
@@ -439,6 +521,97 @@ export function validateImportData(
   return { previewRows, validationSummary };
 }
 
+/**
+ * Validate trades produced by a broker statement parser
+ * Statement trades are already typed, so only required fields and amounts are checked
+ */
+export function validateStatementTrades(
+  statement: ParsedBrokerStatement,
+  config: ImportConfig
+): {
+  previewRows: ImportPreviewRow[];
+  validationSummary: ValidationSummary;
+} {
+  const previewRows: ImportPreviewRow[] = [];
+  const allErrors: ValidationError[] = [];
+  let validRows = 0;
+  let rowsWithWarnings = 0;
+  let rowsWithErrors = 0;
+
+  statement.trades.forEach((trade, index) => {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationError[] = [];
+
+    if (!trade.trade_date || isNaN(new Date(trade.trade_date).getTime())) {
+      errors.push({
+        row: index,
+        column: 'trade_date',
+        field: 'trade_date',
+        severity: 'error',
+        message: 'Could not read the open/close time for this trade'
+      });
+    }
+
+    if (trade.amount === undefined || isNaN(trade.amount)) {
+      errors.push({
+        row: index,
+        column: 'amount',
+        field: 'amount',
+        severity: 'error',
+        message: 'Could not read the profit for this trade'
+      });
+    }
+
+    if (!trade.name) {
+      warnings.push({
+        row: index,
+        column: 'name',
+        field: 'name',
+        severity: 'warning',
+        message: 'Trade name is empty'
+      });
+    }
+
+    if (!trade.session) {
+      warnings.push({
+        row: index,
+        column: 'session',
+        field: 'session',
+        severity: 'warning',
+        message: 'Open time is outside every trading session'
+      });
+    }
+
+    const isValid = errors.length === 0;
+    if (isValid) validRows++;
+    if (warnings.length > 0) rowsWithWarnings++;
+    if (errors.length > 0) rowsWithErrors++;
+    allErrors.push(...errors);
+
+    previewRows.push({
+      rowIndex: index,
+      data: statement.rows[index] || {},
+      mappedData: trade,
+      errors,
+      warnings,
+      isValid
+    });
+  });
+
+  return {
+    previewRows,
+    validationSummary: {
+      totalRows: statement.trades.length,
+      validRows,
+      rowsWithWarnings,
+      rowsWithErrors,
+      willImport: config.skipErrorRows ? validRows : statement.trades.length,
+      conversions: [],
+      errors: allErrors
+    }
+  };
+}
+
 /**
  * Get field metadata by name
  */
@@ -0,0 +1,140 @@
+/**
+ * Reminder rule utilities
+ * Decide which days a note reminder is due on and when to notify for it.
+ * Dates are evaluated in the browser's time zone.
+ */
+
+import {
+  addDays,
+  differenceInCalendarDays,
+  format,
+  getDaysInMonth,
+  isSameDay,
+  startOfDay
+} from 'date-fns';
+import { DayAbbreviation, Note } from '../types/note';
+import { getSessionTimeRange } from './sessionTimeUtils';
+
+export const DEFAULT_REMINDER_LEAD_MINUTES = 15;
+
+// How far ahead getNextReminderOccurrence looks before giving up
+const MAX_LOOKAHEAD_DAYS = 400;
+
+type ReminderRule = Pick<
+  Note,
+  | 'reminder_type'
+  | 'reminder_date'
+  | 'reminder_days'
+  | 'reminder_month_day'
+  | 'reminder_interval_days'
+  | 'reminder_time'
+  | 'reminder_session'
+  | 'reminder_lead_minutes'
+>;
+
+/**
+ * Key of the day an occurrence belongs to, as stored in note_reminder_occurrences
+ */
+export const getOccurrenceDate = (day: Date): string => format(day, 'yyyy-MM-dd');
+
+/**
+ * Whether the reminder is due on the given day
+ */
+export const isReminderDueOn = (rule: ReminderRule, day: Date): boolean => {
+  switch (rule.reminder_type) {
+    case 'once':
+      return !!rule.reminder_date && isSameDay(rule.reminder_date, day);
+
+    case 'weekly':
+      return !!rule.reminder_days?.includes(format(day, 'EEE') as DayAbbreviation);
+
+    case 'monthly': {
+      if (!rule.reminder_month_day) return false;
+      return day.getDate() === Math.min(rule.reminder_month_day, getDaysInMonth(day));
+    }
+
+    case 'interval': {
+      if (!rule.reminder_date || !rule.reminder_interval_days) return false;
+      const daysSinceStart = differenceInCalendarDays(day, rule.reminder_date);
+      return daysSinceStart >= 0 && daysSinceStart % rule.reminder_interval_days === 0;
+    }
+
+    default:
+      return false;
+  }
+};
+
+/**
+ * When to notify for the occurrence on the given day.
+ * Returns null for all-day reminders, which are only shown in the app.
+ */
+export const getReminderTimeOn = (rule: ReminderRule, day: Date): Date | null => {
+  if (rule.reminder_session) {
+    // Asia opens the evening before its trading day, so this can fall on the previous day
+    const sessionOpen = getSessionTimeRange(rule.reminder_session, startOfDay(day)).start;
+    const leadMinutes = rule.reminder_lead_minutes ?? DEFAULT_REMINDER_LEAD_MINUTES;
+    return new Date(sessionOpen.getTime() - leadMinutes * 60 * 1000);
+  }
+
+  if (rule.reminder_time) {
+    const [hours, minutes] = rule.reminder_time.split(':').map(Number);
+    const time = startOfDay(day);
+    time.setHours(hours, minutes, 0, 0);
+    return time;
+  }
+
+  return null;
+};
+
+/**
+ * Next day the reminder is due on, starting from the day of `from`.
+ * Timed occurrences whose notification time has already passed are skipped.
+ */
+export const getNextReminderOccurrence = (rule: ReminderRule, from: Date = new Date()): Date | null => {
+  const firstDay = startOfDay(from);
+
+  for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+    const day = addDays(firstDay, offset);
+    if (!isReminderDueOn(rule, day)) continue;
+
+    const time = getReminderTimeOn(rule, day);
+    if (!time || time >= from) {
+      return day;
+    }
+  }
+  return null;
+};
+
+const describeTime = (rule: ReminderRule): string => {
+  if (rule.reminder_session) {
+    const leadMinutes = rule.reminder_lead_minutes ?? DEFAULT_REMINDER_LEAD_MINUTES;
+    return leadMinutes > 0
+      ? ` · ${leadMinutes} min before ${rule.reminder_session} open`
+      : ` · at ${rule.reminder_session} open`;
+  }
+  return rule.reminder_time ? ` at ${rule.reminder_time}` : '';
+};
+
+/**
+ * Short human readable description, e.g. "Mon, Wed at 08:30"
+ */
+export const describeReminder = (rule: ReminderRule): string => {
+  const time = describeTime(rule);
+
+  switch (rule.reminder_type) {
+    case 'once':
+      return rule.reminder_date ? `${format(rule.reminder_date, 'MMM d, yyyy')}${time}` : 'Once';
+    case 'weekly':
+      return `${(rule.reminder_days || []).join(', ') || 'Weekly'}${time}`;
+    case 'monthly':
+      return `Monthly on day ${rule.reminder_month_day ?? '?'}${time}`;
+    case 'interval': {
+      const interval = rule.reminder_interval_days ?? 1;
+      const every = interval === 1 ? 'Every day' : `Every ${interval} days`;
+      const start = rule.reminder_date ? ` from ${format(rule.reminder_date, 'MMM d')}` : '';
+      return `${every}${start}${time}`;
+    }
+    default:
+      return '';
+  }
+};
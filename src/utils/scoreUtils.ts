@@ -12,6 +12,8 @@ import {
   DynamicRiskSettings,
   normalizeTradeAmount
 } from './dynamicRiskUtils';
+import { calculateChecklistAdherence } from './checklistUtils';
+import { normalizeSessionName, SessionDefinition } from './sessionTimeUtils';
 
 /**
  * Default scoring settings
@@ -82,6 +84,12 @@ export const calculateRecommendedScore = (settings: ScoreSettings): number => {
 
 
 
+/**
+ * The calendar session of a trade, so legacy or differently cased names count as the same session
+ */
+const getTradeSession = (trade: Trade, sessions?: SessionDefinition[]): string | undefined =>
+  trade.session ? normalizeSessionName(trade.session, sessions) : undefined;
+
 /**
  * Calculate trading pattern from historical trades
  */
@@ -90,7 +98,8 @@ export const calculateTradingPattern = (
   trades: Trade[],
   lookbackDays: number = 30,
   selectedTags?: string[],
-  dynamicRiskSettings?: DynamicRiskSettings
+  dynamicRiskSettings?: DynamicRiskSettings,
+  sessions?: SessionDefinition[]
 ): TradingPattern => {
   if (trades.length === 0) {
     return {
@@ -112,8 +121,9 @@ export const calculateTradingPattern = (
 
   // Calculate session preferences
   const sessionCounts = recentTrades.reduce((acc, trade) => {
-    if (trade.session) {
-      acc[trade.session] = (acc[trade.session] || 0) + 1;
+    const session = getTradeSession(trade, sessions);
+    if (session) {
+      acc[session] = (acc[session] || 0) + 1;
     }
     return acc;
   }, {} as Record<string, number>); 
@@ -226,7 +236,8 @@ export const calculateConsistencyScore = (
   pattern: TradingPattern,
   settings: ScoreSettings,
   allTrades?: Trade[],
-  dynamicRiskSettings?: DynamicRiskSettings
+  dynamicRiskSettings?: DynamicRiskSettings,
+  sessions?: SessionDefinition[]
 ): { score: number; factors: any } => {
   if (trades.length < settings.thresholds.minTradesForScore) {
     return {
@@ -243,7 +254,7 @@ export const calculateConsistencyScore = (
   // Session consistency
   const sessionTrades = trades.filter(trade => trade.session);
   const sessionConsistency = sessionTrades.length > 0 && pattern.preferredSessions.length > 0
-    ? (sessionTrades.filter(trade => pattern.preferredSessions.includes(trade.session!)).length / sessionTrades.length) * 100
+    ? (sessionTrades.filter(trade => pattern.preferredSessions.includes(getTradeSession(trade, sessions)!)).length / sessionTrades.length) * 100
     : 50;
 
   // Tag consistency
@@ -490,14 +501,17 @@ export const calculatePerformanceScore = (
 
 /**
  * Calculate discipline score based on trading behavior
+ * When trades recorded a pre-trade checklist, plan adherence and rule following
+ * come from the checklist answers instead of session, tag and data-entry heuristics
  */
 export const calculateDisciplineScore = (
   trades: Trade[],
   pattern: TradingPattern,
   settings: ScoreSettings,
   allTrades?: Trade[],
-  dynamicRiskSettings?: DynamicRiskSettings
-): { score: number; factors: any } => {
+  dynamicRiskSettings?: DynamicRiskSettings,
+  sessions?: SessionDefinition[]
+): { score: number; factors: any; checklistBased: boolean } => {
   if (trades.length < settings.thresholds.minTradesForScore) {
     return {
       score: 0,
@@ -506,15 +520,18 @@ export const calculateDisciplineScore = (
         emotionalControl: 0,
         overtrading: 0,
         ruleFollowing: 0
-      }
+      },
+      checklistBased: false
     };
   }
 
+  const checklistAdherence = calculateChecklistAdherence(trades);
+
   // Trading plan adherence (based on session and tag consistency)
   const sessionTrades = trades.filter(trade => trade.session);
   const sessionAdherence = sessionTrades.length > 0 && pattern.preferredSessions.length > 0
     ? (trades.filter(trade =>
-        trade.session && pattern.preferredSessions.includes(trade.session)
+        trade.session && pattern.preferredSessions.includes(getTradeSession(trade, sessions)!)
       ).length / sessionTrades.length) * 100
     : 50;
 
@@ -525,7 +542,9 @@ export const calculateDisciplineScore = (
       ).length / tagTrades.length) * 100
     : 50;
 
-  const tradingPlanAdherence = (sessionAdherence + tagAdherence) / 2;
+  const tradingPlanAdherence = checklistAdherence
+    ? checklistAdherence.mandatoryCompliance
+    : (sessionAdherence + tagAdherence) / 2;
 
   // Emotional control (based on trade size consistency and revenge trading patterns, normalized for dynamic risk)
   const tradeSizes = dynamicRiskSettings && allTrades
@@ -550,15 +569,17 @@ export const calculateDisciplineScore = (
     ? 100
     : Math.max(0, 100 - ((frequencyRatio - 1.5) * 50));
 
-  // Rule following (based on having required fields filled)
-  const rulesFollowed = trades.length > 0
-    ? (trades.filter(trade =>
-        trade.session &&
-        trade.tags &&
-        trade.tags.length > 0 &&
-        (trade.risk_to_reward || trade.trade_type === 'breakeven')
-      ).length / trades.length) * 100
-    : 0;
+  // Rule following (based on ticked checklist items, or having required fields filled)
+  const rulesFollowed = checklistAdherence
+    ? checklistAdherence.completion
+    : trades.length > 0
+      ? (trades.filter(trade =>
+          trade.session &&
+          trade.tags &&
+          trade.tags.length > 0 &&
+          (trade.risk_to_reward || trade.trade_type === 'breakeven')
+        ).length / trades.length) * 100
+      : 0;
 
   const factors = {
     tradingPlanAdherence: isNaN(tradingPlanAdherence) ? 50 : tradingPlanAdherence,
@@ -569,7 +590,7 @@ export const calculateDisciplineScore = (
 
   const score = (factors.tradingPlanAdherence + factors.emotionalControl + factors.overtrading + factors.ruleFollowing) / 4;
 
-  return { score: isNaN(score) ? 0 : score, factors };
+  return { score: isNaN(score) ? 0 : score, factors, checklistBased: !!checklistAdherence };
 };
 
 /**
@@ -632,6 +653,11 @@ export const generateRecommendations = (
       recommendations.push("Work on emotional control and position sizing");
       weaknesses.push("Emotional trading patterns");
     }
+    // Plan adherence only reflects the checklist when trades recorded one
+    if (breakdown.discipline.checklistBased && breakdown.discipline.factors.tradingPlanAdherence < 70) {
+      recommendations.push("Only take trades that pass your pre-trade checklist");
+      weaknesses.push("Trading outside the plan");
+    }
   } else {
     strengths.push("Good trading discipline");
   }
@@ -1,199 +1,222 @@
 /**
- * Session time utilities with daylight saving time support
- * Provides consistent session time calculations across the application
+ * Session time utilities with time zone support
+ * Sessions are defined in local time of an IANA time zone, so daylight saving
+ * time follows the rules of each zone. Calendars can define their own sessions;
+ * the default sessions are used when they don't
  */
 
-export type TradingSession = 'Asia' | 'London' | 'NY AM' | 'NY PM';
+import type { Calendar } from '../types/calendar';
+
+export type DefaultTradingSession = 'Asia' | 'London' | 'NY AM' | 'NY PM';
+// Name of one of the calendar's sessions (the defaults unless the calendar defines its own)
+export type TradingSession = string;
 export type LegacySession = 'london' | 'new-york' | 'tokyo' | 'sydney';
 
+export interface SessionDefinition {
+  name: string;
+  start: string; // "HH:mm" local time
+  end: string; // "HH:mm" local time, before start when the session runs past midnight
+  time_zone: string; // IANA time zone, e.g. "Europe/London"
+}
+
 export interface SessionTimeRange {
   start: Date;
   end: Date;
 }
 
-/**
- * Determine if a given date falls within daylight saving time
- * Uses actual DST transition rules for better accuracy
- * Supports both EU/UK and US DST rules
- */
-export function isDaylightSavingTime(date: Date, region: 'EU' | 'US' = 'EU'): boolean {
-  const year = date.getFullYear();
-  const month = date.getMonth();
-  const day = date.getDate();
+export const DEFAULT_TRADING_SESSIONS: SessionDefinition[] = [
+  // Timed against the London open (Tokyo doesn't observe DST)
+  { name: 'Asia', start: '23:00', end: '08:00', time_zone: 'Europe/London' },
+  { name: 'London', start: '08:00', end: '13:00', time_zone: 'Europe/London' },
+  { name: 'NY AM', start: '08:00', end: '13:00', time_zone: 'America/New_York' },
+  { name: 'NY PM', start: '13:00', end: '17:00', time_zone: 'America/New_York' }
+];
 
-  if (region === 'EU') {
-    // EU/UK DST: Last Sunday in March to last Sunday in October
+// Time zones offered in the session editor; any other IANA zone can be typed in
+export const COMMON_TIME_ZONES = [
+  'UTC',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Zurich',
+  'America/New_York',
+  'America/Chicago',
+  'America/Los_Angeles',
+  'Asia/Tokyo',
+  'Asia/Hong_Kong',
+  'Asia/Singapore',
+  'Asia/Dubai',
+  'Australia/Sydney',
+  'Pacific/Auckland'
+];
 
-    // Before March or after October - definitely not DST
-    if (month < 2 || month > 9) {
-      return false;
-    }
+const MINUTES_PER_DAY = 24 * 60;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
 
-    // April through September - definitely DST
-    if (month > 2 && month < 9) {
-      return true;
-    }
+const LEGACY_SESSION_NAMES: Record<LegacySession, DefaultTradingSession> = {
+  'london': 'London',
+  'new-york': 'NY AM', // Default to NY AM for legacy new-york
+  'tokyo': 'Asia',
+  'sydney': 'Asia'
+};
 
-    // March - check if on or after last Sunday
-    if (month === 2) {
-      const lastSunday = getLastSundayOfMonth(year, 2); // March is month 2
-      return day >= lastSunday;
-    }
-
-    // October - check if before last Sunday
-    if (month === 9) {
-      const lastSunday = getLastSundayOfMonth(year, 9); // October is month 9
-      return day < lastSunday;
-    }
-  } else {
-    // US DST: Second Sunday in March to first Sunday in November
+/**
+ * The calendar's sessions, or the default sessions when it has none
+ */
+export const getCalendarSessions = (calendar?: Pick<Calendar, 'trading_sessions'> | null): SessionDefinition[] =>
+  calendar?.trading_sessions && calendar.trading_sessions.length > 0
+    ? calendar.trading_sessions
+    : DEFAULT_TRADING_SESSIONS;
 
-    // Before March or after November - definitely not DST
-    if (month < 2 || month > 10) {
-      return false;
-    }
+/**
+ * Check whether a time zone name is supported by the browser
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
 
-    // April through October - definitely DST
-    if (month > 2 && month < 10) {
-      return true;
-    }
+/**
+ * Parse "HH:mm" into minutes after midnight, null when invalid
+ */
+export function parseSessionTime(time: string): number | null {
+  const match = TIME_PATTERN.exec(time);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
 
-    // March - check if on or after second Sunday
-    if (month === 2) {
-      const secondSunday = getNthSundayOfMonth(year, 2, 2); // Second Sunday of March
-      return day >= secondSunday;
-    }
+const formatters: Record<string, Intl.DateTimeFormat> = {};
 
-    // November - check if before first Sunday
-    if (month === 10) {
-      const firstSunday = getNthSundayOfMonth(year, 10, 1); // First Sunday of November
-      return day < firstSunday;
-    }
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  if (!formatters[timeZone]) {
+    formatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour12: false,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
   }
+  return formatters[timeZone];
+};
+
+/**
+ * Offset of a time zone from UTC at the given instant, in minutes (e.g. 60 for BST)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const values: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') values[part.type] = Number(part.value);
+  });
 
-  return false;
+  // Some engines format midnight as hour 24
+  const localAsUtc = Date.UTC(values.year, values.month - 1, values.day, values.hour % 24, values.minute, values.second);
+  const utc = date.getTime() - date.getMilliseconds();
+  return Math.round((localAsUtc - utc) / 60000);
 }
 
 /**
- * Get the last Sunday of a given month
+ * The UTC instant of a local time in a time zone
+ * Times skipped by a DST change resolve to the same wall time after the change
  */
-function getLastSundayOfMonth(year: number, month: number): number {
-  const lastDay = new Date(year, month + 1, 0); // Last day of the month
-  const lastSunday = new Date(lastDay);
-  lastSunday.setDate(lastDay.getDate() - lastDay.getDay());
-  return lastSunday.getDate();
+function zonedTimeToUtc(year: number, month: number, day: number, minutes: number, timeZone: string): Date {
+  const localAsUtc = Date.UTC(year, month, day, 0, minutes);
+  const firstGuess = localAsUtc - getTimeZoneOffset(new Date(localAsUtc), timeZone) * 60000;
+  const offset = getTimeZoneOffset(new Date(firstGuess), timeZone);
+  return new Date(localAsUtc - offset * 60000);
 }
 
 /**
- * Get the nth Sunday of a given month (1-based)
+ * Find a session by name (case-insensitive), mapping legacy names to the default sessions
+ * The calendar's own session names win over legacy names (e.g. a custom "Sydney" session)
  */
-function getNthSundayOfMonth(year: number, month: number, n: number): number {
-  const firstDay = new Date(year, month, 1);
-  const firstSunday = new Date(firstDay);
-
-  // Find first Sunday
-  const daysToFirstSunday = (7 - firstDay.getDay()) % 7;
-  firstSunday.setDate(1 + daysToFirstSunday);
-
-  // Add (n-1) weeks to get nth Sunday
-  const nthSunday = new Date(firstSunday);
-  nthSunday.setDate(firstSunday.getDate() + (n - 1) * 7);
-
-  return nthSunday.getDate();
+export function findSessionDefinition(
+  session: string,
+  sessions: SessionDefinition[] = DEFAULT_TRADING_SESSIONS
+): SessionDefinition | undefined {
+  const find = (name: string) => sessions.find(definition => definition.name.toLowerCase() === name.toLowerCase());
+  const legacyName = LEGACY_SESSION_NAMES[session as LegacySession];
+  return find(session) || (legacyName ? find(legacyName) : undefined);
 }
 
 /**
  * Get session time range in UTC for a given date and session
- * Accounts for daylight saving time adjustments
+ * Sessions that run past midnight start on the day before the trade date
  */
-export function getSessionTimeRange(session: TradingSession | LegacySession, tradeDate: Date): SessionTimeRange {
+export function getSessionTimeRange(
+  session: TradingSession | LegacySession,
+  tradeDate: Date,
+  sessions: SessionDefinition[] = DEFAULT_TRADING_SESSIONS
+): SessionTimeRange {
   const year = tradeDate.getFullYear();
   const month = tradeDate.getMonth();
   const day = tradeDate.getDate();
 
-  // Normalize session names
-  const normalizedSession = normalizeSessionName(session);
-
-  // Use appropriate DST rules based on session location
-  // - London/Asia: EU DST rules (UK follows EU timing)
-  // - NY AM/PM: US DST rules
-  const isEuDST = isDaylightSavingTime(tradeDate, 'EU');
-  const isUsDST = isDaylightSavingTime(tradeDate, 'US');
-
-  let startHour: number, endHour: number;
-
-  switch (normalizedSession) {
-    case 'London':
-      // London session uses EU/UK DST
-      // 8:00 AM London local time -> UTC offset depends on BST/GMT
-      startHour = isEuDST ? 7 : 8;   // 8:00 AM BST = 7:00 UTC / 8:00 AM GMT = 8:00 UTC
-      endHour = isEuDST ? 12 : 13;   // 1:00 PM BST = 12:00 UTC / 1:00 PM GMT = 13:00 UTC
-      break;
-    case 'NY AM':
-      // NY session uses US DST
-      // 8:00 AM NY local time -> UTC offset depends on EDT/EST
-      startHour = isUsDST ? 12 : 13; // 8:00 AM EDT = 12:00 UTC / 8:00 AM EST = 13:00 UTC
-      endHour = isUsDST ? 17 : 18;   // 1:00 PM EDT = 17:00 UTC / 1:00 PM EST = 18:00 UTC
-      break;
-    case 'NY PM':
-      // NY session uses US DST
-      startHour = isUsDST ? 17 : 18; // 1:00 PM EDT = 17:00 UTC / 1:00 PM EST = 18:00 UTC
-      endHour = isUsDST ? 21 : 22;   // 5:00 PM EDT = 21:00 UTC / 5:00 PM EST = 22:00 UTC
-      break;
-    case 'Asia':
-      // Asia session timing relative to London open (Tokyo doesn't observe DST)
-      // Adjusted based on EU DST for market overlap consistency
-      const asiaStartHour = isEuDST ? 22 : 23; // Previous day UTC
-      const asiaEndHour = isEuDST ? 7 : 8;     // Trade day UTC
-
-      // Start time is on the previous day - use Date.UTC for proper UTC dates
-      const startDate = new Date(Date.UTC(year, month, day - 1, asiaStartHour, 0, 0));
-      const endDate = new Date(Date.UTC(year, month, day, asiaEndHour, 0, 0));
-      return { start: startDate, end: endDate };
-    default:
-      // Default to full day range if session is unknown
-      startHour = 0;
-      endHour = 23;
+  const definition = findSessionDefinition(session, sessions);
+  const startMinutes = definition ? parseSessionTime(definition.start) : null;
+  const endMinutes = definition ? parseSessionTime(definition.end) : null;
+
+  if (!definition || startMinutes === null || endMinutes === null || !isValidTimeZone(definition.time_zone)) {
+    // Default to full day range if session is unknown
+    return {
+      start: new Date(Date.UTC(year, month, day, 0, 0, 0)),
+      end: new Date(Date.UTC(year, month, day, 23, 59, 59))
+    };
   }
 
-  // Use Date.UTC to create proper UTC dates (session hours are defined in UTC)
-  const start = new Date(Date.UTC(year, month, day, startHour, 0, 0));
-  const end = new Date(Date.UTC(year, month, day, endHour, 59, 59));
+  const spansMidnight = endMinutes <= startMinutes;
+  return {
+    start: zonedTimeToUtc(year, month, spansMidnight ? day - 1 : day, startMinutes, definition.time_zone),
+    end: zonedTimeToUtc(year, month, day, endMinutes, definition.time_zone)
+  };
+}
 
-  return { start, end };
+/**
+ * Normalize a session name to the matching session's name
+ * Unknown names are returned as they are
+ */
+export function normalizeSessionName(
+  session: TradingSession | LegacySession,
+  sessions: SessionDefinition[] = DEFAULT_TRADING_SESSIONS
+): TradingSession {
+  return findSessionDefinition(session, sessions)?.name || session;
 }
 
 /**
- * Normalize legacy session names to current session names
+ * The range of a session that contains a time, checking the time's day and the
+ * next one (sessions that run past midnight belong to the day they end on)
  */
-export function normalizeSessionName(session: TradingSession | LegacySession): TradingSession {
-  const sessionMappings: { [key: string]: TradingSession } = {
-    'london': 'London',
-    'new-york': 'NY AM', // Default to NY AM for legacy new-york
-    'tokyo': 'Asia',
-    'sydney': 'Asia',
-    'Asia': 'Asia',
-    'London': 'London',
-    'NY AM': 'NY AM',
-    'NY PM': 'NY PM'
-  };
-  
-  return sessionMappings[session] || 'London'; // Default fallback
+function getContainingRange(
+  time: Date,
+  session: SessionDefinition,
+  sessions: SessionDefinition[]
+): SessionTimeRange | undefined {
+  const nextDay = new Date(time.getTime() + MINUTES_PER_DAY * 60000);
+  for (const day of [time, nextDay]) {
+    const range = getSessionTimeRange(session.name, day, sessions);
+    if (time >= range.start && time < range.end) {
+      return range;
+    }
+  }
+  return undefined;
 }
 
 /**
  * Check if a trade time falls within a specific session
- * Uses DST-aware session time ranges
  */
-export function isTradeInSession(tradeDate: Date, session: TradingSession | LegacySession): boolean {
-  const sessionRange = getSessionTimeRange(session, tradeDate);
-  
-  // Handle Asia session that spans midnight
-  if (normalizeSessionName(session) === 'Asia') {
-    return tradeDate >= sessionRange.start || tradeDate <= sessionRange.end;
-  }
-  
-  return tradeDate >= sessionRange.start && tradeDate <= sessionRange.end;
+export function isTradeInSession(
+  tradeDate: Date,
+  session: TradingSession | LegacySession,
+  sessions: SessionDefinition[] = DEFAULT_TRADING_SESSIONS
+): boolean {
+  const definition = findSessionDefinition(session, sessions);
+  return !!definition && !!getContainingRange(tradeDate, definition, sessions);
 }
 
 /**
@@ -211,6 +234,58 @@ export function getSessionMappings(session: string): string[] {
     'NY AM': ['NY AM'],
     'NY PM': ['NY PM']
   };
-  
+
   return sessionMappings[session] || [];
 }
+
+/**
+ * Infer the trading session a timestamp falls into
+ * When sessions overlap (e.g. a "London-NY overlap" window) the shortest one wins
+ * Returns undefined for times outside every session window
+ */
+export function getSessionForTime(
+  time: Date,
+  sessions: SessionDefinition[] = DEFAULT_TRADING_SESSIONS
+): TradingSession | undefined {
+  let match: { name: string; duration: number } | undefined;
+
+  sessions.forEach(session => {
+    const range = getContainingRange(time, session, sessions);
+    if (!range) return;
+    const duration = range.end.getTime() - range.start.getTime();
+    if (!match || duration < match.duration) {
+      match = { name: session.name, duration };
+    }
+  });
+
+  return match?.name;
+}
+
+/**
+ * Session hours for display, e.g. "08:00-13:00 Europe/London"
+ */
+export function formatSessionHours(session: SessionDefinition): string {
+  return `${session.start}-${session.end} ${session.time_zone}`;
+}
+
+/**
+ * Check a list of session definitions before it is saved
+ * @returns An error message, or null when the sessions are valid
+ */
+export function validateSessionDefinitions(sessions: SessionDefinition[]): string | null {
+  const names: string[] = [];
+  for (let index = 0; index < sessions.length; index++) {
+    const session = sessions[index];
+    const name = session.name.trim();
+    if (!name) return `Session ${index + 1} needs a name`;
+    if (names.includes(name.toLowerCase())) return `There are two sessions named "${name}"`;
+    names.push(name.toLowerCase());
+
+    if (parseSessionTime(session.start) === null || parseSessionTime(session.end) === null) {
+      return `Enter start and end times for ${name} as HH:mm`;
+    }
+    if (session.start === session.end) return `${name} starts and ends at the same time`;
+    if (!isValidTimeZone(session.time_zone)) return `Unknown time zone for ${name}: ${session.time_zone}`;
+  }
+  return null;
+}
@@ -5,13 +5,56 @@ import {
   DayStatus
 } from '../components/StyledComponents'; 
 
+/**
+ * Which P&L to report: net (amount, after costs) or gross (before costs)
+ */
+export type PnLMode = 'net' | 'gross';
+
+/**
+ * Total trading costs for a trade (commission + swap + fees)
+ * @param trade Trade
+ * @returns Costs as a positive number (negative when credits outweigh costs)
+ */
+export const getTradeCosts = (trade: Pick<Trade, 'commission' | 'swap' | 'fees'>): number => {
+  return (trade.commission ?? 0) + (trade.swap ?? 0) + (trade.fees ?? 0);
+};
+
+/**
+ * P&L of a trade in the requested mode
+ * @param trade Trade
+ * @param mode 'net' returns amount as stored, 'gross' adds the costs back
+ * @returns Trade P&L
+ */
+export const getTradeAmount = (trade: Trade, mode: PnLMode = 'net'): number => {
+  return mode === 'gross' ? trade.amount + getTradeCosts(trade) : trade.amount;
+};
+
+/**
+ * Sum trading costs for a set of trades
+ * @param trades Array of trades
+ * @returns Cost breakdown and total
+ */
+export const calculateTotalCosts = (trades: Trade[]): {
+  commission: number;
+  swap: number;
+  fees: number;
+  total: number;
+} => {
+  const commission = trades.reduce((sum, trade) => sum + (trade.commission ?? 0), 0);
+  const swap = trades.reduce((sum, trade) => sum + (trade.swap ?? 0), 0);
+  const fees = trades.reduce((sum, trade) => sum + (trade.fees ?? 0), 0);
+
+  return { commission, swap, fees, total: commission + swap + fees };
+};
+
 /**
  * Calculate total PnL for a set of trades
  * @param trades Array of trades
+ * @param mode Net (default) or gross of costs
  * @returns Total PnL
  */
-export const calculateTotalPnL = (trades: Trade[]): number => {
-  return trades.reduce((sum, trade) => sum + trade.amount, 0);
+export const calculateTotalPnL = (trades: Trade[], mode: PnLMode = 'net'): number => {
+  return trades.reduce((sum, trade) => sum + getTradeAmount(trade, mode), 0);
 };
 
 /**
@@ -35,16 +78,17 @@ export const calculateWinRate = (trades: Trade[]): number => {
 /**
  * Calculate profit factor for a set of trades
  * @param trades Array of trades
+ * @param mode Net (default) or gross of costs
  * @returns Profit factor (gross profit / gross loss)
  */
-export const calculateProfitFactor = (trades: Trade[]): number => {
+export const calculateProfitFactor = (trades: Trade[], mode: PnLMode = 'net'): number => {
   const grossProfit = trades
-    .filter(trade => trade.amount > 0)
-    .reduce((sum, trade) => sum + trade.amount, 0);
+    .filter(trade => getTradeAmount(trade, mode) > 0)
+    .reduce((sum, trade) => sum + getTradeAmount(trade, mode), 0);
 
   const grossLoss = Math.abs(trades
-    .filter(trade => trade.amount < 0 || trade.trade_type === 'loss')
-    .reduce((sum, trade) => sum + trade.amount, 0));
+    .filter(trade => getTradeAmount(trade, mode) < 0 || trade.trade_type === 'loss')
+    .reduce((sum, trade) => sum + getTradeAmount(trade, mode), 0));
      
   // If no losses, return a high but reasonable number instead of 999
   // This represents an excellent profit factor without looking like an error
@@ -276,9 +320,10 @@ export const filterTradesByTags = (
 /**
  * Calculate average win and loss amounts
  * @param trades Array of trades
+ * @param mode Net (default) or gross of costs
  * @returns Object with average win and loss
  */
-export const calculateAverages = (trades: Trade[]): {
+export const calculateAverages = (trades: Trade[], mode: PnLMode = 'net'): {
   avg_win: number;
   avg_loss: number;
 } => {
@@ -286,11 +331,11 @@ export const calculateAverages = (trades: Trade[]): {
   const lossTrades = trades.filter(trade => trade.trade_type === 'loss');
 
   const avgWin = winTrades.length
-    ? winTrades.reduce((sum, trade) => sum + trade.amount, 0) / winTrades.length
+    ? winTrades.reduce((sum, trade) => sum + getTradeAmount(trade, mode), 0) / winTrades.length
     : 0;
 
   const avgLoss = lossTrades.length
-    ? Math.abs(lossTrades.reduce((sum, trade) => sum + trade.amount, 0)) / lossTrades.length
+    ? Math.abs(lossTrades.reduce((sum, trade) => sum + getTradeAmount(trade, mode), 0)) / lossTrades.length
     : 0;
 
   return { avg_win: avgWin, avg_loss: avgLoss };
@@ -0,0 +1,129 @@
+/**
+ * Trade Action Utilities
+ * Apply and describe trade changes proposed by the AI agent. Follows the rules of
+ * the edge function's tradeActions.ts so the saved change matches the action card
+ */
+
+import { Trade, TradeImageEntity } from '../types/trade';
+import { AIFillableTradeField, AINewTrade, AITradeChanges } from '../types/aiChat';
+
+const NUMERIC_FIELDS: AIFillableTradeField[] = ['entry_price', 'exit_price', 'stop_loss', 'take_profit', 'risk_to_reward'];
+
+export const FILLABLE_FIELD_LABELS: Record<AIFillableTradeField, string> = {
+  name: 'Name',
+  instrument: 'Instrument',
+  direction: 'Direction',
+  entry_price: 'Entry',
+  exit_price: 'Exit',
+  stop_loss: 'Stop loss',
+  take_profit: 'Take profit',
+  risk_to_reward: 'R:R',
+  notes: 'Notes'
+};
+
+type FieldValues = Partial<Record<AIFillableTradeField, string | number>>;
+
+const isEmpty = (value: unknown): boolean =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+/**
+ * Convert agent field values to the trade's field types
+ */
+const toTradeFields = (fields: FieldValues): Partial<Trade> => {
+  const tradeFields: Partial<Trade> = {};
+  (Object.keys(fields) as AIFillableTradeField[]).forEach(field => {
+    const value = fields[field];
+    if (isEmpty(value)) return;
+
+    if (NUMERIC_FIELDS.includes(field)) {
+      const number = Number(value);
+      if (Number.isFinite(number)) {
+        (tradeFields as Record<string, unknown>)[field] = number;
+      }
+    } else if (field === 'direction') {
+      tradeFields.direction = value === 'short' ? 'short' : 'long';
+    } else {
+      (tradeFields as Record<string, unknown>)[field] = String(value);
+    }
+  });
+  return tradeFields;
+};
+
+/**
+ * The trade with the changes applied, or null when nothing would change
+ * Tags are added and removed, fill_fields only sets fields that are empty
+ */
+export const applyTradeChanges = (trade: Trade, changes: AITradeChanges): Trade | null => {
+  const updated: Trade = { ...trade };
+  let changed = false;
+
+  const currentTags = trade.tags || [];
+  const tags = currentTags
+    .filter(tag => !changes.remove_tags?.includes(tag))
+    .concat((changes.add_tags || []).filter(tag => !currentTags.includes(tag)));
+  if (tags.length !== currentTags.length || tags.some((tag, index) => tag !== currentTags[index])) {
+    updated.tags = tags;
+    changed = true;
+  }
+
+  if (changes.session && trade.session !== changes.session) {
+    updated.session = changes.session;
+    changed = true;
+  }
+
+  if (changes.is_pinned !== undefined && !!trade.is_pinned !== changes.is_pinned) {
+    updated.is_pinned = changes.is_pinned;
+    changed = true;
+  }
+
+  const fillFields = toTradeFields(changes.fill_fields || {});
+  (Object.keys(fillFields) as Array<keyof Trade>).forEach(field => {
+    if (isEmpty(trade[field])) {
+      (updated as unknown as Record<string, unknown>)[field] = fillFields[field];
+      changed = true;
+    }
+  });
+
+  return changed ? updated : null;
+};
+
+/**
+ * New trade from a proposal, ready for calendarService.addTrade
+ */
+export const buildProposedTrade = (
+  calendarId: string,
+  userId: string,
+  proposal: AINewTrade,
+  images: TradeImageEntity[]
+): Omit<Trade, 'id' | 'created_at' | 'updated_at'> => {
+  const { trade_type, amount, trade_date, session, tags, ...fields } = proposal;
+  return {
+    ...toTradeFields(fields),
+    calendar_id: calendarId,
+    user_id: userId,
+    trade_type,
+    amount,
+    trade_date: new Date(trade_date),
+    session,
+    tags,
+    images,
+    is_pinned: false
+  };
+};
+
+/**
+ * One short line per change, for the action card
+ */
+export const describeTradeChanges = (changes: AITradeChanges): string[] => {
+  const lines: string[] = [];
+  (changes.add_tags || []).forEach(tag => lines.push(`+ ${tag}`));
+  (changes.remove_tags || []).forEach(tag => lines.push(`− ${tag}`));
+  if (changes.session) lines.push(`Session: ${changes.session}`);
+  if (changes.is_pinned !== undefined) lines.push(changes.is_pinned ? 'Pin' : 'Unpin');
+
+  const fillFields = changes.fill_fields || {};
+  (Object.keys(fillFields) as AIFillableTradeField[]).forEach(field => {
+    lines.push(`${FILLABLE_FIELD_LABELS[field]}: ${fillFields[field]} (if empty)`);
+  });
+  return lines;
+};
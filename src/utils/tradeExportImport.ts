@@ -26,6 +26,9 @@ const prepareTradeDataForExport = (trades: Trade[], initial_balance: number = 0)
   return tradesWithBalances.map(trade => ({
     Date: format(new Date(trade.trade_date), 'MM/dd/yyyy'),
     Name: trade.name ? trade.name : '',
+    Instrument: trade.instrument || '',
+    Direction: trade.direction ? trade.direction.charAt(0).toUpperCase() + trade.direction.slice(1) : '',
+    'Position Size': trade.position_size ?? '',
     Type: trade.trade_type.charAt(0).toUpperCase() + trade.trade_type.slice(1),
     Amount: trade.amount,
     'P&L': trade.amount > 0 ? `+${trade.amount.toFixed(2)}` : trade.amount.toFixed(2),
@@ -33,6 +36,9 @@ const prepareTradeDataForExport = (trades: Trade[], initial_balance: number = 0)
     'Account Balance': trade.accountBalance.toFixed(2),
     'Entry Price': trade.entry_price || '',
     'Exit Price': trade.exit_price || '',
+    Commission: trade.commission ?? '',
+    Swap: trade.swap ?? '',
+    Fees: trade.fees ?? '',
     Tags: trade.tags?.join(', ') || '',
     'Risk to Reward': trade.risk_to_reward?.toFixed(2) || '',
     Session: trade.session || '',
@@ -51,6 +57,9 @@ const exportToExcel = (data: any[], fileName: string): void => {
   const colWidths = [
     { wch: 12 }, // Date
     { wch: 25 }, // Name
+    { wch: 12 }, // Instrument
+    { wch: 10 }, // Direction
+    { wch: 12 }, // Position Size
     { wch: 8 },  // Type
     { wch: 10 }, // Amount
     { wch: 10 }, // P&L
@@ -58,6 +67,9 @@ const exportToExcel = (data: any[], fileName: string): void => {
     { wch: 15 }, // Account Balance
     { wch: 15 }, // Entry Price
     { wch: 15 }, // Exit Price
+    { wch: 12 }, // Commission
+    { wch: 10 }, // Swap
+    { wch: 10 }, // Fees
     { wch: 30 }, // Tags
     { wch: 12 }, // Risk to Reward
     { wch: 12 }, // Session
@@ -275,7 +287,9 @@ const knownTradeProperties = [
   'id', 'date', 'Date', 'amount', 'Amount', 'P&L', 'type', 'Type', 'name', 'Name',
   'entry', 'Entry Price', 'exit', 'Exit Price', 'tags', 'Tags', 'riskToReward', 'Risk to Reward',
   'partialsTaken', 'Partials Taken', 'session', 'Session', 'notes', 'Notes',
-  'images', 'Images', 'Cumulative P&L', 'Account Balance'
+  'images', 'Images', 'Cumulative P&L', 'Account Balance',
+  'commission', 'Commission', 'swap', 'Swap', 'fees', 'Fees',
+  'instrument', 'Instrument', 'direction', 'Direction', 'Position Size'
 ];
 
 // Common date formats to try when parsing
@@ -410,6 +424,12 @@ const parseTradeData = (jsonData: any[]): Trade[] => {
 
       ...(tags.length > 0 && { tags }),
       ...(row['Risk to Reward'] && { riskToReward: parseFloat(row['Risk to Reward']) }),
+      ...(row.Instrument && { instrument: String(row.Instrument).toUpperCase() }),
+      ...(row.Direction && { direction: String(row.Direction).toLowerCase() }),
+      ...(row['Position Size'] && { position_size: parseFloat(row['Position Size']) }),
+      ...(row.Commission && { commission: parseFloat(row.Commission) }),
+      ...(row.Swap && { swap: parseFloat(row.Swap) }),
+      ...(row.Fees && { fees: parseFloat(row.Fees) }),
       ...(row.Session && { session: row.Session }),
       ...(row.Notes && { notes: row.Notes })
     };
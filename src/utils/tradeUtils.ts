@@ -1,4 +1,4 @@
-import { Trade } from '../types/dualWrite';
+import { Trade, TradeDirection } from '../types/dualWrite';
 
 /**
  * Ensures a value is a Date object.
@@ -21,3 +21,49 @@ export function normalizeTradeDates<T extends Partial<Trade>>(trade: T): T {
     updated_at: trade.updated_at ? ensureDate(trade.updated_at) : trade.updated_at,
   };
 }
+
+/**
+ * Infers long/short from where the stop loss sits relative to the entry.
+ * Returns undefined when either price is missing or they are equal.
+ */
+export function inferDirection(entryPrice?: number | null, stopLoss?: number | null): TradeDirection | undefined {
+  if (!entryPrice || !stopLoss || entryPrice === stopLoss) return undefined;
+  return stopLoss < entryPrice ? 'long' : 'short';
+}
+
+/**
+ * Planned risk to reward from entry, stop loss and take profit prices.
+ * Returns undefined when a price is missing or the stop equals the entry.
+ */
+export function calculatePlannedRiskToReward(
+  entryPrice?: number | null,
+  stopLoss?: number | null,
+  takeProfit?: number | null
+): number | undefined {
+  if (!entryPrice || !stopLoss || !takeProfit) return undefined;
+
+  const risk = Math.abs(entryPrice - stopLoss);
+  if (risk === 0) return undefined;
+
+  return Math.round((Math.abs(takeProfit - entryPrice) / risk) * 100) / 100;
+}
+
+/**
+ * Realised R-multiple from entry, exit and stop loss prices.
+ * Positive when price moved in the trade's direction; the direction is
+ * inferred from the stop loss when the trade doesn't carry one.
+ */
+export function calculateRealizedR(
+  trade: Pick<Trade, 'entry_price' | 'exit_price' | 'stop_loss' | 'direction'>
+): number | undefined {
+  const { entry_price, exit_price, stop_loss } = trade;
+  if (!entry_price || !exit_price || !stop_loss) return undefined;
+
+  const risk = Math.abs(entry_price - stop_loss);
+  if (risk === 0) return undefined;
+
+  const direction = trade.direction || inferDirection(entry_price, stop_loss);
+  const move = direction === 'short' ? entry_price - exit_price : exit_price - entry_price;
+
+  return Math.round((move / risk) * 100) / 100;
+}
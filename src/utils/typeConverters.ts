@@ -273,6 +273,37 @@ export function parseTradeType(value: any): ConversionResult<'win' | 'loss' | 'b
   };
 }
 
+/**
+ * Parse trade direction from various formats
+ */
+export function parseDirection(value: any): ConversionResult<'long' | 'short'> {
+  const originalValue = value;
+
+  // If null or undefined
+  if (value === null || value === undefined || value === '') {
+    return { success: false, error: 'Empty direction', originalValue };
+  }
+
+  // Convert to string and normalize
+  const strValue = String(value).trim().toLowerCase();
+
+  // Long variants
+  if (['long', 'buy', 'b', 'l', 'bought'].includes(strValue)) {
+    return { success: true, value: 'long', originalValue };
+  }
+
+  // Short variants
+  if (['short', 'sell', 's', 'sold'].includes(strValue)) {
+    return { success: true, value: 'short', originalValue };
+  }
+
+  return {
+    success: false,
+    error: `Could not parse direction: "${value}"`,
+    originalValue
+  };
+}
+
 /**
  * Convert a value to the expected field type
  */
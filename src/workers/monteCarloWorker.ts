@@ -0,0 +1,268 @@
+/**
+ * Monte Carlo Worker
+ *
+ * Web Worker for resampling historical trade outcomes into thousands of equity paths.
+ * Each simulation walks day by day, so it can block the UI for several seconds.
+ */
+
+import { createInlineWorker, WorkerManager } from './utils/workerManager';
+import type { DynamicRiskSettings } from '../utils/dynamicRiskUtils';
+
+export interface RunMonteCarloRequest {
+  outcomes: number[]; // P&L amounts, or R-multiples when outcomeType is 'r'
+  outcomeType: 'amount' | 'r';
+  tradesPerDay: number[]; // Historical trade counts per trading day, resampled to build each day
+  riskSettings: DynamicRiskSettings; // Sizes R outcomes, including the dynamic risk threshold
+  maxDailyDrawdown: number; // % of equity at the start of the day, 0 = no limit
+  maxTotalDrawdown: number; // % below peak equity, 0 = no limit
+  monthlyTarget?: number; // % of the starting balance
+  horizonDays: number;
+  simulations: number;
+  seed?: number;
+}
+
+export interface MonteCarloEquityBand {
+  day: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface RunMonteCarloResponse {
+  simulations: number;
+  equityBands: MonteCarloEquityBand[]; // Day 0 is the starting balance
+  dailyDrawdownBreachProbability: number; // 0-1, at least one day over the daily limit
+  totalDrawdownBreachProbability: number; // 0-1, risk of ruin
+  targetHitProbability: number | null; // 0-1, null without a monthly target
+  medianDaysToTarget: number | null; // Trading days, over the paths that hit the target
+  medianMaxDrawdown: number; // % below peak
+  finalEquity: { p5: number; p50: number; p95: number };
+}
+
+/**
+ * Worker code for the Monte Carlo simulation
+ * IMPORTANT: No external dependencies, all logic inlined
+ */
+const MONTE_CARLO_WORKER_CODE = `
+// ============================================================================
+// Random Numbers
+// ============================================================================
+
+// mulberry32: small seeded PRNG so a run can be reproduced
+function createRandom(seed) {
+  if (seed === undefined || seed === null) return Math.random;
+  let state = seed >>> 0;
+  return function () {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function percentile(sorted, p) {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round((p / 100) * (sorted.length - 1))));
+  return sorted[index];
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+function effectiveRiskPercentage(equity, settings) {
+  const base = settings.risk_per_trade || 0;
+  if (!settings.dynamic_risk_enabled ||
+      !settings.increased_risk_percentage ||
+      !settings.profit_threshold_percentage ||
+      settings.account_balance <= 0) {
+    return base;
+  }
+  const profitPercentage = ((equity - settings.account_balance) / settings.account_balance) * 100;
+  return profitPercentage >= settings.profit_threshold_percentage ? settings.increased_risk_percentage : base;
+}
+
+function runMonteCarlo(request) {
+  const {
+    outcomes, outcomeType, tradesPerDay, riskSettings,
+    maxDailyDrawdown, maxTotalDrawdown, monthlyTarget, horizonDays, simulations, seed
+  } = request;
+  const random = createRandom(seed);
+  const startingBalance = riskSettings.account_balance;
+  const targetEquity = monthlyTarget ? startingBalance * (1 + monthlyTarget / 100) : null;
+  const dayCounts = tradesPerDay.length > 0 ? tradesPerDay : [1];
+
+  // equity[day * simulations + sim]
+  const equity = new Float64Array((horizonDays + 1) * simulations);
+  const maxDrawdowns = new Float64Array(simulations);
+  const daysToTarget = [];
+  let dailyBreaches = 0;
+  let totalBreaches = 0;
+
+  for (let sim = 0; sim < simulations; sim++) {
+    let current = startingBalance;
+    let peak = startingBalance;
+    let maxDrawdown = 0;
+    let dailyBreached = false;
+    let ruined = false;
+    let hitTarget = false;
+    equity[sim] = current;
+
+    for (let day = 1; day <= horizonDays; day++) {
+      if (!ruined) {
+        const dayStart = current;
+        const count = dayCounts[Math.floor(random() * dayCounts.length)];
+
+        for (let t = 0; t < count; t++) {
+          const outcome = outcomes[Math.floor(random() * outcomes.length)];
+          if (outcomeType === 'r') {
+            const riskAmount = (current * effectiveRiskPercentage(current, riskSettings)) / 100;
+            current += outcome * riskAmount;
+          } else {
+            current += outcome;
+          }
+        }
+
+        if (maxDailyDrawdown > 0 && dayStart - current >= (dayStart * maxDailyDrawdown) / 100) {
+          dailyBreached = true;
+        }
+
+        peak = Math.max(peak, current);
+        const drawdown = peak > 0 ? ((peak - current) / peak) * 100 : 100;
+        maxDrawdown = Math.max(maxDrawdown, drawdown);
+
+        // A blown account stops trading for the rest of the horizon
+        if (current <= 0 || (maxTotalDrawdown > 0 && drawdown >= maxTotalDrawdown)) {
+          ruined = true;
+          current = Math.max(current, 0);
+        }
+
+        if (!hitTarget && targetEquity !== null && current >= targetEquity) {
+          hitTarget = true;
+          daysToTarget.push(day);
+        }
+      }
+      equity[day * simulations + sim] = current;
+    }
+
+    maxDrawdowns[sim] = maxDrawdown;
+    if (dailyBreached) dailyBreaches++;
+    if (ruined) totalBreaches++;
+  }
+
+  const equityBands = [];
+  for (let day = 0; day <= horizonDays; day++) {
+    const column = equity.slice(day * simulations, (day + 1) * simulations).sort();
+    equityBands.push({
+      day,
+      p5: percentile(column, 5),
+      p25: percentile(column, 25),
+      p50: percentile(column, 50),
+      p75: percentile(column, 75),
+      p95: percentile(column, 95)
+    });
+  }
+
+  const finalColumn = equity.slice(horizonDays * simulations).sort();
+  daysToTarget.sort(function (a, b) { return a - b; });
+
+  return {
+    simulations,
+    equityBands,
+    dailyDrawdownBreachProbability: dailyBreaches / simulations,
+    totalDrawdownBreachProbability: totalBreaches / simulations,
+    targetHitProbability: targetEquity !== null ? daysToTarget.length / simulations : null,
+    medianDaysToTarget: daysToTarget.length > 0 ? percentile(daysToTarget, 50) : null,
+    medianMaxDrawdown: percentile(maxDrawdowns.sort(), 50),
+    finalEquity: {
+      p5: percentile(finalColumn, 5),
+      p50: percentile(finalColumn, 50),
+      p95: percentile(finalColumn, 95)
+    }
+  };
+}
+
+// ============================================================================
+// Message Handler
+// ============================================================================
+
+self.addEventListener('message', (event) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'RUN_MONTE_CARLO') {
+      const result = runMonteCarlo(request.payload);
+
+      const response = {
+        id: request.id,
+        type: request.type,
+        payload: result
+      };
+
+      self.postMessage(response);
+    } else {
+      throw new Error('Unknown request type: ' + request.type);
+    }
+  } catch (error) {
+    const response = {
+      id: request.id,
+      type: request.type,
+      error: {
+        message: error.message,
+        stack: error.stack
+      }
+    };
+
+    self.postMessage(response);
+  }
+});
+`;
+
+// ============================================================================
+// Worker Manager Instance
+// ============================================================================
+
+let monteCarloWorkerManager: WorkerManager | null = null;
+
+/**
+ * Get or create the Monte Carlo worker manager instance (singleton)
+ */
+function getMonteCarloWorkerManager(): WorkerManager {
+  if (!monteCarloWorkerManager) {
+    monteCarloWorkerManager = new WorkerManager(() => createInlineWorker(MONTE_CARLO_WORKER_CODE));
+  }
+  return monteCarloWorkerManager;
+}
+
+/**
+ * Run a Monte Carlo simulation using Web Worker
+ */
+export async function runMonteCarloInWorker(request: RunMonteCarloRequest): Promise<RunMonteCarloResponse> {
+  const manager = getMonteCarloWorkerManager();
+
+  return manager.request<RunMonteCarloRequest, RunMonteCarloResponse>(
+    'RUN_MONTE_CARLO',
+    request,
+    120000
+  );
+}
+
+/**
+ * Terminate the Monte Carlo worker (cleanup)
+ */
+export function terminateMonteCarloWorker(): void {
+  if (monteCarloWorkerManager) {
+    monteCarloWorkerManager.terminate();
+    monteCarloWorkerManager = null;
+  }
+}
+
+/**
+ * Check if Monte Carlo worker is active
+ */
+export function isMonteCarloWorkerActive(): boolean {
+  return monteCarloWorkerManager?.isActive() ?? false;
+}
@@ -0,0 +1,617 @@
+/**
+ * Score Snapshot Utilities
+ * Server-side port of the client score calculation (src/utils/scoreUtils.ts)
+ * used to persist daily/weekly/monthly/yearly score snapshots per calendar
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { Trade } from './types.ts';
+import type { CalendarRiskData } from './tradeSync.ts';
+import { DEFAULT_TRADING_SESSIONS, getCalendarSessions, normalizeSessionName, type SessionDefinition } from './tradingSessions.ts';
+
+export type ScorePeriod = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export const SCORE_PERIODS: ScorePeriod[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+/**
+ * Score settings as stored in calendars.score_settings
+ */
+export interface ScoreSettings {
+  weights: {
+    consistency: number;
+    riskManagement: number;
+    performance: number;
+    discipline: number;
+  };
+  thresholds: {
+    minTradesForScore: number;
+    lookbackPeriod: number;
+    consistencyTolerance: number;
+  };
+  targets: {
+    win_rate: number;
+    profit_factor: number;
+    max_drawdown: number;
+    avgRiskReward: number;
+  };
+  selectedTags?: string[];
+  excludedTagsFromPatterns?: string[];
+}
+
+export interface ScoreMetrics {
+  consistency: number;
+  riskManagement: number;
+  performance: number;
+  discipline: number;
+  overall: number;
+}
+
+interface ScoreComponent {
+  score: number;
+  factors: Record<string, number>;
+}
+
+export interface ScoreBreakdown {
+  consistency: ScoreComponent;
+  riskManagement: ScoreComponent;
+  performance: ScoreComponent;
+  discipline: ScoreComponent;
+}
+
+interface TradingPattern {
+  preferredSessions: string[];
+  commonTags: string[];
+  avgTradesPerDay: number;
+  avgPositionSize: number;
+  win_rate: number;
+  profit_factor: number;
+  max_drawdown: number;
+  tradingDays: number[];
+}
+
+/**
+ * Row shape of the score_snapshots table
+ */
+export interface ScoreSnapshotRow {
+  calendar_id: string;
+  user_id: string;
+  period: ScorePeriod;
+  period_start: string;
+  metrics: ScoreMetrics;
+  breakdown: ScoreBreakdown;
+  trade_count: number;
+  settings_version: number;
+  settings: Record<string, unknown> | null;
+  computed_at: string;
+}
+
+/**
+ * Calendar fields needed to compute snapshots
+ */
+export interface ScoreCalendarData extends CalendarRiskData {
+  id: string;
+  user_id: string;
+  score_settings?: Record<string, unknown> | null;
+  score_settings_version?: number | null;
+  trading_sessions?: SessionDefinition[] | null;
+}
+
+/**
+ * Default scoring settings (keep in sync with DEFAULT_SCORE_SETTINGS in src/utils/scoreUtils.ts)
+ */
+export const DEFAULT_SCORE_SETTINGS: ScoreSettings = {
+  weights: {
+    consistency: 40,
+    riskManagement: 25,
+    performance: 20,
+    discipline: 15
+  },
+  thresholds: {
+    minTradesForScore: 3,
+    lookbackPeriod: 30,
+    consistencyTolerance: 15
+  },
+  targets: {
+    win_rate: 60,
+    profit_factor: 1.5,
+    max_drawdown: 5,
+    avgRiskReward: 2.0
+  },
+  selectedTags: [],
+  excludedTagsFromPatterns: []
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Merge stored score settings over the defaults
+ * Accepts both camelCase and snake_case tag lists
+ */
+export function resolveScoreSettings(raw?: Record<string, unknown> | null): ScoreSettings {
+  const stored = (raw || {}) as Partial<ScoreSettings> & { selected_tags?: string[] };
+  return {
+    weights: { ...DEFAULT_SCORE_SETTINGS.weights, ...(stored.weights || {}) },
+    thresholds: { ...DEFAULT_SCORE_SETTINGS.thresholds, ...(stored.thresholds || {}) },
+    targets: { ...DEFAULT_SCORE_SETTINGS.targets, ...(stored.targets || {}) },
+    selectedTags: stored.selectedTags || stored.selected_tags || []
+  };
+}
+
+// =====================================================
+// PERIOD HELPERS (UTC)
+// =====================================================
+
+/**
+ * Get the first day of the period containing a date, as YYYY-MM-DD
+ * Weeks start on Sunday to match the client
+ */
+export function getPeriodStart(date: Date | string, period: ScorePeriod): string {
+  const d = new Date(date);
+  let start: Date;
+  switch (period) {
+    case 'daily':
+      start = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+      break;
+    case 'weekly':
+      start = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() - d.getUTCDay()));
+      break;
+    case 'monthly':
+      start = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1));
+      break;
+    case 'yearly':
+      start = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+      break;
+  }
+  return start.toISOString().split('T')[0];
+}
+
+/**
+ * Get the [start, end) range of a period in milliseconds
+ */
+function getPeriodRange(periodStart: string, period: ScorePeriod): { start: number; end: number } {
+  const start = new Date(`${periodStart}T00:00:00.000Z`);
+  const end = new Date(start);
+  switch (period) {
+    case 'daily':
+      end.setUTCDate(end.getUTCDate() + 1);
+      break;
+    case 'weekly':
+      end.setUTCDate(end.getUTCDate() + 7);
+      break;
+    case 'monthly':
+      end.setUTCMonth(end.getUTCMonth() + 1);
+      break;
+    case 'yearly':
+      end.setUTCFullYear(end.getUTCFullYear() + 1);
+      break;
+  }
+  return { start: start.getTime(), end: end.getTime() };
+}
+
+// =====================================================
+// SCORE CALCULATION
+// =====================================================
+
+/**
+ * Normalize trade amounts for dynamic risk in one pass
+ * Mirrors normalizeTradeAmount in src/utils/dynamicRiskUtils.ts
+ */
+function buildNormalizedAmounts(trades: Trade[], risk: CalendarRiskData): Map<string, number> {
+  const normalized = new Map<string, number>();
+  const sorted = [...trades].sort((a, b) => new Date(a.trade_date).getTime() - new Date(b.trade_date).getTime());
+  const dynamicActive = !!(risk.dynamic_risk_enabled && risk.increased_risk_percentage &&
+    risk.profit_threshold_percentage && risk.account_balance > 0);
+
+  let cumulativePnL = 0;
+  let index = 0;
+  while (index < sorted.length) {
+    // Trades sharing a timestamp all see the P&L from strictly earlier trades
+    const time = new Date(sorted[index].trade_date).getTime();
+    let groupEnd = index;
+    while (groupEnd < sorted.length && new Date(sorted[groupEnd].trade_date).getTime() === time) {
+      groupEnd++;
+    }
+
+    let effectiveRisk = risk.risk_per_trade || 0;
+    if (dynamicActive && (cumulativePnL / risk.account_balance) * 100 >= risk.profit_threshold_percentage!) {
+      effectiveRisk = risk.increased_risk_percentage!;
+    }
+
+    for (let i = index; i < groupEnd; i++) {
+      const trade = sorted[i];
+      const absAmount = Math.abs(trade.amount);
+      const skip = !trade.risk_to_reward || trade.partials_taken || trade.trade_type === 'breakeven' ||
+        !risk.risk_per_trade || effectiveRisk === 0;
+      normalized.set(trade.id, skip ? absAmount : (absAmount * (risk.risk_per_trade || 1)) / effectiveRisk);
+    }
+    for (let i = index; i < groupEnd; i++) {
+      cumulativePnL += Number(sorted[i].amount);
+    }
+    index = groupEnd;
+  }
+
+  return normalized;
+}
+
+function calculateWinRate(trades: Trade[]): number {
+  const wins = trades.filter(t => t.trade_type === 'win').length;
+  const losses = trades.filter(t => t.trade_type === 'loss').length;
+  return wins + losses === 0 ? 0 : (wins / (wins + losses)) * 100;
+}
+
+function calculateProfitFactor(trades: Trade[], amountOf: (trade: Trade) => number): number {
+  const grossProfit = trades
+    .filter(t => amountOf(t) > 0)
+    .reduce((sum, t) => sum + amountOf(t), 0);
+  const grossLoss = Math.abs(trades
+    .filter(t => amountOf(t) < 0 || t.trade_type === 'loss')
+    .reduce((sum, t) => sum + amountOf(t), 0));
+  if (grossLoss === 0) return grossProfit > 0 ? 50.0 : 0;
+  return grossProfit / grossLoss;
+}
+
+function calculateMaxDrawdown(trades: Trade[], amountOf: (trade: Trade) => number, minPeak: number): number {
+  let maxDrawdown = 0;
+  let peak = 0;
+  let runningPnL = 0;
+  trades.forEach(trade => {
+    runningPnL += amountOf(trade);
+    if (runningPnL > peak) peak = runningPnL;
+    const drawdown = minPeak > 0
+      ? ((peak - runningPnL) / Math.max(peak, minPeak)) * 100
+      : peak > 0 ? ((peak - runningPnL) / peak) * 100 : 0;
+    if (drawdown > maxDrawdown) maxDrawdown = drawdown;
+  });
+  return maxDrawdown;
+}
+
+function coefficientOfVariation(values: number[]): { avg: number; stdDev: number } {
+  const avg = values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  const variance = values.length > 0
+    ? values.reduce((sum, v) => sum + Math.pow(v - avg, 2), 0) / values.length
+    : 0;
+  return { avg, stdDev: Math.sqrt(variance) };
+}
+
+const orDefault = (value: number, fallback = 50): number => (isNaN(value) ? fallback : value);
+
+function averageFactors(factors: Record<string, number>): ScoreComponent {
+  const values = Object.values(factors);
+  const score = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return { score: isNaN(score) ? 0 : score, factors };
+}
+
+function calculateTradingPattern(
+  targetTime: number,
+  trades: Trade[],
+  lookbackDays: number,
+  selectedTags: string[],
+  amountOf: (trade: Trade) => number,
+  sessions: SessionDefinition[]
+): TradingPattern {
+  const recentTrades = trades.filter(t => new Date(t.trade_date).getTime() >= targetTime - lookbackDays * DAY_MS);
+
+  const sessionCounts: Record<string, number> = {};
+  const tagCounts: Record<string, number> = {};
+  const dayCounts: Record<number, number> = {};
+  recentTrades.forEach(trade => {
+    if (trade.session) {
+      const session = normalizeSessionName(trade.session, sessions);
+      sessionCounts[session] = (sessionCounts[session] || 0) + 1;
+    }
+    (trade.tags || []).forEach(tag => {
+      if (selectedTags.length === 0 || selectedTags.includes(tag)) {
+        tagCounts[tag] = (tagCounts[tag] || 0) + 1;
+      }
+    });
+    const day = new Date(trade.trade_date).getUTCDay();
+    dayCounts[day] = (dayCounts[day] || 0) + 1;
+  });
+
+  const topKeys = (counts: Record<string, number>, limit: number) => Object.entries(counts)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, limit)
+    .map(([key]) => key);
+
+  const avgTradesPerDay = recentTrades.length / lookbackDays;
+
+  return {
+    preferredSessions: topKeys(sessionCounts, 2),
+    commonTags: topKeys(tagCounts, 5),
+    avgTradesPerDay,
+    avgPositionSize: recentTrades.length > 0
+      ? recentTrades.reduce((sum, t) => sum + amountOf(t), 0) / recentTrades.length
+      : 0,
+    win_rate: calculateWinRate(recentTrades),
+    profit_factor: calculateProfitFactor(recentTrades, amountOf),
+    max_drawdown: calculateMaxDrawdown(recentTrades, amountOf, 1),
+    tradingDays: Object.entries(dayCounts)
+      .filter(([, count]) => count >= avgTradesPerDay * 0.5)
+      .map(([day]) => parseInt(day))
+      .sort((a, b) => a - b)
+  };
+}
+
+function calculateBreakdown(
+  trades: Trade[],
+  pattern: TradingPattern,
+  settings: ScoreSettings,
+  amountOf: (trade: Trade) => number,
+  sessions: SessionDefinition[]
+): ScoreBreakdown {
+  const share = (matching: number, total: number, hasPattern: boolean) =>
+    total > 0 && hasPattern ? (matching / total) * 100 : 50;
+
+  const sessionTrades = trades.filter(t => t.session);
+  const tagTrades = trades.filter(t => t.tags && t.tags.length > 0);
+  const inPreferredSession = sessionTrades.filter(t =>
+    pattern.preferredSessions.includes(normalizeSessionName(t.session!, sessions))
+  ).length;
+  const withCommonTag = tagTrades.filter(t => t.tags!.some(tag => pattern.commonTags.includes(tag))).length;
+  const sessionShare = share(inPreferredSession, sessionTrades.length, pattern.preferredSessions.length > 0);
+  const tagShare = share(withCommonTag, tagTrades.length, pattern.commonTags.length > 0);
+
+  const sizes = trades.map(amountOf);
+  const { avg: avgSize, stdDev: sizeStdDev } = coefficientOfVariation(sizes);
+
+  // Consistency
+  const timingConsistency = share(
+    trades.filter(t => pattern.tradingDays.includes(new Date(t.trade_date).getUTCDay())).length,
+    trades.length,
+    pattern.tradingDays.length > 0
+  );
+  const sizeDeviation = pattern.avgPositionSize > 0
+    ? Math.abs(avgSize - pattern.avgPositionSize) / pattern.avgPositionSize
+    : 0;
+  const consistency = averageFactors({
+    sessionConsistency: orDefault(sessionShare),
+    tagConsistency: orDefault(tagShare),
+    timingConsistency: orDefault(timingConsistency),
+    sizeConsistency: orDefault(Math.max(0, 100 - sizeDeviation * 100))
+  });
+
+  // Risk management
+  const rrTrades = trades.filter(t => t.risk_to_reward && t.risk_to_reward > 0);
+  const avgRR = rrTrades.length > 0
+    ? rrTrades.reduce((sum, t) => sum + (t.risk_to_reward || 0), 0) / rrTrades.length
+    : 0;
+  const rrDeviation = settings.targets.avgRiskReward > 0
+    ? Math.abs(avgRR - settings.targets.avgRiskReward) / settings.targets.avgRiskReward
+    : 0;
+  const maxDrawdown = calculateMaxDrawdown(trades, amountOf, 0);
+  const lossTrades = trades.filter(t => t.trade_type === 'loss');
+  const winTrades = trades.filter(t => t.trade_type === 'win');
+  const avgLoss = lossTrades.length > 0
+    ? Math.abs(lossTrades.reduce((sum, t) => sum + amountOf(t), 0)) / lossTrades.length
+    : 0;
+  const avgWin = winTrades.length > 0
+    ? winTrades.reduce((sum, t) => sum + amountOf(t), 0) / winTrades.length
+    : 0;
+  const riskManagement = averageFactors({
+    riskRewardRatio: orDefault(avgRR > 0 ? Math.max(0, 100 - rrDeviation * 100) : 50),
+    positionSizing: orDefault(avgSize > 0 ? Math.max(0, 100 - (sizeStdDev / avgSize) * 100) : 50),
+    maxDrawdownAdherence: orDefault(maxDrawdown <= settings.targets.max_drawdown
+      ? 100
+      : Math.max(0, 100 - (maxDrawdown - settings.targets.max_drawdown) * 10)),
+    stopLossUsage: orDefault(avgWin > 0 && avgLoss > 0 ? Math.min(100, (avgWin / avgLoss) * 50) : 50)
+  });
+
+  // Performance
+  const currentWinRate = calculateWinRate(trades);
+  const currentProfitFactor = calculateProfitFactor(trades, amountOf);
+  const { avg: avgReturn, stdDev: returnStdDev } = coefficientOfVariation(sizes);
+  const performance = averageFactors({
+    winRateConsistency: orDefault(pattern.win_rate > 0
+      ? Math.max(0, 100 - (Math.abs(currentWinRate - pattern.win_rate) / pattern.win_rate) * 100)
+      : 50),
+    profitFactorStability: orDefault(pattern.profit_factor > 0
+      ? Math.max(0, 100 - (Math.abs(currentProfitFactor - pattern.profit_factor) / pattern.profit_factor) * 100)
+      : 50),
+    returnsConsistency: orDefault(Math.abs(avgReturn) > 0
+      ? Math.max(0, 100 - (returnStdDev / Math.abs(avgReturn)) * 50)
+      : 50),
+    volatilityControl: orDefault(pattern.max_drawdown > 0 && maxDrawdown <= pattern.max_drawdown * 1.2
+      ? 100
+      : pattern.max_drawdown > 0
+        ? Math.max(0, 100 - (maxDrawdown - pattern.max_drawdown) * 5)
+        : 50)
+  });
+
+  // Discipline
+  const frequencyRatio = pattern.avgTradesPerDay > 0
+    ? (trades.length / 30) / pattern.avgTradesPerDay
+    : (trades.length / 30) / 0.1;
+  // Recorded pre-trade checklists replace the plan and data-entry heuristics
+  const checklistTrades = trades.filter(t => t.checklist && t.checklist.length > 0);
+  const checklistItems = checklistTrades.reduce((sum, t) => sum + t.checklist!.length, 0);
+  const checkedItems = checklistTrades.reduce((sum, t) => sum + t.checklist!.filter(item => item.checked).length, 0);
+  const compliantTrades = checklistTrades.filter(t => t.checklist!.every(item => !item.mandatory || item.checked)).length;
+
+  const rulesFollowed = checklistTrades.length > 0
+    ? (checkedItems / checklistItems) * 100
+    : trades.length > 0
+      ? (trades.filter(t =>
+          t.session && t.tags && t.tags.length > 0 && (t.risk_to_reward || t.trade_type === 'breakeven')
+        ).length / trades.length) * 100
+      : 0;
+  const discipline = averageFactors({
+    tradingPlanAdherence: orDefault(checklistTrades.length > 0
+      ? (compliantTrades / checklistTrades.length) * 100
+      : (sessionShare + tagShare) / 2),
+    emotionalControl: orDefault(Math.max(0, 100 - (avgSize > 0 ? sizeStdDev / avgSize : 0) * 200)),
+    overtrading: orDefault(frequencyRatio <= 1.5 ? 100 : Math.max(0, 100 - (frequencyRatio - 1.5) * 50)),
+    ruleFollowing: orDefault(rulesFollowed)
+  });
+
+  return { consistency, riskManagement, performance, discipline };
+}
+
+/**
+ * Compute the score snapshot for one period
+ * Returns null when the period has too few trades to score
+ * (monthly/yearly need one trade, shorter periods need minTradesForScore)
+ */
+export function computeScoreSnapshot(
+  allTrades: Trade[],
+  period: ScorePeriod,
+  periodStart: string,
+  settings: ScoreSettings,
+  normalizedAmounts: Map<string, number>,
+  sessions: SessionDefinition[] = DEFAULT_TRADING_SESSIONS
+): { metrics: ScoreMetrics; breakdown: ScoreBreakdown; trade_count: number } | null {
+  const { start, end } = getPeriodRange(periodStart, period);
+  const periodTrades = allTrades.filter(t => {
+    const time = new Date(t.trade_date).getTime();
+    return time >= start && time < end;
+  });
+
+  const minTrades = period === 'monthly' || period === 'yearly' ? 1 : settings.thresholds.minTradesForScore;
+  if (periodTrades.length < minTrades) return null;
+
+  const amountOf = (trade: Trade) => normalizedAmounts.get(trade.id) ?? Math.abs(trade.amount);
+
+  // Score as of the period close (or now, for the current period)
+  const targetTime = Math.min(end - 1, Date.now());
+  const lookbackMs = settings.thresholds.lookbackPeriod * DAY_MS;
+  const historicalTrades = allTrades.filter(t => {
+    const time = new Date(t.trade_date).getTime();
+    return time >= targetTime - lookbackMs && time <= targetTime;
+  });
+  const pattern = calculateTradingPattern(
+    targetTime,
+    historicalTrades,
+    settings.thresholds.lookbackPeriod,
+    settings.selectedTags || [],
+    amountOf,
+    sessions
+  );
+
+  const breakdown = periodTrades.length < settings.thresholds.minTradesForScore
+    ? emptyBreakdown()
+    : calculateBreakdown(periodTrades, pattern, settings, amountOf, sessions);
+
+  const overall = (
+    breakdown.consistency.score * settings.weights.consistency +
+    breakdown.riskManagement.score * settings.weights.riskManagement +
+    breakdown.performance.score * settings.weights.performance +
+    breakdown.discipline.score * settings.weights.discipline
+  ) / 100;
+
+  return {
+    metrics: {
+      consistency: breakdown.consistency.score,
+      riskManagement: breakdown.riskManagement.score,
+      performance: breakdown.performance.score,
+      discipline: breakdown.discipline.score,
+      overall: isNaN(overall) ? 0 : overall
+    },
+    breakdown,
+    trade_count: periodTrades.length
+  };
+}
+
+function emptyBreakdown(): ScoreBreakdown {
+  return {
+    consistency: { score: 0, factors: { sessionConsistency: 0, tagConsistency: 0, timingConsistency: 0, sizeConsistency: 0 } },
+    riskManagement: { score: 0, factors: { riskRewardRatio: 0, positionSizing: 0, maxDrawdownAdherence: 0, stopLossUsage: 0 } },
+    performance: { score: 0, factors: { winRateConsistency: 0, profitFactorStability: 0, returnsConsistency: 0, volatilityControl: 0 } },
+    discipline: { score: 0, factors: { tradingPlanAdherence: 0, emotionalControl: 0, overtrading: 0, ruleFollowing: 0 } }
+  };
+}
+
+/**
+ * Build snapshot rows for the given periods of a calendar
+ * Periods that no longer have enough trades are returned in `emptyPeriods` so callers can delete them
+ */
+export function buildScoreSnapshots(
+  calendar: ScoreCalendarData,
+  trades: Trade[],
+  periods: Array<{ period: ScorePeriod; periodStart: string }>
+): { rows: ScoreSnapshotRow[]; emptyPeriods: Array<{ period: ScorePeriod; periodStart: string }> } {
+  const settings = resolveScoreSettings(calendar.score_settings);
+  const scorableTrades = trades.filter(t => !t.is_temporary);
+  const normalizedAmounts = buildNormalizedAmounts(scorableTrades, calendar);
+  const sessions = getCalendarSessions(calendar);
+  const computedAt = new Date().toISOString();
+
+  const rows: ScoreSnapshotRow[] = [];
+  const emptyPeriods: Array<{ period: ScorePeriod; periodStart: string }> = [];
+
+  for (const { period, periodStart } of periods) {
+    const snapshot = computeScoreSnapshot(scorableTrades, period, periodStart, settings, normalizedAmounts, sessions);
+    if (!snapshot) {
+      emptyPeriods.push({ period, periodStart });
+      continue;
+    }
+    rows.push({
+      calendar_id: calendar.id,
+      user_id: calendar.user_id,
+      period,
+      period_start: periodStart,
+      ...snapshot,
+      settings_version: calendar.score_settings_version ?? 1,
+      settings: calendar.score_settings ?? null,
+      computed_at: computedAt
+    });
+  }
+
+  return { rows, emptyPeriods };
+}
+
+/**
+ * List every period (of every period type) that contains at least one of the given dates
+ */
+export function getPeriodsForDates(dates: Array<Date | string>): Array<{ period: ScorePeriod; periodStart: string }> {
+  const seen = new Set<string>();
+  const periods: Array<{ period: ScorePeriod; periodStart: string }> = [];
+  for (const date of dates) {
+    if (!date || isNaN(new Date(date).getTime())) continue;
+    for (const period of SCORE_PERIODS) {
+      const periodStart = getPeriodStart(date, period);
+      const key = `${period}|${periodStart}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      periods.push({ period, periodStart });
+    }
+  }
+  return periods;
+}
+
+/**
+ * Calendar columns selected for snapshot computation
+ */
+export const SCORE_CALENDAR_COLUMNS =
+  'id, user_id, account_balance, risk_per_trade, dynamic_risk_enabled, increased_risk_percentage, profit_threshold_percentage, score_settings, score_settings_version, trading_sessions';
+
+/**
+ * Recompute and store snapshots for the given periods
+ * Upserts scorable periods and deletes snapshots for periods left without enough trades
+ */
+export async function persistScoreSnapshots(
+  supabase: SupabaseClient,
+  calendar: ScoreCalendarData,
+  trades: Trade[],
+  periods: Array<{ period: ScorePeriod; periodStart: string }>
+): Promise<{ upserted: number; deleted: number }> {
+  const { rows, emptyPeriods } = buildScoreSnapshots(calendar, trades, periods);
+
+  const batchSize = 200;
+  for (let i = 0; i < rows.length; i += batchSize) {
+    const { error } = await supabase
+      .from('score_snapshots')
+      .upsert(rows.slice(i, i + batchSize) as never, { onConflict: 'calendar_id,period,period_start' });
+    if (error) throw error;
+  }
+
+  for (const { period, periodStart } of emptyPeriods) {
+    const { error } = await supabase
+      .from('score_snapshots')
+      .delete()
+      .eq('calendar_id', calendar.id)
+      .eq('period', period)
+      .eq('period_start', periodStart);
+    if (error) throw error;
+  }
+
+  return { upserted: rows.length, deleted: emptyPeriods.length };
+}
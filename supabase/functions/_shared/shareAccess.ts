@@ -0,0 +1,135 @@
+/**
+ * Share Access Utilities
+ * Expiry and password checks for share links, and the share view log
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { errorResponse, log } from './supabase.ts';
+
+/**
+ * Request body of the get-shared-* edge functions
+ */
+export interface ShareAccessPayload {
+  shareId: string;
+  password?: string;
+  referrer?: string; // document.referrer of the viewer
+}
+
+export interface ShareViewRecord {
+  share_id: string;
+  item_type: 'calendar' | 'trade';
+  calendar_id: string;
+  trade_id?: string | null;
+  user_id: string; // Owner of the shared item
+}
+
+/**
+ * Reject expired shares and password-protected shares opened without the right password
+ * Password attempts are limited per share and client (verify_share_password)
+ * @returns The error response to send, or null when the viewer may see the share
+ */
+export async function checkShareAccess(
+  supabase: SupabaseClient,
+  req: Request,
+  shareId: string,
+  expiresAt: string | null | undefined,
+  password?: string
+): Promise<Response | null> {
+  if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
+    return errorResponse('This share link has expired', 410);
+  }
+
+  if (!password) {
+    const { data: hasPassword, error } = await supabase
+      .rpc('share_has_password', { p_share_id: shareId });
+    if (error) {
+      log('Error checking share password', 'error', error);
+      return errorResponse('Failed to check share access', 500);
+    }
+    return hasPassword ? errorResponse('Password required', 401) : null;
+  }
+
+  const { data: result, error } = await supabase
+    .rpc('verify_share_password', {
+      p_share_id: shareId,
+      p_password: password,
+      p_client_hash: await hashAttemptClient(req)
+    });
+  if (error) {
+    log('Error verifying share password', 'error', error);
+    return errorResponse('Failed to check share access', 500);
+  }
+  if (result === 'locked') {
+    return errorResponse('Too many attempts, try again later', 429);
+  }
+  return result === 'ok' ? null : errorResponse('Incorrect password', 403);
+}
+
+/**
+ * Origin and path of the referring page; query strings can carry tokens
+ */
+function sanitizeReferrer(referrer?: string): string | null {
+  if (!referrer) return null;
+  try {
+    const url = new URL(referrer);
+    return `${url.origin}${url.pathname}`.slice(0, 500);
+  } catch {
+    return null;
+  }
+}
+
+function getClientIp(req: Request): string {
+  return (req.headers.get('x-forwarded-for') || '').split(',')[0].trim();
+}
+
+async function hashHex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest).slice(0, 8))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Anonymised viewer id: hash of IP and user agent, salted with the day so
+ * viewers can be counted per day but not followed across days
+ */
+async function hashClient(req: Request): Promise<string> {
+  const userAgent = req.headers.get('user-agent') || '';
+  const day = new Date().toISOString().slice(0, 10);
+  return hashHex(`${day}|${getClientIp(req)}|${userAgent}`);
+}
+
+/**
+ * Client key for password attempt limiting: the IP only, so changing the
+ * user agent or waiting for the next day does not reset the attempts
+ */
+async function hashAttemptClient(req: Request): Promise<string> {
+  return hashHex(`share-password|${getClientIp(req)}`);
+}
+
+/**
+ * Add a row to the share view log
+ * Failures are logged only - a view must never fail because of analytics
+ */
+export async function recordShareView(
+  supabase: SupabaseClient,
+  req: Request,
+  view: ShareViewRecord,
+  referrer?: string
+): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('share_views')
+      .insert({
+        ...view,
+        trade_id: view.trade_id ?? null,
+        referrer: sanitizeReferrer(referrer),
+        client_hash: await hashClient(req),
+      });
+    if (error) {
+      log('Error recording share view', 'warn', error);
+    }
+  } catch (error) {
+    log('Error recording share view', 'warn', error);
+  }
+}
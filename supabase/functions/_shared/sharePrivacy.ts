@@ -0,0 +1,213 @@
+/**
+ * Share Privacy Utilities
+ * Applies a calendar's share privacy settings (calendars.share_settings)
+ * to the calendar and trades served to public viewers
+ */
+
+import { buildYearStats } from './yearStats.ts';
+import type { Calendar, SharePrivacySettings, Trade, YearStats } from './types.ts';
+
+/**
+ * Merge stored privacy settings over the defaults
+ * Returns null for unrestricted shares
+ */
+export function resolveShareSettings(raw?: Partial<SharePrivacySettings> | null): SharePrivacySettings | null {
+  if (!raw) return null;
+  return {
+    hide_amounts: !!raw.hide_amounts,
+    amount_display: raw.amount_display === 'r' ? 'r' : 'percentage',
+    strip_notes: !!raw.strip_notes,
+    strip_images: !!raw.strip_images,
+    start_date: raw.start_date || null,
+    end_date: raw.end_date || null,
+    tags: Array.isArray(raw.tags) ? raw.tags.filter(Boolean) : [],
+  };
+}
+
+/**
+ * Whether the settings remove trades from the share
+ */
+export function hasTradeFilters(settings: SharePrivacySettings): boolean {
+  return !!settings.start_date || !!settings.end_date || (settings.tags?.length ?? 0) > 0;
+}
+
+/**
+ * Trades inside the shared date range that carry at least one of the shared tags
+ */
+export function filterSharedTrades(trades: Trade[], settings: SharePrivacySettings): Trade[] {
+  const tags = settings.tags || [];
+  return trades.filter((trade) => {
+    const day = new Date(trade.trade_date).toISOString().slice(0, 10);
+    if (settings.start_date && day < settings.start_date) return false;
+    if (settings.end_date && day > settings.end_date) return false;
+    if (tags.length > 0 && !(trade.tags || []).some((tag) => tags.includes(tag))) return false;
+    return true;
+  });
+}
+
+/**
+ * Unit amounts are shown in, and the factor that converts dollars into it
+ * - percentage: % of the account balance
+ * - r: multiples of the calendar's risk per trade (falls back to percentage without one)
+ * A factor of 1 with 'currency' means amounts are shared as-is
+ */
+export function getAmountScale(
+  calendar: Pick<Calendar, 'account_balance' | 'risk_per_trade'>,
+  settings: SharePrivacySettings
+): { unit: 'currency' | 'percentage' | 'r'; factor: number } {
+  if (!settings.hide_amounts) return { unit: 'currency', factor: 1 };
+
+  const balance = Number(calendar.account_balance) || 0;
+  const riskAmount = balance * (Number(calendar.risk_per_trade) || 0) / 100;
+  if (settings.amount_display === 'r' && riskAmount > 0) {
+    return { unit: 'r', factor: 1 / riskAmount };
+  }
+  // Without a balance there is nothing to express amounts against, so they are dropped
+  return { unit: 'percentage', factor: balance > 0 ? 100 / balance : 0 };
+}
+
+const scale = (value: number | null | undefined, factor: number): number =>
+  Number(((Number(value) || 0) * factor).toFixed(4));
+
+const scaleOptional = (value: number | null | undefined, factor: number): number | null | undefined =>
+  value === null || value === undefined ? value : scale(value, factor);
+
+/**
+ * Strip a trade down to what the share allows
+ */
+export function redactTrade(trade: Trade, settings: SharePrivacySettings, factor: number): Trade {
+  const redacted: Trade = { ...trade };
+
+  if (settings.strip_notes) {
+    redacted.notes = undefined;
+  }
+  if (settings.strip_images) {
+    redacted.images = [] as unknown as Record<string, unknown>;
+  }
+  if (settings.hide_amounts) {
+    redacted.amount = scale(trade.amount, factor);
+    redacted.commission = scaleOptional(trade.commission, factor);
+    redacted.swap = scaleOptional(trade.swap, factor);
+    redacted.fees = scaleOptional(trade.fees, factor);
+    // Lot size times price distance gives the dollar amount back
+    redacted.position_size = null;
+  }
+
+  return redacted;
+}
+
+/**
+ * Headline statistics of a subset of trades, in the shape of the calendar columns
+ */
+function summarizeTrades(trades: Trade[], accountBalance: number): Partial<Calendar> {
+  const wins = trades.filter((trade) => trade.trade_type === 'win');
+  const losses = trades.filter((trade) => trade.trade_type === 'loss');
+  const grossProfit = wins.reduce((sum, trade) => sum + trade.amount, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, trade) => sum + trade.amount, 0));
+  const totalPnL = trades.reduce((sum, trade) => sum + trade.amount, 0);
+
+  // Peak-to-trough drawdown of the running balance, as a percentage of the peak
+  let balance = accountBalance;
+  let peak = accountBalance;
+  let maxDrawdown = 0;
+  [...trades]
+    .sort((a, b) => new Date(a.trade_date).getTime() - new Date(b.trade_date).getTime())
+    .forEach((trade) => {
+      balance += trade.amount;
+      peak = Math.max(peak, balance);
+      if (peak > 0) maxDrawdown = Math.max(maxDrawdown, ((peak - balance) / peak) * 100);
+    });
+
+  return {
+    total_trades: trades.length,
+    win_count: wins.length,
+    loss_count: losses.length,
+    win_rate: trades.length > 0 ? Number(((wins.length / trades.length) * 100).toFixed(2)) : 0,
+    total_pnl: Number(totalPnL.toFixed(2)),
+    avg_win: wins.length > 0 ? Number((grossProfit / wins.length).toFixed(2)) : 0,
+    avg_loss: losses.length > 0 ? Number((grossLoss / losses.length).toFixed(2)) : 0,
+    profit_factor: grossLoss > 0 ? Number((grossProfit / grossLoss).toFixed(2)) : 0,
+    max_drawdown: Number(maxDrawdown.toFixed(2)),
+    current_balance: Number((accountBalance + totalPnL).toFixed(2)),
+    pnl_performance: accountBalance > 0 ? Number(((totalPnL / accountBalance) * 100).toFixed(2)) : 0,
+  };
+}
+
+function scaleYearStats(yearStats: Record<string, YearStats>, factor: number): Record<string, YearStats> {
+  const scaled: Record<string, YearStats> = {};
+  for (const [year, stats] of Object.entries(yearStats)) {
+    scaled[year] = {
+      ...stats,
+      yearly_pnl: scale(stats.yearly_pnl, factor),
+      best_month_pnl: scale(stats.best_month_pnl, factor),
+      monthly_stats: stats.monthly_stats.map((month) => ({
+        ...month,
+        month_pnl: scale(month.month_pnl, factor),
+        account_value_at_start: scale(month.account_value_at_start, factor),
+      })),
+    };
+  }
+  return scaled;
+}
+
+/**
+ * Strip the calendar down to what the share allows
+ * @param calendar Full calendar row
+ * @param sharedTrades Trades left after filterSharedTrades, before redaction
+ * @param settings Resolved privacy settings
+ * @param factor Amount scale from getAmountScale
+ */
+export function redactCalendar(
+  calendar: Calendar,
+  sharedTrades: Trade[],
+  settings: SharePrivacySettings,
+  factor: number
+): Calendar {
+  const redacted: Calendar = { ...calendar };
+
+  // Stats of the whole calendar would leak the trades that were filtered out
+  if (hasTradeFilters(settings)) {
+    Object.assign(redacted, summarizeTrades(sharedTrades, calendar.account_balance), {
+      year_stats: buildYearStats(sharedTrades, calendar.account_balance),
+      weekly_pnl: 0,
+      monthly_pnl: 0,
+      yearly_pnl: 0,
+      weekly_pnl_percentage: 0,
+      monthly_pnl_percentage: 0,
+      yearly_pnl_percentage: 0,
+      weekly_progress: 0,
+      monthly_progress: 0,
+      target_progress: 0,
+      drawdown_start_date: undefined,
+      drawdown_end_date: undefined,
+      drawdown_recovery_needed: 0,
+      drawdown_duration: 0,
+    });
+  }
+
+  if (settings.strip_notes) {
+    redacted.note = undefined;
+  }
+
+  if (settings.hide_amounts) {
+    redacted.account_balance = scale(redacted.account_balance, factor);
+    redacted.current_balance = scale(redacted.current_balance, factor);
+    redacted.total_pnl = scale(redacted.total_pnl, factor);
+    redacted.avg_win = scale(redacted.avg_win, factor);
+    redacted.avg_loss = scale(redacted.avg_loss, factor);
+    redacted.weekly_pnl = scale(redacted.weekly_pnl, factor);
+    redacted.monthly_pnl = scale(redacted.monthly_pnl, factor);
+    redacted.yearly_pnl = scale(redacted.yearly_pnl, factor);
+    redacted.year_stats = redacted.year_stats ? scaleYearStats(redacted.year_stats, factor) : redacted.year_stats;
+
+    const challengeRules = redacted.challenge_rules as Record<string, unknown> | null | undefined;
+    if (challengeRules?.starting_balance) {
+      redacted.challenge_rules = {
+        ...challengeRules,
+        starting_balance: scale(challengeRules.starting_balance as number, factor),
+      };
+    }
+  }
+
+  return redacted;
+}
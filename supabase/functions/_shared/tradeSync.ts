@@ -19,6 +19,54 @@ export interface CalendarRiskSettings {
   cumulative_pnl?: number;
 }
 
+/**
+ * What happens when a synced copy was edited in the target calendar
+ * - overwrite: source changes replace the local edits
+ * - keep_local: local edits win, source updates/deletes are skipped
+ * - detach: the copy stops syncing and becomes an independent trade
+ */
+export type SyncConflictPolicy = 'overwrite' | 'keep_local' | 'detach';
+
+/**
+ * Optional fields that propagate to synced copies
+ * Core trade data (date, type, prices, session, R:R) always propagates
+ */
+export interface SyncFieldSettings {
+  tags: boolean;
+  notes: boolean;
+  images: boolean;
+  amount: boolean;
+}
+
+/**
+ * Per-link sync settings (calendar_links.sync_settings)
+ */
+export interface CalendarSyncSettings {
+  sync_window_hours: number | null; // null = sync forever
+  sync_fields: SyncFieldSettings;
+  conflict_policy: SyncConflictPolicy;
+}
+
+export const DEFAULT_SYNC_SETTINGS: CalendarSyncSettings = {
+  sync_window_hours: 24,
+  sync_fields: { tags: true, notes: true, images: true, amount: true },
+  conflict_policy: 'overwrite',
+};
+
+/**
+ * Merge stored sync settings over the defaults
+ */
+export function resolveSyncSettings(raw?: Record<string, unknown> | null): CalendarSyncSettings {
+  const stored = (raw || {}) as Partial<CalendarSyncSettings>;
+  return {
+    sync_window_hours: stored.sync_window_hours === undefined
+      ? DEFAULT_SYNC_SETTINGS.sync_window_hours
+      : stored.sync_window_hours,
+    sync_fields: { ...DEFAULT_SYNC_SETTINGS.sync_fields, ...(stored.sync_fields || {}) },
+    conflict_policy: stored.conflict_policy || DEFAULT_SYNC_SETTINGS.conflict_policy,
+  };
+}
+
 /**
  * Raw calendar data from database query
  */
@@ -162,13 +210,18 @@ export function calculateSyncedAmount(
  * @param sourceTrade - The original trade
  * @param targetCalendarId - Target calendar ID
  * @param targetSettings - Optional: target calendar settings for amount recalculation
+ * @param syncFields - Optional: which optional fields propagate (all by default)
+ * @param isUpdate - For updates, disabled fields are left out so the copy keeps its own values.
+ *                   New copies always get an amount.
  * @returns Trade data ready for insertion into target calendar
  */
 export function prepareSyncedTrade(
   sourceTrade: Trade,
   targetCalendarId: string,
-  targetSettings?: CalendarRiskSettings
-): Omit<Trade, 'id' | 'created_at' | 'updated_at'> {
+  targetSettings?: CalendarRiskSettings,
+  syncFields: SyncFieldSettings = DEFAULT_SYNC_SETTINGS.sync_fields,
+  isUpdate: boolean = false
+): Partial<Omit<Trade, 'id' | 'created_at' | 'updated_at'>> {
   // Calculate amount - recalculate if target settings provided, otherwise copy raw
   const syncedAmount = targetSettings
     ? calculateSyncedAmount(sourceTrade, targetSettings)
@@ -187,10 +240,16 @@ export function prepareSyncedTrade(
     is_shared,
     shared_at,
     share_id,
+    last_synced_at,
+    locally_modified_at,
+    // Trash state and purge schedule are per calendar; trash changes are synced explicitly
+    deleted_at,
+    deleted_by,
+    auto_delete_at,
     ...tradeData
   } = sourceTrade;
 
-  return {
+  const syncedTrade: Partial<Omit<Trade, 'id' | 'created_at' | 'updated_at'>> = {
     ...tradeData,
     amount: syncedAmount,
     calendar_id: targetCalendarId,
@@ -202,20 +261,43 @@ export function prepareSyncedTrade(
     shared_at: undefined,
     share_id: undefined,
   };
+
+  if (!syncFields.tags) delete syncedTrade.tags;
+  if (!syncFields.notes) delete syncedTrade.notes;
+  if (!syncFields.images) delete syncedTrade.images;
+  // Size and costs belong to the source position; drop them once the amount is recalculated
+  if (syncedAmount !== sourceTrade.amount) {
+    syncedTrade.position_size = null;
+    syncedTrade.commission = null;
+    syncedTrade.swap = null;
+    syncedTrade.fees = null;
+  }
+
+  if (!syncFields.amount && isUpdate) {
+    delete syncedTrade.amount;
+    delete syncedTrade.position_size;
+    delete syncedTrade.commission;
+    delete syncedTrade.swap;
+    delete syncedTrade.fees;
+  }
+
+  return syncedTrade;
 }
 
 /**
- * Check if a trade is within the sync window (24 hours from creation)
+ * Check if a trade is within the sync window (hours from creation)
  * After this window, the target trade becomes independent
  *
  * @param trade - The trade to check
+ * @param windowHours - Window length in hours, null to sync forever (defaults to 24)
  * @returns true if within sync window, false otherwise
  */
-export function isWithinSyncWindow(trade: Trade): boolean {
+export function isWithinSyncWindow(trade: Trade, windowHours: number | null = 24): boolean {
+  if (windowHours === null) return true;
   const createdAt = new Date(trade.created_at);
   const now = new Date();
   const hoursSinceCreation = (now.getTime() - createdAt.getTime()) / (1000 * 60 * 60);
-  return hoursSinceCreation <= 24;
+  return hoursSinceCreation <= windowHours;
 }
 
 /**
@@ -223,11 +305,29 @@ export function isWithinSyncWindow(trade: Trade): boolean {
  * Useful for UI display
  *
  * @param trade - The trade to check
- * @returns Hours remaining (0 if expired)
+ * @param windowHours - Window length in hours, null to sync forever (defaults to 24)
+ * @returns Hours remaining (0 if expired, null if the window never closes)
  */
-export function getSyncWindowHoursRemaining(trade: Trade): number {
+export function getSyncWindowHoursRemaining(trade: Trade, windowHours: number | null = 24): number | null {
+  if (windowHours === null) return null;
   const createdAt = new Date(trade.created_at);
   const now = new Date();
   const hoursSinceCreation = (now.getTime() - createdAt.getTime()) / (1000 * 60 * 60);
-  return Math.max(0, 24 - hoursSinceCreation);
+  return Math.max(0, windowHours - hoursSinceCreation);
+}
+
+/**
+ * Decide what to do with a source change for a synced copy
+ * Copies without local edits always take the change
+ *
+ * @param syncedCopy - The synced copy in the target calendar
+ * @param policy - Link conflict policy
+ * @returns 'apply' to write the change, 'skip' to ignore it, 'detach' to make the copy independent
+ */
+export function resolveSyncConflict(
+  syncedCopy: Pick<Trade, 'locally_modified_at'>,
+  policy: SyncConflictPolicy
+): 'apply' | 'skip' | 'detach' {
+  if (!syncedCopy.locally_modified_at || policy === 'overwrite') return 'apply';
+  return policy === 'detach' ? 'detach' : 'skip';
 }
@@ -0,0 +1,164 @@
+/**
+ * Trading Session Utilities
+ * Server-side port of the client session utilities (src/utils/sessionTimeUtils.ts).
+ * Sessions are defined in local time of an IANA time zone; calendars can define
+ * their own sessions in calendars.trading_sessions, the defaults apply otherwise.
+ */
+
+export interface SessionDefinition {
+  name: string;
+  start: string; // "HH:mm" local time
+  end: string; // "HH:mm" local time, before start when the session runs past midnight
+  time_zone: string; // IANA time zone, e.g. "Europe/London"
+}
+
+export interface SessionTimeRange {
+  start: Date;
+  end: Date;
+}
+
+export const DEFAULT_TRADING_SESSIONS: SessionDefinition[] = [
+  // Timed against the London open (Tokyo doesn't observe DST)
+  { name: 'Asia', start: '23:00', end: '08:00', time_zone: 'Europe/London' },
+  { name: 'London', start: '08:00', end: '13:00', time_zone: 'Europe/London' },
+  { name: 'NY AM', start: '08:00', end: '13:00', time_zone: 'America/New_York' },
+  { name: 'NY PM', start: '13:00', end: '17:00', time_zone: 'America/New_York' }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const LEGACY_SESSION_NAMES: Record<string, string> = {
+  'london': 'London',
+  'new-york': 'NY AM',
+  'tokyo': 'Asia',
+  'sydney': 'Asia'
+};
+
+/**
+ * The calendar's sessions, or the default sessions when it has none
+ */
+export function getCalendarSessions(calendar?: { trading_sessions?: SessionDefinition[] | null } | null): SessionDefinition[] {
+  return calendar?.trading_sessions && calendar.trading_sessions.length > 0
+    ? calendar.trading_sessions
+    : DEFAULT_TRADING_SESSIONS;
+}
+
+function parseSessionTime(time: string): number | null {
+  const match = TIME_PATTERN.exec(time);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Offset of a time zone from UTC at the given instant in minutes, null for unknown zones
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number | null {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hour12: false,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric'
+      });
+    } catch {
+      return null;
+    }
+    formatters.set(timeZone, formatter);
+  }
+
+  const values: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') values[part.type] = Number(part.value);
+  }
+
+  // Some engines format midnight as hour 24
+  const localAsUtc = Date.UTC(values.year, values.month - 1, values.day, values.hour % 24, values.minute, values.second);
+  const utc = date.getTime() - date.getUTCMilliseconds();
+  return Math.round((localAsUtc - utc) / 60000);
+}
+
+function zonedTimeToUtc(year: number, month: number, day: number, minutes: number, timeZone: string): Date | null {
+  const localAsUtc = Date.UTC(year, month, day, 0, minutes);
+  const firstOffset = getTimeZoneOffset(new Date(localAsUtc), timeZone);
+  if (firstOffset === null) return null;
+  const offset = getTimeZoneOffset(new Date(localAsUtc - firstOffset * 60000), timeZone) ?? firstOffset;
+  return new Date(localAsUtc - offset * 60000);
+}
+
+// The calendar's own session names win over the legacy names (e.g. a custom "Sydney" session)
+function findSessionDefinition(session: string, sessions: SessionDefinition[]): SessionDefinition | undefined {
+  const find = (name: string) => sessions.find(definition => definition.name.toLowerCase() === name.toLowerCase());
+  return find(session) || (LEGACY_SESSION_NAMES[session] ? find(LEGACY_SESSION_NAMES[session]) : undefined);
+}
+
+/**
+ * Normalize a session name to the matching session's name (case-insensitive, legacy names)
+ * Unknown names are returned as they are
+ */
+export function normalizeSessionName(session: string, sessions: SessionDefinition[] = DEFAULT_TRADING_SESSIONS): string {
+  return findSessionDefinition(session, sessions)?.name || session;
+}
+
+/**
+ * UTC range of a session on a date (UTC calendar day)
+ * Sessions that run past midnight start on the day before; null for unknown or invalid sessions
+ */
+export function getSessionTimeRange(
+  session: string,
+  date: Date,
+  sessions: SessionDefinition[] = DEFAULT_TRADING_SESSIONS
+): SessionTimeRange | null {
+  const definition = findSessionDefinition(session, sessions);
+  if (!definition) return null;
+  const startMinutes = parseSessionTime(definition.start);
+  const endMinutes = parseSessionTime(definition.end);
+  if (startMinutes === null || endMinutes === null) return null;
+
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+  const spansMidnight = endMinutes <= startMinutes;
+  const start = zonedTimeToUtc(year, month, spansMidnight ? day - 1 : day, startMinutes, definition.time_zone);
+  const end = zonedTimeToUtc(year, month, day, endMinutes, definition.time_zone);
+  return start && end ? { start, end } : null;
+}
+
+/**
+ * The session a timestamp falls into; when sessions overlap the shortest one wins
+ * Returns undefined for times outside every session window
+ */
+export function getSessionForTime(
+  time: Date,
+  sessions: SessionDefinition[] = DEFAULT_TRADING_SESSIONS
+): string | undefined {
+  let match: { name: string; duration: number } | undefined;
+
+  for (const session of sessions) {
+    for (const day of [time, new Date(time.getTime() + DAY_MS)]) {
+      const range = getSessionTimeRange(session.name, day, sessions);
+      if (!range || time < range.start || time >= range.end) continue;
+      const duration = range.end.getTime() - range.start.getTime();
+      if (!match || duration < match.duration) {
+        match = { name: session.name, duration };
+      }
+      break;
+    }
+  }
+
+  return match?.name;
+}
+
+/**
+ * Session hours for display, e.g. "08:00-13:00 Europe/London"
+ */
+export function formatSessionHours(session: SessionDefinition): string {
+  return `${session.start}-${session.end} ${session.time_zone}`;
+}
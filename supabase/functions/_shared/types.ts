@@ -4,6 +4,8 @@
  * All types match the Supabase PostgreSQL schema
  */
 
+import type { SessionDefinition } from './tradingSessions.ts'
+
 // Database Models (matching PostgreSQL schema)
 
 /**
@@ -37,6 +39,20 @@ export interface YearStats {
   monthly_stats: MonthlyStats[] // Array of 12 months (indices 0-11)
 }
 
+/**
+ * Privacy settings of a calendar share (calendars.share_settings)
+ * Enforced by the get-shared-calendar edge function
+ */
+export interface SharePrivacySettings {
+  hide_amounts: boolean
+  amount_display: 'percentage' | 'r' // Unit that replaces dollar amounts when hidden
+  strip_notes: boolean
+  strip_images: boolean
+  start_date?: string | null // yyyy-MM-dd, inclusive
+  end_date?: string | null // yyyy-MM-dd, inclusive
+  tags?: string[] // Only trades with at least one of these tags
+}
+
 export interface User {
   id: string
   email: string
@@ -66,7 +82,6 @@ export interface Calendar {
   profit_threshold_percentage?: number
   duplicated_calendar?: boolean
   source_calendar_id?: string
-  linked_to_calendar_id?: string // Target calendar for one-way trade sync
   deleted_at?: string
   deleted_by?: string
   auto_delete_at?: string
@@ -78,6 +93,12 @@ export interface Calendar {
   score_settings?: Record<string, unknown>
   economic_calendar_filters?: Record<string, unknown>
   pinned_events?: Record<string, unknown>[]
+  challenge_rules?: Record<string, unknown> | null
+  weekly_review_enabled?: boolean
+  weekly_review_note_id?: string | null
+  weekly_review_week_start?: string | null
+  weekly_review_attempted_at?: string | null
+  trading_sessions?: SessionDefinition[] | null
   year_stats?: Record<string, YearStats>
   win_rate: number
   profit_factor: number
@@ -107,10 +128,26 @@ export interface Calendar {
   is_shared?: boolean
   shared_at?: string
   share_id?: string
+  share_settings?: SharePrivacySettings | null
+  share_expires_at?: string | null
+  share_view_count?: number
   mark_for_deletion?: boolean
   deletion_date?: string
 }
 
+export interface CalendarLink {
+  id: string
+  source_calendar_id: string
+  target_calendar_id: string
+  user_id: string
+  sync_settings?: Record<string, unknown> // Per-link sync settings (see tradeSync.ts)
+  last_sync_at?: string
+  last_sync_status?: 'success' | 'skipped' | 'error'
+  last_sync_error?: string
+  created_at: string
+  updated_at: string
+}
+
 export interface Trade {
   id: string
   calendar_id: string
@@ -125,17 +162,31 @@ export interface Trade {
   exit_price?: number
   risk_to_reward?: number
   partials_taken?: boolean
+  instrument?: string | null
+  direction?: 'long' | 'short' | null
+  position_size?: number | null
+  commission?: number | null // Trading costs, already included in amount (net)
+  swap?: number | null
+  fees?: number | null
   session?: 'Asia' | 'London' | 'NY AM' | 'NY PM'
   notes?: string
   tags?: string[]
+  checklist?: Array<{ id: string; label: string; mandatory: boolean; checked: boolean }> | null // Pre-trade checklist answers
   is_temporary?: boolean
   is_pinned?: boolean
   source_trade_id?: string // Reference to original trade if this is a synced copy
   is_synced_copy?: boolean // True if auto-created by calendar linking
+  last_synced_at?: string // When calendar linking last wrote this copy
+  locally_modified_at?: string // Set when the copy was edited in its own calendar since the last sync
   share_link?: string
   is_shared?: boolean
   shared_at?: string
   share_id?: string
+  share_expires_at?: string | null
+  share_view_count?: number
+  deleted_at?: string | null // Set while the trade is in the trash
+  deleted_by?: string | null
+  auto_delete_at?: string | null
   images?: Record<string, unknown>
   stop_loss?: number
   take_profit?: number
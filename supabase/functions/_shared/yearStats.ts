@@ -0,0 +1,151 @@
+/**
+ * Year Stats Utilities
+ * Builds the calendar.year_stats structure (yearly aggregates with a monthly breakdown)
+ */
+
+import { log } from './supabase.ts';
+import type { Trade, YearStats, MonthlyStats } from './types.ts';
+
+/**
+ * Compute year statistics from a calendar's trades
+ * @param trades Trades to aggregate, any order
+ * @param accountBalance Balance before the first trade, carried over from year to year
+ */
+export function buildYearStats(trades: Trade[], accountBalance: number): Record<string, YearStats> {
+  // Group trades by year
+  const tradesByYear = new Map<number, Trade[]>();
+  trades.forEach((trade: Trade) => {
+    const tradeDate = new Date(trade.trade_date);
+    const year = tradeDate.getFullYear();
+
+    if (!tradesByYear.has(year)) {
+      tradesByYear.set(year, []);
+    }
+    tradesByYear.get(year)!.push(trade);
+  });
+
+  log(`Found ${tradesByYear.size} years with trades`);
+
+  // Calculate stats for each year
+  const yearStatsMap: Record<string, YearStats> = {};
+
+  // Sort years in ascending order to properly carry over balance
+  const sortedYears = Array.from(tradesByYear.keys()).sort((a, b) => a - b);
+
+  // Track the running balance across years - starts at account balance
+  let carryOverBalance = accountBalance;
+
+  for (const year of sortedYears) {
+    const yearTrades = tradesByYear.get(year)!;
+    log(`Calculating stats for year ${year} with ${yearTrades.length} trades`);
+
+    // Initialize monthly stats array (12 months, indices 0-11)
+    const monthlyStatsArray: MonthlyStats[] = [];
+    for (let monthIndex = 0; monthIndex < 12; monthIndex++) {
+      monthlyStatsArray.push({
+        month_index: monthIndex,
+        month_pnl: 0,
+        trade_count: 0,
+        win_count: 0,
+        loss_count: 0,
+        growth_percentage: 0,
+        account_value_at_start: 0,
+      });
+    }
+
+    // Group trades by month and calculate monthly stats
+    // Use carryOverBalance from previous year (or accountBalance for first year)
+    const yearStartBalance = carryOverBalance; // Save for growth percentage calculation
+    let runningBalance = carryOverBalance;
+    const monthlyTrades = new Map<number, Trade[]>();
+
+    yearTrades.forEach((trade) => {
+      const tradeDate = new Date(trade.trade_date);
+      const monthIndex = tradeDate.getMonth(); // 0-11
+
+      if (!monthlyTrades.has(monthIndex)) {
+        monthlyTrades.set(monthIndex, []);
+      }
+      monthlyTrades.get(monthIndex)!.push(trade);
+    });
+
+    // Calculate stats for each month
+    for (let monthIndex = 0; monthIndex < 12; monthIndex++) {
+      const monthTrades = monthlyTrades.get(monthIndex) || [];
+      const monthStartBalance = runningBalance;
+
+      let monthPnL = 0;
+      let winCount = 0;
+      let lossCount = 0;
+
+      monthTrades.forEach((trade) => {
+        monthPnL += trade.amount;
+        if (trade.trade_type === 'win') winCount++;
+        else if (trade.trade_type === 'loss') lossCount++;
+      });
+
+      runningBalance += monthPnL;
+
+      const growthPercentage = monthStartBalance > 0
+        ? (monthPnL / monthStartBalance) * 100
+        : 0;
+
+      monthlyStatsArray[monthIndex] = {
+        month_index: monthIndex,
+        month_pnl: monthPnL,
+        trade_count: monthTrades.length,
+        win_count: winCount,
+        loss_count: lossCount,
+        growth_percentage: Number(growthPercentage.toFixed(2)),
+        account_value_at_start: monthStartBalance,
+      };
+    }
+
+    // Calculate yearly aggregates
+    const yearlyPnL = yearTrades.reduce((sum, trade) => sum + trade.amount, 0);
+    const totalTrades = yearTrades.length;
+    const winCount = yearTrades.filter((t) => t.trade_type === 'win').length;
+    const lossCount = yearTrades.filter((t) => t.trade_type === 'loss').length;
+    const winRate = totalTrades > 0 ? (winCount / totalTrades) * 100 : 0;
+    // Use year's starting balance for growth percentage (includes prior years' P&L)
+    const yearlyGrowthPercentage = yearStartBalance > 0
+      ? (yearlyPnL / yearStartBalance) * 100
+      : 0;
+
+    // Find best month (month with highest P&L)
+    let bestMonthIndex = 0;
+    let bestMonthPnL = monthlyStatsArray[0].month_pnl;
+
+    monthlyStatsArray.forEach((monthStats) => {
+      if (monthStats.month_pnl > bestMonthPnL) {
+        bestMonthPnL = monthStats.month_pnl;
+        bestMonthIndex = monthStats.month_index;
+      }
+    });
+
+    yearStatsMap[year.toString()] = {
+      year,
+      yearly_pnl: Number(yearlyPnL.toFixed(2)),
+      yearly_growth_percentage: Number(yearlyGrowthPercentage.toFixed(2)),
+      total_trades: totalTrades,
+      win_count: winCount,
+      loss_count: lossCount,
+      win_rate: Number(winRate.toFixed(2)),
+      best_month_index: bestMonthIndex,
+      best_month_pnl: Number(bestMonthPnL.toFixed(2)),
+      monthly_stats: monthlyStatsArray,
+    };
+
+    log(`Year ${year} stats calculated:`, 'info', {
+      yearly_pnl: yearlyPnL,
+      total_trades: totalTrades,
+      win_rate: winRate.toFixed(2),
+      best_month: bestMonthIndex,
+    });
+
+    // Carry over the ending balance to the next year
+    carryOverBalance = runningBalance;
+  }
+
+  return yearStatsMap;
+}
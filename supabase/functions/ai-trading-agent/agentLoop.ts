@@ -0,0 +1,284 @@
+/**
+ * Agent Loop
+ * Provider-independent function calling loop: asks the model, runs the tools it
+ * calls and feeds the results back until it answers with text
+ */
+
+import { log } from '../_shared/supabase.ts';
+import { encodeBase64 } from "https://deno.land/std@0.208.0/encoding/base64.ts";
+import type { GeminiFunctionDeclaration } from './tools.ts';
+import type { LLMFunctionCall, LLMMessage, LLMPart, LLMProvider, LLMResponse } from './llmProviders.ts';
+
+export interface AgentLoopOptions {
+  provider: LLMProvider;
+  systemPrompt: string;
+  message: string;
+  conversationHistory: Array<{ role: string; content: string }>;
+  tools: GeminiFunctionDeclaration[];
+  executeTool: (call: LLMFunctionCall) => Promise<string>;
+  userImages?: Array<{ url: string; mimeType: string }>;
+  // Streams model output when set
+  onText?: (text: string) => Promise<void>;
+  onToolCall?: (call: LLMFunctionCall) => Promise<void>;
+  onToolResult?: (call: LLMFunctionCall, result: string) => Promise<void>;
+  maxTurns?: number;
+  retryDelayMs?: number; // Base delay between empty response retries
+}
+
+export interface AgentLoopResult {
+  finalText: string;
+  functionCalls: Array<{ name: string; args: Record<string, unknown>; result: string }>;
+  turnCount: number;
+  // Full conversation, for follow-up turns such as reference ID corrections
+  messages: LLMMessage[];
+}
+
+const DEFAULT_MAX_TURNS = 15;
+const MAX_EMPTY_RESPONSE_RETRIES = 3;
+const MAX_SEARCH_WEB_CALLS = 3;
+
+export const EMPTY_RESPONSE_FALLBACK = "I apologize, but I'm having trouble generating a response right now. This appears to be a temporary issue with the AI service. Please try rephrasing your question or try again in a moment.";
+
+const isEmptyResponse = (result: LLMResponse): boolean => !result.text && result.functionCalls.length === 0;
+
+/**
+ * Run the function calling loop for one user message
+ */
+export async function runAgentLoop(options: AgentLoopOptions): Promise<AgentLoopResult> {
+  const { provider, systemPrompt, message, tools, executeTool, onText, onToolCall, onToolResult } = options;
+  const maxTurns = options.maxTurns ?? DEFAULT_MAX_TURNS;
+
+  const history: LLMMessage[] = options.conversationHistory.map((msg): LLMMessage => ({
+    role: msg.role === 'user' ? 'user' : 'model',
+    parts: [{ type: 'text', text: msg.content }]
+  }));
+
+  // Images first so the model sees them before the text
+  const imageParts = buildUserImageParts(options.userImages);
+  const messages: LLMMessage[] = [
+    ...history,
+    { role: 'user', parts: [...imageParts, { type: 'text', text: message }] }
+  ];
+
+  log(`LLM request (${provider.id}/${provider.model}): ${messages.length} messages, ${tools.length} tools`, 'info');
+
+  // Force a tool call on the first turn to prevent "I will search..." without action,
+  // unless images are attached - then the model may answer about them directly
+  let result = await provider.generate({
+    systemPrompt,
+    messages,
+    tools,
+    toolMode: imageParts.length > 0 ? 'AUTO' : 'ANY'
+  }, onText);
+
+  const functionCalls: AgentLoopResult['functionCalls'] = [];
+  let finalText = '';
+  let turnCount = 0;
+
+  if (isEmptyResponse(result)) {
+    const retried = await retryEmptyResponse(options, history);
+    if (!retried) {
+      log('All retries failed - providing fallback response', 'warn');
+      if (onText) await onText(EMPTY_RESPONSE_FALLBACK);
+      return { finalText: EMPTY_RESPONSE_FALLBACK, functionCalls, turnCount, messages };
+    }
+    result = retried;
+  }
+
+  while (turnCount < maxTurns) {
+    turnCount++;
+
+    // Keep the latest text, also when it comes with function calls
+    if (result.text) {
+      finalText = result.text;
+    }
+
+    const calls = result.functionCalls;
+    if (calls.length === 0) {
+      if (!finalText) {
+        log('Warning: No function calls and no text in response - breaking loop', 'warn');
+      }
+      break;
+    }
+
+    if (calls.length === 1) {
+      const call = calls[0];
+
+      // Repeating the same call is a sign of being stuck
+      const lastCall = functionCalls[functionCalls.length - 1];
+      if (lastCall && lastCall.name === call.name &&
+          JSON.stringify(lastCall.args) === JSON.stringify(call.args)) {
+        log('Detected repeated function call - breaking loop', 'info');
+        break;
+      }
+
+      const searchWebCount = functionCalls.filter(fc => fc.name === 'search_web').length;
+      if (call.name === 'search_web' && searchWebCount >= MAX_SEARCH_WEB_CALLS) {
+        log('Too many search_web calls - breaking loop', 'info');
+        break;
+      }
+    }
+
+    log(`Executing ${calls.length} function${calls.length === 1 ? '' : 's'}: ${calls.map(call => call.name).join(', ')}`, 'info');
+
+    if (onToolCall) {
+      for (const call of calls) {
+        await onToolCall(call);
+      }
+    }
+
+    const results = await Promise.all(calls.map(async call => {
+      try {
+        return { call, result: await executeTool(call) };
+      } catch (error) {
+        log(`Error executing ${call.name}: ${error}`, 'error');
+        return { call, result: `Error: ${error}` };
+      }
+    }));
+
+    const responseParts: LLMPart[] = [];
+    for (const { call, result: toolResult } of results) {
+      if (onToolResult) await onToolResult(call, toolResult);
+      functionCalls.push({ name: call.name, args: call.args, result: toolResult });
+      responseParts.push(...await buildToolResponseParts(call, toolResult));
+    }
+
+    messages.push({
+      role: 'model',
+      parts: [
+        ...(result.text ? [{ type: 'text' as const, text: result.text }] : []),
+        ...calls.map(call => ({ type: 'function_call' as const, call }))
+      ]
+    });
+    messages.push({ role: 'user', parts: responseParts });
+
+    // AUTO mode for continuation: allow text responses after function results
+    result = await provider.generate({ systemPrompt, messages, tools, toolMode: 'AUTO' }, onText);
+  }
+
+  // Text of a response that came in after the last turn was used up
+  if (turnCount >= maxTurns && result.text) {
+    finalText = result.text;
+  }
+
+  if (!finalText) {
+    log(`Warning: Completed in ${turnCount} turns with ${functionCalls.length} function calls but NO TEXT generated`, 'warn');
+  } else {
+    log(`Completed in ${turnCount} turns with ${functionCalls.length} function calls`, 'info');
+  }
+
+  return { finalText, functionCalls, turnCount, messages };
+}
+
+/**
+ * Retry an empty first response with simpler requests
+ * Works around Gemini sometimes returning finishReason STOP without any parts
+ * See: https://discuss.ai.google.dev/t/gemini-2-5-pro-with-empty-response-text/81175
+ */
+async function retryEmptyResponse(options: AgentLoopOptions, history: LLMMessage[]): Promise<LLMResponse | null> {
+  const { provider, systemPrompt, message, tools, onText } = options;
+  log('Detected empty model response, attempting retry with context enhancement', 'warn');
+
+  // Get last assistant message from history for context
+  const lastAssistantMsg = [...options.conversationHistory].reverse().find(m => m.role === 'assistant');
+  const contextPrefix = lastAssistantMsg
+    ? `(Continuing our conversation - you previously said: "${lastAssistantMsg.content.substring(0, 200)}...")\n\n`
+    : '';
+
+  for (let retryAttempt = 1; retryAttempt <= MAX_EMPTY_RESPONSE_RETRIES; retryAttempt++) {
+    // Exponential backoff: 1s, 2s, 4s
+    const delayMs = Math.pow(2, retryAttempt - 1) * (options.retryDelayMs ?? 1000);
+    log(`Retry ${retryAttempt}/${MAX_EMPTY_RESPONSE_RETRIES} after ${delayMs}ms delay`, 'info');
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+
+    let clarifiedMessage: string;
+    let retryTools = tools;
+
+    if (retryAttempt === 1) {
+      // Retry 1: Add context from conversation
+      clarifiedMessage = `${contextPrefix}User response: "${message}"\n\nPlease respond to the user's message above.`;
+    } else if (retryAttempt === 2) {
+      // Retry 2: Simplify - use fewer tools
+      clarifiedMessage = `${contextPrefix}User says: "${message}"\n\nProvide a helpful response.`;
+      retryTools = tools.filter(t =>
+        ['execute_sql', 'get_performance_summary', 'search_web', 'get_crypto_price', 'get_forex_price', 'create_note', 'update_memory'].includes(t.name)
+      );
+      log(`Retry 2: Using reduced tool set (${retryTools.length} tools)`, 'info');
+    } else {
+      // Retry 3: No tools - just get a response
+      clarifiedMessage = `The user said: "${message}"\n\nBased on our conversation, please provide a helpful response. You can ask clarifying questions if needed.`;
+      retryTools = [];
+      log('Retry 3: No tools - forcing text response', 'info');
+    }
+
+    const result = await provider.generate({
+      systemPrompt,
+      messages: [...history, { role: 'user', parts: [{ type: 'text', text: clarifiedMessage }] }],
+      tools: retryTools,
+      toolMode: 'ANY'
+    }, onText);
+
+    if (!isEmptyResponse(result)) {
+      log(`Retry ${retryAttempt} succeeded`, 'info');
+      return result;
+    }
+    log(`Retry ${retryAttempt} also returned empty`, 'warn');
+  }
+
+  return null;
+}
+
+/**
+ * Convert user-attached data URL images to image parts
+ */
+function buildUserImageParts(userImages?: Array<{ url: string; mimeType: string }>): LLMPart[] {
+  const parts: LLMPart[] = [];
+  if (!userImages || userImages.length === 0) return parts;
+
+  log(`Injecting ${userImages.length} user images into request`, 'info');
+  for (const img of userImages) {
+    const dataUrlMatch = img.url.match(/^data:([^;]+);base64,(.+)$/);
+    if (dataUrlMatch) {
+      parts.push({ type: 'image', mimeType: dataUrlMatch[1], data: dataUrlMatch[2] });
+      log(`Added image: ${dataUrlMatch[1]}, ${dataUrlMatch[2].length} chars`, 'info');
+    } else {
+      log(`Skipping non-base64 image URL: ${img.url.substring(0, 50)}...`, 'warn');
+    }
+  }
+  return parts;
+}
+
+/**
+ * Build multimodal tool response parts
+ * Detects [IMAGE_ANALYSIS:url] markers and injects the image before the tool result
+ */
+async function buildToolResponseParts(call: LLMFunctionCall, result: string): Promise<LLMPart[]> {
+  const imageMarkerMatch = result.match(/\[IMAGE_ANALYSIS:(https?:\/\/[^\]]+)\]/);
+
+  if (imageMarkerMatch) {
+    const imageUrl = imageMarkerMatch[1];
+    log(`Injecting image into conversation: ${imageUrl.substring(0, 50)}...`, 'info');
+
+    try {
+      const imageResponse = await fetch(imageUrl);
+      if (imageResponse.ok) {
+        const imageBuffer = await imageResponse.arrayBuffer();
+        // Use Deno's encodeBase64 which handles large buffers without stack overflow
+        const data = encodeBase64(new Uint8Array(imageBuffer));
+        const contentType = imageResponse.headers.get('content-type') || 'image/png';
+        const textWithoutMarker = result.replace(/\[IMAGE_ANALYSIS:[^\]]+\]\n?/, '').trim();
+
+        log('Image injected successfully into conversation', 'info');
+        return [
+          { type: 'image', mimeType: contentType.split(';')[0].trim(), data },
+          { type: 'function_response', callId: call.id, name: call.name, result: textWithoutMarker }
+        ];
+      }
+      log(`Failed to fetch image: ${imageResponse.status}`, 'error');
+    } catch (error) {
+      log(`Error fetching image for injection: ${error}`, 'error');
+    }
+  }
+
+  return [{ type: 'function_response', callId: call.id, name: call.name, result }];
+}
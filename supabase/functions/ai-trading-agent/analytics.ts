@@ -0,0 +1,322 @@
+/**
+ * Analytics
+ * Deterministic performance figures for the analytics tools. Everything is derived
+ * from the calculate_chart_data RPC result that feeds the Performance dashboard;
+ * figures the RPC doesn't return are calculated like src/utils/statsUtils.ts
+ */
+
+export type AnalyticsPeriod = 'month' | 'year' | 'all';
+export type PnLMode = 'net' | 'gross';
+export type EventImpact = 'high' | 'medium';
+
+export const ANALYTICS_PERIODS: AnalyticsPeriod[] = ['month', 'year', 'all'];
+
+export interface AnalyticsTrade {
+  id: string;
+  name?: string | null;
+  amount: number;
+  trade_type: 'win' | 'loss' | 'breakeven';
+  trade_date: string;
+  created_at?: string;
+  commission?: number | null;
+  swap?: number | null;
+  fees?: number | null;
+}
+
+export interface TagStat {
+  tag: string;
+  wins: number;
+  losses: number;
+  breakevens: number;
+  total_trades: number;
+  win_rate: number;
+  total_pnl: number;
+}
+
+export interface SessionStat {
+  session: string;
+  total_trades: number;
+  winners: number;
+  losers: number;
+  win_rate: number;
+  total_pnl: number;
+  averagePnL: number;
+  pnlPercentage: number;
+}
+
+interface EventTypeStat {
+  event: string;
+  losingTrades: unknown[] | null;
+  winningTrades: unknown[] | null;
+  totalLoss: number | null;
+  totalWin: number | null;
+  avg_loss: number;
+  avg_win: number;
+  count: number;
+  win_rate: number;
+}
+
+interface EventImpactData {
+  correlationStats: {
+    totalLosingTrades: number;
+    totalWinningTrades: number;
+    losingTradesWithEvents: number;
+    winningTradesWithEvents: number;
+    anyEventLossCorrelationRate: number;
+    anyEventWinCorrelationRate: number;
+    avgLossWithEvents: number;
+    avgLossWithoutEvents: number;
+    avgWinWithEvents: number;
+    avgWinWithoutEvents: number;
+    mostCommonEventTypes: EventTypeStat[];
+  };
+}
+
+/**
+ * The parts of the calculate_chart_data result the analytics tools use
+ */
+export interface ChartDataResult {
+  chartData: Array<{ date: string; pnl: number; cumulativePnl: number; trades: number }>;
+  trades: AnalyticsTrade[];
+  performanceMetrics: {
+    winLossStats: {
+      winners: { total: number; avgAmount: number; maxConsecutive: number };
+      losers: { total: number; avgAmount: number; maxConsecutive: number };
+      breakevens: { total: number };
+      total_trades: number;
+      win_rate: number;
+    };
+    tagStats: TagStat[];
+    riskRewardStats: { average: number; max: number };
+    sessionStats: SessionStat[];
+  };
+  economicCorrelations: Partial<Record<EventImpact, EventImpactData | null>>;
+}
+
+export interface PerformanceSummary {
+  period: string;
+  pnl_mode: PnLMode;
+  total_trades: number;
+  wins: number;
+  losses: number;
+  breakevens: number;
+  win_rate: number;
+  total_pnl: number;
+  profit_factor: number;
+  avg_win: number;
+  avg_loss: number;
+  max_consecutive_wins: number;
+  max_consecutive_losses: number;
+  max_drawdown_percent: number;
+  avg_risk_reward: number;
+  trading_days: number;
+  best_day: { date: string; pnl: number } | null;
+  worst_day: { date: string; pnl: number } | null;
+  total_costs: number;
+}
+
+const round = (value: number, decimals = 2): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round((Number(value) || 0) * factor) / factor;
+};
+
+/**
+ * Parse a YYYY, YYYY-MM or YYYY-MM-DD date at noon UTC, like getNormalizedDate
+ * in chartDataUtils.ts, so date_trunc picks the intended month in any time zone
+ */
+export function parseAnalyticsDate(value?: string): Date | null {
+  if (!value) {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), 12));
+  }
+
+  const match = value.trim().match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : 0;
+  const day = match[3] ? Number(match[3]) : 1;
+  const date = new Date(Date.UTC(year, month, day, 12));
+  if (date.getUTCMonth() !== month || date.getUTCDate() !== day) return null;
+  return date;
+}
+
+/**
+ * Human readable label for a period, e.g. "2026-10", "2026" or "all time"
+ */
+export function formatPeriodLabel(period: AnalyticsPeriod, date: Date): string {
+  if (period === 'all') return 'all time';
+  const year = String(date.getUTCFullYear());
+  return period === 'year' ? year : `${year}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * P&L of a trade in the requested mode (statsUtils.getTradeAmount)
+ */
+function getTradeAmount(trade: AnalyticsTrade, mode: PnLMode): number {
+  const costs = (trade.commission ?? 0) + (trade.swap ?? 0) + (trade.fees ?? 0);
+  return mode === 'gross' ? trade.amount + costs : trade.amount;
+}
+
+/**
+ * Gross profit / gross loss (statsUtils.calculateProfitFactor)
+ */
+export function calculateProfitFactor(trades: AnalyticsTrade[], mode: PnLMode = 'net'): number {
+  const grossProfit = trades
+    .filter(trade => getTradeAmount(trade, mode) > 0)
+    .reduce((sum, trade) => sum + getTradeAmount(trade, mode), 0);
+
+  const grossLoss = Math.abs(trades
+    .filter(trade => getTradeAmount(trade, mode) < 0 || trade.trade_type === 'loss')
+    .reduce((sum, trade) => sum + getTradeAmount(trade, mode), 0));
+
+  if (grossLoss === 0) return grossProfit > 0 ? 50.0 : 0;
+  return grossProfit / grossLoss;
+}
+
+/**
+ * Largest peak-to-trough drop of the running P&L in percent (statsUtils.calculateMaxDrawdown)
+ */
+export function calculateMaxDrawdown(trades: AnalyticsTrade[]): number {
+  const sortedTrades = [...trades].sort((a, b) =>
+    new Date(a.trade_date).getTime() - new Date(b.trade_date).getTime()
+  );
+
+  let balance = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+
+  for (const trade of sortedTrades) {
+    balance += trade.amount;
+    if (balance > peak) {
+      peak = balance;
+    } else if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, (peak - balance) / peak * 100);
+    }
+  }
+
+  return maxDrawdown;
+}
+
+/**
+ * Headline figures for one period
+ */
+export function buildPerformanceSummary(
+  result: ChartDataResult,
+  periodLabel: string,
+  pnlMode: PnLMode
+): PerformanceSummary {
+  const stats = result.performanceMetrics.winLossStats;
+  const trades = result.trades;
+  const days = result.chartData;
+
+  let bestDay: PerformanceSummary['best_day'] = null;
+  let worstDay: PerformanceSummary['worst_day'] = null;
+  for (const day of days) {
+    if (day.pnl > 0 && (!bestDay || day.pnl > bestDay.pnl)) bestDay = { date: day.date, pnl: round(day.pnl) };
+    if (day.pnl < 0 && (!worstDay || day.pnl < worstDay.pnl)) worstDay = { date: day.date, pnl: round(day.pnl) };
+  }
+
+  return {
+    period: periodLabel,
+    pnl_mode: pnlMode,
+    total_trades: stats.total_trades,
+    wins: stats.winners.total,
+    losses: stats.losers.total,
+    breakevens: stats.breakevens.total,
+    win_rate: Number(stats.win_rate),
+    total_pnl: round(days.reduce((sum, day) => sum + Number(day.pnl), 0)),
+    profit_factor: round(calculateProfitFactor(trades, pnlMode)),
+    avg_win: round(stats.winners.avgAmount),
+    avg_loss: round(Math.abs(stats.losers.avgAmount)),
+    max_consecutive_wins: stats.winners.maxConsecutive,
+    max_consecutive_losses: stats.losers.maxConsecutive,
+    max_drawdown_percent: round(calculateMaxDrawdown(trades)),
+    avg_risk_reward: round(result.performanceMetrics.riskRewardStats.average),
+    trading_days: days.length,
+    best_day: bestDay,
+    worst_day: worstDay,
+    total_costs: round(trades.reduce((sum, trade) =>
+      sum + (trade.commission ?? 0) + (trade.swap ?? 0) + (trade.fees ?? 0), 0))
+  };
+}
+
+const COMPARED_FIELDS: Array<keyof PerformanceSummary> = [
+  'total_trades', 'win_rate', 'total_pnl', 'profit_factor', 'avg_win', 'avg_loss',
+  'max_drawdown_percent', 'avg_risk_reward', 'total_costs'
+];
+
+/**
+ * Side-by-side summaries with the change from the first to the second period
+ */
+export function comparePerformance(first: PerformanceSummary, second: PerformanceSummary) {
+  const change: Record<string, number> = {};
+  for (const field of COMPARED_FIELDS) {
+    change[field] = round((second[field] as number) - (first[field] as number));
+  }
+  return { first, second, change };
+}
+
+export interface TagStatsOptions {
+  tagFilter?: string;
+  sortBy?: 'total_trades' | 'total_pnl' | 'win_rate';
+  limit?: number;
+}
+
+/**
+ * Per-tag statistics, optionally narrowed to tags containing a text (e.g. a "Setup:" group)
+ */
+export function buildTagStats(result: ChartDataResult, options: TagStatsOptions = {}): TagStat[] {
+  const filter = options.tagFilter?.trim().toLowerCase();
+  const sortBy = options.sortBy ?? 'total_trades';
+
+  return result.performanceMetrics.tagStats
+    .filter(stat => !filter || stat.tag.toLowerCase().includes(filter))
+    .map(stat => ({ ...stat, win_rate: Number(stat.win_rate), total_pnl: round(stat.total_pnl) }))
+    .sort((a, b) => b[sortBy] - a[sortBy])
+    .slice(0, options.limit ?? 20);
+}
+
+/**
+ * Per-session statistics in dashboard order (the calendar's sessions, then sessions no longer defined)
+ */
+export function buildSessionStats(result: ChartDataResult): SessionStat[] {
+  return result.performanceMetrics.sessionStats.map(stat => ({
+    ...stat,
+    win_rate: Number(stat.win_rate),
+    total_pnl: round(stat.total_pnl),
+    averagePnL: round(stat.averagePnL),
+    pnlPercentage: Number(stat.pnlPercentage)
+  }));
+}
+
+/**
+ * How trades on days with high or medium impact news compare to the rest.
+ * Drops the full trade lists the dashboard uses for drill-down
+ */
+export function buildEventImpactStats(result: ChartDataResult, impact: EventImpact) {
+  const data = result.economicCorrelations[impact];
+  if (!data) return null;
+
+  const { mostCommonEventTypes, ...stats } = data.correlationStats;
+  const rounded: Record<string, number> = {};
+  for (const [key, value] of Object.entries(stats)) {
+    rounded[key] = round(value);
+  }
+
+  return {
+    impact,
+    ...rounded,
+    events: (mostCommonEventTypes ?? []).map(event => ({
+      event: event.event,
+      trades: event.count,
+      winning_trades: event.winningTrades?.length ?? 0,
+      losing_trades: event.losingTrades?.length ?? 0,
+      win_rate: round(event.win_rate),
+      total_win: round(event.totalWin ?? 0),
+      total_loss: round(event.totalLoss ?? 0),
+      avg_win: round(event.avg_win),
+      avg_loss: round(event.avg_loss)
+    }))
+  };
+}
@@ -106,6 +106,7 @@ async function fetchTrades(
       .from('trades')
       .select('*')
       .eq('user_id', userId)
+      .is('deleted_at', null)
       .in('id', tradeIds);
 
     if (error) {
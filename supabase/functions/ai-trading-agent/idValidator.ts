@@ -60,6 +60,7 @@ async function validateTradeIds(
       .from('trades')
       .select('id')
       .eq('user_id', userId)
+      .is('deleted_at', null)
       .in('id', validFormatIds);
 
     if (error) {
@@ -0,0 +1,744 @@
+/**
+ * LLM Provider Layer
+ * One interface over Gemini, Anthropic and OpenAI-compatible chat APIs (OpenAI itself
+ * and self-hosted servers such as Ollama, reachable from the internet or allowed in
+ * LOCAL_MODEL_ALLOWED_HOSTS). Conversations and tool calls are kept in a neutral
+ * format and translated to each provider's wire format here.
+ */
+
+import { log } from '../_shared/supabase.ts';
+import type { GeminiFunctionDeclaration } from './tools.ts';
+
+export type LLMProviderId = 'gemini' | 'openai' | 'anthropic' | 'local';
+
+// ANY forces the model to call at least one tool, AUTO lets it answer with text
+export type LLMToolMode = 'AUTO' | 'ANY';
+
+export interface LLMFunctionCall {
+  id: string; // Provider call ID, needed to match tool results (generated for Gemini)
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export type LLMPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: string; data: string } // base64 data
+  | { type: 'function_call'; call: LLMFunctionCall }
+  | { type: 'function_response'; callId: string; name: string; result: string };
+
+export interface LLMMessage {
+  role: 'user' | 'model';
+  parts: LLMPart[];
+}
+
+export interface LLMRequest {
+  systemPrompt: string;
+  messages: LLMMessage[];
+  tools: GeminiFunctionDeclaration[];
+  toolMode: LLMToolMode;
+}
+
+export interface LLMResponse {
+  text: string;
+  functionCalls: LLMFunctionCall[];
+}
+
+export interface LLMProvider {
+  readonly id: LLMProviderId | 'scripted';
+  readonly model: string;
+  /**
+   * Run one model turn. When onText is given the response is streamed and
+   * text is passed on chunk by chunk as it arrives.
+   */
+  generate(request: LLMRequest, onText?: (text: string) => Promise<void>): Promise<LLMResponse>;
+}
+
+export interface LLMProviderConfig {
+  provider: LLMProviderId;
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string; // OpenAI-compatible endpoint, required for 'local'
+}
+
+export const LLM_PROVIDER_IDS: LLMProviderId[] = ['gemini', 'openai', 'anthropic', 'local'];
+
+export const DEFAULT_MODELS: Record<LLMProviderId, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4.1-mini',
+  anthropic: 'claude-sonnet-4-5',
+  local: 'llama3.1'
+};
+
+export const PROVIDER_LABELS: Record<LLMProviderId, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  local: 'Local model'
+};
+
+const TEMPERATURE = 0.3;
+const MAX_OUTPUT_TOKENS = 4000;
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Model names end up in request URLs (Gemini), so only allow plain identifiers
+const MODEL_NAME_PATTERN = /^[\w.:\/-]{1,100}$/;
+
+export function isLLMProviderId(value: unknown): value is LLMProviderId {
+  return typeof value === 'string' && LLM_PROVIDER_IDS.includes(value as LLMProviderId);
+}
+
+/**
+ * Create the provider for a request
+ * Throws when the configuration is incomplete (missing key, invalid model or base URL)
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  const model = config.model?.trim() || DEFAULT_MODELS[config.provider];
+  if (!MODEL_NAME_PATTERN.test(model)) {
+    throw new Error(`Invalid model name: ${model}`);
+  }
+
+  switch (config.provider) {
+    case 'gemini':
+      return new GeminiProvider(requireApiKey(config), model);
+    case 'anthropic':
+      return new AnthropicProvider(requireApiKey(config), model);
+    case 'openai':
+      return new OpenAICompatibleProvider('openai', model, normalizeBaseUrl(config.baseUrl) || OPENAI_BASE_URL, requireApiKey(config));
+    case 'local': {
+      const baseUrl = normalizeBaseUrl(config.baseUrl);
+      if (!baseUrl) {
+        throw new Error('A base URL is required for a local model endpoint');
+      }
+      return new OpenAICompatibleProvider('local', model, baseUrl, config.apiKey?.trim() || undefined);
+    }
+    default:
+      throw new Error(`Unsupported AI provider: ${config.provider}`);
+  }
+}
+
+function requireApiKey(config: LLMProviderConfig): string {
+  const apiKey = config.apiKey?.trim();
+  if (!apiKey) {
+    throw new Error(`No API key available. Please configure your ${PROVIDER_LABELS[config.provider]} API key in settings.`);
+  }
+  return apiKey;
+}
+
+function normalizeBaseUrl(baseUrl?: string): string | null {
+  if (!baseUrl?.trim()) return null;
+
+  let url: URL;
+  try {
+    url = new URL(baseUrl.trim());
+  } catch {
+    throw new Error(`Invalid base URL: ${baseUrl}`);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error('Base URL must use http or https');
+  }
+  if (isPrivateHost(url.hostname) && !isAllowedPrivateHost(url.hostname)) {
+    throw new Error('Base URL must be a public host - requests are sent from our servers, not from your device');
+  }
+  return url.toString().replace(/\/+$/, '');
+}
+
+function normalizeHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+}
+
+/**
+ * Private hosts the server admin opened for self-hosted models, e.g. an Ollama
+ * box next to a self-hosted Supabase (LOCAL_MODEL_ALLOWED_HOSTS, comma-separated
+ * host names or IP addresses). Nothing is allowed by default.
+ */
+function isAllowedPrivateHost(hostname: string): boolean {
+  const allowed = (Deno.env.get('LOCAL_MODEL_ALLOWED_HOSTS') || '')
+    .split(',')
+    .map(host => normalizeHost(host.trim()))
+    .filter(Boolean);
+  return allowed.includes(normalizeHost(hostname));
+}
+
+/**
+ * Whether a host name or IP address points at this server's own network
+ * (loopback, private, link-local, metadata endpoints...). User-supplied base
+ * URLs are fetched from the edge function, so they must never reach these.
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = normalizeHost(hostname);
+  if (!host || host === 'localhost' || /\.(localhost|local|internal|lan|home\.arpa)$/.test(host)) {
+    return true;
+  }
+
+  const ipv4 = parseIPv4(host.startsWith('::ffff:') ? host.slice(7) : host);
+  if (ipv4) {
+    const [a, b] = ipv4;
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19));
+  }
+
+  if (host.includes(':')) {
+    return host === '::' || host === '::1' || host.startsWith('::ffff:') ||
+      /^f[cd]/.test(host) || /^fe[89ab]/.test(host);
+  }
+  return false;
+}
+
+function parseIPv4(host: string): number[] | null {
+  // Hosts like "2130706433" or "0x7f.1" are IPv4 too; URL normalizes them to dotted form
+  if (!/^\d{1,3}(\.\d{1,3}){3}$/.test(host)) return null;
+  const parts = host.split('.').map(Number);
+  return parts.every(part => part <= 255) ? parts : null;
+}
+
+/**
+ * Resolve a user-supplied host and reject it when any address is private,
+ * so public names pointing at internal addresses are caught too
+ * (hosts in LOCAL_MODEL_ALLOWED_HOSTS pass)
+ */
+async function assertPublicHost(url: string): Promise<void> {
+  const { hostname } = new URL(url);
+  if (isAllowedPrivateHost(hostname)) return;
+  if (isPrivateHost(hostname)) {
+    throw new Error('Base URL must be a public host');
+  }
+  if (parseIPv4(hostname) || hostname.startsWith('[')) return;
+
+  const results = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA')
+  ]);
+  const addresses = results.flatMap(result => (result.status === 'fulfilled' ? result.value : []));
+  if (addresses.length === 0) {
+    throw new Error(`Could not resolve ${hostname}`);
+  }
+  if (addresses.some(address => isPrivateHost(address))) {
+    throw new Error('Base URL must be a public host');
+  }
+}
+
+/**
+ * ============================================================================
+ * TOOL TRANSLATION
+ * ============================================================================
+ * Tools are declared once in Gemini's format (tools.ts). OpenAI and Anthropic
+ * take plain JSON Schema, which only accepts lowercase type names.
+ */
+
+export function toJsonSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema as Record<string, unknown>)) {
+    if (key === 'type' && typeof value === 'string') {
+      result[key] = value.toLowerCase();
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result[key] = Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([name, property]) => [name, toJsonSchema(property)])
+      );
+    } else if (key === 'items') {
+      result[key] = toJsonSchema(value);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+export function toOpenAITools(tools: GeminiFunctionDeclaration[]) {
+  return tools.map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: toJsonSchema(tool.parameters)
+    }
+  }));
+}
+
+export function toAnthropicTools(tools: GeminiFunctionDeclaration[]) {
+  return tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: toJsonSchema(tool.parameters)
+  }));
+}
+
+/**
+ * ============================================================================
+ * SHARED HELPERS
+ * ============================================================================
+ */
+
+function partsOfType<T extends LLMPart['type']>(parts: LLMPart[], type: T): Array<Extract<LLMPart, { type: T }>> {
+  return parts.filter((part): part is Extract<LLMPart, { type: T }> => part.type === type);
+}
+
+function createCallId(): string {
+  return `call_${crypto.randomUUID().replace(/-/g, '').substring(0, 24)}`;
+}
+
+function parseToolArguments(name: string, json: string): Record<string, unknown> {
+  if (!json.trim()) return {};
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    log(`Could not parse arguments for ${name}: ${json.substring(0, 200)}`, 'warn');
+    return {};
+  }
+}
+
+async function postJson(
+  providerName: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      // A redirect could lead a user-supplied endpoint to an internal address
+      redirect: 'error'
+    });
+  } catch (fetchError) {
+    log(`${providerName} fetch failed: ${fetchError}`, 'error');
+    throw new Error(`${providerName} request failed`);
+  }
+
+  // Upstream bodies are only logged; errors reach the user and must not echo responses
+  if (!response.ok) {
+    const errorText = await response.text();
+    log(`${providerName} API error response: ${errorText.substring(0, 500)}`, 'error');
+    throw new Error(`${providerName} API error: ${response.status}`);
+  }
+  return response;
+}
+
+/**
+ * Read a server-sent event stream and pass on the JSON payload of every data line
+ */
+async function readEventStream(
+  response: Response,
+  onChunk: (chunk: any) => Promise<void>
+): Promise<void> {
+  if (!response.body) {
+    log('Warning: Response body is null - no stream to process', 'warn');
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const processLine = async (line: string) => {
+    if (!line.startsWith('data:')) return;
+    const data = line.slice(5).trim();
+    if (!data || data === '[DONE]') return;
+
+    let chunk: unknown;
+    try {
+      chunk = JSON.parse(data);
+    } catch (parseError) {
+      log(`Failed to parse streaming chunk: ${parseError}`, 'warn');
+      return;
+    }
+    await onChunk(chunk);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || ''; // Keep incomplete line in buffer
+
+      for (const line of lines) {
+        await processLine(line.trim());
+      }
+    }
+    await processLine(buffer.trim());
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * ============================================================================
+ * GEMINI
+ * ============================================================================
+ */
+
+class GeminiProvider implements LLMProvider {
+  readonly id = 'gemini';
+
+  constructor(private readonly apiKey: string, readonly model: string) {}
+
+  async generate(request: LLMRequest, onText?: (text: string) => Promise<void>): Promise<LLMResponse> {
+    const method = onText ? 'streamGenerateContent?alt=sse&' : 'generateContent?';
+    const apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:${method}key=${this.apiKey}`;
+    const hasTools = request.tools.length > 0;
+
+    const requestBody = {
+      contents: this.toContents(request),
+      tools: hasTools ? [{ function_declarations: request.tools }] : undefined,
+      tool_config: hasTools ? { function_calling_config: { mode: request.toolMode } } : undefined,
+      generationConfig: {
+        temperature: TEMPERATURE,
+        maxOutputTokens: MAX_OUTPUT_TOKENS
+      }
+    };
+
+    const response = await postJson('Gemini', apiUrl, {}, requestBody);
+    const result: LLMResponse = { text: '', functionCalls: [] };
+
+    if (onText) {
+      await readEventStream(response, chunk => this.collectChunk(chunk, result, onText));
+    } else {
+      await this.collectChunk(await response.json(), result);
+    }
+    return result;
+  }
+
+  /**
+   * The system prompt goes in as the first user turn, acknowledged by the model
+   */
+  private toContents(request: LLMRequest) {
+    return [
+      { role: 'user', parts: [{ text: request.systemPrompt }] },
+      { role: 'model', parts: [{ text: 'Understood. I will help while maintaining strict security.' }] },
+      ...request.messages.map(message => ({
+        role: message.role,
+        parts: message.parts.map(part => {
+          switch (part.type) {
+            case 'text':
+              return { text: part.text };
+            case 'image':
+              return { inline_data: { mime_type: part.mimeType, data: part.data } };
+            case 'function_call':
+              return { functionCall: { name: part.call.name, args: part.call.args } };
+            case 'function_response':
+              return { functionResponse: { name: part.name, response: { result: part.result } } };
+          }
+        })
+      }))
+    ];
+  }
+
+  private async collectChunk(chunk: any, result: LLMResponse, onText?: (text: string) => Promise<void>) {
+    const candidate = chunk.candidates?.[0];
+    if (!candidate) {
+      if (chunk.promptFeedback?.blockReason) {
+        log(`Gemini blocked response: ${chunk.promptFeedback.blockReason}`, 'warn');
+      }
+      return;
+    }
+
+    const finishReason = candidate.finishReason;
+    if (finishReason && finishReason !== 'STOP' && finishReason !== 'MAX_TOKENS') {
+      log(`Gemini finish reason: ${finishReason}`, 'warn');
+    }
+
+    // Gemini can return text and function calls in the same response
+    for (const part of candidate.content?.parts || []) {
+      if (part.functionCall) {
+        result.functionCalls.push({
+          id: createCallId(),
+          name: part.functionCall.name,
+          args: part.functionCall.args || {}
+        });
+      }
+      if (part.text) {
+        result.text += part.text;
+        if (onText) await onText(part.text);
+      }
+    }
+  }
+}
+
+/**
+ * ============================================================================
+ * OPENAI-COMPATIBLE (OpenAI, Ollama, LM Studio, vLLM...)
+ * ============================================================================
+ */
+
+class OpenAICompatibleProvider implements LLMProvider {
+  constructor(
+    readonly id: 'openai' | 'local',
+    readonly model: string,
+    private readonly baseUrl: string,
+    private readonly apiKey?: string
+  ) {}
+
+  async generate(request: LLMRequest, onText?: (text: string) => Promise<void>): Promise<LLMResponse> {
+    const hasTools = request.tools.length > 0;
+    const requestBody: Record<string, unknown> = {
+      model: this.model,
+      messages: this.toMessages(request),
+      tools: hasTools ? toOpenAITools(request.tools) : undefined,
+      tool_choice: hasTools ? (request.toolMode === 'ANY' ? 'required' : 'auto') : undefined,
+      temperature: TEMPERATURE,
+      stream: !!onText
+    };
+    // OpenAI replaced max_tokens, most local servers only know the old name
+    requestBody[this.id === 'openai' ? 'max_completion_tokens' : 'max_tokens'] = MAX_OUTPUT_TOKENS;
+
+    if (this.baseUrl !== OPENAI_BASE_URL) {
+      await assertPublicHost(this.baseUrl);
+    }
+
+    const headers: Record<string, string> = this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+    const response = await postJson(PROVIDER_LABELS[this.id], `${this.baseUrl}/chat/completions`, headers, requestBody);
+
+    if (!onText) {
+      const data = await response.json();
+      const message = data.choices?.[0]?.message;
+      return {
+        text: message?.content || '',
+        functionCalls: (message?.tool_calls || []).map((toolCall: any) => ({
+          id: toolCall.id || createCallId(),
+          name: toolCall.function?.name,
+          args: parseToolArguments(toolCall.function?.name, toolCall.function?.arguments || '')
+        }))
+      };
+    }
+
+    // Tool calls arrive in pieces, keyed by their index in the response
+    let text = '';
+    const pendingCalls: Array<{ id: string; name: string; arguments: string }> = [];
+
+    await readEventStream(response, async chunk => {
+      const delta = chunk.choices?.[0]?.delta;
+      if (!delta) return;
+
+      if (delta.content) {
+        text += delta.content;
+        await onText(delta.content);
+      }
+      for (const toolCall of delta.tool_calls || []) {
+        const index = toolCall.index ?? pendingCalls.length;
+        const pending = pendingCalls[index] || (pendingCalls[index] = { id: '', name: '', arguments: '' });
+        if (toolCall.id) pending.id = toolCall.id;
+        if (toolCall.function?.name) pending.name += toolCall.function.name;
+        if (toolCall.function?.arguments) pending.arguments += toolCall.function.arguments;
+      }
+    });
+
+    return {
+      text,
+      functionCalls: pendingCalls.filter(Boolean).map(pending => ({
+        id: pending.id || createCallId(),
+        name: pending.name,
+        args: parseToolArguments(pending.name, pending.arguments)
+      }))
+    };
+  }
+
+  private toMessages(request: LLMRequest): Array<Record<string, unknown>> {
+    const messages: Array<Record<string, unknown>> = [{ role: 'system', content: request.systemPrompt }];
+
+    for (const message of request.messages) {
+      if (message.role === 'model') {
+        const calls = partsOfType(message.parts, 'function_call');
+        messages.push({
+          role: 'assistant',
+          content: partsOfType(message.parts, 'text').map(part => part.text).join('') || null,
+          tool_calls: calls.length > 0
+            ? calls.map(({ call }) => ({
+              id: call.id,
+              type: 'function',
+              function: { name: call.name, arguments: JSON.stringify(call.args) }
+            }))
+            : undefined
+        });
+        continue;
+      }
+
+      // Tool results must directly follow the assistant message that requested them;
+      // images from tool results go in a user message afterwards
+      for (const part of partsOfType(message.parts, 'function_response')) {
+        messages.push({ role: 'tool', tool_call_id: part.callId, content: part.result });
+      }
+
+      const content = message.parts.flatMap((part): Array<Record<string, unknown>> => {
+        if (part.type === 'text') return [{ type: 'text', text: part.text }];
+        if (part.type === 'image') {
+          return [{ type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } }];
+        }
+        return [];
+      });
+      if (content.length > 0) {
+        messages.push({ role: 'user', content });
+      }
+    }
+
+    return messages;
+  }
+}
+
+/**
+ * ============================================================================
+ * ANTHROPIC
+ * ============================================================================
+ */
+
+class AnthropicProvider implements LLMProvider {
+  readonly id = 'anthropic';
+
+  constructor(private readonly apiKey: string, readonly model: string) {}
+
+  async generate(request: LLMRequest, onText?: (text: string) => Promise<void>): Promise<LLMResponse> {
+    const hasTools = request.tools.length > 0;
+    const requestBody = {
+      model: this.model,
+      system: request.systemPrompt,
+      messages: this.toMessages(request.messages),
+      tools: hasTools ? toAnthropicTools(request.tools) : undefined,
+      tool_choice: hasTools ? { type: request.toolMode === 'ANY' ? 'any' : 'auto' } : undefined,
+      temperature: TEMPERATURE,
+      max_tokens: MAX_OUTPUT_TOKENS,
+      stream: !!onText
+    };
+
+    const response = await postJson('Anthropic', ANTHROPIC_API_URL, {
+      'x-api-key': this.apiKey,
+      'anthropic-version': ANTHROPIC_VERSION
+    }, requestBody);
+
+    const result: LLMResponse = { text: '', functionCalls: [] };
+
+    if (!onText) {
+      const data = await response.json();
+      for (const block of data.content || []) {
+        if (block.type === 'text') {
+          result.text += block.text;
+        } else if (block.type === 'tool_use') {
+          result.functionCalls.push({ id: block.id, name: block.name, args: block.input || {} });
+        }
+      }
+      return result;
+    }
+
+    // Tool input arrives as partial JSON, keyed by content block index
+    const toolBlocks = new Map<number, { id: string; name: string; json: string }>();
+
+    await readEventStream(response, async event => {
+      if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+        toolBlocks.set(event.index, { id: event.content_block.id, name: event.content_block.name, json: '' });
+      } else if (event.type === 'content_block_delta') {
+        if (event.delta?.type === 'text_delta' && event.delta.text) {
+          result.text += event.delta.text;
+          await onText(event.delta.text);
+        } else if (event.delta?.type === 'input_json_delta') {
+          const block = toolBlocks.get(event.index);
+          if (block) block.json += event.delta.partial_json || '';
+        }
+      } else if (event.type === 'error') {
+        throw new Error(`Anthropic API error: ${event.error?.message || JSON.stringify(event.error)}`);
+      }
+    });
+
+    toolBlocks.forEach(block => {
+      result.functionCalls.push({ id: block.id, name: block.name, args: parseToolArguments(block.name, block.json) });
+    });
+    return result;
+  }
+
+  /**
+   * Anthropic needs alternating roles, non-empty text blocks and tool results
+   * at the start of the user turn that answers the tool calls
+   */
+  private toMessages(messages: LLMMessage[]) {
+    const result: Array<{ role: 'user' | 'assistant'; content: Array<Record<string, unknown>> }> = [];
+
+    for (const message of messages) {
+      const role = message.role === 'model' ? 'assistant' : 'user';
+      const content: Array<Record<string, unknown>> = [
+        ...partsOfType(message.parts, 'function_response').map(part => ({
+          type: 'tool_result',
+          tool_use_id: part.callId,
+          content: part.result
+        })),
+        ...message.parts.flatMap((part): Array<Record<string, unknown>> => {
+          if (part.type === 'text') return part.text.trim() ? [{ type: 'text', text: part.text }] : [];
+          if (part.type === 'image') {
+            return [{ type: 'image', source: { type: 'base64', media_type: part.mimeType, data: part.data } }];
+          }
+          if (part.type === 'function_call') {
+            return [{ type: 'tool_use', id: part.call.id, name: part.call.name, input: part.call.args }];
+          }
+          return [];
+        })
+      ];
+      if (content.length === 0) continue;
+
+      const previous = result[result.length - 1];
+      if (previous && previous.role === role) {
+        previous.content.push(...content);
+      } else {
+        result.push({ role, content });
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * ============================================================================
+ * SCRIPTED (testing)
+ * ============================================================================
+ */
+
+export interface ScriptedTurn {
+  text?: string;
+  functionCalls?: Array<{ name: string; args?: Record<string, unknown> }>;
+}
+
+/**
+ * Fake provider that replays scripted turns so the agent loop can run offline.
+ * Every request is recorded for assertions.
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly id = 'scripted';
+  readonly requests: LLMRequest[] = [];
+  private turnIndex = 0;
+
+  constructor(private readonly turns: ScriptedTurn[], readonly model = 'scripted-model') {}
+
+  async generate(request: LLMRequest, onText?: (text: string) => Promise<void>): Promise<LLMResponse> {
+    // Copy the messages, the agent loop keeps appending to the same array
+    this.requests.push({ ...request, messages: [...request.messages] });
+
+    const turn = this.turns[this.turnIndex];
+    if (!turn) {
+      throw new Error(`Scripted provider ran out of turns after ${this.turns.length} requests`);
+    }
+    this.turnIndex++;
+
+    const text = turn.text || '';
+    if (text && onText) await onText(text);
+
+    return {
+      text,
+      functionCalls: (turn.functionCalls || []).map((call, index) => ({
+        id: `scripted_${this.turnIndex}_${index}`,
+        name: call.name,
+        args: call.args || {}
+      }))
+    };
+  }
+}
@@ -9,84 +9,20 @@
  * Target: ~2000 tokens core prompt (down from ~4000)
  */
 import type { Calendar } from "./types.ts";
+import {
+  formatSessionHours,
+  getCalendarSessions,
+  getSessionForTime,
+} from "../_shared/tradingSessions.ts";
 
 // =============================================================================
-// TEMPORAL CONTEXT (DST-aware trading session detection)
+// TEMPORAL CONTEXT (time zone aware trading session detection)
 // =============================================================================
 
-type TradingSession = "Asia" | "London" | "NY AM" | "NY PM" | "After Hours";
-
-function isDaylightSavingTime(date: Date, region: "EU" | "US" = "EU"): boolean {
-  const year = date.getUTCFullYear();
-  const month = date.getUTCMonth();
-  const day = date.getUTCDate();
-
-  if (region === "EU") {
-    // EU/UK DST: Last Sunday in March to last Sunday in October
-    if (month < 2 || month > 9) return false;
-    if (month > 2 && month < 9) return true;
-
-    if (month === 2) {
-      const lastSunday = getLastSundayOfMonth(year, 2);
-      return day >= lastSunday;
-    }
-    if (month === 9) {
-      const lastSunday = getLastSundayOfMonth(year, 9);
-      return day < lastSunday;
-    }
-  } else {
-    // US DST: Second Sunday in March to first Sunday in November
-    if (month < 2 || month > 10) return false;
-    if (month > 2 && month < 10) return true;
-
-    if (month === 2) {
-      const secondSunday = getNthSundayOfMonth(year, 2, 2);
-      return day >= secondSunday;
-    }
-    if (month === 10) {
-      const firstSunday = getNthSundayOfMonth(year, 10, 1);
-      return day < firstSunday;
-    }
-  }
-  return false;
-}
-
-function getLastSundayOfMonth(year: number, month: number): number {
-  const lastDay = new Date(Date.UTC(year, month + 1, 0));
-  return lastDay.getUTCDate() - lastDay.getUTCDay();
-}
-
-function getNthSundayOfMonth(year: number, month: number, n: number): number {
-  const firstDay = new Date(Date.UTC(year, month, 1));
-  const daysToFirstSunday = (7 - firstDay.getUTCDay()) % 7;
-  return 1 + daysToFirstSunday + (n - 1) * 7;
-}
-
-function getCurrentTradingSession(now: Date = new Date()): TradingSession {
-  const hour = now.getUTCHours();
-  const isDST = isDaylightSavingTime(now, "EU");
-
-  // Session boundaries (UTC) - adjusted for DST
-  const londonStart = isDST ? 7 : 8;
-  const londonEnd = isDST ? 12 : 13;
-  const nyAmStart = isDST ? 12 : 13;
-  const nyAmEnd = isDST ? 17 : 18;
-  const nyPmStart = isDST ? 17 : 18;
-  const nyPmEnd = isDST ? 21 : 22;
-  const asiaStart = isDST ? 22 : 23;
-  const asiaEnd = isDST ? 7 : 8;
-
-  if (hour >= londonStart && hour < londonEnd) return "London";
-  if (hour >= nyAmStart && hour < nyAmEnd) return "NY AM";
-  if (hour >= nyPmStart && hour < nyPmEnd) return "NY PM";
-  if (hour >= asiaStart || hour < asiaEnd) return "Asia";
-
-  return "After Hours";
-}
-
-function buildTemporalContext(): string {
+function buildTemporalContext(calendarContext?: Partial<Calendar>): string {
   const now = new Date();
-  const session = getCurrentTradingSession(now);
+  const session = getSessionForTime(now, getCalendarSessions(calendarContext)) ??
+    "After Hours";
   const dayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
   const dayOfWeek = dayNames[now.getUTCDay()];
   const isWeekend = now.getUTCDay() === 0 || now.getUTCDay() === 6;
@@ -127,12 +63,21 @@ function buildCalendarContextSection(
     filterLine = `Filters: ${currencies} | ${impacts} impact`;
   }
 
+  // Custom sessions replace the default session names in the session column
+  const sessionsLine = calendarContext.trading_sessions?.length
+    ? `\nSessions: ${
+      calendarContext.trading_sessions.map((session) =>
+        `${session.name} ${formatSessionHours(session)}`
+      ).join(", ")
+    }`
+    : "";
+
   return `
 CALENDAR: "${
     calendarContext.name ?? "Unknown"
   }" | Win: ${winRate} | Trades: ${totalTrades} | P&L: ${totalPnl} | Balance: ${currentBalance}
 Tags: ${tags}
-${filterLine}
+${filterLine}${sessionsLine}
 `;
 }
 
@@ -146,7 +91,7 @@ const SCHEMA_REFERENCE = `
 ### trades
 Required: id, calendar_id, user_id, trade_type, trade_date, amount
 Price: entry_price, exit_price, stop_loss, take_profit, risk_to_reward
-Session: session — ENUM column ('Asia'|'London'|'NY AM'|'NY PM')
+Session: session — TEXT column, one of the calendar's sessions (default 'Asia'|'London'|'NY AM'|'NY PM', custom ones on the CALENDAR Sessions line)
 Tags: tags[] — ARRAY for custom labels. Filter: 'TagName' = ANY(tags). Aggregate: use unnest(tags) to GROUP BY
 Meta: notes, images[], economic_events[], is_pinned
 Enums: trade_type ('win'|'loss'|'breakeven')
@@ -168,8 +113,8 @@ Enums: impact ('High'|'Medium'|'Low'|'Holiday'), actual_result_type ('good'|'bad
 
 ### notes
 Core: id, user_id, calendar_id, title, content, by_assistant, tags[]
-Tags: AGENT_MEMORY, STRATEGY, GAME_PLAN, INSIGHT, LESSON_LEARNED, RISK_MANAGEMENT, PSYCHOLOGY, GENERAL, GUIDELINE
-Rules: by_assistant=true → AI can modify, AGENT_MEMORY → use update_memory tool, GUIDELINE → user instructions (max 1)
+Tags: AGENT_MEMORY, STRATEGY, GAME_PLAN, INSIGHT, LESSON_LEARNED, RISK_MANAGEMENT, PSYCHOLOGY, GENERAL, GUIDELINE, WEEKLY_REVIEW
+Rules: by_assistant=true → AI can modify, AGENT_MEMORY → use update_memory tool, GUIDELINE → user instructions (max 1), WEEKLY_REVIEW → scheduled weekly reviews (read-only history, don't create)
 
 ### tag_definitions
 Fields: user_id, tag_name, definition
@@ -189,7 +134,7 @@ JSONB Examples:
 const SQL_PATTERNS = `
 ## Trades by Session
 
-Session is a COLUMN (not a tag). Use exact enum match.
+Session is a COLUMN (not a tag). Use the exact session name.
 
 ### Filter by session:
 \`\`\`sql
@@ -205,6 +150,7 @@ ORDER BY trade_date DESC LIMIT 10;
 - "london", "london session" → session = 'London'
 - "ny am", "new york morning" → session = 'NY AM'
 - "ny pm", "new york afternoon" → session = 'NY PM'
+- Calendars with custom sessions → use the names on the CALENDAR Sessions line
 
 ### Multiple sessions:
 \`\`\`sql
@@ -213,6 +159,8 @@ WHERE session IN ('London', 'NY AM')
 
 ## Tag Analysis with unnest() — CRITICAL for Pattern Discovery
 
+For win rate and P&L per tag use get_tag_stats. Use the SQL below only for breakdowns it doesn't cover.
+
 Tags are stored as TEXT ARRAY. To GROUP BY or aggregate individual tags, use unnest().
 
 ### Analyze performance by tag category (strategies, confluences, etc.):
@@ -362,7 +310,7 @@ Focus areas for single trade analysis:
   // ==========================================================================
   // TIER 1: SECURITY & MEMORY GATE (Highest Priority)
   // ==========================================================================
-  const temporalContext = buildTemporalContext();
+  const temporalContext = buildTemporalContext(calendarContext);
 
   const tier1 = `
 ═══════════════════════════════════════════════════════════════════════════════
@@ -390,8 +338,9 @@ REQUIRED FILTER: user_id = '${userId}'${
     calendarId ? ` AND calendar_id = '${calendarId}'` : ""
   }
 - Apply to ALL queries on trades, calendars, notes tables
+- On trades also filter deleted_at IS NULL (trashed trades are not part of the journal)
 - Exception: ${economicEventsRule}
-- Read-only access only — data modification prohibited
+- Read-only access only — data modification prohibited (trade changes go through propose_trade_update / propose_trade_creation for the user to approve)
 - Translate all data operations into trading insights (users see analysis, not SQL)
 
 ## GUARDRAILS — Never Do These
@@ -435,7 +384,9 @@ ${calendarContextSection}
 7. update_memory — Update agent memory with merge logic (for AGENT_MEMORY only)
 8. analyze_image — Analyze trade chart images (entry/exit quality, patterns, levels)
 9. get_tag_definition, save_tag_definition — Look up or save custom tag meanings
-10. Card display — Reference items with <trade-ref/>, <event-ref/>, <note-ref/>
+10. get_performance_summary, compare_periods, get_tag_stats, get_session_stats, get_event_impact_stats — Exact statistics, same calculations as the dashboard
+11. propose_trade_update, propose_trade_creation — Propose trade edits or a new trade; the user applies them from an action card
+12. Card display — Reference items with <trade-ref/>, <event-ref/>, <note-ref/>
 
 ## Tool Routing — IMPORTANT
 | User asks about... | Use this tool |
@@ -443,12 +394,19 @@ ${calendarContextSection}
 | "London session trades", "NY AM trades" | execute_sql → WHERE session = 'London' (COLUMN) |
 | "Trades tagged with X", "scalp trades" | execute_sql → WHERE 'X' = ANY(tags) (ARRAY) |
 | Economic calendar, upcoming events | execute_sql → economic_events table |
-| Trades, performance, statistics | execute_sql → trades/calendars tables |
+| Win rate, P&L, profit factor, drawdown, streaks | get_performance_summary (NOT execute_sql) |
+| "This month vs last month", progress over time | compare_periods |
+| Performance by tag, strategy or setup | get_tag_stats (tag_filter for a tag group) |
+| Performance by session | get_session_stats |
+| Performance around news events | get_event_impact_stats |
+| Listing or finding specific trades | execute_sql → trades/calendars tables |
 | Market news, sentiment, analysis | search_web → THEN scrape_url (see below) |
 | Current prices | get_crypto_price / get_forex_price |
 | Review trade charts/images | analyze_image (pass trade.images[].url) |
 | Unknown tag meaning | get_tag_definition → user's tag dictionary |
 | Update persistent memory | update_memory (NOT update_note) |
+| Tag, pin, set session or fill fields of trades | execute_sql for the IDs → propose_trade_update |
+| "Add this trade" from a screenshot | propose_trade_creation |
 
 ## Web Research Workflow — CRITICAL
 When user asks about market news, sentiment, or analysis:
@@ -473,6 +431,14 @@ When you encounter a custom tag you don't understand (e.g., "Confluence:3x Displ
 4. ALWAYS ask user: "Would you like me to save this definition for future reference?"
 5. Only call save_tag_definition AFTER user gives explicit permission
 
+## Trade Action Workflow
+When the user asks to change trades (e.g. "tag all my Monday London losses with Mistake:FOMO"):
+1. Find the trades with execute_sql (SELECT id ... WHERE ... AND deleted_at IS NULL)
+2. Call propose_trade_update ONCE with all IDs and the changes — reuse existing tag spelling from the calendar's tags
+3. The user sees an action card with Apply/Dismiss — say what it will change and ask them to review it
+4. NEVER claim trades were changed or added — nothing is saved until the user applies the card
+For a trade screenshot: read the values from the image (analyze_image for URLs), ask for anything you can't read (outcome, P&L), then call propose_trade_creation with attach_user_images or image_url.
+
 ## Workflow
 1. Memory check (first interaction only)
 2. Call tools IMMEDIATELY — don't narrate intentions, execute them
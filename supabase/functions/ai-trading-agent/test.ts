@@ -0,0 +1,714 @@
+/**
+ * Test script for the ai-trading-agent provider layer, agent loop, analytics and trade actions
+ * Runs offline against the scripted provider and fixtures - no LLM or database calls
+ * Run with: deno run --allow-all test.ts
+ */
+
+import { runAgentLoop, EMPTY_RESPONSE_FALLBACK } from './agentLoop.ts'
+import {
+  ScriptedProvider,
+  createLLMProvider,
+  isPrivateHost,
+  toAnthropicTools,
+  toOpenAITools,
+  type LLMFunctionCall
+} from './llmProviders.ts'
+import { executeCustomTool, type GeminiFunctionDeclaration } from './tools.ts'
+import {
+  buildEventImpactStats,
+  buildPerformanceSummary,
+  buildTagStats,
+  calculateMaxDrawdown,
+  calculateProfitFactor,
+  comparePerformance,
+  parseAnalyticsDate,
+  type AnalyticsTrade,
+  type ChartDataResult
+} from './analytics.ts'
+import {
+  applyTradeChanges,
+  parseNewTrade,
+  parseTradeActionResult,
+  parseTradeChanges,
+  type ActionTrade,
+  type TradeChanges
+} from './tradeActions.ts'
+import {
+  DEFAULT_TRADING_SESSIONS,
+  getSessionForTime,
+  getSessionTimeRange,
+  type SessionDefinition
+} from '../_shared/tradingSessions.ts'
+
+interface TestCase {
+  name: string
+  run: () => Promise<void>
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+function assertEquals(actual: unknown, expected: unknown, message: string) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(`${message}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`)
+  }
+}
+
+const sqlTool: GeminiFunctionDeclaration = {
+  name: 'execute_sql',
+  description: 'Run a read-only SQL query',
+  parameters: {
+    type: 'OBJECT',
+    properties: {
+      query: { type: 'STRING', description: 'SQL query' },
+      columns: { type: 'ARRAY', items: { type: 'STRING' } }
+    },
+    required: ['query']
+  }
+}
+
+const searchTool: GeminiFunctionDeclaration = {
+  name: 'search_web',
+  description: 'Search the web',
+  parameters: {
+    type: 'object',
+    properties: { query: { type: 'string' } },
+    required: ['query']
+  }
+}
+
+const tools = [sqlTool, searchTool]
+
+/**
+ * Tool executor that records calls and answers from a fixed table
+ */
+function createFakeExecutor(results: Record<string, string> = {}) {
+  const executed: LLMFunctionCall[] = []
+  const executeTool = async (call: LLMFunctionCall) => {
+    executed.push(call)
+    if (call.name === 'fail') throw new Error('tool exploded')
+    return results[call.name] ?? `${call.name} result`
+  }
+  return { executed, executeTool }
+}
+
+const baseOptions = {
+  systemPrompt: 'You are a trading assistant',
+  message: 'What is my win rate?',
+  conversationHistory: [] as Array<{ role: string; content: string }>,
+  tools,
+  retryDelayMs: 0
+}
+
+const analyticsTrades: AnalyticsTrade[] = [
+  { id: 't1', amount: 200, trade_type: 'win', trade_date: '2026-09-01T10:00:00Z', commission: 5 },
+  { id: 't2', amount: -100, trade_type: 'loss', trade_date: '2026-09-01T14:00:00Z', commission: 5 },
+  { id: 't3', amount: 0, trade_type: 'breakeven', trade_date: '2026-09-02T10:00:00Z' },
+  { id: 't4', amount: -50, trade_type: 'loss', trade_date: '2026-09-03T10:00:00Z', fees: 2 }
+]
+
+const chartDataResult: ChartDataResult = {
+  chartData: [
+    { date: '2026-09-01', pnl: 100, cumulativePnl: 100, trades: 2 },
+    { date: '2026-09-02', pnl: 0, cumulativePnl: 100, trades: 1 },
+    { date: '2026-09-03', pnl: -50, cumulativePnl: 50, trades: 1 }
+  ],
+  trades: analyticsTrades,
+  performanceMetrics: {
+    winLossStats: {
+      winners: { total: 1, avgAmount: 200, maxConsecutive: 1 },
+      losers: { total: 2, avgAmount: -75, maxConsecutive: 1 },
+      breakevens: { total: 1 },
+      total_trades: 4,
+      win_rate: 33.33
+    },
+    tagStats: [
+      { tag: 'Setup:Breakout', wins: 1, losses: 0, breakevens: 0, total_trades: 1, win_rate: 100, total_pnl: 200 },
+      { tag: 'Setup:Reversal', wins: 0, losses: 2, breakevens: 0, total_trades: 2, win_rate: 0, total_pnl: -150 },
+      { tag: 'Pairs:EURUSD', wins: 1, losses: 2, breakevens: 1, total_trades: 4, win_rate: 33, total_pnl: 50 }
+    ],
+    riskRewardStats: { average: 1.5, max: 3 },
+    sessionStats: []
+  },
+  economicCorrelations: {
+    high: {
+      correlationStats: {
+        totalLosingTrades: 2,
+        totalWinningTrades: 1,
+        losingTradesWithEvents: 1,
+        winningTradesWithEvents: 0,
+        anyEventLossCorrelationRate: 50,
+        anyEventWinCorrelationRate: 0,
+        avgLossWithEvents: 100,
+        avgLossWithoutEvents: 50,
+        avgWinWithEvents: 0,
+        avgWinWithoutEvents: 200,
+        mostCommonEventTypes: [{
+          event: 'CPI m/m',
+          losingTrades: [{ id: 't2' }],
+          winningTrades: null,
+          totalLoss: 100,
+          totalWin: null,
+          avg_loss: 100,
+          avg_win: 0,
+          count: 1,
+          win_rate: 0
+        }]
+      }
+    },
+    medium: null
+  }
+}
+
+const testCases: TestCase[] = [
+  {
+    name: 'OpenAI tool translation lowercases schema types',
+    run: async () => {
+      const [tool] = toOpenAITools([sqlTool])
+      assertEquals(tool.type, 'function', 'tool type')
+      assertEquals(tool.function.name, 'execute_sql', 'tool name')
+      assertEquals(tool.function.parameters, {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'SQL query' },
+          columns: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['query']
+      }, 'parameters')
+    }
+  },
+  {
+    name: 'Anthropic tool translation uses input_schema',
+    run: async () => {
+      const [tool] = toAnthropicTools([sqlTool]) as Array<{ name: string; input_schema: { type: string } }>
+      assertEquals(tool.name, 'execute_sql', 'tool name')
+      assertEquals(tool.input_schema.type, 'object', 'schema type')
+    }
+  },
+  {
+    name: 'Provider factory validates settings',
+    run: async () => {
+      const expectError = (fn: () => unknown, expected: string) => {
+        try {
+          fn()
+        } catch (error) {
+          assert(error instanceof Error && error.message.includes(expected), `expected error "${expected}", got "${error}"`)
+          return
+        }
+        throw new Error(`expected error "${expected}"`)
+      }
+
+      expectError(() => createLLMProvider({ provider: 'anthropic' }), 'configure your Anthropic API key')
+      expectError(() => createLLMProvider({ provider: 'local' }), 'base URL is required')
+      expectError(() => createLLMProvider({ provider: 'local', baseUrl: 'file:///etc/passwd' }), 'http or https')
+      expectError(() => createLLMProvider({ provider: 'gemini', apiKey: 'key', model: 'x?key=evil' }), 'Invalid model name')
+
+      assertEquals(createLLMProvider({ provider: 'gemini', apiKey: 'key' }).model, 'gemini-2.5-flash', 'default Gemini model')
+      assertEquals(createLLMProvider({ provider: 'local', baseUrl: 'https://ollama.example.com/v1/', model: 'qwen2.5' }).model, 'qwen2.5', 'local model')
+
+      // Endpoints are called from the edge function, so internal hosts are refused
+      expectError(() => createLLMProvider({ provider: 'local', baseUrl: 'http://localhost:11434/v1' }), 'public host')
+      expectError(() => createLLMProvider({ provider: 'local', baseUrl: 'http://169.254.169.254/latest' }), 'public host')
+      expectError(() => createLLMProvider({ provider: 'openai', apiKey: 'key', baseUrl: 'http://[::1]:8080/v1' }), 'public host')
+      assert(isPrivateHost('10.0.0.5') && isPrivateHost('192.168.1.20') && isPrivateHost('fd00::1'), 'private ranges')
+      assert(isPrivateHost('::ffff:127.0.0.1') && isPrivateHost('ollama.internal'), 'mapped and internal hosts')
+      assert(!isPrivateHost('8.8.8.8') && !isPrivateHost('api.openai.com') && !isPrivateHost('172.32.0.1'), 'public hosts')
+
+      // Unless the server allows the host for self-hosted models
+      Deno.env.set('LOCAL_MODEL_ALLOWED_HOSTS', 'ollama.internal, 192.168.1.20')
+      try {
+        assertEquals(createLLMProvider({ provider: 'local', baseUrl: 'http://ollama.internal:11434/v1' }).id, 'local', 'allowed private host')
+        assertEquals(createLLMProvider({ provider: 'local', baseUrl: 'http://192.168.1.20:11434/v1' }).id, 'local', 'allowed private IP')
+        expectError(() => createLLMProvider({ provider: 'local', baseUrl: 'http://localhost:11434/v1' }), 'public host')
+      } finally {
+        Deno.env.delete('LOCAL_MODEL_ALLOWED_HOSTS')
+      }
+    }
+  },
+  {
+    name: 'Text answer ends the loop on the first turn',
+    run: async () => {
+      const provider = new ScriptedProvider([{ text: 'Your win rate is 60%.' }])
+      const { executed, executeTool } = createFakeExecutor()
+
+      const result = await runAgentLoop({ ...baseOptions, provider, executeTool })
+
+      assertEquals(result.finalText, 'Your win rate is 60%.', 'final text')
+      assertEquals(result.turnCount, 1, 'turn count')
+      assertEquals(executed.length, 0, 'executed tools')
+      assertEquals(provider.requests[0].toolMode, 'ANY', 'first turn forces a tool call')
+    }
+  },
+  {
+    name: 'Tool call result is fed back to the model',
+    run: async () => {
+      const provider = new ScriptedProvider([
+        { functionCalls: [{ name: 'execute_sql', args: { query: 'select 1' } }] },
+        { text: 'You won 6 of 10 trades.' }
+      ])
+      const { executed, executeTool } = createFakeExecutor({ execute_sql: '[{"wins":6,"total":10}]' })
+
+      const result = await runAgentLoop({ ...baseOptions, provider, executeTool })
+
+      assertEquals(result.finalText, 'You won 6 of 10 trades.', 'final text')
+      assertEquals(executed.map(call => call.args), [{ query: 'select 1' }], 'executed tool args')
+      assertEquals(result.functionCalls, [{ name: 'execute_sql', args: { query: 'select 1' }, result: '[{"wins":6,"total":10}]' }], 'recorded calls')
+
+      const followUp = provider.requests[1]
+      assertEquals(followUp.toolMode, 'AUTO', 'continuation tool mode')
+      const [modelMessage, toolMessage] = followUp.messages.slice(-2)
+      assert(modelMessage.role === 'model' && modelMessage.parts[0].type === 'function_call', 'model turn holds the call')
+      const response = toolMessage.parts[0]
+      assert(response.type === 'function_response', 'user turn holds the tool result')
+      assertEquals(response.callId, executed[0].id, 'tool result matches call ID')
+    }
+  },
+  {
+    name: 'Parallel tool calls run together and errors become results',
+    run: async () => {
+      const provider = new ScriptedProvider([
+        { functionCalls: [{ name: 'execute_sql', args: { query: 'a' } }, { name: 'fail' }] },
+        { text: 'Done' }
+      ])
+      const { executed, executeTool } = createFakeExecutor()
+
+      const result = await runAgentLoop({ ...baseOptions, provider, executeTool })
+
+      assertEquals(executed.length, 2, 'executed tools')
+      assertEquals(result.functionCalls[1].result, 'Error: Error: tool exploded', 'failed tool result')
+      const toolMessage = provider.requests[1].messages[provider.requests[1].messages.length - 1]
+      assertEquals(toolMessage.parts.length, 2, 'both results in one turn')
+    }
+  },
+  {
+    name: 'Repeated identical call stops the loop',
+    run: async () => {
+      const call = { name: 'execute_sql', args: { query: 'select 1' } }
+      const provider = new ScriptedProvider([{ functionCalls: [call] }, { functionCalls: [call] }])
+      const { executed, executeTool } = createFakeExecutor()
+
+      const result = await runAgentLoop({ ...baseOptions, provider, executeTool })
+
+      assertEquals(executed.length, 1, 'executed tools')
+      assertEquals(result.turnCount, 2, 'turn count')
+    }
+  },
+  {
+    name: 'Empty first response is retried',
+    run: async () => {
+      const provider = new ScriptedProvider([{}, { text: 'Recovered' }])
+      const { executeTool } = createFakeExecutor()
+
+      const result = await runAgentLoop({ ...baseOptions, provider, executeTool })
+
+      assertEquals(result.finalText, 'Recovered', 'final text')
+      const retryMessage = provider.requests[1].messages[0].parts[0]
+      assert(retryMessage.type === 'text' && retryMessage.text.includes('Please respond'), 'retry clarifies the message')
+    }
+  },
+  {
+    name: 'Fallback text after all retries return empty',
+    run: async () => {
+      const provider = new ScriptedProvider([{}, {}, {}, {}])
+      const { executeTool } = createFakeExecutor()
+
+      const result = await runAgentLoop({ ...baseOptions, provider, executeTool })
+
+      assertEquals(result.finalText, EMPTY_RESPONSE_FALLBACK, 'final text')
+      assertEquals(provider.requests[3].tools.length, 0, 'last retry has no tools')
+    }
+  },
+  {
+    name: 'Attached images are sent and allow a direct answer',
+    run: async () => {
+      const provider = new ScriptedProvider([{ text: 'Bullish engulfing on the 1H.' }])
+      const { executeTool } = createFakeExecutor()
+
+      await runAgentLoop({
+        ...baseOptions,
+        provider,
+        executeTool,
+        userImages: [{ url: 'data:image/png;base64,iVBORw0KGgo=', mimeType: 'image/png' }]
+      })
+
+      const request = provider.requests[0]
+      assertEquals(request.toolMode, 'AUTO', 'tool mode with images')
+      assertEquals(request.messages[0].parts[0], { type: 'image', mimeType: 'image/png', data: 'iVBORw0KGgo=' }, 'image part')
+    }
+  },
+  {
+    name: 'Streaming callbacks receive text, tool calls and results in order',
+    run: async () => {
+      const provider = new ScriptedProvider([
+        { text: 'Checking your trades. ', functionCalls: [{ name: 'execute_sql', args: { query: 'x' } }] },
+        { text: 'All good.' }
+      ])
+      const { executeTool } = createFakeExecutor()
+      const events: string[] = []
+
+      const result = await runAgentLoop({
+        ...baseOptions,
+        provider,
+        executeTool,
+        onText: async text => { events.push(`text:${text}`) },
+        onToolCall: async call => { events.push(`call:${call.name}`) },
+        onToolResult: async call => { events.push(`result:${call.name}`) }
+      })
+
+      assertEquals(events, [
+        'text:Checking your trades. ',
+        'call:execute_sql',
+        'result:execute_sql',
+        'text:All good.'
+      ], 'events')
+      assertEquals(result.finalText, 'All good.', 'final text')
+    }
+  },
+  {
+    name: 'Analytics dates are normalized to noon UTC',
+    run: async () => {
+      assertEquals(parseAnalyticsDate('2026-09')?.toISOString(), '2026-09-01T12:00:00.000Z', 'month')
+      assertEquals(parseAnalyticsDate('2026')?.toISOString(), '2026-01-01T12:00:00.000Z', 'year')
+      assertEquals(parseAnalyticsDate('2026-02-30'), null, 'invalid day')
+      assertEquals(parseAnalyticsDate('last month'), null, 'free text')
+    }
+  },
+  {
+    name: 'Profit factor and drawdown match the dashboard formulas',
+    run: async () => {
+      assertEquals(calculateProfitFactor(analyticsTrades).toFixed(4), (200 / 150).toFixed(4), 'net profit factor')
+      assertEquals(calculateProfitFactor(analyticsTrades, 'gross').toFixed(4), (205 / 143).toFixed(4), 'gross profit factor')
+      assertEquals(calculateProfitFactor([analyticsTrades[0]]), 50, 'no losses')
+      assertEquals(calculateMaxDrawdown(analyticsTrades), 75, 'drawdown from the 200 peak to 50')
+    }
+  },
+  {
+    name: 'Performance summary uses the dashboard figures',
+    run: async () => {
+      const summary = buildPerformanceSummary(chartDataResult, '2026-09', 'net')
+
+      assertEquals(summary.win_rate, 33.33, 'win rate excludes breakevens')
+      assertEquals(summary.total_pnl, 50, 'total P&L')
+      assertEquals(summary.avg_loss, 75, 'average loss is positive')
+      assertEquals(summary.best_day, { date: '2026-09-01', pnl: 100 }, 'best day')
+      assertEquals(summary.worst_day, { date: '2026-09-03', pnl: -50 }, 'worst day')
+      assertEquals(summary.total_costs, 12, 'costs')
+
+      const comparison = comparePerformance(summary, { ...summary, total_pnl: 80, win_rate: 50 })
+      assertEquals(comparison.change.total_pnl, 30, 'P&L change')
+      assertEquals(comparison.change.win_rate, 16.67, 'win rate change')
+    }
+  },
+  {
+    name: 'Tag stats filter by group and sort',
+    run: async () => {
+      const tags = buildTagStats(chartDataResult, { tagFilter: 'setup:', sortBy: 'total_pnl' })
+      assertEquals(tags.map(tag => tag.tag), ['Setup:Breakout', 'Setup:Reversal'], 'filtered tags')
+      assertEquals(buildTagStats(chartDataResult, { limit: 1 })[0].tag, 'Pairs:EURUSD', 'most traded tag')
+    }
+  },
+  {
+    name: 'Event impact stats drop drill-down trades',
+    run: async () => {
+      const stats = buildEventImpactStats(chartDataResult, 'high')
+      assert(stats, 'high impact stats')
+      assertEquals(stats.events, [{
+        event: 'CPI m/m',
+        trades: 1,
+        winning_trades: 0,
+        losing_trades: 1,
+        win_rate: 0,
+        total_win: 0,
+        total_loss: 100,
+        avg_win: 0,
+        avg_loss: 100
+      }], 'events')
+      assertEquals(buildEventImpactStats(chartDataResult, 'medium'), null, 'no medium impact data')
+    }
+  },
+  {
+    name: 'Analytics tools only read calendars the user owns',
+    run: async () => {
+      const rpcCalls: string[] = []
+      const filters: Array<[string, unknown]> = []
+      const query = {
+        select: () => query,
+        eq: (column: string, value: unknown) => {
+          filters.push([column, value])
+          return query
+        },
+        maybeSingle: async () => ({ data: null, error: null })
+      }
+      const supabase = {
+        from: () => query,
+        rpc: async (name: string) => {
+          rpcCalls.push(name)
+          return { data: chartDataResult, error: null }
+        }
+      }
+
+      const result = await executeCustomTool(
+        'get_performance_summary',
+        { calendar_id: 'other-calendar' },
+        { userId: 'user-1', calendarId: 'calendar-1' },
+        supabase as never
+      )
+
+      assert(result.includes('Calendar not found'), `unexpected result: ${result}`)
+      assertEquals(filters, [['id', 'other-calendar'], ['user_id', 'user-1']], 'ownership filters')
+      assertEquals(rpcCalls.length, 0, 'RPC not called')
+
+      const missing = await executeCustomTool('get_tag_stats', {}, { userId: 'user-1' }, supabase as never)
+      assert(missing.startsWith('No calendar selected'), `unexpected result: ${missing}`)
+    }
+  },
+  {
+    name: 'Trade changes are validated and only touch trades that change',
+    run: async () => {
+      assert(typeof parseTradeChanges({}) === 'string', 'empty changes rejected')
+      assert(typeof parseTradeChanges({ session: 'Tokyo' }) === 'string', 'unknown session rejected')
+      assert(typeof parseTradeChanges({ add_tags: ['A'], remove_tags: ['A'] }) === 'string', 'conflicting tags rejected')
+      assert(typeof parseTradeChanges({ fill_fields: { amount: 100 } }) === 'string', 'amount is not fillable')
+      assert(typeof parseTradeChanges({ fill_fields: { entry_price: 'abc' } }) === 'string', 'invalid number rejected')
+
+      const changes = parseTradeChanges({
+        add_tags: [' Mistake:FOMO ', 'Mistake:FOMO'],
+        remove_tags: ['Review'],
+        fill_fields: { instrument: 'eurusd', direction: 'Long', stop_loss: '1.0850' }
+      }) as TradeChanges
+      assertEquals(changes, {
+        add_tags: ['Mistake:FOMO'],
+        remove_tags: ['Review'],
+        fill_fields: { instrument: 'EURUSD', direction: 'long', stop_loss: 1.085 }
+      }, 'parsed changes')
+
+      const trade: ActionTrade = {
+        id: 't1',
+        trade_date: '2026-10-05T08:00:00Z',
+        trade_type: 'loss',
+        amount: -50,
+        tags: ['Review', 'Setup:Breakout'],
+        instrument: 'GBPUSD',
+        direction: null
+      }
+      assertEquals(applyTradeChanges(trade, changes), {
+        tags: ['Setup:Breakout', 'Mistake:FOMO'],
+        direction: 'long',
+        stop_loss: 1.085
+      }, 'existing instrument kept')
+
+      const done: ActionTrade = { ...trade, tags: ['Mistake:FOMO'], direction: 'short', stop_loss: 1.09 }
+      assertEquals(applyTradeChanges(done, { add_tags: ['Mistake:FOMO'], fill_fields: { direction: 'long' } }), null, 'unchanged trade')
+      assertEquals(applyTradeChanges(done, { is_pinned: false }), null, 'unpinning an unpinned trade')
+      assertEquals(applyTradeChanges(done, { session: 'London' }), { session: 'London' }, 'session set')
+    }
+  },
+  {
+    name: 'propose_trade_update returns a pending action without writing',
+    run: async () => {
+      const trades: ActionTrade[] = [
+        { id: 't1', name: 'EU short', trade_date: '2026-10-05T08:00:00Z', trade_type: 'loss', amount: -50, tags: [] },
+        { id: 't2', name: null, trade_date: '2026-10-12T09:00:00Z', trade_type: 'loss', amount: -20, tags: ['Mistake:FOMO'] },
+        { id: 't3', name: 'GU long', trade_date: '2026-10-19T08:30:00Z', trade_type: 'loss', amount: -35, tags: null }
+      ]
+      let tradeRows = trades
+      const tradeFilters: Array<[string, unknown]> = []
+      const writes: string[] = []
+      const query = (table: string) => {
+        const builder = {
+          select: () => builder,
+          eq: (column: string, value: unknown) => {
+            if (table === 'trades') tradeFilters.push([column, value])
+            return builder
+          },
+          is: (column: string, value: unknown) => {
+            tradeFilters.push([column, value])
+            return builder
+          },
+          in: (column: string, value: unknown) => {
+            tradeFilters.push([column, value])
+            return builder
+          },
+          maybeSingle: async () => ({ data: { id: 'calendar-1' }, error: null }),
+          order: async () => ({ data: tradeRows, error: null }),
+          update: () => { writes.push(table); return builder },
+          upsert: () => { writes.push(table); return builder }
+        }
+        return builder
+      }
+      const supabase = { from: query }
+
+      const result = await executeCustomTool(
+        'propose_trade_update',
+        { trade_ids: ['t1', 't2', 't3', 't4'], add_tags: ['Mistake:FOMO'], summary: 'Tag Monday London losses' },
+        { userId: 'user-1', calendarId: 'calendar-1' },
+        supabase as never
+      )
+
+      const action = parseTradeActionResult(result)
+      assert(action && action.type === 'update_trades', `unexpected result: ${result}`)
+      assertEquals(action.trade_ids, ['t1', 't3'], 'only trades that change')
+      assertEquals(action.preview.map(trade => trade.id), ['t1', 't3'], 'preview')
+      assertEquals(action.summary, 'Tag Monday London losses', 'summary')
+      assertEquals(action.calendar_id, 'calendar-1', 'calendar')
+      assertEquals(tradeFilters, [
+        ['calendar_id', 'calendar-1'],
+        ['user_id', 'user-1'],
+        ['deleted_at', null],
+        ['id', ['t1', 't2', 't3', 't4']]
+      ], 'trade filters')
+      assertEquals(writes, [], 'nothing written')
+
+      tradeRows = [trades[1]]
+      const unchanged = await executeCustomTool(
+        'propose_trade_update',
+        { trade_ids: ['t2'], add_tags: ['Mistake:FOMO'], summary: 'Tag' },
+        { userId: 'user-1', calendarId: 'calendar-1' },
+        supabase as never
+      )
+      assert(unchanged.startsWith('No trade would change'), `unexpected result: ${unchanged}`)
+      assertEquals(parseTradeActionResult(unchanged), null, 'no action for unchanged trades')
+
+      const tooMany = await executeCustomTool(
+        'propose_trade_update',
+        { trade_ids: Array.from({ length: 201 }, (_, i) => `t${i}`), is_pinned: true },
+        { userId: 'user-1', calendarId: 'calendar-1' },
+        supabase as never
+      )
+      assert(tooMany.startsWith('Too many trades'), `unexpected result: ${tooMany}`)
+    }
+  },
+  {
+    name: 'propose_trade_creation validates the new trade',
+    run: async () => {
+      assert(typeof parseNewTrade({ amount: 10, trade_date: '2026-10-19' }) === 'string', 'trade_type required')
+      assert(typeof parseNewTrade({ trade_type: 'win', trade_date: '2026-10-19' }) === 'string', 'amount required')
+      assert(typeof parseNewTrade({ trade_type: 'win', amount: 10, trade_date: 'yesterday' }) === 'string', 'invalid date rejected')
+      assert(typeof parseNewTrade({ trade_type: 'win', amount: 10, trade_date: '2026-10-19', fields: { fees: 2 } }) === 'string', 'unknown field rejected')
+
+      const supabase = {
+        from: () => {
+          const builder = {
+            select: () => builder,
+            eq: () => builder,
+            maybeSingle: async () => ({ data: { id: 'calendar-1' }, error: null })
+          }
+          return builder
+        }
+      }
+
+      const result = await executeCustomTool(
+        'propose_trade_creation',
+        {
+          summary: 'Add EURUSD loss from your screenshot',
+          trade_type: 'loss',
+          amount: 120,
+          trade_date: '2026-10-19',
+          session: 'London',
+          tags: ['Setup:Breakout'],
+          fields: { instrument: 'eurusd', entry_price: 1.0875, risk_to_reward: '2' },
+          image_url: 'not-a-url',
+          attach_user_images: true
+        },
+        { userId: 'user-1', calendarId: 'calendar-1' },
+        supabase as never
+      )
+
+      const action = parseTradeActionResult(result)
+      assert(action && action.type === 'create_trade', `unexpected result: ${result}`)
+      assertEquals(action.trade, {
+        instrument: 'EURUSD',
+        entry_price: 1.0875,
+        risk_to_reward: 2,
+        trade_type: 'loss',
+        amount: -120,
+        trade_date: '2026-10-19T12:00:00.000Z',
+        session: 'London',
+        tags: ['Setup:Breakout']
+      }, 'new trade')
+      assertEquals(action.image_url, undefined, 'non-http image URL dropped')
+      assertEquals(action.attach_user_images, true, 'user images attached')
+
+      const noCalendar = await executeCustomTool(
+        'propose_trade_creation',
+        { summary: 'Add', trade_type: 'win', amount: 10, trade_date: '2026-10-19' },
+        { userId: 'user-1' },
+        supabase as never
+      )
+      assert(noCalendar.startsWith('No calendar selected'), `unexpected result: ${noCalendar}`)
+    }
+  },
+  {
+    name: 'Sessions follow their time zone and calendars can define their own',
+    run: async () => {
+      const summer = getSessionTimeRange('London', new Date('2026-07-01T12:00:00Z'))
+      const winter = getSessionTimeRange('London', new Date('2026-01-15T12:00:00Z'))
+      assertEquals(summer?.start.toISOString(), '2026-07-01T07:00:00.000Z', 'London open in BST')
+      assertEquals(winter?.start.toISOString(), '2026-01-15T08:00:00.000Z', 'London open in GMT')
+      assertEquals(getSessionTimeRange('Asia', new Date('2026-01-15T12:00:00Z'))?.start.toISOString(), '2026-01-14T23:00:00.000Z', 'Asia starts the day before')
+      assertEquals(getSessionTimeRange('Tokyo', new Date('2026-01-15T12:00:00Z')), null, 'unknown session')
+      assertEquals(getSessionForTime(new Date('2026-01-15T14:00:00Z')), 'NY AM', 'default sessions')
+
+      const sessions: SessionDefinition[] = [
+        { name: 'Sydney', start: '07:00', end: '16:00', time_zone: 'Australia/Sydney' },
+        { name: 'London-NY overlap', start: '08:00', end: '11:00', time_zone: 'America/New_York' },
+        ...DEFAULT_TRADING_SESSIONS
+      ]
+      // Sydney is on daylight saving time (UTC+11) in January
+      assertEquals(getSessionTimeRange('sydney', new Date('2026-01-15T12:00:00Z'), sessions)?.start.toISOString(), '2026-01-14T20:00:00.000Z', 'Sydney open')
+      assertEquals(getSessionForTime(new Date('2026-01-14T22:30:00Z'), sessions), 'Sydney', 'Sydney before Asia')
+      assertEquals(getSessionForTime(new Date('2026-01-15T14:00:00Z'), sessions), 'London-NY overlap', 'shortest session wins')
+      assertEquals(getSessionForTime(new Date('2026-01-15T17:00:00Z'), sessions), 'NY AM', 'after the overlap')
+
+      const names = sessions.map(session => session.name)
+      assertEquals(parseTradeChanges({ session: 'london-ny overlap' }, names), { session: 'London-NY overlap' }, 'calendar spelling')
+      assert(typeof parseTradeChanges({ session: 'Tokyo' }, names) === 'string', 'unknown custom session rejected')
+      const trade = parseNewTrade({ trade_type: 'win', amount: 10, trade_date: '2026-10-19', session: 'SYDNEY' }, names)
+      assert(typeof trade !== 'string' && trade.session === 'Sydney', 'new trade in a custom session')
+    }
+  }
+]
+
+async function runTest(testCase: TestCase): Promise<boolean> {
+  try {
+    console.log(`\n🧪 Testing: ${testCase.name}`)
+    await testCase.run()
+    console.log(`✅ Test passed`)
+    return true
+  } catch (error) {
+    console.log(`❌ Test failed:`, error instanceof Error ? error.message : error)
+    return false
+  }
+}
+
+async function runAllTests() {
+  console.log('🚀 Starting ai-trading-agent Tests\n')
+
+  const results: boolean[] = []
+  for (const testCase of testCases) {
+    results.push(await runTest(testCase))
+  }
+
+  const passed = results.filter(Boolean).length
+  const total = results.length
+
+  console.log(`\n📊 Test Results: ${passed}/${total} tests passed`)
+
+  if (passed === total) {
+    console.log('🎉 All tests passed! Function is ready for deployment.')
+    return true
+  } else {
+    console.log('❌ Some tests failed. Please fix the issues.')
+    return false
+  }
+}
+
+// Run the tests
+if ((import.meta as any).main) {
+  const success = await runAllTests()
+  // Use globalThis for Deno compatibility
+  if (typeof (globalThis as any).Deno !== 'undefined') {
+    (globalThis as any).Deno.exit(success ? 0 : 1)
+  }
+}
@@ -6,6 +6,37 @@
 import { log } from "../_shared/supabase.ts";
 import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import type { Note } from "./types.ts";
+import {
+  ANALYTICS_PERIODS,
+  type AnalyticsPeriod,
+  buildEventImpactStats,
+  buildPerformanceSummary,
+  buildSessionStats,
+  buildTagStats,
+  type ChartDataResult,
+  comparePerformance,
+  type EventImpact,
+  formatPeriodLabel,
+  parseAnalyticsDate,
+  type PnLMode,
+  type TagStatsOptions,
+} from "./analytics.ts";
+import {
+  type ActionTrade,
+  applyTradeChanges,
+  buildTradePreview,
+  type CreateTradeAction,
+  FILLABLE_FIELDS,
+  formatProposalResult,
+  MAX_ACTION_TRADES,
+  type NewTrade,
+  parseNewTrade,
+  parseStringList,
+  parseTradeChanges,
+  type TradeChanges,
+  type UpdateTradesAction,
+} from "./tradeActions.ts";
+import { getCalendarSessions } from "../_shared/tradingSessions.ts";
 
 /**
  * Gemini function declaration type
@@ -499,6 +530,264 @@ Never call this tool without user consent.`,
   },
 };
 
+/**
+ * Parameters shared by the analytics tools
+ */
+const analyticsPeriodParameters = {
+  calendar_id: {
+    type: "string",
+    description:
+      "Calendar to analyze. Defaults to the current calendar; required when no calendar is selected",
+  },
+  period: {
+    type: "string",
+    enum: ["month", "year", "all"],
+    description: "Period to analyze (default: month)",
+  },
+  date: {
+    type: "string",
+    description:
+      "Any date in the period: YYYY-MM-DD, YYYY-MM or YYYY (default: today)",
+  },
+  pnl_mode: {
+    type: "string",
+    enum: ["net", "gross"],
+    description:
+      "Net P&L after commission/swap/fees or gross P&L before costs (default: net)",
+  },
+};
+
+/**
+ * Performance summary tool - the dashboard's headline figures for a period
+ */
+export const getPerformanceSummaryTool: GeminiFunctionDeclaration = {
+  name: "get_performance_summary",
+  description:
+    `Get exact performance statistics for a calendar and period: trade count, wins/losses/breakevens, win rate, total P&L, profit factor, average win/loss, streaks, max drawdown, average R:R, best/worst day and costs.
+
+Uses the same calculations as the Performance dashboard. ALWAYS prefer this over execute_sql for win rate, P&L and other statistics so your numbers match what the user sees.`,
+  parameters: {
+    type: "object",
+    properties: analyticsPeriodParameters,
+  },
+};
+
+/**
+ * Compare periods tool - two performance summaries side by side
+ */
+export const comparePeriodsTool: GeminiFunctionDeclaration = {
+  name: "compare_periods",
+  description:
+    `Compare performance between two periods of the same length (e.g. this month vs last month, 2025 vs 2026). Returns both performance summaries and the change from the first to the second period.`,
+  parameters: {
+    type: "object",
+    properties: {
+      calendar_id: analyticsPeriodParameters.calendar_id,
+      period: {
+        type: "string",
+        enum: ["month", "year"],
+        description: "Length of both periods (default: month)",
+      },
+      first_date: {
+        type: "string",
+        description: "Any date in the first (earlier) period: YYYY-MM-DD, YYYY-MM or YYYY",
+      },
+      second_date: {
+        type: "string",
+        description: "Any date in the second period (default: today)",
+      },
+      pnl_mode: analyticsPeriodParameters.pnl_mode,
+    },
+    required: ["first_date"],
+  },
+};
+
+/**
+ * Tag statistics tool - win rate and P&L per tag
+ */
+export const getTagStatsTool: GeminiFunctionDeclaration = {
+  name: "get_tag_stats",
+  description:
+    `Get win rate, trade count and P&L per tag for a period, as shown on the Performance dashboard. Use tag_filter to narrow to a tag group (e.g. "Setup:") or a single tag.`,
+  parameters: {
+    type: "object",
+    properties: {
+      ...analyticsPeriodParameters,
+      tag_filter: {
+        type: "string",
+        description: "Only tags containing this text (case-insensitive)",
+      },
+      sort_by: {
+        type: "string",
+        enum: ["total_trades", "total_pnl", "win_rate"],
+        description: "Sort order, highest first (default: total_trades)",
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of tags to return (default: 20)",
+      },
+    },
+  },
+};
+
+/**
+ * Session statistics tool - performance per trading session
+ */
+export const getSessionStatsTool: GeminiFunctionDeclaration = {
+  name: "get_session_stats",
+  description:
+    `Get trade count, win rate, total and average P&L and P&L as % of account balance for each of the calendar's trading sessions (Asia, London, NY AM, NY PM by default), as shown on the Performance dashboard.`,
+  parameters: {
+    type: "object",
+    properties: analyticsPeriodParameters,
+  },
+};
+
+/**
+ * Economic event impact tool - performance on news days
+ */
+export const getEventImpactStatsTool: GeminiFunctionDeclaration = {
+  name: "get_event_impact_stats",
+  description:
+    `Get how trades taken around high or medium impact economic events perform compared to trades without them: share of wins/losses with events, average win/loss with and without events, and the most traded events with their win rates.`,
+  parameters: {
+    type: "object",
+    properties: {
+      ...analyticsPeriodParameters,
+      impact: {
+        type: "string",
+        enum: ["high", "medium"],
+        description: "Event impact level (default: high)",
+      },
+    },
+  },
+};
+
+/**
+ * Propose trade update tool - bulk edits the user applies from an action card
+ */
+export const proposeTradeUpdateTool: GeminiFunctionDeclaration = {
+  name: "propose_trade_update",
+  description:
+    `Propose changes to existing trades: add or remove tags, set the session, pin/unpin, or fill in empty fields. Nothing is saved by this tool - the user sees the proposal as an action card and applies or dismisses it.
+
+WORKFLOW:
+1. Find the trade IDs with execute_sql (filter deleted_at IS NULL)
+2. Call this tool once with all IDs and the changes
+3. Tell the user what the card will change and ask them to review it - NEVER claim the trades were updated
+
+Only trades that would actually change are included. fill_fields never overwrites a value the trade already has.`,
+  parameters: {
+    type: "object",
+    properties: {
+      trade_ids: {
+        type: "array",
+        items: { type: "string" },
+        description: "IDs of the trades to change (max 200), exactly as returned by execute_sql",
+      },
+      summary: {
+        type: "string",
+        description:
+          'Short description shown on the card, e.g. "Tag 6 Monday London losses with Mistake:FOMO"',
+      },
+      calendar_id: {
+        type: "string",
+        description: "Calendar of the trades. Defaults to the current calendar",
+      },
+      add_tags: {
+        type: "array",
+        items: { type: "string" },
+        description: 'Tags to add, e.g. ["Mistake:FOMO"]. Reuse the calendar\'s existing tag spelling',
+      },
+      remove_tags: {
+        type: "array",
+        items: { type: "string" },
+        description: "Tags to remove",
+      },
+      session: {
+        type: "string",
+        description:
+          "Session to set on the trades: one of the calendar's sessions (default Asia, London, NY AM, NY PM)",
+      },
+      is_pinned: {
+        type: "boolean",
+        description: "Pin (true) or unpin (false) the trades",
+      },
+      fill_fields: {
+        type: "object",
+        description:
+          "Values for fields that are empty on the trades: name, instrument, direction (long/short), entry_price, exit_price, stop_loss, take_profit, risk_to_reward, notes",
+      },
+    },
+    required: ["trade_ids", "summary"],
+  },
+};
+
+/**
+ * Propose trade creation tool - a new trade the user saves from an action card
+ */
+export const proposeTradeCreationTool: GeminiFunctionDeclaration = {
+  name: "propose_trade_creation",
+  description:
+    `Propose a new trade, typically read from a trade screenshot. Nothing is saved by this tool - the user sees the trade as an action card and adds or dismisses it.
+
+WORKFLOW:
+1. Read the screenshot: images attached to the message are visible to you directly; for an image URL call analyze_image first
+2. Ask the user for values you can't read from the image (at least outcome and P&L)
+3. Call this tool with the values; set attach_user_images or image_url so the screenshot is stored with the trade
+4. Ask the user to review the card - NEVER claim the trade was added`,
+  parameters: {
+    type: "object",
+    properties: {
+      summary: {
+        type: "string",
+        description: 'Short description shown on the card, e.g. "Add EURUSD long win from your screenshot"',
+      },
+      calendar_id: {
+        type: "string",
+        description: "Calendar to add the trade to. Defaults to the current calendar",
+      },
+      trade_type: {
+        type: "string",
+        enum: ["win", "loss", "breakeven"],
+        description: "Outcome of the trade",
+      },
+      amount: {
+        type: "number",
+        description: "P&L in account currency (losses may be given as positive numbers)",
+      },
+      trade_date: {
+        type: "string",
+        description: "Date of the trade: YYYY-MM-DD or an ISO date-time",
+      },
+      session: {
+        type: "string",
+        description:
+          "Trading session: one of the calendar's sessions (default Asia, London, NY AM, NY PM)",
+      },
+      tags: {
+        type: "array",
+        items: { type: "string" },
+        description: "Tags, reusing the calendar's existing tags where they fit",
+      },
+      fields: {
+        type: "object",
+        description:
+          "Other values read from the screenshot: name, instrument, direction (long/short), entry_price, exit_price, stop_loss, take_profit, risk_to_reward, notes",
+      },
+      image_url: {
+        type: "string",
+        description: "URL of the analyzed screenshot to store with the trade",
+      },
+      attach_user_images: {
+        type: "boolean",
+        description: "Store the images the user attached to their message with the trade",
+      },
+    },
+    required: ["summary", "trade_type", "amount", "trade_date"],
+  },
+};
+
 /**
  * ============================================================================
  * TOOL IMPLEMENTATIONS
@@ -1932,6 +2221,349 @@ ${taskInstruction}`;
   }
 }
 
+/**
+ * Calendar, period and P&L mode for the analytics tools
+ */
+interface AnalyticsQuery {
+  calendarId: string;
+  period: AnalyticsPeriod;
+  date: Date;
+  pnlMode: PnLMode;
+}
+
+/**
+ * Read the shared analytics arguments
+ * Returns a message for the model when they can't be used
+ */
+function parseAnalyticsQuery(
+  args: Record<string, unknown>,
+  context: Record<string, string | undefined>,
+  dateValue: unknown = args.date,
+): AnalyticsQuery | string {
+  const calendarId = typeof args.calendar_id === "string" && args.calendar_id
+    ? args.calendar_id
+    : context.calendarId;
+  if (!calendarId) {
+    return "No calendar selected. Ask the user which calendar to analyze or look up their calendar IDs, then pass calendar_id.";
+  }
+
+  const period = typeof args.period === "string" ? args.period : "month";
+  if (!ANALYTICS_PERIODS.includes(period as AnalyticsPeriod)) {
+    return `Invalid period "${period}". Use one of: ${ANALYTICS_PERIODS.join(", ")}`;
+  }
+
+  const date = parseAnalyticsDate(
+    typeof dateValue === "string" ? dateValue : undefined,
+  );
+  if (!date) {
+    return `Invalid date "${dateValue}". Use YYYY-MM-DD, YYYY-MM or YYYY`;
+  }
+
+  return {
+    calendarId,
+    period: period as AnalyticsPeriod,
+    date,
+    pnlMode: args.pnl_mode === "gross" ? "gross" : "net",
+  };
+}
+
+/**
+ * Throw unless the calendar belongs to the user
+ * The service client bypasses RLS, so tools that read or propose changes by
+ * calendar ID check ownership first
+ */
+async function verifyCalendarOwner(
+  supabase: SupabaseClient,
+  userId: string,
+  calendarId: string,
+): Promise<void> {
+  const { data: calendar, error } = await supabase
+    .from("calendars")
+    .select("id")
+    .eq("id", calendarId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!calendar) throw new Error("Calendar not found");
+}
+
+/**
+ * Session names of a calendar, to validate the session of proposed trades
+ */
+async function loadCalendarSessionNames(
+  supabase: SupabaseClient,
+  calendarId: string,
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("calendars")
+    .select("trading_sessions")
+    .eq("id", calendarId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return getCalendarSessions(data).map((session) => session.name);
+}
+
+/**
+ * Load the Performance dashboard data for a period
+ */
+async function loadPerformanceData(
+  supabase: SupabaseClient,
+  userId: string,
+  query: AnalyticsQuery,
+): Promise<ChartDataResult> {
+  await verifyCalendarOwner(supabase, userId, query.calendarId);
+
+  const { data, error } = await supabase.rpc("calculate_chart_data", {
+    p_calendar_id: query.calendarId,
+    p_time_period: query.period,
+    p_selected_date: query.date.toISOString(),
+    p_pnl_mode: query.pnlMode,
+  });
+
+  if (error) throw new Error(error.message);
+  return data as ChartDataResult;
+}
+
+/**
+ * Headline performance figures for a period
+ */
+export async function getPerformanceSummary(
+  supabase: SupabaseClient,
+  userId: string,
+  query: AnalyticsQuery,
+): Promise<string> {
+  try {
+    const periodLabel = formatPeriodLabel(query.period, query.date);
+    log(`Calculating performance summary for ${periodLabel}`, "info");
+
+    const data = await loadPerformanceData(supabase, userId, query);
+    return JSON.stringify(
+      buildPerformanceSummary(data, periodLabel, query.pnlMode),
+    );
+  } catch (error) {
+    log(`Error calculating performance summary: ${error}`, "error");
+    return `Error calculating performance summary: ${
+      error instanceof Error ? error.message : "Unknown"
+    }`;
+  }
+}
+
+/**
+ * Performance of two periods side by side
+ */
+export async function comparePeriods(
+  supabase: SupabaseClient,
+  userId: string,
+  first: AnalyticsQuery,
+  second: AnalyticsQuery,
+): Promise<string> {
+  try {
+    const firstLabel = formatPeriodLabel(first.period, first.date);
+    const secondLabel = formatPeriodLabel(second.period, second.date);
+    log(`Comparing performance of ${firstLabel} and ${secondLabel}`, "info");
+
+    const [firstData, secondData] = await Promise.all([
+      loadPerformanceData(supabase, userId, first),
+      loadPerformanceData(supabase, userId, second),
+    ]);
+
+    return JSON.stringify(comparePerformance(
+      buildPerformanceSummary(firstData, firstLabel, first.pnlMode),
+      buildPerformanceSummary(secondData, secondLabel, second.pnlMode),
+    ));
+  } catch (error) {
+    log(`Error comparing periods: ${error}`, "error");
+    return `Error comparing periods: ${
+      error instanceof Error ? error.message : "Unknown"
+    }`;
+  }
+}
+
+/**
+ * Win rate, trade count and P&L per tag
+ */
+export async function getTagStats(
+  supabase: SupabaseClient,
+  userId: string,
+  query: AnalyticsQuery,
+  options: TagStatsOptions,
+): Promise<string> {
+  try {
+    const periodLabel = formatPeriodLabel(query.period, query.date);
+    log(`Calculating tag stats for ${periodLabel}`, "info");
+
+    const data = await loadPerformanceData(supabase, userId, query);
+    const tags = buildTagStats(data, options);
+    if (tags.length === 0) {
+      return options.tagFilter
+        ? `No trades with tags matching "${options.tagFilter}" in ${periodLabel}.`
+        : `No tagged trades in ${periodLabel}.`;
+    }
+
+    return JSON.stringify({ period: periodLabel, pnl_mode: query.pnlMode, tags });
+  } catch (error) {
+    log(`Error calculating tag stats: ${error}`, "error");
+    return `Error calculating tag stats: ${
+      error instanceof Error ? error.message : "Unknown"
+    }`;
+  }
+}
+
+/**
+ * Performance per trading session
+ */
+export async function getSessionStats(
+  supabase: SupabaseClient,
+  userId: string,
+  query: AnalyticsQuery,
+): Promise<string> {
+  try {
+    const periodLabel = formatPeriodLabel(query.period, query.date);
+    log(`Calculating session stats for ${periodLabel}`, "info");
+
+    const data = await loadPerformanceData(supabase, userId, query);
+    return JSON.stringify({
+      period: periodLabel,
+      pnl_mode: query.pnlMode,
+      sessions: buildSessionStats(data),
+    });
+  } catch (error) {
+    log(`Error calculating session stats: ${error}`, "error");
+    return `Error calculating session stats: ${
+      error instanceof Error ? error.message : "Unknown"
+    }`;
+  }
+}
+
+/**
+ * Performance of trades around economic events of one impact level
+ */
+export async function getEventImpactStats(
+  supabase: SupabaseClient,
+  userId: string,
+  query: AnalyticsQuery,
+  impact: EventImpact,
+): Promise<string> {
+  try {
+    const periodLabel = formatPeriodLabel(query.period, query.date);
+    log(`Calculating ${impact} impact event stats for ${periodLabel}`, "info");
+
+    const data = await loadPerformanceData(supabase, userId, query);
+    const stats = buildEventImpactStats(data, impact);
+    if (!stats) {
+      return `No ${impact} impact event data for ${periodLabel}.`;
+    }
+
+    return JSON.stringify({ period: periodLabel, pnl_mode: query.pnlMode, ...stats });
+  } catch (error) {
+    log(`Error calculating event impact stats: ${error}`, "error");
+    return `Error calculating event impact stats: ${
+      error instanceof Error ? error.message : "Unknown"
+    }`;
+  }
+}
+
+const ACTION_TRADE_COLUMNS = [
+  "id", "trade_date", "trade_type", "amount", "tags", "session", "is_pinned",
+  ...FILLABLE_FIELDS,
+].join(", ");
+
+/**
+ * Propose changes to existing trades
+ * Reads the trades to keep only those that would change; the client applies the
+ * proposal after the user approves it
+ */
+export async function proposeTradeUpdate(
+  supabase: SupabaseClient,
+  userId: string,
+  calendarId: string,
+  tradeIds: string[],
+  changes: TradeChanges,
+  summary: string,
+): Promise<string> {
+  try {
+    log(`Proposing update of ${tradeIds.length} trades`, "info");
+    await verifyCalendarOwner(supabase, userId, calendarId);
+
+    const { data, error } = await supabase
+      .from("trades")
+      .select(ACTION_TRADE_COLUMNS)
+      .eq("calendar_id", calendarId)
+      .eq("user_id", userId)
+      .is("deleted_at", null)
+      .in("id", tradeIds)
+      .order("trade_date", { ascending: false });
+
+    if (error) throw new Error(error.message);
+
+    const trades = (data ?? []) as ActionTrade[];
+    const missingCount = tradeIds.length - trades.length;
+    if (trades.length === 0) {
+      return "None of these trade IDs were found in the calendar. Query the trades again with execute_sql and use the exact IDs.";
+    }
+
+    const affected = trades.filter((trade) => applyTradeChanges(trade, changes));
+    if (affected.length === 0) {
+      return `No trade would change: all ${trades.length} trades already match. Tell the user instead of proposing the change.`;
+    }
+
+    const action: UpdateTradesAction = {
+      id: crypto.randomUUID(),
+      type: "update_trades",
+      calendar_id: calendarId,
+      summary,
+      trade_ids: affected.map((trade) => trade.id),
+      changes,
+      preview: buildTradePreview(affected),
+    };
+
+    log(`Proposed update of ${affected.length} trades (${trades.length - affected.length} unchanged, ${missingCount} not found)`, "info");
+    return formatProposalResult(action);
+  } catch (error) {
+    log(`Error proposing trade update: ${error}`, "error");
+    return `Error proposing trade update: ${
+      error instanceof Error ? error.message : "Unknown"
+    }`;
+  }
+}
+
+/**
+ * Propose a new trade
+ */
+export async function proposeTradeCreation(
+  supabase: SupabaseClient,
+  userId: string,
+  calendarId: string,
+  trade: NewTrade,
+  summary: string,
+  imageUrl?: string,
+  attachUserImages = false,
+): Promise<string> {
+  try {
+    log(`Proposing new ${trade.trade_type} trade on ${trade.trade_date}`, "info");
+    await verifyCalendarOwner(supabase, userId, calendarId);
+
+    const action: CreateTradeAction = {
+      id: crypto.randomUUID(),
+      type: "create_trade",
+      calendar_id: calendarId,
+      summary,
+      trade,
+      ...(imageUrl ? { image_url: imageUrl } : {}),
+      attach_user_images: attachUserImages,
+    };
+
+    return formatProposalResult(action);
+  } catch (error) {
+    log(`Error proposing trade creation: ${error}`, "error");
+    return `Error proposing trade creation: ${
+      error instanceof Error ? error.message : "Unknown"
+    }`;
+  }
+}
+
 /**
  * ============================================================================
  * TOOL EXECUTOR
@@ -2153,6 +2785,154 @@ export async function executeCustomTool(
         );
       }
 
+      case "get_performance_summary": {
+        if (!supabase) {
+          return "Supabase client not available for performance analytics";
+        }
+        const userId = context.userId || "";
+        const query = parseAnalyticsQuery(args, context);
+        if (typeof query === "string") return query;
+        return await getPerformanceSummary(supabase, userId, query);
+      }
+
+      case "get_tag_stats": {
+        if (!supabase) {
+          return "Supabase client not available for performance analytics";
+        }
+        const userId = context.userId || "";
+        const query = parseAnalyticsQuery(args, context);
+        if (typeof query === "string") return query;
+        const sortBy = args.sort_by === "total_pnl" || args.sort_by === "win_rate"
+          ? args.sort_by
+          : "total_trades";
+        const tagFilter = typeof args.tag_filter === "string"
+          ? args.tag_filter
+          : undefined;
+        const limit = typeof args.limit === "number" && args.limit > 0
+          ? Math.floor(args.limit)
+          : undefined;
+        return await getTagStats(supabase, userId, query, {
+          tagFilter,
+          sortBy,
+          limit,
+        });
+      }
+
+      case "get_session_stats": {
+        if (!supabase) {
+          return "Supabase client not available for performance analytics";
+        }
+        const userId = context.userId || "";
+        const query = parseAnalyticsQuery(args, context);
+        if (typeof query === "string") return query;
+        return await getSessionStats(supabase, userId, query);
+      }
+
+      case "get_event_impact_stats": {
+        if (!supabase) {
+          return "Supabase client not available for performance analytics";
+        }
+        const userId = context.userId || "";
+        const query = parseAnalyticsQuery(args, context);
+        if (typeof query === "string") return query;
+        const impact: EventImpact = args.impact === "medium" ? "medium" : "high";
+        return await getEventImpactStats(supabase, userId, query, impact);
+      }
+
+      case "compare_periods": {
+        if (!supabase) {
+          return "Supabase client not available for performance analytics";
+        }
+        if (typeof args.first_date !== "string") {
+          return "first_date is required to compare periods";
+        }
+        const userId = context.userId || "";
+        const period = args.period === "year" ? "year" : "month";
+        const first = parseAnalyticsQuery(
+          { ...args, period },
+          context,
+          args.first_date,
+        );
+        if (typeof first === "string") return first;
+        const second = parseAnalyticsQuery(
+          { ...args, period },
+          context,
+          args.second_date,
+        );
+        if (typeof second === "string") return second;
+        return await comparePeriods(supabase, userId, first, second);
+      }
+
+      case "propose_trade_update": {
+        if (!supabase) {
+          return "Supabase client not available for trade actions";
+        }
+        const userId = context.userId || "";
+        const calendarId = typeof args.calendar_id === "string" && args.calendar_id
+          ? args.calendar_id
+          : context.calendarId;
+        if (!calendarId) {
+          return "No calendar selected. Pass the calendar_id of the trades.";
+        }
+        const tradeIds = parseStringList(args.trade_ids);
+        if (tradeIds.length === 0) {
+          return "trade_ids is required: the IDs of the trades to change";
+        }
+        if (tradeIds.length > MAX_ACTION_TRADES) {
+          return `Too many trades (${tradeIds.length}). Propose at most ${MAX_ACTION_TRADES} trades at a time.`;
+        }
+        const changes = parseTradeChanges(
+          args,
+          await loadCalendarSessionNames(supabase, calendarId),
+        );
+        if (typeof changes === "string") return changes;
+        const summary = typeof args.summary === "string" && args.summary.trim()
+          ? args.summary.trim()
+          : `Update ${tradeIds.length} trade${tradeIds.length === 1 ? "" : "s"}`;
+        return await proposeTradeUpdate(
+          supabase,
+          userId,
+          calendarId,
+          tradeIds,
+          changes,
+          summary,
+        );
+      }
+
+      case "propose_trade_creation": {
+        if (!supabase) {
+          return "Supabase client not available for trade actions";
+        }
+        const userId = context.userId || "";
+        const calendarId = typeof args.calendar_id === "string" && args.calendar_id
+          ? args.calendar_id
+          : context.calendarId;
+        if (!calendarId) {
+          return "No calendar selected. Ask the user which calendar to add the trade to, then pass calendar_id.";
+        }
+        const trade = parseNewTrade(
+          args,
+          await loadCalendarSessionNames(supabase, calendarId),
+        );
+        if (typeof trade === "string") return trade;
+        const summary = typeof args.summary === "string" && args.summary.trim()
+          ? args.summary.trim()
+          : `Add ${trade.trade_type} trade`;
+        const imageUrl = typeof args.image_url === "string" &&
+            /^https?:\/\//.test(args.image_url)
+          ? args.image_url
+          : undefined;
+        return await proposeTradeCreation(
+          supabase,
+          userId,
+          calendarId,
+          trade,
+          summary,
+          imageUrl,
+          args.attach_user_images === true,
+        );
+      }
+
       default:
         return `Unknown custom tool: ${toolName}`;
     }
@@ -2181,5 +2961,12 @@ export function getAllCustomTools(): GeminiFunctionDeclaration[] {
     getTagDefinitionTool,
     saveTagDefinitionTool,
     updateMemoryTool,
+    getPerformanceSummaryTool,
+    comparePeriodsTool,
+    getTagStatsTool,
+    getSessionStatsTool,
+    getEventImpactStatsTool,
+    proposeTradeUpdateTool,
+    proposeTradeCreationTool,
   ];
 }
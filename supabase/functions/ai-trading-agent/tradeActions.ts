@@ -0,0 +1,302 @@
+/**
+ * Trade Actions
+ * Validation and previews for the trade action tools. The agent never writes trades:
+ * it proposes a change that the client shows as an action card and applies only
+ * after the user approves it (src/utils/tradeActionUtils.ts applies the same rules)
+ */
+
+import { DEFAULT_TRADING_SESSIONS } from '../_shared/tradingSessions.ts';
+
+// One of the calendar's sessions (calendars.trading_sessions, or the default sessions)
+export type TradeSession = string;
+export type TradeOutcome = 'win' | 'loss' | 'breakeven';
+
+export const TRADE_SESSIONS: TradeSession[] = DEFAULT_TRADING_SESSIONS.map(session => session.name);
+
+// Upper bound for one proposal so the card stays reviewable
+export const MAX_ACTION_TRADES = 200;
+const PREVIEW_LIMIT = 10;
+
+// Fields the agent may fill in when they are empty on a trade
+export const FILLABLE_FIELDS = [
+  'name', 'instrument', 'direction', 'entry_price', 'exit_price',
+  'stop_loss', 'take_profit', 'risk_to_reward', 'notes'
+] as const;
+export type FillableField = typeof FILLABLE_FIELDS[number];
+
+const NUMERIC_FIELDS: FillableField[] = ['entry_price', 'exit_price', 'stop_loss', 'take_profit', 'risk_to_reward'];
+
+type FieldValues = Partial<Record<FillableField, string | number>>;
+
+export interface TradeChanges {
+  add_tags?: string[];
+  remove_tags?: string[];
+  session?: TradeSession;
+  is_pinned?: boolean;
+  fill_fields?: FieldValues;
+}
+
+/**
+ * The trade columns the update tool reads
+ */
+export interface ActionTrade extends Partial<Record<FillableField, string | number | null>> {
+  id: string;
+  trade_date: string;
+  trade_type: TradeOutcome;
+  amount: number;
+  tags?: string[] | null;
+  session?: string | null;
+  is_pinned?: boolean | null;
+}
+
+export interface NewTrade extends FieldValues {
+  trade_type: TradeOutcome;
+  amount: number;
+  trade_date: string;
+  session?: TradeSession;
+  tags: string[];
+}
+
+export interface TradePreview {
+  id: string;
+  name: string | null;
+  trade_date: string;
+  trade_type: TradeOutcome;
+  amount: number;
+}
+
+export interface UpdateTradesAction {
+  id: string;
+  type: 'update_trades';
+  calendar_id: string;
+  summary: string;
+  trade_ids: string[];
+  changes: TradeChanges;
+  preview: TradePreview[];
+}
+
+export interface CreateTradeAction {
+  id: string;
+  type: 'create_trade';
+  calendar_id: string;
+  summary: string;
+  trade: NewTrade;
+  // Screenshot to store with the trade: a URL the agent analyzed, or the image the user attached
+  image_url?: string;
+  attach_user_images: boolean;
+}
+
+export type TradeActionProposal = UpdateTradesAction | CreateTradeAction;
+
+const PENDING_CONFIRMATION = 'pending_confirmation';
+
+/**
+ * Trimmed, de-duplicated list of strings (tags, trade IDs)
+ */
+export function parseStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const list: string[] = [];
+  for (const item of value) {
+    const text = typeof item === 'string' ? item.trim() : '';
+    if (text && !list.includes(text)) list.push(text);
+  }
+  return list;
+}
+
+const isEmpty = (value: unknown): boolean =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+/**
+ * Validate field values for fill_fields and new trades
+ * Returns a message for the model when a value can't be used
+ */
+function parseFieldValues(value: unknown): FieldValues | string {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return 'Trade fields must be an object, e.g. {"instrument": "EURUSD"}';
+  }
+
+  const fields: FieldValues = {};
+  for (const [key, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (isEmpty(raw)) continue;
+    const field = key as FillableField;
+    if (!FILLABLE_FIELDS.includes(field)) {
+      return `Field "${key}" can't be set. Use: ${FILLABLE_FIELDS.join(', ')}`;
+    }
+
+    if (NUMERIC_FIELDS.includes(field)) {
+      const number = typeof raw === 'number' ? raw : Number(String(raw).trim());
+      if (!Number.isFinite(number)) return `Invalid number for ${field}: "${raw}"`;
+      fields[field] = number;
+    } else if (field === 'direction') {
+      const direction = String(raw).trim().toLowerCase();
+      if (direction !== 'long' && direction !== 'short') return `Invalid direction "${raw}". Use long or short`;
+      fields.direction = direction;
+    } else if (field === 'instrument') {
+      fields.instrument = String(raw).trim().toUpperCase();
+    } else {
+      fields[field] = String(raw).trim();
+    }
+  }
+  return fields;
+}
+
+/**
+ * The calendar's spelling of a session name (case-insensitive)
+ */
+function findSession(value: unknown, sessions: TradeSession[]): TradeSession | undefined {
+  const name = String(value).trim().toLowerCase();
+  return sessions.find(session => session.toLowerCase() === name);
+}
+
+/**
+ * Read the changes of a propose_trade_update call
+ * @param sessions - The calendar's session names
+ */
+export function parseTradeChanges(
+  args: Record<string, unknown>,
+  sessions: TradeSession[] = TRADE_SESSIONS
+): TradeChanges | string {
+  const changes: TradeChanges = {};
+
+  const addTags = parseStringList(args.add_tags);
+  const removeTags = parseStringList(args.remove_tags);
+  const conflicting = addTags.filter(tag => removeTags.includes(tag));
+  if (conflicting.length > 0) {
+    return `Tags can't be added and removed at once: ${conflicting.join(', ')}`;
+  }
+  if (addTags.length > 0) changes.add_tags = addTags;
+  if (removeTags.length > 0) changes.remove_tags = removeTags;
+
+  if (args.session !== undefined && args.session !== null) {
+    const session = findSession(args.session, sessions);
+    if (!session) {
+      return `Invalid session "${args.session}". Use one of: ${sessions.join(', ')}`;
+    }
+    changes.session = session;
+  }
+
+  if (typeof args.is_pinned === 'boolean') changes.is_pinned = args.is_pinned;
+
+  const fillFields = parseFieldValues(args.fill_fields);
+  if (typeof fillFields === 'string') return fillFields;
+  if (Object.keys(fillFields).length > 0) changes.fill_fields = fillFields;
+
+  if (Object.keys(changes).length === 0) {
+    return 'No changes given. Pass add_tags, remove_tags, session, is_pinned or fill_fields.';
+  }
+  return changes;
+}
+
+/**
+ * The fields of a trade that the changes would modify, or null when it stays as is
+ */
+export function applyTradeChanges(trade: ActionTrade, changes: TradeChanges): Partial<ActionTrade> | null {
+  const updates: Partial<ActionTrade> = {};
+
+  const currentTags = trade.tags ?? [];
+  const tags = currentTags
+    .filter(tag => !changes.remove_tags?.includes(tag))
+    .concat((changes.add_tags ?? []).filter(tag => !currentTags.includes(tag)));
+  if (tags.length !== currentTags.length || tags.some((tag, index) => tag !== currentTags[index])) {
+    updates.tags = tags;
+  }
+
+  if (changes.session && trade.session !== changes.session) updates.session = changes.session;
+  if (changes.is_pinned !== undefined && !!trade.is_pinned !== changes.is_pinned) {
+    updates.is_pinned = changes.is_pinned;
+  }
+
+  for (const [field, value] of Object.entries(changes.fill_fields ?? {})) {
+    if (isEmpty(trade[field as FillableField])) updates[field as FillableField] = value;
+  }
+
+  return Object.keys(updates).length > 0 ? updates : null;
+}
+
+/**
+ * First few affected trades for the action card
+ */
+export function buildTradePreview(trades: ActionTrade[]): TradePreview[] {
+  return trades.slice(0, PREVIEW_LIMIT).map(trade => ({
+    id: trade.id,
+    name: typeof trade.name === 'string' ? trade.name : null,
+    trade_date: trade.trade_date,
+    trade_type: trade.trade_type,
+    amount: trade.amount
+  }));
+}
+
+/**
+ * Parse YYYY-MM-DD (at noon UTC) or a full ISO date-time
+ */
+function parseTradeDate(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const text = value.trim();
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T12:00:00Z` : text);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Read the trade of a propose_trade_creation call
+ * @param sessions - The calendar's session names
+ */
+export function parseNewTrade(
+  args: Record<string, unknown>,
+  sessions: TradeSession[] = TRADE_SESSIONS
+): NewTrade | string {
+  const tradeType = args.trade_type;
+  if (tradeType !== 'win' && tradeType !== 'loss' && tradeType !== 'breakeven') {
+    return 'trade_type is required: win, loss or breakeven';
+  }
+
+  const amount = typeof args.amount === 'number' ? args.amount : Number(args.amount);
+  if (args.amount === undefined || args.amount === null || !Number.isFinite(amount)) {
+    return 'amount is required: the P&L of the trade in account currency';
+  }
+
+  const tradeDate = parseTradeDate(args.trade_date);
+  if (!tradeDate) return 'trade_date is required: YYYY-MM-DD or an ISO date-time';
+
+  const session = args.session !== undefined && args.session !== null ? findSession(args.session, sessions) : undefined;
+  if (args.session !== undefined && args.session !== null && !session) {
+    return `Invalid session "${args.session}". Use one of: ${sessions.join(', ')}`;
+  }
+
+  const fields = parseFieldValues(args.fields);
+  if (typeof fields === 'string') return fields;
+
+  return {
+    ...fields,
+    trade_type: tradeType,
+    // Losses are stored as negative amounts
+    amount: tradeType === 'loss' ? -Math.abs(amount) : tradeType === 'win' ? Math.abs(amount) : amount,
+    trade_date: tradeDate,
+    ...(session ? { session } : {}),
+    tags: parseStringList(args.tags)
+  };
+}
+
+/**
+ * Tool result for a proposal; index.ts streams the action to the client
+ */
+export function formatProposalResult(action: TradeActionProposal): string {
+  return JSON.stringify({
+    status: PENDING_CONFIRMATION,
+    action,
+    message: 'The user now sees this change as an action card. Nothing has been saved yet: briefly explain the proposal and ask them to review and apply it. Never say the change was made.'
+  });
+}
+
+/**
+ * The proposal in a tool result, if it is one
+ */
+export function parseTradeActionResult(result: string): TradeActionProposal | null {
+  if (!result.startsWith(`{"status":"${PENDING_CONFIRMATION}"`)) return null;
+  try {
+    const parsed = JSON.parse(result);
+    return parsed.action ?? null;
+  } catch {
+    return null;
+  }
+}
@@ -3,6 +3,9 @@
  * Mirrors main application types for edge function use
  */
 
+import type { LLMProviderId } from './llmProviders.ts';
+import type { SessionDefinition } from '../_shared/tradingSessions.ts';
+
 // Economic Calendar Types
 export type ImpactLevel = 'Low' | 'Medium' | 'High' | 'Holiday' | 'Non-Economic';
 export type Currency = 'USD' | 'EUR' | 'GBP' | 'JPY' | 'AUD' | 'CAD' | 'CHF' | 'NZD' | 'CNY' | 'ALL';
@@ -169,6 +172,7 @@ export interface Calendar {
   // Settings
   economic_calendar_filters?: EconomicCalendarFilterSettings;
   pinned_events?: PinnedEvent[];
+  trading_sessions?: SessionDefinition[] | null; // Custom sessions, null = default sessions
 
   // Calculated statistics
   win_rate?: number;
@@ -217,7 +221,10 @@ export interface AgentRequest {
   focusedTradeId?: string; // When analyzing a specific trade
   conversationHistory?: ConversationMessage[];
   calendarContext?: Partial<Calendar>;
-  userApiKey?: string; // User's own Gemini API key (optional)
+  userApiKey?: string; // User's own API key for the selected provider (optional)
+  provider?: LLMProviderId; // Defaults to 'gemini'
+  model?: string; // Model override, only used with the user's own key or a local endpoint
+  baseUrl?: string; // OpenAI-compatible endpoint, required for 'local' (e.g. Ollama)
   images?: UserAttachedImage[]; // User-attached images for analysis
 }
 
@@ -0,0 +1,271 @@
+/**
+ * AI Weekly Review Edge Function
+ *
+ * Invoked by pg_cron (088_ai_weekly_reviews.sql). For every calendar that opted in
+ * (calendars.weekly_review_enabled) it reviews the last complete week, saves the
+ * review as a by_assistant note and links it from calendars.weekly_review_note_id.
+ *
+ * Calendars are reviewed in batches of MAX_REVIEWS_PER_RUN; the cron job runs
+ * repeatedly on Mondays and each run picks up the calendars that are not reviewed
+ * for the week yet (calendars.weekly_review_week_start). Every attempt is recorded
+ * (calendars.weekly_review_attempted_at) and failed calendars wait
+ * REVIEW_RETRY_DELAY_MS before the next attempt, so they cannot starve the others.
+ */
+
+import { createServiceClient, errorResponse, successResponse, handleCors, log, parseJsonBody } from '../_shared/supabase.ts';
+import { createLLMProvider, type LLMProvider } from '../ai-trading-agent/llmProviders.ts';
+import { runAgentLoop, EMPTY_RESPONSE_FALLBACK } from '../ai-trading-agent/agentLoop.ts';
+import {
+  buildReviewMessage,
+  buildWeeklyReview,
+  formatReviewContent,
+  formatReviewTitle,
+  getReviewWeek,
+  MAX_UPCOMING_EVENTS,
+  REVIEW_SYSTEM_PROMPT,
+  WEEKLY_REVIEW_TAG,
+  type ReviewCalendar,
+  type ReviewEvent,
+  type ReviewTrade,
+  type ReviewWeek,
+  type WeeklyReview
+} from './review.ts';
+
+type SupabaseClient = ReturnType<typeof createServiceClient>;
+
+interface WeeklyReviewPayload {
+  calendarId?: string; // Review a single calendar, e.g. when testing the job
+}
+
+type ReviewOutcome = 'created' | 'no_trades' | 'failed';
+
+// Each review waits on the model, so keep a run well inside the function time limit
+const MAX_REVIEWS_PER_RUN = 10;
+const REVIEW_RETRY_DELAY_MS = 60 * 60 * 1000;
+const EVENT_LOOKAHEAD_DAYS = 7;
+const REVIEW_NOTE_COLOR = 'indigo';
+
+const REVIEW_CALENDAR_COLUMNS = 'id, user_id, name, account_balance, max_daily_drawdown, weekly_target, risk_per_trade, dynamic_risk_enabled, increased_risk_percentage, required_tag_groups, total_pnl, economic_calendar_filters';
+const REVIEW_TRADE_COLUMNS = 'id, name, amount, trade_type, trade_date, session, tags, checklist';
+
+/**
+ * Only the cron job (service role key) may run reviews, each one calls the model
+ */
+function isServiceRequest(req: Request): boolean {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return !!serviceRoleKey && req.headers.get('Authorization') === `Bearer ${serviceRoleKey}`;
+}
+
+/**
+ * High-impact events of the coming week in the calendar's economic calendar currencies
+ */
+async function fetchUpcomingEvents(supabase: SupabaseClient, calendar: ReviewCalendar): Promise<ReviewEvent[]> {
+  const now = new Date();
+  const until = new Date(now.getTime() + EVENT_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000);
+
+  let query = supabase
+    .from('economic_events')
+    .select('event_name, currency, impact, event_time')
+    .eq('impact', 'High')
+    .gte('event_time', now.toISOString())
+    .lt('event_time', until.toISOString())
+    .order('event_time', { ascending: true })
+    .limit(MAX_UPCOMING_EVENTS);
+
+  const currencies = (calendar.economic_calendar_filters?.currencies ?? []).filter(currency => currency !== 'ALL');
+  if (currencies.length > 0) {
+    query = query.in('currency', currencies);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    log(`Error fetching upcoming events for calendar ${calendar.id}`, 'warn', error);
+    return [];
+  }
+  return (data || []) as ReviewEvent[];
+}
+
+/**
+ * The model's written review, or null when generation failed
+ * The note is still saved with the figures in that case
+ */
+async function generateSummary(provider: LLMProvider | null, review: WeeklyReview): Promise<string | null> {
+  if (!provider) return null;
+
+  try {
+    const result = await runAgentLoop({
+      provider,
+      systemPrompt: REVIEW_SYSTEM_PROMPT,
+      message: buildReviewMessage(review),
+      conversationHistory: [],
+      tools: [],
+      executeTool: async () => 'No tools are available for the weekly review',
+      maxTurns: 1
+    });
+    const text = result.finalText.trim();
+    return text && text !== EMPTY_RESPONSE_FALLBACK ? text : null;
+  } catch (error) {
+    log(`Weekly review summary failed: ${error instanceof Error ? error.message : 'Unknown'}`, 'warn');
+    return null;
+  }
+}
+
+/**
+ * Review one calendar's week and save the note
+ */
+async function reviewCalendar(
+  supabase: SupabaseClient,
+  provider: LLMProvider | null,
+  calendar: ReviewCalendar,
+  week: ReviewWeek
+): Promise<ReviewOutcome> {
+  const weekStart = week.start.toISOString().slice(0, 10);
+
+  // Trades since the week started, to work out the balance at the start of the week
+  const { data: trades, error: tradesError } = await supabase
+    .from('trades')
+    .select(REVIEW_TRADE_COLUMNS)
+    .eq('calendar_id', calendar.id)
+    .is('deleted_at', null)
+    .gte('trade_date', week.start.toISOString())
+    .order('trade_date', { ascending: true });
+
+  if (tradesError) {
+    log(`Error fetching trades for calendar ${calendar.id}`, 'error', tradesError);
+    return 'failed';
+  }
+
+  const tradesSinceStart = (trades || []) as ReviewTrade[];
+  const weekTrades = tradesSinceStart.filter(trade => new Date(trade.trade_date) < week.end);
+
+  let noteId: string | null = null;
+  if (weekTrades.length > 0) {
+    const startingBalance = (calendar.account_balance || 0) + (calendar.total_pnl ?? 0) -
+      tradesSinceStart.reduce((sum, trade) => sum + trade.amount, 0);
+    const events = await fetchUpcomingEvents(supabase, calendar);
+    const review = buildWeeklyReview(calendar, week, weekTrades, startingBalance, events);
+    const summary = await generateSummary(provider, review);
+
+    const now = new Date().toISOString();
+    const { data: note, error: noteError } = await supabase
+      .from('notes')
+      .insert({
+        user_id: calendar.user_id,
+        calendar_id: calendar.id,
+        title: formatReviewTitle(review),
+        content: formatReviewContent(review, summary),
+        by_assistant: true,
+        is_archived: false,
+        is_pinned: false,
+        cover_image: null,
+        color: REVIEW_NOTE_COLOR,
+        tags: [WEEKLY_REVIEW_TAG],
+        created_at: now,
+        updated_at: now
+      })
+      .select('id')
+      .single();
+
+    if (noteError || !note) {
+      log(`Error saving weekly review for calendar ${calendar.id}`, 'error', noteError);
+      return 'failed';
+    }
+    noteId = note.id;
+  }
+
+  // Mark the week as reviewed, also without trades so the next runs skip the calendar
+  const { error: updateError } = await supabase
+    .from('calendars')
+    .update({
+      weekly_review_week_start: weekStart,
+      ...(noteId ? { weekly_review_note_id: noteId } : {})
+    })
+    .eq('id', calendar.id);
+
+  if (updateError) {
+    log(`Error linking weekly review to calendar ${calendar.id}`, 'error', updateError);
+    return 'failed';
+  }
+
+  return noteId ? 'created' : 'no_trades';
+}
+
+Deno.serve(async (req: Request) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    if (req.method !== 'POST') {
+      return errorResponse('Method Not Allowed', 405);
+    }
+
+    if (!isServiceRequest(req)) {
+      return errorResponse('Service role required', 401);
+    }
+
+    const payload = await parseJsonBody<WeeklyReviewPayload>(req) ?? {};
+    const week = getReviewWeek(new Date());
+    const weekStart = week.start.toISOString().slice(0, 10);
+    const supabase = createServiceClient();
+    const retryBefore = new Date(Date.now() - REVIEW_RETRY_DELAY_MS).toISOString();
+
+    let query = supabase
+      .from('calendars')
+      .select(REVIEW_CALENDAR_COLUMNS)
+      .eq('weekly_review_enabled', true)
+      .is('deleted_at', null)
+      .or(`weekly_review_week_start.is.null,weekly_review_week_start.lt.${weekStart}`)
+      .or(`weekly_review_attempted_at.is.null,weekly_review_attempted_at.lt.${retryBefore}`)
+      .order('weekly_review_week_start', { ascending: true, nullsFirst: true })
+      .order('id', { ascending: true })
+      .limit(MAX_REVIEWS_PER_RUN);
+
+    if (payload.calendarId) {
+      query = query.eq('id', payload.calendarId);
+    }
+
+    const { data: calendars, error: calendarsError } = await query;
+    if (calendarsError) {
+      log('Error fetching calendars for weekly reviews', 'error', calendarsError);
+      return errorResponse('Failed to fetch calendars', 500);
+    }
+
+    // Reviews run on the server key; without it notes only contain the figures
+    let provider: LLMProvider | null = null;
+    try {
+      provider = createLLMProvider({ provider: 'gemini', apiKey: Deno.env.get('GOOGLE_API_KEY') });
+    } catch (error) {
+      log(`Weekly reviews without summaries: ${error instanceof Error ? error.message : 'Unknown'}`, 'warn');
+    }
+
+    const results: Record<ReviewOutcome, number> = { created: 0, no_trades: 0, failed: 0 };
+    for (const calendar of (calendars || []) as ReviewCalendar[]) {
+      // Record the attempt first, so a review that fails or times out is retried later
+      const { error: attemptError } = await supabase
+        .from('calendars')
+        .update({ weekly_review_attempted_at: new Date().toISOString() })
+        .eq('id', calendar.id);
+
+      if (attemptError) {
+        log(`Error recording weekly review attempt for calendar ${calendar.id}`, 'error', attemptError);
+        results.failed++;
+        continue;
+      }
+
+      try {
+        results[await reviewCalendar(supabase, provider, calendar, week)]++;
+      } catch (error) {
+        log(`Error reviewing calendar ${calendar.id}`, 'error', error);
+        results.failed++;
+      }
+    }
+
+    log(`Weekly reviews for ${weekStart}: ${results.created} created, ${results.no_trades} without trades, ${results.failed} failed`);
+
+    return successResponse({ weekStart, ...results });
+
+  } catch (error) {
+    log('Error running weekly reviews', 'error', error);
+    return errorResponse('Internal server error', 500);
+  }
+});
@@ -0,0 +1,344 @@
+/**
+ * Weekly Review
+ * Deterministic figures for the scheduled weekly review: performance vs. the weekly
+ * target, best and worst setups by tag, rule breaches and the coming week's
+ * high-impact events. The model only writes the summary on top of these sections,
+ * so the numbers in the note never depend on the model
+ */
+
+import { calculateProfitFactor, type AnalyticsTrade } from '../ai-trading-agent/analytics.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Losses up to 10% over the planned risk are treated as slippage, not a breach
+const RISK_TOLERANCE = 1.1;
+// A tag needs this many trades in the week to count as a setup
+const MIN_SETUP_TRADES = 2;
+const MAX_SETUPS = 3;
+const MAX_LISTED_TRADES = 5;
+export const MAX_UPCOMING_EVENTS = 15;
+
+export const WEEKLY_REVIEW_TAG = 'WEEKLY_REVIEW';
+
+export interface ReviewCalendar {
+  id: string;
+  user_id: string;
+  name: string;
+  account_balance: number;
+  max_daily_drawdown: number;
+  weekly_target?: number | null;
+  risk_per_trade?: number | null;
+  dynamic_risk_enabled?: boolean | null;
+  increased_risk_percentage?: number | null;
+  required_tag_groups?: string[] | null;
+  total_pnl?: number | null;
+  economic_calendar_filters?: { currencies?: string[] } | null;
+}
+
+export interface ReviewTrade extends AnalyticsTrade {
+  tags?: string[] | null;
+  session?: string | null;
+  checklist?: Array<{ label: string; mandatory: boolean; checked: boolean }> | null;
+}
+
+export interface ReviewEvent {
+  event_name: string;
+  currency: string;
+  impact: string;
+  event_time: string;
+}
+
+export interface ReviewWeek {
+  start: Date; // Sunday 00:00 UTC, inclusive
+  end: Date; // Next Sunday 00:00 UTC, exclusive
+}
+
+export interface SetupStat {
+  tag: string;
+  trades: number;
+  wins: number;
+  losses: number;
+  win_rate: number;
+  pnl: number;
+}
+
+export type RuleBreachType = 'daily_drawdown' | 'risk_per_trade' | 'required_tags' | 'checklist';
+
+export interface RuleBreach {
+  type: RuleBreachType;
+  message: string;
+}
+
+export interface WeeklyReview {
+  calendar_name: string;
+  week: { start: string; end: string }; // yyyy-MM-dd, end inclusive
+  performance: {
+    trades: number;
+    wins: number;
+    losses: number;
+    breakevens: number;
+    win_rate: number;
+    net_pnl: number;
+    pnl_percentage: number;
+    profit_factor: number;
+    weekly_target_percentage: number | null;
+    target_progress: number | null; // % of the weekly target reached
+    best_trade: { name: string; date: string; pnl: number } | null;
+    worst_trade: { name: string; date: string; pnl: number } | null;
+  };
+  best_setups: SetupStat[];
+  worst_setups: SetupStat[];
+  rule_breaches: RuleBreach[];
+  upcoming_events: ReviewEvent[];
+}
+
+const round = (value: number, decimals = 2): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round((Number(value) || 0) * factor) / factor;
+};
+
+const dayKey = (date: string | Date): string => new Date(date).toISOString().slice(0, 10);
+
+const formatMoney = (value: number): string =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatSignedMoney = (value: number): string => `${value > 0 ? '+' : ''}${formatMoney(value)}`;
+
+const formatDay = (date: string | Date): string =>
+  new Date(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const tradeLabel = (trade: ReviewTrade): string => `${trade.name || 'Trade'} (${formatDay(trade.trade_date)})`;
+
+const listTrades = (trades: ReviewTrade[]): string => {
+  const labels = trades.slice(0, MAX_LISTED_TRADES).map(tradeLabel);
+  const more = trades.length - labels.length;
+  return more > 0 ? `${labels.join(', ')} and ${more} more` : labels.join(', ');
+};
+
+/**
+ * The last complete Sunday-Saturday week before `now`, in UTC
+ * Weeks start on Sunday like the calendar's weekly progress
+ */
+export function getReviewWeek(now: Date): ReviewWeek {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const end = new Date(today - now.getUTCDay() * DAY_MS);
+  return { start: new Date(end.getTime() - 7 * DAY_MS), end };
+}
+
+/**
+ * Win/loss figures per tag for the week's trades
+ */
+function buildSetupStats(trades: ReviewTrade[]): SetupStat[] {
+  const stats: Record<string, SetupStat> = {};
+  for (const trade of trades) {
+    for (const tag of trade.tags ?? []) {
+      const stat = stats[tag] ?? (stats[tag] = { tag, trades: 0, wins: 0, losses: 0, win_rate: 0, pnl: 0 });
+      stat.trades++;
+      if (trade.trade_type === 'win') stat.wins++;
+      if (trade.trade_type === 'loss') stat.losses++;
+      stat.pnl += trade.amount;
+    }
+  }
+
+  return Object.values(stats)
+    .filter(stat => stat.trades >= MIN_SETUP_TRADES)
+    .map(stat => ({
+      ...stat,
+      win_rate: round(stat.wins / stat.trades * 100, 1),
+      pnl: round(stat.pnl)
+    }));
+}
+
+/**
+ * Breaches of the calendar's risk and process rules during the week
+ */
+function findRuleBreaches(calendar: ReviewCalendar, trades: ReviewTrade[], startingBalance: number): RuleBreach[] {
+  const breaches: RuleBreach[] = [];
+
+  if (calendar.max_daily_drawdown > 0) {
+    const limit = startingBalance * calendar.max_daily_drawdown / 100;
+    const dailyPnl: Record<string, number> = {};
+    for (const trade of trades) {
+      const key = dayKey(trade.trade_date);
+      dailyPnl[key] = (dailyPnl[key] ?? 0) + trade.amount;
+    }
+    for (const day of Object.keys(dailyPnl).sort()) {
+      if (-dailyPnl[day] > limit) {
+        breaches.push({
+          type: 'daily_drawdown',
+          message: `${formatDay(day)} lost ${formatMoney(-dailyPnl[day])}, over the ${calendar.max_daily_drawdown}% daily drawdown limit (${formatMoney(limit)})`
+        });
+      }
+    }
+  }
+
+  if (calendar.risk_per_trade && calendar.risk_per_trade > 0) {
+    // With dynamic risk the increased risk is allowed once the profit threshold is reached
+    const riskPercentage = calendar.dynamic_risk_enabled && calendar.increased_risk_percentage
+      ? Math.max(calendar.risk_per_trade, calendar.increased_risk_percentage)
+      : calendar.risk_per_trade;
+    const limit = startingBalance * riskPercentage / 100;
+    const oversized = trades.filter(trade => trade.amount < 0 && -trade.amount > limit * RISK_TOLERANCE);
+    if (oversized.length > 0) {
+      breaches.push({
+        type: 'risk_per_trade',
+        message: `${oversized.length} loss${oversized.length === 1 ? '' : 'es'} over the ${riskPercentage}% risk per trade (${formatMoney(limit)}): ${listTrades(oversized)}`
+      });
+    }
+  }
+
+  const requiredGroups = calendar.required_tag_groups ?? [];
+  if (requiredGroups.length > 0) {
+    const untagged = trades.filter(trade =>
+      requiredGroups.some(group => !(trade.tags ?? []).some(tag => tag.startsWith(`${group}:`)))
+    );
+    if (untagged.length > 0) {
+      breaches.push({
+        type: 'required_tags',
+        message: `${untagged.length} trade${untagged.length === 1 ? '' : 's'} missing a required tag group (${requiredGroups.join(', ')}): ${listTrades(untagged)}`
+      });
+    }
+  }
+
+  const skippedChecklist = trades.filter(trade =>
+    (trade.checklist ?? []).some(item => item.mandatory && !item.checked)
+  );
+  if (skippedChecklist.length > 0) {
+    breaches.push({
+      type: 'checklist',
+      message: `${skippedChecklist.length} trade${skippedChecklist.length === 1 ? '' : 's'} taken with mandatory checklist items unticked: ${listTrades(skippedChecklist)}`
+    });
+  }
+
+  return breaches;
+}
+
+/**
+ * Build the review of one calendar's week
+ * @param trades - The week's trades, oldest first
+ * @param startingBalance - Account balance at the start of the week
+ * @param events - High-impact events of the coming week
+ */
+export function buildWeeklyReview(
+  calendar: ReviewCalendar,
+  week: ReviewWeek,
+  trades: ReviewTrade[],
+  startingBalance: number,
+  events: ReviewEvent[]
+): WeeklyReview {
+  const wins = trades.filter(trade => trade.trade_type === 'win').length;
+  const losses = trades.filter(trade => trade.trade_type === 'loss').length;
+  const netPnl = trades.reduce((sum, trade) => sum + trade.amount, 0);
+  const pnlPercentage = startingBalance > 0 ? netPnl / startingBalance * 100 : 0;
+  const target = calendar.weekly_target && calendar.weekly_target > 0 ? calendar.weekly_target : null;
+
+  const byAmount = [...trades].sort((a, b) => b.amount - a.amount);
+  const toTradeSummary = (trade: ReviewTrade | undefined) => trade
+    ? { name: trade.name || 'Trade', date: dayKey(trade.trade_date), pnl: round(trade.amount) }
+    : null;
+
+  const setups = buildSetupStats(trades);
+
+  return {
+    calendar_name: calendar.name,
+    week: { start: dayKey(week.start), end: dayKey(new Date(week.end.getTime() - DAY_MS)) },
+    performance: {
+      trades: trades.length,
+      wins,
+      losses,
+      breakevens: trades.length - wins - losses,
+      win_rate: wins + losses > 0 ? round(wins / (wins + losses) * 100, 1) : 0,
+      net_pnl: round(netPnl),
+      pnl_percentage: round(pnlPercentage),
+      profit_factor: round(calculateProfitFactor(trades)),
+      weekly_target_percentage: target,
+      target_progress: target ? round(pnlPercentage / target * 100, 1) : null,
+      best_trade: byAmount[0]?.amount > 0 ? toTradeSummary(byAmount[0]) : null,
+      worst_trade: byAmount[byAmount.length - 1]?.amount < 0 ? toTradeSummary(byAmount[byAmount.length - 1]) : null
+    },
+    best_setups: setups.filter(stat => stat.pnl > 0).sort((a, b) => b.pnl - a.pnl).slice(0, MAX_SETUPS),
+    worst_setups: setups.filter(stat => stat.pnl < 0).sort((a, b) => a.pnl - b.pnl).slice(0, MAX_SETUPS),
+    rule_breaches: findRuleBreaches(calendar, trades, startingBalance),
+    upcoming_events: events.slice(0, MAX_UPCOMING_EVENTS)
+  };
+}
+
+/**
+ * Title of the review note, e.g. "Weekly Review · Oct 11 - Oct 17, 2026"
+ */
+export function formatReviewTitle(review: WeeklyReview): string {
+  const format = (date: string, withYear: boolean) => new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    ...(withYear ? { year: 'numeric' } : {}),
+    timeZone: 'UTC'
+  });
+  return `Weekly Review · ${format(review.week.start, false)} - ${format(review.week.end, true)}`;
+}
+
+const formatSetup = (stat: SetupStat): string =>
+  `• ${stat.tag}: ${formatSignedMoney(stat.pnl)} over ${stat.trades} trades, ${stat.win_rate}% win rate`;
+
+/**
+ * Plain text note content (notes are plain text, like the agent's create_note)
+ * @param summary - The model's written review, left out when generation failed
+ */
+export function formatReviewContent(review: WeeklyReview, summary?: string | null): string {
+  const { performance } = review;
+  const sections: string[] = [];
+
+  if (summary?.trim()) {
+    sections.push(`Summary\n${summary.trim()}`);
+  }
+
+  const performanceLines = [
+    `• Net P&L: ${formatSignedMoney(performance.net_pnl)} (${performance.pnl_percentage > 0 ? '+' : ''}${performance.pnl_percentage}%) from ${performance.trades} trade${performance.trades === 1 ? '' : 's'}`,
+    `• Win rate: ${performance.win_rate}% (${performance.wins}W / ${performance.losses}L / ${performance.breakevens}BE), profit factor ${performance.profit_factor}`
+  ];
+  if (performance.weekly_target_percentage !== null) {
+    performanceLines.push(`• Weekly target: ${performance.weekly_target_percentage}%, ${performance.target_progress}% reached`);
+  }
+  if (performance.best_trade) {
+    performanceLines.push(`• Best trade: ${performance.best_trade.name} on ${formatDay(performance.best_trade.date)}, ${formatSignedMoney(performance.best_trade.pnl)}`);
+  }
+  if (performance.worst_trade) {
+    performanceLines.push(`• Worst trade: ${performance.worst_trade.name} on ${formatDay(performance.worst_trade.date)}, ${formatSignedMoney(performance.worst_trade.pnl)}`);
+  }
+  sections.push(`Performance\n${performanceLines.join('\n')}`);
+
+  sections.push(`Best setups\n${review.best_setups.length > 0
+    ? review.best_setups.map(formatSetup).join('\n')
+    : `• No profitable tag with ${MIN_SETUP_TRADES}+ trades this week`}`);
+
+  sections.push(`Worst setups\n${review.worst_setups.length > 0
+    ? review.worst_setups.map(formatSetup).join('\n')
+    : `• No losing tag with ${MIN_SETUP_TRADES}+ trades this week`}`);
+
+  sections.push(`Rule breaches\n${review.rule_breaches.length > 0
+    ? review.rule_breaches.map(breach => `• ${breach.message}`).join('\n')
+    : '• None, all trades followed the calendar rules'}`);
+
+  sections.push(`Upcoming high-impact events\n${review.upcoming_events.length > 0
+    ? review.upcoming_events.map(event => {
+      const time = new Date(event.event_time).toISOString().slice(11, 16);
+      return `• ${formatDay(event.event_time)} ${time} UTC · ${event.currency} · ${event.event_name}`;
+    }).join('\n')
+    : '• No high-impact events scheduled for your currencies'}`);
+
+  return sections.join('\n\n');
+}
+
+export const REVIEW_SYSTEM_PROMPT = `You are a trading coach writing a trader's weekly review.
+You get the week's figures as JSON: performance vs. the weekly target, best and worst setups by tag, rule breaches and next week's high-impact economic events.
+Write 2-3 short paragraphs in plain text (no markdown, no headings, no lists):
+1. How the week went against the target, naming what drove the result
+2. The setups to lean on and the ones to cut back, and any rule breaches that need attention
+3. What to watch next week given the scheduled events
+Only use figures from the JSON. Do not repeat every number, the figures are listed below your text. Be direct and specific, address the trader as "you".`;
+
+/**
+ * The message for the model
+ */
+export function buildReviewMessage(review: WeeklyReview): string {
+  return `Write the weekly review for the "${review.calendar_name}" calendar.\n\n${JSON.stringify(review, null, 2)}`;
+}
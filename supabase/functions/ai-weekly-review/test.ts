@@ -0,0 +1,165 @@
+/**
+ * Test script for the ai-weekly-review figures and note formatting
+ * Runs offline against fixtures - no LLM or database calls
+ * Run with: deno run --allow-all test.ts
+ */
+
+import {
+  buildWeeklyReview,
+  formatReviewContent,
+  formatReviewTitle,
+  getReviewWeek,
+  type ReviewCalendar,
+  type ReviewTrade
+} from './review.ts'
+
+interface TestCase {
+  name: string
+  run: () => Promise<void>
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+function assertEquals(actual: unknown, expected: unknown, message: string) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(`${message}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`)
+  }
+}
+
+const calendar: ReviewCalendar = {
+  id: 'cal-1',
+  user_id: 'user-1',
+  name: 'Main',
+  account_balance: 10000,
+  max_daily_drawdown: 2,
+  weekly_target: 2,
+  risk_per_trade: 1,
+  required_tag_groups: ['Setup']
+}
+
+// Week of Sunday 2026-10-11 to Saturday 2026-10-17
+const week = getReviewWeek(new Date('2026-10-19T06:00:00Z'))
+
+const weekTrades: ReviewTrade[] = [
+  { id: 't1', name: 'EU long', amount: 300, trade_type: 'win', trade_date: '2026-10-12T09:00:00Z', tags: ['Setup:Breakout'] },
+  { id: 't2', name: 'GU short', amount: -250, trade_type: 'loss', trade_date: '2026-10-13T09:00:00Z', tags: ['Setup:Reversal'] },
+  { id: 't3', name: 'GU long', amount: -105, trade_type: 'loss', trade_date: '2026-10-13T14:00:00Z', tags: ['Setup:Reversal'] },
+  { id: 't4', name: 'EU short', amount: 200, trade_type: 'win', trade_date: '2026-10-15T09:00:00Z', tags: ['Setup:Breakout'] },
+  {
+    id: 't5', name: 'Gold', amount: 0, trade_type: 'breakeven', trade_date: '2026-10-16T09:00:00Z', tags: ['Gold'],
+    checklist: [{ label: 'News checked', mandatory: true, checked: false }]
+  }
+]
+
+const events = [
+  { event_name: 'CPI m/m', currency: 'USD', impact: 'High', event_time: '2026-10-21T12:30:00Z' }
+]
+
+const testCases: TestCase[] = [
+  {
+    name: 'Review week is the last complete Sunday-Saturday week',
+    run: async () => {
+      assertEquals(week.start.toISOString(), '2026-10-11T00:00:00.000Z', 'Week start')
+      assertEquals(week.end.toISOString(), '2026-10-18T00:00:00.000Z', 'Week end')
+
+      const sunday = getReviewWeek(new Date('2026-10-18T01:00:00Z'))
+      assertEquals(sunday.start.toISOString(), '2026-10-11T00:00:00.000Z', 'Sunday reviews the week that just ended')
+    }
+  },
+  {
+    name: 'Performance is measured against the weekly target',
+    run: async () => {
+      const review = buildWeeklyReview(calendar, week, weekTrades, 10000, events)
+      assertEquals(review.week, { start: '2026-10-11', end: '2026-10-17' }, 'Week label')
+      assertEquals(review.performance.net_pnl, 145, 'Net P&L')
+      assertEquals(review.performance.pnl_percentage, 1.45, 'P&L percentage')
+      assertEquals(review.performance.target_progress, 72.5, 'Target progress')
+      assertEquals(review.performance.win_rate, 50, 'Win rate ignores breakevens')
+      assertEquals(review.performance.best_trade?.name, 'EU long', 'Best trade')
+      assertEquals(review.performance.worst_trade?.name, 'GU short', 'Worst trade')
+    }
+  },
+  {
+    name: 'Best and worst setups come from tags with enough trades',
+    run: async () => {
+      const review = buildWeeklyReview(calendar, week, weekTrades, 10000, events)
+      assertEquals(review.best_setups.map(stat => stat.tag), ['Setup:Breakout'], 'Best setups')
+      assertEquals(review.worst_setups.map(stat => [stat.tag, stat.pnl]), [['Setup:Reversal', -355]], 'Worst setups')
+    }
+  },
+  {
+    name: 'Rule breaches cover drawdown, risk, required tags and checklists',
+    run: async () => {
+      const review = buildWeeklyReview(calendar, week, weekTrades, 10000, events)
+      assertEquals(review.rule_breaches.map(breach => breach.type),
+        ['daily_drawdown', 'risk_per_trade', 'required_tags', 'checklist'], 'Breach types')
+      assert(review.rule_breaches[1].message.includes('GU short'), 'Oversized loss is named')
+      assert(!review.rule_breaches[1].message.includes('GU long'), 'Loss within tolerance is not a breach')
+
+      const relaxed = buildWeeklyReview({ ...calendar, max_daily_drawdown: 5, risk_per_trade: 3, required_tag_groups: [] },
+        week, weekTrades.slice(0, 4), 10000, [])
+      assertEquals(relaxed.rule_breaches, [], 'No breaches within the rules')
+    }
+  },
+  {
+    name: 'Note content keeps the figures without a summary',
+    run: async () => {
+      const review = buildWeeklyReview(calendar, week, weekTrades, 10000, events)
+      assertEquals(formatReviewTitle(review), 'Weekly Review · Oct 11 - Oct 17, 2026', 'Title')
+
+      const content = formatReviewContent(review, null)
+      assert(!content.startsWith('Summary'), 'No summary section without a summary')
+      assert(content.includes('Net P&L: +$145.00 (+1.45%) from 5 trades'), 'Performance line')
+      assert(content.includes('Weekly target: 2%, 72.5% reached'), 'Target line')
+      assert(content.includes('USD · CPI m/m'), 'Upcoming event')
+
+      const withSummary = formatReviewContent(review, '  A mixed week.  ')
+      assert(withSummary.startsWith('Summary\nA mixed week.\n\nPerformance'), 'Summary comes first')
+    }
+  }
+]
+
+async function runTest(testCase: TestCase): Promise<boolean> {
+  try {
+    console.log(`\n🧪 Testing: ${testCase.name}`)
+    await testCase.run()
+    console.log(`✅ Test passed`)
+    return true
+  } catch (error) {
+    console.log(`❌ Test failed:`, error instanceof Error ? error.message : error)
+    return false
+  }
+}
+
+async function runAllTests() {
+  console.log('🚀 Starting ai-weekly-review Tests\n')
+
+  const results: boolean[] = []
+  for (const testCase of testCases) {
+    results.push(await runTest(testCase))
+  }
+
+  const passed = results.filter(Boolean).length
+  const total = results.length
+
+  console.log(`\n📊 Test Results: ${passed}/${total} tests passed`)
+
+  if (passed === total) {
+    console.log('🎉 All tests passed! Function is ready for deployment.')
+    return true
+  } else {
+    console.log('❌ Some tests failed. Please fix the issues.')
+    return false
+  }
+}
+
+// Run the tests
+if ((import.meta as any).main) {
+  const success = await runAllTests()
+  // Use globalThis for Deno compatibility
+  if (typeof (globalThis as any).Deno !== 'undefined') {
+    (globalThis as any).Deno.exit(success ? 0 : 1)
+  }
+}
@@ -3,7 +3,10 @@
  *
  * Runs on cron schedule (every 15 minutes) to:
  * 1. Mark expired calendars for deletion
- * 2. Cleanup orphaned storage files from notes
+ * 2. Purge trashed trades past their auto delete date (the trade DELETE
+ *    webhook removes their images)
+ * 3. Cleanup orphaned storage files from notes
+ * 4. Drop note reminder occurrences the app no longer reads
  */
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 
@@ -59,6 +62,41 @@ async function cleanupExpiredCalendars() {
   return { markedCount, errors };
 }
 
+async function cleanupExpiredTrades() {
+  log('Starting cleanup of expired trashed trades');
+  const supabase = createServiceClient();
+
+  const { data: expiredTrades, error: fetchError } = await supabase
+    .from('trades')
+    .select('id')
+    .not('deleted_at', 'is', null)
+    .not('auto_delete_at', 'is', null)
+    .lt('auto_delete_at', new Date().toISOString())
+    .limit(1000);
+
+  if (fetchError) throw fetchError;
+  if (!expiredTrades || expiredTrades.length === 0) {
+    log('No expired trades found');
+    return { deletedCount: 0, errors: [] };
+  }
+
+  log(`Found ${expiredTrades.length} expired trades`);
+  const errors: string[] = [];
+  let deletedCount = 0;
+
+  // Deleted in batches to keep the id list within URL limits
+  const batchSize = 100;
+  for (let i = 0; i < expiredTrades.length; i += batchSize) {
+    const ids = expiredTrades.slice(i, i + batchSize).map(trade => trade.id);
+    const { error } = await supabase.from('trades').delete().in('id', ids);
+    if (error) errors.push(`batch ${i / batchSize}: ${error.message}`);
+    else deletedCount += ids.length;
+  }
+
+  log(`Purged ${deletedCount} trashed trades`);
+  return { deletedCount, errors };
+}
+
 async function cleanupOrphanedStorage() {
   log('Starting cleanup of orphaned storage');
   const supabase = createServiceClient();
@@ -113,6 +151,25 @@ async function cleanupOrphanedStorage() {
   return { deleted, failed };
 }
 
+async function cleanupOldReminderOccurrences() {
+  log('Starting cleanup of old reminder occurrences');
+  const supabase = createServiceClient();
+
+  // The app only reads occurrences from the last few days
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - 30);
+
+  const { count, error } = await supabase
+    .from('note_reminder_occurrences')
+    .delete({ count: 'exact' })
+    .lt('occurrence_date', cutoff.toISOString().split('T')[0]);
+
+  if (error) throw error;
+
+  log(`Removed ${count || 0} reminder occurrences`);
+  return { deletedCount: count || 0 };
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
@@ -121,12 +178,16 @@ Deno.serve(async (req) => {
   try {
     log('Cleanup function triggered');
     const cal = await cleanupExpiredCalendars();
+    const trades = await cleanupExpiredTrades();
     const storage = await cleanupOrphanedStorage();
+    const reminders = await cleanupOldReminderOccurrences();
 
     return new Response(JSON.stringify({
       success: true,
       calendars: cal,
+      trades: trades,
       storage: storage,
+      reminders: reminders,
       timestamp: new Date().toISOString()
     }), {
       headers: { 'Content-Type': 'application/json', ...corsHeaders }
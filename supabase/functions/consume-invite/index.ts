@@ -2,6 +2,8 @@
  * Consume Invite Edge Function
  *
  * Called after successful sign-up to decrement uses and track user.
+ * Calendar invites (invite_links.calendar_id set) also add the user to the
+ * calendar's members with the invite's role.
  * This function requires authentication (user must be signed in).
  *
  * Request body:
@@ -10,6 +12,7 @@
  * Response:
  *   - success: boolean
  *   - message: string
+ *   - calendarId: string (calendar invites only)
  */
 
 import {
@@ -27,6 +30,78 @@ interface ConsumeInviteRequest {
   inviteCode: string;
 }
 
+const jsonError = (error: string, status: number) => new Response(
+  JSON.stringify({ success: false, error }),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+);
+
+/**
+ * Check that a calendar invite was created by the owner of a calendar
+ * @returns The calendar owner's id, or the error response to send
+ */
+async function checkCalendarInvite(
+  supabase: ReturnType<typeof createServiceClient>,
+  invite: Record<string, any>
+): Promise<{ ownerId: string } | Response> {
+  if (invite.expires_at && new Date(invite.expires_at).getTime() <= Date.now()) {
+    return jsonError('This invite has expired', 400);
+  }
+
+  // Only the calendar owner's invites grant access
+  const { data: calendar, error: calendarError } = await supabase
+    .from('calendars')
+    .select('id, user_id')
+    .eq('id', invite.calendar_id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (calendarError) {
+    log('Database error fetching invite calendar', 'error', calendarError);
+    return jsonError('Error fetching calendar', 500);
+  }
+
+  if (!calendar || calendar.user_id !== invite.created_by) {
+    log('Calendar invite does not match an owned calendar', 'warn', { calendarId: invite.calendar_id });
+    return jsonError('Invalid invite code', 400);
+  }
+
+  return { ownerId: calendar.user_id };
+}
+
+/**
+ * Add the user to the calendar of a calendar invite, after a use was claimed
+ * @returns The error response to send, or null on success
+ */
+async function addCalendarMember(
+  supabase: ReturnType<typeof createServiceClient>,
+  invite: Record<string, any>,
+  userId: string
+): Promise<Response | null> {
+  const { error: memberError } = await supabase
+    .from('calendar_members')
+    .upsert(
+      {
+        calendar_id: invite.calendar_id,
+        user_id: userId,
+        role: invite.calendar_role,
+        invited_by: invite.created_by
+      },
+      { onConflict: 'calendar_id,user_id' }
+    );
+
+  if (memberError) {
+    log('Error adding calendar member', 'error', memberError);
+    return jsonError('Failed to join calendar', 500);
+  }
+
+  log('Calendar member added', 'info', {
+    calendarId: invite.calendar_id,
+    userId,
+    role: invite.calendar_role
+  });
+  return null;
+}
+
 Deno.serve(async (req: Request) => {
   // Handle CORS preflight
   const corsResponse = handleCors(req);
@@ -113,6 +188,28 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Calendar invites also make the user a member of the calendar
+    const calendarId: string | undefined = invite.calendar_id || undefined;
+    if (calendarId) {
+      const calendarCheck = await checkCalendarInvite(supabase, invite);
+      if (calendarCheck instanceof Response) return calendarCheck;
+
+      // The owner opening their own invite keeps owning the calendar and uses nothing up
+      if (calendarCheck.ownerId === user.id) {
+        log('Calendar owner opened their own invite', 'info', { calendarId });
+        return new Response(
+          JSON.stringify({
+            success: true,
+            message: 'You own this calendar',
+            calendarId
+          }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+    }
+
     // Check if user already used this invite
     const usedByUsers = invite.used_by_users || [];
     if (usedByUsers.includes(user.id)) {
@@ -123,7 +220,8 @@ Deno.serve(async (req: Request) => {
       return new Response(
         JSON.stringify({
           success: true,
-          message: 'Invite already consumed'
+          message: 'Invite already consumed',
+          calendarId
         }),
         {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -131,44 +229,26 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Build update object
-    const updates: Record<string, any> = {
-      used_count: (invite.used_count || 0) + 1,
-      last_used_at: new Date().toISOString(),
-      used_by_users: [...usedByUsers, user.id]
-    };
-
-    // Decrement uses_remaining if not unlimited
-    if (invite.uses_remaining !== null) {
-      updates.uses_remaining = invite.uses_remaining - 1;
-
-      // Deactivate if exhausted
-      if (updates.uses_remaining <= 0) {
-        updates.is_active = false;
-        log('Invite exhausted - marking as inactive', 'info', {
-          code: inviteCode
-        });
-      }
+    // Claim a use in one statement so parallel requests can't share a single use
+    const { data: claimed, error: claimError } = await supabase
+      .rpc('claim_invite_use', { p_invite_id: invite.id, p_user_id: user.id });
+
+    if (claimError) {
+      log('Error consuming invite link', 'error', claimError);
+      return jsonError('Failed to consume invite', 500);
     }
 
-    // Update invite link
-    const { error: updateError } = await supabase
-      .from('invite_links')
-      .update(updates)
-      .eq('id', invite.id);
+    const claimedInvite = Array.isArray(claimed) ? claimed[0] : claimed;
+    if (!claimedInvite) {
+      log('Invite could not be claimed - used up, expired or already used', 'warn', {
+        code: inviteCode
+      });
+      return jsonError('This invite has already been used or has expired', 400);
+    }
 
-    if (updateError) {
-      log('Error updating invite link', 'error', updateError);
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: 'Failed to consume invite'
-        }),
-        {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
+    if (calendarId) {
+      const memberErrorResponse = await addCalendarMember(supabase, invite, user.id);
+      if (memberErrorResponse) return memberErrorResponse;
     }
 
     // Update user record with invite code used
@@ -185,13 +265,14 @@ Deno.serve(async (req: Request) => {
     log('Invite consumed successfully', 'info', {
       userId: user.id,
       code: inviteCode,
-      usesRemaining: updates.uses_remaining
+      usesRemaining: claimedInvite.uses_remaining
     });
 
     return new Response(
       JSON.stringify({
         success: true,
-        message: 'Invite consumed successfully'
+        message: 'Invite consumed successfully',
+        calendarId
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
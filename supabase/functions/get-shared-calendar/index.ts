@@ -2,8 +2,14 @@
  * Get Shared Calendar Edge Function
  * Queries calendars table directly using share_id field
  * Share link information is stored directly on the calendar document
+ * Privacy settings (calendars.share_settings), expiry and passwords are
+ * enforced here: such shares are not readable through RLS, so this is their
+ * only way out. Every successful view is added to the share view log
  */
 import { createServiceClient, errorResponse, successResponse, handleCors, log, parseJsonBody } from '../_shared/supabase.ts';
+import { checkShareAccess, recordShareView } from '../_shared/shareAccess.ts';
+import type { ShareAccessPayload } from '../_shared/shareAccess.ts';
+import { resolveShareSettings, filterSharedTrades, getAmountScale, redactCalendar, redactTrade } from '../_shared/sharePrivacy.ts';
 import type { Calendar, Trade } from '../_shared/types.ts';
 
 Deno.serve(async (req) => {
@@ -11,11 +17,11 @@ Deno.serve(async (req) => {
   if (corsResponse) return corsResponse;
   try {
     log('Get shared calendar request received');
-    const payload = await parseJsonBody<{ shareId: string }>(req);
+    const payload = await parseJsonBody<ShareAccessPayload>(req);
     if (!payload) {
       return errorResponse('Invalid JSON payload', 400);
     }
-    const { shareId } = payload;
+    const { shareId, password, referrer } = payload;
     if (!shareId) {
       return errorResponse('Missing shareId parameter', 400);
     }
@@ -32,11 +38,17 @@ Deno.serve(async (req) => {
       return errorResponse('Shared calendar not found', 404);
     }
 
+    const accessError = await checkShareAccess(supabase, req, shareId, calendar.share_expires_at, password);
+    if (accessError) {
+      return accessError;
+    }
+
     // Get all trades for this calendar
     const { data: trades, error: tradesError } = await supabase
       .from('trades')
       .select('*')
       .eq('calendar_id', calendar.id)
+      .is('deleted_at', null)
       .order('trade_date', { ascending: false });
 
     if (tradesError) {
@@ -44,13 +56,40 @@ Deno.serve(async (req) => {
       return errorResponse('Failed to load calendar trades', 500);
     }
 
+    const { data: viewCountResult } = await supabase
+      .rpc('increment_shared_calendar_view_count', { p_share_id: shareId });
+    const viewCount = viewCountResult?.viewCount || (calendar.share_view_count || 0) + 1;
+    await recordShareView(supabase, req, {
+      share_id: shareId,
+      item_type: 'calendar',
+      calendar_id: calendar.id,
+      user_id: calendar.user_id
+    }, referrer);
+
+    const settings = resolveShareSettings(calendar.share_settings);
+    let sharedCalendar = calendar as Calendar;
+    let sharedTrades = (trades || []) as Trade[];
+    let amountUnit: 'currency' | 'percentage' | 'r' = 'currency';
+
+    if (settings) {
+      const { unit, factor } = getAmountScale(sharedCalendar, settings);
+      const visibleTrades = filterSharedTrades(sharedTrades, settings);
+      sharedCalendar = redactCalendar(sharedCalendar, visibleTrades, settings, factor);
+      sharedTrades = visibleTrades.map((trade) => redactTrade(trade, settings, factor));
+      amountUnit = unit;
+      log(`Applied share privacy settings (${sharedTrades.length}/${trades?.length || 0} trades, amounts: ${unit})`);
+    }
+
     log(`Shared calendar ${shareId} viewed (calendar: ${calendar.id})`);
     return successResponse({
-      calendar: calendar as Calendar,
-      trades: (trades || []) as Trade[],
+      calendar: sharedCalendar,
+      trades: sharedTrades,
       shareInfo: {
-        viewCount: 0,
-        sharedAt: calendar.shared_at
+        viewCount,
+        sharedAt: calendar.shared_at,
+        expiresAt: calendar.share_expires_at || null,
+        restricted: !!settings,
+        amountUnit
       }
     });
   } catch (error) {
@@ -2,8 +2,12 @@
  * Get Shared Trade Edge Function
  * Queries trades table directly using share_id field
  * Share link information is stored directly on the trade document
+ * Expiry and passwords are enforced here, and every successful view is
+ * added to the share view log
  */
 import { createServiceClient, errorResponse, successResponse, handleCors, log, parseJsonBody } from '../_shared/supabase.ts';
+import { checkShareAccess, recordShareView } from '../_shared/shareAccess.ts';
+import type { ShareAccessPayload } from '../_shared/shareAccess.ts';
 import type { Trade } from '../_shared/types.ts';
 
 Deno.serve(async (req) => {
@@ -11,11 +15,11 @@ Deno.serve(async (req) => {
   if (corsResponse) return corsResponse;
   try {
     log('Get shared trade request received');
-    const payload = await parseJsonBody<{ shareId: string }>(req);
+    const payload = await parseJsonBody<ShareAccessPayload>(req);
     if (!payload) {
       return errorResponse('Invalid JSON payload', 400);
     }
-    const { shareId } = payload;
+    const { shareId, password, referrer } = payload;
     if (!shareId) {
       return errorResponse('Missing shareId parameter', 400);
     }
@@ -26,17 +30,40 @@ Deno.serve(async (req) => {
       .select('*')
       .eq('share_id', shareId)
       .eq('is_shared', true)
+      .is('deleted_at', null)
       .single();
 
     if (tradeError || !trade) {
       return errorResponse('Shared trade not found', 404);
     }
 
+    const accessError = await checkShareAccess(supabase, req, shareId, trade.share_expires_at, password);
+    if (accessError) {
+      return accessError;
+    }
+
+    const viewCount = (trade.share_view_count || 0) + 1;
+    const { error: countError } = await supabase
+      .from('trades')
+      .update({ share_view_count: viewCount })
+      .eq('id', trade.id);
+    if (countError) {
+      log('Error updating shared trade view count', 'warn', countError);
+    }
+    await recordShareView(supabase, req, {
+      share_id: shareId,
+      item_type: 'trade',
+      calendar_id: trade.calendar_id,
+      trade_id: trade.id,
+      user_id: trade.user_id
+    }, referrer);
+
     log(`Shared trade ${shareId} viewed (trade: ${trade.id})`);
     return successResponse({
       trade: trade as Trade,
-      viewCount: 0,
-      sharedAt: trade.shared_at
+      viewCount,
+      sharedAt: trade.shared_at,
+      expiresAt: trade.share_expires_at || null
     });
   } catch (error) {
     log('Error getting shared trade', 'error', error);
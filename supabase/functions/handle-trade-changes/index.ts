@@ -5,12 +5,17 @@
  * Handles:
  * - Image cleanup on DELETE and UPDATE operations
  * - Year stats recalculation
- * - Trade sync to linked calendars (one-way sync with 24hr window)
+ * - Score snapshot recalculation for the periods the trade falls in
+ * - Trade sync to linked calendars (one-way fan-out with per-link window, fields and conflict policy)
  */
 import { createServiceClient, errorResponse, successResponse, handleCors, log, parseJsonBody } from '../_shared/supabase.ts';
 import { canDeleteImage, deleteTradeImages } from '../_shared/utils.ts';
-import { prepareSyncedTrade, isWithinSyncWindow, buildCalendarRiskSettings, CalendarRiskSettings } from '../_shared/tradeSync.ts';
-import type { Trade, TradeWebhookPayload, YearStats, MonthlyStats } from '../_shared/types.ts';
+import { prepareSyncedTrade, isWithinSyncWindow, buildCalendarRiskSettings, CalendarRiskSettings, resolveSyncSettings, resolveSyncConflict } from '../_shared/tradeSync.ts';
+import type { CalendarSyncSettings, SyncConflictPolicy } from '../_shared/tradeSync.ts';
+import { getPeriodsForDates, persistScoreSnapshots, SCORE_CALENDAR_COLUMNS } from '../_shared/scoreSnapshots.ts';
+import type { ScoreCalendarData } from '../_shared/scoreSnapshots.ts';
+import { buildYearStats } from '../_shared/yearStats.ts';
+import type { CalendarLink, Trade, TradeWebhookPayload, YearStats } from '../_shared/types.ts';
 /**
  * Clean up removed images when a trade is deleted or updated
  */ async function cleanupRemovedImages(oldTrade: Trade | undefined, newTrade: Trade | undefined, calendarId: string, userId: string): Promise<void> {
@@ -84,6 +89,7 @@ async function calculateYearStats(
       .from('trades')
       .select('*')
       .eq('calendar_id', calendarId)
+      .is('deleted_at', null)
       .order('trade_date', { ascending: true });
 
     if (error) {
@@ -98,140 +104,7 @@ async function calculateYearStats(
 
     log(`Processing ${trades.length} trades for stats calculation`);
 
-    // Group trades by year
-    const tradesByYear = new Map<number, Trade[]>();
-    trades.forEach((trade: Trade) => {
-      const tradeDate = new Date(trade.trade_date);
-      const year = tradeDate.getFullYear();
-
-      if (!tradesByYear.has(year)) {
-        tradesByYear.set(year, []);
-      }
-      tradesByYear.get(year)!.push(trade);
-    });
-
-    log(`Found ${tradesByYear.size} years with trades`);
-
-    // Calculate stats for each year
-    const yearStatsMap: Record<string, YearStats> = {};
-
-    // Sort years in ascending order to properly carry over balance
-    const sortedYears = Array.from(tradesByYear.keys()).sort((a, b) => a - b);
-
-    // Track the running balance across years - starts at account balance
-    let carryOverBalance = accountBalance;
-
-    for (const year of sortedYears) {
-      const yearTrades = tradesByYear.get(year)!;
-      log(`Calculating stats for year ${year} with ${yearTrades.length} trades`);
-
-      // Initialize monthly stats array (12 months, indices 0-11)
-      const monthlyStatsArray: MonthlyStats[] = [];
-      for (let monthIndex = 0; monthIndex < 12; monthIndex++) {
-        monthlyStatsArray.push({
-          month_index: monthIndex,
-          month_pnl: 0,
-          trade_count: 0,
-          win_count: 0,
-          loss_count: 0,
-          growth_percentage: 0,
-          account_value_at_start: 0,
-        });
-      }
-
-      // Group trades by month and calculate monthly stats
-      // Use carryOverBalance from previous year (or accountBalance for first year)
-      const yearStartBalance = carryOverBalance; // Save for growth percentage calculation
-      let runningBalance = carryOverBalance;
-      const monthlyTrades = new Map<number, Trade[]>();
-
-      yearTrades.forEach((trade) => {
-        const tradeDate = new Date(trade.trade_date);
-        const monthIndex = tradeDate.getMonth(); // 0-11
-
-        if (!monthlyTrades.has(monthIndex)) {
-          monthlyTrades.set(monthIndex, []);
-        }
-        monthlyTrades.get(monthIndex)!.push(trade);
-      });
-
-      // Calculate stats for each month
-      for (let monthIndex = 0; monthIndex < 12; monthIndex++) {
-        const monthTrades = monthlyTrades.get(monthIndex) || [];
-        const monthStartBalance = runningBalance;
-
-        let monthPnL = 0;
-        let winCount = 0;
-        let lossCount = 0;
-
-        monthTrades.forEach((trade) => {
-          monthPnL += trade.amount;
-          if (trade.trade_type === 'win') winCount++;
-          else if (trade.trade_type === 'loss') lossCount++;
-        });
-
-        runningBalance += monthPnL;
-
-        const growthPercentage = monthStartBalance > 0
-          ? (monthPnL / monthStartBalance) * 100
-          : 0;
-
-        monthlyStatsArray[monthIndex] = {
-          month_index: monthIndex,
-          month_pnl: monthPnL,
-          trade_count: monthTrades.length,
-          win_count: winCount,
-          loss_count: lossCount,
-          growth_percentage: Number(growthPercentage.toFixed(2)),
-          account_value_at_start: monthStartBalance,
-        };
-      }
-
-      // Calculate yearly aggregates
-      const yearlyPnL = yearTrades.reduce((sum, trade) => sum + trade.amount, 0);
-      const totalTrades = yearTrades.length;
-      const winCount = yearTrades.filter((t) => t.trade_type === 'win').length;
-      const lossCount = yearTrades.filter((t) => t.trade_type === 'loss').length;
-      const winRate = totalTrades > 0 ? (winCount / totalTrades) * 100 : 0;
-      // Use year's starting balance for growth percentage (includes prior years' P&L)
-      const yearlyGrowthPercentage = yearStartBalance > 0
-        ? (yearlyPnL / yearStartBalance) * 100
-        : 0;
-
-      // Find best month (month with highest P&L)
-      let bestMonthIndex = 0;
-      let bestMonthPnL = monthlyStatsArray[0].month_pnl;
-
-      monthlyStatsArray.forEach((monthStats) => {
-        if (monthStats.month_pnl > bestMonthPnL) {
-          bestMonthPnL = monthStats.month_pnl;
-          bestMonthIndex = monthStats.month_index;
-        }
-      });
-
-      yearStatsMap[year.toString()] = {
-        year,
-        yearly_pnl: Number(yearlyPnL.toFixed(2)),
-        yearly_growth_percentage: Number(yearlyGrowthPercentage.toFixed(2)),
-        total_trades: totalTrades,
-        win_count: winCount,
-        loss_count: lossCount,
-        win_rate: Number(winRate.toFixed(2)),
-        best_month_index: bestMonthIndex,
-        best_month_pnl: Number(bestMonthPnL.toFixed(2)),
-        monthly_stats: monthlyStatsArray,
-      };
-
-      log(`Year ${year} stats calculated:`, 'info', {
-        yearly_pnl: yearlyPnL,
-        total_trades: totalTrades,
-        win_rate: winRate.toFixed(2),
-        best_month: bestMonthIndex,
-      });
-
-      // Carry over the ending balance to the next year
-      carryOverBalance = runningBalance;
-    }
+    const yearStatsMap = buildYearStats(trades as Trade[], accountBalance);
 
     log('Year stats calculation completed', 'info', {
       years_calculated: Object.keys(yearStatsMap).length
@@ -295,8 +168,11 @@ async function calculateYearStats(
     // Calculate and update year_stats for all operations (INSERT, UPDATE, DELETE)
     await updateYearStats(calendarId);
 
-    // Sync trade to linked calendar (if one exists)
-    await syncToLinkedCalendar(payload.operation, payload.old_record, payload.new_record, calendarId);
+    // Refresh persisted score snapshots for the periods touched by this change
+    await updateScoreSnapshots(calendarId, payload.old_record, payload.new_record);
+
+    // Sync trade to linked calendars (if any)
+    await syncToLinkedCalendars(payload.operation, payload.old_record, payload.new_record, calendarId);
 
     log('Trade changes processed successfully');
     return successResponse({
@@ -356,11 +232,61 @@ async function updateYearStats(calendarId : string) {
 }
 
 /**
- * Sync trade to linked calendar
- * One-way sync: trades in source calendar are copied to linked target calendar
- * 24-hour window: updates/deletes only propagate within 24 hours of trade creation
+ * Recalculate score snapshots for the day/week/month/year of the old and new trade dates
+ * Snapshots for other periods are left untouched so past scores stay auditable
+ */
+async function updateScoreSnapshots(
+  calendarId: string,
+  oldTrade: Trade | undefined,
+  newTrade: Trade | undefined
+): Promise<void> {
+  try {
+    const trade = newTrade || oldTrade;
+    if (!trade || trade.is_temporary) return;
+
+    const periods = getPeriodsForDates([oldTrade?.trade_date, newTrade?.trade_date].filter(Boolean) as string[]);
+    if (periods.length === 0) return;
+
+    const supabase = createServiceClient();
+
+    const { data: calendar, error: calendarError } = await supabase
+      .from('calendars')
+      .select(SCORE_CALENDAR_COLUMNS)
+      .eq('id', calendarId)
+      .single();
+
+    if (calendarError || !calendar) {
+      log('Error fetching calendar for score snapshots', 'error', calendarError);
+      return;
+    }
+
+    const { data: trades, error: tradesError } = await supabase
+      .from('trades')
+      .select('id, amount, trade_type, trade_date, session, tags, checklist, risk_to_reward, partials_taken, is_temporary')
+      .eq('calendar_id', calendarId)
+      .is('deleted_at', null)
+      .order('trade_date', { ascending: true });
+
+    if (tradesError) {
+      log('Error fetching trades for score snapshots', 'error', tradesError);
+      return;
+    }
+
+    const result = await persistScoreSnapshots(supabase, calendar as ScoreCalendarData, (trades || []) as Trade[], periods);
+    log('Score snapshots updated', 'info', result);
+  } catch (error) {
+    log('Error updating score snapshots', 'error', error);
+    // Don't fail the webhook on score snapshot errors - log and continue
+  }
+}
+
+/**
+ * Sync trade to every calendar the source calendar is linked to
+ * One-way sync: trades in the source calendar are copied to each target in calendar_links
+ * Each target gets its own amount (from its risk settings) and its own link settings,
+ * and the outcome is recorded on the link for the sync status view
  */
-async function syncToLinkedCalendar(
+async function syncToLinkedCalendars(
   operation: 'INSERT' | 'UPDATE' | 'DELETE',
   oldTrade: Trade | undefined,
   newTrade: Trade | undefined,
@@ -384,132 +310,325 @@ async function syncToLinkedCalendar(
 
     const supabase = createServiceClient();
 
-    // Get the linked calendar ID for this calendar
-    const { data: sourceCalendar, error: calendarError } = await supabase
-      .from('calendars')
-      .select('linked_to_calendar_id')
-      .eq('id', calendarId)
-      .single();
+    const { data: links, error: linksError } = await supabase
+      .from('calendar_links')
+      .select('id, target_calendar_id, sync_settings')
+      .eq('source_calendar_id', calendarId);
 
-    if (calendarError || !sourceCalendar?.linked_to_calendar_id) {
-      // No linked calendar - nothing to sync
+    if (linksError) {
+      log('Error fetching calendar links', 'error', linksError);
       return;
     }
 
-    const linkedCalendarId = sourceCalendar.linked_to_calendar_id;
-    log('Syncing trade to linked calendar', 'info', { operation, linkedCalendarId });
+    if (!links || links.length === 0) {
+      // No linked calendars - nothing to sync
+      return;
+    }
 
-    // Fetch target calendar's risk settings for amount recalculation
-    const { data: targetCalendar, error: targetError } = await supabase
-      .from('calendars')
-      .select('account_balance, risk_per_trade, dynamic_risk_enabled, increased_risk_percentage, profit_threshold_percentage')
-      .eq('id', linkedCalendarId)
-      .single();
+    log(`Syncing trade to ${links.length} linked calendar(s)`, 'info', { operation });
 
-    // Calculate cumulative P&L for target calendar up to (but not including) the trade date
-    // This matches the frontend calculation for consistent dynamic risk behavior
-    let cumulativePnL = 0;
-    if (targetCalendar && !targetError && trade.trade_date) {
-      const { data: targetTrades } = await supabase
-        .from('trades')
-        .select('amount, trade_date')
-        .eq('calendar_id', linkedCalendarId)
-        .lt('trade_date', trade.trade_date);
-
-      if (targetTrades) {
-        cumulativePnL = targetTrades.reduce((sum: any, t: { amount: any; }) => sum + (t.amount || 0), 0);
+    // Targets are synced one after another so a failing target does not affect the others
+    for (const link of links as Pick<CalendarLink, 'id' | 'target_calendar_id' | 'sync_settings'>[]) {
+      let result: LinkSyncResult;
+      try {
+        result = await syncToTargetCalendar(operation, oldTrade, newTrade, link.target_calendar_id, resolveSyncSettings(link.sync_settings));
+      } catch (error) {
+        log('Error syncing to linked calendar', 'error', { linkId: link.id, error });
+        result = { status: 'error', message: error instanceof Error ? error.message : 'Unknown sync error' };
       }
+      await recordLinkSyncResult(link.id, result);
     }
+  } catch (error) {
+    log('Error in syncToLinkedCalendars', 'error', error);
+    // Don't fail the webhook on sync errors - log and continue
+  }
+}
 
-    // Build target settings (will be undefined if fetch failed, causing raw amount copy)
-    const targetSettings: CalendarRiskSettings | undefined = targetCalendar && !targetError
-      ? buildCalendarRiskSettings(targetCalendar, cumulativePnL)
-      : undefined;
+/**
+ * Outcome of syncing one trade change to one target calendar
+ */
+interface LinkSyncResult {
+  status: 'success' | 'skipped' | 'error';
+  message?: string;
+}
 
-    if (operation === 'INSERT' && newTrade) {
-      // Prepare synced trade using utility (handles field stripping and amount calculation)
-      // This sets is_synced_copy: true and source_trade_id to prevent infinite loops
-      const syncedTradeData = prepareSyncedTrade(newTrade, linkedCalendarId, targetSettings);
+/**
+ * Sync a single trade change to one target calendar
+ * Link settings control the update/delete window, which optional fields
+ * propagate and how local edits on the copy are handled
+ */
+async function syncToTargetCalendar(
+  operation: 'INSERT' | 'UPDATE' | 'DELETE',
+  oldTrade: Trade | undefined,
+  newTrade: Trade | undefined,
+  targetCalendarId: string,
+  syncSettings: CalendarSyncSettings
+): Promise<LinkSyncResult> {
+  const trade = (newTrade || oldTrade)!;
+  const supabase = createServiceClient();
+  log('Syncing trade to linked calendar', 'info', { operation, targetCalendarId, syncSettings });
+
+  // Fetch target calendar's risk settings for amount recalculation
+  const { data: targetCalendar, error: targetError } = await supabase
+    .from('calendars')
+    .select('account_balance, risk_per_trade, dynamic_risk_enabled, increased_risk_percentage, profit_threshold_percentage')
+    .eq('id', targetCalendarId)
+    .single();
+
+  // Calculate cumulative P&L for target calendar up to (but not including) the trade date
+  // This matches the frontend calculation for consistent dynamic risk behavior
+  let cumulativePnL = 0;
+  if (targetCalendar && !targetError && trade.trade_date) {
+    const { data: targetTrades } = await supabase
+      .from('trades')
+      .select('amount, trade_date')
+      .eq('calendar_id', targetCalendarId)
+      .is('deleted_at', null)
+      .lt('trade_date', trade.trade_date);
 
-      // Use RPC function for consistency - tags merged, user_id set, year stats via webhook
-      const { error: insertError } = await supabase.rpc('add_trade_with_tags', {
-        p_trade: syncedTradeData,
-        p_calendar_id: linkedCalendarId
-      });
+    if (targetTrades) {
+      cumulativePnL = targetTrades.reduce((sum: any, t: { amount: any; }) => sum + (t.amount || 0), 0);
+    }
+  }
 
-      if (insertError) {
-        log('Error creating synced trade', 'error', insertError);
-      } else {
-        log('Synced trade created successfully');
-      }
-    } else if (operation === 'UPDATE' && newTrade) {
-      // Check 24-hour window using utility
-      if (!isWithinSyncWindow(newTrade)) {
-        log('Skipping update sync - outside 24hr window');
-        return;
-      }
+  // Build target settings (will be undefined if fetch failed, causing raw amount copy)
+  const targetSettings: CalendarRiskSettings | undefined = targetCalendar && !targetError
+    ? buildCalendarRiskSettings(targetCalendar, cumulativePnL)
+    : undefined;
 
-      // Find the synced trade's actual ID by source_trade_id
-      const { data: syncedTrade, error: findError } = await supabase
-        .from('trades')
-        .select('id')
-        .eq('source_trade_id', newTrade.id)
-        .eq('calendar_id', linkedCalendarId)
-        .single();
+  if (operation === 'INSERT' && newTrade) {
+    // Prepare synced trade using utility (handles field stripping and amount calculation)
+    // This sets is_synced_copy: true and source_trade_id to prevent infinite loops
+    const syncedTradeData = prepareSyncedTrade(newTrade, targetCalendarId, targetSettings, syncSettings.sync_fields);
 
-      if (findError || !syncedTrade) {
-        log('Synced trade not found for update', 'warn', { source_trade_id: newTrade.id });
-        return;
-      }
+    // Use RPC function for consistency - tags merged, user_id set, year stats via webhook
+    const { data: insertResult, error: insertError } = await supabase.rpc('add_trade_with_tags', {
+      p_trade: syncedTradeData,
+      p_calendar_id: targetCalendarId
+    });
 
-      // Prepare updated trade data
-      const syncedTradeData = prepareSyncedTrade(newTrade, linkedCalendarId, targetSettings);
+    if (insertError) {
+      log('Error creating synced trade', 'error', insertError);
+      return { status: 'error', message: insertError.message };
+    }
 
-      // Use RPC function for consistency
-      const { error: updateError } = await supabase.rpc('update_trade_with_tags', {
-        p_trade_id: syncedTrade.id,
-        p_trade_updates: syncedTradeData,
-        p_calendar_id: linkedCalendarId
-      });
+    await markTradeSynced(insertResult?.trade_id);
+    log('Synced trade created successfully');
+    return { status: 'success' };
+  }
 
-      if (updateError) {
-        log('Error updating synced trade', 'error', updateError);
-      } else {
-        log('Synced trade updated successfully');
-      }
-    } else if (operation === 'DELETE' && oldTrade) {
-      // Check 24-hour window using utility
-      if (!isWithinSyncWindow(oldTrade)) {
-        log('Skipping delete sync - outside 24hr window');
-        return;
-      }
+  // Moving the source trade to or from the trash does the same to its copy,
+  // within the same sync window and conflict policy as a delete
+  const trashChange = operation === 'UPDATE' ? getTrashChange(oldTrade, newTrade) : null;
+  if (trashChange && newTrade) {
+    if (!isWithinSyncWindow(newTrade, syncSettings.sync_window_hours)) {
+      log('Skipping trash sync - outside sync window', 'info', { sync_window_hours: syncSettings.sync_window_hours });
+      return { status: 'skipped', message: 'Trade is outside the sync window' };
+    }
 
-      // Find the synced trade's actual ID by source_trade_id
-      const { data: syncedTrade, error: findError } = await supabase
-        .from('trades')
-        .select('id')
-        .eq('source_trade_id', oldTrade.id)
-        .eq('calendar_id', linkedCalendarId)
-        .single();
+    const { data: syncedTrade, error: findError } = await supabase
+      .from('trades')
+      .select('id, locally_modified_at')
+      .eq('source_trade_id', newTrade.id)
+      .eq('calendar_id', targetCalendarId)
+      .single();
 
-      if (findError || !syncedTrade) {
-        log('Synced trade not found for delete', 'warn', { source_trade_id: oldTrade.id });
-        return;
-      }
+    if (findError || !syncedTrade) {
+      log('Synced trade not found for trash change', 'warn', { source_trade_id: newTrade.id });
+      return { status: 'skipped', message: 'Synced copy not found' };
+    }
 
-      // Use RPC function for consistency
-      const { error: deleteError } = await supabase.rpc('delete_trade_transactional', {
-        p_trade_id: syncedTrade.id
-      });
+    const resolution = await applyConflictPolicy(syncedTrade, syncSettings.conflict_policy);
+    if (resolution !== 'apply') {
+      return { status: 'skipped', message: getConflictMessage(resolution) };
+    }
 
-      if (deleteError) {
-        log('Error deleting synced trade', 'error', deleteError);
-      } else {
-        log('Synced trade deleted successfully');
-      }
+    const { error: trashError } = await supabase
+      .from('trades')
+      .update({
+        deleted_at: newTrade.deleted_at ?? null,
+        deleted_by: newTrade.deleted_by ?? null,
+        auto_delete_at: newTrade.auto_delete_at ?? null
+      })
+      .eq('id', syncedTrade.id);
+
+    if (trashError) {
+      log('Error syncing trash state to synced trade', 'error', trashError);
+      return { status: 'error', message: trashError.message };
     }
-  } catch (error) {
-    log('Error in syncToLinkedCalendar', 'error', error);
-    // Don't fail the webhook on sync errors - log and continue
+
+    log(`Synced trade ${trashChange === 'trashed' ? 'moved to trash' : 'restored'}`);
+    return { status: 'success' };
+  }
+
+  if (operation === 'UPDATE' && newTrade) {
+    // Check sync window using utility
+    if (!isWithinSyncWindow(newTrade, syncSettings.sync_window_hours)) {
+      log('Skipping update sync - outside sync window', 'info', { sync_window_hours: syncSettings.sync_window_hours });
+      return { status: 'skipped', message: 'Trade is outside the sync window' };
+    }
+
+    // Find the synced trade's actual ID by source_trade_id
+    const { data: syncedTrade, error: findError } = await supabase
+      .from('trades')
+      .select('id, locally_modified_at')
+      .eq('source_trade_id', newTrade.id)
+      .eq('calendar_id', targetCalendarId)
+      .single();
+
+    if (findError || !syncedTrade) {
+      log('Synced trade not found for update', 'warn', { source_trade_id: newTrade.id });
+      return { status: 'skipped', message: 'Synced copy not found' };
+    }
+
+    const resolution = await applyConflictPolicy(syncedTrade, syncSettings.conflict_policy);
+    if (resolution !== 'apply') {
+      return { status: 'skipped', message: getConflictMessage(resolution) };
+    }
+
+    // Prepare updated trade data (disabled fields are left untouched on the copy)
+    const syncedTradeData = prepareSyncedTrade(newTrade, targetCalendarId, targetSettings, syncSettings.sync_fields, true);
+
+    // Use RPC function for consistency
+    const { error: updateError } = await supabase.rpc('update_trade_with_tags', {
+      p_trade_id: syncedTrade.id,
+      p_trade_updates: syncedTradeData,
+      p_calendar_id: targetCalendarId
+    });
+
+    if (updateError) {
+      log('Error updating synced trade', 'error', updateError);
+      return { status: 'error', message: updateError.message };
+    }
+
+    await markTradeSynced(syncedTrade.id);
+    log('Synced trade updated successfully');
+    return { status: 'success' };
+  }
+
+  if (operation === 'DELETE' && oldTrade) {
+    // Check sync window using utility
+    if (!isWithinSyncWindow(oldTrade, syncSettings.sync_window_hours)) {
+      log('Skipping delete sync - outside sync window', 'info', { sync_window_hours: syncSettings.sync_window_hours });
+      return { status: 'skipped', message: 'Trade is outside the sync window' };
+    }
+
+    // Find the synced trade's actual ID by source_trade_id
+    const { data: syncedTrade, error: findError } = await supabase
+      .from('trades')
+      .select('id, locally_modified_at')
+      .eq('source_trade_id', oldTrade.id)
+      .eq('calendar_id', targetCalendarId)
+      .single();
+
+    if (findError || !syncedTrade) {
+      log('Synced trade not found for delete', 'warn', { source_trade_id: oldTrade.id });
+      return { status: 'skipped', message: 'Synced copy not found' };
+    }
+
+    const resolution = await applyConflictPolicy(syncedTrade, syncSettings.conflict_policy);
+    if (resolution !== 'apply') {
+      return { status: 'skipped', message: getConflictMessage(resolution) };
+    }
+
+    // Use RPC function for consistency
+    const { error: deleteError } = await supabase.rpc('delete_trade_transactional', {
+      p_trade_id: syncedTrade.id
+    });
+
+    if (deleteError) {
+      log('Error deleting synced trade', 'error', deleteError);
+      return { status: 'error', message: deleteError.message };
+    }
+
+    log('Synced trade deleted successfully');
+    return { status: 'success' };
+  }
+
+  return { status: 'skipped' };
+}
+
+/**
+ * Whether an update moved the trade to the trash or restored it
+ */
+function getTrashChange(oldTrade: Trade | undefined, newTrade: Trade | undefined): 'trashed' | 'restored' | null {
+  const wasTrashed = !!oldTrade?.deleted_at;
+  const isTrashed = !!newTrade?.deleted_at;
+  if (wasTrashed === isTrashed) return null;
+  return isTrashed ? 'trashed' : 'restored';
+}
+
+/**
+ * Apply the link conflict policy to a synced copy before writing to it
+ * Returns 'apply' when the source change should be written
+ */
+async function applyConflictPolicy(
+  syncedTrade: { id: string; locally_modified_at?: string | null },
+  policy: SyncConflictPolicy
+): Promise<'apply' | 'skip' | 'detach'> {
+  const resolution = resolveSyncConflict({ locally_modified_at: syncedTrade.locally_modified_at ?? undefined }, policy);
+
+  if (resolution === 'skip') {
+    log('Skipping sync - synced trade was edited locally', 'info', { trade_id: syncedTrade.id, policy });
+  }
+
+  if (resolution === 'detach') {
+    // The copy keeps its local edits and stops following the source trade
+    const supabase = createServiceClient();
+    const { error } = await supabase
+      .from('trades')
+      .update({ source_trade_id: null, is_synced_copy: false, locally_modified_at: null })
+      .eq('id', syncedTrade.id);
+
+    if (error) {
+      log('Error detaching locally edited synced trade', 'error', error);
+    } else {
+      log('Detached locally edited synced trade', 'info', { trade_id: syncedTrade.id });
+    }
+  }
+
+  return resolution;
+}
+
+function getConflictMessage(resolution: 'skip' | 'detach'): string {
+  return resolution === 'detach'
+    ? 'Synced copy was edited locally and has been detached'
+    : 'Synced copy was edited locally';
+}
+
+/**
+ * Store the outcome of the latest sync on the link
+ */
+async function recordLinkSyncResult(linkId: string, result: LinkSyncResult): Promise<void> {
+  const supabase = createServiceClient();
+  const { error } = await supabase
+    .from('calendar_links')
+    .update({
+      last_sync_at: new Date().toISOString(),
+      last_sync_status: result.status,
+      last_sync_error: result.message ?? null
+    })
+    .eq('id', linkId);
+
+  if (error) {
+    log('Error recording link sync status', 'error', error);
+  }
+}
+
+/**
+ * Record a sync write on a synced copy
+ * Moving last_synced_at forward tells the local-edit trigger this change came from the sync
+ */
+async function markTradeSynced(tradeId: string | undefined): Promise<void> {
+  if (!tradeId) return;
+
+  const supabase = createServiceClient();
+  const { error } = await supabase
+    .from('trades')
+    .update({ last_synced_at: new Date().toISOString(), locally_modified_at: null })
+    .eq('id', tradeId);
+
+  if (error) {
+    log('Error marking synced trade', 'error', error);
   }
 }
@@ -0,0 +1,112 @@
+/**
+ * Recompute Score Snapshots Edge Function
+ *
+ * Rebuilds every persisted score snapshot of a calendar using its current
+ * score settings. Called explicitly from the score history UI after the
+ * user changes their score settings.
+ */
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import {
+  createAuthenticatedClient,
+  createServiceClient,
+  errorResponse,
+  successResponse,
+  handleCors,
+  log,
+  parseJsonBody
+} from '../_shared/supabase.ts'
+import { getPeriodsForDates, persistScoreSnapshots, SCORE_CALENDAR_COLUMNS } from '../_shared/scoreSnapshots.ts'
+import type { ScoreCalendarData } from '../_shared/scoreSnapshots.ts'
+import type { Trade } from '../_shared/types.ts'
+
+interface RecomputeScoreSnapshotsPayload {
+  calendarId: string
+}
+
+Deno.serve(async (req: Request) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  try {
+    if (req.method !== 'POST') {
+      return errorResponse('Method Not Allowed', 405)
+    }
+
+    log('Recompute score snapshots request received')
+
+    const authResult = await createAuthenticatedClient(req)
+    if (!authResult) {
+      return errorResponse('Authentication required', 401)
+    }
+
+    const { user, supabase } = authResult
+    const payload = await parseJsonBody<RecomputeScoreSnapshotsPayload>(req)
+    if (!payload) {
+      return errorResponse('Invalid JSON payload', 400)
+    }
+
+    const { calendarId } = payload
+
+    if (!calendarId) {
+      return errorResponse('Missing required parameter: calendarId', 400)
+    }
+
+    // Verify calendar ownership
+    const { data: calendar, error: calendarError } = await supabase
+      .from('calendars')
+      .select(SCORE_CALENDAR_COLUMNS)
+      .eq('id', calendarId)
+      .single()
+
+    if (calendarError || !calendar) {
+      return errorResponse('Calendar not found', 404)
+    }
+
+    if ((calendar as ScoreCalendarData).user_id !== user.id) {
+      return errorResponse('Unauthorized access to calendar', 403)
+    }
+
+    // Snapshots are only writable with the service role
+    const serviceClient = createServiceClient()
+    const startedAt = new Date().toISOString()
+
+    const { data: trades, error: tradesError } = await serviceClient
+      .from('trades')
+      .select('id, amount, trade_type, trade_date, session, tags, checklist, risk_to_reward, partials_taken, is_temporary')
+      .eq('calendar_id', calendarId)
+      .is('deleted_at', null)
+      .order('trade_date', { ascending: true })
+
+    if (tradesError) {
+      log('Error fetching trades for score snapshots', 'error', tradesError)
+      return errorResponse('Failed to fetch trades', 500)
+    }
+
+    const tradeList = (trades || []) as Trade[]
+    const periods = getPeriodsForDates(tradeList.map(trade => trade.trade_date))
+    const result = await persistScoreSnapshots(serviceClient, calendar as ScoreCalendarData, tradeList, periods)
+
+    // Remove snapshots for periods that no longer contain any trades
+    const { error: cleanupError } = await serviceClient
+      .from('score_snapshots')
+      .delete()
+      .eq('calendar_id', calendarId)
+      .lt('computed_at', startedAt)
+
+    if (cleanupError) {
+      log('Error removing stale score snapshots', 'error', cleanupError)
+    }
+
+    log(`Recomputed ${result.upserted} score snapshots for calendar ${calendarId}`)
+
+    return successResponse({
+      snapshotsComputed: result.upserted,
+      settingsVersion: (calendar as ScoreCalendarData).score_settings_version ?? 1
+    })
+
+  } catch (error) {
+    log('Error recomputing score snapshots', 'error', error)
+    return errorResponse('Internal server error', 500)
+  }
+})
@@ -0,0 +1,81 @@
+-- =====================================================
+-- Migration: Score Snapshots
+-- =====================================================
+-- Persists daily/weekly/monthly/yearly trading score snapshots per calendar
+-- Snapshots are written by the handle-trade-changes webhook for the periods a
+-- trade change touches, and rebuilt on demand by recompute-score-snapshots.
+-- Each snapshot records the score settings (and settings version) it was
+-- computed with, so past periods stay auditable when settings change.
+
+-- Settings version: bumped whenever calendars.score_settings changes
+ALTER TABLE calendars
+ADD COLUMN IF NOT EXISTS score_settings_version INTEGER NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION public.bump_score_settings_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.score_settings IS DISTINCT FROM OLD.score_settings THEN
+    NEW.score_settings_version = COALESCE(OLD.score_settings_version, 1) + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_bump_score_settings_version ON public.calendars;
+CREATE TRIGGER trigger_bump_score_settings_version
+  BEFORE UPDATE ON public.calendars
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_score_settings_version();
+
+CREATE TABLE IF NOT EXISTS public.score_snapshots (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    calendar_id UUID NOT NULL REFERENCES public.calendars(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    period TEXT NOT NULL,
+    period_start DATE NOT NULL,
+    metrics JSONB NOT NULL,
+    breakdown JSONB NOT NULL,
+    trade_count INTEGER NOT NULL DEFAULT 0,
+    settings_version INTEGER NOT NULL DEFAULT 1,
+    settings JSONB,
+    computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT score_snapshots_period_check CHECK (period IN ('daily', 'weekly', 'monthly', 'yearly')),
+    CONSTRAINT score_snapshots_trade_count_check CHECK (trade_count >= 0),
+    CONSTRAINT score_snapshots_unique_period UNIQUE (calendar_id, period, period_start)
+);
+
+-- Common query pattern: a calendar's snapshots for one period type, in date order
+CREATE INDEX IF NOT EXISTS idx_score_snapshots_calendar_period
+ON public.score_snapshots(calendar_id, period, period_start);
+
+-- Enable Row Level Security
+-- Snapshots are written only by edge functions (service role), users can read them
+ALTER TABLE public.score_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view score snapshots from their calendars" ON public.score_snapshots;
+
+CREATE POLICY "Users can view score snapshots from their calendars"
+  ON public.score_snapshots
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.calendars
+      WHERE calendars.id = score_snapshots.calendar_id
+      AND calendars.user_id = auth.uid()
+    )
+  );
+
+COMMENT ON COLUMN calendars.score_settings_version IS
+  'Incremented on every score_settings change. Score snapshots record the version they were computed with.';
+
+COMMENT ON TABLE public.score_snapshots IS
+  'Persisted trading score per calendar and period. Written by handle-trade-changes and recompute-score-snapshots.';
+
+COMMENT ON COLUMN public.score_snapshots.period_start IS
+  'First day of the period (UTC). Weeks start on Sunday.';
+
+COMMENT ON COLUMN public.score_snapshots.settings IS
+  'Copy of calendars.score_settings used for this snapshot (null means defaults).';
@@ -0,0 +1,68 @@
+-- =====================================================
+-- Migration: Calendar Sync Settings
+-- =====================================================
+-- Makes calendar linking configurable per link:
+-- - Sync window length (hours, or forever)
+-- - Which fields propagate to synced copies (tags, notes, images, amount)
+-- - Conflict policy when the synced copy was edited in the target calendar
+--
+-- Local edits are detected with a trigger: any content change to a synced copy
+-- that is not made by the sync itself stamps locally_modified_at.
+-- The sync clears it again (and sets last_synced_at) after every write.
+
+-- Per-link settings, stored on the source calendar (null = defaults: 24h window, all fields, overwrite)
+ALTER TABLE calendars
+ADD COLUMN IF NOT EXISTS sync_settings JSONB;
+
+-- Sync bookkeeping on synced copies
+ALTER TABLE trades
+ADD COLUMN IF NOT EXISTS last_synced_at TIMESTAMPTZ;
+
+ALTER TABLE trades
+ADD COLUMN IF NOT EXISTS locally_modified_at TIMESTAMPTZ;
+
+-- Stamp local edits on synced copies
+CREATE OR REPLACE FUNCTION public.mark_synced_copy_local_edit()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Writes from the sync always move last_synced_at forward
+  IF NOT COALESCE(OLD.is_synced_copy, false)
+     OR NEW.last_synced_at IS DISTINCT FROM OLD.last_synced_at THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.name IS DISTINCT FROM OLD.name
+     OR NEW.amount IS DISTINCT FROM OLD.amount
+     OR NEW.trade_type IS DISTINCT FROM OLD.trade_type
+     OR NEW.trade_date IS DISTINCT FROM OLD.trade_date
+     OR NEW.session IS DISTINCT FROM OLD.session
+     OR NEW.entry_price IS DISTINCT FROM OLD.entry_price
+     OR NEW.exit_price IS DISTINCT FROM OLD.exit_price
+     OR NEW.stop_loss IS DISTINCT FROM OLD.stop_loss
+     OR NEW.take_profit IS DISTINCT FROM OLD.take_profit
+     OR NEW.risk_to_reward IS DISTINCT FROM OLD.risk_to_reward
+     OR NEW.partials_taken IS DISTINCT FROM OLD.partials_taken
+     OR NEW.notes IS DISTINCT FROM OLD.notes
+     OR NEW.tags IS DISTINCT FROM OLD.tags
+     OR NEW.images IS DISTINCT FROM OLD.images THEN
+    NEW.locally_modified_at = NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_mark_synced_copy_local_edit ON public.trades;
+CREATE TRIGGER trigger_mark_synced_copy_local_edit
+  BEFORE UPDATE ON public.trades
+  FOR EACH ROW
+  EXECUTE FUNCTION public.mark_synced_copy_local_edit();
+
+COMMENT ON COLUMN calendars.sync_settings IS
+  'Settings for the link to linked_to_calendar_id: { sync_window_hours (null = forever), sync_fields { tags, notes, images, amount }, conflict_policy (overwrite | keep_local | detach) }.';
+
+COMMENT ON COLUMN trades.last_synced_at IS
+  'When calendar linking last wrote this synced copy.';
+
+COMMENT ON COLUMN trades.locally_modified_at IS
+  'Set when a synced copy is edited in its own calendar since the last sync. Drives the link conflict policy.';
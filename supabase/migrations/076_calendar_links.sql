@@ -0,0 +1,169 @@
+-- =====================================================
+-- Migration: One-to-Many Calendar Links
+-- =====================================================
+-- Replaces calendars.linked_to_calendar_id (single target) with a
+-- calendar_links table so one source calendar can fan out to several targets.
+-- Each link keeps its own sync settings (moved from calendars.sync_settings)
+-- and records the outcome of its last sync for the per-target status view.
+--
+-- Cycle prevention (replaces 070_prevent_circular_calendar_links.sql):
+-- - Walks every outgoing link, not just a single chain
+-- - No depth limit (the old check stopped after 10 hops)
+-- - Serialized per user, so two concurrent links (A → B and B → A) cannot both pass
+-- - Source and target must belong to the same user
+
+CREATE TABLE IF NOT EXISTS public.calendar_links (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    source_calendar_id UUID NOT NULL REFERENCES public.calendars(id) ON DELETE CASCADE,
+    target_calendar_id UUID NOT NULL REFERENCES public.calendars(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    sync_settings JSONB,
+    last_sync_at TIMESTAMPTZ,
+    last_sync_status TEXT,
+    last_sync_error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT calendar_links_no_self_link CHECK (source_calendar_id != target_calendar_id),
+    CONSTRAINT calendar_links_unique_target UNIQUE (source_calendar_id, target_calendar_id),
+    CONSTRAINT calendar_links_last_sync_status_check CHECK (
+      last_sync_status IS NULL OR last_sync_status IN ('success', 'skipped', 'error')
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_links_source
+ON public.calendar_links(source_calendar_id);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_links_target
+ON public.calendar_links(target_calendar_id);
+
+-- Move existing single-target links over
+INSERT INTO public.calendar_links (source_calendar_id, target_calendar_id, user_id, sync_settings)
+SELECT id, linked_to_calendar_id, user_id, sync_settings
+FROM public.calendars
+WHERE linked_to_calendar_id IS NOT NULL
+ON CONFLICT (source_calendar_id, target_calendar_id) DO NOTHING;
+
+-- Retire the single-target columns and their cycle check
+DROP TRIGGER IF EXISTS prevent_circular_calendar_link ON public.calendars;
+DROP FUNCTION IF EXISTS check_circular_calendar_link();
+
+ALTER TABLE calendars DROP CONSTRAINT IF EXISTS no_self_link;
+DROP INDEX IF EXISTS idx_calendars_linked_to;
+ALTER TABLE calendars DROP COLUMN IF EXISTS linked_to_calendar_id;
+ALTER TABLE calendars DROP COLUMN IF EXISTS sync_settings;
+
+-- Validate links: ownership and cycles across the whole link graph
+CREATE OR REPLACE FUNCTION public.check_calendar_link()
+RETURNS TRIGGER AS $$
+DECLARE
+    creates_cycle BOOLEAN;
+BEGIN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.calendars
+      WHERE id = NEW.source_calendar_id AND user_id = NEW.user_id
+    ) OR NOT EXISTS (
+      SELECT 1 FROM public.calendars
+      WHERE id = NEW.target_calendar_id AND user_id = NEW.user_id
+    ) THEN
+      RAISE EXCEPTION 'Calendar links must connect two calendars owned by the same user.';
+    END IF;
+
+    -- One link change at a time per user, so concurrent inserts see each other
+    PERFORM pg_advisory_xact_lock(hashtext('calendar_links:' || NEW.user_id::text));
+
+    -- Every calendar reachable from the target (UNION dedupes, so this terminates on any graph)
+    WITH RECURSIVE reachable(calendar_id) AS (
+      SELECT NEW.target_calendar_id
+      UNION
+      SELECT l.target_calendar_id
+      FROM public.calendar_links l
+      JOIN reachable r ON l.source_calendar_id = r.calendar_id
+      WHERE l.id IS DISTINCT FROM NEW.id
+    )
+    SELECT EXISTS (
+      SELECT 1 FROM reachable WHERE calendar_id = NEW.source_calendar_id
+    ) INTO creates_cycle;
+
+    IF creates_cycle THEN
+      RAISE EXCEPTION 'Circular calendar link detected. Cannot create link that would form a cycle.';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_check_calendar_link ON public.calendar_links;
+CREATE TRIGGER trigger_check_calendar_link
+    BEFORE INSERT OR UPDATE OF source_calendar_id, target_calendar_id ON public.calendar_links
+    FOR EACH ROW
+    EXECUTE FUNCTION public.check_calendar_link();
+
+DROP TRIGGER IF EXISTS update_calendar_links_updated_at ON public.calendar_links;
+CREATE TRIGGER update_calendar_links_updated_at
+    BEFORE UPDATE ON public.calendar_links
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.calendar_links ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their calendar links" ON public.calendar_links;
+DROP POLICY IF EXISTS "Users can create links between their calendars" ON public.calendar_links;
+DROP POLICY IF EXISTS "Users can update their calendar links" ON public.calendar_links;
+DROP POLICY IF EXISTS "Users can delete their calendar links" ON public.calendar_links;
+
+CREATE POLICY "Users can view their calendar links"
+  ON public.calendar_links
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create links between their calendars"
+  ON public.calendar_links
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their calendar links"
+  ON public.calendar_links
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their calendar links"
+  ON public.calendar_links
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Per-target sync status: last sync outcome plus the copies still following the source
+CREATE OR REPLACE VIEW public.calendar_link_status
+WITH (security_invoker = true) AS
+SELECT
+  l.id AS link_id,
+  l.source_calendar_id,
+  l.target_calendar_id,
+  l.last_sync_at,
+  l.last_sync_status,
+  l.last_sync_error,
+  COUNT(copy.id) AS synced_trade_count,
+  COUNT(copy.id) FILTER (WHERE copy.locally_modified_at IS NOT NULL) AS locally_modified_count,
+  MAX(copy.last_synced_at) AS last_trade_synced_at
+FROM public.calendar_links l
+LEFT JOIN public.trades src
+  ON src.calendar_id = l.source_calendar_id
+LEFT JOIN public.trades copy
+  ON copy.source_trade_id = src.id
+  AND copy.calendar_id = l.target_calendar_id
+GROUP BY l.id;
+
+COMMENT ON TABLE public.calendar_links IS
+  'One-way trade sync links. Trades created in source_calendar_id are copied to target_calendar_id with amounts recalculated for the target''s risk settings.';
+
+COMMENT ON COLUMN public.calendar_links.sync_settings IS
+  'Link settings: { sync_window_hours (null = forever), sync_fields { tags, notes, images, amount }, conflict_policy (overwrite | keep_local | detach) }. Null means defaults.';
+
+COMMENT ON COLUMN public.calendar_links.last_sync_status IS
+  'Outcome of the last sync attempt for this link (success | skipped | error). Written by handle-trade-changes.';
+
+COMMENT ON VIEW public.calendar_link_status IS
+  'Per-target sync status for calendar links, including how many copies still follow the source and how many were edited locally.';
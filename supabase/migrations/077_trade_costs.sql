@@ -0,0 +1,1137 @@
+-- =====================================================
+-- Migration: Trade Costs (Commission, Swap, Fees)
+-- =====================================================
+-- Adds commission, swap and fees as first-class trade fields.
+-- trades.amount stays the NET result (what hits the account), so balances,
+-- year stats and drawdown keep their meaning. Costs are stored separately:
+--   positive = cost, negative = credit (e.g. a swap credit)
+--   gross P&L = amount + commission + swap + fees
+--
+-- Updates:
+-- - add_trade_with_tags / update_trade_with_tags accept the cost fields
+-- - calculate_chart_data takes p_pnl_mode ('net' | 'gross')
+-- - Local edits to costs on synced copies count as local edits
+
+ALTER TABLE trades
+ADD COLUMN IF NOT EXISTS commission DECIMAL(15,2);
+
+ALTER TABLE trades
+ADD COLUMN IF NOT EXISTS swap DECIMAL(15,2);
+
+ALTER TABLE trades
+ADD COLUMN IF NOT EXISTS fees DECIMAL(15,2);
+
+COMMENT ON COLUMN trades.commission IS
+  'Broker commission for the trade. Positive = cost. Already included in amount (net).';
+
+COMMENT ON COLUMN trades.swap IS
+  'Overnight swap/rollover. Positive = cost, negative = credit. Already included in amount (net).';
+
+COMMENT ON COLUMN trades.fees IS
+  'Other fees (exchange, regulatory, taxes). Positive = cost. Already included in amount (net).';
+
+-- =====================================================
+-- FUNCTION: trade_pnl
+-- =====================================================
+-- P&L of a trade in the requested mode ('net' = amount, 'gross' = amount before costs)
+CREATE OR REPLACE FUNCTION public.trade_pnl(
+  p_amount DECIMAL,
+  p_commission DECIMAL,
+  p_swap DECIMAL,
+  p_fees DECIMAL,
+  p_mode TEXT DEFAULT 'net'
+)
+RETURNS DECIMAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_mode = 'gross' THEN p_amount + COALESCE(p_commission, 0) + COALESCE(p_swap, 0) + COALESCE(p_fees, 0)
+    ELSE p_amount
+  END;
+$$;
+
+-- Drop existing functions first to allow parameter changes
+DROP FUNCTION IF EXISTS add_trade_with_tags(JSONB, UUID);
+DROP FUNCTION IF EXISTS update_trade_with_tags(UUID, JSONB, UUID);
+DROP FUNCTION IF EXISTS calculate_chart_data(UUID, TEXT, TIMESTAMPTZ);
+
+-- =====================================================
+-- FUNCTION: add_trade_with_tags (with trade costs)
+-- =====================================================
+CREATE OR REPLACE FUNCTION add_trade_with_tags(
+  p_trade JSONB,
+  p_calendar_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_trade_id UUID;
+  v_user_id UUID;
+  v_calendar RECORD;
+  v_new_tags TEXT[];
+  v_calendar_tags TEXT[];
+  v_tags_updated BOOLEAN := FALSE;
+  v_result JSONB;
+BEGIN
+  -- Get calendar and user_id
+  SELECT * INTO v_calendar FROM calendars WHERE id = p_calendar_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Calendar not found: %', p_calendar_id;
+  END IF;
+
+  v_user_id := v_calendar.user_id;
+
+  -- Extract trade data and set user_id
+  v_trade_id := COALESCE((p_trade->>'id')::UUID, uuid_generate_v4());
+
+  -- Insert the trade (includes sync fields for calendar linking)
+  INSERT INTO trades (
+    id,
+    calendar_id,
+    user_id,
+    name,
+    trade_type,
+    trade_date,
+    session,
+    amount,
+    entry_price,
+    exit_price,
+    stop_loss,
+    take_profit,
+    risk_to_reward,
+    partials_taken,
+    commission,
+    swap,
+    fees,
+    notes,
+    tags,
+    images,
+    economic_events,
+    is_temporary,
+    source_trade_id,
+    is_synced_copy,
+    created_at,
+    updated_at
+  ) VALUES (
+    v_trade_id,
+    p_calendar_id,
+    v_user_id,
+    p_trade->>'name',
+    p_trade->>'trade_type',
+    (p_trade->>'trade_date')::TIMESTAMPTZ,
+    p_trade->>'session',
+    (p_trade->>'amount')::DECIMAL(15,2),
+    CASE WHEN p_trade->>'entry_price' IS NOT NULL AND p_trade->>'entry_price' != ''
+      THEN (p_trade->>'entry_price')::DECIMAL(15,8)
+      ELSE NULL
+    END,
+    CASE WHEN p_trade->>'exit_price' IS NOT NULL AND p_trade->>'exit_price' != ''
+      THEN (p_trade->>'exit_price')::DECIMAL(15,8)
+      ELSE NULL
+    END,
+    CASE WHEN p_trade->>'stop_loss' IS NOT NULL AND p_trade->>'stop_loss' != ''
+      THEN (p_trade->>'stop_loss')::DECIMAL(15,8)
+      ELSE NULL
+    END,
+    CASE WHEN p_trade->>'take_profit' IS NOT NULL AND p_trade->>'take_profit' != ''
+      THEN (p_trade->>'take_profit')::DECIMAL(15,8)
+      ELSE NULL
+    END,
+    CASE WHEN p_trade->>'risk_to_reward' IS NOT NULL AND p_trade->>'risk_to_reward' != ''
+      THEN (p_trade->>'risk_to_reward')::DECIMAL(8,4)
+      ELSE NULL
+    END,
+    (p_trade->>'partials_taken')::BOOLEAN,
+    -- Trading costs (positive = cost, negative = credit)
+    NULLIF(p_trade->>'commission', '')::DECIMAL(15,2),
+    NULLIF(p_trade->>'swap', '')::DECIMAL(15,2),
+    NULLIF(p_trade->>'fees', '')::DECIMAL(15,2),
+    p_trade->>'notes',
+    CASE
+      WHEN p_trade ? 'tags' THEN
+        ARRAY(SELECT jsonb_array_elements_text(p_trade->'tags'))
+      ELSE ARRAY[]::TEXT[]
+    END,
+    COALESCE((p_trade->'images')::JSONB, '[]'::JSONB),
+    COALESCE((p_trade->'economic_events')::JSONB, '[]'::JSONB),
+    COALESCE((p_trade->>'is_temporary')::BOOLEAN, FALSE),
+    -- Sync fields for calendar linking
+    (p_trade->>'source_trade_id')::UUID,
+    COALESCE((p_trade->>'is_synced_copy')::BOOLEAN, FALSE),
+    NOW(),
+    NOW()
+  );
+
+  -- Update calendar tags if trade has tags
+  IF jsonb_array_length(COALESCE((p_trade->'tags')::JSONB, '[]'::JSONB)) > 0 THEN
+    -- Extract tags from trade
+    SELECT ARRAY(SELECT jsonb_array_elements_text(p_trade->'tags')) INTO v_new_tags;
+
+    -- Get current calendar tags
+    v_calendar_tags := COALESCE(v_calendar.tags, ARRAY[]::TEXT[]);
+
+    -- Add new tags to calendar if they don't exist
+    FOR i IN 1..array_length(v_new_tags, 1) LOOP
+      IF NOT (v_new_tags[i] = ANY(v_calendar_tags)) THEN
+        v_calendar_tags := array_append(v_calendar_tags, v_new_tags[i]);
+        v_tags_updated := TRUE;
+      END IF;
+    END LOOP;
+
+    -- Update calendar tags if changed
+    IF v_tags_updated THEN
+      UPDATE calendars SET tags = v_calendar_tags WHERE id = p_calendar_id;
+    END IF;
+  END IF;
+
+  -- Build result JSON
+  SELECT jsonb_build_object(
+    'success', TRUE,
+    'trade_id', v_trade_id,
+    'tags_updated', v_tags_updated
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+-- =====================================================
+-- FUNCTION: update_trade_with_tags (with trade costs)
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_trade_with_tags(
+  p_trade_id UUID,
+  p_trade_updates JSONB,
+  p_calendar_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_calendar RECORD;
+  v_new_tags TEXT[];
+  v_calendar_tags TEXT[];
+  v_tags_updated BOOLEAN := FALSE;
+  v_result JSONB;
+BEGIN
+  -- Get calendar
+  SELECT * INTO v_calendar FROM calendars WHERE id = p_calendar_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Calendar not found: %', p_calendar_id;
+  END IF;
+
+  -- Update the trade (includes sync fields for calendar linking)
+  UPDATE trades SET
+    name = COALESCE(p_trade_updates->>'name', name),
+    trade_type = COALESCE(p_trade_updates->>'trade_type', trade_type),
+    trade_date = COALESCE((p_trade_updates->>'trade_date')::TIMESTAMPTZ, trade_date),
+    session = CASE
+      WHEN p_trade_updates ? 'session' THEN p_trade_updates->>'session'
+      ELSE session
+    END,
+    amount = COALESCE((p_trade_updates->>'amount')::DECIMAL(15,2), amount),
+    entry_price = CASE
+      WHEN p_trade_updates ? 'entry_price' THEN
+        CASE WHEN p_trade_updates->>'entry_price' IS NOT NULL AND p_trade_updates->>'entry_price' != ''
+          THEN (p_trade_updates->>'entry_price')::DECIMAL(15,8)
+          ELSE NULL
+        END
+      ELSE entry_price
+    END,
+    exit_price = CASE
+      WHEN p_trade_updates ? 'exit_price' THEN
+        CASE WHEN p_trade_updates->>'exit_price' IS NOT NULL AND p_trade_updates->>'exit_price' != ''
+          THEN (p_trade_updates->>'exit_price')::DECIMAL(15,8)
+          ELSE NULL
+        END
+      ELSE exit_price
+    END,
+    stop_loss = CASE
+      WHEN p_trade_updates ? 'stop_loss' THEN
+        CASE WHEN p_trade_updates->>'stop_loss' IS NOT NULL AND p_trade_updates->>'stop_loss' != ''
+          THEN (p_trade_updates->>'stop_loss')::DECIMAL(15,8)
+          ELSE NULL
+        END
+      ELSE stop_loss
+    END,
+    take_profit = CASE
+      WHEN p_trade_updates ? 'take_profit' THEN
+        CASE WHEN p_trade_updates->>'take_profit' IS NOT NULL AND p_trade_updates->>'take_profit' != ''
+          THEN (p_trade_updates->>'take_profit')::DECIMAL(15,8)
+          ELSE NULL
+        END
+      ELSE take_profit
+    END,
+    risk_to_reward = CASE
+      WHEN p_trade_updates ? 'risk_to_reward' THEN
+        CASE WHEN p_trade_updates->>'risk_to_reward' IS NOT NULL AND p_trade_updates->>'risk_to_reward' != ''
+          THEN (p_trade_updates->>'risk_to_reward')::DECIMAL(8,4)
+          ELSE NULL
+        END
+      ELSE risk_to_reward
+    END,
+    partials_taken = COALESCE((p_trade_updates->>'partials_taken')::BOOLEAN, partials_taken),
+    -- Trading costs - a provided null clears the value
+    commission = CASE
+      WHEN p_trade_updates ? 'commission' THEN NULLIF(p_trade_updates->>'commission', '')::DECIMAL(15,2)
+      ELSE commission
+    END,
+    swap = CASE
+      WHEN p_trade_updates ? 'swap' THEN NULLIF(p_trade_updates->>'swap', '')::DECIMAL(15,2)
+      ELSE swap
+    END,
+    fees = CASE
+      WHEN p_trade_updates ? 'fees' THEN NULLIF(p_trade_updates->>'fees', '')::DECIMAL(15,2)
+      ELSE fees
+    END,
+    notes = COALESCE(p_trade_updates->>'notes', notes),
+    tags = CASE
+      WHEN p_trade_updates ? 'tags' THEN
+        ARRAY(SELECT jsonb_array_elements_text(p_trade_updates->'tags'))
+      ELSE tags
+    END,
+    images = CASE
+      WHEN p_trade_updates ? 'images' THEN (p_trade_updates->'images')::JSONB
+      ELSE images
+    END,
+    economic_events = CASE
+      WHEN p_trade_updates ? 'economic_events' THEN (p_trade_updates->'economic_events')::JSONB
+      ELSE economic_events
+    END,
+    is_temporary = COALESCE((p_trade_updates->>'is_temporary')::BOOLEAN, is_temporary),
+    is_pinned = COALESCE((p_trade_updates->>'is_pinned')::BOOLEAN, is_pinned),
+    -- Sync fields - only update if provided (don't overwrite existing values)
+    source_trade_id = CASE
+      WHEN p_trade_updates ? 'source_trade_id' THEN (p_trade_updates->>'source_trade_id')::UUID
+      ELSE source_trade_id
+    END,
+    is_synced_copy = CASE
+      WHEN p_trade_updates ? 'is_synced_copy' THEN (p_trade_updates->>'is_synced_copy')::BOOLEAN
+      ELSE is_synced_copy
+    END,
+    updated_at = NOW()
+  WHERE id = p_trade_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trade not found: %', p_trade_id;
+  END IF;
+
+  -- Update calendar tags if trade has tags
+  IF p_trade_updates ? 'tags' AND jsonb_array_length(COALESCE((p_trade_updates->'tags')::JSONB, '[]'::JSONB)) > 0 THEN
+    -- Extract tags from trade
+    SELECT ARRAY(SELECT jsonb_array_elements_text(p_trade_updates->'tags')) INTO v_new_tags;
+
+    -- Get current calendar tags
+    v_calendar_tags := COALESCE(v_calendar.tags, ARRAY[]::TEXT[]);
+
+    -- Add new tags to calendar if they don't exist
+    FOR i IN 1..array_length(v_new_tags, 1) LOOP
+      IF NOT (v_new_tags[i] = ANY(v_calendar_tags)) THEN
+        v_calendar_tags := array_append(v_calendar_tags, v_new_tags[i]);
+        v_tags_updated := TRUE;
+      END IF;
+    END LOOP;
+
+    -- Update calendar tags if changed
+    IF v_tags_updated THEN
+      UPDATE calendars SET tags = v_calendar_tags WHERE id = p_calendar_id;
+    END IF;
+  END IF;
+
+  -- Build result JSON
+  SELECT jsonb_build_object(
+    'success', TRUE,
+    'trade_id', p_trade_id,
+    'tags_updated', v_tags_updated
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+-- =====================================================
+-- FUNCTION: mark_synced_copy_local_edit (with trade costs)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.mark_synced_copy_local_edit()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Writes from the sync always move last_synced_at forward
+  IF NOT COALESCE(OLD.is_synced_copy, false)
+     OR NEW.last_synced_at IS DISTINCT FROM OLD.last_synced_at THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.name IS DISTINCT FROM OLD.name
+     OR NEW.amount IS DISTINCT FROM OLD.amount
+     OR NEW.trade_type IS DISTINCT FROM OLD.trade_type
+     OR NEW.trade_date IS DISTINCT FROM OLD.trade_date
+     OR NEW.session IS DISTINCT FROM OLD.session
+     OR NEW.entry_price IS DISTINCT FROM OLD.entry_price
+     OR NEW.exit_price IS DISTINCT FROM OLD.exit_price
+     OR NEW.stop_loss IS DISTINCT FROM OLD.stop_loss
+     OR NEW.take_profit IS DISTINCT FROM OLD.take_profit
+     OR NEW.risk_to_reward IS DISTINCT FROM OLD.risk_to_reward
+     OR NEW.partials_taken IS DISTINCT FROM OLD.partials_taken
+     OR NEW.commission IS DISTINCT FROM OLD.commission
+     OR NEW.swap IS DISTINCT FROM OLD.swap
+     OR NEW.fees IS DISTINCT FROM OLD.fees
+     OR NEW.notes IS DISTINCT FROM OLD.notes
+     OR NEW.tags IS DISTINCT FROM OLD.tags
+     OR NEW.images IS DISTINCT FROM OLD.images THEN
+    NEW.locally_modified_at = NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- FUNCTION: calculate_chart_data (with net/gross mode)
+-- =====================================================
+CREATE OR REPLACE FUNCTION calculate_chart_data(
+  p_calendar_id UUID,
+  p_time_period TEXT DEFAULT 'month',
+  p_selected_date TIMESTAMPTZ DEFAULT NOW(),
+  p_pnl_mode TEXT DEFAULT 'net'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+DECLARE
+  v_start_date TIMESTAMPTZ;
+  v_end_date TIMESTAMPTZ;
+  v_chart_data JSONB;
+  v_trades JSONB;
+  v_performance_metrics JSONB;
+  v_economic_correlations JSONB;
+  v_result JSONB;
+  v_account_balance DECIMAL(15,2);
+BEGIN
+  -- Calculate date range based on time period
+  IF p_time_period = 'month' THEN
+    v_start_date := date_trunc('month', p_selected_date);
+    v_end_date := date_trunc('month', p_selected_date) + INTERVAL '1 month';
+  ELSIF p_time_period = 'year' THEN
+    v_start_date := date_trunc('year', p_selected_date);
+    v_end_date := date_trunc('year', p_selected_date) + INTERVAL '1 year';
+  ELSE -- 'all'
+    v_start_date := '1970-01-01'::TIMESTAMPTZ;
+    v_end_date := '2100-01-01'::TIMESTAMPTZ;
+  END IF;
+
+  -- Fetch account_balance from calendar for pnlPercentage calculation
+  SELECT COALESCE(account_balance, 0)
+  INTO v_account_balance
+  FROM public.calendars
+  WHERE id = p_calendar_id;
+
+  -- =====================================================
+  -- 1. Calculate cumulative P&L chart data
+  -- =====================================================
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'date', date,
+      'pnl', pnl,
+      'cumulativePnl', cumulative_pnl,
+      'trades', trades
+    )
+    ORDER BY date
+  )
+  INTO v_chart_data
+  FROM (
+    SELECT
+      DATE(trade_date) as date,
+      COALESCE(SUM(public.trade_pnl(amount, commission, swap, fees, p_pnl_mode)), 0) as pnl,
+      SUM(COALESCE(SUM(public.trade_pnl(amount, commission, swap, fees, p_pnl_mode)), 0)) OVER (ORDER BY DATE(trade_date)) as cumulative_pnl,
+      COUNT(*) as trades
+    FROM public.trades
+    WHERE calendar_id = p_calendar_id
+      AND trade_date >= v_start_date
+      AND trade_date < v_end_date
+    GROUP BY DATE(trade_date)
+  ) chart_data;
+
+  -- =====================================================
+  -- 2. Fetch all individual trades
+  -- =====================================================
+  SELECT jsonb_agg(to_jsonb(t.*) ORDER BY t.trade_date, t.created_at)
+  INTO v_trades
+  FROM public.trades t
+  WHERE t.calendar_id = p_calendar_id
+    AND t.trade_date >= v_start_date
+    AND t.trade_date < v_end_date;
+
+  -- =====================================================
+  -- 3. Calculate comprehensive performance metrics
+  -- =====================================================
+  WITH trade_stats AS (
+    SELECT
+      COUNT(*) FILTER (WHERE trade_type = 'win') as total_wins,
+      COUNT(*) FILTER (WHERE trade_type = 'loss') as total_losses,
+      COUNT(*) FILTER (WHERE trade_type = 'breakeven') as total_breakevens,
+      COUNT(*) as total_trades,
+      COALESCE(AVG(public.trade_pnl(amount, commission, swap, fees, p_pnl_mode)) FILTER (WHERE trade_type = 'win'), 0) as avg_win,
+      COALESCE(AVG(public.trade_pnl(amount, commission, swap, fees, p_pnl_mode)) FILTER (WHERE trade_type = 'loss'), 0) as avg_loss,
+      COALESCE(AVG(public.trade_pnl(amount, commission, swap, fees, p_pnl_mode)) FILTER (WHERE trade_type = 'breakeven'), 0) as avg_breakeven
+    FROM public.trades
+    WHERE calendar_id = p_calendar_id
+      AND trade_date >= v_start_date
+      AND trade_date < v_end_date
+  ),
+  -- Consecutive stats using islands and gaps technique
+  consecutive_stats AS (
+    WITH ordered_trades AS (
+      SELECT
+        trade_type,
+        trade_date,
+        ROW_NUMBER() OVER (ORDER BY trade_date, created_at) -
+        ROW_NUMBER() OVER (PARTITION BY trade_type ORDER BY trade_date, created_at) as grp
+      FROM public.trades
+      WHERE calendar_id = p_calendar_id
+        AND trade_date >= v_start_date
+        AND trade_date < v_end_date
+        AND trade_type IN ('win', 'loss')
+    ),
+    streaks AS (
+      SELECT
+        trade_type,
+        COUNT(*) as streak_length
+      FROM ordered_trades
+      GROUP BY trade_type, grp
+    )
+    SELECT
+      MAX(streak_length) FILTER (WHERE trade_type = 'win') as max_consecutive_wins,
+      COALESCE(AVG(streak_length) FILTER (WHERE trade_type = 'win'), 0) as avg_consecutive_wins,
+      MAX(streak_length) FILTER (WHERE trade_type = 'loss') as max_consecutive_losses,
+      COALESCE(AVG(streak_length) FILTER (WHERE trade_type = 'loss'), 0) as avg_consecutive_losses
+    FROM streaks
+  ),
+  tag_stats AS (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'tag', tag,
+        'wins', wins,
+        'losses', losses,
+        'breakevens', breakevens,
+        'total_trades', total_trades,
+        'win_rate', win_rate,
+        'total_pnl', total_pnl
+      )
+      ORDER BY total_trades DESC
+    ) as tag_stats_data
+    FROM (
+      SELECT
+        unnest(tags) as tag,
+        COUNT(*) FILTER (WHERE trade_type = 'win') as wins,
+        COUNT(*) FILTER (WHERE trade_type = 'loss') as losses,
+        COUNT(*) FILTER (WHERE trade_type = 'breakeven') as breakevens,
+        COUNT(*) as total_trades,
+        CASE
+          WHEN (COUNT(*) FILTER (WHERE trade_type = 'win') + COUNT(*) FILTER (WHERE trade_type = 'loss')) > 0 THEN
+            ROUND((COUNT(*) FILTER (WHERE trade_type = 'win')::DECIMAL /
+                   (COUNT(*) FILTER (WHERE trade_type = 'win') + COUNT(*) FILTER (WHERE trade_type = 'loss'))::DECIMAL) * 100, 0)
+          ELSE 0
+        END as win_rate,
+        COALESCE(SUM(public.trade_pnl(amount, commission, swap, fees, p_pnl_mode)), 0) as total_pnl
+      FROM public.trades
+      WHERE calendar_id = p_calendar_id
+        AND trade_date >= v_start_date
+        AND trade_date < v_end_date
+      GROUP BY tag
+    ) tag_data
+  ),
+  -- FIXED: Daily summary with correct field names
+  daily_summary AS (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'trade_date', trade_date,
+        'trades', total_trades,          -- FIXED: changed from 'total_trades'
+        'wins', wins,
+        'losses', losses,
+        'breakevens', breakevens,
+        'win_rate', win_rate,
+        'pnl', total_pnl,                -- FIXED: changed from 'total_pnl'
+        'cumulative_pnl', cumulative_pnl,
+        'session', most_common_session   -- ADDED: session field
+      )
+      ORDER BY trade_date
+    ) as daily_summary_data
+    FROM (
+      SELECT
+        trade_date::DATE as trade_date,
+        COUNT(*) as total_trades,
+        COUNT(*) FILTER (WHERE trade_type = 'win') as wins,
+        COUNT(*) FILTER (WHERE trade_type = 'loss') as losses,
+        COUNT(*) FILTER (WHERE trade_type = 'breakeven') as breakevens,
+        CASE
+          WHEN (COUNT(*) FILTER (WHERE trade_type = 'win') + COUNT(*) FILTER (WHERE trade_type = 'loss')) > 0 THEN
+            ROUND((COUNT(*) FILTER (WHERE trade_type = 'win')::DECIMAL /
+                   (COUNT(*) FILTER (WHERE trade_type = 'win') + COUNT(*) FILTER (WHERE trade_type = 'loss'))::DECIMAL) * 100, 2)
+          ELSE 0
+        END as win_rate,
+        COALESCE(SUM(public.trade_pnl(amount, commission, swap, fees, p_pnl_mode)), 0) as total_pnl,
+        SUM(COALESCE(SUM(public.trade_pnl(amount, commission, swap, fees, p_pnl_mode)), 0)) OVER (ORDER BY trade_date::DATE) as cumulative_pnl,
+        MODE() WITHIN GROUP (ORDER BY session) as most_common_session  -- ADDED: Calculate most common session
+      FROM public.trades
+      WHERE calendar_id = p_calendar_id
+        AND trade_date >= v_start_date
+        AND trade_date < v_end_date
+      GROUP BY trade_date::DATE
+    ) daily_data
+  ),
+  -- Correct risk/reward data structure with date and rr
+  risk_reward_stats AS (
+    SELECT jsonb_build_object(
+      'average', COALESCE(AVG(risk_to_reward), 0),
+      'max', COALESCE(MAX(risk_to_reward), 0),
+      'data', jsonb_agg(
+        jsonb_build_object(
+          'date', trade_date,
+          'rr', risk_to_reward
+        )
+        ORDER BY trade_date
+      )
+    ) as risk_reward_data
+    FROM public.trades
+    WHERE calendar_id = p_calendar_id
+      AND trade_date >= v_start_date
+      AND trade_date < v_end_date
+      AND risk_to_reward IS NOT NULL
+  ),
+  -- Define all 4 trading sessions
+  all_sessions AS (
+    SELECT unnest(ARRAY['Asia', 'London', 'NY AM', 'NY PM']) AS session
+  ),
+  -- Calculate stats for sessions that have trades
+  actual_session_data AS (
+    SELECT
+      session,
+      COUNT(*) as total_trades,
+      COUNT(*) FILTER (WHERE trade_type = 'win') as wins,
+      COUNT(*) FILTER (WHERE trade_type = 'loss') as losses,
+      CASE
+        WHEN (COUNT(*) FILTER (WHERE trade_type = 'win') + COUNT(*) FILTER (WHERE trade_type = 'loss')) > 0 THEN
+          ROUND((COUNT(*) FILTER (WHERE trade_type = 'win')::DECIMAL /
+                 (COUNT(*) FILTER (WHERE trade_type = 'win') + COUNT(*) FILTER (WHERE trade_type = 'loss'))::DECIMAL) * 100, 2)
+        ELSE 0
+      END as win_rate,
+      COALESCE(SUM(public.trade_pnl(amount, commission, swap, fees, p_pnl_mode)), 0) as total_pnl,
+      COALESCE(AVG(public.trade_pnl(amount, commission, swap, fees, p_pnl_mode)), 0) as averagePnL
+    FROM public.trades
+    WHERE calendar_id = p_calendar_id
+      AND trade_date >= v_start_date
+      AND trade_date < v_end_date
+      AND session IS NOT NULL
+    GROUP BY session
+  ),
+  -- LEFT JOIN to ensure all 4 sessions are returned, even with 0 trades
+  -- FIXED: Now calculates pnlPercentage using account_balance
+  session_stats AS (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'session', s.session,
+        'total_trades', COALESCE(asd.total_trades, 0),
+        'winners', COALESCE(asd.wins, 0),
+        'losers', COALESCE(asd.losses, 0),
+        'win_rate', COALESCE(asd.win_rate, 0),
+        'total_pnl', COALESCE(asd.total_pnl, 0),
+        'averagePnL', COALESCE(asd.averagePnL, 0),
+        'pnlPercentage', CASE
+          WHEN v_account_balance > 0 THEN
+            ROUND((COALESCE(asd.total_pnl, 0) / v_account_balance) * 100, 2)
+          ELSE 0
+        END
+      )
+      ORDER BY
+        CASE s.session
+          WHEN 'Asia' THEN 1
+          WHEN 'London' THEN 2
+          WHEN 'NY AM' THEN 3
+          WHEN 'NY PM' THEN 4
+        END
+    ) as session_stats_data
+    FROM all_sessions s
+    LEFT JOIN actual_session_data asd ON s.session = asd.session
+  ),
+  all_tags AS (
+    SELECT ARRAY_AGG(DISTINCT tag) as all_tags_data
+    FROM (
+      SELECT unnest(tags) as tag
+      FROM public.trades
+      WHERE calendar_id = p_calendar_id
+        AND trade_date >= v_start_date
+        AND trade_date < v_end_date
+    ) tags_list
+  )
+  SELECT jsonb_build_object(
+    'winLossStats', jsonb_build_object(
+      'winners', jsonb_build_object(
+        'total', ts.total_wins,
+        'avgAmount', ts.avg_win,
+        'maxConsecutive', COALESCE(cs.max_consecutive_wins, 0),
+        'avgConsecutive', ROUND(COALESCE(cs.avg_consecutive_wins, 0), 1)
+      ),
+      'losers', jsonb_build_object(
+        'total', ts.total_losses,
+        'avgAmount', ts.avg_loss,
+        'maxConsecutive', COALESCE(cs.max_consecutive_losses, 0),
+        'avgConsecutive', ROUND(COALESCE(cs.avg_consecutive_losses, 0), 1)
+      ),
+      'breakevens', jsonb_build_object(
+        'total', ts.total_breakevens,
+        'avgAmount', ts.avg_breakeven
+      ),
+      'total_trades', ts.total_trades,
+      'win_rate', CASE
+        WHEN (ts.total_wins + ts.total_losses) > 0 THEN
+          ROUND((ts.total_wins::DECIMAL / (ts.total_wins + ts.total_losses)::DECIMAL) * 100, 2)
+        ELSE 0
+      END
+    ),
+    'tagStats', COALESCE(tgs.tag_stats_data, '[]'::jsonb),
+    'dailySummaryData', COALESCE(ds.daily_summary_data, '[]'::jsonb),
+    'riskRewardStats', COALESCE(rrs.risk_reward_data, jsonb_build_object('average', 0, 'max', 0, 'data', '[]'::jsonb)),
+    'sessionStats', COALESCE(ss.session_stats_data, '[]'::jsonb),
+    'allTags', COALESCE(at.all_tags_data, ARRAY[]::TEXT[]),
+    'winLossData', jsonb_build_array(
+      jsonb_build_object('name', 'Wins', 'value', ts.total_wins),
+      jsonb_build_object('name', 'Losses', 'value', ts.total_losses),
+      jsonb_build_object('name', 'Breakeven', 'value', ts.total_breakevens)
+    )
+  ) INTO v_performance_metrics
+  FROM trade_stats ts
+  CROSS JOIN consecutive_stats cs
+  CROSS JOIN LATERAL (SELECT tag_stats_data FROM tag_stats) tgs
+  CROSS JOIN LATERAL (SELECT daily_summary_data FROM daily_summary) ds
+  CROSS JOIN LATERAL (SELECT risk_reward_data FROM risk_reward_stats) rrs
+  CROSS JOIN LATERAL (SELECT session_stats_data FROM session_stats) ss
+  CROSS JOIN LATERAL (SELECT all_tags_data FROM all_tags) at;
+
+  -- =====================================================
+  -- 4. Calculate economic correlations with averages
+  -- =====================================================
+  WITH high_impact_correlations AS (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'trade', to_jsonb(t.*),
+        'economic_events', filtered_events,
+        'hasHighImpactEvents', jsonb_array_length(filtered_events) > 0,
+        'hasMediumImpactEvents', false,
+        'eventCount', jsonb_array_length(filtered_events)
+      )
+    ) as losing_correlations
+    FROM (
+      SELECT
+        t.*,
+        (
+          SELECT jsonb_agg(event)
+          FROM jsonb_array_elements(COALESCE(t.economic_events, '[]'::jsonb)) AS event
+          WHERE event->>'impact' = 'High'
+        ) AS filtered_events
+      FROM public.trades t
+      WHERE t.calendar_id = p_calendar_id
+        AND t.trade_date >= v_start_date
+        AND t.trade_date < v_end_date
+        AND t.trade_type = 'loss'
+    ) t
+    WHERE filtered_events IS NOT NULL AND jsonb_array_length(filtered_events) > 0
+  ),
+  high_impact_winning AS (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'trade', to_jsonb(t.*),
+        'economic_events', filtered_events,
+        'hasHighImpactEvents', jsonb_array_length(filtered_events) > 0,
+        'hasMediumImpactEvents', false,
+        'eventCount', jsonb_array_length(filtered_events)
+      )
+    ) as winning_correlations
+    FROM (
+      SELECT
+        t.*,
+        (
+          SELECT jsonb_agg(event)
+          FROM jsonb_array_elements(COALESCE(t.economic_events, '[]'::jsonb)) AS event
+          WHERE event->>'impact' = 'High'
+        ) AS filtered_events
+      FROM public.trades t
+      WHERE t.calendar_id = p_calendar_id
+        AND t.trade_date >= v_start_date
+        AND t.trade_date < v_end_date
+        AND t.trade_type = 'win'
+    ) t
+    WHERE filtered_events IS NOT NULL AND jsonb_array_length(filtered_events) > 0
+  ),
+  -- Calculate sum totals for average calculations
+  high_impact_stats AS (
+    SELECT
+      COUNT(*) FILTER (WHERE trade_type = 'loss') as total_losing,
+      COUNT(*) FILTER (WHERE trade_type = 'win') as total_winning,
+      COUNT(*) FILTER (
+        WHERE trade_type = 'loss' AND EXISTS (
+          SELECT 1 FROM jsonb_array_elements(COALESCE(economic_events, '[]'::jsonb)) AS event
+          WHERE event->>'impact' = 'High'
+        )
+      ) as losing_with_events,
+      COUNT(*) FILTER (
+        WHERE trade_type = 'win' AND EXISTS (
+          SELECT 1 FROM jsonb_array_elements(COALESCE(economic_events, '[]'::jsonb)) AS event
+          WHERE event->>'impact' = 'High'
+        )
+      ) as winning_with_events,
+      -- Sum totals for averages
+      COALESCE(SUM(ABS(public.trade_pnl(amount, commission, swap, fees, p_pnl_mode))) FILTER (
+        WHERE trade_type = 'loss' AND EXISTS (
+          SELECT 1 FROM jsonb_array_elements(COALESCE(economic_events, '[]'::jsonb)) AS event
+          WHERE event->>'impact' = 'High'
+        )
+      ), 0) as total_loss_with_events,
+      COALESCE(SUM(public.trade_pnl(amount, commission, swap, fees, p_pnl_mode)) FILTER (
+        WHERE trade_type = 'win' AND EXISTS (
+          SELECT 1 FROM jsonb_array_elements(COALESCE(economic_events, '[]'::jsonb)) AS event
+          WHERE event->>'impact' = 'High'
+        )
+      ), 0) as total_win_with_events,
+      COUNT(*) FILTER (
+        WHERE trade_type = 'loss' AND NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements(COALESCE(economic_events, '[]'::jsonb)) AS event
+          WHERE event->>'impact' = 'High'
+        )
+      ) as losing_without_events,
+      COUNT(*) FILTER (
+        WHERE trade_type = 'win' AND NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements(COALESCE(economic_events, '[]'::jsonb)) AS event
+          WHERE event->>'impact' = 'High'
+        )
+      ) as winning_without_events,
+      COALESCE(SUM(ABS(public.trade_pnl(amount, commission, swap, fees, p_pnl_mode))) FILTER (
+        WHERE trade_type = 'loss' AND NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements(COALESCE(economic_events, '[]'::jsonb)) AS event
+          WHERE event->>'impact' = 'High'
+        )
+      ), 0) as total_loss_without_events,
+      COALESCE(SUM(public.trade_pnl(amount, commission, swap, fees, p_pnl_mode)) FILTER (
+        WHERE trade_type = 'win' AND NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements(COALESCE(economic_events, '[]'::jsonb)) AS event
+          WHERE event->>'impact' = 'High'
+        )
+      ), 0) as total_win_without_events
+    FROM public.trades
+    WHERE calendar_id = p_calendar_id
+      AND trade_date >= v_start_date
+      AND trade_date < v_end_date
+  ),
+  medium_impact_correlations AS (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'trade', to_jsonb(t.*),
+        'economic_events', filtered_events,
+        'hasHighImpactEvents', false,
+        'hasMediumImpactEvents', jsonb_array_length(filtered_events) > 0,
+        'eventCount', jsonb_array_length(filtered_events)
+      )
+    ) as losing_correlations
+    FROM (
+      SELECT
+        t.*,
+        (
+          SELECT jsonb_agg(event)
+          FROM jsonb_array_elements(COALESCE(t.economic_events, '[]'::jsonb)) AS event
+          WHERE event->>'impact' = 'Medium'
+        ) AS filtered_events
+      FROM public.trades t
+      WHERE t.calendar_id = p_calendar_id
+        AND t.trade_date >= v_start_date
+        AND t.trade_date < v_end_date
+        AND t.trade_type = 'loss'
+    ) t
+    WHERE filtered_events IS NOT NULL AND jsonb_array_length(filtered_events) > 0
+  ),
+  medium_impact_winning AS (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'trade', to_jsonb(t.*),
+        'economic_events', filtered_events,
+        'hasHighImpactEvents', false,
+        'hasMediumImpactEvents', jsonb_array_length(filtered_events) > 0,
+        'eventCount', jsonb_array_length(filtered_events)
+      )
+    ) as winning_correlations
+    FROM (
+      SELECT
+        t.*,
+        (
+          SELECT jsonb_agg(event)
+          FROM jsonb_array_elements(COALESCE(t.economic_events, '[]'::jsonb)) AS event
+          WHERE event->>'impact' = 'Medium'
+        ) AS filtered_events
+      FROM public.trades t
+      WHERE t.calendar_id = p_calendar_id
+        AND t.trade_date >= v_start_date
+        AND t.trade_date < v_end_date
+        AND t.trade_type = 'win'
+    ) t
+    WHERE filtered_events IS NOT NULL AND jsonb_array_length(filtered_events) > 0
+  ),
+  -- Calculate sum totals for average calculations
+  medium_impact_stats AS (
+    SELECT
+      COUNT(*) FILTER (WHERE trade_type = 'loss') as total_losing,
+      COUNT(*) FILTER (WHERE trade_type = 'win') as total_winning,
+      COUNT(*) FILTER (
+        WHERE trade_type = 'loss' AND EXISTS (
+          SELECT 1 FROM jsonb_array_elements(COALESCE(economic_events, '[]'::jsonb)) AS event
+          WHERE event->>'impact' = 'Medium'
+        )
+      ) as losing_with_events,
+      COUNT(*) FILTER (
+        WHERE trade_type = 'win' AND EXISTS (
+          SELECT 1 FROM jsonb_array_elements(COALESCE(economic_events, '[]'::jsonb)) AS event
+          WHERE event->>'impact' = 'Medium'
+        )
+      ) as winning_with_events,
+      -- Sum totals for averages
+      COALESCE(SUM(ABS(public.trade_pnl(amount, commission, swap, fees, p_pnl_mode))) FILTER (
+        WHERE trade_type = 'loss' AND EXISTS (
+          SELECT 1 FROM jsonb_array_elements(COALESCE(economic_events, '[]'::jsonb)) AS event
+          WHERE event->>'impact' = 'Medium'
+        )
+      ), 0) as total_loss_with_events,
+      COALESCE(SUM(public.trade_pnl(amount, commission, swap, fees, p_pnl_mode)) FILTER (
+        WHERE trade_type = 'win' AND EXISTS (
+          SELECT 1 FROM jsonb_array_elements(COALESCE(economic_events, '[]'::jsonb)) AS event
+          WHERE event->>'impact' = 'Medium'
+        )
+      ), 0) as total_win_with_events,
+      COUNT(*) FILTER (
+        WHERE trade_type = 'loss' AND NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements(COALESCE(economic_events, '[]'::jsonb)) AS event
+          WHERE event->>'impact' = 'Medium'
+        )
+      ) as losing_without_events,
+      COUNT(*) FILTER (
+        WHERE trade_type = 'win' AND NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements(COALESCE(economic_events, '[]'::jsonb)) AS event
+          WHERE event->>'impact' = 'Medium'
+        )
+      ) as winning_without_events,
+      COALESCE(SUM(ABS(public.trade_pnl(amount, commission, swap, fees, p_pnl_mode))) FILTER (
+        WHERE trade_type = 'loss' AND NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements(COALESCE(economic_events, '[]'::jsonb)) AS event
+          WHERE event->>'impact' = 'Medium'
+        )
+      ), 0) as total_loss_without_events,
+      COALESCE(SUM(public.trade_pnl(amount, commission, swap, fees, p_pnl_mode)) FILTER (
+        WHERE trade_type = 'win' AND NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements(COALESCE(economic_events, '[]'::jsonb)) AS event
+          WHERE event->>'impact' = 'Medium'
+        )
+      ), 0) as total_win_without_events
+    FROM public.trades
+    WHERE calendar_id = p_calendar_id
+      AND trade_date >= v_start_date
+      AND trade_date < v_end_date
+  ),
+  high_impact_event_types AS (
+    SELECT jsonb_agg(event_stats ORDER BY total_trades DESC) as event_types
+    FROM (
+      SELECT
+        event_name,
+        jsonb_build_object(
+          'event', event_name,
+          'losingTrades', losing_trades,
+          'winningTrades', winning_trades,
+          'totalLoss', total_loss,
+          'totalWin', total_win,
+          'avg_loss', CASE WHEN losing_count > 0 THEN total_loss / losing_count ELSE 0 END,
+          'avg_win', CASE WHEN winning_count > 0 THEN total_win / winning_count ELSE 0 END,
+          'count', total_trades,
+          'win_rate', CASE WHEN total_trades > 0 THEN (winning_count::DECIMAL / total_trades::DECIMAL) * 100 ELSE 0 END,
+          'economicEventDetails', first_event_details
+        ) as event_stats,
+        total_trades
+      FROM (
+        SELECT
+          event->>'name' as event_name,
+          jsonb_agg(t.* ORDER BY t.id) FILTER (WHERE t.trade_type = 'loss') as losing_trades,
+          jsonb_agg(t.* ORDER BY t.id) FILTER (WHERE t.trade_type = 'win') as winning_trades,
+          SUM(ABS(public.trade_pnl(t.amount, t.commission, t.swap, t.fees, p_pnl_mode))) FILTER (WHERE t.trade_type = 'loss') as total_loss,
+          SUM(public.trade_pnl(t.amount, t.commission, t.swap, t.fees, p_pnl_mode)) FILTER (WHERE t.trade_type = 'win') as total_win,
+          COUNT(*) FILTER (WHERE t.trade_type = 'loss') as losing_count,
+          COUNT(*) FILTER (WHERE t.trade_type = 'win') as winning_count,
+          COUNT(*) as total_trades,
+          jsonb_build_object(
+            'flagCode', (array_agg(event->>'flagCode'))[1],
+            'flagUrl', 'https://www.myfxbook.com/images/flags/' || (array_agg(event->>'flagCode'))[1] || '.png'
+          ) as first_event_details
+        FROM public.trades t,
+             jsonb_array_elements(COALESCE(t.economic_events, '[]'::jsonb)) AS event
+        WHERE t.calendar_id = p_calendar_id
+          AND t.trade_date >= v_start_date
+          AND t.trade_date < v_end_date
+          AND event->>'impact' = 'High'
+        GROUP BY event->>'name'
+      ) event_aggregates
+      ORDER BY total_trades DESC
+      LIMIT 9
+    ) top_events
+  ),
+  medium_impact_event_types AS (
+    SELECT jsonb_agg(event_stats ORDER BY total_trades DESC) as event_types
+    FROM (
+      SELECT
+        event_name,
+        jsonb_build_object(
+          'event', event_name,
+          'losingTrades', losing_trades,
+          'winningTrades', winning_trades,
+          'totalLoss', total_loss,
+          'totalWin', total_win,
+          'avg_loss', CASE WHEN losing_count > 0 THEN total_loss / losing_count ELSE 0 END,
+          'avg_win', CASE WHEN winning_count > 0 THEN total_win / winning_count ELSE 0 END,
+          'count', total_trades,
+          'win_rate', CASE WHEN total_trades > 0 THEN (winning_count::DECIMAL / total_trades::DECIMAL) * 100 ELSE 0 END,
+          'economicEventDetails', first_event_details
+        ) as event_stats,
+        total_trades
+      FROM (
+        SELECT
+          event->>'name' as event_name,
+          jsonb_agg(t.* ORDER BY t.id) FILTER (WHERE t.trade_type = 'loss') as losing_trades,
+          jsonb_agg(t.* ORDER BY t.id) FILTER (WHERE t.trade_type = 'win') as winning_trades,
+          SUM(ABS(public.trade_pnl(t.amount, t.commission, t.swap, t.fees, p_pnl_mode))) FILTER (WHERE t.trade_type = 'loss') as total_loss,
+          SUM(public.trade_pnl(t.amount, t.commission, t.swap, t.fees, p_pnl_mode)) FILTER (WHERE t.trade_type = 'win') as total_win,
+          COUNT(*) FILTER (WHERE t.trade_type = 'loss') as losing_count,
+          COUNT(*) FILTER (WHERE t.trade_type = 'win') as winning_count,
+          COUNT(*) as total_trades,
+          jsonb_build_object(
+            'flagCode', (array_agg(event->>'flagCode'))[1],
+            'flagUrl', 'https://www.myfxbook.com/images/flags/' || (array_agg(event->>'flagCode'))[1] || '.png'
+          ) as first_event_details
+        FROM public.trades t,
+             jsonb_array_elements(COALESCE(t.economic_events, '[]'::jsonb)) AS event
+        WHERE t.calendar_id = p_calendar_id
+          AND t.trade_date >= v_start_date
+          AND t.trade_date < v_end_date
+          AND event->>'impact' = 'Medium'
+        GROUP BY event->>'name'
+      ) event_aggregates
+      ORDER BY total_trades DESC
+      LIMIT 9
+    ) top_events
+  )
+  SELECT jsonb_build_object(
+    'high', jsonb_build_object(
+      'losingTradeCorrelations', COALESCE(hic.losing_correlations, '[]'::jsonb),
+      'winningTradeCorrelations', COALESCE(hiw.winning_correlations, '[]'::jsonb),
+      'correlationStats', jsonb_build_object(
+        'totalLosingTrades', his.total_losing,
+        'totalWinningTrades', his.total_winning,
+        'losingTradesWithEvents', his.losing_with_events,
+        'winningTradesWithEvents', his.winning_with_events,
+        'anyEventLossCorrelationRate', CASE
+          WHEN his.total_losing > 0 THEN (his.losing_with_events::DECIMAL / his.total_losing::DECIMAL) * 100
+          ELSE 0
+        END,
+        'anyEventWinCorrelationRate', CASE
+          WHEN his.total_winning > 0 THEN (his.winning_with_events::DECIMAL / his.total_winning::DECIMAL) * 100
+          ELSE 0
+        END,
+        -- Average calculations
+        'avgLossWithEvents', CASE
+          WHEN his.losing_with_events > 0 THEN his.total_loss_with_events / his.losing_with_events
+          ELSE 0
+        END,
+        'avgLossWithoutEvents', CASE
+          WHEN his.losing_without_events > 0 THEN his.total_loss_without_events / his.losing_without_events
+          ELSE 0
+        END,
+        'avgWinWithEvents', CASE
+          WHEN his.winning_with_events > 0 THEN his.total_win_with_events / his.winning_with_events
+          ELSE 0
+        END,
+        'avgWinWithoutEvents', CASE
+          WHEN his.winning_without_events > 0 THEN his.total_win_without_events / his.winning_without_events
+          ELSE 0
+        END,
+        'mostCommonEventTypes', COALESCE(hiet.event_types, '[]'::jsonb)
+      )
+    ),
+    'medium', jsonb_build_object(
+      'losingTradeCorrelations', COALESCE(mic.losing_correlations, '[]'::jsonb),
+      'winningTradeCorrelations', COALESCE(miw.winning_correlations, '[]'::jsonb),
+      'correlationStats', jsonb_build_object(
+        'totalLosingTrades', mis.total_losing,
+        'totalWinningTrades', mis.total_winning,
+        'losingTradesWithEvents', mis.losing_with_events,
+        'winningTradesWithEvents', mis.winning_with_events,
+        'anyEventLossCorrelationRate', CASE
+          WHEN mis.total_losing > 0 THEN (mis.losing_with_events::DECIMAL / mis.total_losing::DECIMAL) * 100
+          ELSE 0
+        END,
+        'anyEventWinCorrelationRate', CASE
+          WHEN mis.total_winning > 0 THEN (mis.winning_with_events::DECIMAL / mis.total_winning::DECIMAL) * 100
+          ELSE 0
+        END,
+        -- Average calculations
+        'avgLossWithEvents', CASE
+          WHEN mis.losing_with_events > 0 THEN mis.total_loss_with_events / mis.losing_with_events
+          ELSE 0
+        END,
+        'avgLossWithoutEvents', CASE
+          WHEN mis.losing_without_events > 0 THEN mis.total_loss_without_events / mis.losing_without_events
+          ELSE 0
+        END,
+        'avgWinWithEvents', CASE
+          WHEN mis.winning_with_events > 0 THEN mis.total_win_with_events / mis.winning_with_events
+          ELSE 0
+        END,
+        'avgWinWithoutEvents', CASE
+          WHEN mis.winning_without_events > 0 THEN mis.total_win_without_events / mis.winning_without_events
+          ELSE 0
+        END,
+        'mostCommonEventTypes', COALESCE(miet.event_types, '[]'::jsonb)
+      )
+    )
+  ) INTO v_economic_correlations
+  FROM high_impact_correlations hic
+  CROSS JOIN high_impact_winning hiw
+  CROSS JOIN high_impact_stats his
+  CROSS JOIN high_impact_event_types hiet
+  CROSS JOIN medium_impact_correlations mic
+  CROSS JOIN medium_impact_winning miw
+  CROSS JOIN medium_impact_stats mis
+  CROSS JOIN medium_impact_event_types miet;
+
+  -- =====================================================
+  -- 5. Build comprehensive result
+  -- =====================================================
+  v_result := jsonb_build_object(
+    'chartData', COALESCE(v_chart_data, '[]'::jsonb),
+    'trades', COALESCE(v_trades, '[]'::jsonb),
+    'performanceMetrics', COALESCE(v_performance_metrics, '{}'::jsonb),
+    'economicCorrelations', COALESCE(v_economic_correlations, '{}'::jsonb)
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_chart_data(UUID, TEXT, TIMESTAMPTZ, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION add_trade_with_tags(JSONB, UUID) IS
+  'Creates a trade with automatic calendar tag merging. Supports calendar linking sync fields and trade costs (commission, swap, fees). Returns success, trade_id, and tags_updated.';
+
+COMMENT ON FUNCTION update_trade_with_tags(UUID, JSONB, UUID) IS
+  'Updates a trade with automatic calendar tag merging. Supports calendar linking sync fields and trade costs (commission, swap, fees). Returns success, trade_id, and tags_updated.';
+
+COMMENT ON FUNCTION calculate_chart_data(UUID, TEXT, TIMESTAMPTZ, TEXT) IS
+'Comprehensive chart data function.
+p_pnl_mode selects which P&L the metrics use:
+- net (default): trades.amount
+- gross: trades.amount + commission + swap + fees';
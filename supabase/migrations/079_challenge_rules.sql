@@ -0,0 +1,20 @@
+-- =====================================================
+-- Migration: Challenge Rules
+-- =====================================================
+-- Funded-account (prop firm) challenges are judged on more than the daily
+-- drawdown and period targets a calendar already has:
+-- - Overall max loss from the starting balance
+-- - Trailing drawdown from the highest end-of-day balance
+-- - Minimum number of trading days
+-- - Consistency rule (no single day above X% of total profit)
+-- - Phase profit targets (e.g. Phase 1 8%, Phase 2 5%)
+--
+-- Rules are evaluated client-side against the calendar's trades from the
+-- challenge start date, so only the configuration is stored.
+
+-- Challenge configuration (null = no challenge tracking)
+ALTER TABLE calendars
+ADD COLUMN IF NOT EXISTS challenge_rules JSONB;
+
+COMMENT ON COLUMN calendars.challenge_rules IS
+  'Prop-firm challenge rules: { enabled, start_date, starting_balance, max_daily_loss, max_total_loss, trailing_drawdown, min_trading_days, consistency_percentage, phases: [{ name, profit_target }], current_phase }. Percentages are of the starting balance except consistency_percentage (of total profit).';
@@ -0,0 +1,60 @@
+-- =====================================================
+-- Migration: Share Privacy Settings
+-- =====================================================
+-- A shared calendar used to expose the full calendars row and every trade,
+-- including the account balance, notes, images and exact amounts.
+-- Owners can now restrict a share:
+-- - Hide dollar amounts (amounts are shown as % of the balance or in R)
+-- - Strip notes and/or images
+-- - Only include trades in a date range or with one of a set of tags
+--
+-- Restrictions are enforced by the get-shared-calendar edge function.
+-- The public RLS policies below only cover unrestricted shares, so a
+-- restricted calendar and its trades can no longer be read directly.
+
+-- Privacy settings of the calendar share (null = unrestricted)
+ALTER TABLE calendars
+ADD COLUMN IF NOT EXISTS share_settings JSONB;
+
+COMMENT ON COLUMN calendars.share_settings IS
+  'Share privacy settings: { hide_amounts, amount_display: percentage | r, strip_notes, strip_images, start_date, end_date, tags }. Enforced by the get-shared-calendar edge function; null = unrestricted share.';
+
+-- =====================================================
+-- RESTRICT PUBLIC RLS POLICIES TO UNRESTRICTED SHARES
+-- =====================================================
+
+DROP POLICY IF EXISTS "public_shared_calendars_read" ON calendars;
+
+CREATE POLICY "public_shared_calendars_read" ON calendars
+  FOR SELECT
+  USING (
+    is_shared = true
+    AND share_id IS NOT NULL
+    AND share_settings IS NULL
+  );
+
+DROP POLICY IF EXISTS "public_shared_trades_read" ON trades;
+
+CREATE POLICY "public_shared_trades_read" ON trades
+  FOR SELECT
+  USING (
+    -- Individual trade is shared
+    (is_shared = true AND share_id IS NOT NULL)
+    OR
+    -- Trade belongs to an unrestricted shared calendar
+    EXISTS (
+      SELECT 1 FROM calendars
+      WHERE calendars.id = trades.calendar_id
+      AND calendars.is_shared = true
+      AND calendars.share_settings IS NULL
+    )
+  );
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON POLICY "public_shared_calendars_read" ON calendars IS
+  'Allow public read access to shared calendars without privacy settings';
+
+COMMENT ON POLICY "public_shared_trades_read" ON trades IS
+  'Allow public read access to shared trades and trades belonging to shared calendars without privacy settings';
@@ -0,0 +1,267 @@
+-- =====================================================
+-- Migration: Share Access (view log, expiry, passwords)
+-- =====================================================
+-- Share links could not expire, could not be locked, and only shared
+-- calendars kept a bare view counter. This adds:
+-- - share_views: one row per view of a shared calendar or trade
+--   (timestamp, referrer and an anonymised client hash - no IP addresses)
+-- - share_expires_at on calendars and trades
+-- - share_passwords: bcrypt hashes of share passwords, keyed by share_id
+-- - share_password_attempts: failed password attempts per share and client,
+--   so a share password cannot be brute-forced
+--
+-- Expiring and password-protected shares are served only by the
+-- get-shared-calendar / get-shared-trade edge functions, which check the
+-- expiry and password and record the view. The public RLS policies below
+-- only cover open shares.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- =====================================================
+-- EXPIRY AND TRADE VIEW COUNT
+-- =====================================================
+
+ALTER TABLE calendars
+ADD COLUMN IF NOT EXISTS share_expires_at TIMESTAMPTZ;
+
+ALTER TABLE trades
+ADD COLUMN IF NOT EXISTS share_expires_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS share_view_count INTEGER DEFAULT 0;
+
+COMMENT ON COLUMN calendars.share_expires_at IS 'When the calendar share link stops working (null = never)';
+COMMENT ON COLUMN trades.share_expires_at IS 'When the trade share link stops working (null = never)';
+COMMENT ON COLUMN trades.share_view_count IS 'Number of times the shared trade was viewed';
+
+-- =====================================================
+-- SHARE VIEW LOG
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.share_views (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    share_id TEXT NOT NULL,
+    item_type TEXT NOT NULL,
+    calendar_id UUID NOT NULL REFERENCES public.calendars(id) ON DELETE CASCADE,
+    trade_id UUID REFERENCES public.trades(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE, -- Owner of the shared item
+    viewed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    referrer TEXT,
+    client_hash TEXT, -- Daily-salted hash of IP + user agent, for counting unique viewers
+
+    CONSTRAINT share_views_item_type_check CHECK (item_type IN ('calendar', 'trade'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_views_share_id
+ON public.share_views(share_id, viewed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_share_views_user_id
+ON public.share_views(user_id, viewed_at DESC);
+
+ALTER TABLE public.share_views ENABLE ROW LEVEL SECURITY;
+
+-- Views are written by the edge functions (service role); owners can read and clear them
+DROP POLICY IF EXISTS "Users can view their share views" ON public.share_views;
+DROP POLICY IF EXISTS "Users can delete their share views" ON public.share_views;
+
+CREATE POLICY "Users can view their share views"
+  ON public.share_views
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their share views"
+  ON public.share_views
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- =====================================================
+-- SHARE PASSWORDS
+-- =====================================================
+-- Kept out of the calendars/trades rows so a stale client copy of a row
+-- can never write the password back or leak the hash
+
+CREATE TABLE IF NOT EXISTS public.share_passwords (
+    share_id TEXT PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    password_hash TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.share_passwords ENABLE ROW LEVEL SECURITY;
+
+-- Owners may see which of their shares are protected; writes go through set_share_password
+DROP POLICY IF EXISTS "Users can view their share passwords" ON public.share_passwords;
+
+CREATE POLICY "Users can view their share passwords"
+  ON public.share_passwords
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Whether a share needs a password (used by the public RLS policies)
+CREATE OR REPLACE FUNCTION public.share_has_password(p_share_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.share_passwords WHERE share_id = p_share_id);
+$$;
+
+-- Set (or clear, with a null/empty password) the password of a share the caller owns
+CREATE OR REPLACE FUNCTION public.set_share_password(p_share_id TEXT, p_password TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM calendars WHERE share_id = p_share_id AND user_id = auth.uid())
+     AND NOT EXISTS (SELECT 1 FROM trades WHERE share_id = p_share_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to modify this share';
+  END IF;
+
+  IF p_password IS NULL OR p_password = '' THEN
+    DELETE FROM share_passwords WHERE share_id = p_share_id;
+    RETURN false;
+  END IF;
+
+  INSERT INTO share_passwords (share_id, user_id, password_hash)
+  VALUES (p_share_id, auth.uid(), crypt(p_password, gen_salt('bf')))
+  ON CONFLICT (share_id) DO UPDATE
+    SET password_hash = EXCLUDED.password_hash, created_at = NOW();
+  RETURN true;
+END;
+$$;
+
+-- Check a password against a share (true when the share has no password)
+CREATE OR REPLACE FUNCTION public.check_share_password(p_share_id TEXT, p_password TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT COALESCE(
+    (SELECT password_hash = crypt(COALESCE(p_password, ''), password_hash)
+     FROM share_passwords WHERE share_id = p_share_id),
+    true
+  );
+$$;
+
+-- Failed attempts per share and client (hashed IP), written by verify_share_password only
+CREATE TABLE IF NOT EXISTS public.share_password_attempts (
+    share_id TEXT NOT NULL,
+    client_hash TEXT NOT NULL,
+    failed_count INTEGER NOT NULL DEFAULT 0,
+    window_started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    locked_until TIMESTAMPTZ,
+
+    PRIMARY KEY (share_id, client_hash)
+);
+
+-- No policies: only the service role (edge functions) reads and writes attempts
+ALTER TABLE public.share_password_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Check a password with attempt limiting: 5 failed attempts within 15 minutes
+-- lock the client out of the share for 15 minutes.
+-- Returns 'ok', 'invalid' or 'locked' (the password is not checked while locked)
+CREATE OR REPLACE FUNCTION public.verify_share_password(p_share_id TEXT, p_password TEXT, p_client_hash TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_max_attempts CONSTANT INTEGER := 5;
+  v_window CONSTANT INTERVAL := '15 minutes';
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM share_password_attempts
+    WHERE share_id = p_share_id AND client_hash = p_client_hash AND locked_until > NOW()
+  ) THEN
+    RETURN 'locked';
+  END IF;
+
+  IF check_share_password(p_share_id, p_password) THEN
+    DELETE FROM share_password_attempts WHERE share_id = p_share_id AND client_hash = p_client_hash;
+    RETURN 'ok';
+  END IF;
+
+  INSERT INTO share_password_attempts AS a (share_id, client_hash, failed_count, window_started_at)
+  VALUES (p_share_id, p_client_hash, 1, NOW())
+  ON CONFLICT (share_id, client_hash) DO UPDATE SET
+    failed_count = CASE WHEN a.window_started_at < NOW() - v_window THEN 1 ELSE a.failed_count + 1 END,
+    window_started_at = CASE WHEN a.window_started_at < NOW() - v_window THEN NOW() ELSE a.window_started_at END,
+    locked_until = CASE
+      WHEN a.window_started_at >= NOW() - v_window AND a.failed_count + 1 >= v_max_attempts THEN NOW() + v_window
+      ELSE NULL
+    END;
+
+  RETURN 'invalid';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.share_has_password(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_share_password(TEXT, TEXT) TO authenticated;
+-- Only the edge functions may check passwords
+REVOKE EXECUTE ON FUNCTION public.check_share_password(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.check_share_password(TEXT, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.verify_share_password(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_share_password(TEXT, TEXT, TEXT) TO service_role;
+
+-- =====================================================
+-- RESTRICT PUBLIC RLS POLICIES TO OPEN SHARES
+-- =====================================================
+
+DROP POLICY IF EXISTS "public_shared_calendars_read" ON calendars;
+
+CREATE POLICY "public_shared_calendars_read" ON calendars
+  FOR SELECT
+  USING (
+    is_shared = true
+    AND share_id IS NOT NULL
+    AND share_settings IS NULL
+    AND (share_expires_at IS NULL OR share_expires_at > NOW())
+    AND NOT public.share_has_password(share_id)
+  );
+
+DROP POLICY IF EXISTS "public_shared_trades_read" ON trades;
+
+CREATE POLICY "public_shared_trades_read" ON trades
+  FOR SELECT
+  USING (
+    -- Individual trade is shared
+    (
+      is_shared = true
+      AND share_id IS NOT NULL
+      AND (share_expires_at IS NULL OR share_expires_at > NOW())
+      AND NOT public.share_has_password(share_id)
+    )
+    OR
+    -- Trade belongs to an open shared calendar
+    EXISTS (
+      SELECT 1 FROM calendars
+      WHERE calendars.id = trades.calendar_id
+      AND calendars.is_shared = true
+      AND calendars.share_settings IS NULL
+      AND (calendars.share_expires_at IS NULL OR calendars.share_expires_at > NOW())
+      AND NOT public.share_has_password(calendars.share_id)
+    )
+  );
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.share_views IS
+  'View log of shared calendars and trades, written by the get-shared-* edge functions';
+
+COMMENT ON TABLE public.share_passwords IS
+  'Bcrypt password hashes of protected share links, keyed by share_id';
+
+COMMENT ON TABLE public.share_password_attempts IS
+  'Failed share password attempts per share and hashed client IP, for the lockout in verify_share_password';
+
+COMMENT ON POLICY "public_shared_calendars_read" ON calendars IS
+  'Allow public read access to shared calendars without privacy settings, expiry passed or password';
+
+COMMENT ON POLICY "public_shared_trades_read" ON trades IS
+  'Allow public read access to open shared trades and trades belonging to open shared calendars';
@@ -0,0 +1,212 @@
+-- =====================================================
+-- Migration: Community Profiles
+-- =====================================================
+-- Lets users opt a shared calendar into a public trader profile listed on
+-- the Community page. A profile is only a display name and bio on top of an
+-- existing share link: the profile detail is the shared calendar itself, so
+-- the share's privacy settings still apply to it.
+--
+-- The leaderboard shows normalised calendar stats only (win rate, profit
+-- factor, max drawdown %, growth %) - never account sizes or dollar amounts.
+-- Shares limited to a date range or tags show the stats of the shared trades,
+-- as get-shared-calendar does.
+-- Profiles whose share link is stopped, expired or password protected are
+-- hidden from the listing.
+
+CREATE TABLE IF NOT EXISTS public.community_profiles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    calendar_id UUID NOT NULL REFERENCES public.calendars(id) ON DELETE CASCADE,
+    display_name TEXT NOT NULL,
+    bio TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT community_profiles_unique_calendar UNIQUE (calendar_id),
+    CONSTRAINT community_profiles_display_name_check CHECK (char_length(trim(display_name)) BETWEEN 1 AND 50),
+    CONSTRAINT community_profiles_bio_check CHECK (bio IS NULL OR char_length(bio) <= 500)
+);
+
+CREATE INDEX IF NOT EXISTS idx_community_profiles_user_id
+ON public.community_profiles(user_id);
+
+DROP TRIGGER IF EXISTS update_community_profiles_updated_at ON public.community_profiles;
+CREATE TRIGGER update_community_profiles_updated_at
+    BEFORE UPDATE ON public.community_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+-- Owners manage their own profiles; everyone else reads them through get_community_profiles
+ALTER TABLE public.community_profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their community profiles" ON public.community_profiles;
+DROP POLICY IF EXISTS "Users can create community profiles for their calendars" ON public.community_profiles;
+DROP POLICY IF EXISTS "Users can update their community profiles" ON public.community_profiles;
+DROP POLICY IF EXISTS "Users can delete their community profiles" ON public.community_profiles;
+
+CREATE POLICY "Users can view their community profiles"
+  ON public.community_profiles
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create community profiles for their calendars"
+  ON public.community_profiles
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.calendars
+      WHERE calendars.id = community_profiles.calendar_id
+      AND calendars.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their community profiles"
+  ON public.community_profiles
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.calendars
+      WHERE calendars.id = community_profiles.calendar_id
+      AND calendars.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete their community profiles"
+  ON public.community_profiles
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- =====================================================
+-- PUBLIC LISTING
+-- =====================================================
+
+-- Normalised stats of the trades a calendar share includes (share_settings date
+-- range and tags), matching summarizeTrades in _shared/sharePrivacy.ts
+CREATE OR REPLACE FUNCTION public.get_shared_trade_stats(p_calendar_id UUID)
+RETURNS TABLE (
+  total_trades INTEGER,
+  win_rate DECIMAL,
+  profit_factor DECIMAL,
+  max_drawdown DECIMAL,
+  growth_percentage DECIMAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH settings AS (
+    SELECT
+      COALESCE(c.account_balance, 0) AS balance,
+      NULLIF(c.share_settings->>'start_date', '')::DATE AS start_date,
+      NULLIF(c.share_settings->>'end_date', '')::DATE AS end_date,
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(c.share_settings->'tags', '[]'::JSONB))) AS tags
+    FROM calendars c
+    WHERE c.id = p_calendar_id
+  ),
+  shared_trades AS (
+    SELECT
+      t.trade_type,
+      t.amount,
+      s.balance + SUM(t.amount) OVER (ORDER BY t.trade_date, t.id) AS running_balance,
+      t.trade_date,
+      t.id
+    FROM trades t
+    CROSS JOIN settings s
+    WHERE t.calendar_id = p_calendar_id
+      AND t.deleted_at IS NULL
+      AND (s.start_date IS NULL OR (t.trade_date AT TIME ZONE 'UTC')::DATE >= s.start_date)
+      AND (s.end_date IS NULL OR (t.trade_date AT TIME ZONE 'UTC')::DATE <= s.end_date)
+      AND (cardinality(s.tags) = 0 OR t.tags && s.tags)
+  ),
+  -- Peak-to-trough drawdown of the running balance, as a percentage of the peak
+  drawdowns AS (
+    SELECT
+      st.*,
+      GREATEST((SELECT balance FROM settings), MAX(st.running_balance) OVER (ORDER BY st.trade_date, st.id)) AS peak
+    FROM shared_trades st
+  )
+  SELECT
+    COUNT(*)::INTEGER,
+    CASE WHEN COUNT(*) > 0
+      THEN ROUND(COUNT(*) FILTER (WHERE trade_type = 'win') * 100.0 / COUNT(*), 2)
+      ELSE 0 END,
+    CASE WHEN ABS(COALESCE(SUM(amount) FILTER (WHERE trade_type = 'loss'), 0)) > 0
+      THEN ROUND(COALESCE(SUM(amount) FILTER (WHERE trade_type = 'win'), 0)
+        / ABS(SUM(amount) FILTER (WHERE trade_type = 'loss')), 2)
+      ELSE 0 END,
+    ROUND(COALESCE(MAX(CASE WHEN peak > 0 THEN (peak - running_balance) / peak * 100 ELSE 0 END), 0), 2),
+    CASE WHEN (SELECT balance FROM settings) > 0
+      THEN ROUND(COALESCE(SUM(amount), 0) / (SELECT balance FROM settings) * 100, 2)
+      ELSE 0 END
+  FROM drawdowns;
+$$;
+
+-- Only used by get_community_profiles; stats of any calendar are not public
+REVOKE EXECUTE ON FUNCTION public.get_shared_trade_stats(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_community_profiles()
+RETURNS TABLE (
+  id UUID,
+  display_name TEXT,
+  bio TEXT,
+  share_id TEXT,
+  is_own BOOLEAN,
+  created_at TIMESTAMPTZ,
+  total_trades INTEGER,
+  win_rate DECIMAL,
+  profit_factor DECIMAL,
+  max_drawdown DECIMAL,
+  growth_percentage DECIMAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.display_name,
+    p.bio,
+    c.share_id,
+    p.user_id = auth.uid(),
+    p.created_at,
+    COALESCE(f.total_trades, c.total_trades, 0),
+    COALESCE(f.win_rate, c.win_rate, 0),
+    COALESCE(f.profit_factor, c.profit_factor, 0),
+    COALESCE(f.max_drawdown, c.max_drawdown, 0),
+    COALESCE(f.growth_percentage, c.pnl_performance, 0)
+  FROM community_profiles p
+  JOIN calendars c ON c.id = p.calendar_id
+  -- Whole-calendar stats would leak the trades a filtered share leaves out
+  LEFT JOIN LATERAL (
+    SELECT * FROM get_shared_trade_stats(c.id)
+    WHERE NULLIF(c.share_settings->>'start_date', '') IS NOT NULL
+      OR NULLIF(c.share_settings->>'end_date', '') IS NOT NULL
+      OR jsonb_array_length(COALESCE(c.share_settings->'tags', '[]'::JSONB)) > 0
+  ) f ON true
+  WHERE c.is_shared = true
+    AND c.share_id IS NOT NULL
+    AND c.deleted_at IS NULL
+    AND (c.share_expires_at IS NULL OR c.share_expires_at > NOW())
+    AND NOT share_has_password(c.share_id);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_community_profiles() TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.community_profiles IS
+  'Opt-in public trader profiles, one per shared calendar, listed on the Community page';
+
+COMMENT ON FUNCTION public.get_community_profiles() IS
+  'Listed community profiles with normalised stats of their calendars (open shares only)';
+
+COMMENT ON FUNCTION public.get_shared_trade_stats(UUID) IS
+  'Normalised stats of the trades a calendar share includes after its date range and tag filters';
@@ -0,0 +1,473 @@
+-- =====================================================
+-- Migration: Calendar Members and Trade Comments
+-- =====================================================
+-- Calendars belonged to a single user; others could only follow them through
+-- read-only share links. This adds calendar membership with roles:
+-- - owner: calendars.user_id (implicit, never stored in calendar_members)
+-- - editor: can add, edit and delete trades and change calendar settings
+-- - commenter: read-only, can comment on trades
+-- - viewer: read-only
+--
+-- Members join through calendar invites: invite_links rows with a
+-- calendar_id and calendar_role, consumed by the consume-invite edge function.
+-- Trades keep the owner's user_id whoever creates them (add_trade_with_tags
+-- sets it from the calendar), so stats and existing owner policies still apply.
+
+-- =====================================================
+-- CALENDAR MEMBERS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.calendar_members (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    calendar_id UUID NOT NULL REFERENCES public.calendars(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL,
+    invited_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT calendar_members_role_check CHECK (role IN ('editor', 'commenter', 'viewer')),
+    CONSTRAINT calendar_members_unique_member UNIQUE (calendar_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_members_user_id
+ON public.calendar_members(user_id);
+
+DROP TRIGGER IF EXISTS update_calendar_members_updated_at ON public.calendar_members;
+CREATE TRIGGER update_calendar_members_updated_at
+    BEFORE UPDATE ON public.calendar_members
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Role of the current user on a calendar: 'owner', a member role, or null
+-- SECURITY DEFINER so policies on calendars can call it without recursing
+CREATE OR REPLACE FUNCTION public.get_calendar_role(p_calendar_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM calendars WHERE id = p_calendar_id AND user_id = auth.uid()) THEN 'owner'
+    ELSE (SELECT role FROM calendar_members WHERE calendar_id = p_calendar_id AND user_id = auth.uid())
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_calendar_role(p_calendar_id UUID, p_roles TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(public.get_calendar_role(p_calendar_id) = ANY(p_roles), false);
+$$;
+
+-- Owner of a calendar as stored before the current statement, for WITH CHECK clauses
+CREATE OR REPLACE FUNCTION public.get_calendar_owner(p_calendar_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_id FROM calendars WHERE id = p_calendar_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_calendar_role(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_calendar_role(UUID, TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_calendar_owner(UUID) TO authenticated;
+
+ALTER TABLE public.calendar_members ENABLE ROW LEVEL SECURITY;
+
+-- Memberships are created by consume-invite (service role)
+DROP POLICY IF EXISTS "Members can view calendar members" ON public.calendar_members;
+DROP POLICY IF EXISTS "Owners can update calendar members" ON public.calendar_members;
+DROP POLICY IF EXISTS "Owners and members can remove memberships" ON public.calendar_members;
+
+CREATE POLICY "Members can view calendar members"
+  ON public.calendar_members
+  FOR SELECT
+  USING (public.has_calendar_role(calendar_id, ARRAY['owner', 'editor', 'commenter', 'viewer']));
+
+CREATE POLICY "Owners can update calendar members"
+  ON public.calendar_members
+  FOR UPDATE
+  USING (public.has_calendar_role(calendar_id, ARRAY['owner']))
+  WITH CHECK (public.has_calendar_role(calendar_id, ARRAY['owner']));
+
+-- Owners remove members; members can leave
+CREATE POLICY "Owners and members can remove memberships"
+  ON public.calendar_members
+  FOR DELETE
+  USING (auth.uid() = user_id OR public.has_calendar_role(calendar_id, ARRAY['owner']));
+
+-- Members with their names, for the members list and comment authors
+CREATE OR REPLACE FUNCTION public.get_calendar_members(p_calendar_id UUID)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  role TEXT,
+  email TEXT,
+  display_name TEXT,
+  photo_url TEXT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.id, m.user_id, m.role, u.email, u.display_name, u.photo_url, m.created_at
+  FROM calendar_members m
+  JOIN users u ON u.id = m.user_id
+  WHERE m.calendar_id = p_calendar_id
+    AND public.has_calendar_role(p_calendar_id, ARRAY['owner', 'editor', 'commenter', 'viewer'])
+  ORDER BY m.created_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_calendar_members(UUID) TO authenticated;
+
+-- =====================================================
+-- MEMBER ACCESS TO CALENDARS AND TRADES
+-- =====================================================
+-- Added next to the owner policies from 002/018; policies are OR-ed
+
+DROP POLICY IF EXISTS "Members can view calendars" ON calendars;
+DROP POLICY IF EXISTS "Editors can update calendars" ON calendars;
+
+CREATE POLICY "Members can view calendars" ON calendars
+    FOR SELECT USING (
+        public.has_calendar_role(id, ARRAY['editor', 'commenter', 'viewer'])
+    );
+
+CREATE POLICY "Editors can update calendars" ON calendars
+    FOR UPDATE USING (
+        public.has_calendar_role(id, ARRAY['editor'])
+    )
+    WITH CHECK (
+        public.has_calendar_role(id, ARRAY['editor'])
+        AND user_id = public.get_calendar_owner(id)
+    );
+
+DROP POLICY IF EXISTS "Members can view calendar trades" ON trades;
+DROP POLICY IF EXISTS "Editors can create calendar trades" ON trades;
+DROP POLICY IF EXISTS "Editors can update calendar trades" ON trades;
+DROP POLICY IF EXISTS "Editors can delete calendar trades" ON trades;
+
+CREATE POLICY "Members can view calendar trades" ON trades
+    FOR SELECT USING (
+        public.has_calendar_role(calendar_id, ARRAY['editor', 'commenter', 'viewer'])
+    );
+
+CREATE POLICY "Editors can create calendar trades" ON trades
+    FOR INSERT WITH CHECK (
+        public.has_calendar_role(calendar_id, ARRAY['editor'])
+        AND user_id = public.get_calendar_owner(calendar_id)
+    );
+
+CREATE POLICY "Editors can update calendar trades" ON trades
+    FOR UPDATE USING (
+        public.has_calendar_role(calendar_id, ARRAY['editor'])
+    )
+    WITH CHECK (
+        public.has_calendar_role(calendar_id, ARRAY['editor'])
+        AND user_id = public.get_calendar_owner(calendar_id)
+    );
+
+CREATE POLICY "Editors can delete calendar trades" ON trades
+    FOR DELETE USING (
+        public.has_calendar_role(calendar_id, ARRAY['editor'])
+    );
+
+-- Policies can't compare with the old row, so a trigger keeps ownership, sharing
+-- and trash state of a calendar and the calendar of a trade for the owner.
+-- Service role calls (auth.uid() is null) and the owner pass.
+CREATE OR REPLACE FUNCTION public.protect_calendar_owner_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR auth.uid() = OLD.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.is_shared IS DISTINCT FROM OLD.is_shared
+    OR NEW.share_id IS DISTINCT FROM OLD.share_id
+    OR NEW.share_link IS DISTINCT FROM OLD.share_link
+    OR NEW.shared_at IS DISTINCT FROM OLD.shared_at
+    OR NEW.share_settings IS DISTINCT FROM OLD.share_settings
+    OR NEW.share_expires_at IS DISTINCT FROM OLD.share_expires_at
+    OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+    OR NEW.deleted_by IS DISTINCT FROM OLD.deleted_by
+    OR NEW.auto_delete_at IS DISTINCT FROM OLD.auto_delete_at
+  THEN
+    RAISE EXCEPTION 'Only the calendar owner can change its owner, sharing or trash state'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.protect_trade_owner_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR auth.uid() = OLD.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id OR NEW.calendar_id IS DISTINCT FROM OLD.calendar_id THEN
+    RAISE EXCEPTION 'Only the calendar owner can move trades to another calendar or user'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_protect_calendar_owner_fields ON calendars;
+CREATE TRIGGER trigger_protect_calendar_owner_fields
+    BEFORE UPDATE ON calendars
+    FOR EACH ROW
+    EXECUTE FUNCTION public.protect_calendar_owner_fields();
+
+DROP TRIGGER IF EXISTS trigger_protect_trade_owner_fields ON trades;
+CREATE TRIGGER trigger_protect_trade_owner_fields
+    BEFORE UPDATE ON trades
+    FOR EACH ROW
+    EXECUTE FUNCTION public.protect_trade_owner_fields();
+
+-- Links live in calendar_links (076). Editors can read the owner's calendars, so
+-- both ends of a link must be owned by the user creating or changing it
+DROP POLICY IF EXISTS "Users can create links between their calendars" ON public.calendar_links;
+DROP POLICY IF EXISTS "Users can update their calendar links" ON public.calendar_links;
+
+CREATE POLICY "Users can create links between their calendars"
+  ON public.calendar_links
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM calendars WHERE id = source_calendar_id AND calendars.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM calendars WHERE id = target_calendar_id AND calendars.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update their calendar links"
+  ON public.calendar_links
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM calendars WHERE id = source_calendar_id AND calendars.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM calendars WHERE id = target_calendar_id AND calendars.user_id = auth.uid())
+  );
+
+-- =====================================================
+-- CALENDAR INVITES
+-- =====================================================
+
+ALTER TABLE public.invite_links
+ADD COLUMN IF NOT EXISTS calendar_id UUID REFERENCES public.calendars(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS calendar_role TEXT;
+
+ALTER TABLE public.invite_links
+DROP CONSTRAINT IF EXISTS invite_links_calendar_role_check;
+
+ALTER TABLE public.invite_links
+ADD CONSTRAINT invite_links_calendar_role_check CHECK (
+    (calendar_id IS NULL AND calendar_role IS NULL)
+    OR (calendar_id IS NOT NULL AND calendar_role IN ('editor', 'commenter', 'viewer'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_invite_links_calendar_id
+ON public.invite_links(calendar_id)
+WHERE calendar_id IS NOT NULL;
+
+-- Registration invites stay readable for pre-sign-up verification (036); calendar
+-- invites are only looked up by verify-invite/consume-invite (service role) and
+-- by their creator ("Creators can manage their invite links")
+DROP POLICY IF EXISTS "Anyone can read active invite links" ON public.invite_links;
+
+CREATE POLICY "Anyone can read active invite links"
+    ON public.invite_links
+    FOR SELECT
+    USING (
+        calendar_id IS NULL
+        AND is_active = true
+        AND (expires_at IS NULL OR expires_at > NOW())
+        AND (uses_remaining IS NULL OR uses_remaining > 0)
+    );
+
+-- Take one use of an invite for a user in a single statement, so parallel
+-- requests can't redeem a single-use invite twice. Returns no row when the
+-- invite is used up, expired, inactive or was already used by the user.
+CREATE OR REPLACE FUNCTION public.claim_invite_use(p_invite_id UUID, p_user_id UUID)
+RETURNS SETOF public.invite_links
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE invite_links
+  SET used_count = COALESCE(used_count, 0) + 1,
+      last_used_at = NOW(),
+      used_by_users = array_append(COALESCE(used_by_users, '{}'), p_user_id::TEXT),
+      uses_remaining = uses_remaining - 1,
+      is_active = (uses_remaining IS NULL OR uses_remaining > 1)
+  WHERE id = p_invite_id
+    AND is_active = true
+    AND (expires_at IS NULL OR expires_at > NOW())
+    AND (uses_remaining IS NULL OR uses_remaining > 0)
+    AND NOT (p_user_id::TEXT = ANY(COALESCE(used_by_users, '{}')))
+  RETURNING *;
+$$;
+
+-- Only the invite edge functions (service role) claim uses
+REVOKE EXECUTE ON FUNCTION public.claim_invite_use(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- TRADE COMMENTS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.trade_comments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    trade_id UUID NOT NULL REFERENCES public.trades(id) ON DELETE CASCADE,
+    calendar_id UUID NOT NULL REFERENCES public.calendars(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    author_name TEXT, -- Set from users on insert so every member can show it
+    body TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT trade_comments_body_check CHECK (char_length(trim(body)) BETWEEN 1 AND 2000)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trade_comments_trade_id
+ON public.trade_comments(trade_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.set_trade_comment_author()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT COALESCE(NULLIF(display_name, ''), split_part(email, '@', 1))
+  INTO NEW.author_name
+  FROM users
+  WHERE id = NEW.user_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_set_trade_comment_author ON public.trade_comments;
+CREATE TRIGGER trigger_set_trade_comment_author
+    BEFORE INSERT ON public.trade_comments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_trade_comment_author();
+
+-- Edits only change the body: the comment stays on its trade, calendar and author
+CREATE OR REPLACE FUNCTION public.protect_trade_comment_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.calendar_id IS DISTINCT FROM OLD.calendar_id
+    OR NEW.trade_id IS DISTINCT FROM OLD.trade_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+  THEN
+    RAISE EXCEPTION 'Only the body of a trade comment can be changed'
+      USING ERRCODE = '42501';
+  END IF;
+
+  NEW.author_name := OLD.author_name;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_protect_trade_comment_fields ON public.trade_comments;
+CREATE TRIGGER trigger_protect_trade_comment_fields
+    BEFORE UPDATE ON public.trade_comments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.protect_trade_comment_fields();
+
+DROP TRIGGER IF EXISTS update_trade_comments_updated_at ON public.trade_comments;
+CREATE TRIGGER update_trade_comments_updated_at
+    BEFORE UPDATE ON public.trade_comments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.trade_comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view trade comments" ON public.trade_comments;
+DROP POLICY IF EXISTS "Commenters can add trade comments" ON public.trade_comments;
+DROP POLICY IF EXISTS "Users can update their trade comments" ON public.trade_comments;
+DROP POLICY IF EXISTS "Authors and owners can delete trade comments" ON public.trade_comments;
+
+CREATE POLICY "Members can view trade comments"
+  ON public.trade_comments
+  FOR SELECT
+  USING (public.has_calendar_role(calendar_id, ARRAY['owner', 'editor', 'commenter', 'viewer']));
+
+CREATE POLICY "Commenters can add trade comments"
+  ON public.trade_comments
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.has_calendar_role(calendar_id, ARRAY['owner', 'editor', 'commenter'])
+    AND EXISTS (
+      SELECT 1 FROM public.trades
+      WHERE trades.id = trade_comments.trade_id
+      AND trades.calendar_id = trade_comments.calendar_id
+    )
+  );
+
+CREATE POLICY "Users can update their trade comments"
+  ON public.trade_comments
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.has_calendar_role(calendar_id, ARRAY['owner', 'editor', 'commenter'])
+    AND EXISTS (
+      SELECT 1 FROM public.trades
+      WHERE trades.id = trade_comments.trade_id
+      AND trades.calendar_id = trade_comments.calendar_id
+    )
+  );
+
+CREATE POLICY "Authors and owners can delete trade comments"
+  ON public.trade_comments
+  FOR DELETE
+  USING (auth.uid() = user_id OR public.has_calendar_role(calendar_id, ARRAY['owner']));
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.calendar_members IS
+  'Users other than the owner with access to a calendar, and their role';
+
+COMMENT ON COLUMN public.invite_links.calendar_id IS
+  'Calendar the invite grants access to (null = registration invite only)';
+
+COMMENT ON COLUMN public.invite_links.calendar_role IS
+  'Role given to the user who consumes a calendar invite';
+
+COMMENT ON TABLE public.trade_comments IS
+  'Comment threads on trades, left by calendar owners, editors and commenters';
+
+COMMENT ON FUNCTION public.get_calendar_role(UUID) IS
+  'Role of the current user on a calendar: owner, editor, commenter, viewer or null';
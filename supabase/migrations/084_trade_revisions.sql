@@ -0,0 +1,149 @@
+-- =====================================================
+-- Migration: Trade Revisions
+-- =====================================================
+-- update_trade_with_tags overwrites trade rows in place, so edits made after
+-- the fact (amount, tags, prices...) left no audit trail. This adds an
+-- append-only revision log written by a trigger on trades: it runs inside the
+-- same transaction as update_trade_with_tags (and any other update path), so a
+-- trade can never change without its revision being recorded.
+--
+-- Each revision stores:
+-- - changes: the journaled fields that changed, as {field: {old, new}}
+-- - previous: every journaled field as it was before the edit, used to restore
+--
+-- Images, economic events, pins and sync bookkeeping are not journaled.
+
+-- =====================================================
+-- TRADE REVISIONS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.trade_revisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    trade_id UUID NOT NULL REFERENCES public.trades(id) ON DELETE CASCADE,
+    calendar_id UUID NOT NULL REFERENCES public.calendars(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE, -- Trade owner
+    revision_number INTEGER NOT NULL,
+    changed_by UUID REFERENCES public.users(id) ON DELETE SET NULL, -- Null for system updates
+    changed_by_name TEXT,
+    changes JSONB NOT NULL,
+    previous JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT trade_revisions_unique_number UNIQUE (trade_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trade_revisions_trade_id
+ON public.trade_revisions(trade_id, revision_number DESC);
+
+-- =====================================================
+-- FUNCTION: record_trade_revision
+-- =====================================================
+-- SECURITY DEFINER: revisions have no insert policy, only this trigger writes them
+CREATE OR REPLACE FUNCTION public.record_trade_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fields TEXT[] := ARRAY[
+    'name', 'amount', 'trade_type', 'trade_date', 'session',
+    'entry_price', 'exit_price', 'stop_loss', 'take_profit', 'risk_to_reward',
+    'partials_taken', 'commission', 'swap', 'fees',
+    'instrument', 'direction', 'position_size', 'notes', 'tags'
+  ];
+  v_field TEXT;
+  v_old JSONB := to_jsonb(OLD);
+  v_new JSONB := to_jsonb(NEW);
+  v_changes JSONB := '{}'::JSONB;
+  v_previous JSONB := '{}'::JSONB;
+  v_editor_name TEXT;
+BEGIN
+  -- Temporary trades are still being created
+  IF COALESCE(OLD.is_temporary, false) THEN
+    RETURN NEW;
+  END IF;
+
+  FOREACH v_field IN ARRAY v_fields LOOP
+    IF v_old->v_field IS DISTINCT FROM v_new->v_field THEN
+      v_changes := v_changes || jsonb_build_object(
+        v_field, jsonb_build_object('old', v_old->v_field, 'new', v_new->v_field)
+      );
+    END IF;
+    v_previous := v_previous || jsonb_build_object(v_field, v_old->v_field);
+  END LOOP;
+
+  IF v_changes = '{}'::JSONB THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NOT NULL THEN
+    SELECT COALESCE(NULLIF(display_name, ''), split_part(email, '@', 1))
+    INTO v_editor_name
+    FROM users
+    WHERE id = auth.uid();
+  END IF;
+
+  -- Number revisions one edit at a time, so concurrent edits of a trade never
+  -- pick the same revision_number and roll back the user's update
+  PERFORM pg_advisory_xact_lock(hashtext('trade_revisions:' || NEW.id::TEXT));
+
+  INSERT INTO trade_revisions (
+    trade_id, calendar_id, user_id, revision_number,
+    changed_by, changed_by_name, changes, previous
+  )
+  VALUES (
+    NEW.id,
+    NEW.calendar_id,
+    NEW.user_id,
+    COALESCE((SELECT MAX(revision_number) FROM trade_revisions WHERE trade_id = NEW.id), 0) + 1,
+    auth.uid(),
+    v_editor_name,
+    v_changes,
+    v_previous
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_record_trade_revision ON public.trades;
+CREATE TRIGGER trigger_record_trade_revision
+    AFTER UPDATE ON public.trades
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_trade_revision();
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+-- Append-only: readable by whoever can read the trade, never updated or deleted
+ALTER TABLE public.trade_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their trade revisions" ON public.trade_revisions;
+DROP POLICY IF EXISTS "Members can view trade revisions" ON public.trade_revisions;
+
+CREATE POLICY "Users can view their trade revisions"
+  ON public.trade_revisions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Members can view trade revisions"
+  ON public.trade_revisions
+  FOR SELECT
+  USING (public.has_calendar_role(calendar_id, ARRAY['editor', 'commenter', 'viewer']));
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.trade_revisions IS
+  'Append-only log of trade edits, written by trigger_record_trade_revision';
+
+COMMENT ON COLUMN public.trade_revisions.changes IS
+  'Journaled fields changed by the edit: {field: {old, new}}';
+
+COMMENT ON COLUMN public.trade_revisions.previous IS
+  'All journaled fields as they were before the edit, used to restore the trade';
+
+COMMENT ON FUNCTION public.record_trade_revision() IS
+  'Records a trade_revisions row when a journaled trade field changes';
@@ -0,0 +1,104 @@
+-- =====================================================
+-- Migration: Note Reminder Rules and Occurrences
+-- =====================================================
+-- Reminders could only repeat on weekdays or fire once, and were only shown
+-- passively on the calendar page. This adds:
+-- - monthly (day of month) and interval (every N days from reminder_date) rules
+-- - a time of day for a reminder: either a fixed local time (reminder_time) or
+--   a number of minutes before a trading session opens (reminder_session)
+-- - note_reminder_occurrences: per-occurrence state (notified, snoozed,
+--   dismissed) so a reminder is not repeated across tabs and devices
+--
+-- Times are evaluated in the browser's time zone; session opens follow the
+-- DST-aware session ranges used for trades.
+
+-- =====================================================
+-- NOTES: REMINDER RULES
+-- =====================================================
+
+ALTER TABLE public.notes DROP CONSTRAINT IF EXISTS notes_reminder_type_check;
+ALTER TABLE public.notes
+  ADD CONSTRAINT notes_reminder_type_check
+  CHECK (reminder_type IN ('none', 'once', 'weekly', 'monthly', 'interval'));
+
+ALTER TABLE public.notes
+  ADD COLUMN IF NOT EXISTS reminder_time TEXT, -- 'HH:mm' local time
+  ADD COLUMN IF NOT EXISTS reminder_session TEXT,
+  ADD COLUMN IF NOT EXISTS reminder_lead_minutes INTEGER,
+  ADD COLUMN IF NOT EXISTS reminder_interval_days INTEGER,
+  ADD COLUMN IF NOT EXISTS reminder_month_day INTEGER;
+
+ALTER TABLE public.notes DROP CONSTRAINT IF EXISTS notes_reminder_time_check;
+ALTER TABLE public.notes
+  ADD CONSTRAINT notes_reminder_time_check
+  CHECK (reminder_time IS NULL OR reminder_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$');
+
+ALTER TABLE public.notes DROP CONSTRAINT IF EXISTS notes_reminder_session_check;
+ALTER TABLE public.notes
+  ADD CONSTRAINT notes_reminder_session_check
+  CHECK (reminder_session IS NULL OR reminder_session IN ('Asia', 'London', 'NY AM', 'NY PM'));
+
+ALTER TABLE public.notes DROP CONSTRAINT IF EXISTS notes_reminder_lead_minutes_check;
+ALTER TABLE public.notes
+  ADD CONSTRAINT notes_reminder_lead_minutes_check
+  CHECK (reminder_lead_minutes IS NULL OR reminder_lead_minutes BETWEEN 0 AND 240);
+
+ALTER TABLE public.notes DROP CONSTRAINT IF EXISTS notes_reminder_interval_days_check;
+ALTER TABLE public.notes
+  ADD CONSTRAINT notes_reminder_interval_days_check
+  CHECK (reminder_interval_days IS NULL OR reminder_interval_days BETWEEN 1 AND 365);
+
+-- Days past the end of a short month fall on its last day
+ALTER TABLE public.notes DROP CONSTRAINT IF EXISTS notes_reminder_month_day_check;
+ALTER TABLE public.notes
+  ADD CONSTRAINT notes_reminder_month_day_check
+  CHECK (reminder_month_day IS NULL OR reminder_month_day BETWEEN 1 AND 31);
+
+COMMENT ON COLUMN public.notes.reminder_type IS 'Type of reminder: none, once (reminder_date), weekly (reminder_days), monthly (reminder_month_day), interval (every reminder_interval_days from reminder_date)';
+COMMENT ON COLUMN public.notes.reminder_time IS 'Local time of day (HH:mm) to notify at; null with no reminder_session means an all-day reminder';
+COMMENT ON COLUMN public.notes.reminder_session IS 'Trading session whose open the reminder fires before, instead of reminder_time';
+COMMENT ON COLUMN public.notes.reminder_lead_minutes IS 'Minutes before the session open to notify';
+
+-- Active reminders of a user across calendars, for notification scheduling
+CREATE INDEX IF NOT EXISTS idx_notes_user_reminder_active
+  ON public.notes(user_id)
+  WHERE is_reminder_active = true;
+
+-- =====================================================
+-- NOTE REMINDER OCCURRENCES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.note_reminder_occurrences (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    note_id UUID NOT NULL REFERENCES public.notes(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    occurrence_date DATE NOT NULL, -- Day the reminder is due on
+    status TEXT NOT NULL DEFAULT 'pending',
+    notified_at TIMESTAMPTZ,
+    snoozed_until TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT note_reminder_occurrences_status_check CHECK (status IN ('pending', 'snoozed', 'dismissed')),
+    CONSTRAINT note_reminder_occurrences_unique_day UNIQUE (note_id, occurrence_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_reminder_occurrences_user_date
+ON public.note_reminder_occurrences(user_id, occurrence_date);
+
+DROP TRIGGER IF EXISTS update_note_reminder_occurrences_updated_at ON public.note_reminder_occurrences;
+CREATE TRIGGER update_note_reminder_occurrences_updated_at
+    BEFORE UPDATE ON public.note_reminder_occurrences
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.note_reminder_occurrences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their reminder occurrences" ON public.note_reminder_occurrences;
+
+CREATE POLICY "Users can manage their reminder occurrences"
+  ON public.note_reminder_occurrences
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,370 @@
+-- =====================================================
+-- Migration: Pre-trade Checklists
+-- =====================================================
+-- Required tag groups were the only check before a trade could be saved.
+-- Calendars can now define a checklist (e.g. "HTF bias confirmed",
+-- "news checked", "risk <= 1%") that is answered in the trade form:
+-- - calendars.checklist_template holds the items and whether unticked
+--   mandatory items block saving
+-- - trades.checklist keeps the answers with a copy of each item, so editing
+--   the template later does not rewrite history
+--
+-- Checklist adherence feeds the discipline score, evaluated client-side.
+--
+-- Updates:
+-- - add_trade_with_tags / update_trade_with_tags accept the checklist
+
+-- Checklist template (null = no checklist)
+ALTER TABLE calendars
+ADD COLUMN IF NOT EXISTS checklist_template JSONB;
+
+COMMENT ON COLUMN calendars.checklist_template IS
+  'Pre-trade checklist: { enabled, block_incomplete, items: [{ id, label, mandatory }] }.';
+
+-- Checklist answers (null = no checklist when the trade was saved)
+ALTER TABLE trades
+ADD COLUMN IF NOT EXISTS checklist JSONB;
+
+COMMENT ON COLUMN trades.checklist IS
+  'Pre-trade checklist answers: [{ id, label, mandatory, checked }].';
+
+-- Drop existing functions first to allow parameter changes
+DROP FUNCTION IF EXISTS add_trade_with_tags(JSONB, UUID);
+DROP FUNCTION IF EXISTS update_trade_with_tags(UUID, JSONB, UUID);
+
+-- =====================================================
+-- FUNCTION: add_trade_with_tags (with checklist)
+-- =====================================================
+CREATE OR REPLACE FUNCTION add_trade_with_tags(
+  p_trade JSONB,
+  p_calendar_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_trade_id UUID;
+  v_user_id UUID;
+  v_calendar RECORD;
+  v_new_tags TEXT[];
+  v_calendar_tags TEXT[];
+  v_tags_updated BOOLEAN := FALSE;
+  v_result JSONB;
+BEGIN
+  -- Get calendar and user_id
+  SELECT * INTO v_calendar FROM calendars WHERE id = p_calendar_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Calendar not found: %', p_calendar_id;
+  END IF;
+
+  v_user_id := v_calendar.user_id;
+
+  -- Extract trade data and set user_id
+  v_trade_id := COALESCE((p_trade->>'id')::UUID, uuid_generate_v4());
+
+  -- Insert the trade (includes sync fields for calendar linking)
+  INSERT INTO trades (
+    id,
+    calendar_id,
+    user_id,
+    name,
+    trade_type,
+    trade_date,
+    session,
+    amount,
+    entry_price,
+    exit_price,
+    stop_loss,
+    take_profit,
+    risk_to_reward,
+    partials_taken,
+    commission,
+    swap,
+    fees,
+    instrument,
+    direction,
+    position_size,
+    notes,
+    tags,
+    checklist,
+    images,
+    economic_events,
+    is_temporary,
+    source_trade_id,
+    is_synced_copy,
+    created_at,
+    updated_at
+  ) VALUES (
+    v_trade_id,
+    p_calendar_id,
+    v_user_id,
+    p_trade->>'name',
+    p_trade->>'trade_type',
+    (p_trade->>'trade_date')::TIMESTAMPTZ,
+    p_trade->>'session',
+    (p_trade->>'amount')::DECIMAL(15,2),
+    CASE WHEN p_trade->>'entry_price' IS NOT NULL AND p_trade->>'entry_price' != ''
+      THEN (p_trade->>'entry_price')::DECIMAL(15,8)
+      ELSE NULL
+    END,
+    CASE WHEN p_trade->>'exit_price' IS NOT NULL AND p_trade->>'exit_price' != ''
+      THEN (p_trade->>'exit_price')::DECIMAL(15,8)
+      ELSE NULL
+    END,
+    CASE WHEN p_trade->>'stop_loss' IS NOT NULL AND p_trade->>'stop_loss' != ''
+      THEN (p_trade->>'stop_loss')::DECIMAL(15,8)
+      ELSE NULL
+    END,
+    CASE WHEN p_trade->>'take_profit' IS NOT NULL AND p_trade->>'take_profit' != ''
+      THEN (p_trade->>'take_profit')::DECIMAL(15,8)
+      ELSE NULL
+    END,
+    CASE WHEN p_trade->>'risk_to_reward' IS NOT NULL AND p_trade->>'risk_to_reward' != ''
+      THEN (p_trade->>'risk_to_reward')::DECIMAL(8,4)
+      ELSE NULL
+    END,
+    (p_trade->>'partials_taken')::BOOLEAN,
+    -- Trading costs (positive = cost, negative = credit)
+    NULLIF(p_trade->>'commission', '')::DECIMAL(15,2),
+    NULLIF(p_trade->>'swap', '')::DECIMAL(15,2),
+    NULLIF(p_trade->>'fees', '')::DECIMAL(15,2),
+    -- Instrument, direction and position size
+    NULLIF(p_trade->>'instrument', ''),
+    NULLIF(p_trade->>'direction', ''),
+    NULLIF(p_trade->>'position_size', '')::DECIMAL(18,4),
+    p_trade->>'notes',
+    CASE
+      WHEN p_trade ? 'tags' THEN
+        ARRAY(SELECT jsonb_array_elements_text(p_trade->'tags'))
+      ELSE ARRAY[]::TEXT[]
+    END,
+    -- Pre-trade checklist answers
+    CASE
+      WHEN jsonb_typeof(p_trade->'checklist') = 'array' THEN p_trade->'checklist'
+      ELSE NULL
+    END,
+    COALESCE((p_trade->'images')::JSONB, '[]'::JSONB),
+    COALESCE((p_trade->'economic_events')::JSONB, '[]'::JSONB),
+    COALESCE((p_trade->>'is_temporary')::BOOLEAN, FALSE),
+    -- Sync fields for calendar linking
+    (p_trade->>'source_trade_id')::UUID,
+    COALESCE((p_trade->>'is_synced_copy')::BOOLEAN, FALSE),
+    NOW(),
+    NOW()
+  );
+
+  -- Update calendar tags if trade has tags
+  IF jsonb_array_length(COALESCE((p_trade->'tags')::JSONB, '[]'::JSONB)) > 0 THEN
+    -- Extract tags from trade
+    SELECT ARRAY(SELECT jsonb_array_elements_text(p_trade->'tags')) INTO v_new_tags;
+
+    -- Get current calendar tags
+    v_calendar_tags := COALESCE(v_calendar.tags, ARRAY[]::TEXT[]);
+
+    -- Add new tags to calendar if they don't exist
+    FOR i IN 1..array_length(v_new_tags, 1) LOOP
+      IF NOT (v_new_tags[i] = ANY(v_calendar_tags)) THEN
+        v_calendar_tags := array_append(v_calendar_tags, v_new_tags[i]);
+        v_tags_updated := TRUE;
+      END IF;
+    END LOOP;
+
+    -- Update calendar tags if changed
+    IF v_tags_updated THEN
+      UPDATE calendars SET tags = v_calendar_tags WHERE id = p_calendar_id;
+    END IF;
+  END IF;
+
+  -- Build result JSON
+  SELECT jsonb_build_object(
+    'success', TRUE,
+    'trade_id', v_trade_id,
+    'tags_updated', v_tags_updated
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+-- =====================================================
+-- FUNCTION: update_trade_with_tags (with checklist)
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_trade_with_tags(
+  p_trade_id UUID,
+  p_trade_updates JSONB,
+  p_calendar_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_calendar RECORD;
+  v_new_tags TEXT[];
+  v_calendar_tags TEXT[];
+  v_tags_updated BOOLEAN := FALSE;
+  v_result JSONB;
+BEGIN
+  -- Get calendar
+  SELECT * INTO v_calendar FROM calendars WHERE id = p_calendar_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Calendar not found: %', p_calendar_id;
+  END IF;
+
+  -- Update the trade (includes sync fields for calendar linking)
+  UPDATE trades SET
+    name = COALESCE(p_trade_updates->>'name', name),
+    trade_type = COALESCE(p_trade_updates->>'trade_type', trade_type),
+    trade_date = COALESCE((p_trade_updates->>'trade_date')::TIMESTAMPTZ, trade_date),
+    session = CASE
+      WHEN p_trade_updates ? 'session' THEN p_trade_updates->>'session'
+      ELSE session
+    END,
+    amount = COALESCE((p_trade_updates->>'amount')::DECIMAL(15,2), amount),
+    entry_price = CASE
+      WHEN p_trade_updates ? 'entry_price' THEN
+        CASE WHEN p_trade_updates->>'entry_price' IS NOT NULL AND p_trade_updates->>'entry_price' != ''
+          THEN (p_trade_updates->>'entry_price')::DECIMAL(15,8)
+          ELSE NULL
+        END
+      ELSE entry_price
+    END,
+    exit_price = CASE
+      WHEN p_trade_updates ? 'exit_price' THEN
+        CASE WHEN p_trade_updates->>'exit_price' IS NOT NULL AND p_trade_updates->>'exit_price' != ''
+          THEN (p_trade_updates->>'exit_price')::DECIMAL(15,8)
+          ELSE NULL
+        END
+      ELSE exit_price
+    END,
+    stop_loss = CASE
+      WHEN p_trade_updates ? 'stop_loss' THEN
+        CASE WHEN p_trade_updates->>'stop_loss' IS NOT NULL AND p_trade_updates->>'stop_loss' != ''
+          THEN (p_trade_updates->>'stop_loss')::DECIMAL(15,8)
+          ELSE NULL
+        END
+      ELSE stop_loss
+    END,
+    take_profit = CASE
+      WHEN p_trade_updates ? 'take_profit' THEN
+        CASE WHEN p_trade_updates->>'take_profit' IS NOT NULL AND p_trade_updates->>'take_profit' != ''
+          THEN (p_trade_updates->>'take_profit')::DECIMAL(15,8)
+          ELSE NULL
+        END
+      ELSE take_profit
+    END,
+    risk_to_reward = CASE
+      WHEN p_trade_updates ? 'risk_to_reward' THEN
+        CASE WHEN p_trade_updates->>'risk_to_reward' IS NOT NULL AND p_trade_updates->>'risk_to_reward' != ''
+          THEN (p_trade_updates->>'risk_to_reward')::DECIMAL(8,4)
+          ELSE NULL
+        END
+      ELSE risk_to_reward
+    END,
+    partials_taken = COALESCE((p_trade_updates->>'partials_taken')::BOOLEAN, partials_taken),
+    -- Trading costs - a provided null clears the value
+    commission = CASE
+      WHEN p_trade_updates ? 'commission' THEN NULLIF(p_trade_updates->>'commission', '')::DECIMAL(15,2)
+      ELSE commission
+    END,
+    swap = CASE
+      WHEN p_trade_updates ? 'swap' THEN NULLIF(p_trade_updates->>'swap', '')::DECIMAL(15,2)
+      ELSE swap
+    END,
+    fees = CASE
+      WHEN p_trade_updates ? 'fees' THEN NULLIF(p_trade_updates->>'fees', '')::DECIMAL(15,2)
+      ELSE fees
+    END,
+    -- Instrument, direction and position size - a provided null clears the value
+    instrument = CASE
+      WHEN p_trade_updates ? 'instrument' THEN NULLIF(p_trade_updates->>'instrument', '')
+      ELSE instrument
+    END,
+    direction = CASE
+      WHEN p_trade_updates ? 'direction' THEN NULLIF(p_trade_updates->>'direction', '')
+      ELSE direction
+    END,
+    position_size = CASE
+      WHEN p_trade_updates ? 'position_size' THEN NULLIF(p_trade_updates->>'position_size', '')::DECIMAL(18,4)
+      ELSE position_size
+    END,
+    notes = COALESCE(p_trade_updates->>'notes', notes),
+    tags = CASE
+      WHEN p_trade_updates ? 'tags' THEN
+        ARRAY(SELECT jsonb_array_elements_text(p_trade_updates->'tags'))
+      ELSE tags
+    END,
+    -- Pre-trade checklist answers - a provided null clears them
+    checklist = CASE
+      WHEN p_trade_updates ? 'checklist' THEN
+        CASE WHEN jsonb_typeof(p_trade_updates->'checklist') = 'array'
+          THEN p_trade_updates->'checklist'
+          ELSE NULL
+        END
+      ELSE checklist
+    END,
+    images = CASE
+      WHEN p_trade_updates ? 'images' THEN (p_trade_updates->'images')::JSONB
+      ELSE images
+    END,
+    economic_events = CASE
+      WHEN p_trade_updates ? 'economic_events' THEN (p_trade_updates->'economic_events')::JSONB
+      ELSE economic_events
+    END,
+    is_temporary = COALESCE((p_trade_updates->>'is_temporary')::BOOLEAN, is_temporary),
+    is_pinned = COALESCE((p_trade_updates->>'is_pinned')::BOOLEAN, is_pinned),
+    -- Sync fields - only update if provided (don't overwrite existing values)
+    source_trade_id = CASE
+      WHEN p_trade_updates ? 'source_trade_id' THEN (p_trade_updates->>'source_trade_id')::UUID
+      ELSE source_trade_id
+    END,
+    is_synced_copy = CASE
+      WHEN p_trade_updates ? 'is_synced_copy' THEN (p_trade_updates->>'is_synced_copy')::BOOLEAN
+      ELSE is_synced_copy
+    END,
+    updated_at = NOW()
+  WHERE id = p_trade_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trade not found: %', p_trade_id;
+  END IF;
+
+  -- Update calendar tags if trade has tags
+  IF p_trade_updates ? 'tags' AND jsonb_array_length(COALESCE((p_trade_updates->'tags')::JSONB, '[]'::JSONB)) > 0 THEN
+    -- Extract tags from trade
+    SELECT ARRAY(SELECT jsonb_array_elements_text(p_trade_updates->'tags')) INTO v_new_tags;
+
+    -- Get current calendar tags
+    v_calendar_tags := COALESCE(v_calendar.tags, ARRAY[]::TEXT[]);
+
+    -- Add new tags to calendar if they don't exist
+    FOR i IN 1..array_length(v_new_tags, 1) LOOP
+      IF NOT (v_new_tags[i] = ANY(v_calendar_tags)) THEN
+        v_calendar_tags := array_append(v_calendar_tags, v_new_tags[i]);
+        v_tags_updated := TRUE;
+      END IF;
+    END LOOP;
+
+    -- Update calendar tags if changed
+    IF v_tags_updated THEN
+      UPDATE calendars SET tags = v_calendar_tags WHERE id = p_calendar_id;
+    END IF;
+  END IF;
+
+  -- Build result JSON
+  SELECT jsonb_build_object(
+    'success', TRUE,
+    'trade_id', p_trade_id,
+    'tags_updated', v_tags_updated
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+COMMENT ON FUNCTION add_trade_with_tags(JSONB, UUID) IS
+  'Creates a trade with automatic calendar tag merging. Supports calendar linking sync fields, trade costs, instrument/direction/position size and checklist answers. Returns success, trade_id, and tags_updated.';
+
+COMMENT ON FUNCTION update_trade_with_tags(UUID, JSONB, UUID) IS
+  'Updates a trade with automatic calendar tag merging. Supports calendar linking sync fields, trade costs, instrument/direction/position size and checklist answers. Returns success, trade_id, and tags_updated.';
@@ -0,0 +1,77 @@
+-- =====================================================
+-- Migration: Scheduled AI Weekly Reviews
+-- =====================================================
+-- AI analysis only ran when the user asked in the chat. Calendars can now opt in
+-- to a weekly review: the ai-weekly-review edge function reviews the last complete
+-- week (performance vs. the weekly target, best/worst setups from tag stats, rule
+-- breaches, upcoming high-impact events) and saves it as a by_assistant note.
+-- - calendars.weekly_review_enabled opts in (off by default)
+-- - calendars.weekly_review_note_id links the latest review note
+-- - calendars.weekly_review_week_start records the last reviewed week, so the
+--   repeated cron runs review each calendar once per week
+-- - calendars.weekly_review_attempted_at records the last attempt, so a calendar
+--   whose review fails is retried later instead of blocking the batch
+--
+-- Requires the project_url and service_role_key vault secrets
+-- (see 013_setup_cleanup_cron_job.sql).
+
+ALTER TABLE calendars
+ADD COLUMN IF NOT EXISTS weekly_review_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS weekly_review_note_id UUID REFERENCES notes(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS weekly_review_week_start DATE,
+ADD COLUMN IF NOT EXISTS weekly_review_attempted_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN calendars.weekly_review_enabled IS
+  'Opt-in to the scheduled AI weekly review (ai-weekly-review edge function).';
+COMMENT ON COLUMN calendars.weekly_review_note_id IS
+  'Latest weekly review note; cleared when the note is deleted.';
+COMMENT ON COLUMN calendars.weekly_review_week_start IS
+  'Sunday of the last reviewed week (UTC).';
+COMMENT ON COLUMN calendars.weekly_review_attempted_at IS
+  'Start of the last weekly review attempt; failed calendars are retried after a delay.';
+
+-- Calendars the cron run still has to review
+CREATE INDEX IF NOT EXISTS idx_calendars_weekly_review
+  ON calendars (weekly_review_week_start NULLS FIRST, id)
+  WHERE weekly_review_enabled = TRUE AND deleted_at IS NULL;
+
+-- =====================================================
+-- CRON JOB
+-- =====================================================
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Drop existing cron job if it exists (for re-running migration)
+SELECT cron.unschedule('ai-weekly-review') WHERE EXISTS (
+  SELECT 1 FROM cron.job WHERE jobname = 'ai-weekly-review'
+);
+
+-- Every 15 minutes on Mondays (UTC). Each run reviews a small batch of calendars
+-- and skips those already reviewed for the week
+SELECT cron.schedule(
+  'ai-weekly-review',
+  '*/15 * * * 1',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/ai-weekly-review',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object(
+      'time', now(),
+      'triggered_by', 'cron'
+    ),
+    timeout_milliseconds := 150000
+  ) as request_id;
+  $$
+);
+
+-- View the created cron job
+SELECT
+  jobname,
+  schedule,
+  active,
+  jobid
+FROM cron.job
+WHERE jobname = 'ai-weekly-review';
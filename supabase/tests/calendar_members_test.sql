@@ -0,0 +1,114 @@
+-- =====================================================
+-- Calendar member access (083_calendar_members.sql)
+-- =====================================================
+-- Run with: supabase test db
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+-- =====================================================
+-- FIXTURES
+-- =====================================================
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'owner@example.com'),
+  ('00000000-0000-0000-0000-0000000000a2', 'editor@example.com');
+
+INSERT INTO public.users (id, firebase_uid, email, display_name) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a1', 'owner@example.com', 'Owner'),
+  ('00000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-0000000000a2', 'editor@example.com', 'Editor')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO calendars (id, user_id, name) VALUES
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000a1', 'Owner calendar'),
+  ('00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-0000000000a1', 'Owner second calendar');
+
+INSERT INTO public.calendar_members (calendar_id, user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000a2', 'editor');
+
+INSERT INTO trades (id, calendar_id, user_id, amount, trade_type, trade_date) VALUES
+  ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000c1',
+   '00000000-0000-0000-0000-0000000000a1', 100, 'win', NOW());
+
+INSERT INTO public.trade_comments (id, trade_id, calendar_id, user_id, body) VALUES
+  ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000d1',
+   '00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000a2', 'Nice entry');
+
+-- Act as the editor
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}', true);
+
+-- =====================================================
+-- CALENDARS
+-- =====================================================
+SELECT lives_ok(
+  $$ UPDATE calendars SET name = 'Renamed by editor' WHERE id = '00000000-0000-0000-0000-0000000000c1' $$,
+  'Editors can update calendar settings'
+);
+
+SELECT is(
+  (SELECT name FROM calendars WHERE id = '00000000-0000-0000-0000-0000000000c1'),
+  'Renamed by editor',
+  'Editor update is saved'
+);
+
+SELECT throws_ok(
+  $$ UPDATE calendars SET is_shared = TRUE WHERE id = '00000000-0000-0000-0000-0000000000c1' $$,
+  '42501',
+  NULL,
+  'Editors cannot change sharing'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.calendar_links (source_calendar_id, target_calendar_id, user_id)
+     VALUES ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-0000000000a2') $$,
+  '42501',
+  NULL,
+  'Editors cannot link the owner''s calendars'
+);
+
+-- =====================================================
+-- TRADES
+-- =====================================================
+SELECT lives_ok(
+  $$ INSERT INTO trades (calendar_id, user_id, amount, trade_type, trade_date)
+     VALUES ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000a1', -50, 'loss', NOW()) $$,
+  'Editors can add trades under the owner'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO trades (calendar_id, user_id, amount, trade_type, trade_date)
+     VALUES ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000a2', -50, 'loss', NOW()) $$,
+  '42501',
+  NULL,
+  'Editors cannot add trades under their own user'
+);
+
+-- =====================================================
+-- TRADE COMMENTS
+-- =====================================================
+SELECT lives_ok(
+  $$ UPDATE public.trade_comments SET body = 'Nice entry, late exit', author_name = 'Someone else'
+     WHERE id = '00000000-0000-0000-0000-0000000000e1' $$,
+  'Authors can edit the comment body'
+);
+
+SELECT is(
+  (SELECT author_name FROM public.trade_comments WHERE id = '00000000-0000-0000-0000-0000000000e1'),
+  'Editor',
+  'Comment author name is kept'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.trade_comments SET calendar_id = '00000000-0000-0000-0000-0000000000c2'
+     WHERE id = '00000000-0000-0000-0000-0000000000e1' $$,
+  '42501',
+  NULL,
+  'Comments cannot move to another calendar'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;